@@ -0,0 +1,153 @@
+// ============================================================================
+// Fixture test: Razorpay webhook signature check and event planning
+// ============================================================================
+// Replays the recorded webhook bodies in fixtures/razorpay/ through
+// utils/razorpayWebhook — the part of the receiver that decides what an
+// event does — and checks the plan for each. Bodies are signed here with a
+// test secret exactly as Razorpay signs them (hex HMAC-SHA256 of the raw
+// bytes), then tampered with to check rejection.
+//
+// To add a case, save the raw body Razorpay posted (dashboard → Webhooks →
+// event log) under fixtures/razorpay/ and add an expectation below.
+//
+// Run:  npx ts-node src/__tests__/razorpayWebhookFixtures.ts
+// Exits 0 when every fixture passes, 1 otherwise.
+// ============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import {
+  planRazorpayEvent,
+  razorpayEventId,
+  razorpaySignature,
+  tenantWebhookSecret,
+  verifyRazorpaySignature
+} from '../utils/razorpayWebhook';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'razorpay');
+const PLATFORM_SECRET = 'fixture_platform_secret';
+const TENANT_ID = '7c1e2f4a-3b5d-4e6f-8a9b-0c1d2e3f4a5b';
+
+// Expected plan fields per fixture (a subset — only what is asserted)
+const EXPECTATIONS: Record<string, Record<string, unknown>> = {
+  'payment.captured.json': {
+    action: 'record_receipt',
+    paymentId: 'pay_NXq7vHk2aT5mZ1',
+    orderId: 'order_NXq6yQ0pLm3sR8',
+    amount: 11800,
+    currency: 'INR',
+    method: 'upi',
+    paidAt: '2026-10-18T08:00:00.000Z',
+    tenantId: TENANT_ID,
+    invoiceId: '0b7e9a52-6c3d-4f1e-9a8b-2d4c6e8f0a1b',
+    contractId: '5f2a8c1e-9d4b-4a6e-b3c7-1e8f2a4c6d9b',
+    environment: 'live'
+  },
+  'payment_link.paid.json': {
+    action: 'record_receipt',
+    paymentId: 'pay_NXr3gJ8mNq4rX1',
+    paymentLinkId: 'plink_NXr1tW5bYc8kD2',
+    amount: 5900,
+    method: 'netbanking',
+    // Payment and order notes are empty ([]) — the link's notes carry the invoice
+    tenantId: TENANT_ID,
+    invoiceId: '9d3f1b6a-2e4c-4b8d-a1f3-6c8e0b2d4f7a',
+    contractId: '3a6c9e1f-4b7d-4c2a-8e5f-9b1d3f6a8c2e'
+  },
+  'payment.failed.json': {
+    action: 'note_failure',
+    paymentId: 'pay_NXqA2cR9eWm4tK',
+    amount: 11800,
+    reason: 'Payment was declined by the bank',
+    invoiceId: '0b7e9a52-6c3d-4f1e-9a8b-2d4c6e8f0a1b'
+  },
+  'refund.processed.json': {
+    action: 'cancel_receipt',
+    paymentId: 'pay_NXq7vHk2aT5mZ1',
+    refundId: 'rfnd_NYb3kT8wQe2xP5',
+    amount: 11800,
+    fullRefund: true,
+    creditNoteId: null,
+    tenantId: TENANT_ID
+  },
+  'refund.processed.credit_note.json': {
+    action: 'cancel_receipt',
+    refundId: 'rfnd_NYd2qW7hVt4mK8',
+    amount: 3000,
+    fullRefund: false,
+    // Refund requested by a credit note — the receiver settles the note instead
+    creditNoteId: 'e4a7c2b9-1f3d-4e8a-9c6b-5d2f8a1e3c7b'
+  },
+  'refund.processed.partial.json': {
+    action: 'cancel_receipt',
+    refundId: 'rfnd_NYc8mP1vXr6tL3',
+    amount: 1800,
+    fullRefund: false
+  },
+  'order.paid.json': {
+    action: 'ignore',
+    reason: 'Event order.paid is not handled'
+  }
+};
+
+let failures = 0;
+let checks = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  checks++;
+  if (!ok) {
+    failures++;
+    console.error(`❌ ${label}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+const files = fs.readdirSync(FIXTURES).filter((f) => f.endsWith('.json')).sort();
+for (const file of files) {
+  const raw = fs.readFileSync(path.join(FIXTURES, file));
+  const expected = EXPECTATIONS[file];
+  check(`[${file}] has an expectation`, !!expected);
+  if (!expected) continue;
+
+  // Signature: platform secret and the tenant's derived secret, exact bytes only
+  const tenantSecret = tenantWebhookSecret(PLATFORM_SECRET, TENANT_ID);
+  check(`[${file}] platform signature verifies`,
+    verifyRazorpaySignature(raw, razorpaySignature(raw, PLATFORM_SECRET), PLATFORM_SECRET));
+  check(`[${file}] tenant signature verifies`,
+    verifyRazorpaySignature(raw, razorpaySignature(raw, tenantSecret), tenantSecret));
+  check(`[${file}] tenant signature rejected under platform secret`,
+    !verifyRazorpaySignature(raw, razorpaySignature(raw, tenantSecret), PLATFORM_SECRET));
+  check(`[${file}] other tenant's secret rejected`,
+    !verifyRazorpaySignature(raw, razorpaySignature(raw, tenantSecret),
+      tenantWebhookSecret(PLATFORM_SECRET, '00000000-0000-4000-8000-000000000000')));
+
+  const tampered = Buffer.from(raw.toString('utf8').replace(/"amount": (\d)/, '"amount": 9$1'));
+  check(`[${file}] tampered body rejected`,
+    !verifyRazorpaySignature(tampered, razorpaySignature(raw, PLATFORM_SECRET), PLATFORM_SECRET));
+  // Re-serialised JSON is different bytes — why the route must not parse before verifying
+  const reserialised = Buffer.from(JSON.stringify(JSON.parse(raw.toString('utf8'))));
+  check(`[${file}] re-serialised body rejected`,
+    !verifyRazorpaySignature(reserialised, razorpaySignature(raw, PLATFORM_SECRET), PLATFORM_SECRET));
+  check(`[${file}] malformed signature rejected`,
+    !verifyRazorpaySignature(raw, 'not-a-signature', PLATFORM_SECRET));
+
+  // Planning
+  const body = JSON.parse(raw.toString('utf8'));
+  const plan = planRazorpayEvent(body) as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(expected)) {
+    check(`[${file}] plan.${key}`, plan[key] === value,
+      `expected ${JSON.stringify(value)}, got ${JSON.stringify(plan[key])}`);
+  }
+
+  // Dedupe key: the header when present, else stable across redeliveries
+  check(`[${file}] event id from header`, razorpayEventId('evt_fixture', body) === 'evt_fixture');
+  check(`[${file}] event id without header is stable`,
+    razorpayEventId(null, body) === razorpayEventId('', JSON.parse(raw.toString('utf8'))));
+}
+
+if (failures > 0) {
+  console.error(`\n❌ ${failures} of ${checks} check(s) failed`);
+  process.exit(1);
+} else {
+  console.log(`\n✅ All ${files.length} Razorpay webhook fixtures pass (${checks} checks)`);
+  process.exit(0);
+}
@@ -0,0 +1,351 @@
+// ============================================================================
+// Storage media: JPEG / PNG codecs, location stripping, worker derivatives
+// ============================================================================
+// Checks the hand-written codecs behind storageMediaService on images built
+// here (no fixtures): JPEG encode → decode round trips, 1/8-scale DC decoding
+// and the pixel limit; PNG decoding of RGB, RGBA and palette images; EXIF GPS
+// and XMP removal from JPEGs and PNGs with the image data and orientation
+// left as they were; and thumbnails made through the worker thread.
+//
+// Run:  npx ts-node src/__tests__/storageMediaCodecs.ts
+// Exits 0 when every check passes, 1 otherwise.
+// ============================================================================
+
+import zlib from 'zlib';
+import { decodeJpeg, encodeJpeg, readJpegInfo, stripJpegLocation, JpegError } from '../utils/jpeg';
+import { decodePng, stripPngLocation } from '../utils/png';
+import { Raster } from '../utils/raster';
+import { renderDerivatives } from '../services/storageMediaWorker';
+import { storageMediaService } from '../services/storageMediaService';
+import { StorageProvider } from '../types/storage';
+
+// ────────────────────────────────────────────────────────────────────────────
+// Harness
+// ────────────────────────────────────────────────────────────────────────────
+
+let failures = 0;
+let checks = 0;
+
+function check(name: string, ok: boolean, detail = ''): void {
+  checks++;
+  if (!ok) failures++;
+  console.log(`${ok ? '  ok  ' : '  FAIL'} ${name}${!ok && detail ? ` — ${detail}` : ''}`);
+}
+
+function throwsWith(fn: () => unknown, errorClass: Function): boolean {
+  try {
+    fn();
+    return false;
+  } catch (error) {
+    return error instanceof errorClass;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Image builders
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Smooth colour gradient — compresses cleanly, so round trips stay close */
+function gradient(width: number, height: number): Raster {
+  const data = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      data[i] = Math.round((x / Math.max(1, width - 1)) * 255);
+      data[i + 1] = Math.round((y / Math.max(1, height - 1)) * 255);
+      data[i + 2] = 128;
+    }
+  }
+  return { width, height, data };
+}
+
+function meanAbsDiff(a: Raster, b: Raster): number {
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) total += Math.abs(a.data[i] - b.data[i]);
+  return total / a.data.length;
+}
+
+const LATITUDE = [12, 58, 1234];  // 12° 58' 12.34"
+
+/**
+ * EXIF APP1 segment (little-endian TIFF): IFD0 with the orientation and a
+ * pointer to a GPS directory holding a latitude.
+ */
+function exifSegment(orientation: number): Buffer {
+  const tiff = Buffer.alloc(8 + 2 + 2 * 12 + 4 + 2 + 2 * 12 + 4 + 24);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+
+  const entry = (offset: number, tag: number, type: number, count: number, value: number): void => {
+    tiff.writeUInt16LE(tag, offset);
+    tiff.writeUInt16LE(type, offset + 2);
+    tiff.writeUInt32LE(count, offset + 4);
+    tiff.writeUInt32LE(value, offset + 8);
+  };
+  const gps = 8 + 2 + 2 * 12 + 4;
+  const rationals = gps + 2 + 2 * 12 + 4;
+
+  tiff.writeUInt16LE(2, 8);
+  entry(10, 0x0112, 3, 1, orientation);      // Orientation, SHORT
+  entry(22, 0x8825, 4, 1, gps);              // GPS IFD pointer, LONG
+
+  tiff.writeUInt16LE(2, gps);
+  entry(gps + 2, 0x0001, 2, 2, 0x4e);        // GPSLatitudeRef "N"
+  entry(gps + 14, 0x0002, 5, 3, rationals);  // GPSLatitude, 3 RATIONALs
+  LATITUDE.forEach((value, i) => {
+    tiff.writeUInt32LE(value, rationals + i * 8);
+    tiff.writeUInt32LE(i === 2 ? 100 : 1, rationals + i * 8 + 4);
+  });
+
+  return appSegment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]));
+}
+
+function appSegment(marker: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+const XMP_PACKET = '<x:xmpmeta><exif:GPSLatitude>12,58.2N</exif:GPSLatitude></x:xmpmeta>';
+
+/** Insert segments straight after SOI */
+function withSegments(jpeg: Buffer, ...segments: Buffer[]): Buffer {
+  return Buffer.concat([jpeg.subarray(0, 2), ...segments, jpeg.subarray(2)]);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 8-bit, non-interlaced PNG; rows unfiltered (filter 0) */
+function buildPng(
+  width: number,
+  height: number,
+  colorType: number,
+  pixels: Uint8Array,
+  extra: Buffer[] = []
+): Buffer {
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+
+  const raw = Buffer.alloc((width * channels + 1) * height);
+  for (let y = 0; y < height; y++) {
+    Buffer.from(pixels.subarray(y * width * channels, (y + 1) * width * channels))
+      .copy(raw, y * (width * channels + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    ...extra,
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// JPEG
+// ────────────────────────────────────────────────────────────────────────────
+
+function testJpeg(): void {
+  console.log('JPEG');
+  const source = gradient(64, 48);
+  const jpeg = encodeJpeg(source, 90);
+
+  const info = readJpegInfo(jpeg);
+  check('readJpegInfo reports the frame size', info.width === 64 && info.height === 48 && info.components === 3,
+    JSON.stringify(info));
+  check('readJpegInfo defaults the orientation to 1', info.orientation === 1);
+
+  const decoded = decodeJpeg(jpeg);
+  const diff = meanAbsDiff(source, decoded);
+  check('encode → decode keeps the size', decoded.width === 64 && decoded.height === 48);
+  check('encode → decode stays close to the source', diff < 4, `mean difference ${diff.toFixed(2)}`);
+
+  const large = encodeJpeg(gradient(256, 128), 80);
+  const dc = decodeJpeg(large, { minSize: 32 });
+  check('DC-only decode gives the 1/8-scale raster', dc.width === 32 && dc.height === 16, `${dc.width}×${dc.height}`);
+  const full = decodeJpeg(large, { minSize: 64 });
+  check('full decode when 1/8 scale is too small', full.width === 256 && full.height === 128, `${full.width}×${full.height}`);
+
+  check('maxPixels refuses larger frames', throwsWith(() => decodeJpeg(large, { maxPixels: 256 * 128 - 1 }), JpegError));
+  check('non-JPEG input raises JpegError', throwsWith(() => decodeJpeg(Buffer.from('not a jpeg')), JpegError));
+}
+
+function testJpegLocation(): void {
+  console.log('JPEG location stripping');
+  const base = encodeJpeg(gradient(32, 24), 85);
+  const xmp = appSegment(0xe1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${XMP_PACKET}`, 'latin1'));
+  const tagged = withSegments(base, exifSegment(6), xmp);
+
+  const { buffer, removed } = stripJpegLocation(tagged);
+  check('reports that location data was removed', removed);
+  check('drops the XMP packet', !buffer.includes(Buffer.from('GPSLatitude', 'latin1')));
+  const latitude = Buffer.alloc(4);
+  latitude.writeUInt32LE(LATITUDE[2]);
+  check('zeroes the GPS values', tagged.includes(latitude) && !buffer.includes(latitude));
+  check('keeps the EXIF orientation', readJpegInfo(buffer).orientation === 6, String(readJpegInfo(buffer).orientation));
+  check('only the XMP segment is dropped', buffer.length === tagged.length - xmp.length);
+  check('leaves the image data untouched', buffer.subarray(buffer.length - (base.length - 2)).equals(base.subarray(2)));
+
+  const again = stripJpegLocation(buffer);
+  check('a stripped photo has nothing left to remove', !again.removed && again.buffer === buffer);
+  const plain = stripJpegLocation(base);
+  check('a photo without location comes back as-is', !plain.removed && plain.buffer === base);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// PNG
+// ────────────────────────────────────────────────────────────────────────────
+
+function testPng(): void {
+  console.log('PNG');
+  const rgb = gradient(5, 3);
+  const decodedRgb = decodePng(buildPng(5, 3, 2, rgb.data));
+  check('RGB decodes exactly', decodedRgb.width === 5 && decodedRgb.height === 3 &&
+    Buffer.from(decodedRgb.data).equals(Buffer.from(rgb.data)));
+
+  // Opaque red, half-transparent black, fully transparent green
+  const rgba = new Uint8Array([255, 0, 0, 255, 0, 0, 0, 128, 0, 255, 0, 0]);
+  const flattened = Array.from(decodePng(buildPng(3, 1, 6, rgba)).data);
+  check('alpha is composited over white',
+    flattened.join(',') === [255, 0, 0, 127, 127, 127, 255, 255, 255].join(','), flattened.join(','));
+
+  const palette = pngChunk('PLTE', Buffer.from([10, 20, 30, 200, 100, 50]));
+  const paletted = Array.from(decodePng(buildPng(2, 2, 3, new Uint8Array([0, 1, 1, 0]), [palette])).data);
+  check('palette indices map to PLTE colours',
+    paletted.join(',') === [10, 20, 30, 200, 100, 50, 200, 100, 50, 10, 20, 30].join(','), paletted.join(','));
+
+  check('maxPixels refuses larger images', throwsWith(() => decodePng(buildPng(5, 3, 2, rgb.data), { maxPixels: 14 }), Error));
+}
+
+function testPngLocation(): void {
+  console.log('PNG location stripping');
+  const text = pngChunk('tEXt', Buffer.from('Title\0Site visit', 'latin1'));
+  const exif = pngChunk('eXIf', exifSegment(1).subarray(4 + 6));
+  const xmp = pngChunk('iTXt', Buffer.from(`XML:com.adobe.xmp\0\0\0\0\0${XMP_PACKET}`, 'latin1'));
+  const pixels = gradient(4, 4).data;
+  const tagged = buildPng(4, 4, 2, pixels, [text, exif, xmp]);
+
+  const { buffer, removed } = stripPngLocation(tagged);
+  check('reports that location data was removed', removed);
+  check('drops eXIf and the XMP iTXt chunk',
+    !buffer.includes(Buffer.from('eXIf', 'latin1')) && !buffer.includes(Buffer.from('GPSLatitude', 'latin1')));
+  check('keeps other text chunks', buffer.includes(text));
+  check('still decodes to the same pixels', Buffer.from(decodePng(buffer).data).equals(Buffer.from(pixels)));
+  const plain = buildPng(4, 4, 2, pixels, [text]);
+  check('an image without location comes back as-is', stripPngLocation(plain).buffer === plain);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Derivatives
+// ────────────────────────────────────────────────────────────────────────────
+
+function testRenderDerivatives(): void {
+  console.log('Derivatives');
+  const photo = withSegments(encodeJpeg(gradient(640, 320), 80), exifSegment(6));
+  const outputs = renderDerivatives({
+    buffer: photo,
+    mimeType: 'image/jpeg',
+    outputs: [{ name: 'small', size: 160 }, { name: 'medium', size: 480 }],
+    maxPixels: 1000000,
+    quality: 80
+  });
+  const sizes = outputs.map(output => `${output.name}:${output.width}×${output.height}`).join(' ');
+  check('thumbnails fit the long side and are turned upright',
+    sizes === 'small:80×160 medium:240×480', sizes);
+  check('thumbnails are JPEGs of their reported size', outputs.every(output => {
+    const info = readJpegInfo(Buffer.from(output.body));
+    return info.width === output.width && info.height === output.height;
+  }));
+
+  const tiny = renderDerivatives({
+    buffer: buildPng(40, 20, 2, gradient(40, 20).data),
+    mimeType: 'image/png',
+    outputs: [{ name: 'small', size: 160 }],
+    maxPixels: 1000000,
+    quality: 80
+  });
+  check('small sources are never upscaled', tiny[0].width === 40 && tiny[0].height === 20);
+}
+
+async function testWorker(): Promise<void> {
+  console.log('Worker thread');
+  const stored = new Map<string, Buffer>();
+  const provider = {
+    putObject: async (objectPath: string, body: Buffer) => {
+      stored.set(objectPath, body);
+      return { url: `memory://${objectPath}` };
+    }
+  } as unknown as StorageProvider;
+
+  const photo = encodeJpeg(gradient(1200, 900), 80);
+  const derivatives = await storageMediaService.generate(
+    provider, 'tenant/service_images/abc_photo.jpg', photo, 'image/jpeg', false
+  );
+  check('generate stores both thumbnails', !derivatives.skipped &&
+    derivatives.thumbnails.small?.width === 160 && derivatives.thumbnails.medium?.height === 360,
+    JSON.stringify(derivatives));
+  check('derivatives go under derivatives/<file>/',
+    stored.has('tenant/service_images/derivatives/abc_photo/small.jpg') &&
+    stored.has('tenant/service_images/derivatives/abc_photo/medium.jpg'), Array.from(stored.keys()).join(', '));
+
+  const broken = await storageMediaService.generate(
+    provider, 'tenant/service_images/def_photo.jpg', Buffer.from('not a jpeg'), 'image/jpeg', false
+  );
+  check('a file that does not decode is skipped, not thrown', !!broken.skipped &&
+    Object.keys(broken.thumbnails).length === 0, JSON.stringify(broken));
+
+  const saved = process.env.STORAGE_PDF_RENDERER;
+  delete process.env.STORAGE_PDF_RENDERER;
+  const pdf = await storageMediaService.generate(
+    provider, 'tenant/contract_media/ghi_terms.pdf', Buffer.from('%PDF-1.4\n'), 'application/pdf', false
+  );
+  if (saved !== undefined) process.env.STORAGE_PDF_RENDERER = saved;
+  check('PDFs without a renderer are skipped', pdf.skipped === 'No PDF renderer is configured', JSON.stringify(pdf));
+}
+
+async function main(): Promise<void> {
+  testJpeg();
+  testJpegLocation();
+  testPng();
+  testPngLocation();
+  testRenderDerivatives();
+  await testWorker();
+
+  console.log(`\n${checks - failures}/${checks} checks passed`);
+  process.exit(failures ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+// ============================================================================
+// Script test: tax arithmetic and the GST split
+// ============================================================================
+// Runs utils/taxCalculation — the pure part of the tax engine — over the
+// cases the engine's stored totals depend on: exclusive tax on top,
+// inclusive back-calculation with its rounding, CGST/SGST (or UTGST) within
+// a state against IGST across states and for exports, and the place of
+// supply reported on the invoice. Also checks the tolerance the engine uses
+// to accept a client-sent tax (taxEngineService.taxMatches).
+//
+// To add a case, add a row to the matching table below.
+//
+// Run:  npx ts-node src/__tests__/taxCalculation.ts
+// Exits 0 when every case passes, 1 otherwise.
+// ============================================================================
+
+import { TaxComponent, TaxDisplayMode, TaxSupplyType } from '../types/taxTypes';
+import {
+  applyTaxRate,
+  gstPlaceOfSupply,
+  gstSupplyType,
+  splitTaxComponents,
+  sumTaxComponents
+} from '../utils/taxCalculation';
+import { taxEngineService } from '../services/taxEngineService';
+
+const KARNATAKA = '29';
+const MAHARASHTRA = '27';
+const CHANDIGARH = '04'; // union territory without a legislature — UTGST
+
+let failures = 0;
+let checks = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  checks++;
+  if (!ok) {
+    failures++;
+    console.error(`❌ ${label}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+function checkEqual(label: string, actual: unknown, expected: unknown): void {
+  check(label, JSON.stringify(actual) === JSON.stringify(expected),
+    `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+}
+
+// ── applyTaxRate ────────────────────────────────────────────────────────────
+
+const RATE_CASES: Array<{
+  label: string;
+  amount: number;
+  rate: number;
+  mode: TaxDisplayMode;
+  expected: { base_amount: number; tax_amount: number; total_amount: number };
+}> = [
+  { label: 'exclusive adds tax on top', amount: 1000, rate: 18, mode: 'excluding_tax',
+    expected: { base_amount: 1000, tax_amount: 180, total_amount: 1180 } },
+  { label: 'exclusive rounds tax to the paisa', amount: 333.33, rate: 18, mode: 'excluding_tax',
+    expected: { base_amount: 333.33, tax_amount: 60, total_amount: 393.33 } },
+  { label: 'inclusive backs out an exact tax', amount: 1180, rate: 18, mode: 'including_tax',
+    expected: { base_amount: 1000, tax_amount: 180, total_amount: 1180 } },
+  // 999 × 100 / 118 = 846.6101… — base rounds, tax takes the remainder
+  { label: 'inclusive rounds the base, tax is the remainder', amount: 999, rate: 18, mode: 'including_tax',
+    expected: { base_amount: 846.61, tax_amount: 152.39, total_amount: 999 } },
+  // 100 × 100 / 105 = 95.2380…
+  { label: 'inclusive at 5% rounds down', amount: 100, rate: 5, mode: 'including_tax',
+    expected: { base_amount: 95.24, tax_amount: 4.76, total_amount: 100 } },
+  // 10 × 100 / 112 = 8.9285… — rounds up
+  { label: 'inclusive at 12% rounds up', amount: 10, rate: 12, mode: 'including_tax',
+    expected: { base_amount: 8.93, tax_amount: 1.07, total_amount: 10 } },
+  { label: 'no_tax leaves the amount untaxed', amount: 500, rate: 18, mode: 'no_tax',
+    expected: { base_amount: 500, tax_amount: 0, total_amount: 500 } },
+  { label: 'zero rate is untaxed', amount: 500, rate: 0, mode: 'excluding_tax',
+    expected: { base_amount: 500, tax_amount: 0, total_amount: 500 } },
+  { label: 'amount is rounded before taxing', amount: 99.999, rate: 18, mode: 'excluding_tax',
+    expected: { base_amount: 100, tax_amount: 18, total_amount: 118 } },
+];
+
+for (const c of RATE_CASES) {
+  const result = applyTaxRate(c.amount, c.rate, c.mode);
+  checkEqual(`[applyTaxRate] ${c.label}`, result, c.expected);
+  check(`[applyTaxRate] ${c.label} — base + tax = total`,
+    Math.round((result.base_amount + result.tax_amount) * 100) === Math.round(result.total_amount * 100));
+}
+
+// ── gstSupplyType / gstPlaceOfSupply ────────────────────────────────────────
+
+const SUPPLY_CASES: Array<{
+  label: string;
+  seller: [string | null, string | null];
+  buyer: [string | null, string | null];
+  supplyType: TaxSupplyType;
+  placeOfSupply: string | null;
+}> = [
+  { label: 'same state is intra-state', seller: ['IN', KARNATAKA], buyer: ['IN', KARNATAKA],
+    supplyType: 'intra_state', placeOfSupply: KARNATAKA },
+  { label: 'different states are inter-state', seller: ['IN', KARNATAKA], buyer: ['IN', MAHARASHTRA],
+    supplyType: 'inter_state', placeOfSupply: MAHARASHTRA },
+  { label: 'missing countries mean India', seller: [null, KARNATAKA], buyer: [null, MAHARASHTRA],
+    supplyType: 'inter_state', placeOfSupply: MAHARASHTRA },
+  { label: 'unknown buyer state defaults to the seller\'s', seller: ['IN', KARNATAKA], buyer: ['IN', null],
+    supplyType: 'intra_state', placeOfSupply: KARNATAKA },
+  { label: 'foreign buyer is an export', seller: ['IN', KARNATAKA], buyer: ['US', null],
+    supplyType: 'export', placeOfSupply: '96' },
+  { label: 'lower-case country codes', seller: ['in', KARNATAKA], buyer: ['gb', null],
+    supplyType: 'export', placeOfSupply: '96' },
+  { label: 'seller outside India is not GST', seller: ['AE', null], buyer: ['IN', KARNATAKA],
+    supplyType: 'not_applicable', placeOfSupply: null },
+];
+
+for (const c of SUPPLY_CASES) {
+  const supplyType = gstSupplyType({
+    sellerCountryCode: c.seller[0],
+    sellerStateCode: c.seller[1],
+    buyerCountryCode: c.buyer[0],
+    buyerStateCode: c.buyer[1]
+  });
+  checkEqual(`[gstSupplyType] ${c.label}`, supplyType, c.supplyType);
+  checkEqual(`[gstPlaceOfSupply] ${c.label}`, gstPlaceOfSupply(supplyType, c.buyer[1], c.seller[1]), c.placeOfSupply);
+}
+
+// ── splitTaxComponents ──────────────────────────────────────────────────────
+
+const SPLIT_CASES: Array<{
+  label: string;
+  tax: number;
+  rate: number;
+  supplyType: TaxSupplyType;
+  state: string | null;
+  expected: TaxComponent[];
+}> = [
+  { label: 'intra-state halves into CGST + SGST', tax: 180, rate: 18, supplyType: 'intra_state', state: KARNATAKA,
+    expected: [{ code: 'CGST', rate: 9, amount: 90 }, { code: 'SGST', rate: 9, amount: 90 }] },
+  { label: 'intra-state odd paisa goes to SGST', tax: 180.01, rate: 18, supplyType: 'intra_state', state: KARNATAKA,
+    expected: [{ code: 'CGST', rate: 9, amount: 90 }, { code: 'SGST', rate: 9, amount: 90.01 }] },
+  // The inclusive back-calculation above: 999 at 18% carries 152.39 of tax
+  { label: 'inclusive remainder splits with the odd paisa on SGST', tax: 152.39, rate: 18, supplyType: 'intra_state', state: MAHARASHTRA,
+    expected: [{ code: 'CGST', rate: 9, amount: 76.19 }, { code: 'SGST', rate: 9, amount: 76.2 }] },
+  { label: 'intra-state in a union territory pays UTGST', tax: 4.76, rate: 5, supplyType: 'intra_state', state: CHANDIGARH,
+    expected: [{ code: 'CGST', rate: 2.5, amount: 2.38 }, { code: 'UTGST', rate: 2.5, amount: 2.38 }] },
+  { label: 'inter-state is one IGST', tax: 180.01, rate: 18, supplyType: 'inter_state', state: MAHARASHTRA,
+    expected: [{ code: 'IGST', rate: 18, amount: 180.01 }] },
+  { label: 'export is IGST', tax: 60, rate: 18, supplyType: 'export', state: '96',
+    expected: [{ code: 'IGST', rate: 18, amount: 60 }] },
+  { label: 'outside GST is a plain TAX line', tax: 5, rate: 5, supplyType: 'not_applicable', state: null,
+    expected: [{ code: 'TAX', rate: 5, amount: 5 }] },
+  { label: 'no tax has no components', tax: 0, rate: 18, supplyType: 'intra_state', state: KARNATAKA,
+    expected: [] },
+];
+
+for (const c of SPLIT_CASES) {
+  const components = splitTaxComponents(c.tax, c.rate, c.supplyType, c.state);
+  checkEqual(`[splitTaxComponents] ${c.label}`, components, c.expected);
+  const sum = components.reduce((s, p) => s + Math.round(p.amount * 100), 0);
+  check(`[splitTaxComponents] ${c.label} — parts sum to the tax`, sum === Math.round(c.tax * 100),
+    `parts ${sum / 100}, tax ${c.tax}`);
+}
+
+// ── sumTaxComponents ────────────────────────────────────────────────────────
+
+const lineA = splitTaxComponents(180.01, 18, 'intra_state', KARNATAKA);
+const lineB = splitTaxComponents(152.39, 18, 'intra_state', KARNATAKA);
+const lineC = splitTaxComponents(4.76, 5, 'intra_state', KARNATAKA);
+checkEqual('[sumTaxComponents] sums by code and rate, keeps rates apart',
+  sumTaxComponents([lineA, lineB, lineC]),
+  [
+    { code: 'CGST', rate: 9, amount: 166.19 },
+    { code: 'SGST', rate: 9, amount: 166.21 },
+    { code: 'CGST', rate: 2.5, amount: 2.38 },
+    { code: 'SGST', rate: 2.5, amount: 2.38 },
+  ]);
+checkEqual('[sumTaxComponents] does not mutate the lines', lineA,
+  [{ code: 'CGST', rate: 9, amount: 90 }, { code: 'SGST', rate: 9, amount: 90.01 }]);
+checkEqual('[sumTaxComponents] nothing to sum', sumTaxComponents([[], []]), []);
+
+// ── taxMatches ──────────────────────────────────────────────────────────────
+
+check('[taxMatches] exact tax matches', taxEngineService.taxMatches(180, 180, 1));
+check('[taxMatches] a paisa per line is tolerated', taxEngineService.taxMatches(180.03, 180, 3));
+check('[taxMatches] more than a paisa per line is refused', !taxEngineService.taxMatches(180.04, 180, 3));
+check('[taxMatches] unrounded sent tax is rounded first', taxEngineService.taxMatches(180.004, 180, 1));
+check('[taxMatches] a different rate is refused', !taxEngineService.taxMatches(120, 180, 1));
+check('[taxMatches] no lines still allows a paisa', taxEngineService.taxMatches(0.01, 0, 0));
+
+if (failures > 0) {
+  console.error(`\n❌ ${failures} of ${checks} check(s) failed`);
+  process.exit(1);
+} else {
+  console.log(`\n✅ Tax calculation passes (${checks} checks)`);
+  process.exit(0);
+}
@@ -1,6 +1,46 @@
 // src/config/products.ts
 // Product configuration for multi-product architecture
 
+export type StorageDriver = 'firebase' | 'local' | 's3';
+
+export const STORAGE_DRIVERS: StorageDriver[] = ['firebase', 'local', 's3'];
+
+/**
+ * Where a product's (or one tenant's) files live. Only the block for the
+ * selected driver is read.
+ */
+export interface StorageConfig {
+  driver: StorageDriver;
+  local: {
+    root: string;
+  };
+  s3: {
+    endpoint: string | undefined;
+    region: string;
+    bucket: string | undefined;
+    accessKeyId: string | undefined;
+    secretAccessKey: string | undefined;
+    forcePathStyle: boolean;
+    publicBaseUrl: string | undefined;   // set when the bucket is public-read
+  };
+}
+
+/**
+ * Per-tenant storage override, e.g. an on-prem customer's own bucket.
+ * Unset fields fall back to the product's storage config.
+ */
+export interface TenantStorageOverride {
+  driver?: StorageDriver;
+  root?: string;
+  endpoint?: string;
+  region?: string;
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  publicBaseUrl?: string;
+}
+
 export interface ProductConfig {
   code: string;
   name: string;
@@ -12,12 +52,71 @@ export interface ProductConfig {
     firebaseStorage: boolean;
     googleDrive: boolean;
   };
+  storage: StorageConfig;
+  storageTenantOverrides: Record<string, TenantStorageOverride>;
 }
 
 export interface ProductsRegistry {
   [key: string]: ProductConfig;
 }
 
+const isStorageDriver = (value: string | undefined): value is StorageDriver =>
+  !!value && (STORAGE_DRIVERS as string[]).includes(value);
+
+/**
+ * Storage config from ${prefix}STORAGE_* env vars. Without STORAGE_DRIVER a
+ * product keeps Firebase if it has the feature, else the local disk.
+ */
+const getStorageConfig = (prefix: string, firebaseStorage: boolean): StorageConfig => {
+  const driver = process.env[`${prefix}STORAGE_DRIVER`]?.toLowerCase();
+  if (driver && !isStorageDriver(driver)) {
+    console.warn(`⚠️ Unknown ${prefix}STORAGE_DRIVER "${driver}" — expected one of ${STORAGE_DRIVERS.join(', ')}`);
+  }
+
+  return {
+    driver: isStorageDriver(driver) ? driver : (firebaseStorage ? 'firebase' : 'local'),
+    local: {
+      root: process.env[`${prefix}STORAGE_LOCAL_ROOT`] || `./storage/${prefix ? prefix.replace(/_$/, '').toLowerCase() : 'default'}`,
+    },
+    s3: {
+      endpoint: process.env[`${prefix}STORAGE_S3_ENDPOINT`],
+      region: process.env[`${prefix}STORAGE_S3_REGION`] || 'us-east-1',
+      bucket: process.env[`${prefix}STORAGE_S3_BUCKET`],
+      accessKeyId: process.env[`${prefix}STORAGE_S3_ACCESS_KEY_ID`],
+      secretAccessKey: process.env[`${prefix}STORAGE_S3_SECRET_ACCESS_KEY`],
+      forcePathStyle: process.env[`${prefix}STORAGE_S3_FORCE_PATH_STYLE`] !== 'false',
+      publicBaseUrl: process.env[`${prefix}STORAGE_S3_PUBLIC_BASE_URL`],
+    },
+  };
+};
+
+/**
+ * ${prefix}STORAGE_TENANT_OVERRIDES — JSON object keyed by tenant id
+ */
+const getStorageTenantOverrides = (prefix: string): Record<string, TenantStorageOverride> => {
+  const raw = process.env[`${prefix}STORAGE_TENANT_OVERRIDES`];
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by tenant id');
+    }
+    const overrides: Record<string, TenantStorageOverride> = {};
+    Object.entries(parsed).forEach(([tenantId, override]: [string, any]) => {
+      if (override?.driver && !isStorageDriver(override.driver)) {
+        console.warn(`⚠️ ${prefix}STORAGE_TENANT_OVERRIDES: unknown driver "${override.driver}" for tenant ${tenantId} — ignored`);
+        return;
+      }
+      overrides[tenantId] = override || {};
+    });
+    return overrides;
+  } catch (error) {
+    console.error(`❌ Invalid ${prefix}STORAGE_TENANT_OVERRIDES:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+};
+
 /**
  * Get product configuration from environment variables
  * Uses env_prefix from m_products table to map to env vars
@@ -26,6 +125,7 @@ const getProductConfig = (code: string, envPrefix: string): ProductConfig => {
   const prefix = envPrefix || '';
   const supabaseUrl = process.env[`${prefix}SUPABASE_URL`];
   const supabaseKey = process.env[`${prefix}SUPABASE_KEY`];
+  const firebaseStorage = code === 'contractnest';
 
   return {
     code,
@@ -35,9 +135,11 @@ const getProductConfig = (code: string, envPrefix: string): ProductConfig => {
     supabaseKey,
     isConfigured: !!(supabaseUrl && supabaseKey),
     features: {
-      firebaseStorage: code === 'contractnest',
+      firebaseStorage,
       googleDrive: code === 'familyknows',
     },
+    storage: getStorageConfig(prefix, firebaseStorage),
+    storageTenantOverrides: getStorageTenantOverrides(prefix),
   };
 };
 
@@ -94,6 +196,7 @@ export const logProductStatus = (): void => {
     console.log(`  ${status} ${config.name}${defaultTag}`);
     console.log(`     ENV Prefix: ${config.envPrefix || '(none)'}`);
     console.log(`     Configured: ${config.isConfigured}`);
+    console.log(`     Storage: ${config.storage.driver}${Object.keys(config.storageTenantOverrides).length ? ` (+${Object.keys(config.storageTenantOverrides).length} tenant overrides)` : ''}`);
     if (!config.isConfigured) {
       console.log(`     Missing: ${config.envPrefix}SUPABASE_URL or ${config.envPrefix}SUPABASE_KEY`);
     }
@@ -228,6 +228,13 @@ export enum AuditAction {
   IP_BLOCKED = 'IP_BLOCKED',
   IP_UNBLOCKED = 'IP_UNBLOCKED',
   
+  // Upload scanning verdicts (uploadScanService)
+  FILE_SCAN = 'FILE_SCAN',
+  FILE_REJECTED = 'FILE_REJECTED',
+  MALWARE_DETECTED = 'MALWARE_DETECTED',
+  FILE_QUARANTINED = 'FILE_QUARANTINED',
+  FILE_QUARANTINE_RELEASED = 'FILE_QUARANTINE_RELEASED',
+  
   // ==================
   // System Actions (existing)
   // ==================
@@ -396,6 +403,7 @@ export const getDefaultSeverity = (action: AuditAction): AuditSeverity => {
   const criticalActions: AuditAction[] = [
     AuditAction.SYSTEM_ERROR,
     AuditAction.SECURITY_ALERT,
+    AuditAction.MALWARE_DETECTED,
     AuditAction.DATA_EXPORT,
     AuditAction.USER_DELETE,
     AuditAction.TENANT_DELETE,
@@ -412,6 +420,8 @@ export const getDefaultSeverity = (action: AuditAction): AuditSeverity => {
     AuditAction.UNAUTHORIZED_ACCESS,
     AuditAction.RATE_LIMIT_EXCEEDED,
     AuditAction.SUSPICIOUS_ACTIVITY,
+    AuditAction.FILE_REJECTED,
+    AuditAction.FILE_QUARANTINED,
     AuditAction.STORAGE_QUOTA_EXCEEDED,
     AuditAction.USER_SUSPEND,
     AuditAction.TENANT_SUSPEND,
@@ -461,6 +471,8 @@ export const shouldAlert = (action: AuditAction, severity: AuditSeverity): boole
   const alertableWarnings: AuditAction[] = [
     AuditAction.UNAUTHORIZED_ACCESS,
     AuditAction.SUSPICIOUS_ACTIVITY,
+    AuditAction.FILE_REJECTED,
+    AuditAction.FILE_QUARANTINED,
     AuditAction.USER_DELETE,
     AuditAction.TENANT_DELETE,
     AuditAction.DATA_EXPORT,
@@ -514,7 +526,9 @@ export const ActionGroups = {
     AuditAction.FILE_UPLOAD,
     AuditAction.FILE_DELETE,
     AuditAction.FILE_DOWNLOAD,
-    AuditAction.FILE_LIST
+    AuditAction.FILE_LIST,
+    AuditAction.FILE_SCAN,
+    AuditAction.FILE_QUARANTINE_RELEASED
   ],
   TENANT_MANAGEMENT: [
     AuditAction.TENANT_CREATE,
@@ -629,7 +643,10 @@ export const ActionGroups = {
     AuditAction.UNAUTHORIZED_ACCESS,
     AuditAction.RATE_LIMIT_EXCEEDED,
     AuditAction.SUSPICIOUS_ACTIVITY,
-    AuditAction.SECURITY_ALERT
+    AuditAction.SECURITY_ALERT,
+    AuditAction.FILE_REJECTED,
+    AuditAction.MALWARE_DETECTED,
+    AuditAction.FILE_QUARANTINED
   ]
 };
 
@@ -0,0 +1,74 @@
+// src/constants/permissions.ts
+// Permission catalogue and default role → permission mappings
+// Used by permissionService and the requirePermission route guard
+
+/**
+ * Permissions a route can require — `<resource>.<action>`.
+ * Seeded into m_permissions by migration 025; keep the two in step.
+ */
+export enum Permission {
+  CONTRACTS_READ = 'contracts.read',
+  CONTRACTS_WRITE = 'contracts.write',
+  CONTRACTS_DELETE = 'contracts.delete',
+
+  INVOICES_READ = 'invoices.read',
+  INVOICES_WRITE = 'invoices.write',
+  INVOICES_CANCEL = 'invoices.cancel',
+
+  CATALOG_READ = 'catalog.read',
+  CATALOG_WRITE = 'catalog.write',
+  CATALOG_PUBLISH = 'catalog.publish',
+
+  USERS_MANAGE_ROLES = 'users.manage_roles'
+}
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  [Permission.CONTRACTS_READ]: 'View contracts',
+  [Permission.CONTRACTS_WRITE]: 'Create, edit, amend and renew contracts and change their status',
+  [Permission.CONTRACTS_DELETE]: 'Delete draft and cancelled contracts',
+  [Permission.INVOICES_READ]: 'View invoices, receipts and credit notes',
+  [Permission.INVOICES_WRITE]: 'Raise invoices, record payments, run dunning, bank reconciliation and accounting exports',
+  [Permission.INVOICES_CANCEL]: 'Cancel invoices and receipts, credit notes, settlements, contract credits and deposits',
+  [Permission.CATALOG_READ]: 'View catalog blocks and templates',
+  [Permission.CATALOG_WRITE]: 'Create, edit and delete catalog blocks and templates',
+  [Permission.CATALOG_PUBLISH]: 'Make templates public and publish them to touchpoints',
+  [Permission.USERS_MANAGE_ROLES]: 'Assign roles to users and edit what each role may do'
+};
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(Permission);
+
+export const isPermission = (value: string): value is Permission =>
+  (ALL_PERMISSIONS as string[]).includes(value);
+
+/**
+ * What a member may do when nothing more specific applies: the role has no
+ * tenant mapping and no default below, or the member holds no role at all.
+ * Everyday work stays open; destructive and administrative actions do not.
+ */
+export const MEMBER_PERMISSIONS: Permission[] = [
+  Permission.CONTRACTS_READ,
+  Permission.CONTRACTS_WRITE,
+  Permission.INVOICES_READ,
+  Permission.INVOICES_WRITE,
+  Permission.CATALOG_READ,
+  Permission.CATALOG_WRITE
+];
+
+/**
+ * Defaults by role name (t_category_details.sub_cat_name) for roles the
+ * tenant has not mapped in t_role_permissions. Owner and Admin are the
+ * names the RLS policies already treat as privileged.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  Owner: ALL_PERMISSIONS,
+  Admin: ALL_PERMISSIONS
+};
+
+export default {
+  Permission,
+  PERMISSION_DESCRIPTIONS,
+  ALL_PERMISSIONS,
+  MEMBER_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  isPermission
+};
@@ -0,0 +1,507 @@
+// ============================================================================
+// Buyer Portal Controller
+// ============================================================================
+// Purpose: Buyer self-service portal — OTP sign-in, the buyer's contracts,
+//          upcoming events, invoices (view / PDF / pay) and service requests
+// Pattern: Validate → Extract portal session → Call service → Map response
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { PortalRequest } from '../middleware/portalAuth';
+import buyerPortalAuthService from '../services/buyerPortalAuthService';
+import buyerPortalService from '../services/buyerPortalService';
+import { PortalSession } from '../types/buyerPortalTypes';
+import {
+  sendSuccess,
+  sendError,
+  internalError,
+  ERROR_CODES
+} from '../utils/apiResponseHelpers';
+
+class BuyerPortalController {
+  // ─────────────────────────────────────────────
+  // Sign-in (no session yet)
+  // ─────────────────────────────────────────────
+
+  /**
+   * POST /api/portal/auth/request-otp
+   * Send a sign-in code to an email or phone number (SMS / WhatsApp) on the
+   * buyer's contact record
+   */
+  requestOtp = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const environment = req.headers['x-environment'] as string || 'live';
+      const result = await buyerPortalAuthService.requestOtp({
+        tenantId: req.body.tenant_id,
+        isLive: environment !== 'test',
+        channel: req.body.channel || 'email',
+        destination: req.body.destination,
+        requestIp: req.ip || null
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in requestOtp:', error);
+      internalError(res, 'Failed to send sign-in code');
+    }
+  };
+
+  /**
+   * POST /api/portal/auth/resend-otp
+   * A fresh code for the same address (optionally SMS ↔ WhatsApp)
+   */
+  resendOtp = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalAuthService.resendOtp({
+        challengeId: req.body.challenge_id,
+        channel: req.body.channel,
+        requestIp: req.ip || null
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in resendOtp:', error);
+      internalError(res, 'Failed to resend sign-in code');
+    }
+  };
+
+  /**
+   * POST /api/portal/auth/verify-otp
+   * Exchange the code for a portal session token
+   */
+  verifyOtp = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalAuthService.verifyOtp({
+        challengeId: req.body.challenge_id,
+        code: req.body.code
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in verifyOtp:', error);
+      internalError(res, 'Failed to verify sign-in code');
+    }
+  };
+
+  /**
+   * POST /api/portal/auth/logout
+   */
+  logout = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const result = await buyerPortalAuthService.logout(this.session(req).session_id);
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in logout:', error);
+      internalError(res, 'Failed to sign out');
+    }
+  };
+
+  /**
+   * GET /api/portal/me
+   */
+  getMe = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const result = await buyerPortalAuthService.buyer(this.session(req));
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in getMe:', error);
+      internalError(res, 'Failed to load portal profile');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Contracts & events
+  // ─────────────────────────────────────────────
+
+  /**
+   * GET /api/portal/contracts
+   */
+  listContracts = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const result = await buyerPortalService.listContracts(this.session(req));
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data || []);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in listContracts:', error);
+      internalError(res, 'Failed to list contracts');
+    }
+  };
+
+  /**
+   * GET /api/portal/contracts/:contractId
+   */
+  getContract = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.getContract(this.session(req), req.params.contractId);
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in getContract:', error);
+      internalError(res, 'Failed to load contract');
+    }
+  };
+
+  /**
+   * GET /api/portal/events
+   * Upcoming service visits and billing dates (next 90 days by default)
+   */
+  listEvents = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.listEvents(this.session(req), {
+        contractId: req.query.contract_id as string | undefined,
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined
+      });
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data || []);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in listEvents:', error);
+      internalError(res, 'Failed to list events');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Invoices & payments
+  // ─────────────────────────────────────────────
+
+  /**
+   * GET /api/portal/invoices
+   */
+  listInvoices = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.listInvoices(this.session(req), {
+        status: req.query.status as 'open' | 'all' | undefined
+      });
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data || []);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in listInvoices:', error);
+      internalError(res, 'Failed to list invoices');
+    }
+  };
+
+  /**
+   * GET /api/portal/invoices/:invoiceId
+   */
+  getInvoice = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.getInvoice(this.session(req), req.params.invoiceId);
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in getInvoice:', error);
+      internalError(res, 'Failed to load invoice');
+    }
+  };
+
+  /**
+   * GET /api/portal/invoices/:invoiceId/download
+   */
+  downloadInvoice = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.renderInvoicePdf(this.session(req), req.params.invoiceId);
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.data.filename}"`);
+      res.send(result.data.pdf);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in downloadInvoice:', error);
+      internalError(res, 'Failed to download invoice');
+    }
+  };
+
+  /**
+   * POST /api/portal/invoices/:invoiceId/pay
+   * Razorpay order for the outstanding balance (or a part of it)
+   */
+  payInvoice = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.createPaymentOrder(
+        this.session(req), req.params.invoiceId, req.body.amount
+      );
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in payInvoice:', error);
+      internalError(res, 'Failed to create payment order');
+    }
+  };
+
+  /**
+   * POST /api/portal/invoices/:invoiceId/pay/verify
+   * Razorpay checkout callback verification
+   */
+  verifyPayment = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { request_id, gateway_order_id, gateway_payment_id, gateway_signature } = req.body;
+      const result = await buyerPortalService.verifyPayment(this.session(req), req.params.invoiceId, {
+        request_id, gateway_order_id, gateway_payment_id, gateway_signature
+      });
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in verifyPayment:', error);
+      internalError(res, 'Failed to verify payment');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Service requests
+  // ─────────────────────────────────────────────
+
+  /**
+   * POST /api/portal/service-requests
+   * Raise a request; it becomes a service-execution ticket
+   */
+  createServiceRequest = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.createServiceRequest(this.session(req), {
+        contract_id: req.body.contract_id,
+        subject: req.body.subject,
+        description: req.body.description,
+        preferred_date: req.body.preferred_date,
+        event_id: req.body.event_id
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in createServiceRequest:', error);
+      internalError(res, 'Failed to raise service request');
+    }
+  };
+
+  /**
+   * GET /api/portal/service-requests
+   */
+  listServiceRequests = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const result = await buyerPortalService.listServiceRequests(this.session(req));
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data || []);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in listServiceRequests:', error);
+      internalError(res, 'Failed to list service requests');
+    }
+  };
+
+  /**
+   * GET /api/portal/service-requests/:requestId
+   */
+  getServiceRequest = async (req: PortalRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await buyerPortalService.getServiceRequest(this.session(req), req.params.requestId);
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[BuyerPortalController] Error in getServiceRequest:', error);
+      internalError(res, 'Failed to load service request');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Helpers
+  // ─────────────────────────────────────────────
+
+  /** Set by authenticatePortal on every route past sign-in */
+  private session(req: PortalRequest): PortalSession {
+    return req.portal!;
+  }
+
+  private mapServiceError(res: Response, error?: { code: string; message: string }): void {
+    const message = error?.message || 'Portal request failed';
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, message, 400);
+        return;
+      case 'INVALID_CODE':
+        sendError(res, ERROR_CODES.UNAUTHORIZED, message, 401);
+        return;
+      case 'NOT_FOUND':
+        sendError(res, ERROR_CODES.NOT_FOUND, message, 404);
+        return;
+      case 'CONFLICT':
+        sendError(res, ERROR_CODES.CONFLICT, message, 409);
+        return;
+      case 'UNPROCESSABLE_ENTITY':
+        sendError(res, ERROR_CODES.UNPROCESSABLE_ENTITY, message, 422);
+        return;
+      case 'RATE_LIMITED':
+        sendError(res, ERROR_CODES.RATE_LIMITED, message, 429);
+        return;
+      case 'EDGE_FUNCTION_ERROR':
+      case 'NETWORK_ERROR':
+        sendError(res, ERROR_CODES.EDGE_FUNCTION_ERROR, message, 502);
+        return;
+      case 'CONFIG':
+        sendError(res, ERROR_CODES.SERVICE_UNAVAILABLE, message, 503);
+        return;
+      default:
+        sendError(res, ERROR_CODES.INTERNAL_ERROR, message, 500);
+    }
+  }
+}
+
+export default new BuyerPortalController();
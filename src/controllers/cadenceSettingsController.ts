@@ -12,6 +12,7 @@ import cadenceSettingsService from '../services/cadenceSettingsService';
 import { sendSuccess, sendError, ERROR_CODES } from '../utils/apiResponseHelpers';
 
 const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
 
 class CadenceSettingsController {
   private tenantId(req: AuthRequest): string {
@@ -69,6 +70,29 @@ class CadenceSettingsController {
     if (!result.success) { sendError(res, ERROR_CODES.INTERNAL_ERROR, result.error?.message || 'Failed to remove holiday', 500); return; }
     sendSuccess(res, result.data);
   };
+
+  getWorkingHours = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId) { sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant is required', 400); return; }
+    const result = await cadenceSettingsService.getWorkingHours(tenantId);
+    if (!result.success) { sendError(res, ERROR_CODES.INTERNAL_ERROR, result.error?.message || 'Failed to load working hours', 500); return; }
+    sendSuccess(res, result.data);
+  };
+
+  updateWorkingHours = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId) { sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant is required', 400); return; }
+    const { day_start: dayStart, day_end: dayEnd } = req.body || {};
+    if (!HH_MM.test(String(dayStart ?? '')) || dayStart === '24:00' || !HH_MM.test(String(dayEnd ?? ''))) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'day_start and day_end (HH:MM, day_end up to 24:00) are required', 400); return;
+    }
+    if (dayEnd <= dayStart) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'day_end must be after day_start', 400); return;
+    }
+    const result = await cadenceSettingsService.updateWorkingHours(tenantId, dayStart, dayEnd, req.user?.id || null);
+    if (!result.success) { sendError(res, ERROR_CODES.INTERNAL_ERROR, result.error?.message || 'Failed to update working hours', 500); return; }
+    sendSuccess(res, result.data);
+  };
 }
 
 export default new CadenceSettingsController();
@@ -0,0 +1,199 @@
+// ============================================================================
+// Calendar Feed Controller
+// ============================================================================
+// Purpose: ICS subscription feeds — tenant-side management (authenticated)
+//          and the token-gated public .ics endpoint
+// Pattern: Validate → Extract context → Call service → Map response
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AuthRequest } from '../middleware/auth';
+import calendarFeedService from '../services/calendarFeedService';
+import { CalendarFeed, CalendarFeedWithUrl } from '../types/calendarFeedTypes';
+import {
+  sendSuccess,
+  sendError,
+  internalError,
+  ERROR_CODES
+} from '../utils/apiResponseHelpers';
+
+class CalendarFeedController {
+  /**
+   * GET /api/calendar-feeds
+   * Active feeds of the tenant
+   */
+  listFeeds = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await calendarFeedService.list(tenantId, environment !== 'test');
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, (result.data || []).map((feed) => this.withUrl(req, feed)));
+    } catch (error) {
+      console.error('[CalendarFeedController] Error in listFeeds:', error);
+      internalError(res, 'Failed to list calendar feeds');
+    }
+  };
+
+  /**
+   * POST /api/calendar-feeds
+   * Subscription URL for a scope + subject (created on first request)
+   */
+  createFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await calendarFeedService.ensure({
+        tenantId,
+        isLive: environment !== 'test',
+        scope: req.body.scope,
+        subjectId: req.body.subject_id || null,
+        label: req.body.label,
+        userId: req.user?.id || null
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, this.withUrl(req, result.data));
+    } catch (error) {
+      console.error('[CalendarFeedController] Error in createFeed:', error);
+      internalError(res, 'Failed to create calendar feed');
+    }
+  };
+
+  /**
+   * POST /api/calendar-feeds/:id/rotate
+   * Replace a feed's token (the old URL stops working)
+   */
+  rotateFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await calendarFeedService.rotate({
+        tenantId: req.headers['x-tenant-id'] as string,
+        feedId: req.params.id,
+        userId: req.user?.id || null
+      });
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, this.withUrl(req, result.data));
+    } catch (error) {
+      console.error('[CalendarFeedController] Error in rotateFeed:', error);
+      internalError(res, 'Failed to rotate calendar feed');
+    }
+  };
+
+  /**
+   * DELETE /api/calendar-feeds/:id
+   * Revoke a feed
+   */
+  revokeFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await calendarFeedService.revoke(req.headers['x-tenant-id'] as string, req.params.id);
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[CalendarFeedController] Error in revokeFeed:', error);
+      internalError(res, 'Failed to revoke calendar feed');
+    }
+  };
+
+  /**
+   * GET /api/ical/:token.ics  (public, token-gated)
+   * The feed as text/calendar, rendered from live data
+   */
+  getIcs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(404).type('text/plain').send('Calendar feed not found');
+        return;
+      }
+
+      const feed = await calendarFeedService.resolve(req.params.token);
+      if (!feed.success || !feed.data) {
+        const status = feed.error?.code === 'NOT_FOUND' ? 404 : 502;
+        res.status(status).type('text/plain').send(status === 404 ? 'Calendar feed not found' : 'Calendar feed unavailable');
+        return;
+      }
+
+      const ics = await calendarFeedService.render(feed.data);
+      if (!ics.success || ics.data === undefined) {
+        console.error('[CalendarFeedController] render failed:', ics.error);
+        res.status(502).type('text/plain').send('Calendar feed unavailable');
+        return;
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+      res.status(200).send(ics.data);
+    } catch (error) {
+      console.error('[CalendarFeedController] Error in getIcs:', error);
+      res.status(500).type('text/plain').send('Calendar feed unavailable');
+    }
+  };
+
+  // ==========================================================
+  // PRIVATE HELPERS
+  // ==========================================================
+
+  private withUrl(req: Request, feed: CalendarFeed): CalendarFeedWithUrl {
+    const base = (process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+    const url = `${base}/api/ical/${feed.token}.ics`;
+    return { ...feed, url, webcal_url: url.replace(/^https?:/, 'webcal:') };
+  }
+
+  private mapServiceError(res: Response, error?: { code: string; message: string }): void {
+    const message = error?.message || 'Calendar feed request failed';
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, message, 400);
+        return;
+      case 'NOT_FOUND':
+        sendError(res, ERROR_CODES.NOT_FOUND, message, 404);
+        return;
+      default:
+        sendError(res, ERROR_CODES.INTERNAL_ERROR, message, 500);
+    }
+  }
+}
+
+export default new CalendarFeedController();
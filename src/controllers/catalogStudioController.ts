@@ -14,6 +14,7 @@ import {
   TemplateQueryParams,
 } from '../types/catalogStudioTypes';
 import { deriveComputedEvents, DeriveEventsInput } from '../services/contractEventsDerivationService';
+import tenantTimeZoneService from '../services/tenantTimeZoneService';
 
 // Extended Request with auth context
 interface AuthRequest extends Request {
@@ -362,6 +363,7 @@ class CatalogStudioController {
           currency: String(ws.currency || plan?.currency || 'INR'),
           baseSubtotal: Number(ws.baseSubtotal) || undefined,
           discountTotal: Number(ws.discountTotal) || undefined,
+          timeZone: await tenantTimeZoneService.getTimeZone(context.tenantId),
         };
         computedEvents = deriveComputedEvents(input);
       }
@@ -12,6 +12,21 @@ import { AuthRequest } from '../middleware/auth';
 import ContractService from '../services/contractService';
 import PaymentGatewayService from '../services/paymentGatewayService';
 import publicPaymentService from '../services/publicPaymentService';
+import contractDocumentService from '../services/contractDocumentService';
+import contractAmendmentService from '../services/contractAmendmentService';
+import contractRenewalService from '../services/contractRenewalService';
+import contractSettlementService from '../services/contractSettlementService';
+import contractRescheduleService from '../services/contractRescheduleService';
+import tenantTimeZoneService from '../services/tenantTimeZoneService';
+import dunningService from '../services/dunningService';
+import { fxRateService } from '../services/fxRateService';
+import taxEngineService from '../services/taxEngineService';
+import {
+  deriveComputedEvents,
+  deriveInputFromContract,
+  ComputedEventPayload
+} from '../services/contractEventsDerivationService';
+import { CONTRACT_STATUSES, ContractSettlementPreview, SettlementStep } from '../types/contractTypes';
 import { getSupabaseClientFromRequest } from '../utils/supabaseConfig';
 import {
   sendSuccess,
@@ -282,8 +297,18 @@ class ContractController {
       const userId = req.user?.id || '';
       const idempotencyKey = req.headers['x-idempotency-key'] as string;
 
+      // Server-side tax (GST components per block) is authoritative: a
+      // tax_total the engine does not arrive at is refused
+      const taxed = await taxEngineService.applyContractTax(tenantId, req.body);
+      if (!taxed.success || !taxed.data) {
+        const mismatch = taxed.error?.code === 'TAX_MISMATCH';
+        sendError(res, mismatch ? ERROR_CODES.VALIDATION_ERROR : ERROR_CODES.INTERNAL_ERROR,
+          taxed.error?.message || 'Failed to calculate tax', mismatch ? 400 : 500);
+        return;
+      }
+
       const result = await this.contractService.createContract(
-        req.body,
+        taxed.data,
         userJWT,
         tenantId,
         userId,
@@ -363,8 +388,14 @@ class ContractController {
         }
 
         try {
+          const taxed = await taxEngineService.applyContractTax(tenantId, item.request);
+          if (!taxed.success || !taxed.data) {
+            failed += 1;
+            results.push({ buyer_id: buyerId, status: 'failed', error: taxed.error?.message || 'Tax calculation failed' });
+            continue;
+          }
           const createRes = await this.contractService.createContract(
-            item.request, userJWT, tenantId, userId, environment
+            taxed.data, userJWT, tenantId, userId, environment
           );
           if (!createRes.success) {
             failed += 1;
@@ -585,6 +616,360 @@ class ContractController {
     }
   };
 
+  // =================================================================
+  // DOCUMENT ENDPOINTS
+  // =================================================================
+
+  /**
+   * GET /api/contracts/:id/document
+   * Render the contract as a PDF. The first render of each accepted version
+   * is archived (storage + sha256 in t_contract_documents); later requests
+   * for that version serve the archived bytes so the hash stays provable.
+   * Drafts and versions awaiting acceptance are rendered without archiving.
+   */
+  getContractDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { id } = req.params;
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+      const authHeader = req.headers.authorization || '';
+      const userJWT = authHeader.replace('Bearer ', '');
+      const userId = req.user?.id || null;
+      const isLive = environment !== 'test';
+
+      const result = await this.contractService.getContractById(id, userJWT, tenantId, environment);
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, result);
+        return;
+      }
+
+      const contract = (result.data || result) as Record<string, any>;
+      const version = Number(contract.version) || 1;
+
+      const existing = await contractDocumentService.findArchived({ tenantId, contractId: id, version, isLive });
+      if (!existing.success) {
+        internalError(res, existing.error?.message || 'Failed to look up archived document');
+        return;
+      }
+
+      let pdf: Buffer;
+      let sha256: string;
+
+      if (existing.data) {
+        const loaded = await contractDocumentService.loadArchived(existing.data);
+        if (!loaded.success || !loaded.data) {
+          sendError(res, ERROR_CODES.INTERNAL_ERROR, loaded.error?.message || 'Failed to load archived document', 502);
+          return;
+        }
+        pdf = loaded.data;
+        sha256 = existing.data.sha256;
+      } else {
+        const timeZone = await tenantTimeZoneService.getTimeZone(tenantId);
+        const derivationInput = deriveInputFromContract(contract, timeZone);
+        const events: ComputedEventPayload[] = (derivationInput && deriveComputedEvents(derivationInput))
+          || (Array.isArray(contract.computed_events) ? contract.computed_events : []);
+        const acceptanceTrail = await contractDocumentService.getAcceptanceTrail(tenantId, contract);
+
+        pdf = await contractDocumentService.renderPdf({ contract, events, acceptanceTrail });
+        sha256 = contractDocumentService.hash(pdf);
+
+        if (contractDocumentService.isArchivable(contract)) {
+          const archived = await contractDocumentService.archive({
+            authHeader,
+            tenantId,
+            contract,
+            pdf,
+            userId,
+            isLive
+          });
+          if (!archived.success || !archived.data) {
+            // Serving an unarchived PDF would break the "what was signed" proof
+            sendError(res, ERROR_CODES.INTERNAL_ERROR, archived.error?.message || 'Failed to archive contract document', 502);
+            return;
+          }
+          if (archived.data.sha256 !== sha256) {
+            // A concurrent request archived this version first — serve its copy
+            const loaded = await contractDocumentService.loadArchived(archived.data);
+            if (!loaded.success || !loaded.data) {
+              sendError(res, ERROR_CODES.INTERNAL_ERROR, loaded.error?.message || 'Failed to load archived document', 502);
+              return;
+            }
+            pdf = loaded.data;
+            sha256 = archived.data.sha256;
+          }
+        }
+      }
+
+      const fileName = `${contract.contract_number || id}-v${version}.pdf`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+      res.setHeader('X-Contract-Version', String(version));
+      res.setHeader('X-Document-SHA256', sha256);
+      res.status(200).send(pdf);
+    } catch (error) {
+      console.error('[ContractController] Error in getContractDocument:', error);
+      internalError(res, 'Failed to render contract document');
+    }
+  };
+
+  // =================================================================
+  // AMENDMENT ENDPOINTS
+  // =================================================================
+
+  /**
+   * GET /api/contracts/:id/amendments
+   * Amendment history for a contract, newest first
+   */
+  listAmendments = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await contractAmendmentService.listAmendments({
+        tenantId,
+        contractId: req.params.id,
+        isLive: environment !== 'test'
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in listAmendments:', error);
+      internalError(res, 'Failed to list amendments');
+    }
+  };
+
+  /**
+   * POST /api/contracts/:id/amendments
+   * Seller proposes a change set against the current contract version
+   */
+  proposeAmendment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+      const { base_version, change_set, reason, effective_date } = req.body;
+
+      const result = await contractAmendmentService.proposeAmendment({
+        tenantId,
+        contractId: req.params.id,
+        baseVersion: Number(base_version),
+        changeSet: change_set,
+        reason,
+        effectiveDate: effective_date,
+        userId: req.user?.id || null,
+        userName: req.user?.name || req.user?.email || null,
+        isLive: environment !== 'test'
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[ContractController] Error in proposeAmendment:', error);
+      internalError(res, 'Failed to propose amendment');
+    }
+  };
+
+  /**
+   * POST /api/contracts/:id/amendments/:amendmentId/withdraw
+   * Seller withdraws an amendment the buyer has not answered yet
+   */
+  withdrawAmendment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+
+      const result = await contractAmendmentService.withdrawAmendment({
+        tenantId,
+        contractId: req.params.id,
+        amendmentId: req.params.amendmentId
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in withdrawAmendment:', error);
+      internalError(res, 'Failed to withdraw amendment');
+    }
+  };
+
+  // =================================================================
+  // RENEWAL ENDPOINTS
+  // =================================================================
+
+  /**
+   * GET /api/contracts/renewals
+   * Active contracts expiring inside the tenant's renewal window
+   */
+  getRenewals = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await contractRenewalService.listDue({
+        tenantId,
+        isLive: environment !== 'test',
+        windowDays: req.query.window_days ? Number(req.query.window_days) : undefined,
+        includeRenewed: req.query.include_renewed === 'true'
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in getRenewals:', error);
+      internalError(res, 'Failed to list renewals');
+    }
+  };
+
+  /**
+   * GET /api/contracts/renewals/settings
+   */
+  getRenewalSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+
+      const result = await contractRenewalService.getSettings(tenantId);
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in getRenewalSettings:', error);
+      internalError(res, 'Failed to load renewal settings');
+    }
+  };
+
+  /**
+   * PUT /api/contracts/renewals/settings
+   */
+  updateRenewalSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const { window_days, escalation_percent, notify_buyer, auto_draft } = req.body;
+
+      const result = await contractRenewalService.updateSettings(tenantId, {
+        ...(window_days !== undefined ? { window_days: Number(window_days) } : {}),
+        ...(escalation_percent !== undefined ? { escalation_percent: Number(escalation_percent) } : {}),
+        ...(notify_buyer !== undefined ? { notify_buyer: !!notify_buyer } : {}),
+        ...(auto_draft !== undefined ? { auto_draft: !!auto_draft } : {})
+      }, req.user?.id || null);
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in updateRenewalSettings:', error);
+      internalError(res, 'Failed to update renewal settings');
+    }
+  };
+
+  /**
+   * POST /api/contracts/:id/renew
+   * Draft the next-term contract (same blocks + equipment, escalated price)
+   * through the normal create path, then notify the buyer. One renewal per
+   * contract — a second call returns 409.
+   */
+  renewContract = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await contractRenewalService.renew({
+        tenantId: req.headers['x-tenant-id'] as string,
+        contractId: req.params.id,
+        userJWT: req.headers.authorization?.replace('Bearer ', '') || '',
+        environment: req.headers['x-environment'] as string || 'live',
+        userId: req.user?.id || null,
+        escalationPercent: req.body.escalation_percent !== undefined ? Number(req.body.escalation_percent) : undefined,
+        notify: req.body.notify !== undefined ? !!req.body.notify : undefined,
+        startDate: req.body.start_date,
+        notification: req.body.notification
+      });
+
+      if (!result.success || !result.data) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[ContractController] Error in renewContract:', error);
+      internalError(res, 'Failed to renew contract');
+    }
+  };
+
   // =================================================================
   // INVOICE & PAYMENT ENDPOINTS
   // =================================================================
@@ -637,6 +1022,20 @@ class ContractController {
         return;
       }
 
+      // Stop dunning once the payment clears the invoice; stamp its FX rate
+      if (req.body?.invoice_id) {
+        await dunningService.onPaymentRecorded(tenantId, req.body.invoice_id).catch((e) =>
+          console.warn('[ContractController] dunning stop after payment failed:', e?.message));
+        await fxRateService.onPaymentRecorded({
+          tenantId,
+          isLive: environment === 'live',
+          invoiceId: req.body.invoice_id,
+          receipt: result.data,
+          amount: Number(req.body.amount) || 0,
+          paymentDate: req.body.payment_date
+        }).catch((e) => console.warn('[ContractController] FX stamp after payment failed:', e?.message));
+      }
+
       res.status(201).json(result);
     } catch (error) {
       console.error('[ContractController] Error in recordPayment:', error);
@@ -895,6 +1294,275 @@ class ContractController {
     }
   };
 
+  // =================================================================
+  // CANCELLATION SETTLEMENT ENDPOINTS
+  // =================================================================
+
+  /**
+   * GET /api/contracts/:id/settlement
+   * The committed settlement for a cancelled contract (null if none)
+   */
+  getSettlement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await contractSettlementService.getCommitted({
+        tenantId,
+        contractId: req.params.id,
+        isLive: environment !== 'test'
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in getSettlement:', error);
+      internalError(res, 'Failed to load settlement');
+    }
+  };
+
+  /**
+   * POST /api/contracts/:id/settlement/preview
+   * Compute (without side effects) what cancelling on cancellation_date
+   * would settle: consumed vs paid, deposit offset, credit or amount due.
+   */
+  previewSettlement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const preview = await this.buildSettlementPreview(req, res);
+      if (!preview) return;
+
+      sendSuccess(res, preview);
+    } catch (error) {
+      console.error('[ContractController] Error in previewSettlement:', error);
+      internalError(res, 'Failed to preview settlement');
+    }
+  };
+
+  /**
+   * POST /api/contracts/:id/settlement
+   * Commit a previewed settlement: reclaim the held deposit, set the buyer
+   * credit, credit the open invoices down to amount_due, raise the rest of
+   * amount_due as an invoice, then cancel the contract via
+   * updateContractStatus. The preview
+   * is recomputed and must still match preview_token. A failed step is
+   * recorded and the next commit resumes after the last completed one.
+   */
+  commitSettlement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const contractId = req.params.id;
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+      const userJWT = req.headers.authorization?.replace('Bearer ', '') || '';
+      const userId = req.user?.id || '';
+      const userName = req.user?.name || req.user?.email || null;
+
+      const fresh = await this.buildSettlementPreview(req, res);
+      if (!fresh) return;
+
+      const resumable = await contractSettlementService.getResumable({
+        tenantId,
+        contractId,
+        isLive: environment !== 'test'
+      });
+      if (!resumable.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: resumable.error?.message, code: resumable.error?.code });
+        return;
+      }
+
+      // Resuming a partly applied commit: finish with the figures it started
+      // with (only the contract version is taken fresh, for the status step)
+      const previous = resumable.data;
+      const preview: ContractSettlementPreview = previous
+        ? {
+          ...fresh,
+          cancellation_date: previous.cancellation_date,
+          consumed_value: Number(previous.consumed_value),
+          billed_amount: Number(previous.billed_amount),
+          paid_amount: Number(previous.paid_amount),
+          deposit_held: previous.steps_completed.includes('deposit') ? 0 : fresh.deposit_held,
+          deposit_offset: Number(previous.deposit_offset),
+          credit_amount: Number(previous.credit_amount),
+          amount_due: Number(previous.amount_due),
+          lines: previous.breakdown
+        }
+        : fresh;
+
+      if (!previous && preview.preview_token !== req.body.preview_token) {
+        this.mapEdgeErrorToResponse(res, {
+          success: false,
+          error: 'Settlement figures changed since the preview — preview again before committing',
+          code: 'VERSION_CONFLICT',
+          data: preview
+        });
+        return;
+      }
+
+      const begun = await contractSettlementService.begin({
+        tenantId,
+        preview,
+        note: req.body.note,
+        userId: userId || null,
+        userName,
+        isLive: environment !== 'test'
+      });
+      if (!begun.success || !begun.data) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: begun.error?.message, code: begun.error?.code });
+        return;
+      }
+      let settlement = begun.data;
+      const done = new Set(settlement.steps_completed || []);
+
+      const failStep = async (step: SettlementStep, result: any): Promise<void> => {
+        const message = String(result.error || `Settlement step '${step}' failed`);
+        await contractSettlementService.markFailed(settlement.id, step, message);
+        this.mapEdgeErrorToResponse(res, { ...result, success: false, error: message, failed_step: step });
+      };
+
+      if (preview.deposit_held > 0 && !done.has('deposit')) {
+        const result = await this.contractService.reclaimContractDeposit(contractId, userJWT, tenantId, userId, environment);
+        if (!result.success) return failStep('deposit', result);
+        settlement = await contractSettlementService.recordStep(settlement, 'deposit');
+      }
+
+      if (preview.credit_amount > 0 && !done.has('credit')) {
+        const result = await this.contractService.setContractCredit(
+          contractId,
+          {
+            amount: preview.credit_amount,
+            reason: `Cancellation settlement as of ${preview.cancellation_date}`
+          },
+          userJWT,
+          tenantId,
+          userId,
+          userName,
+          environment
+        );
+        if (!result.success) return failStep('credit', result);
+        settlement = await contractSettlementService.recordStep(settlement, 'credit');
+      }
+
+      // Open invoices owe no more than amount_due once settled, and what they
+      // do not carry of it is raised — receivables and dunning see the result
+      const caller = {
+        tenantId,
+        isLive: environment !== 'test',
+        userId: userId || null,
+        authHeader: req.headers.authorization || '',
+        userJWT
+      };
+
+      if (!done.has('invoices')) {
+        const result = await contractSettlementService.creditOpenInvoices(caller, settlement);
+        if (!result.success) return failStep('invoices', { ...result, error: result.error?.message, code: result.error?.code });
+        settlement = await contractSettlementService.recordStep(settlement, 'invoices');
+      }
+
+      if (!done.has('receivable')) {
+        const result = await contractSettlementService.raiseReceivable(caller, settlement);
+        if (!result.success) return failStep('receivable', { ...result, error: result.error?.message, code: result.error?.code });
+        settlement = await contractSettlementService.recordStep(settlement, 'receivable');
+      }
+
+      if (!done.has('status')) {
+        const summary = preview.credit_amount > 0
+          ? `credit ${preview.currency} ${preview.credit_amount}`
+          : `due ${preview.currency} ${preview.amount_due}`;
+        const result = await this.contractService.updateContractStatus(
+          contractId,
+          {
+            status: CONTRACT_STATUSES.CANCELLED,
+            note: [`Cancelled with settlement (${summary})`, req.body.note].filter(Boolean).join(' — '),
+            version: preview.contract_version ?? undefined
+          },
+          userJWT,
+          tenantId,
+          userId,
+          environment
+        );
+        if (!result.success) return failStep('status', result);
+        settlement = await contractSettlementService.recordStep(settlement, 'status');
+      }
+
+      const committed = await contractSettlementService.markCommitted(settlement.id);
+      sendSuccess(res, committed.data || settlement);
+    } catch (error) {
+      console.error('[ContractController] Error in commitSettlement:', error);
+      internalError(res, 'Failed to commit settlement');
+    }
+  };
+
+  // =================================================================
+  // EVENT RE-DERIVATION ENDPOINTS
+  // =================================================================
+
+  /**
+   * POST /api/contracts/:id/events/rederive
+   * Re-derive the schedule against the tenant's time zone and working
+   * calendar (weekly offs, holidays, shift policy). User-set overrides are
+   * kept; calendar moves are recomputed. dry_run previews the result.
+   */
+  rederiveEvents = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = req.headers['x-environment'] as string || 'live';
+
+      const result = await contractRescheduleService.rederive({
+        tenantId,
+        contractId: req.params.id,
+        isLive: environment !== 'test',
+        version: Number(req.body.version),
+        shift: req.body.shift,
+        dryRun: req.body.dry_run === true || req.body.dry_run === 'true'
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractController] Error in rederiveEvents:', error);
+      internalError(res, 'Failed to re-derive contract events');
+    }
+  };
+
   // =================================================================
   // BUYER EQUIPMENT ENDPOINTS
   // =================================================================
@@ -1127,6 +1795,72 @@ class ContractController {
     }
   };
 
+  /**
+   * POST /api/contracts/public/amendments
+   * Amendments visible to the CNAK-scoped buyer
+   */
+  getPublicAmendments = async (req: any, res: Response): Promise<void> => {
+    try {
+      const { cnak, secret_code } = req.body;
+      if (!cnak || !secret_code) {
+        res.status(400).json({ success: false, error: 'CNAK and secret code are required' });
+        return;
+      }
+
+      const result = await contractAmendmentService.listForAccess(cnak, secret_code);
+      if (!result.success) {
+        res.status(result.error?.code === 'UNAUTHORIZED' ? 401 : 400)
+          .json({ success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+      res.status(200).json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('[ContractController] Error in getPublicAmendments:', error);
+      internalError(res, 'Failed to load amendments');
+    }
+  };
+
+  /**
+   * POST /api/contracts/public/amendments/respond
+   * Buyer accepts or rejects an amendment via CNAK + secret_code — same
+   * access pair as respondToContract. Accepting bumps the contract version
+   * and re-derives its future events.
+   */
+  respondToAmendment = async (req: any, res: Response): Promise<void> => {
+    try {
+      const { cnak, secret_code, amendment_id, action, responder_name, responder_email, rejection_reason } = req.body;
+
+      if (!cnak || !secret_code || !amendment_id || !action) {
+        res.status(400).json({ success: false, error: 'CNAK, secret code, amendment_id and action are required' });
+        return;
+      }
+
+      if (!['accept', 'reject'].includes(action)) {
+        res.status(400).json({ success: false, error: 'Action must be accept or reject' });
+        return;
+      }
+
+      const result = await contractAmendmentService.respondToAmendment({
+        cnak,
+        secretCode: secret_code,
+        amendmentId: amendment_id,
+        action,
+        responderName: responder_name,
+        responderEmail: responder_email,
+        rejectionReason: rejection_reason
+      });
+
+      if (!result.success) {
+        this.mapEdgeErrorToResponse(res, { success: false, error: result.error?.message, code: result.error?.code });
+        return;
+      }
+      res.status(200).json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('[ContractController] Error in respondToAmendment:', error);
+      internalError(res, 'Failed to respond to amendment');
+    }
+  };
+
   /**
    * POST /api/contracts/public/payment-context
    * Resolve CNAK → tenant/invoice + generate the pending invoice idempotently.
@@ -1347,6 +2081,64 @@ class ContractController {
   // PRIVATE HELPERS
   // ==========================================================
 
+  /**
+   * Load contract, invoices and service events and compute the settlement
+   * preview. Sends the error response and returns null on failure.
+   */
+  private async buildSettlementPreview(req: AuthRequest, res: Response): Promise<ContractSettlementPreview | null> {
+    const contractId = req.params.id;
+    const tenantId = req.headers['x-tenant-id'] as string;
+    const environment = req.headers['x-environment'] as string || 'live';
+    const userJWT = req.headers.authorization?.replace('Bearer ', '') || '';
+
+    const contractResult = await this.contractService.getContractById(contractId, userJWT, tenantId, environment);
+    if (!contractResult.success) {
+      this.mapEdgeErrorToResponse(res, contractResult);
+      return null;
+    }
+    const contract = (contractResult.data || contractResult) as Record<string, any>;
+
+    if (contract.status !== CONTRACT_STATUSES.ACTIVE) {
+      this.mapEdgeErrorToResponse(res, {
+        success: false,
+        error: `Only active contracts can be settled (status is '${contract.status}')`,
+        code: 'INVALID_TRANSITION'
+      });
+      return null;
+    }
+
+    const cancellationDate = (req.body.cancellation_date as string) || new Date().toISOString().slice(0, 10);
+    if (contract.start_date && cancellationDate < String(contract.start_date).slice(0, 10)) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'cancellation_date cannot be before the contract start date', 400);
+      return null;
+    }
+
+    const invoicesResult = await this.contractService.getContractInvoices(contractId, userJWT, tenantId, environment);
+    if (!invoicesResult.success) {
+      this.mapEdgeErrorToResponse(res, invoicesResult);
+      return null;
+    }
+    const invoiceData: any = invoicesResult.data;
+    const invoices = Array.isArray(invoiceData) ? invoiceData : (invoiceData?.invoices || []);
+
+    const eventsResult = await contractSettlementService.loadEvents({
+      tenantId,
+      contract,
+      isLive: environment !== 'test'
+    });
+    if (!eventsResult.success) {
+      this.mapEdgeErrorToResponse(res, { success: false, error: eventsResult.error?.message, code: eventsResult.error?.code });
+      return null;
+    }
+
+    return contractSettlementService.computeSettlement({
+      contract,
+      events: eventsResult.data || [],
+      invoices,
+      cancellationDate
+    });
+  }
+
   private mapEdgeErrorToResponse(res: Response, result: any): void {
     const codeToStatus: Record<string, number> = {
       'NOT_FOUND': 404,
@@ -1355,6 +2147,7 @@ class ContractController {
       'INVALID_TRANSITION': 422,
       'DELETE_NOT_ALLOWED': 422,
       'DUPLICATE_FOUND': 409,
+      'INVALID_STATUS': 409,
       'FORBIDDEN': 403,
       'UNAUTHORIZED': 401,
       'EDGE_FUNCTION_ERROR': 502,
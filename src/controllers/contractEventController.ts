@@ -10,7 +10,9 @@ import { Response } from 'express';
 import { validationResult } from 'express-validator';
 import { AuthRequest } from '../middleware/auth';
 import ContractEventService from '../services/contractEventService';
+import { overdueSweeperService } from '../services/overdueSweeperService';
 import {
+  sendSuccess,
   sendError,
   internalError,
   ERROR_CODES
@@ -221,6 +223,83 @@ class ContractEventController {
     }
   };
 
+  // ==========================================================
+  // OVERDUE POLICY / SWEEP
+  // ==========================================================
+
+  /**
+   * GET /api/contract-events/overdue-policy
+   * Tenant's overdue escalation policy (defaults when never saved)
+   */
+  getOverduePolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await overdueSweeperService.getPolicy(tenantId);
+
+      if (!result.success) {
+        this.mapSweeperError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractEventController] Error in getOverduePolicy:', error);
+      internalError(res, 'Failed to load overdue escalation policy');
+    }
+  };
+
+  /**
+   * PUT /api/contract-events/overdue-policy
+   * Update the tenant's overdue escalation policy (partial)
+   */
+  updateOverduePolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const userId = req.user?.id || null;
+
+      const result = await overdueSweeperService.updatePolicy(tenantId, req.body, userId);
+
+      if (!result.success) {
+        this.mapSweeperError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractEventController] Error in updateOverduePolicy:', error);
+      internalError(res, 'Failed to update overdue escalation policy');
+    }
+  };
+
+  /**
+   * POST /api/contract-events/overdue-sweep
+   * Run the overdue sweep now for the current tenant
+   */
+  runOverdueSweep = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await overdueSweeperService.sweep({ tenantId });
+
+      if (!result.success) {
+        this.mapSweeperError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ContractEventController] Error in runOverdueSweep:', error);
+      internalError(res, 'Failed to run overdue sweep');
+    }
+  };
+
   // ==========================================================
   // PRIVATE HELPERS
   // ==========================================================
@@ -244,6 +323,18 @@ class ContractEventController {
     const statusCode = codeToStatus[result.code] || 400;
     res.status(statusCode).json(result);
   }
+
+  /**
+   * Map overdue sweeper errors (direct DB access, no Edge function)
+   */
+  private mapSweeperError(res: Response, error?: { code: string; message: string }): void {
+    const message = error?.message || 'Overdue sweeper request failed';
+    if (error?.code === 'CONFIG') {
+      sendError(res, ERROR_CODES.SERVICE_UNAVAILABLE, message, 503);
+      return;
+    }
+    sendError(res, ERROR_CODES.DATABASE_ERROR, message, 500);
+  }
 }
 
 export default ContractEventController;
@@ -1,14 +1,25 @@
 // ============================================================================
 // FinanceController — Stage 1 Finance AR/AP
 // Tenant-level receivables/payables + invoice actions (approve / remind /
-// cancel) + tax summary (Sprint 4). Mirrors contractEventController conventions.
+// cancel) + tax summary (Sprint 4) + dunning (ladders, per-invoice state,
+// reminder history) + bank statement reconciliation. Mirrors
+// contractEventController conventions.
 // ============================================================================
 
 import { Response } from 'express';
 import { validationResult } from 'express-validator';
 import { AuthRequest } from '../middleware/auth';
-import { sendError, internalError, ERROR_CODES } from '../utils/apiResponseHelpers';
+import { sendSuccess, sendError, internalError, ERROR_CODES } from '../utils/apiResponseHelpers';
 import FinanceService from '../services/financeService';
+import { dunningService } from '../services/dunningService';
+import { receivablesAgeingService } from '../services/receivablesAgeingService';
+import { bankReconciliationService, BankReconciliationCaller } from '../services/bankReconciliationService';
+import { accountingExportService, AccountingExportCaller } from '../services/accountingExportService';
+import { fxRateService } from '../services/fxRateService';
+import { logAudit } from '../middleware/auditMiddleware';
+import { AuditAction, AuditResource, AuditSeverity } from '../constants/auditConstants';
+import { AgeingGrouping, CreateAccountingExportRequest } from '../types/financeTypes';
+import { XLSX_CONTENT_TYPE } from '../utils/xlsx';
 
 class FinanceController {
   private financeService: FinanceService;
@@ -33,6 +44,11 @@ class FinanceController {
         return;
       }
 
+      await this.attachReminderHistory(tenantId, result).catch((e) =>
+        console.warn('[FinanceController] reminder history unavailable:', e?.message));
+      await this.attachBaseCurrency(tenantId, environment === 'live', result).catch((e) =>
+        console.warn('[FinanceController] base currency amounts unavailable:', e?.message));
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[FinanceController] Error in getReceivables:', error);
@@ -40,6 +56,106 @@ class FinanceController {
     }
   };
 
+  /**
+   * GET /api/finance/receivables/ageing
+   * Query: as_of?, currency?
+   */
+  getReceivablesAgeing = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = (req.headers['x-environment'] as string) || 'live';
+
+      const result = await receivablesAgeingService.getAgeing({
+        tenantId,
+        isLive: environment === 'live',
+        asOf: req.query.as_of as string | undefined,
+        currency: req.query.currency as string | undefined
+      });
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in getReceivablesAgeing:', error);
+      internalError(res, 'Failed to load receivables ageing');
+    }
+  };
+
+  /**
+   * GET /api/finance/receivables/ageing/export
+   * Query: format=csv|xlsx, group_by=buyer|contract|invoice (csv only), as_of?, currency?
+   */
+  exportReceivablesAgeing = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = (req.headers['x-environment'] as string) || 'live';
+      const format = ((req.query.format as string) || 'csv') as 'csv' | 'xlsx';
+      const groupBy = ((req.query.group_by as string) || 'buyer') as AgeingGrouping;
+
+      const result = await receivablesAgeingService.getAgeing({
+        tenantId,
+        isLive: environment === 'live',
+        asOf: req.query.as_of as string | undefined,
+        currency: req.query.currency as string | undefined
+      });
+
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      // Exports are sensitive operations — same audit trail as /audit-logs/export
+      await logAudit(req, {
+        action: AuditAction.DATA_EXPORT,
+        resource: AuditResource.REPORTS,
+        metadata: {
+          report: 'receivables_ageing',
+          format,
+          group_by: format === 'csv' ? groupBy : 'all',
+          as_of: result.data.as_of,
+          invoices: result.data.invoices.length,
+          truncated: result.data.truncated
+        },
+        success: true,
+        severity: AuditSeverity.WARNING
+      });
+
+      const filename = format === 'csv'
+        ? `receivables-ageing-${groupBy}-${result.data.as_of}.csv`
+        : `receivables-ageing-${result.data.as_of}.xlsx`;
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : XLSX_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      // A CSV has no room for a note; the XLSX says so on its summary sheet
+      if (result.data.truncated) res.setHeader('X-Report-Truncated', 'true');
+
+      res.send(format === 'csv'
+        ? receivablesAgeingService.toCsv(result.data, groupBy)
+        : receivablesAgeingService.toXlsx(result.data));
+    } catch (error) {
+      console.error('[FinanceController] Error in exportReceivablesAgeing:', error);
+      internalError(res, 'Failed to export receivables ageing');
+    }
+  };
+
   /**
    * GET /api/finance/payables
    */
@@ -67,6 +183,7 @@ class FinanceController {
    * GET /api/finance/tax-summary
    * Sprint 4 — month-wise tax records (taxable value, tax invoiced,
    * tax collected approx, tax component split e.g. CGST/SGST/IGST).
+   * `consolidated`: per month and currency, and in the tenant base currency.
    */
   getTaxSummary = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -81,6 +198,14 @@ class FinanceController {
         return;
       }
 
+      // Same months across currencies, in the tenant base currency; best-effort
+      const consolidated = await fxRateService.getConsolidatedTaxSummary(tenantId, environment === 'live');
+      if (consolidated.success) {
+        (result as any).consolidated = consolidated.data;
+      } else {
+        console.warn('[FinanceController] consolidated tax summary unavailable:', consolidated.error?.message);
+      }
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[FinanceController] Error in getTaxSummary:', error);
@@ -161,6 +286,9 @@ class FinanceController {
         return;
       }
 
+      // The edge function reminds by email (JTD) — log it in the history
+      await dunningService.recordManualReminder({ tenantId, invoiceId, channel: 'email', userId });
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[FinanceController] Error in sendInvoiceReminder:', error);
@@ -213,33 +341,802 @@ class FinanceController {
   };
 
   // ─────────────────────────────────────────────
-  // Edge error → HTTP status mapping
+  // Dunning
   // ─────────────────────────────────────────────
-  private mapEdgeErrorToResponse(res: Response, result: any): void {
-    const statusMap: Record<string, number> = {
-      NOT_FOUND: 404,
-      INVALID_STATUS: 409,
-      NO_EMAIL_CONTACT: 422,
-      MISSING_TENANT_ID: 400,
-      MISSING_ID: 400,
-      MISSING_CONTRACT_ID: 400,
-      UNKNOWN_ACTION: 400,
-      MISSING_SIGNATURE: 401,
-      INVALID_SIGNATURE: 403,
-      RPC_ERROR: 502,
-      EDGE_FUNCTION_ERROR: 502,
-      NETWORK_ERROR: 503
-    };
 
-    const status = statusMap[result.code] || 400;
-    res.status(status).json({
-      success: false,
-      error: {
-        code: result.code || 'REQUEST_FAILED',
-        message: result.error || 'Request failed'
-      },
-      metadata: { timestamp: new Date().toISOString() }
-    });
+  /**
+   * GET /api/finance/dunning-ladders
+   */
+  listDunningLadders = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.listLadders(tenantId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in listDunningLadders:', error);
+      internalError(res, 'Failed to load dunning ladders');
+    }
+  };
+
+  /**
+   * POST /api/finance/dunning-ladders
+   * Body: { name, steps: [{ offset_days, channel? }], is_default? }
+   */
+  createDunningLadder = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.createLadder(tenantId, req.body, req.user?.id || null);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[FinanceController] Error in createDunningLadder:', error);
+      internalError(res, 'Failed to create dunning ladder');
+    }
+  };
+
+  /**
+   * PUT /api/finance/dunning-ladders/:ladderId
+   */
+  updateDunningLadder = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.updateLadder(
+        tenantId,
+        req.params.ladderId,
+        req.body,
+        req.user?.id || null
+      );
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in updateDunningLadder:', error);
+      internalError(res, 'Failed to update dunning ladder');
+    }
+  };
+
+  /**
+   * PUT /api/finance/invoices/:invoiceId/dunning
+   * Body: { status?: 'active'|'paused'|'stopped', ladder_id?: uuid|null }
+   */
+  updateInvoiceDunning = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.updateInvoiceDunning(
+        tenantId,
+        req.params.invoiceId,
+        req.body,
+        req.user?.id || null
+      );
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in updateInvoiceDunning:', error);
+      internalError(res, 'Failed to update invoice dunning');
+    }
+  };
+
+  /**
+   * GET /api/finance/invoices/:invoiceId/reminders
+   */
+  getInvoiceReminders = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.getReminderHistory(tenantId, req.params.invoiceId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in getInvoiceReminders:', error);
+      internalError(res, 'Failed to load reminder history');
+    }
+  };
+
+  /**
+   * POST /api/finance/dunning/run
+   * Body: { dry_run?: boolean } — run dunning now for this tenant
+   */
+  runDunning = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await dunningService.run({ tenantId, dryRun: req.body?.dry_run === true });
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in runDunning:', error);
+      internalError(res, 'Failed to run dunning');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Bank statement reconciliation
+  // ─────────────────────────────────────────────
+
+  /**
+   * POST /api/finance/bank-statements (multipart: file, format?, currency?)
+   * Import a statement and suggest invoice matches for its credits.
+   */
+  importBankStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+      if (!req.file) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, 'A statement file is required (field "file")', 400);
+        return;
+      }
+
+      const result = await bankReconciliationService.importStatement(this.serviceCaller(req), {
+        content: req.file.buffer,
+        fileName: req.file.originalname || null,
+        format: req.body?.format,
+        currency: req.body?.currency || null
+      });
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[FinanceController] Error in importBankStatement:', error);
+      internalError(res, 'Failed to import bank statement');
+    }
+  };
+
+  /**
+   * GET /api/finance/bank-statements
+   */
+  listBankStatements = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = (req.headers['x-environment'] as string) || 'live';
+      const result = await bankReconciliationService.listImports(tenantId, environment === 'live');
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in listBankStatements:', error);
+      internalError(res, 'Failed to load bank statements');
+    }
+  };
+
+  /**
+   * GET /api/finance/bank-statements/:importId
+   * Query: status? — only lines in that status
+   */
+  getBankStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await bankReconciliationService.getImport(
+        tenantId,
+        req.params.importId,
+        req.query.status as string | undefined
+      );
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in getBankStatement:', error);
+      internalError(res, 'Failed to load bank statement');
+    }
+  };
+
+  /**
+   * POST /api/finance/bank-statements/:importId/rematch
+   */
+  rematchBankStatement = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = (req.headers['x-environment'] as string) || 'live';
+      const result = await bankReconciliationService.rematch(tenantId, environment === 'live', req.params.importId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in rematchBankStatement:', error);
+      internalError(res, 'Failed to rematch bank statement');
+    }
+  };
+
+  /**
+   * POST /api/finance/bank-statements/lines/:lineId/confirm
+   * Body: { invoice_id: uuid, amount?: number }
+   */
+  confirmBankStatementLine = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const result = await bankReconciliationService.confirm(this.serviceCaller(req), req.params.lineId, {
+        invoice_id: req.body.invoice_id,
+        amount: req.body.amount
+      });
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in confirmBankStatementLine:', error);
+      internalError(res, 'Failed to confirm bank statement match');
+    }
+  };
+
+  /**
+   * POST /api/finance/bank-statements/lines/:lineId/ignore
+   */
+  ignoreBankStatementLine = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await bankReconciliationService.ignore(tenantId, req.params.lineId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in ignoreBankStatementLine:', error);
+      internalError(res, 'Failed to ignore bank statement line');
+    }
+  };
+
+  /** Tenant, environment and user of the request, as the direct-DB services take them */
+  private serviceCaller(req: AuthRequest): BankReconciliationCaller & AccountingExportCaller {
+    return {
+      tenantId: req.headers['x-tenant-id'] as string,
+      isLive: ((req.headers['x-environment'] as string) || 'live') === 'live',
+      userId: req.user?.id || null,
+      userJWT: req.headers.authorization?.replace('Bearer ', '') || ''
+    };
+  }
+
+  // ─────────────────────────────────────────────
+  // FX rates
+  // ─────────────────────────────────────────────
+
+  /**
+   * GET /api/finance/fx-rates
+   * Query: currency? — rates against the tenant base currency, newest first
+   */
+  listFxRates = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await fxRateService.listRates(tenantId, req.query.currency as string | undefined);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in listFxRates:', error);
+      internalError(res, 'Failed to load FX rates');
+    }
+  };
+
+  /**
+   * POST /api/finance/fx-rates
+   * Body: { rates: [{ currency, rate, effective_date }] }
+   */
+  saveFxRates = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await fxRateService.saveRates(tenantId, req.body.rates, 'manual', req.user?.id || null);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[FinanceController] Error in saveFxRates:', error);
+      internalError(res, 'Failed to save FX rates');
+    }
+  };
+
+  /**
+   * POST /api/finance/fx-rates/import (multipart: file)
+   */
+  importFxRates = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.file) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, 'A rate file is required (field "file")', 400);
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await fxRateService.importRates(tenantId, req.file.buffer, req.user?.id || null);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      await logAudit(req, {
+        action: AuditAction.DATA_IMPORT,
+        resource: AuditResource.REPORTS,
+        metadata: { import: 'fx_rates', file_name: req.file.originalname, imported: result.data!.imported },
+        success: true
+      });
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[FinanceController] Error in importFxRates:', error);
+      internalError(res, 'Failed to import FX rates');
+    }
+  };
+
+  /**
+   * DELETE /api/finance/fx-rates/:rateId
+   */
+  deleteFxRate = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await fxRateService.deleteRate(tenantId, req.params.rateId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in deleteFxRate:', error);
+      internalError(res, 'Failed to delete FX rate');
+    }
+  };
+
+  /**
+   * PUT /api/finance/fx-rates/base-currency
+   * Body: { base_currency }
+   */
+  setBaseCurrency = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await fxRateService.setBaseCurrency(tenantId, req.body.base_currency);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in setBaseCurrency:', error);
+      internalError(res, 'Failed to set base currency');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Accounting exports (Tally XML / journal CSV)
+  // ─────────────────────────────────────────────
+
+  /**
+   * GET /api/finance/exports/settings
+   */
+  getExportSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await accountingExportService.getSettings(tenantId);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in getExportSettings:', error);
+      internalError(res, 'Failed to load export settings');
+    }
+  };
+
+  /**
+   * PUT /api/finance/exports/settings
+   * Body: { ledger_mapping: Partial<LedgerMapping> } — merged over the saved mapping
+   */
+  saveExportSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await accountingExportService.saveSettings(tenantId, req.body.ledger_mapping, req.user?.id || null);
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in saveExportSettings:', error);
+      internalError(res, 'Failed to save export settings');
+    }
+  };
+
+  /**
+   * POST /api/finance/exports
+   * Body: { format: tally_xml|journal_csv, from, to, vouchers?: kind[], dry_run? }
+   * Responds with the file; X-Export-Id names the export for a later download.
+   */
+  createAccountingExport = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const request: CreateAccountingExportRequest = {
+        format: req.body.format,
+        from: req.body.from,
+        to: req.body.to,
+        vouchers: req.body.vouchers,
+        dry_run: req.body.dry_run === true
+      };
+      const result = await accountingExportService.createExport(this.serviceCaller(req), request);
+
+      if (!result.success || !result.data) {
+        if (result.error?.code === 'NOTHING_TO_EXPORT') {
+          sendError(res, ERROR_CODES.UNPROCESSABLE_ENTITY, result.error.message, 422);
+          return;
+        }
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      const file = result.data;
+      if (file.export) {
+        await logAudit(req, {
+          action: AuditAction.DATA_EXPORT,
+          resource: AuditResource.REPORTS,
+          metadata: {
+            report: 'accounting_export',
+            export_id: file.export.id,
+            format: request.format,
+            from: file.export.period_from,
+            to: file.export.period_to,
+            counts: file.export.counts,
+            already_exported: file.already_exported,
+            skipped: file.export.skipped.length
+          },
+          success: true,
+          severity: AuditSeverity.WARNING
+        });
+        res.setHeader('X-Export-Id', file.export.id);
+      }
+
+      res.setHeader('Content-Type', file.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.file_name}"`);
+      res.send(file.content);
+    } catch (error) {
+      console.error('[FinanceController] Error in createAccountingExport:', error);
+      internalError(res, 'Failed to create accounting export');
+    }
+  };
+
+  /**
+   * GET /api/finance/exports
+   */
+  listAccountingExports = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const environment = (req.headers['x-environment'] as string) || 'live';
+      const result = await accountingExportService.listExports(tenantId, environment === 'live');
+
+      if (!result.success) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[FinanceController] Error in listAccountingExports:', error);
+      internalError(res, 'Failed to load accounting exports');
+    }
+  };
+
+  /**
+   * GET /api/finance/exports/:exportId/download
+   */
+  downloadAccountingExport = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const tenantId = req.headers['x-tenant-id'] as string;
+      const result = await accountingExportService.getExportFile(tenantId, req.params.exportId);
+
+      if (!result.success || !result.data) {
+        this.mapServiceError(res, result.error);
+        return;
+      }
+
+      await logAudit(req, {
+        action: AuditAction.DATA_EXPORT,
+        resource: AuditResource.REPORTS,
+        metadata: { report: 'accounting_export', export_id: req.params.exportId, redownload: true },
+        success: true,
+        severity: AuditSeverity.WARNING
+      });
+
+      res.setHeader('Content-Type', result.data.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${result.data.file_name}"`);
+      res.send(result.data.content);
+    } catch (error) {
+      console.error('[FinanceController] Error in downloadAccountingExport:', error);
+      internalError(res, 'Failed to download accounting export');
+    }
+  };
+
+  // ─────────────────────────────────────────────
+  // Reminder history → receivables
+  // ─────────────────────────────────────────────
+
+  /**
+   * Annotate the receivables worklist rows with their dunning state and
+   * latest reminders. Best-effort: receivables are served without it if the
+   * lookup fails.
+   */
+  private async attachReminderHistory(tenantId: string, result: any): Promise<void> {
+    const container = result.data && typeof result.data === 'object' ? result.data : result;
+    const invoices: any[] = Array.isArray(container.invoices) ? container.invoices : [];
+    const ids = invoices.map((i) => i?.id || i?.invoice_id).filter(Boolean);
+    if (ids.length === 0) return;
+
+    const summary = await dunningService.getInvoiceDunningSummary(tenantId, ids);
+    if (!summary.success || !summary.data) {
+      console.warn('[FinanceController] reminder history unavailable:', summary.error?.message);
+      return;
+    }
+
+    for (const invoice of invoices) {
+      const entry = summary.data[invoice?.id || invoice?.invoice_id];
+      if (!entry) continue;
+      invoice.dunning = entry.dunning;
+      invoice.reminder_history = entry.reminders;
+    }
+  }
+
+  /**
+   * Annotate the receivables worklist rows with their amounts in the tenant
+   * base currency (stamped rates). Best-effort, like the reminder history.
+   */
+  private async attachBaseCurrency(tenantId: string, isLive: boolean, result: any): Promise<void> {
+    const container = result.data && typeof result.data === 'object' ? result.data : result;
+    const invoices: any[] = Array.isArray(container.invoices) ? container.invoices : [];
+    const ids = invoices.map((i) => i?.id || i?.invoice_id).filter(Boolean);
+    if (ids.length === 0) return;
+
+    const rows = await fxRateService.loadInvoices(tenantId, ids);
+    const { base_currency, amounts } = await fxRateService.baseAmounts(tenantId, isLive, rows);
+    container.base_currency = base_currency;
+    for (const invoice of invoices) {
+      const entry = amounts.get(invoice?.id || invoice?.invoice_id);
+      if (entry) Object.assign(invoice, entry);
+    }
+  }
+
+  // ─────────────────────────────────────────────
+  // Edge error → HTTP status mapping
+  // ─────────────────────────────────────────────
+  private mapEdgeErrorToResponse(res: Response, result: any): void {
+    const statusMap: Record<string, number> = {
+      NOT_FOUND: 404,
+      INVALID_STATUS: 409,
+      NO_EMAIL_CONTACT: 422,
+      MISSING_TENANT_ID: 400,
+      MISSING_ID: 400,
+      MISSING_CONTRACT_ID: 400,
+      UNKNOWN_ACTION: 400,
+      MISSING_SIGNATURE: 401,
+      INVALID_SIGNATURE: 403,
+      RPC_ERROR: 502,
+      EDGE_FUNCTION_ERROR: 502,
+      NETWORK_ERROR: 503
+    };
+
+    const status = statusMap[result.code] || 400;
+    res.status(status).json({
+      success: false,
+      error: {
+        code: result.code || 'REQUEST_FAILED',
+        message: result.error || 'Request failed'
+      },
+      metadata: { timestamp: new Date().toISOString() }
+    });
+  }
+
+  /** Errors from the direct-DB services (dunning, ageing, reconciliation, exports) */
+  private mapServiceError(res: Response, error?: { code: string; message: string }): void {
+    const message = error?.message || 'Finance request failed';
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, message, 400);
+        return;
+      case 'NOT_FOUND':
+        sendError(res, ERROR_CODES.NOT_FOUND, message, 404);
+        return;
+      case 'CONFLICT':
+        sendError(res, ERROR_CODES.CONFLICT, message, 409);
+        return;
+      case 'EDGE_FUNCTION_ERROR':
+      case 'NETWORK_ERROR':
+        sendError(res, ERROR_CODES.EDGE_FUNCTION_ERROR, message, 502);
+        return;
+      case 'CONFIG':
+        sendError(res, ERROR_CODES.SERVICE_UNAVAILABLE, message, 503);
+        return;
+      default:
+        sendError(res, ERROR_CODES.DATABASE_ERROR, message, 500);
+    }
   }
 }
 
@@ -219,7 +219,7 @@ export const uploadQrImage = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const qrImageUrl = await integrationService.uploadQrImage(tenantId, (req as any).file);
+    const qrImageUrl = await integrationService.uploadQrImage(tenantId, (req as any).file, req.productCode);
     return res.status(200).json({ success: true, qr_image_url: qrImageUrl });
   } catch (error: any) {
     console.error('Error in uploadQrImage controller:', error.message);
@@ -11,6 +11,15 @@ import { sendSuccess, sendError, ERROR_CODES } from '../utils/apiResponseHelpers
 import invoiceService from '../services/invoiceService';
 import publicPaymentService from '../services/publicPaymentService';
 import PaymentGatewayService from '../services/paymentGatewayService';
+import dunningService from '../services/dunningService';
+import { fxRateService } from '../services/fxRateService';
+import taxEngineService from '../services/taxEngineService';
+import eInvoiceService from '../services/eInvoiceService';
+import creditNoteService, { CreditNoteCaller } from '../services/creditNoteService';
+import { TaxCalculationResult } from '../types/taxTypes';
+import { validateInv01 } from '../utils/gstInv01';
+import { logAudit } from '../middleware/auditMiddleware';
+import { AuditAction, AuditResource, AuditSeverity } from '../constants/auditConstants';
 
 interface AdhocLineItemInput {
   block_id?: string | null;
@@ -20,6 +29,8 @@ interface AdhocLineItemInput {
   amount?: number;
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 class InvoiceController {
   // Instantiated like paymentGatewayController does — the service is a class,
   // not a shared singleton.
@@ -41,8 +52,10 @@ class InvoiceController {
       return;
     }
 
-    const { contact_id, currency, line_items, tax_amount, payment_method, payment_date, reference_number, notes, declaration_id } =
-      req.body || {};
+    const {
+      contact_id, currency, line_items, tax_amount, tax_rate_id, apply_tax,
+      payment_method, payment_date, reference_number, notes, declaration_id
+    } = req.body || {};
 
     if (!contact_id) {
       sendError(res, ERROR_CODES.VALIDATION_ERROR, 'contact_id is required', 400);
@@ -68,13 +81,47 @@ class InvoiceController {
       return;
     }
 
+    // Tax comes from the engine whenever the invoice is taxed — a
+    // tax_rate_id, apply_tax (tenant default) or a tax_amount, which is
+    // checked against the tenant default rate. The engine taxes the pre-tax
+    // line amounts and splits GST by the contact's state; a tax_amount it
+    // does not arrive at is refused.
+    const sentTax = tax_amount === undefined || tax_amount === null || tax_amount === '' ? null : Number(tax_amount);
+    if (sentTax !== null && !(sentTax >= 0)) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'tax_amount must be a non-negative number', 400);
+      return;
+    }
+    let taxAmount = 0;
+    let taxBreakdown: TaxCalculationResult | null = null;
+    if (tax_rate_id || apply_tax === true || (sentTax !== null && sentTax > 0)) {
+      const tax = await taxEngineService.calculate(tenantId, {
+        lines: cleanItems.map((li) => ({ amount: li.amount, tax_rate_id: tax_rate_id || undefined, description: li.name })),
+        display_mode: 'excluding_tax',
+        buyer_contact_id: contact_id,
+      });
+      if (!tax.success || !tax.data) {
+        const notFound = tax.error?.code === 'RATE_NOT_FOUND';
+        sendError(res, notFound ? ERROR_CODES.VALIDATION_ERROR : ERROR_CODES.INTERNAL_ERROR,
+          tax.error?.message || 'Failed to calculate tax', notFound ? 400 : 500);
+        return;
+      }
+      if (sentTax !== null && !taxEngineService.taxMatches(sentTax, tax.data.tax_amount, tax.data.lines.length)) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `tax_amount ${sentTax} does not match the calculated tax ${tax.data.tax_amount} (${tax.data.tax_rate_name}) — send tax_rate_id for the rate meant`, 400);
+        return;
+      }
+      taxAmount = tax.data.tax_amount;
+      taxBreakdown = tax.data;
+    }
+
     const result = await invoiceService.createAdhocInvoice({
       tenantId,
       contactId: contact_id,
       isLive: this.isLive(req),
       currency: currency || 'INR',
       lineItems: cleanItems,
-      taxAmount: Number(tax_amount) || 0,
+      taxAmount,
+      taxBreakdown,
       paymentMethod: payment_method,
       paymentDate: payment_date || null,
       referenceNumber: reference_number || null,
@@ -96,7 +143,19 @@ class InvoiceController {
       return;
     }
 
-    sendSuccess(res, result.data?.data ?? result.data, 201);
+    const created = result.data?.data ?? result.data;
+    const invoiceId = created?.invoice_id || created?.invoice?.id;
+    if (invoiceId) {
+      await fxRateService.onPaymentRecorded({
+        tenantId,
+        isLive: this.isLive(req),
+        invoiceId,
+        receipt: created?.receipt ?? created,
+        paymentDate: payment_date || null,
+      }).catch((e) => console.warn('[InvoiceController] FX stamp after ad-hoc invoice failed:', e?.message));
+    }
+
+    sendSuccess(res, created, 201);
   };
 
   /** GET /api/invoices/:id — one invoice as a document (contract-optional) */
@@ -116,7 +175,13 @@ class InvoiceController {
       sendError(res, ERROR_CODES.NOT_FOUND, result.data.error || 'Invoice not found', 404);
       return;
     }
-    sendSuccess(res, result.data?.data ?? result.data);
+
+    // Rates stamped on the invoice and its receipts (multi-currency); best-effort
+    const detail = result.data?.data ?? result.data;
+    const stamps = await fxRateService.getInvoiceStamps(tenantId, invoiceId);
+    if (stamps.success && detail && typeof detail === 'object') detail.fx_stamps = stamps.data;
+
+    sendSuccess(res, detail);
   };
 
   /**
@@ -223,9 +288,286 @@ class InvoiceController {
         { details: { reason: result.data.reason, rule_key: result.data.rule_key } });
       return;
     }
+    // A hand-sent payment request counts as a reminder in the dunning history
+    await dunningService.recordManualReminder({ tenantId, invoiceId, channel, userId: req.user?.id || null });
     sendSuccess(res, { ...result.data, payment_link: paymentLink, qr_url: qrUrl });
   };
 
+  /** GET /api/invoices/:id/e-invoice — stored e-invoice (JSON + IRN), null when not generated */
+  getEInvoice = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const result = await eInvoiceService.getEInvoice(tenantId, req.params.id);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'E-invoice operation failed');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  /**
+   * POST /api/invoices/:id/e-invoice
+   * { default_hsn_code?, hsn_codes?: { <block_id | line no>: code }, is_service?, unit? }
+   * Build the GST INV-01 JSON and validate it. Valid → stored and returned;
+   * invalid → 422 with every schema error, nothing stored.
+   */
+  generateEInvoice = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const body = req.body || {};
+    const hsnCodes = body.hsn_codes;
+    if (hsnCodes !== undefined && (typeof hsnCodes !== 'object' || Array.isArray(hsnCodes)
+      || Object.values(hsnCodes).some((v) => typeof v !== 'string'))) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'hsn_codes must map block ids / line numbers to codes', 400);
+      return;
+    }
+
+    const result = await eInvoiceService.generate({
+      tenantId,
+      invoiceId: req.params.id,
+      isLive: this.isLive(req),
+      userId: req.user?.id || null,
+      request: {
+        default_hsn_code: body.default_hsn_code ? String(body.default_hsn_code).trim() : undefined,
+        hsn_codes: hsnCodes,
+        is_service: body.is_service !== undefined ? body.is_service !== false : undefined,
+        unit: body.unit ? String(body.unit) : undefined,
+      },
+    });
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'E-invoice operation failed');
+      return;
+    }
+    if (!result.data!.valid) {
+      sendError(res, ERROR_CODES.UNPROCESSABLE_ENTITY,
+        `E-invoice failed schema validation with ${result.data!.errors.length} error(s)`, 422,
+        { details: { errors: result.data!.errors, document: result.data!.document } });
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  /**
+   * GET /api/invoices/:id/e-invoice/download
+   * The stored INV-01 JSON as a file, in the array form the portal's bulk
+   * upload takes. Revalidated before it leaves, so a file that would be
+   * rejected is never handed out.
+   */
+  downloadEInvoice = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const result = await eInvoiceService.getEInvoice(tenantId, req.params.id);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'E-invoice operation failed');
+      return;
+    }
+    if (!result.data) {
+      sendError(res, ERROR_CODES.NOT_FOUND, 'No e-invoice generated for this invoice yet', 404);
+      return;
+    }
+    const errors = validateInv01(result.data.payload);
+    if (errors.length > 0) {
+      sendError(res, ERROR_CODES.UNPROCESSABLE_ENTITY,
+        `E-invoice failed schema validation with ${errors.length} error(s)`, 422, { details: { errors } });
+      return;
+    }
+
+    await logAudit(req, {
+      action: AuditAction.DATA_EXPORT,
+      resource: AuditResource.REPORTS,
+      resourceId: req.params.id,
+      metadata: { report: 'gst_einvoice', document_no: result.data.payload.DocDtls.No },
+      success: true,
+      severity: AuditSeverity.WARNING,
+    });
+
+    const fileName = `einvoice-${result.data.payload.DocDtls.No.replace(/[^A-Z0-9-]/gi, '_')}.json`;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).send(JSON.stringify([result.data.payload], null, 2));
+  };
+
+  /**
+   * POST /api/invoices/:id/e-invoice/irn
+   * Body: the IRP portal's response for this invoice (Irn, AckNo, AckDt,
+   * SignedInvoice, SignedQRCode — wrapped or not). Stores the registration.
+   */
+  recordEInvoiceIrn = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const result = await eInvoiceService.recordIrn({
+      tenantId,
+      invoiceId: req.params.id,
+      userId: req.user?.id || null,
+      response: req.body,
+    });
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'E-invoice operation failed');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  // ─── Credit notes ───
+
+  /** GET /api/invoices/:id/credit-notes — the invoice's credit notes + what is left to credit */
+  listCreditNotes = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const result = await creditNoteService.list(tenantId, req.params.id);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'Failed to load credit notes');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  /** GET /api/invoices/:id/credit-notes/:creditNoteId */
+  getCreditNote = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id || !req.params.creditNoteId) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant, invoice id and credit note id are required', 400);
+      return;
+    }
+    const result = await creditNoteService.get(tenantId, req.params.id, req.params.creditNoteId);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'Failed to load credit note');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  /**
+   * POST /api/invoices/:id/credit-notes
+   * Body: { reason, amount?, receipt_id?, refund_mode?: 'none'|'manual'|'gateway',
+   *         refund_amount?, refund_reference?, gateway_payment_id? }
+   * amount includes tax and defaults to everything not yet credited. A gateway
+   * refund that the gateway refuses still issues the note (refund_status
+   * 'failed') — retry it with POST .../:creditNoteId/refund.
+   */
+  createCreditNote = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant and invoice id are required', 400);
+      return;
+    }
+    const body = req.body || {};
+    if (!body.reason || typeof body.reason !== 'string' || !body.reason.trim()) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'reason is required', 400);
+      return;
+    }
+    for (const field of ['amount', 'refund_amount']) {
+      if (body[field] !== undefined && body[field] !== null && !(Number(body[field]) > 0)) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, `${field} must be a positive number`, 400);
+        return;
+      }
+    }
+    if (body.receipt_id !== undefined && body.receipt_id !== null && !UUID_PATTERN.test(String(body.receipt_id))) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'receipt_id must be a UUID', 400);
+      return;
+    }
+    if (body.gateway_payment_id !== undefined && body.gateway_payment_id !== null
+      && !/^pay_[A-Za-z0-9]+$/.test(String(body.gateway_payment_id))) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'gateway_payment_id must be a Razorpay payment id (pay_...)', 400);
+      return;
+    }
+
+    const result = await creditNoteService.issue(this.creditNoteCaller(req), req.params.id, {
+      reason: body.reason,
+      amount: body.amount !== undefined && body.amount !== null ? Number(body.amount) : undefined,
+      receipt_id: body.receipt_id || undefined,
+      refund_mode: body.refund_mode,
+      refund_amount: body.refund_amount !== undefined && body.refund_amount !== null ? Number(body.refund_amount) : undefined,
+      refund_reference: body.refund_reference ? String(body.refund_reference).trim().slice(0, 100) : undefined,
+      gateway_payment_id: body.gateway_payment_id || undefined,
+    });
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'Failed to issue credit note');
+      return;
+    }
+    sendSuccess(res, result.data, 201);
+  };
+
+  /** POST /api/invoices/:id/credit-notes/:creditNoteId/refund — retry a failed gateway refund */
+  retryCreditNoteRefund = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id || !req.params.creditNoteId) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant, invoice id and credit note id are required', 400);
+      return;
+    }
+    const result = await creditNoteService.retryRefund(this.creditNoteCaller(req), req.params.id, req.params.creditNoteId);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'Failed to retry refund');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  /** POST /api/invoices/:id/credit-notes/:creditNoteId/cancel { reason? } — void a note issued in error */
+  cancelCreditNote = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tenantId = this.tenantId(req);
+    if (!tenantId || !req.params.id || !req.params.creditNoteId) {
+      sendError(res, ERROR_CODES.VALIDATION_ERROR, 'Tenant, invoice id and credit note id are required', 400);
+      return;
+    }
+    const reason = req.body?.reason ? String(req.body.reason).trim() : null;
+    const result = await creditNoteService.cancel(tenantId, req.params.id, req.params.creditNoteId, req.user?.id || null, reason);
+    if (!result.success) {
+      this.sendServiceError(res, result.error, 'Failed to cancel credit note');
+      return;
+    }
+    sendSuccess(res, result.data);
+  };
+
+  private creditNoteCaller(req: AuthRequest): CreditNoteCaller {
+    const { userJWT } = this.gatewayContext(req);
+    return {
+      tenantId: this.tenantId(req),
+      isLive: this.isLive(req),
+      userId: req.user?.id || null,
+      authHeader: (req.headers.authorization as string) || '',
+      userJWT,
+    };
+  }
+
+  private sendServiceError(res: Response, error: { code: string; message: string } | undefined, fallback: string): void {
+    const message = error?.message || fallback;
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, message, 400);
+        return;
+      case 'NOT_FOUND':
+        sendError(res, ERROR_CODES.NOT_FOUND, message, 404);
+        return;
+      case 'CONFLICT':
+        sendError(res, ERROR_CODES.CONFLICT, message, 409);
+        return;
+      case 'CONFIG':
+        sendError(res, ERROR_CODES.INTERNAL_ERROR, message, 503);
+        return;
+      case 'SEQUENCE_ERROR':
+        sendError(res, ERROR_CODES.EDGE_FUNCTION_ERROR, message, 502);
+        return;
+      default:
+        sendError(res, ERROR_CODES.INTERNAL_ERROR, message, 500);
+    }
+  }
+
   /** Same shape paymentGatewayController.extractContext builds. */
   private gatewayContext(req: AuthRequest) {
     return {
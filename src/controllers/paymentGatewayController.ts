@@ -5,6 +5,7 @@
 import { Request, Response } from 'express';
 import PaymentGatewayService from '../services/paymentGatewayService';
 import publicPaymentService from '../services/publicPaymentService';
+import razorpayWebhookService from '../services/razorpayWebhookService';
 
 class PaymentGatewayController {
   private paymentGatewayService: PaymentGatewayService;
@@ -210,6 +211,57 @@ class PaymentGatewayController {
     }
   };
 
+  // ═══════════════════════════════════════════════════════════
+  // GET /api/payments/webhook-config — URL + secret to enter in the
+  // tenant's Razorpay dashboard webhook
+  // ═══════════════════════════════════════════════════════════
+  getWebhookConfig = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = this.extractContext(req);
+      const base = (process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+      const result = razorpayWebhookService.getWebhookConfig(tenantId, base);
+      if (!result.success) {
+        res.status(this.mapErrorCodeToStatus(result.error!.code))
+          .json({ success: false, error: result.error!.message, code: result.error!.code });
+        return;
+      }
+      res.status(200).json(result);
+    } catch (error: any) {
+      console.error('[PaymentGatewayController] getWebhookConfig error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    }
+  };
+
+  // ═══════════════════════════════════════════════════════════
+  // POST /api/payments/webhooks/razorpay — called by Razorpay, no JWT.
+  // req.body is the raw Buffer (signature is over the exact bytes).
+  // 2xx acknowledges the event; anything else makes Razorpay retry.
+  // ═══════════════════════════════════════════════════════════
+  handleRazorpayWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+      const result = await razorpayWebhookService.handle({
+        rawBody,
+        signature: (req.headers['x-razorpay-signature'] as string) || null,
+        eventIdHeader: (req.headers['x-razorpay-event-id'] as string) || null,
+        tenantId: (req.query.tenant_id as string) || null,
+        environment: (req.query.environment as string) || null
+      });
+
+      if (!result.success) {
+        const { code, message } = result.error!;
+        console.warn(`[PaymentGatewayController] Razorpay webhook rejected (${code}): ${message}`);
+        res.status(this.mapErrorCodeToStatus(code)).json({ success: false, error: message, code });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error: any) {
+      console.error('[PaymentGatewayController] handleRazorpayWebhook error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    }
+  };
+
   // ─── Error code → HTTP status mapping ─────────────────────
   private mapErrorCodeToStatus(code?: string): number {
     switch (code) {
@@ -222,12 +274,17 @@ class PaymentGatewayController {
         return 401;
       case 'FORBIDDEN':
         return 403;
+      case 'IN_PROGRESS':
+        return 409;
       case 'NOT_FOUND':
       case 'VERIFICATION_FAILED':
         return 404;
       case 'GATEWAY_ERROR':
       case 'EDGE_FUNCTION_ERROR':
+      case 'NETWORK_ERROR':
         return 502;
+      case 'CONFIG':
+        return 503;
       default:
         return 500;
     }
@@ -9,7 +9,10 @@ import { Response } from 'express';
 import { validationResult } from 'express-validator';
 import { AuthRequest } from '../middleware/auth';
 import ServiceExecutionService from '../services/serviceExecutionService';
+import { serviceSlaService, SlaContext } from '../services/serviceSlaService';
+import { storageMediaService } from '../services/storageMediaService';
 import {
+  sendSuccess,
   sendError,
   internalError,
   ERROR_CODES
@@ -57,6 +60,8 @@ class ServiceExecutionController {
         return;
       }
 
+      await serviceSlaService.attachSla(this.slaContext(req), this.ticketsOf(result.data));
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[ServiceExecutionController] Error in listTickets:', error);
@@ -86,6 +91,8 @@ class ServiceExecutionController {
         return;
       }
 
+      await serviceSlaService.attachSla(this.slaContext(req), this.ticketsOf(result.data));
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[ServiceExecutionController] Error in getTicketDetail:', error);
@@ -108,9 +115,11 @@ class ServiceExecutionController {
       const userJWT = req.headers.authorization?.replace('Bearer ', '') || '';
       const userId = req.user?.id || '';
       const idempotencyKey = req.headers['x-idempotency-key'] as string;
+      // SLA inputs — the edge does not keep them
+      const { criticality, asset_id, ...ticket } = req.body;
 
       const result = await this.service.createTicket(
-        req.body, userJWT, tenantId, userId, environment, idempotencyKey
+        ticket, userJWT, tenantId, userId, environment, idempotencyKey
       );
 
       if (!result.success) {
@@ -118,6 +127,8 @@ class ServiceExecutionController {
         return;
       }
 
+      await serviceSlaService.attachSla(this.slaContext(req), this.ticketsOf(result.data), { criticality, asset_id });
+
       res.status(201).json(result);
     } catch (error) {
       console.error('[ServiceExecutionController] Error in createTicket:', error);
@@ -151,6 +162,8 @@ class ServiceExecutionController {
         return;
       }
 
+      await serviceSlaService.attachSla(this.slaContext(req), this.ticketsOf(result.data));
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[ServiceExecutionController] Error in updateTicket:', error);
@@ -190,6 +203,11 @@ class ServiceExecutionController {
         return;
       }
 
+      // Photo evidence: thumbnail URLs so lists do not load full-size photos
+      if (Array.isArray(result.data)) {
+        result.data = await storageMediaService.withThumbnails(tenantId, result.data);
+      }
+
       res.status(200).json(result);
     } catch (error) {
       console.error('[ServiceExecutionController] Error in listEvidence:', error);
@@ -306,10 +324,209 @@ class ServiceExecutionController {
     }
   };
 
+  // ==========================================================
+  // SLA ENDPOINTS (direct DB access, no Edge function)
+  // ==========================================================
+
+  listSlaPolicies = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { tenantId, isLive } = this.slaContext(req);
+      const result = await serviceSlaService.listPolicies(tenantId, isLive, {
+        contract_id: req.query.contract_id as string,
+        block_id: req.query.block_id as string,
+        include_inactive: req.query.include_inactive === 'true',
+      });
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in listSlaPolicies:', error);
+      internalError(res, 'Failed to list SLA policies');
+    }
+  };
+
+  createSlaPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { tenantId, isLive } = this.slaContext(req);
+      const result = await serviceSlaService.createPolicy(tenantId, isLive, req.body, req.user?.id || null);
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data, 201);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in createSlaPolicy:', error);
+      internalError(res, 'Failed to create SLA policy');
+    }
+  };
+
+  updateSlaPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { tenantId, isLive } = this.slaContext(req);
+      const result = await serviceSlaService.updatePolicy(
+        tenantId, isLive, req.params.policyId, req.body, req.user?.id || null
+      );
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in updateSlaPolicy:', error);
+      internalError(res, 'Failed to update SLA policy');
+    }
+  };
+
+  deactivateSlaPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { tenantId, isLive } = this.slaContext(req);
+      const result = await serviceSlaService.deactivatePolicy(
+        tenantId, isLive, req.params.policyId, req.user?.id || null
+      );
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in deactivateSlaPolicy:', error);
+      internalError(res, 'Failed to deactivate SLA policy');
+    }
+  };
+
+  getSlaCompliance = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        sendError(res, ERROR_CODES.VALIDATION_ERROR,
+          `Validation failed with ${errors.array().length} error(s)`, 400,
+          { details: errors.array() });
+        return;
+      }
+
+      const { tenantId, isLive } = this.slaContext(req);
+      const result = await serviceSlaService.getCompliance(tenantId, isLive, {
+        date_from: String(req.query.date_from).slice(0, 10),
+        date_to: String(req.query.date_to).slice(0, 10),
+        contract_id: req.query.contract_id as string,
+      });
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in getSlaCompliance:', error);
+      internalError(res, 'Failed to build SLA compliance report');
+    }
+  };
+
+  runSlaSweep = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = this.slaContext(req);
+      const result = await serviceSlaService.sweep({ tenantId });
+
+      if (!result.success) {
+        this.mapSlaError(res, result.error);
+        return;
+      }
+
+      sendSuccess(res, result.data);
+    } catch (error) {
+      console.error('[ServiceExecutionController] Error in runSlaSweep:', error);
+      internalError(res, 'Failed to run SLA sweep');
+    }
+  };
+
   // ==========================================================
   // HELPERS
   // ==========================================================
 
+  private slaContext(req: AuthRequest): SlaContext {
+    const environment = req.headers['x-environment'] as string || 'live';
+    return {
+      tenantId: req.headers['x-tenant-id'] as string,
+      isLive: environment !== 'test',
+      authToken: req.headers.authorization || undefined,
+    };
+  }
+
+  /** Tickets in an edge payload: a list (array / items / tickets) or one ticket */
+  private ticketsOf(data: any): Record<string, any>[] {
+    const list = Array.isArray(data) ? data
+      : Array.isArray(data?.tickets) ? data.tickets
+      : Array.isArray(data?.items) ? data.items
+      : [data?.ticket ?? data];
+    return list.filter((t: any) => t && typeof t === 'object' && t.id);
+  }
+
+  /**
+   * Map SLA service errors (direct DB access, no Edge function)
+   */
+  private mapSlaError(res: Response, error?: { code: string; message: string }): void {
+    const message = error?.message || 'SLA request failed';
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        sendError(res, ERROR_CODES.VALIDATION_ERROR, message, 400);
+        return;
+      case 'NOT_FOUND':
+        sendError(res, ERROR_CODES.NOT_FOUND, message, 404);
+        return;
+      case 'CONFLICT':
+        sendError(res, ERROR_CODES.CONFLICT, message, 409);
+        return;
+      case 'CONFIG':
+        sendError(res, ERROR_CODES.SERVICE_UNAVAILABLE, message, 503);
+        return;
+      default:
+        sendError(res, ERROR_CODES.DATABASE_ERROR, message, 500);
+    }
+  }
+
   private mapEdgeErrorToResponse(res: Response, result: any): void {
     const codeToStatus: Record<string, number> = {
       'NOT_FOUND': 404,
@@ -8,9 +8,12 @@ import { SUPABASE_URL, validateSupabaseConfig } from '../utils/supabaseConfig';
 import multer from 'multer';
 import path from 'path';
 import { storageService } from '../services/storageService';
+import { storageProviderService } from '../services/storageProviderService';
+import { storageUploadService, UploadContext } from '../services/storageUploadService';
+import { uploadScanService } from '../services/uploadScanService';
 import { checkFirebaseStatus } from '../utils/firebaseConfig';
 import { v4 as uuidv4 } from 'uuid';
-import { logAudit } from '../middleware/auditMiddleware';
+import { logAudit, auditContextOf } from '../middleware/auditMiddleware';
 import { AuditAction, AuditResource, AuditSeverity } from '../constants/auditConstants';
 import { StorageFile } from '../types/storage';
 
@@ -249,7 +252,7 @@ export const setupStorage = async (req: Request, res: Response) => {
     const idempotencyKey = generateIdempotencyKey(tenantId, 'setup');
     
     try {
-      const setupResult = await storageService.setupStorage(authHeader, tenantId);
+      const setupResult = await storageService.setupStorage(authHeader, tenantId, req.productCode);
       
       // Log successful storage setup
       await logAudit(req, {
@@ -406,8 +409,8 @@ export const listFiles = async (req: Request, res: Response) => {
         res.setHeader('X-RateLimit-Remaining', rateLimitInfo.remaining);
       }
       
-      // Simply return whatever the service returns
-      return res.status(200).json(result);
+      // Quarantined files are listed without a download URL
+      return res.status(200).json(uploadScanService.withScanStatus(result));
     } catch (error: any) {
       // If the storage isn't set up properly, return empty array instead of error
       if (error.response?.status === 404 &&
@@ -578,7 +581,9 @@ export const uploadFile = async (req: Request, res: Response) => {
       req.file.size,
       req.file.mimetype,
       category,
-      metadata
+      metadata,
+      req.productCode,
+      req.file.scan
     );
     
     // Log successful upload
@@ -594,11 +599,12 @@ export const uploadFile = async (req: Request, res: Response) => {
         category,
         fileId: result.id,
         downloadUrl: result.download_url,
+        scanStatus: req.file.scan?.status,
         metadata
       }
     });
     
-    return res.status(201).json(result);
+    return res.status(201).json(uploadScanService.withScanStatus(result));
   } catch (error: any) {
     console.error('Error in uploadFile controller:', error.message);
     
@@ -775,7 +781,8 @@ export const uploadMultipleFiles = async (req: Request, res: Response) => {
           fileSize: file.size,
           fileType: file.mimetype,
           category,
-          metadata
+          metadata,
+          scan: file.scan
         };
       });
       
@@ -787,7 +794,8 @@ export const uploadMultipleFiles = async (req: Request, res: Response) => {
         (completed, total) => {
           // Could emit progress via WebSocket if needed
           console.log(`Upload progress: ${completed}/${total}`);
-        }
+        },
+        req.productCode
       );
       
       // Count successes and failures
@@ -817,7 +825,7 @@ export const uploadMultipleFiles = async (req: Request, res: Response) => {
       
       return res.status(207).json({ // 207 Multi-Status
         message: `Uploaded ${successes} files successfully${failures > 0 ? `, ${failures} failed` : ''}`,
-        results,
+        results: results.map(r => (r.file ? { ...r, file: uploadScanService.withScanStatus(r.file) } : r)),
         summary: {
           total: results.length,
           succeeded: successes,
@@ -930,7 +938,7 @@ export const deleteFile = async (req: Request, res: Response) => {
       });
     }
     
-    const result = await storageService.deleteFile(authHeader, tenantId, fileId);
+    const result = await storageService.deleteFile(authHeader, tenantId, fileId, req.productCode);
     
     // Log successful deletion
     await logAudit(req, {
@@ -1051,7 +1059,7 @@ export const deleteMultipleFiles = async (req: Request, res: Response) => {
     }
     
     // Delete files
-    const results = await storageService.deleteMultipleFiles(authHeader, tenantId, fileIds);
+    const results = await storageService.deleteMultipleFiles(authHeader, tenantId, fileIds, req.productCode);
     
     // Count successes and failures
     const successes = results.filter(r => r.success).length;
@@ -1194,6 +1202,344 @@ export const getFirebaseStatus = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Serve an object from a local-disk or private-bucket provider.
+ * No bearer token: the signature in the URL (issued with the file's
+ * download_url) is the authorization.
+ */
+export const getObject = async (req: Request, res: Response) => {
+  try {
+    const objectPath = req.params[0];
+    const { product, tenant, sig } = req.query as Record<string, string | undefined>;
+
+    // Quarantined files are not served until a rescan clears them
+    if (uploadScanService.isQuarantinePath(objectPath)) {
+      return res.status(403).json({ error: 'File is quarantined', code: 'FILE_QUARANTINED' });
+    }
+
+    const object = await storageProviderService.readSignedObject(
+      product || '',
+      tenant || '',
+      objectPath,
+      sig || ''
+    );
+
+    if (!object) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.set('Content-Type', object.contentType);
+    res.set('Content-Length', String(object.body.length));
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.set('X-Content-Type-Options', 'nosniff');
+    // Uploaded HTML/SVG must not run script on the API origin
+    res.set('Content-Security-Policy', "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; sandbox");
+    return res.status(200).send(object.body);
+  } catch (error: any) {
+    console.error('Error in getObject controller:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'getObject' }
+    });
+
+    return res.status(500).json({ error: 'Failed to read file' });
+  }
+};
+
+// =================================================================
+// DIRECT / RESUMABLE UPLOADS
+// =================================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Upload service error code → HTTP status
+const uploadErrorStatus = (code?: string): number => {
+  switch (code) {
+    case 'VALIDATION_ERROR':
+    case 'FILE_TOO_LARGE':
+    case 'STORAGE_NOT_SETUP':
+    case 'UPLOAD_INCOMPLETE':
+    case 'UPLOAD_SIZE_MISMATCH':
+    case 'STORAGE_QUOTA_EXCEEDED':
+      return 400;
+    case 'INVALID_SIGNATURE':
+      return 403;
+    case 'NOT_FOUND':
+      return 404;
+    case 'CONFLICT':
+      return 409;
+    case 'UPLOAD_EXPIRED':
+      return 410;
+    case 'FILE_TYPE_MISMATCH':
+    case 'FILE_ACTIVE_CONTENT':
+      return 415;
+    case 'FILE_EXECUTABLE':
+    case 'MALWARE_DETECTED':
+      return 422;
+    case 'RECORD_FAILED':
+    case 'STORAGE_ERROR':
+      return 502;
+    case 'SERVICE_UNAVAILABLE':
+    case 'SCANNER_UNAVAILABLE':
+      return 503;
+    default:
+      return 500;
+  }
+};
+
+const uploadContext = (req: Request): UploadContext => ({
+  tenantId: req.headers['x-tenant-id'] as string,
+  productCode: req.productCode,
+  authToken: req.headers.authorization as string,
+  userId: (req as any).user?.id || null,
+  auditContext: auditContextOf(req)
+});
+
+/**
+ * Issue an upload slot for a large file (quota pre-checked by
+ * validateStorageQuota; the declared size is reserved by the service)
+ */
+export const createUpload = async (req: Request, res: Response) => {
+  try {
+    const { file_name, file_size, mime_type, category, metadata } = req.body || {};
+    const validCategories = storageService.getStorageCategories().map(cat => cat.id);
+
+    const errors: string[] = [];
+    if (typeof file_name !== 'string' || !file_name.trim() || file_name.length > 255) {
+      errors.push('file_name is required (max 255 characters)');
+    }
+    if (!Number.isInteger(file_size) || file_size <= 0) {
+      errors.push('file_size must be a positive integer (bytes)');
+    }
+    if (typeof mime_type !== 'string' || !mime_type.includes('/')) {
+      errors.push('mime_type is required');
+    }
+    if (!validCategories.includes(category)) {
+      errors.push(`category must be one of: ${validCategories.join(', ')}`);
+    }
+    if (metadata !== undefined && (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata))) {
+      errors.push('metadata must be an object');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await storageUploadService.createUpload(uploadContext(req), {
+      file_name: file_name.trim(),
+      file_size,
+      mime_type,
+      category,
+      metadata
+    });
+
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code
+      });
+    }
+
+    await logAudit(req, {
+      action: AuditAction.FILE_UPLOAD,
+      resource: AuditResource.STORAGE,
+      resourceId: result.data!.upload_id,
+      success: true,
+      metadata: {
+        stage: 'slot_issued',
+        fileName: file_name,
+        fileSize: file_size,
+        category,
+        mode: result.data!.mode,
+        partCount: result.data!.part_count
+      }
+    });
+
+    return res.status(201).json(result.data);
+  } catch (error: any) {
+    console.error('Error in createUpload controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'createUpload' }
+    });
+    return res.status(500).json({ error: 'Failed to create upload' });
+  }
+};
+
+/**
+ * Upload slot state — the parts still missing, with fresh URLs (resume)
+ */
+export const getUpload = async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload id', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await storageUploadService.getUpload(uploadContext(req), req.params.uploadId);
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code
+      });
+    }
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in getUpload controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'getUpload' }
+    });
+    return res.status(500).json({ error: 'Failed to read upload' });
+  }
+};
+
+/**
+ * Receive one part of a chunked upload (providers without direct upload).
+ * Raw body; the signed part URL is the authorization.
+ */
+export const uploadPart = async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload id', code: 'VALIDATION_ERROR' });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Part body is empty', code: 'VALIDATION_ERROR' });
+    }
+
+    const { expires, sig } = req.query as Record<string, string | undefined>;
+    const result = await storageUploadService.receivePart(
+      req.params.uploadId,
+      Number(req.params.partNumber),
+      expires || '',
+      sig || '',
+      req.body
+    );
+
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code
+      });
+    }
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in uploadPart controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'uploadPart' }
+    });
+    return res.status(500).json({ error: 'Failed to store upload part' });
+  }
+};
+
+/**
+ * Confirm an upload: assemble it in storage and record the file
+ */
+export const completeUpload = async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload id', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await storageUploadService.completeUpload(uploadContext(req), req.params.uploadId);
+
+    await logAudit(req, {
+      action: AuditAction.FILE_UPLOAD,
+      resource: AuditResource.STORAGE,
+      resourceId: result.data?.file?.id || req.params.uploadId,
+      success: result.success,
+      error: result.error?.message,
+      severity: result.success ? undefined : AuditSeverity.WARNING,
+      metadata: {
+        stage: 'completed',
+        uploadId: req.params.uploadId,
+        fileName: result.data?.file_name,
+        fileSize: result.data?.file_size,
+        errorCode: result.error?.code
+      }
+    });
+
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code,
+        ...(result.error?.details ? { details: result.error.details } : {})
+      });
+    }
+    return res.status(200).json({
+      ...result.data,
+      ...(result.data?.file ? { file: uploadScanService.withScanStatus(result.data.file) } : {})
+    });
+  } catch (error: any) {
+    console.error('Error in completeUpload controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'completeUpload' }
+    });
+    return res.status(500).json({ error: 'Failed to complete upload' });
+  }
+};
+
+/**
+ * Scan a quarantined file again: released when clean, deleted when malware
+ */
+export const rescanFile = async (req: Request, res: Response) => {
+  try {
+    if (!req.headers['x-tenant-id']) {
+      return res.status(400).json({ error: 'x-tenant-id header is required', code: 'VALIDATION_ERROR' });
+    }
+    if (!UUID_PATTERN.test(req.params.fileId)) {
+      return res.status(400).json({ error: 'Invalid file id', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await uploadScanService.rescanFile(
+      {
+        tenantId: req.headers['x-tenant-id'] as string,
+        productCode: req.productCode,
+        authToken: req.headers.authorization as string,
+        auditContext: auditContextOf(req)
+      },
+      req.params.fileId
+    );
+
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code,
+        ...(result.error?.details ? { details: result.error.details } : {})
+      });
+    }
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in rescanFile controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'rescanFile' }
+    });
+    return res.status(500).json({ error: 'Failed to rescan file' });
+  }
+};
+
+/**
+ * Abort an upload slot and release its quota reservation
+ */
+export const abortUpload = async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload id', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await storageUploadService.abortUpload(uploadContext(req), req.params.uploadId);
+    if (!result.success) {
+      return res.status(uploadErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        code: result.error?.code
+      });
+    }
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in abortUpload controller:', error.message);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_storage', action: 'abortUpload' }
+    });
+    return res.status(500).json({ error: 'Failed to abort upload' });
+  }
+};
+
 // Admin/diagnostic endpoints remain the same but with enhanced error handling and audit logging
 export const getTenantStorageStructure = async (req: Request, res: Response) => {
   try {
@@ -1310,7 +1656,8 @@ export const listDiagnosticFiles = async (req: Request, res: Response) => {
     const files = await storageService.listDiagnosticFiles(
       req.headers.authorization as string,
       tenantId,
-      path
+      path,
+      req.productCode
     );
     
     await logAudit(req, {
@@ -1452,7 +1799,8 @@ export const uploadDiagnosticFile = async (req: Request, res: Response) => {
         req.file.originalname,
         req.file.size,
         req.file.mimetype,
-        path
+        path,
+        req.productCode
       );
       
       await logAudit(req, {
@@ -1564,7 +1912,8 @@ export const deleteDiagnosticFile = async (req: Request, res: Response) => {
     const result = await storageService.deleteDiagnosticFile(
       authHeader,
       tenantId,
-      filePath
+      filePath,
+      req.productCode
     );
     
     await logAudit(req, {
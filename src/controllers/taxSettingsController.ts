@@ -5,12 +5,14 @@ import { Request, Response } from 'express';
 import { captureException } from '../utils/sentry';
 import { validateSupabaseConfig } from '../utils/supabaseConfig';
 import { taxSettingsService } from '../services/taxSettingsService';
+import { taxEngineService } from '../services/taxEngineService';
 import { logAudit } from '../middleware/auditMiddleware';
 import { AuditAction, AuditResource } from '../constants/auditConstants';
 import { 
   TaxSettingsRequest, 
   CreateTaxRateRequest, 
   UpdateTaxRateRequest,
+  TaxCalculationContext,
   TaxUtils,
   TaxErrorCode,
   TAX_ERROR_MESSAGES 
@@ -584,4 +586,41 @@ export const activateTaxRate = async (req: Request, res: Response) => {
     
     return res.status(status).json({ error: message });
   }
-};
\ No newline at end of file
+};
+/**
+ * POST /api/tax-settings/calculate
+ * Calculate tax for an amount or lines: resolves the tenant's rates and
+ * display mode, and splits GST into CGST+SGST or IGST by seller/buyer state
+ */
+export const calculateTax = async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.headers['x-tenant-id'] as string;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
+    }
+
+    const context: TaxCalculationContext = req.body;
+    const result = await taxEngineService.calculate(tenantId, context);
+
+    if (!result.success) {
+      const code = result.error?.code;
+      const status = code === 'RATE_NOT_FOUND' ? 404 : code === 'CONFIG' ? 503 : 500;
+      return res.status(status).json({
+        error: result.error?.message || 'Failed to calculate tax',
+        code: code === 'RATE_NOT_FOUND' ? TaxErrorCode.RATE_NOT_FOUND : TaxErrorCode.INTERNAL_ERROR
+      });
+    }
+
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in calculateTax controller:', error);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_tax_settings', action: 'calculateTax' },
+      extra: { tenantId: req.headers['x-tenant-id'] }
+    });
+
+    return res.status(500).json({ error: error.message || 'Failed to calculate tax' });
+  }
+};
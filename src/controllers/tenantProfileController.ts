@@ -4,6 +4,7 @@ import { Request, Response } from 'express';
 import { captureException } from '../utils/sentry';
 import { SUPABASE_URL, validateSupabaseConfig } from '../utils/supabaseConfig';
 import { tenantProfileService } from '../services/tenantProfileService';
+import { tenantTimeZoneService } from '../services/tenantTimeZoneService';
 
 /**
 * Get tenant profile for the current tenant
@@ -147,6 +148,7 @@ export const updateTenantProfile = async (req: Request, res: Response) => {
       req.body,
       idempotencyKey
     );
+    tenantTimeZoneService.invalidate(tenantId);
     return res.status(200).json(profile);
   } catch (error: any) {
     console.error('Error in updateTenantProfile controller:', error.message);
@@ -3,6 +3,10 @@ import { Request, Response } from 'express';
 import axios from 'axios';
 import { captureException } from '../utils/sentry';
 import { SUPABASE_URL, validateSupabaseConfig, getSupabaseConfigForRequest } from '../utils/supabaseConfig';
+import { AuthRequest } from '../middleware/auth';
+import { logAudit } from '../middleware/auditMiddleware';
+import { AuditAction, AuditResource } from '../constants/auditConstants';
+import permissionService from '../services/permissionService';
 
 /**
  * List all users for the current tenant
@@ -509,128 +513,290 @@ export const getUserActivity = async (req: Request, res: Response) => {
   }
 };
 
+
+// =================================================================
+// ROLES & PERMISSIONS — served from the database via permissionService
+// (src/constants/permissions.ts), not the user-management edge function,
+// so that assignments and mappings drop the permission cache at once.
+// =================================================================
+
+const permissionErrorStatus = (code?: string): number => {
+  switch (code) {
+    case 'VALIDATION_ERROR':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    default:
+      return 500;
+  }
+};
+
 /**
- * Assign role to user
+ * List the roles a user holds in the tenant
  */
-export const assignUserRole = async (req: Request, res: Response) => {
+export const getUserRoles = async (req: AuthRequest, res: Response) => {
   try {
-    if (!validateSupabaseConfig('api_users', 'assignUserRole')) {
-      return res.status(500).json({ 
-        error: 'Server configuration error: Missing Supabase configuration' 
-      });
+    const tenantId = req.headers['x-tenant-id'] as string;
+    const userId = req.params.id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
     }
 
-    const authHeader = req.headers.authorization;
+    const result = await permissionService.listUserRoles(tenantId, userId);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({ error: result.error?.message });
+    }
+
+    return res.status(200).json({ user_id: userId, roles: result.data });
+  } catch (error: any) {
+    console.error('Error in getUserRoles:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_users', action: 'getUserRoles' },
+      userId: req.params.id
+    });
+
+    return res.status(500).json({ error: 'Failed to fetch user roles' });
+  }
+};
+
+/**
+ * Assign role to user
+ */
+export const assignUserRole = async (req: AuthRequest, res: Response) => {
+  try {
     const tenantId = req.headers['x-tenant-id'] as string;
     const userId = req.params.id;
     const { role_id } = req.body;
-    
-    if (!authHeader) {
-      return res.status(401).json({ error: 'Authorization header is required' });
-    }
-    
+
     if (!tenantId) {
       return res.status(400).json({ error: 'x-tenant-id header is required' });
     }
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' });
-    }
-    
+
     if (!role_id) {
       return res.status(400).json({ error: 'Role ID is required' });
     }
-    
+
     console.log('Assigning role to user:', userId, 'Role:', role_id);
-    
-    const response = await axios.post(
-      `${SUPABASE_URL}/functions/v1/user-management/${userId}/roles`,
-      { role_id },
-      {
-        headers: {
-          Authorization: authHeader,
-          'x-tenant-id': tenantId,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-    
-    return res.status(200).json(response.data);
+
+    const result = await permissionService.assignRole(tenantId, userId, role_id);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({ error: result.error?.message });
+    }
+
+    await logAudit(req, {
+      action: AuditAction.ROLE_CHANGE,
+      resource: AuditResource.USERS,
+      resourceId: userId,
+      metadata: { operation: 'assign', role_id, roles: result.data?.map(role => role.name) }
+    });
+
+    return res.status(200).json({ user_id: userId, roles: result.data });
   } catch (error: any) {
     console.error('Error in assignUserRole:', error.message);
-    
+
     captureException(error instanceof Error ? error : new Error(String(error)), {
       tags: { source: 'api_users', action: 'assignUserRole' },
-      userId: req.params.id,
-      status: error.response?.status
+      userId: req.params.id
     });
 
-    const status = error.response?.status || 500;
-    const message = error.response?.data?.error || error.message || 'Failed to assign role';
-    
-    return res.status(status).json({ error: message });
+    return res.status(500).json({ error: 'Failed to assign role' });
   }
 };
 
 /**
  * Remove role from user
  */
-export const removeUserRole = async (req: Request, res: Response) => {
+export const removeUserRole = async (req: AuthRequest, res: Response) => {
   try {
-    if (!validateSupabaseConfig('api_users', 'removeUserRole')) {
-      return res.status(500).json({ 
-        error: 'Server configuration error: Missing Supabase configuration' 
-      });
-    }
-
-    const authHeader = req.headers.authorization;
     const tenantId = req.headers['x-tenant-id'] as string;
     const userId = req.params.id;
     const roleId = req.params.roleId;
-    
-    if (!authHeader) {
-      return res.status(401).json({ error: 'Authorization header is required' });
-    }
-    
+
     if (!tenantId) {
       return res.status(400).json({ error: 'x-tenant-id header is required' });
     }
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' });
-    }
-    
-    if (!roleId) {
-      return res.status(400).json({ error: 'Role ID is required' });
-    }
-    
+
     console.log('Removing role from user:', userId, 'Role:', roleId);
-    
-    const response = await axios.delete(
-      `${SUPABASE_URL}/functions/v1/user-management/${userId}/roles/${roleId}`,
-      {
-        headers: {
-          Authorization: authHeader,
-          'x-tenant-id': tenantId,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-    
-    return res.status(200).json(response.data);
+
+    const result = await permissionService.removeRole(tenantId, userId, roleId);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({ error: result.error?.message });
+    }
+
+    await logAudit(req, {
+      action: AuditAction.ROLE_CHANGE,
+      resource: AuditResource.USERS,
+      resourceId: userId,
+      metadata: { operation: 'remove', role_id: roleId, roles: result.data?.map(role => role.name) }
+    });
+
+    return res.status(200).json({ user_id: userId, roles: result.data });
   } catch (error: any) {
     console.error('Error in removeUserRole:', error.message);
-    
+
     captureException(error instanceof Error ? error : new Error(String(error)), {
       tags: { source: 'api_users', action: 'removeUserRole' },
       userId: req.params.id,
-      roleId: req.params.roleId,
-      status: error.response?.status
+      roleId: req.params.roleId
     });
 
-    const status = error.response?.status || 500;
-    const message = error.response?.data?.error || error.message || 'Failed to remove role';
-    
-    return res.status(status).json({ error: message });
+    return res.status(500).json({ error: 'Failed to remove role' });
+  }
+};
+
+/**
+ * The permission catalogue
+ */
+export const listPermissions = async (_req: AuthRequest, res: Response) => {
+  return res.status(200).json({ permissions: permissionService.listPermissions() });
+};
+
+/**
+ * What the current user may do in the tenant (for showing / hiding actions)
+ */
+export const getMyPermissions = async (req: AuthRequest, res: Response) => {
+  try {
+    const tenantId = req.headers['x-tenant-id'] as string;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
+    }
+
+    const resolved = await permissionService.resolve(tenantId, req.user.id);
+    return res.status(200).json({
+      is_member: resolved.isMember,
+      is_tenant_admin: resolved.isTenantAdmin,
+      roles: resolved.roles,
+      permissions: resolved.permissions
+    });
+  } catch (error: any) {
+    console.error('Error in getMyPermissions:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_users', action: 'getMyPermissions' },
+      tenantId: req.headers['x-tenant-id']
+    });
+
+    return res.status(500).json({ error: 'Failed to resolve permissions' });
+  }
+};
+
+/**
+ * A role's permissions in the tenant, and where they come from
+ */
+export const getRolePermissions = async (req: AuthRequest, res: Response) => {
+  try {
+    const tenantId = req.headers['x-tenant-id'] as string;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
+    }
+
+    const result = await permissionService.getRolePermissions(tenantId, req.params.roleId);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({ error: result.error?.message });
+    }
+
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in getRolePermissions:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_users', action: 'getRolePermissions' },
+      roleId: req.params.roleId
+    });
+
+    return res.status(500).json({ error: 'Failed to fetch role permissions' });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Replace a role's permissions in the tenant
+ */
+export const setRolePermissions = async (req: AuthRequest, res: Response) => {
+  try {
+    const tenantId = req.headers['x-tenant-id'] as string;
+    const roleId = req.params.roleId;
+    const { permissions } = req.body;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
+    }
+
+    const result = await permissionService.setRolePermissions(tenantId, roleId, permissions);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({
+        error: result.error?.message,
+        ...(result.error?.details && { details: result.error.details })
+      });
+    }
+
+    const { role, granted, revoked } = result.data!;
+    if (granted.length) {
+      await logAudit(req, {
+        action: AuditAction.PERMISSION_GRANT,
+        resource: AuditResource.USERS,
+        resourceId: roleId,
+        metadata: { role: role.name, permissions: granted }
+      });
+    }
+    if (revoked.length) {
+      await logAudit(req, {
+        action: AuditAction.PERMISSION_REVOKE,
+        resource: AuditResource.USERS,
+        resourceId: roleId,
+        metadata: { role: role.name, permissions: revoked }
+      });
+    }
+
+    return res.status(200).json(role);
+  } catch (error: any) {
+    console.error('Error in setRolePermissions:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_users', action: 'setRolePermissions' },
+      roleId: req.params.roleId
+    });
+
+    return res.status(500).json({ error: 'Failed to update role permissions' });
+  }
+};
+
+/**
+ * Drop the tenant's mapping for a role, returning it to its default
+ */
+export const resetRolePermissions = async (req: AuthRequest, res: Response) => {
+  try {
+    const tenantId = req.headers['x-tenant-id'] as string;
+    const roleId = req.params.roleId;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'x-tenant-id header is required' });
+    }
+
+    const result = await permissionService.resetRolePermissions(tenantId, roleId);
+    if (!result.success) {
+      return res.status(permissionErrorStatus(result.error?.code)).json({ error: result.error?.message });
+    }
+
+    await logAudit(req, {
+      action: AuditAction.ROLE_CHANGE,
+      resource: AuditResource.USERS,
+      resourceId: roleId,
+      metadata: { operation: 'reset_permissions', role: result.data?.name, permissions: result.data?.permissions }
+    });
+
+    return res.status(200).json(result.data);
+  } catch (error: any) {
+    console.error('Error in resetRolePermissions:', error.message);
+
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'api_users', action: 'resetRolePermissions' },
+      roleId: req.params.roleId
+    });
+
+    return res.status(500).json({ error: 'Failed to reset role permissions' });
+  }
+};
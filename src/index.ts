@@ -39,11 +39,16 @@ import productConfigRoutes from './routes/productConfigRoutes';
 // NOTE: groupsRoutes is loaded dynamically below via require() for error handling
 import cardProxyRoutes from './routes/cardProxyRoutes';
 import paymentGatewayRoutes from './routes/paymentGatewayRoutes';
+import paymentWebhookRoutes from './routes/paymentWebhookRoutes';
 
 
 // JTD services
 import { jtdRealtimeListener } from './services/jtdRealtimeListener';
 import { jtdService } from './services/jtdService';
+import { overdueSweeperService } from './services/overdueSweeperService';
+import { dunningService } from './services/dunningService';
+import { serviceSlaService } from './services/serviceSlaService';
+import { contractRenewalService } from './services/contractRenewalService';
 
 // Global error handlers
 process.on('uncaughtException', (error) => {
@@ -472,6 +477,23 @@ try {
   }
 }
 
+// Load Calendar Feed routes (authenticated management + public ICS) with error handling
+let calendarFeedRoutes, calendarFeedPublicRoutes;
+try {
+  calendarFeedRoutes = require('./routes/calendarFeedRoutes').default;
+  calendarFeedPublicRoutes = require('./routes/calendarFeedPublicRoutes').default;
+  console.log('✅ Calendar Feed routes loaded');
+} catch (error) {
+  console.error('❌ Failed to load Calendar Feed routes:', error);
+  if (process.env.NODE_ENV === 'production') {
+    process.exit(1);
+  } else {
+    console.warn('⚠️  Continuing without Calendar Feed routes...');
+    calendarFeedRoutes = null;
+    calendarFeedPublicRoutes = null;
+  }
+}
+
 // Load Invoice routes (standalone, non-contract-scoped) with error handling.
 // ⚠ Restored 2026-08-13: originally registered on 2026-08-09 (2cc04a1) and
 // silently DELETED on 2026-08-10 (e3900b2) by a whole-file index.ts copy
@@ -508,6 +530,22 @@ try {
   }
 }
 
+// Load Buyer Portal routes with error handling — NO authenticate: buyers
+// sign in with a one-time code and the router carries its own session check.
+let buyerPortalRoutes;
+try {
+  buyerPortalRoutes = require('./routes/buyerPortalRoutes').default;
+  console.log('✅ Buyer portal routes loaded');
+} catch (error) {
+  console.error('❌ Failed to load Buyer portal routes:', error);
+  if (process.env.NODE_ENV === 'production') {
+    process.exit(1);
+  } else {
+    console.warn('⚠️  Continuing without Buyer portal routes...');
+    buyerPortalRoutes = null;
+  }
+}
+
 // Load VaNi Composer routes with error handling
 let vaniComposerRoutes;
 try {
@@ -645,6 +683,9 @@ app.use(setTenantContext);
 console.log('🚨 Mounting storage routes BEFORE body parsers...');
 app.use('/api/storage', storageRoutes);
 
+// 5.1. Payment gateway webhooks verify a signature over the raw body — also before body parsers
+app.use('/api/payments/webhooks', paymentWebhookRoutes);
+
 // 6. NOW apply morgan (after storage routes in case it's reading bodies)
 app.use(morgan(process.env.NODE_ENV === 'production' ? 'combined' : 'dev'));
 
@@ -1062,6 +1103,28 @@ try {
   });
 }
 
+// Register Calendar Feed routes — the public ICS router must NOT sit behind
+// any global authenticate; calendar clients only carry the token in the URL.
+try {
+  if (calendarFeedRoutes) {
+    app.use('/api/calendar-feeds', calendarFeedRoutes);
+    console.log('✅ Calendar Feed routes registered at /api/calendar-feeds');
+  } else {
+    console.log('⚠️  Calendar Feed routes skipped (not loaded)');
+  }
+  if (calendarFeedPublicRoutes) {
+    app.use('/api/ical', calendarFeedPublicRoutes);
+    console.log('✅ Calendar Feed (public ICS) routes registered at /api/ical');
+  } else {
+    console.log('⚠️  Calendar Feed (public ICS) routes skipped (not loaded)');
+  }
+} catch (error) {
+  console.error('❌ Failed to register Calendar Feed routes:', error);
+  captureException(error instanceof Error ? error : new Error(String(error)), {
+    tags: { source: 'route_registration', route_type: 'calendar_feeds' }
+  });
+}
+
 // Register RFQ public (vendor quote) routes with error handling — must NOT
 // sit behind any global authenticate; a vendor answering a quote has no
 // tenant account, only the (cnak, secret) pair in the URL.
@@ -1079,6 +1142,22 @@ try {
   });
 }
 
+// Register Buyer Portal routes with error handling — must NOT sit behind any
+// global authenticate; portal sessions are checked by authenticatePortal.
+try {
+  if (buyerPortalRoutes) {
+    app.use('/api/portal', buyerPortalRoutes);
+    console.log('✅ Buyer portal routes registered at /api/portal');
+  } else {
+    console.log('⚠️  Buyer portal routes skipped (not loaded)');
+  }
+} catch (error) {
+  console.error('❌ Failed to register Buyer portal routes:', error);
+  captureException(error instanceof Error ? error : new Error(String(error)), {
+    tags: { source: 'route_registration', route_type: 'buyer_portal' }
+  });
+}
+
 // Register VaNi Composer routes with error handling
 try {
   if (vaniComposerRoutes) {
@@ -1588,6 +1667,26 @@ const startServer = async () => {
 
       // Initialize JTD after server starts
       initializeJTD();
+
+      // Overdue contract events sweeper (OVERDUE_SWEEP_ENABLED=false to run it elsewhere)
+      if (process.env.OVERDUE_SWEEP_ENABLED !== 'false') {
+        overdueSweeperService.start();
+      }
+
+      // Invoice dunning (DUNNING_ENABLED=false to run it elsewhere)
+      if (process.env.DUNNING_ENABLED !== 'false') {
+        dunningService.start();
+      }
+
+      // Service ticket SLA breach sweep (SLA_SWEEP_ENABLED=false to run it elsewhere)
+      if (process.env.SLA_SWEEP_ENABLED !== 'false') {
+        serviceSlaService.start();
+      }
+
+      // Scheduled renewal drafting for tenants with auto_draft (RENEWAL_SWEEP_ENABLED=false to run it elsewhere)
+      if (process.env.RENEWAL_SWEEP_ENABLED !== 'false') {
+        contractRenewalService.start();
+      }
     });
 
     // Graceful shutdown
@@ -1602,6 +1701,12 @@ const startServer = async () => {
         console.error('Error stopping JTD listener:', error);
       }
 
+      // Stop background jobs
+      overdueSweeperService.stop();
+      dunningService.stop();
+      serviceSlaService.stop();
+      contractRenewalService.stop();
+
       // Close HTTP server
       server.close(() => {
         console.log('HTTP server closed');
@@ -204,6 +204,13 @@ export const logAudit = async (
   }
 };
 
+/**
+ * Audit context of a request, for services that write to auditService
+ * directly (set by the audit middleware when present)
+ */
+export const auditContextOf = (req: Request): AuditContext =>
+  req.auditContext || auditService.createContext(req);
+
 /**
  * Audit common API actions
  */
@@ -3,6 +3,8 @@ import { Request, Response, NextFunction } from 'express';
 import { SupabaseClient } from '@supabase/supabase-js';
 import axios from 'axios';
 import { captureException } from '../utils/sentry';
+import { Permission } from '../constants/permissions';
+import permissionService from '../services/permissionService';
 import {
   getSupabaseClientFromRequest,
   getSupabaseUrlForProduct,
@@ -253,6 +255,45 @@ export const requireRole = (roles: string[]) => {
   };
 };
 
+// Middleware to require permissions in the request's tenant, e.g.
+// requirePermission(Permission.INVOICES_CANCEL). Must run after
+// `authenticate`. Resolved locally by permissionService (cached per member),
+// so unlike requireRole it makes no edge-function call per request.
+export const requirePermission = (...required: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const tenantId = req.headers['x-tenant-id'] as string;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID is required' });
+    }
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const missing = await permissionService.missing(tenantId, req.user.id, required);
+      if (missing.length) {
+        return res.status(403).json({
+          error: 'Insufficient permissions',
+          code: 'PERMISSION_DENIED',
+          required: missing
+        });
+      }
+      next();
+    } catch (error: any) {
+      // Fail closed: an unresolvable check is not a grant
+      console.error('Permission middleware error:', error);
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { source: 'api_auth', product: (req as any).productCode },
+        operation: 'requirePermission',
+        path: req.path,
+        permissions: required,
+        tenantId
+      });
+      return res.status(503).json({ error: 'Permission check unavailable', code: 'PERMISSION_CHECK_FAILED' });
+    }
+  };
+};
+
 // Middleware to require a genuine platform-admin user. Must run after
 // `authenticate` (needs req.user populated). Checks the same t_user_profiles
 // .is_admin signal already trusted by auditMiddleware.ts, rather than a
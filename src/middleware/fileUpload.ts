@@ -6,8 +6,21 @@ import { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
 import { captureException } from '../utils/sentry';
-import { logAudit } from './auditMiddleware';
+import { logAudit, auditContextOf } from './auditMiddleware';
 import { AuditAction, AuditResource, AuditSeverity } from '../constants/auditConstants';
+import { uploadScanService, scanRejection } from '../services/uploadScanService';
+import { StorageScanVerdict } from '../types/storage';
+
+// Verdict of scanUploads on each received file
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        scan?: StorageScanVerdict;
+      }
+    }
+  }
+}
 
 // Define allowed file types
 const ALLOWED_FILE_TYPES = [
@@ -115,8 +128,8 @@ export const handleFileUpload = (req: Request, res: Response, next: NextFunction
       });
     }
     
-    // Continue to next middleware/controller
-    next();
+    // Check the content before anything else sees it
+    scanUploads(req, res, next);
   });
 };
 
@@ -200,11 +213,72 @@ export const handleMultipleFileUpload = (req: Request, res: Response, next: Next
       return res.status(400).json({ error: 'Category is required' });
     }
     
-    // Continue to next middleware/controller
-    next();
+    // Check the content before anything else sees it
+    scanUploads(req, res, next);
   });
 };
 
+/**
+ * Scan uploaded files middleware — use after multer on any route that accepts
+ * files (storage, public attachments). Sniffs the content against the declared
+ * mimetype and runs the antivirus hook (uploadScanService); each verdict is
+ * audited and set on the file as `file.scan`. A rejected file fails the whole
+ * request, nothing is stored.
+ */
+export const scanUploads = async (req: Request, res: Response, next: NextFunction) => {
+  const files: Express.Multer.File[] = req.file
+    ? [req.file]
+    : Array.isArray(req.files)
+      ? req.files
+      : Object.values(req.files || {}).reduce<Express.Multer.File[]>((all, list) => all.concat(list), []);
+  
+  if (files.length === 0) {
+    return next();
+  }
+  
+  try {
+    const auditContext = auditContextOf(req);
+    const rejected: Array<{ file: Express.Multer.File; verdict: StorageScanVerdict }> = [];
+    
+    for (const file of files) {
+      file.scan = await uploadScanService.inspect(file.buffer, file.mimetype);
+      await uploadScanService.recordVerdict(auditContext, file.scan, {
+        fileName: file.originalname,
+        fileSize: file.size,
+        category: req.body?.category,
+        source: req.originalUrl
+      });
+      if (file.scan.status === 'rejected') {
+        rejected.push({ file, verdict: file.scan });
+      }
+    }
+    
+    if (rejected.length > 0) {
+      const { status, code, message } = scanRejection(rejected[0].verdict);
+      return res.status(status).json({
+        error: files.length > 1 ? `${rejected[0].file.originalname}: ${message}` : message,
+        code,
+        rejected: rejected.map(({ file, verdict }) => ({
+          fileName: file.originalname,
+          reason: verdict.reason,
+          declaredType: verdict.declared_mime,
+          detectedType: verdict.detected_mime
+        }))
+      });
+    }
+    
+    next();
+  } catch (error) {
+    console.error('Error in scanUploads middleware:', error);
+    
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'file_upload', error_type: 'scan_error' }
+    });
+    
+    return res.status(500).json({ error: 'Failed to scan uploaded files' });
+  }
+};
+
 /**
  * Validate storage setup middleware
  * Checks if tenant has storage setup before allowing file operations
@@ -298,12 +372,17 @@ export const validateStorageSetup = async (req: Request, res: Response, next: Ne
 
 /**
  * Validate remaining storage quota middleware
- * Works for both single and multiple file uploads
+ * Works for single and multiple file uploads, and for upload slots
+ * (POST /api/storage/uploads) where the size is declared in body.file_size.
+ * Space reserved by the tenant's pending upload slots counts as used.
  */
 export const validateStorageQuota = async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const declaredSize = Number(req.body?.file_size);
+    const hasDeclaredSize = Number.isFinite(declaredSize) && declaredSize > 0;
+
     // Only validate if file(s) present
-    if (!req.file && (!req.files || !Array.isArray(req.files))) {
+    if (!req.file && (!req.files || !Array.isArray(req.files)) && !hasDeclaredSize) {
       return next();
     }
     
@@ -340,8 +419,9 @@ export const validateStorageQuota = async (req: Request, res: Response, next: Ne
       return res.status(400).json({ error: 'x-tenant-id header is required' });
     }
     
-    // Import service here to avoid circular dependencies
+    // Import services here to avoid circular dependencies
     const { storageService } = require('../services/storageService');
+    const { storageUploadService } = require('../services/storageUploadService');
     
     // Get current storage stats
     const stats = await storageService.getStorageStats(
@@ -349,23 +429,33 @@ export const validateStorageQuota = async (req: Request, res: Response, next: Ne
       tenantId
     );
     
+    // Space held by upload slots not yet completed
+    const reserved = await storageUploadService.getReservedBytes(tenantId);
+    if (!reserved.success) {
+      throw new Error(reserved.error?.message || 'Failed to read reserved storage');
+    }
+    const available = Math.max(0, stats.available - reserved.data);
+    
     // Calculate total size to be uploaded
     let totalUploadSize = 0;
     if (req.file) {
       totalUploadSize = req.file.size;
     } else if (req.files && Array.isArray(req.files)) {
       totalUploadSize = req.files.reduce((sum, file) => sum + file.size, 0);
+    } else if (hasDeclaredSize) {
+      totalUploadSize = declaredSize;
     }
     
     // Check if tenant has enough quota
-    if (totalUploadSize > stats.available) {
+    if (totalUploadSize > available) {
       await logAudit(req, {
         action: AuditAction.STORAGE_QUOTA_EXCEEDED,
         resource: AuditResource.STORAGE,
         success: false,
         metadata: {
           operation: 'validateStorageQuota',
-          availableSpace: stats.available,
+          availableSpace: available,
+          reservedSpace: reserved.data,
           requiredSpace: totalUploadSize,
           fileCount: req.files ? req.files.length : 1
         },
@@ -375,7 +465,7 @@ export const validateStorageQuota = async (req: Request, res: Response, next: Ne
       return res.status(400).json({ 
         error: 'Not enough storage space available. Please free up space or upgrade your storage plan.',
         code: 'STORAGE_QUOTA_EXCEEDED',
-        availableSpace: stats.available,
+        availableSpace: available,
         requiredSpace: totalUploadSize
       });
     }
@@ -407,6 +497,7 @@ export const validateStorageQuota = async (req: Request, res: Response, next: Ne
 export default {
   handleFileUpload,
   handleMultipleFileUpload,
+  scanUploads,
   validateStorageSetup,
   validateStorageQuota
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+// src/middleware/portalAuth.ts
+// Buyer portal sessions (buyerPortalAuthService) — not Supabase users. A
+// portal token is only ever accepted here, and `authenticate` never accepts
+// one, so a buyer cannot reach the tenant API with it.
+import { Request, Response, NextFunction } from 'express';
+import { captureException } from '../utils/sentry';
+import buyerPortalAuthService from '../services/buyerPortalAuthService';
+import { PortalSession } from '../types/buyerPortalTypes';
+import { sendError, ERROR_CODES } from '../utils/apiResponseHelpers';
+
+export interface PortalRequest extends Request {
+  portal?: PortalSession;
+}
+
+export const authenticatePortal = async (req: PortalRequest, res: Response, next: NextFunction) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return sendError(res, ERROR_CODES.UNAUTHORIZED, 'Portal sign-in required', 401);
+    }
+
+    const result = await buyerPortalAuthService.resolveSession(authHeader.substring(7));
+    if (!result.success || !result.data) {
+      if (result.error?.code === 'UNAUTHORIZED') {
+        return sendError(res, ERROR_CODES.TOKEN_EXPIRED, result.error.message, 401);
+      }
+      return sendError(res, ERROR_CODES.SERVICE_UNAVAILABLE, result.error?.message || 'Portal sign-in unavailable', 503);
+    }
+
+    req.portal = result.data;
+    next();
+  } catch (error: any) {
+    console.error('Portal auth middleware error:', error);
+    captureException(error instanceof Error ? error : new Error(String(error)), {
+      tags: { source: 'portal_auth' },
+      path: req.path,
+      operation: 'authenticatePortal'
+    });
+    return sendError(res, ERROR_CODES.INTERNAL_ERROR, 'Portal sign-in failed', 500);
+  }
+};
@@ -0,0 +1,60 @@
+-- Migration: Create t_contract_documents table
+-- Description: Archive of rendered contract PDFs, one row per (contract, version)
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_documents
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_documents" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "contract_id" UUID NOT NULL,
+    "contract_version" INTEGER NOT NULL,
+    "sha256" VARCHAR(64) NOT NULL,
+    "file_id" UUID,
+    "file_path" TEXT,
+    "download_url" TEXT,
+    "file_size" INTEGER NOT NULL,
+    "contract_status" VARCHAR(50),
+    "generated_by" UUID,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "created_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT "t_contract_documents_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_contract_documents_version_unique" UNIQUE ("contract_id", "contract_version", "is_live"),
+    CONSTRAINT "t_contract_documents_tenant_fk"
+        FOREIGN KEY ("tenant_id") REFERENCES "public"."t_tenants"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_contract_documents_contract_fk"
+        FOREIGN KEY ("contract_id") REFERENCES "public"."t_contracts"("id") ON DELETE CASCADE
+);
+
+-- Add comments
+COMMENT ON TABLE "public"."t_contract_documents" IS 'Rendered contract PDFs archived per contract version (proof of what was signed)';
+COMMENT ON COLUMN "public"."t_contract_documents"."contract_version" IS 't_contracts.version the PDF was rendered from';
+COMMENT ON COLUMN "public"."t_contract_documents"."sha256" IS 'Hex SHA-256 of the exact PDF bytes archived in storage';
+COMMENT ON COLUMN "public"."t_contract_documents"."file_id" IS 'Storage file record created by storageService.uploadFile';
+
+-- Create indexes for fast lookups
+CREATE INDEX IF NOT EXISTS "idx_t_contract_documents_contract"
+    ON "public"."t_contract_documents" ("contract_id", "contract_version" DESC);
+CREATE INDEX IF NOT EXISTS "idx_t_contract_documents_tenant"
+    ON "public"."t_contract_documents" ("tenant_id");
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_contract_documents" ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own tenant's contract documents
+CREATE POLICY "tenant_read_contract_documents" ON "public"."t_contract_documents"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only — archived rows are immutable.
@@ -0,0 +1,205 @@
+-- Migration: Create t_contract_amendments + apply_contract_amendment RPC
+-- Description: Versioned change orders on active contracts (seller proposes,
+--              buyer accepts/rejects via CNAK). Acceptance bumps
+--              t_contracts.version and replaces the future event schedule.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_amendments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_amendments" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "contract_id" UUID NOT NULL,
+    "amendment_number" INTEGER NOT NULL,
+    "base_version" INTEGER NOT NULL,
+    "resulting_version" INTEGER,
+    "status" VARCHAR(20) DEFAULT 'proposed' NOT NULL,
+    "change_set" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "reason" TEXT,
+    "effective_date" DATE NOT NULL,
+    "proposed_by" UUID,
+    "proposed_by_name" VARCHAR(255),
+    "responded_by" UUID,
+    "responder_name" VARCHAR(255),
+    "responder_email" VARCHAR(255),
+    "rejection_reason" TEXT,
+    "responded_at" TIMESTAMP WITH TIME ZONE,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "created_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT "t_contract_amendments_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_contract_amendments_number_unique" UNIQUE ("contract_id", "amendment_number"),
+    CONSTRAINT "t_contract_amendments_status_check"
+        CHECK ("status" IN ('proposed', 'accepted', 'rejected', 'withdrawn', 'superseded')),
+    CONSTRAINT "t_contract_amendments_tenant_fk"
+        FOREIGN KEY ("tenant_id") REFERENCES "public"."t_tenants"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_contract_amendments_contract_fk"
+        FOREIGN KEY ("contract_id") REFERENCES "public"."t_contracts"("id") ON DELETE CASCADE
+);
+
+COMMENT ON TABLE "public"."t_contract_amendments" IS 'Change orders against a contract version; history of what was agreed mid-term';
+COMMENT ON COLUMN "public"."t_contract_amendments"."base_version" IS 't_contracts.version the change set was proposed against';
+COMMENT ON COLUMN "public"."t_contract_amendments"."change_set" IS '{blocks_added, blocks_removed, total_value, duration_value, duration_unit, equipment_added, equipment_removed}';
+COMMENT ON COLUMN "public"."t_contract_amendments"."effective_date" IS 'Events on/after this date are re-derived on acceptance';
+
+-- Only one open proposal per contract at a time
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_contract_amendments_one_open"
+    ON "public"."t_contract_amendments" ("contract_id")
+    WHERE "status" = 'proposed';
+CREATE INDEX IF NOT EXISTS "idx_t_contract_amendments_tenant"
+    ON "public"."t_contract_amendments" ("tenant_id", "created_at" DESC);
+
+ALTER TABLE "public"."t_contract_amendments" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_contract_amendments" ON "public"."t_contract_amendments"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- ============================================================================
+-- RPC: apply_contract_amendment
+-- ============================================================================
+-- Applies an accepted amendment in one transaction. The API computes the
+-- merged terms and the re-derived schedule (contractEventsDerivationService);
+-- this function owns the writes and the optimistic-concurrency check.
+--   p_patch           — t_contracts column values to set (total_value,
+--                       grand_total, duration_value, duration_unit, end_date,
+--                       equipment_details, computed_events)
+--   p_blocks_added    — [{block_id, sort_order, content_snapshot}]
+--   p_blocks_removed  — t_contract_blocks ids
+--   p_future_events   — events on/after effective_date, ContractEventInput shape
+
+CREATE OR REPLACE FUNCTION "public"."apply_contract_amendment"(
+    p_amendment_id UUID,
+    p_patch JSONB,
+    p_blocks_added JSONB,
+    p_blocks_removed UUID[],
+    p_future_events JSONB,
+    p_responder_name TEXT,
+    p_responder_email TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_amendment t_contract_amendments%ROWTYPE;
+    v_contract_version INTEGER;
+    v_contract_status TEXT;
+    v_new_version INTEGER;
+    v_cancelled INTEGER := 0;
+    v_inserted INTEGER := 0;
+BEGIN
+    SELECT * INTO v_amendment FROM t_contract_amendments
+    WHERE id = p_amendment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Amendment not found');
+    END IF;
+    IF v_amendment.status <> 'proposed' THEN
+        RETURN jsonb_build_object('success', false, 'code', 'INVALID_STATUS',
+            'error', 'Amendment is ' || v_amendment.status);
+    END IF;
+
+    SELECT version, status INTO v_contract_version, v_contract_status FROM t_contracts
+    WHERE id = v_amendment.contract_id AND tenant_id = v_amendment.tenant_id FOR UPDATE;
+
+    -- Same statuses the API proposes against (AMENDABLE_STATUSES); the
+    -- contract may have been cancelled or expired since the proposal
+    IF v_contract_status IS NULL OR v_contract_status NOT IN ('active', 'pending_acceptance') THEN
+        RETURN jsonb_build_object('success', false, 'code', 'INVALID_TRANSITION',
+            'error', 'Contract is ' || COALESCE(v_contract_status, 'missing') || ' and can no longer be amended');
+    END IF;
+
+    IF v_contract_version IS DISTINCT FROM v_amendment.base_version THEN
+        UPDATE t_contract_amendments
+        SET status = 'superseded', updated_at = now()
+        WHERE id = p_amendment_id;
+        RETURN jsonb_build_object('success', false, 'code', 'VERSION_CONFLICT',
+            'error', 'Contract changed since this amendment was proposed');
+    END IF;
+
+    v_new_version := v_contract_version + 1;
+
+    UPDATE t_contracts SET
+        total_value       = COALESCE((p_patch->>'total_value')::numeric, total_value),
+        grand_total       = COALESCE((p_patch->>'grand_total')::numeric, grand_total),
+        duration_value    = COALESCE((p_patch->>'duration_value')::integer, duration_value),
+        duration_unit     = COALESCE(p_patch->>'duration_unit', duration_unit),
+        end_date          = COALESCE((p_patch->>'end_date')::timestamptz, end_date),
+        equipment_details = COALESCE(p_patch->'equipment_details', equipment_details),
+        computed_events   = COALESCE(p_patch->'computed_events', computed_events),
+        version           = v_new_version,
+        updated_at        = now()
+    WHERE id = v_amendment.contract_id;
+
+    IF p_blocks_removed IS NOT NULL AND array_length(p_blocks_removed, 1) > 0 THEN
+        DELETE FROM t_contract_blocks
+        WHERE contract_id = v_amendment.contract_id AND id = ANY(p_blocks_removed);
+    END IF;
+
+    IF p_blocks_added IS NOT NULL AND jsonb_array_length(p_blocks_added) > 0 THEN
+        INSERT INTO t_contract_blocks (contract_id, block_id, sort_order, content_snapshot)
+        SELECT v_amendment.contract_id,
+               (b->>'block_id')::uuid,
+               COALESCE((b->>'sort_order')::integer, 0),
+               b->'content_snapshot'
+        FROM jsonb_array_elements(p_blocks_added) b;
+    END IF;
+
+    -- Future schedule: cancel what is still pending, insert the re-derived set.
+    -- Events already in progress or completed are history and stay untouched.
+    UPDATE t_contract_events SET
+        status = 'cancelled',
+        notes = COALESCE(notes || E'\n', '') || 'Superseded by amendment #' || v_amendment.amendment_number,
+        version = version + 1,
+        updated_at = now()
+    WHERE contract_id = v_amendment.contract_id
+      AND scheduled_date >= v_amendment.effective_date
+      AND status IN ('scheduled', 'overdue');
+    GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+    IF p_future_events IS NOT NULL AND jsonb_array_length(p_future_events) > 0 THEN
+        INSERT INTO t_contract_events (
+            tenant_id, contract_id, block_id, block_name, category_id, event_type,
+            billing_sub_type, billing_cycle_label, sequence_number, total_occurrences,
+            scheduled_date, original_date, amount, currency, status, is_live
+        )
+        SELECT v_amendment.tenant_id, v_amendment.contract_id,
+               e->>'block_id', e->>'block_name', e->>'category_id', e->>'event_type',
+               e->>'billing_sub_type', e->>'billing_cycle_label',
+               (e->>'sequence_number')::integer, (e->>'total_occurrences')::integer,
+               (e->>'scheduled_date')::timestamptz, (e->>'scheduled_date')::timestamptz,
+               (e->>'amount')::numeric, e->>'currency', 'scheduled', v_amendment.is_live
+        FROM jsonb_array_elements(p_future_events) e;
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    END IF;
+
+    UPDATE t_contract_amendments SET
+        status = 'accepted',
+        resulting_version = v_new_version,
+        responder_name = p_responder_name,
+        responder_email = p_responder_email,
+        responded_at = now(),
+        updated_at = now()
+    WHERE id = p_amendment_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'contract_id', v_amendment.contract_id,
+        'amendment_id', p_amendment_id,
+        'version', v_new_version,
+        'events_cancelled', v_cancelled,
+        'events_created', v_inserted
+    );
+END;
+$$;
+
+-- Called by the API with the service role only, after the CNAK check
+REVOKE EXECUTE ON FUNCTION "public"."apply_contract_amendment"(UUID, JSONB, JSONB, UUID[], JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,105 @@
+-- Migration: Create t_contract_renewal_settings + t_contract_renewals
+-- Description: Tenant-configurable expiry window / price escalation for AMC
+--              renewals, and the link from each expiring contract to the
+--              renewal draft created for it.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_renewal_settings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_renewal_settings" (
+    "tenant_id" UUID NOT NULL,
+    "window_days" INTEGER DEFAULT 60 NOT NULL,
+    "escalation_percent" NUMERIC(6,2) DEFAULT 0 NOT NULL,
+    "notify_buyer" BOOLEAN DEFAULT true NOT NULL,
+    "updated_by" UUID,
+    "created_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT "t_contract_renewal_settings_pkey" PRIMARY KEY ("tenant_id"),
+    CONSTRAINT "t_contract_renewal_settings_window_check"
+        CHECK ("window_days" BETWEEN 1 AND 365),
+    CONSTRAINT "t_contract_renewal_settings_escalation_check"
+        CHECK ("escalation_percent" BETWEEN -100 AND 1000),
+    CONSTRAINT "t_contract_renewal_settings_tenant_fk"
+        FOREIGN KEY ("tenant_id") REFERENCES "public"."t_tenants"("id") ON DELETE CASCADE
+);
+
+COMMENT ON TABLE "public"."t_contract_renewal_settings" IS 'Per-tenant renewal policy; absent row = defaults (60 days, 0%, notify)';
+COMMENT ON COLUMN "public"."t_contract_renewal_settings"."window_days" IS 'Active contracts ending within this many days are due for renewal';
+COMMENT ON COLUMN "public"."t_contract_renewal_settings"."escalation_percent" IS 'Default price change applied to renewal drafts (e.g. 8 = +8%)';
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_renewals
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_renewals" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "source_contract_id" UUID NOT NULL,
+    "source_version" INTEGER,
+    "renewal_contract_id" UUID,
+    "status" VARCHAR(20) DEFAULT 'drafting' NOT NULL,
+    "escalation_percent" NUMERIC(6,2) DEFAULT 0 NOT NULL,
+    "previous_total" NUMERIC(14,2),
+    "renewed_total" NUMERIC(14,2),
+    "notified_at" TIMESTAMP WITH TIME ZONE,
+    "notification_error" TEXT,
+    "created_by" UUID,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "created_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT "t_contract_renewals_pkey" PRIMARY KEY ("id"),
+    -- One renewal per expiring contract: the row is claimed before the draft
+    -- is created so two concurrent renew calls cannot both draft.
+    CONSTRAINT "t_contract_renewals_source_unique" UNIQUE ("source_contract_id", "is_live"),
+    CONSTRAINT "t_contract_renewals_status_check"
+        CHECK ("status" IN ('drafting', 'drafted', 'notified')),
+    CONSTRAINT "t_contract_renewals_tenant_fk"
+        FOREIGN KEY ("tenant_id") REFERENCES "public"."t_tenants"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_contract_renewals_source_fk"
+        FOREIGN KEY ("source_contract_id") REFERENCES "public"."t_contracts"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_contract_renewals_renewal_fk"
+        FOREIGN KEY ("renewal_contract_id") REFERENCES "public"."t_contracts"("id") ON DELETE SET NULL
+);
+
+COMMENT ON TABLE "public"."t_contract_renewals" IS 'Expiring contract → renewal draft link; drives the "already renewed" flag on the renewals list';
+COMMENT ON COLUMN "public"."t_contract_renewals"."status" IS 'drafting (claimed) → drafted (renewal contract created) → notified (buyer notified)';
+
+CREATE INDEX IF NOT EXISTS "idx_t_contract_renewals_tenant"
+    ON "public"."t_contract_renewals" ("tenant_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "idx_t_contract_renewals_renewal"
+    ON "public"."t_contract_renewals" ("renewal_contract_id");
+
+-- Supports the expiry-window scan
+CREATE INDEX IF NOT EXISTS "idx_t_contracts_renewal_scan"
+    ON "public"."t_contracts" ("tenant_id", "status", "end_date");
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_contract_renewal_settings" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_contract_renewals" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_contract_renewal_settings" ON "public"."t_contract_renewal_settings"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_contract_renewals" ON "public"."t_contract_renewals"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,75 @@
+-- Migration: Create t_contract_settlements table
+-- Description: Mid-term cancellation settlements — what was consumed, billed
+--              and paid when an active contract was cancelled early, and the
+--              credit / deposit / status actions taken to close it.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_settlements
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_settlements" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "contract_id" UUID NOT NULL,
+    "contract_version" INTEGER,
+    "cancellation_date" DATE NOT NULL,
+    "status" VARCHAR(20) DEFAULT 'committing' NOT NULL,
+    "currency" VARCHAR(3),
+    "contract_value" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "consumed_value" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "billed_amount" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "paid_amount" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "deposit_offset" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "credit_amount" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "amount_due" NUMERIC(14,2) NOT NULL DEFAULT 0,
+    "breakdown" JSONB DEFAULT '[]'::jsonb NOT NULL,
+    "steps_completed" TEXT[] DEFAULT '{}' NOT NULL,
+    "failed_step" VARCHAR(30),
+    "error_message" TEXT,
+    "note" TEXT,
+    "committed_by" UUID,
+    "committed_by_name" VARCHAR(255),
+    "committed_at" TIMESTAMP WITH TIME ZONE,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "created_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT "t_contract_settlements_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_contract_settlements_status_check"
+        CHECK ("status" IN ('committing', 'committed', 'failed')),
+    CONSTRAINT "t_contract_settlements_tenant_fk"
+        FOREIGN KEY ("tenant_id") REFERENCES "public"."t_tenants"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_contract_settlements_contract_fk"
+        FOREIGN KEY ("contract_id") REFERENCES "public"."t_contracts"("id") ON DELETE CASCADE
+);
+
+COMMENT ON TABLE "public"."t_contract_settlements" IS 'Cancellation settlements; one committed row per contract';
+COMMENT ON COLUMN "public"."t_contract_settlements"."consumed_value" IS 'Value delivered up to cancellation_date (completed services / elapsed time)';
+COMMENT ON COLUMN "public"."t_contract_settlements"."credit_amount" IS 'paid + deposit - consumed, when positive; set via the contract credit flow';
+COMMENT ON COLUMN "public"."t_contract_settlements"."amount_due" IS 'consumed - paid - deposit, when positive; still owed by the buyer';
+COMMENT ON COLUMN "public"."t_contract_settlements"."steps_completed" IS 'deposit / credit / status — lets a failed commit resume without repeating a step';
+
+-- A contract settles once; failed attempts stay for the record and are resumed
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_contract_settlements_one_active"
+    ON "public"."t_contract_settlements" ("contract_id", "is_live")
+    WHERE "status" IN ('committing', 'committed');
+CREATE INDEX IF NOT EXISTS "idx_t_contract_settlements_tenant"
+    ON "public"."t_contract_settlements" ("tenant_id", "created_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_contract_settlements" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_contract_settlements" ON "public"."t_contract_settlements"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
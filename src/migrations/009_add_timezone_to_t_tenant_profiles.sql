@@ -0,0 +1,10 @@
+-- Migration: Add timezone to t_tenant_profiles
+-- Description: IANA zone the tenant's contract calendar is derived in
+--              (service visits / billing dates). Existing tenants keep IST,
+--              the zone their events were derived in until now.
+-- Date: 2026-10-18
+
+ALTER TABLE "public"."t_tenant_profiles"
+    ADD COLUMN IF NOT EXISTS "timezone" VARCHAR(64) DEFAULT 'Asia/Kolkata' NOT NULL;
+
+COMMENT ON COLUMN "public"."t_tenant_profiles"."timezone" IS 'IANA time zone (e.g. Asia/Dubai, Europe/London) used for contract event derivation';
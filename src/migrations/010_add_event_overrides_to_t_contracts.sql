@@ -0,0 +1,95 @@
+-- Migration: Add event overrides to t_contracts + reschedule RPC
+-- Description: Per-event date overrides (wizard preview adjustments and
+--              working-calendar moves) stored with the contract, so the
+--              schedule can be re-derived server-side with the same result
+--              the UI shows. calendar_overrides is the subset made by the
+--              tenant's weekly offs / holidays (cadence settings).
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- ALTER TABLE: t_contracts
+-- ============================================================================
+
+ALTER TABLE "public"."t_contracts"
+    ADD COLUMN IF NOT EXISTS "event_overrides" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    ADD COLUMN IF NOT EXISTS "calendar_overrides" JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+COMMENT ON COLUMN "public"."t_contracts"."event_overrides" IS 'Event id → ISO date; every override applied to the derived schedule (eventOverrides)';
+COMMENT ON COLUMN "public"."t_contracts"."calendar_overrides" IS 'Event id → ISO date; the overrides made by the working calendar (weekly offs / holidays), recomputed on re-derive';
+
+-- ============================================================================
+-- RPC: reschedule_contract_events
+-- ============================================================================
+-- Stores a re-derived schedule in one transaction. The API derives the
+-- events and overrides (contractEventsDerivationService.applyWorkingCalendar);
+-- this function owns the writes and the optimistic-concurrency check.
+-- Materialised events still 'scheduled' follow their new date (matched on
+-- block_id + event_type + sequence_number); anything already overdue, in
+-- progress or done keeps the date it has.
+
+CREATE OR REPLACE FUNCTION "public"."reschedule_contract_events"(
+    p_contract_id UUID,
+    p_tenant_id UUID,
+    p_is_live BOOLEAN,
+    p_expected_version INTEGER,
+    p_event_overrides JSONB,
+    p_calendar_overrides JSONB,
+    p_computed_events JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_contract_version INTEGER;
+    v_new_version INTEGER;
+    v_moved INTEGER := 0;
+BEGIN
+    SELECT version INTO v_contract_version FROM t_contracts
+    WHERE id = p_contract_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Contract not found');
+    END IF;
+    IF v_contract_version IS DISTINCT FROM p_expected_version THEN
+        RETURN jsonb_build_object('success', false, 'code', 'VERSION_CONFLICT',
+            'error', 'Contract changed since it was loaded');
+    END IF;
+
+    v_new_version := v_contract_version + 1;
+
+    UPDATE t_contracts SET
+        event_overrides    = COALESCE(p_event_overrides, '{}'::jsonb),
+        calendar_overrides = COALESCE(p_calendar_overrides, '{}'::jsonb),
+        computed_events    = COALESCE(p_computed_events, computed_events),
+        version            = v_new_version,
+        updated_at         = now()
+    WHERE id = p_contract_id;
+
+    IF p_computed_events IS NOT NULL AND jsonb_array_length(p_computed_events) > 0 THEN
+        UPDATE t_contract_events ev SET
+            scheduled_date = (e->>'scheduled_date')::timestamptz,
+            version = ev.version + 1,
+            updated_at = now()
+        FROM jsonb_array_elements(p_computed_events) e
+        WHERE ev.contract_id = p_contract_id
+          AND ev.is_live = p_is_live
+          AND ev.status = 'scheduled'
+          AND ev.block_id = e->>'block_id'
+          AND ev.event_type = e->>'event_type'
+          AND ev.sequence_number = (e->>'sequence_number')::integer
+          AND ev.scheduled_date IS DISTINCT FROM (e->>'scheduled_date')::timestamptz;
+        GET DIAGNOSTICS v_moved = ROW_COUNT;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'contract_id', p_contract_id,
+        'version', v_new_version,
+        'events_moved', v_moved
+    );
+END;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."reschedule_contract_events"(UUID, UUID, BOOLEAN, INTEGER, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
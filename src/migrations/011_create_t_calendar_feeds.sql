@@ -0,0 +1,63 @@
+-- Migration: Create t_calendar_feeds table
+-- Description: Tokenised, read-only iCalendar (ICS) subscriptions. A feed is
+--              one scope + subject (the whole tenant, one assignee, one buyer
+--              contact, or one group-session block); the token in the URL is
+--              the only credential, so revoking or rotating it cuts access.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_calendar_feeds
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_calendar_feeds" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "scope" VARCHAR(20) NOT NULL,
+    "subject_id" UUID,
+    "token" VARCHAR(64) NOT NULL,
+    "label" VARCHAR(255),
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "created_by" UUID,
+    "revoked_at" TIMESTAMPTZ,
+    "last_accessed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_calendar_feeds_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_calendar_feeds_token_key" UNIQUE ("token"),
+    CONSTRAINT "t_calendar_feeds_scope_check" CHECK ("scope" IN ('tenant', 'assignee', 'contact', 'block')),
+    CONSTRAINT "t_calendar_feeds_subject_check" CHECK (("scope" = 'tenant') = ("subject_id" IS NULL))
+);
+
+COMMENT ON TABLE "public"."t_calendar_feeds" IS 'Read-only ICS subscriptions; token-gated, rendered live on each fetch';
+COMMENT ON COLUMN "public"."t_calendar_feeds"."scope" IS 'tenant (all contract events) | assignee (events assigned to subject_id) | contact (buyer contact''s contracts) | block (group-session occurrences)';
+COMMENT ON COLUMN "public"."t_calendar_feeds"."subject_id" IS 'Assignee user id, buyer contact id or block id; NULL for scope tenant';
+COMMENT ON COLUMN "public"."t_calendar_feeds"."token" IS 'Opaque URL token — the feed''s only credential';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- One active feed per subject; rotating revokes the old row first
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_calendar_feeds_active_subject"
+    ON "public"."t_calendar_feeds" ("tenant_id", "scope", COALESCE("subject_id", '00000000-0000-0000-0000-000000000000'::uuid), "is_live")
+    WHERE "revoked_at" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_t_calendar_feeds_tenant"
+    ON "public"."t_calendar_feeds" ("tenant_id", "is_live", "created_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_calendar_feeds" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_calendar_feeds" ON "public"."t_calendar_feeds"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
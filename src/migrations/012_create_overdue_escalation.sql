@@ -0,0 +1,117 @@
+-- Migration: Create overdue escalation policy + escalation log
+-- Description: Per-tenant policy for the overdue sweeper (contract events
+--              past due move scheduled → overdue) and the log of JTD
+--              notifications raised for each overdue event, one row per
+--              escalation level so a notification is never sent twice.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_overdue_escalation_policies
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_overdue_escalation_policies" (
+    "tenant_id" UUID NOT NULL,
+    "enabled" BOOLEAN DEFAULT true NOT NULL,
+    "service_grace_days" INTEGER DEFAULT 0 NOT NULL,
+    "billing_grace_days" INTEGER DEFAULT 0 NOT NULL,
+    "notify_assignee" BOOLEAN DEFAULT true NOT NULL,
+    "manager_escalation_days" INTEGER DEFAULT 3 NOT NULL,
+    "manager_user_ids" UUID[] DEFAULT '{}'::uuid[] NOT NULL,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_overdue_escalation_policies_pkey" PRIMARY KEY ("tenant_id"),
+    CONSTRAINT "t_overdue_escalation_policies_grace_check"
+        CHECK ("service_grace_days" BETWEEN 0 AND 90 AND "billing_grace_days" BETWEEN 0 AND 90),
+    CONSTRAINT "t_overdue_escalation_policies_manager_days_check"
+        CHECK ("manager_escalation_days" BETWEEN 0 AND 365)
+);
+
+COMMENT ON TABLE "public"."t_overdue_escalation_policies" IS 'Overdue sweeper policy per tenant; tenants without a row use the defaults';
+COMMENT ON COLUMN "public"."t_overdue_escalation_policies"."service_grace_days" IS 'Days after scheduled_date before a service event is overdue';
+COMMENT ON COLUMN "public"."t_overdue_escalation_policies"."billing_grace_days" IS 'Days after scheduled_date before a billing event is overdue';
+COMMENT ON COLUMN "public"."t_overdue_escalation_policies"."manager_escalation_days" IS 'Days overdue before the managers are notified';
+COMMENT ON COLUMN "public"."t_overdue_escalation_policies"."manager_user_ids" IS 'Users notified at the manager level; empty = no manager escalation';
+
+-- ============================================================================
+-- CREATE TABLE: t_contract_event_escalations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_contract_event_escalations" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "level" VARCHAR(20) NOT NULL,
+    "recipient_user_ids" UUID[] DEFAULT '{}'::uuid[] NOT NULL,
+    "jtd_event_ids" TEXT[] DEFAULT '{}'::text[] NOT NULL,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_contract_event_escalations_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_contract_event_escalations_level_check" CHECK ("level" IN ('assignee', 'manager')),
+    CONSTRAINT "t_contract_event_escalations_event_level_key" UNIQUE ("event_id", "level")
+);
+
+COMMENT ON TABLE "public"."t_contract_event_escalations" IS 'JTD notifications raised for overdue contract events; the unique (event, level) is the send-once claim';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- The sweep scans by status + date across tenants
+CREATE INDEX IF NOT EXISTS "idx_t_contract_events_overdue_sweep"
+    ON "public"."t_contract_events" ("status", "scheduled_date")
+    WHERE "status" IN ('scheduled', 'overdue');
+
+CREATE INDEX IF NOT EXISTS "idx_t_contract_event_escalations_tenant"
+    ON "public"."t_contract_event_escalations" ("tenant_id", "created_at" DESC);
+
+-- ============================================================================
+-- RPC: mark_contract_events_overdue
+-- ============================================================================
+-- Moves the given events scheduled → overdue. Rows that changed status since
+-- the sweeper read them (started, completed, moved by a user) are skipped;
+-- version is bumped so in-flight edits made against the old row conflict.
+
+CREATE OR REPLACE FUNCTION "public"."mark_contract_events_overdue"(
+    p_event_ids UUID[]
+) RETURNS SETOF "public"."t_contract_events"
+LANGUAGE sql SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE t_contract_events SET
+        status = 'overdue',
+        version = version + 1,
+        updated_at = now()
+    WHERE id = ANY(p_event_ids)
+      AND status = 'scheduled'
+    RETURNING *;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."mark_contract_events_overdue"(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_overdue_escalation_policies" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_contract_event_escalations" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_overdue_escalation_policies" ON "public"."t_overdue_escalation_policies"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_contract_event_escalations" ON "public"."t_contract_event_escalations"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
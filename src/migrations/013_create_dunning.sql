@@ -0,0 +1,132 @@
+-- Migration: Create dunning ladders, per-invoice dunning state and reminder history
+-- Description: Tenant-defined reminder ladders (steps relative to the invoice
+--              due date), the dunning state of each open invoice (ladder
+--              override, paused/stopped) and the history of every reminder
+--              sent for an invoice — by the dunning job or by hand.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_dunning_ladders
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_dunning_ladders" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "is_default" BOOLEAN DEFAULT false NOT NULL,
+    "is_active" BOOLEAN DEFAULT true NOT NULL,
+    "steps" JSONB DEFAULT '[]'::jsonb NOT NULL,
+    "created_by" UUID,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_dunning_ladders_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_dunning_ladders_steps_check" CHECK (jsonb_typeof("steps") = 'array')
+);
+
+COMMENT ON TABLE "public"."t_dunning_ladders" IS 'Reminder ladders; the default ladder chases every open invoice of the tenant';
+COMMENT ON COLUMN "public"."t_dunning_ladders"."steps" IS '[{offset_days, channel?}] — offset from due_date (negative = before); channel email|whatsapp, omitted = alternate';
+
+-- One default ladder per tenant
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_dunning_ladders_default"
+    ON "public"."t_dunning_ladders" ("tenant_id")
+    WHERE "is_default" = true AND "is_active" = true;
+
+-- ============================================================================
+-- CREATE TABLE: t_invoice_dunning
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_invoice_dunning" (
+    "invoice_id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "ladder_id" UUID,
+    "status" VARCHAR(20) DEFAULT 'active' NOT NULL,
+    "stopped_reason" VARCHAR(50),
+    "stopped_at" TIMESTAMPTZ,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_invoice_dunning_pkey" PRIMARY KEY ("invoice_id"),
+    CONSTRAINT "t_invoice_dunning_ladder_fkey" FOREIGN KEY ("ladder_id")
+        REFERENCES "public"."t_dunning_ladders"("id") ON DELETE SET NULL,
+    CONSTRAINT "t_invoice_dunning_status_check" CHECK ("status" IN ('active', 'paused', 'stopped'))
+);
+
+COMMENT ON TABLE "public"."t_invoice_dunning" IS 'Per-invoice dunning state; invoices without a row follow the tenant default ladder';
+COMMENT ON COLUMN "public"."t_invoice_dunning"."ladder_id" IS 'Ladder override for this invoice; NULL = tenant default';
+COMMENT ON COLUMN "public"."t_invoice_dunning"."stopped_reason" IS 'paid | cancelled | manual';
+
+-- ============================================================================
+-- CREATE TABLE: t_invoice_reminders
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_invoice_reminders" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "invoice_id" UUID NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "ladder_id" UUID,
+    "step_index" INTEGER,
+    "offset_days" INTEGER,
+    "channel" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) DEFAULT 'pending' NOT NULL,
+    "reason" TEXT,
+    "balance_due" NUMERIC(14, 2),
+    "currency" VARCHAR(3),
+    "sent_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_invoice_reminders_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_invoice_reminders_source_check" CHECK ("source" IN ('dunning', 'manual')),
+    CONSTRAINT "t_invoice_reminders_channel_check" CHECK ("channel" IN ('email', 'whatsapp')),
+    CONSTRAINT "t_invoice_reminders_status_check" CHECK ("status" IN ('pending', 'sent', 'skipped', 'failed'))
+);
+
+COMMENT ON TABLE "public"."t_invoice_reminders" IS 'Reminder history per invoice (dunning job and manual sends)';
+COMMENT ON COLUMN "public"."t_invoice_reminders"."status" IS 'pending while the dunning job holds the claim; skipped = refused by fn_enqueue_invoice_notification';
+
+-- A ladder step is sent at most once per invoice — the dunning job's claim.
+-- Failed attempts stay in the history but do not hold the claim, so the
+-- next run retries them.
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_invoice_reminders_step"
+    ON "public"."t_invoice_reminders" ("invoice_id", "ladder_id", "step_index")
+    WHERE "source" = 'dunning' AND "status" <> 'failed';
+
+CREATE INDEX IF NOT EXISTS "idx_t_invoice_reminders_invoice"
+    ON "public"."t_invoice_reminders" ("tenant_id", "invoice_id", "created_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_dunning_ladders" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_invoice_dunning" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_invoice_reminders" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_dunning_ladders" ON "public"."t_dunning_ladders"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_invoice_dunning" ON "public"."t_invoice_dunning"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_invoice_reminders" ON "public"."t_invoice_reminders"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,62 @@
+-- Migration: Create GST e-invoice records for invoices
+-- Description: One row per invoice holding the last generated INV-01 JSON
+--              (the government e-invoice schema), the HSN/SAC codes chosen
+--              for its lines, and — once the user uploads the IRP portal's
+--              response — the IRN, acknowledgement number and signed QR.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_invoice_einvoices
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_invoice_einvoices" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "invoice_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "status" VARCHAR(20) DEFAULT 'generated' NOT NULL,
+    "payload" JSONB NOT NULL,
+    "hsn_codes" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "generated_by" UUID,
+    "generated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "irn" VARCHAR(64),
+    "ack_no" VARCHAR(20),
+    "ack_date" TIMESTAMPTZ,
+    "signed_invoice" TEXT,
+    "signed_qr_code" TEXT,
+    "portal_response" JSONB,
+    "registered_by" UUID,
+    "registered_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_invoice_einvoices_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_invoice_einvoices_invoice_key" UNIQUE ("tenant_id", "invoice_id"),
+    CONSTRAINT "t_invoice_einvoices_status_check" CHECK ("status" IN ('generated', 'registered', 'cancelled'))
+);
+
+COMMENT ON TABLE "public"."t_invoice_einvoices" IS 'GST e-invoice (INV-01) per invoice and the IRN registered for it on the IRP portal';
+COMMENT ON COLUMN "public"."t_invoice_einvoices"."payload" IS 'Last generated INV-01 JSON (schema-validated before it is stored)';
+COMMENT ON COLUMN "public"."t_invoice_einvoices"."hsn_codes" IS '{default?, <block_id | line number>: code} — reused when the JSON is regenerated';
+COMMENT ON COLUMN "public"."t_invoice_einvoices"."status" IS 'generated → registered (IRN stored) → cancelled (IRN cancelled on the portal)';
+
+-- An IRN is unique across the whole GST system
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_invoice_einvoices_irn"
+    ON "public"."t_invoice_einvoices" ("irn")
+    WHERE "irn" IS NOT NULL;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_invoice_einvoices" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_invoice_einvoices" ON "public"."t_invoice_einvoices"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,70 @@
+-- Migration: Create payment gateway webhook event log
+-- Description: One row per gateway webhook event received (Razorpay today).
+--              The (provider, event_id) key is the dedupe claim — Razorpay
+--              retries and replays carry the same x-razorpay-event-id — and
+--              the row records what the event did: the receipt it recorded
+--              or cancelled, or why it was ignored.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_payment_webhook_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_payment_webhook_events" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "provider" VARCHAR(30) NOT NULL,
+    "event_id" VARCHAR(100) NOT NULL,
+    "event_type" VARCHAR(60) NOT NULL,
+    "tenant_id" UUID,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "invoice_id" UUID,
+    "contract_id" UUID,
+    "gateway_payment_id" VARCHAR(60),
+    "gateway_refund_id" VARCHAR(60),
+    "amount" NUMERIC(15, 2),
+    "currency" VARCHAR(3),
+    "status" VARCHAR(20) DEFAULT 'processing' NOT NULL,
+    "outcome" VARCHAR(30),
+    "receipt_id" UUID,
+    "error" TEXT,
+    "attempts" INTEGER DEFAULT 1 NOT NULL,
+    "payload" JSONB NOT NULL,
+    "received_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "processed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_payment_webhook_events_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_payment_webhook_events_event_key" UNIQUE ("provider", "event_id"),
+    CONSTRAINT "t_payment_webhook_events_status_check" CHECK ("status" IN ('processing', 'processed', 'failed'))
+);
+
+COMMENT ON TABLE "public"."t_payment_webhook_events" IS 'Payment gateway webhook events, deduplicated by provider event id';
+COMMENT ON COLUMN "public"."t_payment_webhook_events"."status" IS 'processing (claimed) → processed, or failed (retried when the gateway redelivers)';
+COMMENT ON COLUMN "public"."t_payment_webhook_events"."outcome" IS 'receipt_recorded | receipt_cancelled | payment_failed | refund_needs_review | ignored';
+COMMENT ON COLUMN "public"."t_payment_webhook_events"."receipt_id" IS 'Receipt recorded (or cancelled) for the payment — a later full refund cancels it';
+
+-- A gateway payment settles at most one receipt, whichever event reports it first
+-- (payment.captured and payment_link.paid both arrive for a link payment)
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_payment_webhook_events_receipt"
+    ON "public"."t_payment_webhook_events" ("provider", "tenant_id", "gateway_payment_id")
+    WHERE "outcome" = 'receipt_recorded';
+
+CREATE INDEX IF NOT EXISTS "idx_t_payment_webhook_events_tenant"
+    ON "public"."t_payment_webhook_events" ("tenant_id", "received_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_payment_webhook_events" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_payment_webhook_events" ON "public"."t_payment_webhook_events"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
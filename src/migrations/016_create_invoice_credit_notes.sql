@@ -0,0 +1,82 @@
+-- Migration: Create credit notes against invoices
+-- Description: A credit note reduces what an invoice is worth — in full or
+--              in part — with its share of the invoice tax reversed. It is
+--              numbered from the tenant's CREDIT_NOTE sequence and may carry
+--              a refund: recorded as paid outside the system, or issued
+--              through the payment gateway and settled by its webhook.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_invoice_credit_notes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_invoice_credit_notes" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "invoice_id" UUID NOT NULL,
+    "contract_id" UUID,
+    "receipt_id" UUID,
+    "credit_note_number" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(20) DEFAULT 'issued' NOT NULL,
+    "reason" TEXT NOT NULL,
+    "currency" VARCHAR(3),
+    "amount" NUMERIC(15, 2) NOT NULL,
+    "base_amount" NUMERIC(15, 2) NOT NULL,
+    "tax_amount" NUMERIC(15, 2) DEFAULT 0 NOT NULL,
+    "tax_breakdown" JSONB,
+    "refund_status" VARCHAR(20) DEFAULT 'none' NOT NULL,
+    "refund_amount" NUMERIC(15, 2),
+    "refund_reference" VARCHAR(100),
+    "gateway_provider" VARCHAR(30),
+    "gateway_payment_id" VARCHAR(60),
+    "gateway_refund_id" VARCHAR(60),
+    "refund_error" TEXT,
+    "refunded_at" TIMESTAMPTZ,
+    "issued_by" UUID,
+    "issued_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "cancelled_by" UUID,
+    "cancelled_at" TIMESTAMPTZ,
+    "cancel_reason" TEXT,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_invoice_credit_notes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_invoice_credit_notes_number_key" UNIQUE ("tenant_id", "is_live", "credit_note_number"),
+    CONSTRAINT "t_invoice_credit_notes_status_check" CHECK ("status" IN ('issued', 'cancelled')),
+    CONSTRAINT "t_invoice_credit_notes_refund_status_check"
+        CHECK ("refund_status" IN ('none', 'manual', 'pending', 'processed', 'failed')),
+    CONSTRAINT "t_invoice_credit_notes_amount_check" CHECK ("amount" > 0 AND "base_amount" >= 0 AND "tax_amount" >= 0),
+    CONSTRAINT "t_invoice_credit_notes_refund_amount_check" CHECK ("refund_amount" IS NULL OR ("refund_amount" > 0 AND "refund_amount" <= "amount"))
+);
+
+COMMENT ON TABLE "public"."t_invoice_credit_notes" IS 'Credit notes against invoices — partial or full, tax reversed pro rata, optionally refunded';
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."amount" IS 'Total credited including tax (base_amount + tax_amount)';
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."tax_breakdown" IS 'Reversed tax: {tax_rate, supply_type, place_of_supply, components[{code, rate, amount}]}';
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."refund_status" IS 'none | manual (refunded outside the system) | pending → processed/failed (gateway refund)';
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."receipt_id" IS 'Receipt the credit relates to, e.g. one cancelled with the refund';
+
+CREATE INDEX IF NOT EXISTS "idx_t_invoice_credit_notes_invoice"
+    ON "public"."t_invoice_credit_notes" ("tenant_id", "invoice_id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_invoice_credit_notes_gateway_refund"
+    ON "public"."t_invoice_credit_notes" ("gateway_provider", "gateway_refund_id")
+    WHERE "gateway_refund_id" IS NOT NULL;
+
+COMMENT ON COLUMN "public"."t_payment_webhook_events"."outcome" IS 'receipt_recorded | receipt_cancelled | credit_note_refunded | payment_failed | refund_needs_review | ignored';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_invoice_credit_notes" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_invoice_credit_notes" ON "public"."t_invoice_credit_notes"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
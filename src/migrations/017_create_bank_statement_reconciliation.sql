@@ -0,0 +1,119 @@
+-- Migration: Create bank statement imports and their lines
+-- Description: Uploaded bank statements (CSV exports of the common Indian
+--              banks, or MT940) and the credits read from them. Each credit
+--              carries match suggestions against open invoices; confirming
+--              one records the receipt through the contract record-payment
+--              path and stamps the line with it. A credit seen in an earlier
+--              upload (overlapping statement periods) is not stored twice.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_bank_statement_imports
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_bank_statement_imports" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "file_name" VARCHAR(255),
+    "format" VARCHAR(10) NOT NULL,
+    "bank" VARCHAR(20) NOT NULL,
+    "account_number" VARCHAR(40),
+    "currency" VARCHAR(3),
+    "period_from" DATE,
+    "period_to" DATE,
+    "credit_count" INTEGER DEFAULT 0 NOT NULL,
+    "debit_count" INTEGER DEFAULT 0 NOT NULL,
+    "duplicate_count" INTEGER DEFAULT 0 NOT NULL,
+    "skipped_rows" JSONB DEFAULT '[]'::jsonb NOT NULL,
+    "uploaded_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_bank_statement_imports_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_bank_statement_imports_format_check" CHECK ("format" IN ('csv', 'mt940'))
+);
+
+COMMENT ON TABLE "public"."t_bank_statement_imports" IS 'Uploaded bank statements; only their credits are kept (as t_bank_statement_lines)';
+COMMENT ON COLUMN "public"."t_bank_statement_imports"."bank" IS 'hdfc | icici | sbi | axis | kotak | mt940 | generic — detected from the file';
+COMMENT ON COLUMN "public"."t_bank_statement_imports"."duplicate_count" IS 'Credits already imported from an earlier statement';
+COMMENT ON COLUMN "public"."t_bank_statement_imports"."skipped_rows" IS 'Rows that could not be read: [{row, reason}]';
+
+CREATE INDEX IF NOT EXISTS "idx_t_bank_statement_imports_tenant"
+    ON "public"."t_bank_statement_imports" ("tenant_id", "is_live", "created_at" DESC);
+
+-- ============================================================================
+-- CREATE TABLE: t_bank_statement_lines
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_bank_statement_lines" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "import_id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "fingerprint" VARCHAR(64) NOT NULL,
+    "txn_date" DATE NOT NULL,
+    "value_date" DATE,
+    "description" TEXT NOT NULL,
+    "reference" VARCHAR(60),
+    "payer_name" VARCHAR(150),
+    "amount" NUMERIC(15, 2) NOT NULL,
+    "currency" VARCHAR(3),
+    "balance" NUMERIC(15, 2),
+    "status" VARCHAR(20) DEFAULT 'unmatched' NOT NULL,
+    "suggestions" JSONB DEFAULT '[]'::jsonb NOT NULL,
+    "best_score" INTEGER,
+    "invoice_id" UUID,
+    "contract_id" UUID,
+    "receipt_id" UUID,
+    "matched_amount" NUMERIC(15, 2),
+    "matched_by" UUID,
+    "matched_at" TIMESTAMPTZ,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_bank_statement_lines_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_bank_statement_lines_import_fkey" FOREIGN KEY ("import_id")
+        REFERENCES "public"."t_bank_statement_imports"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_bank_statement_lines_fingerprint_key" UNIQUE ("tenant_id", "is_live", "fingerprint"),
+    CONSTRAINT "t_bank_statement_lines_status_check"
+        CHECK ("status" IN ('unmatched', 'suggested', 'matching', 'matched', 'ignored')),
+    CONSTRAINT "t_bank_statement_lines_amount_check" CHECK ("amount" > 0)
+);
+
+COMMENT ON TABLE "public"."t_bank_statement_lines" IS 'Credits from imported bank statements and their reconciliation against invoices';
+COMMENT ON COLUMN "public"."t_bank_statement_lines"."fingerprint" IS 'sha256 of account, date, amount, narration, reference and balance — dedupes overlapping uploads';
+COMMENT ON COLUMN "public"."t_bank_statement_lines"."suggestions" IS 'Ranked open invoices: [{invoice_id, invoice_number, contract_id, buyer_name, outstanding, score, confidence, reasons}]';
+COMMENT ON COLUMN "public"."t_bank_statement_lines"."status" IS 'unmatched | suggested | matching (confirm in flight) | matched | ignored';
+
+CREATE INDEX IF NOT EXISTS "idx_t_bank_statement_lines_import"
+    ON "public"."t_bank_statement_lines" ("import_id", "txn_date");
+
+CREATE INDEX IF NOT EXISTS "idx_t_bank_statement_lines_open"
+    ON "public"."t_bank_statement_lines" ("tenant_id", "is_live", "status")
+    WHERE "status" IN ('unmatched', 'suggested');
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_bank_statement_imports" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_bank_statement_lines" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_bank_statement_imports" ON "public"."t_bank_statement_imports"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_bank_statement_lines" ON "public"."t_bank_statement_lines"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,119 @@
+-- Migration: Create accounting exports (Tally XML / journal CSV)
+-- Description: Per-tenant ledger mapping for accounting exports, the log of
+--              exports produced (with the file, so it can be downloaded
+--              again) and the records each one carried. A record — invoice,
+--              receipt or credit note — is exported once per format: the
+--              (tenant, environment, format, kind, record) key is claimed
+--              when an export is made, so a later or concurrent export of
+--              an overlapping date range leaves it out.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_accounting_export_settings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_accounting_export_settings" (
+    "tenant_id" UUID NOT NULL,
+    "ledger_mapping" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_accounting_export_settings_pkey" PRIMARY KEY ("tenant_id")
+);
+
+COMMENT ON TABLE "public"."t_accounting_export_settings" IS 'Ledger names accounting exports post to; missing keys fall back to the API defaults';
+COMMENT ON COLUMN "public"."t_accounting_export_settings"."ledger_mapping" IS '{company_name, base_currency, party_ledger_mode, party_ledger, sales_ledger, credit_note_ledger, bank_ledger, payment_method_ledgers, tax_ledgers, voucher_types}';
+
+-- ============================================================================
+-- CREATE TABLE: t_accounting_exports
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_accounting_exports" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "format" VARCHAR(20) NOT NULL,
+    "period_from" DATE NOT NULL,
+    "period_to" DATE NOT NULL,
+    "voucher_kinds" TEXT[] NOT NULL,
+    "counts" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "skipped" JSONB DEFAULT '[]'::jsonb NOT NULL,
+    "file_name" VARCHAR(120) NOT NULL,
+    "content" TEXT,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_accounting_exports_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_accounting_exports_format_check" CHECK ("format" IN ('tally_xml', 'journal_csv')),
+    CONSTRAINT "t_accounting_exports_period_check" CHECK ("period_from" <= "period_to")
+);
+
+COMMENT ON TABLE "public"."t_accounting_exports" IS 'Accounting exports produced; content is the file as downloaded';
+COMMENT ON COLUMN "public"."t_accounting_exports"."counts" IS 'Vouchers in the file per kind: {sales, receipt, credit_note}';
+COMMENT ON COLUMN "public"."t_accounting_exports"."skipped" IS 'Records left out and why: [{kind, record_id, reason}]';
+
+CREATE INDEX IF NOT EXISTS "idx_t_accounting_exports_tenant"
+    ON "public"."t_accounting_exports" ("tenant_id", "is_live", "created_at" DESC);
+
+-- ============================================================================
+-- CREATE TABLE: t_accounting_export_items
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_accounting_export_items" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "export_id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "format" VARCHAR(20) NOT NULL,
+    "record_kind" VARCHAR(20) NOT NULL,
+    "record_id" VARCHAR(100) NOT NULL,
+    "voucher_number" VARCHAR(60),
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_accounting_export_items_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_accounting_export_items_export_fkey" FOREIGN KEY ("export_id")
+        REFERENCES "public"."t_accounting_exports"("id") ON DELETE CASCADE,
+    CONSTRAINT "t_accounting_export_items_record_key" UNIQUE ("tenant_id", "is_live", "format", "record_kind", "record_id"),
+    CONSTRAINT "t_accounting_export_items_kind_check" CHECK ("record_kind" IN ('sales', 'receipt', 'credit_note'))
+);
+
+COMMENT ON TABLE "public"."t_accounting_export_items" IS 'Which records an export carried — the once-per-format claim';
+COMMENT ON COLUMN "public"."t_accounting_export_items"."record_id" IS 'Invoice, receipt or credit note id';
+
+CREATE INDEX IF NOT EXISTS "idx_t_accounting_export_items_export"
+    ON "public"."t_accounting_export_items" ("export_id");
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_accounting_export_settings" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_accounting_exports" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_accounting_export_items" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_accounting_export_settings" ON "public"."t_accounting_export_settings"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_accounting_exports" ON "public"."t_accounting_exports"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_accounting_export_items" ON "public"."t_accounting_export_items"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,96 @@
+-- Migration: Create tenant FX rates and the rates stamped on invoices/receipts
+-- Description: Tenants bill in several currencies (AED, USD, …) but report in
+--              one base currency. Rates are kept per tenant — entered by hand
+--              or uploaded, no live feed — each in effect from its date until
+--              the next one. The rate used for an invoice (its invoice date)
+--              or a receipt (its payment date) is stamped once, so reports
+--              keep the same base amounts when later rates are added.
+-- Date: 2026-10-18
+
+ALTER TABLE "public"."t_tenant_profiles"
+    ADD COLUMN IF NOT EXISTS "base_currency" VARCHAR(3) DEFAULT 'INR' NOT NULL;
+
+COMMENT ON COLUMN "public"."t_tenant_profiles"."base_currency" IS 'ISO currency finance reports are consolidated in';
+
+-- ============================================================================
+-- CREATE TABLE: t_fx_rates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_fx_rates" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "base_currency" VARCHAR(3) NOT NULL,
+    "rate" NUMERIC(20, 8) NOT NULL,
+    "effective_date" DATE NOT NULL,
+    "source" VARCHAR(10) DEFAULT 'manual' NOT NULL,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_fx_rates_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_fx_rates_pair_date_key" UNIQUE ("tenant_id", "currency", "base_currency", "effective_date"),
+    CONSTRAINT "t_fx_rates_rate_check" CHECK ("rate" > 0),
+    CONSTRAINT "t_fx_rates_currency_check" CHECK ("currency" <> "base_currency"),
+    CONSTRAINT "t_fx_rates_source_check" CHECK ("source" IN ('manual', 'upload'))
+);
+
+COMMENT ON TABLE "public"."t_fx_rates" IS 'Tenant exchange rates: 1 currency = rate base_currency from effective_date';
+
+CREATE INDEX IF NOT EXISTS "idx_t_fx_rates_lookup"
+    ON "public"."t_fx_rates" ("tenant_id", "base_currency", "currency", "effective_date" DESC);
+
+-- ============================================================================
+-- CREATE TABLE: t_fx_rate_stamps
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_fx_rate_stamps" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "record_kind" VARCHAR(10) NOT NULL,
+    "record_id" UUID NOT NULL,
+    "invoice_id" UUID NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "base_currency" VARCHAR(3) NOT NULL,
+    "rate" NUMERIC(20, 8) NOT NULL,
+    "rate_date" DATE NOT NULL,
+    "amount" NUMERIC(15, 2) NOT NULL,
+    "base_amount" NUMERIC(15, 2) NOT NULL,
+    "stamped_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_fx_rate_stamps_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_fx_rate_stamps_record_key" UNIQUE ("tenant_id", "is_live", "record_kind", "record_id"),
+    CONSTRAINT "t_fx_rate_stamps_kind_check" CHECK ("record_kind" IN ('invoice', 'receipt'))
+);
+
+COMMENT ON TABLE "public"."t_fx_rate_stamps" IS 'Rate applied to an invoice (at its date) or receipt (at its payment date) — fixed once stamped';
+COMMENT ON COLUMN "public"."t_fx_rate_stamps"."rate_date" IS 'Effective date of the t_fx_rates row used';
+
+CREATE INDEX IF NOT EXISTS "idx_t_fx_rate_stamps_invoice"
+    ON "public"."t_fx_rate_stamps" ("invoice_id");
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_fx_rates" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_fx_rate_stamps" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_fx_rates" ON "public"."t_fx_rates"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_fx_rate_stamps" ON "public"."t_fx_rate_stamps"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
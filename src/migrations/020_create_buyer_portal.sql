@@ -0,0 +1,115 @@
+-- Migration: Create buyer portal login challenges, sessions and service requests
+-- Description: Buyer contacts sign in to a seller tenant's portal with a
+--              one-time code sent to an address on their contact record.
+--              A session covers every contact of that tenant carrying the
+--              address (duplicates of one buyer), so the portal lists all of
+--              their contracts. Codes and session tokens are stored as
+--              SHA-256 hashes only. Service requests raised in the portal
+--              are kept with the service-execution ticket they became.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_portal_otp_challenges
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_portal_otp_challenges" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "channel" VARCHAR(20) NOT NULL,
+    "destination" VARCHAR(255) NOT NULL,
+    "contact_ids" UUID[] DEFAULT '{}' NOT NULL,
+    "code_hash" VARCHAR(64) NOT NULL,
+    "attempts" INTEGER DEFAULT 0 NOT NULL,
+    "max_attempts" INTEGER DEFAULT 5 NOT NULL,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "consumed_at" TIMESTAMPTZ,
+    "request_ip" VARCHAR(64),
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_portal_otp_challenges_pkey" PRIMARY KEY ("id")
+);
+
+COMMENT ON TABLE "public"."t_portal_otp_challenges" IS 'Buyer portal sign-in codes; one row per code sent (or asked for an unknown address)';
+COMMENT ON COLUMN "public"."t_portal_otp_challenges"."destination" IS 'Normalised address the code went to (lower-case email)';
+COMMENT ON COLUMN "public"."t_portal_otp_challenges"."contact_ids" IS 'Contacts carrying the address; empty when none did (no code was sent)';
+COMMENT ON COLUMN "public"."t_portal_otp_challenges"."code_hash" IS 'sha256 of challenge id + code';
+
+CREATE INDEX IF NOT EXISTS "idx_t_portal_otp_challenges_destination"
+    ON "public"."t_portal_otp_challenges" ("tenant_id", "destination", "created_at" DESC);
+
+-- ============================================================================
+-- CREATE TABLE: t_portal_sessions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_portal_sessions" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "contact_ids" UUID[] NOT NULL,
+    "destination" VARCHAR(255) NOT NULL,
+    "challenge_id" UUID,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "last_seen_at" TIMESTAMPTZ,
+    "revoked_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_portal_sessions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_portal_sessions_token_key" UNIQUE ("token_hash"),
+    CONSTRAINT "t_portal_sessions_challenge_key" UNIQUE ("challenge_id")
+);
+
+COMMENT ON TABLE "public"."t_portal_sessions" IS 'Signed-in buyer portal sessions; the bearer token is stored as its sha256';
+COMMENT ON COLUMN "public"."t_portal_sessions"."contact_ids" IS 'Buyer contacts the session may see (fixed at sign-in)';
+
+-- ============================================================================
+-- CREATE TABLE: t_portal_service_requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_portal_service_requests" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "contact_id" UUID NOT NULL,
+    "contract_id" UUID NOT NULL,
+    "event_id" UUID,
+    "subject" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "preferred_date" DATE,
+    "status" VARCHAR(20) DEFAULT 'submitting' NOT NULL,
+    "ticket_id" UUID,
+    "ticket_number" VARCHAR(50),
+    "error" TEXT,
+    "session_id" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_portal_service_requests_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_portal_service_requests_status_check"
+        CHECK ("status" IN ('submitting', 'submitted', 'failed'))
+);
+
+COMMENT ON TABLE "public"."t_portal_service_requests" IS 'Service requests raised by buyers in the portal and the service-execution ticket each became';
+COMMENT ON COLUMN "public"."t_portal_service_requests"."status" IS 'submitting (ticket being created) | submitted (ticket_id set) | failed (error set)';
+
+CREATE INDEX IF NOT EXISTS "idx_t_portal_service_requests_contact"
+    ON "public"."t_portal_service_requests" ("tenant_id", "contact_id", "created_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_portal_otp_challenges" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_portal_sessions" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_portal_service_requests" ENABLE ROW LEVEL SECURITY;
+
+-- Challenges and sessions hold credentials: no tenant read policy, service role only.
+
+CREATE POLICY "tenant_read_portal_service_requests" ON "public"."t_portal_service_requests"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,23 @@
+-- Migration: Phone (SMS / WhatsApp) sign-in for the buyer portal
+-- Description: Field customers often have only a phone number on their
+--              contact record. Codes can now go by SMS or WhatsApp; a phone
+--              sign-in is scoped to one contact and gets a shorter session.
+--              Destinations of phone challenges are digits-only with the
+--              country code (e.g. 919000000001). Codes per number are capped
+--              across all tenants, so the index below is by destination.
+-- Date: 2026-10-18
+
+ALTER TABLE "public"."t_portal_sessions"
+    ADD COLUMN IF NOT EXISTS "channel" VARCHAR(20) DEFAULT 'email' NOT NULL;
+
+COMMENT ON COLUMN "public"."t_portal_sessions"."channel" IS 'email | sms | whatsapp — how the sign-in code was delivered';
+COMMENT ON COLUMN "public"."t_portal_otp_challenges"."destination" IS 'Normalised address the code went to (lower-case email, or phone digits with country code)';
+
+ALTER TABLE "public"."t_portal_otp_challenges"
+    DROP CONSTRAINT IF EXISTS "t_portal_otp_challenges_channel_check";
+ALTER TABLE "public"."t_portal_otp_challenges"
+    ADD CONSTRAINT "t_portal_otp_challenges_channel_check"
+    CHECK ("channel" IN ('email', 'sms', 'whatsapp'));
+
+CREATE INDEX IF NOT EXISTS "idx_t_portal_otp_challenges_destination_any_tenant"
+    ON "public"."t_portal_otp_challenges" ("destination", "created_at" DESC);
@@ -0,0 +1,191 @@
+-- Migration: Create service ticket SLA policies + clocks
+-- Description: SLA policies (tenant default, per contract or per catalog
+--              block) with response / on-site / resolution targets by
+--              asset criticality; one SLA clock per service-execution ticket
+--              holding the targets and due instants fixed when the ticket
+--              opened; the log of JTD breach notifications, one row per
+--              ticket and timer so a breach is never notified twice; and the
+--              tenant's working hours, which SLA clocks count alongside the
+--              cadence-settings weekly offs and holidays.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_tenant_working_hours
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_tenant_working_hours" (
+    "tenant_id" UUID NOT NULL,
+    "day_start" TIME NOT NULL,
+    "day_end" TIME NOT NULL,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_tenant_working_hours_pkey" PRIMARY KEY ("tenant_id"),
+    CONSTRAINT "t_tenant_working_hours_window_check" CHECK ("day_end" > "day_start")
+);
+
+COMMENT ON TABLE "public"."t_tenant_working_hours" IS 'Working hours on every working day (tenant time zone); no row = the whole day';
+COMMENT ON COLUMN "public"."t_tenant_working_hours"."day_end" IS 'End of the working day; 24:00 = midnight at the end of the day';
+
+-- ============================================================================
+-- CREATE TABLE: t_sla_policies
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_sla_policies" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "contract_id" UUID,
+    "block_id" UUID,
+    "targets" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "business_hours_only" BOOLEAN DEFAULT true NOT NULL,
+    "notify_user_ids" UUID[] DEFAULT '{}'::uuid[] NOT NULL,
+    "is_active" BOOLEAN DEFAULT true NOT NULL,
+    "created_by" UUID,
+    "updated_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_sla_policies_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_sla_policies_scope_check" CHECK ("contract_id" IS NULL OR "block_id" IS NULL)
+);
+
+COMMENT ON TABLE "public"."t_sla_policies" IS 'SLA policies; scope is a contract, a catalog block, or (neither) the tenant default';
+COMMENT ON COLUMN "public"."t_sla_policies"."targets" IS '{ low|medium|high|critical: { response_minutes, onsite_minutes, resolution_minutes } } — a missing criticality or timer has no target';
+COMMENT ON COLUMN "public"."t_sla_policies"."business_hours_only" IS 'true = clocks pause outside working hours, weekly offs and holidays; false = 24x7';
+COMMENT ON COLUMN "public"."t_sla_policies"."notify_user_ids" IS 'Users notified of a breach, in addition to the ticket assignee';
+
+-- One active policy per scope
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_t_sla_policies_active_scope"
+    ON "public"."t_sla_policies" (
+        "tenant_id", "is_live",
+        COALESCE("contract_id", '00000000-0000-0000-0000-000000000000'::uuid),
+        COALESCE("block_id", '00000000-0000-0000-0000-000000000000'::uuid)
+    )
+    WHERE "is_active";
+
+-- ============================================================================
+-- CREATE TABLE: t_service_ticket_slas
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_service_ticket_slas" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "is_live" BOOLEAN DEFAULT true NOT NULL,
+    "ticket_id" UUID NOT NULL,
+    "ticket_number" VARCHAR(50),
+    "contract_id" UUID,
+    "block_id" UUID,
+    "policy_id" UUID,
+    "criticality" VARCHAR(20) NOT NULL,
+    "business_hours_only" BOOLEAN DEFAULT true NOT NULL,
+    "response_minutes" INTEGER,
+    "onsite_minutes" INTEGER,
+    "resolution_minutes" INTEGER,
+    "opened_at" TIMESTAMPTZ NOT NULL,
+    "response_due_at" TIMESTAMPTZ,
+    "onsite_due_at" TIMESTAMPTZ,
+    "resolution_due_at" TIMESTAMPTZ,
+    "responded_at" TIMESTAMPTZ,
+    "onsite_at" TIMESTAMPTZ,
+    "resolved_at" TIMESTAMPTZ,
+    "cancelled_at" TIMESTAMPTZ,
+    "ticket_status" VARCHAR(30),
+    "assigned_to" UUID,
+    "settled_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_service_ticket_slas_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_service_ticket_slas_ticket_key" UNIQUE ("ticket_id"),
+    CONSTRAINT "t_service_ticket_slas_policy_fkey" FOREIGN KEY ("policy_id")
+        REFERENCES "public"."t_sla_policies" ("id") ON DELETE SET NULL,
+    CONSTRAINT "t_service_ticket_slas_criticality_check"
+        CHECK ("criticality" IN ('low', 'medium', 'high', 'critical'))
+);
+
+COMMENT ON TABLE "public"."t_service_ticket_slas" IS 'SLA clock per service ticket; targets and due instants are fixed when the ticket opens';
+COMMENT ON COLUMN "public"."t_service_ticket_slas"."responded_at" IS 'Ticket first seen assigned (or later)';
+COMMENT ON COLUMN "public"."t_service_ticket_slas"."onsite_at" IS 'Ticket first seen in_progress (or later)';
+COMMENT ON COLUMN "public"."t_service_ticket_slas"."resolved_at" IS 'Ticket first seen completed';
+COMMENT ON COLUMN "public"."t_service_ticket_slas"."settled_at" IS 'Every timer met in time, stopped or its breach notified; the breach sweep skips settled clocks';
+
+-- The breach sweep scans unsettled clocks
+CREATE INDEX IF NOT EXISTS "idx_t_service_ticket_slas_unsettled"
+    ON "public"."t_service_ticket_slas" ("opened_at" DESC)
+    WHERE "settled_at" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_t_service_ticket_slas_tenant_opened"
+    ON "public"."t_service_ticket_slas" ("tenant_id", "is_live", "opened_at" DESC);
+
+-- ============================================================================
+-- CREATE TABLE: t_service_ticket_sla_breaches
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_service_ticket_sla_breaches" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "ticket_sla_id" UUID NOT NULL,
+    "ticket_id" UUID NOT NULL,
+    "timer" VARCHAR(20) NOT NULL,
+    "due_at" TIMESTAMPTZ NOT NULL,
+    "recipient_user_ids" UUID[] DEFAULT '{}'::uuid[] NOT NULL,
+    "jtd_event_ids" TEXT[] DEFAULT '{}'::text[] NOT NULL,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_service_ticket_sla_breaches_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_service_ticket_sla_breaches_clock_fkey" FOREIGN KEY ("ticket_sla_id")
+        REFERENCES "public"."t_service_ticket_slas" ("id") ON DELETE CASCADE,
+    CONSTRAINT "t_service_ticket_sla_breaches_timer_check" CHECK ("timer" IN ('response', 'onsite', 'resolution')),
+    CONSTRAINT "t_service_ticket_sla_breaches_ticket_timer_key" UNIQUE ("ticket_id", "timer")
+);
+
+COMMENT ON TABLE "public"."t_service_ticket_sla_breaches" IS 'JTD notifications raised for SLA breaches; the unique (ticket, timer) is the send-once claim';
+
+CREATE INDEX IF NOT EXISTS "idx_t_service_ticket_sla_breaches_tenant"
+    ON "public"."t_service_ticket_sla_breaches" ("tenant_id", "created_at" DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_tenant_working_hours" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_sla_policies" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_service_ticket_slas" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."t_service_ticket_sla_breaches" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_working_hours" ON "public"."t_tenant_working_hours"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_sla_policies" ON "public"."t_sla_policies"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_service_ticket_slas" ON "public"."t_service_ticket_slas"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "tenant_read_service_ticket_sla_breaches" ON "public"."t_service_ticket_sla_breaches"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
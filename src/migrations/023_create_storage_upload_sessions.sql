@@ -0,0 +1,68 @@
+-- Migration: Create storage upload sessions
+-- Description: Upload slots for direct (presigned, straight to the bucket)
+--              and chunked, resumable uploads of large files. A slot
+--              reserves its file size against the tenant's storage quota
+--              from the moment it is issued until it completes, is aborted
+--              or expires. S3-compatible providers take the parts through a
+--              multipart upload (provider_upload_id); the others receive
+--              them through the API, staged on disk until the slot completes.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- CREATE TABLE: t_storage_upload_sessions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."t_storage_upload_sessions" (
+    "id" UUID DEFAULT extensions.uuid_generate_v4() NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "product_code" VARCHAR(50) NOT NULL,
+    "driver" VARCHAR(20) NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "file_size" BIGINT NOT NULL,
+    "mime_type" VARCHAR(255) NOT NULL,
+    "file_category" VARCHAR(50) NOT NULL,
+    "metadata" JSONB DEFAULT '{}'::jsonb NOT NULL,
+    "part_size" INTEGER NOT NULL,
+    "part_count" INTEGER NOT NULL,
+    "provider_upload_id" TEXT,
+    "status" VARCHAR(20) DEFAULT 'pending' NOT NULL,
+    "stored_at" TIMESTAMPTZ,
+    "file_id" UUID,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    "updated_at" TIMESTAMPTZ DEFAULT now() NOT NULL,
+    CONSTRAINT "t_storage_upload_sessions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "t_storage_upload_sessions_status_check" CHECK ("status" IN ('pending', 'completed', 'aborted')),
+    CONSTRAINT "t_storage_upload_sessions_driver_check" CHECK ("driver" IN ('firebase', 'local', 's3')),
+    CONSTRAINT "t_storage_upload_sessions_size_check" CHECK ("file_size" > 0 AND "part_size" > 0 AND "part_count" > 0)
+);
+
+COMMENT ON TABLE "public"."t_storage_upload_sessions" IS 'Direct / resumable upload slots; pending slots reserve file_size against the storage quota until they expire';
+COMMENT ON COLUMN "public"."t_storage_upload_sessions"."file_path" IS 'Object key in the tenant''s storage provider, fixed when the slot is issued';
+COMMENT ON COLUMN "public"."t_storage_upload_sessions"."provider_upload_id" IS 'S3 multipart UploadId; null when parts go through the API';
+COMMENT ON COLUMN "public"."t_storage_upload_sessions"."stored_at" IS 'Object assembled in storage; completion only has to record the file (retry-safe)';
+COMMENT ON COLUMN "public"."t_storage_upload_sessions"."file_id" IS 't_tenant_files row created on completion';
+
+-- Quota reservation sums the tenant's pending slots
+CREATE INDEX IF NOT EXISTS "idx_t_storage_upload_sessions_pending"
+    ON "public"."t_storage_upload_sessions" ("tenant_id", "expires_at")
+    WHERE "status" = 'pending';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE "public"."t_storage_upload_sessions" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenant_read_storage_upload_sessions" ON "public"."t_storage_upload_sessions"
+    FOR SELECT
+    USING (
+        tenant_id IN (
+            SELECT tenant_id FROM "public"."t_user_tenants"
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Writes go through the API (service role) only.
@@ -0,0 +1,24 @@
+-- Migration: Add upload scan status to tenant files
+-- Description: Every upload is sniffed for its real content type and run
+--              through the antivirus hook (uploadScanService); the verdict
+--              is recorded in t_tenant_files.metadata.scan. scan_status
+--              exposes it as a column so quarantined files can be listed
+--              and filtered without reading the JSON. Files stored before
+--              scanning existed read as 'unscanned'. Rejected uploads are
+--              never stored, so they never appear here.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- ALTER TABLE: t_tenant_files
+-- ============================================================================
+
+ALTER TABLE "public"."t_tenant_files"
+    ADD COLUMN IF NOT EXISTS "scan_status" TEXT
+    GENERATED ALWAYS AS (COALESCE("metadata" -> 'scan' ->> 'status', 'unscanned')) STORED;
+
+COMMENT ON COLUMN "public"."t_tenant_files"."scan_status" IS 'clean | unscanned | quarantined — from metadata.scan.status; quarantined objects live under <storage_path>/quarantine/ and are not served';
+
+-- Quarantine review: the few files waiting for a rescan
+CREATE INDEX IF NOT EXISTS "idx_t_tenant_files_quarantined"
+    ON "public"."t_tenant_files" ("tenant_id", "created_at")
+    WHERE "scan_status" = 'quarantined';
@@ -0,0 +1,44 @@
+-- Migration: Seed route permissions
+-- Description: The permission catalogue behind requirePermission()
+--              (src/constants/permissions.ts). Permissions are named
+--              <resource>.<action>; the actions the routes need (write,
+--              cancel, publish, manage_roles) are added to the
+--              m_permissions action check. Tenants map roles to these in
+--              t_role_permissions; a role with no rows there falls back to
+--              the defaults in permissions.ts.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- ALTER TABLE: m_permissions
+-- ============================================================================
+
+ALTER TABLE "public"."m_permissions" DROP CONSTRAINT IF EXISTS "m_permissions_action_check";
+
+ALTER TABLE "public"."m_permissions"
+    ADD CONSTRAINT "m_permissions_action_check"
+    CHECK ("action" IN ('create', 'read', 'update', 'delete', 'manage', 'write', 'cancel', 'publish', 'manage_roles'));
+
+-- ============================================================================
+-- SEED: m_permissions
+-- ============================================================================
+
+INSERT INTO "public"."m_permissions" ("name", "description", "resource", "action") VALUES
+    ('contracts.read', 'View contracts', 'contracts', 'read'),
+    ('contracts.write', 'Create, edit, amend and renew contracts and change their status', 'contracts', 'write'),
+    ('contracts.delete', 'Delete draft and cancelled contracts', 'contracts', 'delete'),
+    ('invoices.read', 'View invoices, receipts and credit notes', 'invoices', 'read'),
+    ('invoices.write', 'Raise invoices, record payments, run dunning, bank reconciliation and accounting exports', 'invoices', 'write'),
+    ('invoices.cancel', 'Cancel invoices and receipts, credit notes, settlements, contract credits and deposits', 'invoices', 'cancel'),
+    ('catalog.read', 'View catalog blocks and templates', 'catalog', 'read'),
+    ('catalog.write', 'Create, edit and delete catalog blocks and templates', 'catalog', 'write'),
+    ('catalog.publish', 'Make templates public and publish them to touchpoints', 'catalog', 'publish'),
+    ('users.manage_roles', 'Assign roles to users and edit what each role may do', 'users', 'manage_roles')
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- The resolver reads a tenant's mappings for the roles a member holds
+CREATE INDEX IF NOT EXISTS "idx_t_role_permissions_tenant_role"
+    ON "public"."t_role_permissions" ("tenant_id", "role_id");
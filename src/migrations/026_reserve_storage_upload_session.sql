@@ -0,0 +1,64 @@
+-- Migration: Reserve storage upload slots atomically
+-- Description: createUpload used to sum the tenant's pending slots and then
+--              insert the new one in a separate call, so concurrent slot
+--              requests could each see room and together overrun the quota.
+--              reserve_storage_upload_session does both under a per-tenant
+--              advisory lock: the slot is inserted only if the pending
+--              reservations plus its size fit in the space the caller found
+--              available (quota minus stored files, from tenant-storage/stats).
+--              No row back means the quota would be exceeded.
+-- Date: 2026-10-18
+
+CREATE OR REPLACE FUNCTION "public"."reserve_storage_upload_session"(
+    p_session JSONB,
+    p_available_bytes BIGINT
+) RETURNS SETOF "public"."t_storage_upload_sessions"
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tenant_id UUID := (p_session ->> 'tenant_id')::UUID;
+    v_file_size BIGINT := (p_session ->> 'file_size')::BIGINT;
+    v_reserved BIGINT;
+BEGIN
+    -- Serializes reservations per tenant until this transaction ends
+    PERFORM pg_advisory_xact_lock(hashtextextended('storage_upload_reservation:' || v_tenant_id::TEXT, 0));
+
+    SELECT COALESCE(SUM(file_size), 0) INTO v_reserved
+    FROM t_storage_upload_sessions
+    WHERE tenant_id = v_tenant_id
+      AND status = 'pending'
+      AND expires_at > now();
+
+    IF v_reserved + v_file_size > p_available_bytes THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO t_storage_upload_sessions (
+        tenant_id, product_code, driver, file_name, file_path, file_size,
+        mime_type, file_category, metadata, part_size, part_count,
+        provider_upload_id, status, expires_at, created_by
+    ) VALUES (
+        v_tenant_id,
+        p_session ->> 'product_code',
+        p_session ->> 'driver',
+        p_session ->> 'file_name',
+        p_session ->> 'file_path',
+        v_file_size,
+        p_session ->> 'mime_type',
+        p_session ->> 'file_category',
+        COALESCE(p_session -> 'metadata', '{}'::JSONB),
+        (p_session ->> 'part_size')::INTEGER,
+        (p_session ->> 'part_count')::INTEGER,
+        p_session ->> 'provider_upload_id',
+        'pending',
+        (p_session ->> 'expires_at')::TIMESTAMPTZ,
+        (p_session ->> 'created_by')::UUID
+    )
+    RETURNING *;
+END;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."reserve_storage_upload_session"(JSONB, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,13 @@
+-- Migration: Clear download URLs of quarantined files
+-- Description: Quarantined uploads used to be recorded with the provider URL
+--              of their object, which a public bucket (Firebase, S3 with a
+--              public base URL) serves to anyone holding it. They are now
+--              recorded without one until uploadScanService.rescanFile
+--              releases them; this clears the URLs already stored.
+-- Date: 2026-10-18
+
+UPDATE "public"."t_tenant_files"
+SET "download_url" = '',
+    "updated_at" = now()
+WHERE "scan_status" = 'quarantined'
+  AND "download_url" <> '';
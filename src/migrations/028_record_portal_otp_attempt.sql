@@ -0,0 +1,27 @@
+-- Migration: Count buyer portal sign-in guesses atomically
+-- Description: verifyOtp counted a wrong guess with a compare-and-set on the
+--              attempts it had read, so concurrent guesses against one
+--              challenge could all be compared while only one was counted.
+--              record_portal_otp_attempt charges the attempt before the code
+--              is compared: a single UPDATE that only lands while the
+--              challenge is open and has attempts left. No row back means
+--              the guess must be rejected unchecked.
+-- Date: 2026-10-18
+
+CREATE OR REPLACE FUNCTION "public"."record_portal_otp_attempt"(
+    p_challenge_id UUID
+) RETURNS SETOF "public"."t_portal_otp_challenges"
+LANGUAGE sql SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE t_portal_otp_challenges
+    SET attempts = attempts + 1
+    WHERE id = p_challenge_id
+      AND consumed_at IS NULL
+      AND expires_at > now()
+      AND attempts < max_attempts
+    RETURNING *;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."record_portal_otp_attempt"(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,110 @@
+-- Migration: Apply the overdue policy inside the sweep queries
+-- Description: The sweeper read the 500 oldest scheduled events (and the 500
+--              newest overdue ones) across all tenants and only then dropped
+--              disabled tenants, events still in their grace period and
+--              events with nothing left to escalate. Those rows stayed in the
+--              window, came back every sweep and could crowd out every other
+--              tenant. Both steps now select in SQL only the events that have
+--              something to do, with the tenant policy joined in; tenants
+--              without a policy row get the column defaults of
+--              t_overdue_escalation_policies (DEFAULT_OVERDUE_POLICY).
+--              mark_contract_events_overdue (012) is replaced by
+--              mark_due_contract_events_overdue and dropped.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- RPC: mark_due_contract_events_overdue
+-- ============================================================================
+-- Moves up to p_limit scheduled events past scheduled_date + the tenant's
+-- grace days to overdue, oldest first, and returns them. Rows another sweep
+-- has locked are skipped; version is bumped so in-flight edits conflict.
+
+CREATE OR REPLACE FUNCTION "public"."mark_due_contract_events_overdue"(
+    p_now TIMESTAMPTZ,
+    p_tenant_id UUID,
+    p_limit INTEGER
+) RETURNS SETOF "public"."t_contract_events"
+LANGUAGE sql SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH due AS (
+        SELECT e.id
+        FROM t_contract_events e
+        LEFT JOIN t_overdue_escalation_policies p ON p.tenant_id = e.tenant_id
+        WHERE e.status = 'scheduled'
+          AND e.scheduled_date < p_now
+          AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+          AND COALESCE(p.enabled, true)
+          AND e.scheduled_date + make_interval(days => CASE
+                  WHEN e.event_type = 'billing' THEN COALESCE(p.billing_grace_days, 0)
+                  ELSE COALESCE(p.service_grace_days, 0)
+              END) < p_now
+        ORDER BY e.scheduled_date
+        LIMIT p_limit
+        FOR UPDATE OF e SKIP LOCKED
+    )
+    UPDATE t_contract_events e SET
+        status = 'overdue',
+        version = e.version + 1,
+        updated_at = now()
+    FROM due
+    WHERE e.id = due.id
+    RETURNING e.*;
+$$;
+
+-- ============================================================================
+-- RPC: overdue_contract_events_to_escalate
+-- ============================================================================
+-- Overdue events since p_since with an escalation level due now and not yet
+-- claimed in t_contract_event_escalations: the assignee level (assignee set,
+-- notify_assignee on) or the manager level (managers configured and overdue
+-- for manager_escalation_days). Newest first, up to p_limit.
+
+CREATE OR REPLACE FUNCTION "public"."overdue_contract_events_to_escalate"(
+    p_now TIMESTAMPTZ,
+    p_since TIMESTAMPTZ,
+    p_tenant_id UUID,
+    p_limit INTEGER
+) RETURNS SETOF "public"."t_contract_events"
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT e.*
+    FROM t_contract_events e
+    LEFT JOIN t_overdue_escalation_policies p ON p.tenant_id = e.tenant_id
+    WHERE e.status = 'overdue'
+      AND e.scheduled_date >= p_since
+      AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+      AND COALESCE(p.enabled, true)
+      AND (
+          (
+              COALESCE(p.notify_assignee, true)
+              AND e.assigned_to IS NOT NULL
+              AND NOT EXISTS (
+                  SELECT 1 FROM t_contract_event_escalations x
+                  WHERE x.event_id = e.id AND x.level = 'assignee'
+              )
+          )
+          OR (
+              cardinality(COALESCE(p.manager_user_ids, '{}'::uuid[])) > 0
+              AND e.scheduled_date + make_interval(days =>
+                      CASE
+                          WHEN e.event_type = 'billing' THEN p.billing_grace_days
+                          ELSE p.service_grace_days
+                      END + p.manager_escalation_days) <= p_now
+              AND NOT EXISTS (
+                  SELECT 1 FROM t_contract_event_escalations x
+                  WHERE x.event_id = e.id AND x.level = 'manager'
+              )
+          )
+      )
+    ORDER BY e.scheduled_date DESC
+    LIMIT p_limit;
+$$;
+
+-- Nothing calls the id-list variant any more
+DROP FUNCTION IF EXISTS "public"."mark_contract_events_overdue"(UUID[]);
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."mark_due_contract_events_overdue"(TIMESTAMPTZ, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "public"."overdue_contract_events_to_escalate"(TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
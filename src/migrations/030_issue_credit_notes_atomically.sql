@@ -0,0 +1,198 @@
+-- Migration: Issue and cancel credit notes atomically
+-- Description: creditNoteService checked what was left to credit and then
+--              inserted the note in a separate call, so two concurrent notes
+--              could together credit more than the invoice total. The number
+--              was also taken from the CREDIT_NOTE sequence before the insert
+--              could fail, leaving gaps. And issued notes never reduced the
+--              invoice's outstanding balance, so dunning and receivables kept
+--              chasing credited amounts.
+--              issue_invoice_credit_note locks the invoice row, re-checks the
+--              creditable amount, inserts the note (still unnumbered) and
+--              takes the credit off t_invoices.balance — all in one
+--              transaction. The API numbers the note only after that; if
+--              numbering fails, discard_invoice_credit_note removes it again.
+--              cancel_invoice_credit_note gives the balance back.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- ALTER TABLE: t_invoice_credit_notes
+-- ============================================================================
+
+ALTER TABLE "public"."t_invoice_credit_notes"
+    ALTER COLUMN "credit_note_number" DROP NOT NULL;
+
+ALTER TABLE "public"."t_invoice_credit_notes"
+    ADD COLUMN IF NOT EXISTS "balance_reduction" NUMERIC(15, 2) DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."credit_note_number" IS 'From the CREDIT_NOTE sequence; NULL only between issue and numbering';
+COMMENT ON COLUMN "public"."t_invoice_credit_notes"."balance_reduction" IS 'How much of the note came off the invoice balance (the rest was already paid); restored on cancel';
+
+-- ============================================================================
+-- RPC: issue_invoice_credit_note
+-- ============================================================================
+-- p_note carries the t_invoice_credit_notes columns the API computed (no
+-- credit_note_number). No row back means the amount no longer fits: other
+-- notes were issued since the caller checked.
+
+CREATE OR REPLACE FUNCTION "public"."issue_invoice_credit_note"(
+    p_note JSONB
+) RETURNS SETOF "public"."t_invoice_credit_notes"
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invoice t_invoices%ROWTYPE;
+    v_amount NUMERIC(15, 2) := (p_note ->> 'amount')::NUMERIC;
+    v_credited NUMERIC(15, 2);
+    v_outstanding NUMERIC(15, 2);
+    v_reduction NUMERIC(15, 2);
+BEGIN
+    SELECT * INTO v_invoice
+    FROM t_invoices
+    WHERE id = (p_note ->> 'invoice_id')::UUID
+      AND tenant_id = (p_note ->> 'tenant_id')::UUID
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_credited
+    FROM t_invoice_credit_notes
+    WHERE invoice_id = v_invoice.id
+      AND status = 'issued';
+
+    IF v_amount > COALESCE(v_invoice.total_amount, 0) - v_credited THEN
+        RETURN;
+    END IF;
+
+    v_outstanding := COALESCE(v_invoice.balance, COALESCE(v_invoice.total_amount, 0) - COALESCE(v_invoice.amount_paid, 0));
+    v_reduction := LEAST(v_amount, GREATEST(v_outstanding, 0));
+
+    UPDATE t_invoices SET
+        balance = v_outstanding - v_reduction,
+        updated_at = now()
+    WHERE id = v_invoice.id;
+
+    RETURN QUERY
+    INSERT INTO t_invoice_credit_notes (
+        tenant_id, is_live, invoice_id, contract_id, receipt_id, status, reason,
+        currency, amount, base_amount, tax_amount, tax_breakdown, refund_status,
+        refund_amount, refund_reference, refunded_at, gateway_provider,
+        gateway_payment_id, balance_reduction, issued_by, issued_at
+    ) VALUES (
+        v_invoice.tenant_id,
+        (p_note ->> 'is_live')::BOOLEAN,
+        v_invoice.id,
+        (p_note ->> 'contract_id')::UUID,
+        (p_note ->> 'receipt_id')::UUID,
+        'issued',
+        p_note ->> 'reason',
+        p_note ->> 'currency',
+        v_amount,
+        (p_note ->> 'base_amount')::NUMERIC,
+        (p_note ->> 'tax_amount')::NUMERIC,
+        p_note -> 'tax_breakdown',
+        p_note ->> 'refund_status',
+        (p_note ->> 'refund_amount')::NUMERIC,
+        p_note ->> 'refund_reference',
+        (p_note ->> 'refunded_at')::TIMESTAMPTZ,
+        p_note ->> 'gateway_provider',
+        p_note ->> 'gateway_payment_id',
+        v_reduction,
+        (p_note ->> 'issued_by')::UUID,
+        COALESCE((p_note ->> 'issued_at')::TIMESTAMPTZ, now())
+    )
+    RETURNING *;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: cancel_invoice_credit_note
+-- ============================================================================
+-- Cancels an issued note and adds its balance_reduction back to the invoice.
+-- No row back when the note is not (or no longer) issued.
+
+CREATE OR REPLACE FUNCTION "public"."cancel_invoice_credit_note"(
+    p_credit_note_id UUID,
+    p_tenant_id UUID,
+    p_cancelled_by UUID,
+    p_reason TEXT
+) RETURNS SETOF "public"."t_invoice_credit_notes"
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_note t_invoice_credit_notes%ROWTYPE;
+BEGIN
+    -- Invoice first, in the same order as issue_invoice_credit_note
+    PERFORM 1 FROM t_invoices
+    WHERE id = (SELECT invoice_id FROM t_invoice_credit_notes WHERE id = p_credit_note_id AND tenant_id = p_tenant_id)
+    FOR UPDATE;
+
+    UPDATE t_invoice_credit_notes SET
+        status = 'cancelled',
+        cancelled_by = p_cancelled_by,
+        cancelled_at = now(),
+        cancel_reason = p_reason,
+        updated_at = now()
+    WHERE id = p_credit_note_id
+      AND tenant_id = p_tenant_id
+      AND status = 'issued'
+    RETURNING * INTO v_note;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE t_invoices SET
+        balance = COALESCE(balance, COALESCE(total_amount, 0) - COALESCE(amount_paid, 0)) + v_note.balance_reduction,
+        updated_at = now()
+    WHERE id = v_note.invoice_id
+      AND v_note.balance_reduction > 0;
+
+    RETURN NEXT v_note;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: discard_invoice_credit_note
+-- ============================================================================
+-- Removes a note that could not be numbered and restores the invoice balance,
+-- as if it had never been issued. Numbered notes are never discarded.
+
+CREATE OR REPLACE FUNCTION "public"."discard_invoice_credit_note"(
+    p_credit_note_id UUID,
+    p_tenant_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_note t_invoice_credit_notes%ROWTYPE;
+BEGIN
+    PERFORM 1 FROM t_invoices
+    WHERE id = (SELECT invoice_id FROM t_invoice_credit_notes WHERE id = p_credit_note_id AND tenant_id = p_tenant_id)
+    FOR UPDATE;
+
+    DELETE FROM t_invoice_credit_notes
+    WHERE id = p_credit_note_id
+      AND tenant_id = p_tenant_id
+      AND credit_note_number IS NULL
+    RETURNING * INTO v_note;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF v_note.status = 'issued' AND v_note.balance_reduction > 0 THEN
+        UPDATE t_invoices SET
+            balance = COALESCE(balance, COALESCE(total_amount, 0) - COALESCE(amount_paid, 0)) + v_note.balance_reduction,
+            updated_at = now()
+        WHERE id = v_note.invoice_id;
+    END IF;
+    RETURN true;
+END;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."issue_invoice_credit_note"(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "public"."cancel_invoice_credit_note"(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION "public"."discard_invoice_credit_note"(UUID, UUID) FROM PUBLIC, anon, authenticated;
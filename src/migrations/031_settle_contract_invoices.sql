@@ -0,0 +1,90 @@
+-- Migration: Settle the contract's invoices on a cancellation settlement
+-- Description: Committing a settlement reclaimed the deposit, set the credit
+--              and cancelled the contract, but the open invoices kept their
+--              full balance, so receivables and dunning went on chasing what
+--              the settlement had forgiven, and amount_due lived only in the
+--              status note. The commit now credits the open invoices down to
+--              amount_due (credit notes, 030) and raises whatever of
+--              amount_due they do not already carry as an invoice of its own.
+--              raise_settlement_invoice does that insert once per settlement.
+-- Date: 2026-10-18
+
+-- ============================================================================
+-- ALTER TABLE: t_contract_settlements
+-- ============================================================================
+
+ALTER TABLE "public"."t_contract_settlements"
+    ADD COLUMN IF NOT EXISTS "settlement_invoice_id" UUID;
+
+COMMENT ON COLUMN "public"."t_contract_settlements"."settlement_invoice_id" IS 't_invoices row raised for the part of amount_due the open invoices did not carry';
+COMMENT ON COLUMN "public"."t_contract_settlements"."steps_completed" IS 'deposit / credit / invoices / receivable / status — lets a failed commit resume without repeating a step';
+
+-- ============================================================================
+-- RPC: raise_settlement_invoice
+-- ============================================================================
+-- Inserts an unpaid invoice for p_amount against the settled contract and
+-- links it to the settlement. A settlement that already has its invoice gets
+-- that one back, so a resumed commit never raises a second. No row back when
+-- the settlement does not belong to the tenant.
+
+CREATE OR REPLACE FUNCTION "public"."raise_settlement_invoice"(
+    p_settlement_id UUID,
+    p_tenant_id UUID,
+    p_invoice_number TEXT,
+    p_amount NUMERIC,
+    p_due_date DATE
+) RETURNS SETOF "public"."t_invoices"
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settlement t_contract_settlements%ROWTYPE;
+    v_invoice_id UUID;
+BEGIN
+    SELECT * INTO v_settlement
+    FROM t_contract_settlements
+    WHERE id = p_settlement_id
+      AND tenant_id = p_tenant_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_settlement.settlement_invoice_id IS NOT NULL THEN
+        RETURN QUERY SELECT * FROM t_invoices WHERE id = v_settlement.settlement_invoice_id;
+        RETURN;
+    END IF;
+
+    INSERT INTO t_invoices (
+        tenant_id, is_live, contract_id, invoice_number, status, currency,
+        total_amount, amount_paid, balance, due_date, metadata
+    ) VALUES (
+        v_settlement.tenant_id,
+        v_settlement.is_live,
+        v_settlement.contract_id,
+        p_invoice_number,
+        'unpaid',
+        v_settlement.currency,
+        p_amount,
+        0,
+        p_amount,
+        p_due_date,
+        jsonb_build_object(
+            'source', 'contract_settlement',
+            'settlement_id', v_settlement.id,
+            'cancellation_date', v_settlement.cancellation_date
+        )
+    )
+    RETURNING id INTO v_invoice_id;
+
+    UPDATE t_contract_settlements SET
+        settlement_invoice_id = v_invoice_id,
+        updated_at = now()
+    WHERE id = v_settlement.id;
+
+    RETURN QUERY SELECT * FROM t_invoices WHERE id = v_invoice_id;
+END;
+$$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION "public"."raise_settlement_invoice"(UUID, UUID, TEXT, NUMERIC, DATE) FROM PUBLIC, anon, authenticated;
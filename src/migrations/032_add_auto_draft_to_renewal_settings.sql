@@ -0,0 +1,18 @@
+-- Migration: Add auto_draft to t_contract_renewal_settings
+-- Description: Renewals were only drafted on demand (POST /:id/renew), so an
+--              expiry nobody looked at still went unrenewed. With auto_draft
+--              on, the renewal sweep (contractRenewalService.start) drafts the
+--              renewal of every live contract entering the tenant's window,
+--              with the tenant's escalation and notify settings. Off by
+--              default: drafting creates contracts and may notify buyers.
+-- Date: 2026-10-18
+
+ALTER TABLE "public"."t_contract_renewal_settings"
+    ADD COLUMN IF NOT EXISTS "auto_draft" BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN "public"."t_contract_renewal_settings"."auto_draft" IS 'Draft renewals for contracts entering the window on a schedule, not only on request';
+
+-- The sweep looks up the tenants that opted in
+CREATE INDEX IF NOT EXISTS "idx_t_contract_renewal_settings_auto_draft"
+    ON "public"."t_contract_renewal_settings" ("tenant_id")
+    WHERE "auto_draft" = true;
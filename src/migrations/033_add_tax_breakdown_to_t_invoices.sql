@@ -0,0 +1,13 @@
+-- Migration: Add tax_breakdown to t_invoices
+-- Description: Ad-hoc invoices are taxed by the tax engine, but
+--              create_adhoc_invoice stores only tax_amount, so the GST split
+--              (CGST/SGST/IGST, rate, place of supply) was lost and credit
+--              notes, e-invoices and accounting exports had to guess it from
+--              tax over subtotal. The API writes the engine's breakdown here
+--              right after the invoice is created.
+-- Date: 2026-10-18
+
+ALTER TABLE "public"."t_invoices"
+    ADD COLUMN IF NOT EXISTS "tax_breakdown" JSONB;
+
+COMMENT ON COLUMN "public"."t_invoices"."tax_breakdown" IS '{tax_rate, tax_rate_name, supply_type, place_of_supply, components[{code, rate, amount}]} from the tax engine; NULL when not calculated server-side';
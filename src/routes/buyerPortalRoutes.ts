@@ -0,0 +1,177 @@
+// ============================================================================
+// Buyer Portal Routes — mounted at /api/portal (see index.ts)
+// ============================================================================
+// NO tenant-user authentication: buyers are contacts, not users. They sign in
+// with a one-time code (auth/request-otp → auth/verify-otp) and every route
+// after that runs behind authenticatePortal, which scopes it to the session's
+// tenant, environment and contacts. Keep this router free of `authenticate`.
+// ============================================================================
+
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import buyerPortalController from '../controllers/buyerPortalController';
+import { authenticatePortal } from '../middleware/portalAuth';
+import {
+  requestPortalOtpValidation,
+  resendPortalOtpValidation,
+  verifyPortalOtpValidation,
+  portalContractIdValidation,
+  listPortalEventsValidation,
+  listPortalInvoicesValidation,
+  portalInvoiceIdValidation,
+  payPortalInvoiceValidation,
+  verifyPortalPaymentValidation,
+  createPortalServiceRequestValidation,
+  portalServiceRequestIdValidation
+} from '../validators/buyerPortalValidators';
+
+const router = express.Router();
+
+// Every response is one buyer's data — never cacheable by a shared proxy
+router.use((_req, res, next) => {
+  res.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+  res.set('Pragma', 'no-cache');
+  res.set('Expires', '0');
+  next();
+});
+
+// Rate limiting — per IP on the unauthenticated sign-in endpoints (the
+// service also caps codes per address), per session-holder otherwise
+const portalAuthRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,           // 15 minutes
+  max: 20,                              // 20 code requests / verifications per window
+  message: {
+    success: false,
+    error: 'Too many sign-in attempts, please try again later',
+    code: 'RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const portalRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,           // 15 minutes
+  max: 300,                             // 300 requests per window
+  message: {
+    success: false,
+    error: 'Too many portal requests, please try again later',
+    code: 'RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// =================================================================
+// SIGN-IN
+// =================================================================
+
+/**
+ * POST /api/portal/auth/request-otp
+ * body: { tenant_id, destination, channel?: email|sms|whatsapp } — same
+ * answer whether or not the address is on file
+ */
+router.post('/auth/request-otp', portalAuthRateLimit, requestPortalOtpValidation, buyerPortalController.requestOtp);
+
+/**
+ * POST /api/portal/auth/resend-otp
+ * body: { challenge_id, channel? } — new code, the previous one stops working
+ */
+router.post('/auth/resend-otp', portalAuthRateLimit, resendPortalOtpValidation, buyerPortalController.resendOtp);
+
+/**
+ * POST /api/portal/auth/verify-otp
+ * body: { challenge_id, code } → { token, expires_at, buyer }
+ */
+router.post('/auth/verify-otp', portalAuthRateLimit, verifyPortalOtpValidation, buyerPortalController.verifyOtp);
+
+// Everything below needs a portal session
+router.use(portalRateLimit);
+router.use(authenticatePortal);
+
+/**
+ * POST /api/portal/auth/logout
+ */
+router.post('/auth/logout', buyerPortalController.logout);
+
+/**
+ * GET /api/portal/me
+ * The signed-in buyer and the seller they are signed in to
+ */
+router.get('/me', buyerPortalController.getMe);
+
+// =================================================================
+// CONTRACTS & EVENTS
+// =================================================================
+
+/**
+ * GET /api/portal/contracts
+ * All of the buyer's contracts with this seller
+ */
+router.get('/contracts', buyerPortalController.listContracts);
+
+/**
+ * GET /api/portal/contracts/:contractId
+ */
+router.get('/contracts/:contractId', portalContractIdValidation, buyerPortalController.getContract);
+
+/**
+ * GET /api/portal/events
+ * Upcoming visits and billing dates. Query: contract_id?, from?, to?
+ */
+router.get('/events', listPortalEventsValidation, buyerPortalController.listEvents);
+
+// =================================================================
+// INVOICES & PAYMENTS
+// =================================================================
+
+/**
+ * GET /api/portal/invoices
+ * Query: status=open|all (default all)
+ */
+router.get('/invoices', listPortalInvoicesValidation, buyerPortalController.listInvoices);
+
+/**
+ * GET /api/portal/invoices/:invoiceId
+ */
+router.get('/invoices/:invoiceId', portalInvoiceIdValidation, buyerPortalController.getInvoice);
+
+/**
+ * GET /api/portal/invoices/:invoiceId/download
+ * Invoice PDF
+ */
+router.get('/invoices/:invoiceId/download', portalInvoiceIdValidation, buyerPortalController.downloadInvoice);
+
+/**
+ * POST /api/portal/invoices/:invoiceId/pay
+ * body: { amount? } (default: the outstanding balance) → Razorpay order
+ */
+router.post('/invoices/:invoiceId/pay', payPortalInvoiceValidation, buyerPortalController.payInvoice);
+
+/**
+ * POST /api/portal/invoices/:invoiceId/pay/verify
+ * body: { request_id, gateway_order_id, gateway_payment_id, gateway_signature }
+ */
+router.post('/invoices/:invoiceId/pay/verify', verifyPortalPaymentValidation, buyerPortalController.verifyPayment);
+
+// =================================================================
+// SERVICE REQUESTS
+// =================================================================
+
+/**
+ * GET /api/portal/service-requests
+ */
+router.get('/service-requests', buyerPortalController.listServiceRequests);
+
+/**
+ * POST /api/portal/service-requests
+ * body: { contract_id, subject, description?, preferred_date?, event_id? }
+ */
+router.post('/service-requests', createPortalServiceRequestValidation, buyerPortalController.createServiceRequest);
+
+/**
+ * GET /api/portal/service-requests/:requestId
+ * The request and the current state of its service ticket
+ */
+router.get('/service-requests/:requestId', portalServiceRequestIdValidation, buyerPortalController.getServiceRequest);
+
+export default router;
@@ -1,7 +1,8 @@
 // ============================================================================
 // Cadence Settings Routes — mounted at /api/settings/cadence (see index.ts)
 // ============================================================================
-// Tenant-level holiday calendar + default shift policy for smart Service Cycles.
+// Tenant-level holiday calendar + default shift policy for smart Service Cycles,
+// and the working hours service-ticket SLA clocks count.
 
 import express from 'express';
 import cadenceSettingsController from '../controllers/cadenceSettingsController';
@@ -20,5 +21,9 @@ router.put('/', cadenceSettingsController.updateSettings);
 router.post('/holidays', cadenceSettingsController.addHoliday);
 // DELETE /api/settings/cadence/holidays?date=YYYY-MM-DD
 router.delete('/holidays', cadenceSettingsController.removeHoliday);
+// GET    /api/settings/cadence/working-hours → { day_start, day_end, configured }
+router.get('/working-hours', cadenceSettingsController.getWorkingHours);
+// PUT    /api/settings/cadence/working-hours body: { day_start:'HH:MM', day_end:'HH:MM'|'24:00' }
+router.put('/working-hours', cadenceSettingsController.updateWorkingHours);
 
 export default router;
@@ -0,0 +1,24 @@
+// ============================================================================
+// Public Calendar Feed Routes — mounted at /api/ical (see index.ts)
+// ============================================================================
+// NO authentication: calendar clients (Google, Outlook, Apple) poll these
+// URLs with no session. The opaque token in the URL is the credential.
+// Keep this router free of `authenticate`.
+
+import express from 'express';
+import calendarFeedController from '../controllers/calendarFeedController';
+import { calendarFeedTokenValidation } from '../validators/calendarFeedValidators';
+
+const router = express.Router();
+
+// Feeds are per-subscriber and change whenever an event moves — never let a
+// proxy serve one subscriber's calendar to another or a stale copy
+router.use((_req, res, next) => {
+  res.set('Cache-Control', 'private, no-cache, must-revalidate');
+  next();
+});
+
+// GET /api/ical/:token.ics                           → text/calendar feed
+router.get('/:token.ics', calendarFeedTokenValidation, calendarFeedController.getIcs);
+
+export default router;
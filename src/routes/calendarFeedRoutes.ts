@@ -0,0 +1,68 @@
+// ============================================================================
+// Calendar Feed Routes — mounted at /api/calendar-feeds (see index.ts)
+// ============================================================================
+// Authenticated management of ICS subscriptions. The feeds themselves are
+// served token-gated by calendarFeedPublicRoutes (/api/ical).
+// ============================================================================
+
+import express from 'express';
+import calendarFeedController from '../controllers/calendarFeedController';
+import { authenticate } from '../middleware/auth';
+import {
+  createCalendarFeedValidation,
+  calendarFeedIdValidation
+} from '../validators/calendarFeedValidators';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.use((req, res, next) => {
+  if (!req.headers['x-tenant-id']) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'BAD_REQUEST',
+        message: 'x-tenant-id header is required'
+      },
+      metadata: { timestamp: new Date().toISOString() }
+    });
+  }
+  next();
+});
+
+/**
+ * @route GET /api/calendar-feeds
+ * @description Active ICS feeds of the tenant, with subscription URLs
+ * @returns { success, data: CalendarFeedWithUrl[] }
+ */
+router.get('/', calendarFeedController.listFeeds);
+
+/**
+ * @route POST /api/calendar-feeds
+ * @description Subscription URL for a scope + subject — tenant (all contract
+ *              events), assignee (user id), contact (buyer contact id) or
+ *              block (group-session block id). Returns the active feed if one
+ *              exists.
+ * @body {CreateCalendarFeedRequest}
+ * @returns { success, data: CalendarFeedWithUrl }
+ */
+router.post('/', createCalendarFeedValidation, calendarFeedController.createFeed);
+
+/**
+ * @route POST /api/calendar-feeds/:id/rotate
+ * @description Issue a new token for the feed; the old URL stops working
+ * @param {string} id - Feed UUID
+ * @returns { success, data: CalendarFeedWithUrl }
+ */
+router.post('/:id/rotate', calendarFeedIdValidation, calendarFeedController.rotateFeed);
+
+/**
+ * @route DELETE /api/calendar-feeds/:id
+ * @description Revoke the feed
+ * @param {string} id - Feed UUID
+ * @returns { success, data: CalendarFeed }
+ */
+router.delete('/:id', calendarFeedIdValidation, calendarFeedController.revokeFeed);
+
+export default router;
@@ -9,6 +9,8 @@
 import express, { Request, Response, NextFunction } from 'express';
 import catalogStudioController from '../controllers/catalogStudioController';
 import { requestContextMiddleware, requireIdempotencyKey } from '../middleware/requestContext';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { Permission } from '../constants/permissions';
 import {
   createBlockValidation,
   updateBlockValidation,
@@ -71,6 +73,18 @@ const requireAdmin = (req: Request, res: Response, next: NextFunction): void =>
   next();
 };
 
+/**
+ * Catalog writes need catalog.write. Creating a public template, or changing
+ * is_public on an existing one, is publishing and needs catalog.publish too.
+ */
+const requireCatalogWrite = requirePermission(Permission.CATALOG_WRITE);
+const requireCatalogPublish = requirePermission(Permission.CATALOG_WRITE, Permission.CATALOG_PUBLISH);
+
+const requireTemplateWrite = (req: Request, res: Response, next: NextFunction) => {
+  const publishing = req.method === 'POST' ? req.body?.is_public === true : req.body?.is_public !== undefined;
+  return (publishing ? requireCatalogPublish : requireCatalogWrite)(req, res, next);
+};
+
 // ============================================
 // Block Routes
 // ============================================
@@ -98,6 +112,8 @@ router.get(
 router.post(
   '/blocks',
   requestContextMiddleware,
+  authenticate,
+  requireCatalogWrite,
   requireIdempotencyKey,
   createBlockValidation,
   handleValidationErrors,
@@ -110,6 +126,8 @@ router.post(
 router.patch(
   '/blocks/:id',
   requestContextMiddleware,
+  authenticate,
+  requireCatalogWrite,
   requireIdempotencyKey,
   updateBlockValidation,
   handleValidationErrors,
@@ -120,6 +138,8 @@ router.patch(
 router.delete(
   '/blocks/:id',
   validateHeaders,
+  authenticate,
+  requireCatalogWrite,
   validateIdParam,
   handleValidationErrors,
   catalogStudioController.deleteBlock
@@ -212,6 +232,8 @@ router.get(
 router.post(
   '/templates',
   requestContextMiddleware,
+  authenticate,
+  requireTemplateWrite,
   requireIdempotencyKey,
   createTemplateValidation,
   handleValidationErrors,
@@ -223,6 +245,8 @@ router.post(
 router.post(
   '/templates/:id/copy',
   requestContextMiddleware,
+  authenticate,
+  requireCatalogWrite,
   requireIdempotencyKey,
   copyTemplateValidation,
   handleValidationErrors,
@@ -235,6 +259,8 @@ router.post(
 router.patch(
   '/templates/:id',
   requestContextMiddleware,
+  authenticate,
+  requireTemplateWrite,
   requireIdempotencyKey,
   updateTemplateValidation,
   handleValidationErrors,
@@ -245,6 +271,8 @@ router.patch(
 router.delete(
   '/templates/:id',
   validateHeaders,
+  authenticate,
+  requireCatalogWrite,
   validateIdParam,
   handleValidationErrors,
   catalogStudioController.deleteTemplate
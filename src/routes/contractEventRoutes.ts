@@ -13,7 +13,8 @@ import {
   listContractEventsValidation,
   dateSummaryValidation,
   createContractEventsValidation,
-  updateContractEventValidation
+  updateContractEventValidation,
+  updateOverduePolicyValidation
 } from '../validators/contractEventValidators';
 
 const router = express.Router();
@@ -99,6 +100,16 @@ router.get('/health', (_req, res) => {
   });
 });
 
+/**
+ * @route GET /api/contract-events/overdue-policy
+ * @description Overdue escalation policy of the tenant (defaults if never saved)
+ * @returns {OverdueEscalationPolicy}
+ */
+router.get(
+  '/overdue-policy',
+  contractEventController.getOverduePolicy
+);
+
 /**
  * @route GET /api/contract-events
  * @description List contract events with filtering and pagination
@@ -139,6 +150,29 @@ router.post(
   contractEventController.createEvents
 );
 
+/**
+ * @route PUT /api/contract-events/overdue-policy
+ * @description Update the overdue escalation policy (grace days, assignee/manager escalation)
+ * @body {UpdateOverdueEscalationPolicyRequest}
+ * @returns {OverdueEscalationPolicy}
+ */
+router.put(
+  '/overdue-policy',
+  updateOverduePolicyValidation,
+  contractEventController.updateOverduePolicy
+);
+
+/**
+ * @route POST /api/contract-events/overdue-sweep
+ * @description Run the overdue sweep now for this tenant (the background job runs every 15 min)
+ * @returns {OverdueSweepResult}
+ */
+router.post(
+  '/overdue-sweep',
+  createEventRateLimit,
+  contractEventController.runOverdueSweep
+);
+
 /**
  * @route PATCH /api/contract-events/:id
  * @description Update a single contract event (status, date, assignee, notes)
@@ -7,14 +7,24 @@
 
 import express from 'express';
 import ContractController from '../controllers/contractController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { Permission } from '../constants/permissions';
 import {
   listContractsValidation,
   getContractByIdValidation,
   createContractValidation,
   updateContractValidation,
   updateContractStatusValidation,
-  deleteContractValidation
+  deleteContractValidation,
+  listAmendmentsValidation,
+  proposeAmendmentValidation,
+  amendmentActionValidation,
+  listRenewalsValidation,
+  updateRenewalSettingsValidation,
+  renewContractValidation,
+  previewSettlementValidation,
+  commitSettlementValidation,
+  rederiveEventsValidation
 } from '../validators/contractValidators';
 
 const router = express.Router();
@@ -44,6 +54,20 @@ router.post(
   contractController.respondToContract
 );
 
+/**
+ * @route POST /api/contracts/public/amendments
+ * @description List amendments on the CNAK-scoped contract (public)
+ * @body { cnak: string, secret_code: string }
+ */
+router.post('/public/amendments', contractController.getPublicAmendments);
+
+/**
+ * @route POST /api/contracts/public/amendments/respond
+ * @description Accept or reject an amendment via CNAK + secret_code (public)
+ * @body { cnak, secret_code, amendment_id, action: 'accept'|'reject', responder_name?, responder_email?, rejection_reason? }
+ */
+router.post('/public/amendments/respond', contractController.respondToAmendment);
+
 /**
  * @route POST /api/contracts/public/payment-context
  * @description Resolve CNAK → payable invoice + which payment surfaces are
@@ -186,6 +210,45 @@ router.get(
   contractController.getMyContractAccess
 );
 
+/**
+ * @route GET /api/contracts/renewals
+ * @description Active contracts whose end date falls inside the tenant's
+ *              renewal window (soonest first)
+ * @query {number} window_days - Override the tenant window (1-365)
+ * @query {boolean} include_renewed - Include contracts already renewed (default: false)
+ * @returns { success, data: { window_days, items: RenewalDueItem[] } }
+ * NOTE: must be registered before GET /:id.
+ */
+router.get(
+  '/renewals',
+  listRenewalsValidation,
+  contractController.getRenewals
+);
+
+/**
+ * @route GET /api/contracts/renewals/settings
+ * @description Tenant renewal policy (window, default escalation, notify,
+ *              scheduled drafting)
+ * @returns { success, data: ContractRenewalSettings }
+ */
+router.get(
+  '/renewals/settings',
+  contractController.getRenewalSettings
+);
+
+/**
+ * @route PUT /api/contracts/renewals/settings
+ * @description Update the tenant renewal policy
+ * @body { window_days?, escalation_percent?, notify_buyer?, auto_draft? }
+ * @returns { success, data: ContractRenewalSettings }
+ */
+router.put(
+  '/renewals/settings',
+  requirePermission(Permission.CONTRACTS_WRITE),
+  updateRenewalSettingsValidation,
+  contractController.updateRenewalSettings
+);
+
 /**
  * @route GET /api/contracts/:id
  * @description Get single contract by ID with blocks, vendors, attachments, history
@@ -211,6 +274,7 @@ router.get(
  */
 router.post(
   '/',
+  requirePermission(Permission.CONTRACTS_WRITE),
   createContractValidation,
   contractController.createContract
 );
@@ -227,6 +291,7 @@ router.post(
  */
 router.post(
   '/bulk-create',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.bulkCreateContracts
 );
 
@@ -240,6 +305,7 @@ router.post(
  */
 router.put(
   '/:id',
+  requirePermission(Permission.CONTRACTS_WRITE),
   updateContractValidation,
   contractController.updateContract
 );
@@ -253,6 +319,7 @@ router.put(
  */
 router.patch(
   '/:id/status',
+  requirePermission(Permission.CONTRACTS_WRITE),
   updateContractStatusValidation,
   contractController.updateContractStatus
 );
@@ -266,6 +333,7 @@ router.patch(
  */
 router.delete(
   '/:id',
+  requirePermission(Permission.CONTRACTS_DELETE),
   deleteContractValidation,
   contractController.deleteContract
 );
@@ -283,9 +351,163 @@ router.delete(
  */
 router.post(
   '/:id/notify',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.sendNotification
 );
 
+// =================================================================
+// DOCUMENT ENDPOINTS
+// =================================================================
+
+/**
+ * @route GET /api/contracts/:id/document
+ * @description Render the contract as a PDF (header, ordered blocks, equipment,
+ *              derived schedule, acceptance trail). Each accepted version is
+ *              archived to storage once and served from the archive after;
+ *              drafts are rendered fresh every time.
+ * @param {string} id - Contract UUID
+ * @returns application/pdf — headers X-Contract-Version, X-Document-SHA256
+ */
+router.get(
+  '/:id/document',
+  getContractByIdValidation,
+  contractController.getContractDocument
+);
+
+// =================================================================
+// AMENDMENT ENDPOINTS
+// =================================================================
+
+/**
+ * @route GET /api/contracts/:id/amendments
+ * @description Amendment (change order) history, newest first
+ * @param {string} id - Contract UUID
+ * @returns { success, data: ContractAmendment[] }
+ */
+router.get(
+  '/:id/amendments',
+  listAmendmentsValidation,
+  contractController.listAmendments
+);
+
+/**
+ * @route POST /api/contracts/:id/amendments
+ * @description Propose a change set (blocks, price, duration, equipment)
+ *              against the current version. The buyer answers via
+ *              /public/amendments/respond; acceptance bumps the version.
+ * @param {string} id - Contract UUID
+ * @body {ProposeAmendmentRequest}
+ * @returns { success, data: ContractAmendment } 201 Created
+ */
+router.post(
+  '/:id/amendments',
+  requirePermission(Permission.CONTRACTS_WRITE),
+  proposeAmendmentValidation,
+  contractController.proposeAmendment
+);
+
+/**
+ * @route POST /api/contracts/:id/amendments/:amendmentId/withdraw
+ * @description Withdraw an amendment the buyer has not answered yet
+ * @param {string} id - Contract UUID
+ * @param {string} amendmentId - Amendment UUID
+ */
+router.post(
+  '/:id/amendments/:amendmentId/withdraw',
+  requirePermission(Permission.CONTRACTS_WRITE),
+  amendmentActionValidation,
+  contractController.withdrawAmendment
+);
+
+// =================================================================
+// RENEWAL ENDPOINTS
+// =================================================================
+
+/**
+ * @route POST /api/contracts/:id/renew
+ * @description Draft the next-term contract: same blocks and equipment,
+ *              prices escalated, schedule re-derived. Notifies the buyer via
+ *              /:id/notify unless disabled. One renewal per contract.
+ * @param {string} id - Contract UUID (must be active)
+ * @body {RenewContractRequest}
+ * @returns { success, data: { renewal, contract, notification } } 201 Created
+ */
+router.post(
+  '/:id/renew',
+  requirePermission(Permission.CONTRACTS_WRITE),
+  renewContractValidation,
+  contractController.renewContract
+);
+
+// =================================================================
+// CANCELLATION SETTLEMENT ENDPOINTS
+// =================================================================
+
+/**
+ * @route GET /api/contracts/:id/settlement
+ * @description The committed cancellation settlement (null if none)
+ * @param {string} id - Contract UUID
+ * @returns { success, data: ContractSettlement | null }
+ */
+router.get(
+  '/:id/settlement',
+  getContractByIdValidation,
+  contractController.getSettlement
+);
+
+/**
+ * @route POST /api/contracts/:id/settlement/preview
+ * @description Compute the early-cancellation settlement — consumed services
+ *              vs paid, deposit offset, credit or amount due. No side effects.
+ * @param {string} id - Contract UUID (must be active)
+ * @body { cancellation_date?: 'YYYY-MM-DD' }
+ * @returns { success, data: ContractSettlementPreview }
+ */
+router.post(
+  '/:id/settlement/preview',
+  requirePermission(Permission.INVOICES_CANCEL),
+  previewSettlementValidation,
+  contractController.previewSettlement
+);
+
+/**
+ * @route POST /api/contracts/:id/settlement
+ * @description Commit a previewed settlement: reclaim deposit, set buyer
+ *              credit, credit open invoices down to amount_due, invoice the
+ *              rest of amount_due, cancel the contract. 409 if the figures
+ *              moved since the preview.
+ * @param {string} id - Contract UUID (must be active)
+ * @body { cancellation_date?, preview_token: string, note? }
+ * @returns { success, data: ContractSettlement }
+ */
+router.post(
+  '/:id/settlement',
+  requirePermission(Permission.INVOICES_CANCEL),
+  commitSettlementValidation,
+  contractController.commitSettlement
+);
+
+// =================================================================
+// EVENT RE-DERIVATION ENDPOINTS
+// =================================================================
+
+/**
+ * @route POST /api/contracts/:id/events/rederive
+ * @description Re-derive the schedule in the tenant's time zone and working
+ *              calendar: service events on weekly offs / holidays move per the
+ *              shift policy (recorded as event overrides); pending events
+ *              follow. dry_run returns the plan without writing.
+ * @param {string} id - Contract UUID (not cancelled / completed / expired)
+ * @body {RederiveContractEventsRequest} { version, shift?, dry_run? }
+ * @returns { success, data: ContractEventsRederivation }
+ */
+router.post(
+  '/:id/events/rederive',
+  requirePermission(Permission.CONTRACTS_WRITE),
+  rederiveEventsValidation,
+  contractController.rederiveEvents
+);
+
 // =================================================================
 // BUYER EQUIPMENT ENDPOINTS
 // =================================================================
@@ -299,6 +521,7 @@ router.post(
  */
 router.post(
   '/:id/buyer-equipment',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.buyerAddEquipment
 );
 
@@ -311,6 +534,7 @@ router.post(
  */
 router.delete(
   '/:id/buyer-equipment',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.buyerRemoveEquipment
 );
 
@@ -327,6 +551,7 @@ router.delete(
  */
 router.post(
   '/:id/seller-equipment',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.sellerAddEquipment
 );
 
@@ -339,6 +564,7 @@ router.post(
  */
 router.delete(
   '/:id/seller-equipment',
+  requirePermission(Permission.CONTRACTS_WRITE),
   contractController.sellerRemoveEquipment
 );
 
@@ -366,6 +592,7 @@ router.get(
  */
 router.post(
   '/:id/invoices/record-payment',
+  requirePermission(Permission.INVOICES_WRITE),
   contractController.recordPayment
 );
 
@@ -378,6 +605,7 @@ router.post(
  */
 router.post(
   '/:id/invoices/cancel',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.cancelInvoice
 );
 
@@ -390,6 +618,7 @@ router.post(
  */
 router.post(
   '/:id/invoices/receipts/cancel',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.cancelReceipt
 );
 
@@ -405,6 +634,7 @@ router.post(
  */
 router.post(
   '/:id/credit',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.setContractCredit
 );
 
@@ -416,6 +646,7 @@ router.post(
  */
 router.post(
   '/:id/credit/apply',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.applyBuyerCredit
 );
 
@@ -427,6 +658,7 @@ router.post(
  */
 router.post(
   '/:id/deposit',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.setContractDeposit
 );
 
@@ -437,6 +669,7 @@ router.post(
  */
 router.post(
   '/:id/deposit/reclaim',
+  requirePermission(Permission.INVOICES_CANCEL),
   contractController.reclaimContractDeposit
 );
 
@@ -3,10 +3,13 @@
 // ============================================================================
 // Touchpoint management for the /extend page: list, publish a template to a
 // route, pause/resume. Tenant scoping via x-tenant-id, same header contract
-// as catalog-studio routes.
+// as catalog-studio routes. Publishing, pausing and resuming need
+// catalog.publish.
 
 import express, { Request, Response, NextFunction } from 'express';
 import extendController from '../controllers/extendController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { Permission } from '../constants/permissions';
 
 const router = express.Router();
 
@@ -36,8 +39,8 @@ router.use(validateHeaders);
 // GET   /api/extend/touchpoints              → this tenant's touchpoints
 router.get('/touchpoints', extendController.listTouchpoints);
 // POST  /api/extend/touchpoints              body:{template_id, touchpoint_type}
-router.post('/touchpoints', extendController.createTouchpoint);
+router.post('/touchpoints', authenticate, requirePermission(Permission.CATALOG_PUBLISH), extendController.createTouchpoint);
 // PATCH /api/extend/touchpoints/:id          body:{is_active}
-router.patch('/touchpoints/:id', extendController.setTouchpointActive);
+router.patch('/touchpoints/:id', authenticate, requirePermission(Permission.CATALOG_PUBLISH), extendController.setTouchpointActive);
 
 export default router;
@@ -2,16 +2,36 @@
 // Finance routes — Stage 1 Finance AR/AP
 // Mounted at /api/finance (see src/index.ts registration).
 // Mirrors contractEventRoutes middleware chain:
-//   authenticate → ensureTenant → rate limit → validators → controller
+//   authenticate → ensureTenant → permission → rate limit → validators → controller
 // ============================================================================
 
 import express from 'express';
 import FinanceController from '../controllers/financeController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { Permission } from '../constants/permissions';
 import rateLimit from 'express-rate-limit';
+import multer from 'multer';
+import { scanUploads } from '../middleware/fileUpload';
 import {
   invoiceActionValidation,
-  cancelInvoiceValidation
+  cancelInvoiceValidation,
+  createDunningLadderValidation,
+  updateDunningLadderValidation,
+  updateInvoiceDunningValidation,
+  runDunningValidation,
+  receivablesAgeingValidation,
+  exportReceivablesAgeingValidation,
+  importBankStatementValidation,
+  bankStatementImportValidation,
+  bankStatementLineValidation,
+  confirmBankStatementLineValidation,
+  saveExportSettingsValidation,
+  createAccountingExportValidation,
+  accountingExportValidation,
+  listFxRatesValidation,
+  saveFxRatesValidation,
+  fxRateValidation,
+  setBaseCurrencyValidation
 } from '../validators/financeValidators';
 
 const router = express.Router();
@@ -58,12 +78,63 @@ const financeActionRateLimit = rateLimit({
 
 router.use(financeReadRateLimit);
 
+// Uploads (bank statements, FX rate files): one text file held in memory,
+// sniffed and virus-scanned (scanUploads) before the controller parses it
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+const textUpload = (what: string) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 } })
+    .single('file')(req, res, (err: any) => {
+      if (err) {
+        const tooLarge = err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE';
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: tooLarge ? 'FILE_TOO_LARGE' : 'BAD_REQUEST',
+            message: tooLarge ? `${what} exceeds the ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB limit` : err.message
+          },
+          metadata: { timestamp: new Date().toISOString() }
+        });
+      }
+      scanUploads(req, res, next);
+    });
+};
+const statementUpload = textUpload('Statement');
+const rateFileUpload = textUpload('Rate file');
+
 /**
  * GET /api/finance/receivables
  * Tenant-level AR: summary (ageing/upcoming), who-owes, invoice worklist.
+ * Worklist rows carry their dunning state and latest reminder_history.
  */
 router.get('/receivables', financeController.getReceivables);
 
+/**
+ * GET /api/finance/receivables/ageing
+ * Open invoices in 0-30 / 31-60 / 61-90 / 90+ days-past-due buckets, per
+ * buyer and per contract, with totals by currency and in the tenant base currency.
+ * `truncated` is true when there are more open invoices than `invoice_limit`.
+ * Query: as_of? (ISO date, default today), currency?
+ */
+router.get(
+  '/receivables/ageing',
+  receivablesAgeingValidation,
+  financeController.getReceivablesAgeing
+);
+
+/**
+ * GET /api/finance/receivables/ageing/export
+ * Download the ageing report. format=csv (one grouping: group_by=buyer|
+ * contract|invoice) or format=xlsx (summary + every grouping as sheets).
+ * A truncated report says so on the summary sheet, and in an
+ * X-Report-Truncated header on either format.
+ */
+router.get(
+  '/receivables/ageing/export',
+  financeActionRateLimit,
+  exportReceivablesAgeingValidation,
+  financeController.exportReceivablesAgeing
+);
+
 /**
  * GET /api/finance/payables
  * Buyer mirror: own vendor-contract invoices + claimed-contract invoices.
@@ -84,6 +155,7 @@ router.get('/tax-summary', financeController.getTaxSummary);
  */
 router.post(
   '/invoices/:invoiceId/approve',
+  requirePermission(Permission.INVOICES_WRITE),
   financeActionRateLimit,
   invoiceActionValidation,
   financeController.approveDraftInvoice
@@ -95,6 +167,7 @@ router.post(
  */
 router.post(
   '/invoices/:invoiceId/remind',
+  requirePermission(Permission.INVOICES_WRITE),
   financeActionRateLimit,
   invoiceActionValidation,
   financeController.sendInvoiceReminder
@@ -107,11 +180,253 @@ router.post(
  */
 router.post(
   '/invoices/:invoiceId/cancel',
+  requirePermission(Permission.INVOICES_CANCEL),
   financeActionRateLimit,
   cancelInvoiceValidation,
   financeController.cancelDraftInvoice
 );
 
+/**
+ * GET /api/finance/invoices/:invoiceId/reminders
+ * Full reminder history of one invoice (dunning + manual), newest first.
+ */
+router.get(
+  '/invoices/:invoiceId/reminders',
+  invoiceActionValidation,
+  financeController.getInvoiceReminders
+);
+
+/**
+ * PUT /api/finance/invoices/:invoiceId/dunning
+ * Pause / resume / stop dunning for one invoice, or switch its ladder.
+ * Body: { status?, ladder_id? }
+ */
+router.put(
+  '/invoices/:invoiceId/dunning',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  updateInvoiceDunningValidation,
+  financeController.updateInvoiceDunning
+);
+
+/**
+ * GET /api/finance/dunning-ladders
+ * Tenant's reminder ladders (default first).
+ */
+router.get('/dunning-ladders', financeController.listDunningLadders);
+
+/**
+ * POST /api/finance/dunning-ladders
+ * Create a ladder. Body: { name, steps: [{ offset_days, channel? }], is_default? }
+ * offset_days is relative to the due date (-3 = three days before);
+ * a step without channel alternates email / WhatsApp.
+ */
+router.post(
+  '/dunning-ladders',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  createDunningLadderValidation,
+  financeController.createDunningLadder
+);
+
+/**
+ * PUT /api/finance/dunning-ladders/:ladderId
+ * Update a ladder (name, steps, is_default, is_active).
+ */
+router.put(
+  '/dunning-ladders/:ladderId',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  updateDunningLadderValidation,
+  financeController.updateDunningLadder
+);
+
+/**
+ * POST /api/finance/dunning/run
+ * Run dunning now for this tenant (the background job runs hourly).
+ * Body: { dry_run? } — dry run returns the planned reminders only.
+ */
+router.post(
+  '/dunning/run',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  runDunningValidation,
+  financeController.runDunning
+);
+
+/**
+ * GET /api/finance/bank-statements
+ * Latest statement imports with their line counts per status.
+ */
+router.get('/bank-statements', financeController.listBankStatements);
+
+/**
+ * POST /api/finance/bank-statements
+ * Upload a statement (multipart field "file": bank CSV export or MT940;
+ * optional format, currency). Credits are stored with suggested invoice
+ * matches (score 0-100); credits from an earlier upload are skipped.
+ */
+router.post(
+  '/bank-statements',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  statementUpload,
+  importBankStatementValidation,
+  financeController.importBankStatement
+);
+
+/**
+ * GET /api/finance/bank-statements/:importId
+ * The import and its credits with suggestions. Query: status?
+ */
+router.get(
+  '/bank-statements/:importId',
+  bankStatementImportValidation,
+  financeController.getBankStatement
+);
+
+/**
+ * POST /api/finance/bank-statements/:importId/rematch
+ * Recompute suggestions for the import's open credits.
+ */
+router.post(
+  '/bank-statements/:importId/rematch',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  bankStatementImportValidation,
+  financeController.rematchBankStatement
+);
+
+/**
+ * POST /api/finance/bank-statements/lines/:lineId/confirm
+ * Record the receipt for a credit against an invoice (record-payment path).
+ * Body: { invoice_id, amount? } — amount defaults to the credit, capped at
+ * the invoice outstanding.
+ */
+router.post(
+  '/bank-statements/lines/:lineId/confirm',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  confirmBankStatementLineValidation,
+  financeController.confirmBankStatementLine
+);
+
+/**
+ * POST /api/finance/bank-statements/lines/:lineId/ignore
+ * Mark a credit as not an invoice payment.
+ */
+router.post(
+  '/bank-statements/lines/:lineId/ignore',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  bankStatementLineValidation,
+  financeController.ignoreBankStatementLine
+);
+
+/**
+ * GET /api/finance/fx-rates
+ * The tenant base currency and its stored rates. Query: currency?
+ */
+router.get('/fx-rates', listFxRatesValidation, financeController.listFxRates);
+
+/**
+ * POST /api/finance/fx-rates
+ * Enter rates by hand. Body: { rates: [{ currency, rate, effective_date }] }
+ * — 1 currency = rate base currency; same currency + date replaces.
+ */
+router.post(
+  '/fx-rates',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  saveFxRatesValidation,
+  financeController.saveFxRates
+);
+
+/**
+ * POST /api/finance/fx-rates/import (multipart: file)
+ * CSV with currency, rate, effective_date (and optionally base_currency).
+ */
+router.post(
+  '/fx-rates/import',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  rateFileUpload,
+  financeController.importFxRates
+);
+
+/**
+ * PUT /api/finance/fx-rates/base-currency
+ * Currency finance reports are consolidated in. Body: { base_currency }
+ */
+router.put(
+  '/fx-rates/base-currency',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  setBaseCurrencyValidation,
+  financeController.setBaseCurrency
+);
+
+/**
+ * DELETE /api/finance/fx-rates/:rateId
+ * Invoices and receipts already stamped with the rate keep it.
+ */
+router.delete(
+  '/fx-rates/:rateId',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  fxRateValidation,
+  financeController.deleteFxRate
+);
+
+/**
+ * GET /api/finance/exports/settings
+ * Ledger mapping accounting exports post to (defaults where unset).
+ */
+router.get('/exports/settings', financeController.getExportSettings);
+
+/**
+ * PUT /api/finance/exports/settings
+ * Body: { ledger_mapping } — keys given replace the saved ones.
+ */
+router.put(
+  '/exports/settings',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  saveExportSettingsValidation,
+  financeController.saveExportSettings
+);
+
+/**
+ * GET /api/finance/exports
+ * Export history (without the files).
+ */
+router.get('/exports', financeController.listAccountingExports);
+
+/**
+ * POST /api/finance/exports
+ * Tally XML or journal CSV of sales, receipts and credit notes in a date
+ * range. Each record is exported once per format; dry_run previews without
+ * marking anything exported.
+ */
+router.post(
+  '/exports',
+  requirePermission(Permission.INVOICES_WRITE),
+  financeActionRateLimit,
+  createAccountingExportValidation,
+  financeController.createAccountingExport
+);
+
+/**
+ * GET /api/finance/exports/:exportId/download
+ * The file of an earlier export, unchanged.
+ */
+router.get(
+  '/exports/:exportId/download',
+  financeActionRateLimit,
+  accountingExportValidation,
+  financeController.downloadAccountingExport
+);
+
 /**
  * GET /api/finance/health
  */
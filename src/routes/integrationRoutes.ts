@@ -1,5 +1,6 @@
 import express from 'express';
 import multer from 'multer';
+import { scanUploads } from '../middleware/fileUpload';
 import * as integrationController from '../controllers/integrationController';
 import { createIntegrationValidation, testConnectionValidation, toggleStatusValidation } from '../validators/integrationValidators';
 
@@ -34,6 +35,6 @@ router.put('/integrations/status/:id', toggleStatusValidation, integrationContro
 router.delete('/integrations/:id', integrationController.deleteIntegration);
 
 // Upload a QR code image for a config-only integration (e.g. offline_upi)
-router.post('/integrations/upload-qr', upload.single('qr_image'), integrationController.uploadQrImage);
+router.post('/integrations/upload-qr', upload.single('qr_image'), scanUploads, integrationController.uploadQrImage);
 
 export default router;
\ No newline at end of file
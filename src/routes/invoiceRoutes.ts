@@ -4,23 +4,39 @@
 // Standalone (non-contract-scoped) invoice operations. Contract-linked
 // invoice/payment routes remain under /api/contracts/:id/invoices/* — see
 // contractRoutes.ts. Authenticated; tenant/environment read from headers.
+// Writes need invoices.write; anything that reverses an invoice (credit
+// notes, their refunds and cancellations) needs invoices.cancel.
 // ============================================================================
 
 import express from 'express';
 import invoiceController from '../controllers/invoiceController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { Permission } from '../constants/permissions';
 
 const router = express.Router();
 
 router.use(authenticate);
 
 // POST /api/invoices/adhoc → create a contact-less invoice, settled at creation
-router.post('/adhoc', invoiceController.createAdhocInvoice);
+router.post('/adhoc', requirePermission(Permission.INVOICES_WRITE), invoiceController.createAdhocInvoice);
 // GET /api/invoices/:id — the document behind an invoice, contract-optional
 router.get('/:id', invoiceController.getInvoice);
 // POST /api/invoices/:id/send { channel } → queue one payment request.
 // Gated by the tenant's notif_payment_request automation rule; carries a
 // Razorpay link or the tenant's UPI/QR depending on what they have configured.
-router.post('/:id/send', invoiceController.sendInvoice);
+router.post('/:id/send', requirePermission(Permission.INVOICES_WRITE), invoiceController.sendInvoice);
+// GST e-invoice (INV-01 JSON): generate + validate, download for the IRP
+// portal, then store the IRN/ack from the portal's response
+router.get('/:id/e-invoice', invoiceController.getEInvoice);
+router.post('/:id/e-invoice', requirePermission(Permission.INVOICES_WRITE), invoiceController.generateEInvoice);
+router.get('/:id/e-invoice/download', invoiceController.downloadEInvoice);
+router.post('/:id/e-invoice/irn', requirePermission(Permission.INVOICES_WRITE), invoiceController.recordEInvoiceIrn);
+// Credit notes: numbered from the CREDIT_NOTE sequence, partial or full, tax
+// reversed pro rata; optional refund recorded manually or through the gateway
+router.get('/:id/credit-notes', invoiceController.listCreditNotes);
+router.post('/:id/credit-notes', requirePermission(Permission.INVOICES_CANCEL), invoiceController.createCreditNote);
+router.get('/:id/credit-notes/:creditNoteId', invoiceController.getCreditNote);
+router.post('/:id/credit-notes/:creditNoteId/refund', requirePermission(Permission.INVOICES_CANCEL), invoiceController.retryCreditNoteRefund);
+router.post('/:id/credit-notes/:creditNoteId/cancel', requirePermission(Permission.INVOICES_CANCEL), invoiceController.cancelCreditNote);
 
 export default router;
@@ -39,6 +39,9 @@ router.post('/verify-payment', controller.verifyPayment);
 // Get payment requests & events for an invoice or contract
 router.post('/status', controller.getPaymentStatus);
 
+// Webhook URL + secret for the tenant's Razorpay dashboard (receiver: paymentWebhookRoutes)
+router.get('/webhook-config', controller.getWebhookConfig);
+
 // Offline-UPI declarations from the CNAK public payment flow — tenant reviews & confirms
 router.get('/declarations', controller.listDeclarations);
 router.post('/declarations/:id/confirm', controller.confirmDeclaration);
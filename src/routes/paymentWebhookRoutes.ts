@@ -0,0 +1,21 @@
+// src/routes/paymentWebhookRoutes.ts
+// Payment gateway webhooks — called by the gateway, not by our users.
+// No JWT / x-tenant-id: each request is authenticated by its signature,
+// which covers the raw body, so these routes are mounted BEFORE the global
+// JSON body parser (see index.ts) and read the body as a Buffer.
+
+import express, { Router } from 'express';
+import PaymentGatewayController from '../controllers/paymentGatewayController';
+
+const router = Router();
+const controller = new PaymentGatewayController();
+
+// Razorpay events: payment.captured, payment.failed, refund.processed, payment_link.paid
+// ?tenant_id=<uuid> selects the tenant's webhook secret (GET /api/payments/webhook-config)
+router.post(
+  '/razorpay',
+  express.raw({ type: '*/*', limit: '1mb' }),
+  controller.handleRazorpayWebhook
+);
+
+export default router;
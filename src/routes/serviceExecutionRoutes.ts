@@ -18,7 +18,12 @@ import {
   listTicketEvidenceValidation,
   createEvidenceValidation,
   updateEvidenceValidation,
-  getAuditLogValidation
+  getAuditLogValidation,
+  listSlaPoliciesValidation,
+  createSlaPolicyValidation,
+  updateSlaPolicyValidation,
+  slaPolicyIdValidation,
+  getSlaComplianceValidation
 } from '../validators/serviceExecutionValidators';
 
 const router = express.Router();
@@ -65,6 +70,18 @@ router.use(readRateLimit);
 
 router.get('/audit', getAuditLogValidation, controller.getAuditLog);
 
+// =================================================================
+// SLA (before /:ticketId) — policies, compliance, breach sweep
+// =================================================================
+
+router.get('/sla/policies', listSlaPoliciesValidation, controller.listSlaPolicies);
+router.post('/sla/policies', writeRateLimit, createSlaPolicyValidation, controller.createSlaPolicy);
+router.patch('/sla/policies/:policyId', writeRateLimit, updateSlaPolicyValidation, controller.updateSlaPolicy);
+router.delete('/sla/policies/:policyId', writeRateLimit, slaPolicyIdValidation, controller.deactivateSlaPolicy);
+router.get('/sla/compliance', getSlaComplianceValidation, controller.getSlaCompliance);
+// Runs the breach sweep now for this tenant (the background job runs every 5 min)
+router.post('/sla/sweep', writeRateLimit, controller.runSlaSweep);
+
 // =================================================================
 // EVIDENCE (contract-wide, before /:ticketId)
 // =================================================================
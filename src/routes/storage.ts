@@ -2,6 +2,9 @@
 import express from 'express';
 import multer from 'multer';
 import * as storageController from '../controllers/storageController';
+import { authenticate } from '../middleware/auth';
+import { validateStorageSetup, validateStorageQuota, scanUploads } from '../middleware/fileUpload';
+import { UPLOAD_PART_SIZE } from '../services/storageUploadService';
 
 const router = express.Router();
 
@@ -61,13 +64,82 @@ const router = express.Router();
  *           type: string
  *         download_url:
  *           type: string
+ *           description: Empty while the file is quarantined
+ *         scan_status:
+ *           type: string
+ *           enum: [clean, unscanned, quarantined]
+ *           description: >
+ *             Upload scan verdict. Quarantined files (antivirus unreachable at
+ *             upload) are not served until rescanned.
+ *         metadata:
+ *           type: object
+ *           description: >
+ *             Client metadata. For contact photos, contract media and service
+ *             images it also holds `derivatives` — thumbnails (small 160px,
+ *             medium 480px), a first-page preview for PDFs and whether EXIF
+ *             location data was removed. `scan` is the upload scan verdict.
+ *           properties:
+ *             scan:
+ *               $ref: '#/components/schemas/StorageScanVerdict'
+ *             derivatives:
+ *               type: object
+ *               properties:
+ *                 generated_at:
+ *                   type: string
+ *                   format: date-time
+ *                 location_removed:
+ *                   type: boolean
+ *                 thumbnails:
+ *                   type: object
+ *                   additionalProperties:
+ *                     $ref: '#/components/schemas/StorageDerivative'
+ *                 preview:
+ *                   $ref: '#/components/schemas/StorageDerivative'
+ *                 skipped:
+ *                   type: string
  *         created_at:
  *           type: string
  *           format: date-time
  *         updated_at:
  *           type: string
  *           format: date-time
- *     
+ *
+ *     StorageDerivative:
+ *       type: object
+ *       properties:
+ *         path:
+ *           type: string
+ *         url:
+ *           type: string
+ *         width:
+ *           type: number
+ *         height:
+ *           type: number
+ *         size:
+ *           type: number
+ *
+ *     StorageScanVerdict:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [clean, unscanned, quarantined, rejected]
+ *         reason:
+ *           type: string
+ *           enum: [type_mismatch, executable, active_content, infected, scanner_unavailable, no_scanner, too_large]
+ *         declared_mime:
+ *           type: string
+ *         detected_mime:
+ *           type: string
+ *           nullable: true
+ *         scanner:
+ *           type: string
+ *         signature:
+ *           type: string
+ *         scanned_at:
+ *           type: string
+ *           format: date-time
+ *
  *     StorageCategory:
  *       type: object
  *       properties:
@@ -229,6 +301,44 @@ router.post('/setup',
  */
 router.get('/categories', storageController.getStorageCategories);
 
+/**
+ * @swagger
+ * /api/storage/objects/{path}:
+ *   get:
+ *     summary: Download a file stored on local disk or in a private bucket
+ *     description: >
+ *       The download_url of files kept by the local or private S3 storage
+ *       drivers. No bearer token — the URL signature is the authorization.
+ *     tags: [Storage]
+ *     parameters:
+ *       - in: path
+ *         name: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: product
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenant
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File content
+ *       404:
+ *         description: Unknown file or invalid signature
+ */
+router.get('/objects/*', storageController.getObject);
+
 /**
  * @swagger
  * /api/storage/files:
@@ -318,6 +428,12 @@ router.get('/files', storageController.listFiles);
  *         description: Unauthorized
  *       413:
  *         description: File too large
+ *       415:
+ *         description: Content does not match the declared type (FILE_TYPE_MISMATCH) or SVG with script (FILE_ACTIVE_CONTENT)
+ *       422:
+ *         description: Executable (FILE_EXECUTABLE) or malware (MALWARE_DETECTED)
+ *       503:
+ *         description: Antivirus unreachable and STORAGE_SCAN_FAIL_MODE=reject (SCANNER_UNAVAILABLE)
  */
 router.post('/files',
   (req, res, next) => {
@@ -338,6 +454,7 @@ router.post('/files',
     console.log('Body:', req.body);
     next();
   },
+  scanUploads,
   storageController.uploadFile
 );
 
@@ -418,6 +535,7 @@ router.post('/files/multiple',
     console.log('Body:', req.body);
     next();
   },
+  scanUploads,
   storageController.uploadMultipleFiles
 );
 
@@ -448,6 +566,40 @@ router.post('/files/multiple',
  */
 router.delete('/files/:fileId', storageController.deleteFile);
 
+/**
+ * @swagger
+ * /api/storage/files/{fileId}/rescan:
+ *   post:
+ *     summary: Scan a quarantined file again
+ *     description: >
+ *       Clean files are moved out of quarantine and served again; files
+ *       flagged as malware are deleted.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Verdict, the released file or deleted=true
+ *       404:
+ *         description: File not found
+ *       409:
+ *         description: File is not quarantined
+ *       503:
+ *         description: Antivirus still unavailable (SCANNER_UNAVAILABLE)
+ */
+router.post('/files/:fileId/rescan', authenticate, storageController.rescanFile);
+
 /**
  * @swagger
  * /api/storage/files/delete-batch:
@@ -485,6 +637,114 @@ router.post('/files/delete-batch',
 );
 
 // Admin routes...
+/**
+ * @swagger
+ * /api/storage/uploads:
+ *   post:
+ *     summary: Request an upload slot for a large file (direct / resumable upload)
+ *     description: >
+ *       Checks the quota (pending slots count as used) and reserves the size.
+ *       Send each part's bytes with a PUT to its url (no Authorization header),
+ *       then POST /api/storage/uploads/{uploadId}/complete. `mode: direct`
+ *       parts go straight to the bucket; `chunked` parts go through the API.
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [file_name, file_size, mime_type, category]
+ *             properties:
+ *               file_name:
+ *                 type: string
+ *               file_size:
+ *                 type: integer
+ *                 description: Bytes
+ *               mime_type:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Upload slot with part URLs
+ *       400:
+ *         description: Invalid request, storage not set up or quota exceeded
+ */
+router.post('/uploads',
+  express.json({ limit: '100kb' }),
+  authenticate,
+  validateStorageSetup,
+  validateStorageQuota,
+  storageController.createUpload
+);
+
+/**
+ * @swagger
+ * /api/storage/uploads/{uploadId}:
+ *   get:
+ *     summary: Upload slot state — received parts and URLs for the missing ones
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *   delete:
+ *     summary: Abort an upload and release its quota reservation
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get('/uploads/:uploadId', authenticate, storageController.getUpload);
+router.delete('/uploads/:uploadId', authenticate, storageController.abortUpload);
+
+/**
+ * @swagger
+ * /api/storage/uploads/{uploadId}/parts/{partNumber}:
+ *   put:
+ *     summary: Send one part of a chunked upload (signed URL from the upload slot)
+ *     tags: [Storage]
+ *     requestBody:
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Part received
+ *       403:
+ *         description: Invalid signature
+ */
+router.put('/uploads/:uploadId/parts/:partNumber',
+  express.raw({ type: () => true, limit: UPLOAD_PART_SIZE }),
+  storageController.uploadPart
+);
+
+/**
+ * @swagger
+ * /api/storage/uploads/{uploadId}/complete:
+ *   post:
+ *     summary: Confirm an upload — assemble it in storage and record the file
+ *     tags: [Storage]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Upload completed; `file` is the stored file record
+ *       400:
+ *         description: Parts missing (details.missing_parts)
+ */
+router.post('/uploads/:uploadId/complete', authenticate, storageController.completeUpload);
+
 /**
  * @swagger
  * /api/storage/firebase/status:
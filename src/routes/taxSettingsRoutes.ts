@@ -10,7 +10,8 @@ import {
   updateTaxRate,
   deleteTaxRate,
   getTaxRates,
-  activateTaxRate
+  activateTaxRate,
+  calculateTax
 } from '../controllers/taxSettingsController';
 import {
   taxSettingsValidation,
@@ -18,7 +19,8 @@ import {
   updateTaxRateValidation,
   deleteTaxRateValidation,
   getTaxRatesValidation,
-  getValidation
+  getValidation,
+  calculateTaxValidation
 } from '../validators/taxSettingsValidators';
 
 const router = express.Router();
@@ -415,6 +417,77 @@ router.delete('/rates/:id', deleteTaxRateValidation, validateRequest, deleteTaxR
  */
 router.post('/rates/:id/activate', getValidation, validateRequest, activateTaxRate);
 
+/**
+ * @swagger
+ * /api/tax-settings/calculate:
+ *   post:
+ *     summary: Calculate tax with the tenant's rates and the GST CGST/SGST/IGST split
+ *     tags: [Tax Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tenant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [amount]
+ *                   properties:
+ *                     amount:
+ *                       type: number
+ *                     tax_rate_id:
+ *                       type: string
+ *                       format: uuid
+ *                     tax_rate:
+ *                       type: number
+ *                     description:
+ *                       type: string
+ *               tax_rate_id:
+ *                 type: string
+ *                 format: uuid
+ *               tax_rate:
+ *                 type: number
+ *               use_default_rate:
+ *                 type: boolean
+ *               display_mode:
+ *                 type: string
+ *                 enum: [including_tax, excluding_tax, no_tax]
+ *               buyer_contact_id:
+ *                 type: string
+ *                 format: uuid
+ *               buyer_state_code:
+ *                 type: string
+ *                 description: GST code ('29'), ISO code ('KA' / 'IN-KA') or state name
+ *               buyer_country_code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Base, tax and total amounts with GST components per line and in total
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Tax rate not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/calculate', calculateTaxValidation, validateRequest, calculateTax);
+
 /**
  * @swagger
  * components:
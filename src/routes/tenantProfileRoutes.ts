@@ -3,6 +3,7 @@ import express from 'express';
 import multer from 'multer';
 import * as tenantProfileController from '../controllers/tenantProfileController';
 import { createTenantProfileValidation, updateTenantProfileValidation } from '../validators/tenantProfile';
+import { scanUploads } from '../middleware/fileUpload';
 
 const router = express.Router();
 
@@ -34,7 +35,7 @@ router.post('/tenant-profile', createTenantProfileValidation, tenantProfileContr
 router.put('/tenant-profile', updateTenantProfileValidation, tenantProfileController.updateTenantProfile);
 
 // Upload logo for tenant profile
-router.post('/tenant-profile/logo', upload.single('logo'), tenantProfileController.uploadLogo);
+router.post('/tenant-profile/logo', upload.single('logo'), scanUploads, tenantProfileController.uploadLogo);
 
 // =========================================================================
 // Served Industries Routes
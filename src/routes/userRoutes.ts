@@ -1,12 +1,14 @@
 // src/routes/userRoutes.ts
 import express from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { validateRequest } from '../middleware/validateRequest';
 import { 
   updateUserValidation,
   assignRoleValidation,
+  rolePermissionsValidation,
   updateProfileValidation 
 } from '../validators/user';
+import { Permission } from '../constants/permissions';
 import * as userController from '../controllers/userController';
 
 const router = express.Router();
@@ -76,6 +78,166 @@ router.patch(
   userController.updateCurrentUserProfile
 );
 
+/**
+ * @swagger
+ * /api/users/me/permissions:
+ *   get:
+ *     summary: Get the current user's roles and permissions in the tenant
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Membership, roles and resolved permissions
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/me/permissions',
+  authenticate,
+  userController.getMyPermissions
+);
+
+// Role → permission mappings (tenant-specific). Declared above /:id so
+// "permissions" and "roles" are never read as a user id.
+
+/**
+ * @swagger
+ * /api/users/permissions:
+ *   get:
+ *     summary: List the permission catalogue
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permission names and descriptions
+ */
+router.get(
+  '/permissions',
+  authenticate,
+  userController.listPermissions
+);
+
+/**
+ * @swagger
+ * /api/users/roles/{roleId}/permissions:
+ *   get:
+ *     summary: Get a role's permissions in the tenant
+ *     description: source is 'tenant' (the tenant's own mapping), 'default' (Owner / Admin) or 'member' (the fallback for unmapped roles)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role permissions
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Role not found
+ *   put:
+ *     summary: Replace a role's permissions in the tenant
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: invoices.cancel
+ *     responses:
+ *       200:
+ *         description: Role permissions after the change
+ *       400:
+ *         description: Empty list or unknown permissions
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Role not found
+ *   delete:
+ *     summary: Reset a role to its default permissions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role permissions after the reset
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Role not found
+ */
+router.get(
+  '/roles/:roleId/permissions',
+  authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
+  userController.getRolePermissions
+);
+
+router.put(
+  '/roles/:roleId/permissions',
+  authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
+  rolePermissionsValidation,
+  validateRequest,
+  userController.setRolePermissions
+);
+
+router.delete(
+  '/roles/:roleId/permissions',
+  authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
+  userController.resetRolePermissions
+);
+
 // Tenant-specific user routes
 
 /**
@@ -358,6 +520,41 @@ router.get(
   userController.getUserActivity
 );
 
+/**
+ * @swagger
+ * /api/users/{id}/roles:
+ *   get:
+ *     summary: List the roles a user holds in the tenant
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: x-tenant-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User roles
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User is not a member of the tenant
+ */
+router.get(
+  '/:id/roles',
+  authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
+  userController.getUserRoles
+);
+
 /**
  * @swagger
  * /api/users/{id}/roles:
@@ -402,6 +599,7 @@ router.get(
 router.post(
   '/:id/roles',
   authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
   assignRoleValidation,
   validateRequest,
   userController.assignUserRole
@@ -444,6 +642,7 @@ router.post(
 router.delete(
   '/:id/roles/:roleId',
   authenticate,
+  requirePermission(Permission.USERS_MANAGE_ROLES),
   userController.removeUserRole
 );
 
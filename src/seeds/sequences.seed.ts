@@ -132,6 +132,22 @@ export const SEQUENCE_SEED_DATA: SeedItem[] = [
     icon_name: 'Ticket',
     is_deletable: true,
     sequence_order: 8
+  },
+  {
+    code: 'CREDIT_NOTE',
+    name: 'Credit Note Number',
+    description: 'Auto-generated number for credit notes against invoices',
+    prefix: 'CRN',
+    separator: '-',
+    suffix: '',
+    padding_length: 5,
+    start_value: 10001,
+    reset_frequency: 'YEARLY',
+    increment_by: 1,
+    hexcolor: '#F43F5E',  // Rose
+    icon_name: 'FileMinus',
+    is_deletable: false,
+    sequence_order: 9
   }
 ];
 
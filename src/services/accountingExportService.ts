@@ -0,0 +1,551 @@
+// ============================================================================
+// Accounting Export Service — Tally XML / journal CSV of the books
+// ============================================================================
+// Tables: t_accounting_export_settings / t_accounting_exports /
+// t_accounting_export_items (src/migrations/018).
+//
+// Vouchers for a date range (tenant time zone):
+//   sales        invoices (unpaid / partially paid / overdue / paid) dated in
+//                range; GST split from the invoice's tax_breakdown, else in
+//                the month's component proportions from the finance tax
+//                summary (financeService.getTaxSummary), else one tax ledger
+//   receipt      receipts dated in range, read per invoice from
+//                get_invoice_detail (invoiceService); cancelled ones skipped
+//   credit_note  issued credit notes (t_invoice_credit_notes)
+// Invoices are read from t_invoices rather than the receivables view: that
+// view is the open worklist and leaves out invoices already paid.
+//
+// Exported once: every record in a file is claimed in
+// t_accounting_export_items (unique per tenant, environment, format and
+// record) before the file is rendered; records another export claimed first
+// are left out. dry_run renders without claiming. Records in a currency
+// other than the mapping's base currency are skipped and listed.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import FinanceService from './financeService';
+import invoiceService, { OPEN_INVOICE_STATUSES } from './invoiceService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import {
+  VoucherTaxComponent,
+  creditNoteVoucher,
+  isBalanced,
+  receiptVoucher,
+  renderJournalCsv,
+  renderTallyXml,
+  resolveLedgerMapping,
+  salesVoucher
+} from '../utils/accountingExport';
+import {
+  ACCOUNTING_VOUCHER_KINDS,
+  AccountingExport,
+  AccountingVoucher,
+  AccountingVoucherKind,
+  CreateAccountingExportRequest,
+  LedgerMapping
+} from '../types/financeTypes';
+
+export interface AccountingExportResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface AccountingExportCaller {
+  tenantId: string;
+  isLive: boolean;
+  userId: string | null;
+  userJWT: string;
+}
+
+export interface AccountingExportFile {
+  export: AccountingExport | null;      // null for a dry run
+  file_name: string;
+  content_type: string;
+  content: string;
+  already_exported: number;
+}
+
+type Skipped = AccountingExport['skipped'][number];
+
+const PAGE_SIZE = 1000;
+const MAX_INVOICES = 20000;
+// Invoices read one by one for their receipts in one export
+const MAX_RECEIPT_INVOICES = 1000;
+// Longest range one export may cover
+const MAX_RANGE_DAYS = 366;
+const SALES_STATUSES = [...OPEN_INVOICE_STATUSES, 'paid'];
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+const num = (v: unknown): number => Number(v) || 0;
+
+const CONTENT_TYPES = {
+  tally_xml: 'application/xml',
+  journal_csv: 'text/csv'
+} as const;
+
+function localDay(value: string | null | undefined, timeZone: string): string | null {
+  if (!value) return null;
+  // Plain dates are already local
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+class AccountingExportService {
+  private finance: FinanceService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private financeService(): FinanceService {
+    if (!this.finance) this.finance = new FinanceService();
+    return this.finance;
+  }
+
+  private fail(code: string, message: string): AccountingExportResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ─── Ledger mapping ───
+
+  async getSettings(tenantId: string): Promise<AccountingExportResult<{ ledger_mapping: LedgerMapping; updated_at: string | null }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_accounting_export_settings')
+      .select('ledger_mapping, updated_at')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return {
+      success: true,
+      data: { ledger_mapping: resolveLedgerMapping(data?.ledger_mapping), updated_at: data?.updated_at ?? null }
+    };
+  }
+
+  /** Merge the given keys over the saved mapping and store the result */
+  async saveSettings(
+    tenantId: string,
+    mapping: Partial<LedgerMapping>,
+    userId: string | null
+  ): Promise<AccountingExportResult<{ ledger_mapping: LedgerMapping; updated_at: string | null }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const current = await this.getSettings(tenantId);
+    if (!current.success) return this.fail(current.error!.code, current.error!.message);
+    const merged = resolveLedgerMapping({
+      ...current.data!.ledger_mapping,
+      ...mapping,
+      payment_method_ledgers: { ...current.data!.ledger_mapping.payment_method_ledgers, ...(mapping.payment_method_ledgers || {}) },
+      tax_ledgers: { ...current.data!.ledger_mapping.tax_ledgers, ...(mapping.tax_ledgers || {}) },
+      voucher_types: { ...current.data!.ledger_mapping.voucher_types, ...(mapping.voucher_types || {}) }
+    });
+
+    const { data, error } = await supabase
+      .from('t_accounting_export_settings')
+      .upsert({ tenant_id: tenantId, ledger_mapping: merged, updated_by: userId, updated_at: new Date().toISOString() },
+        { onConflict: 'tenant_id' })
+      .select('ledger_mapping, updated_at')
+      .single();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: { ledger_mapping: resolveLedgerMapping(data.ledger_mapping), updated_at: data.updated_at } };
+  }
+
+  // ─── Export ───
+
+  async createExport(
+    caller: AccountingExportCaller,
+    request: CreateAccountingExportRequest
+  ): Promise<AccountingExportResult<AccountingExportFile>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const from = request.from.slice(0, 10);
+    const to = request.to.slice(0, 10);
+    if (from > to) return this.fail('VALIDATION_ERROR', 'from must not be after to');
+    if ((Date.parse(to) - Date.parse(from)) / 86400000 > MAX_RANGE_DAYS) {
+      return this.fail('VALIDATION_ERROR', `An export may cover at most ${MAX_RANGE_DAYS} days`);
+    }
+    const kinds = (request.vouchers && request.vouchers.length > 0 ? request.vouchers : [...ACCOUNTING_VOUCHER_KINDS])
+      .filter((k, i, all) => all.indexOf(k) === i);
+
+    const settings = await this.getSettings(caller.tenantId);
+    if (!settings.success) return this.fail(settings.error!.code, settings.error!.message);
+    const mapping = settings.data!.ledger_mapping;
+    const timeZone = await tenantTimeZoneService.getTimeZone(caller.tenantId);
+
+    const built = await this.buildVouchers(supabase, caller, mapping, timeZone, from, to, kinds);
+    if (!built.success) return this.fail(built.error!.code, built.error!.message);
+    const { vouchers, skipped } = built.data!;
+
+    const fileName = `${request.format === 'tally_xml' ? 'tally-vouchers' : 'journal'}-${from}-to-${to}.${request.format === 'tally_xml' ? 'xml' : 'csv'}`;
+    const render = (list: AccountingVoucher[]) => request.format === 'tally_xml'
+      ? renderTallyXml(list, mapping.company_name)
+      : renderJournalCsv(list);
+
+    if (request.dry_run) {
+      return {
+        success: true,
+        data: { export: null, file_name: fileName, content_type: CONTENT_TYPES[request.format], content: render(vouchers), already_exported: 0 }
+      };
+    }
+    if (vouchers.length === 0) {
+      return this.fail('NOTHING_TO_EXPORT', 'No vouchers in this date range');
+    }
+
+    const { data: exportRow, error: exportError } = await supabase
+      .from('t_accounting_exports')
+      .insert({
+        tenant_id: caller.tenantId,
+        is_live: caller.isLive,
+        format: request.format,
+        period_from: from,
+        period_to: to,
+        voucher_kinds: kinds,
+        skipped: skipped.slice(0, 500),
+        file_name: fileName,
+        created_by: caller.userId
+      })
+      .select('*')
+      .single();
+    if (exportError || !exportRow) return this.fail('DATABASE_ERROR', exportError?.message || 'Could not start the export');
+
+    // Claim: only the records no earlier export of this format carried
+    const claimed = new Set<string>();
+    for (let i = 0; i < vouchers.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_accounting_export_items')
+        .upsert(vouchers.slice(i, i + PAGE_SIZE).map((v) => ({
+          export_id: exportRow.id,
+          tenant_id: caller.tenantId,
+          is_live: caller.isLive,
+          format: request.format,
+          record_kind: v.kind,
+          record_id: v.record_id,
+          voucher_number: v.number.slice(0, 60)
+        })), { onConflict: 'tenant_id,is_live,format,record_kind,record_id', ignoreDuplicates: true })
+        .select('record_kind, record_id');
+      if (error) {
+        await supabase.from('t_accounting_exports').delete().eq('id', exportRow.id);
+        return this.fail('DATABASE_ERROR', error.message);
+      }
+      for (const row of data || []) claimed.add(`${row.record_kind}:${row.record_id}`);
+    }
+
+    const fresh = vouchers.filter((v) => claimed.has(`${v.kind}:${v.record_id}`));
+    if (fresh.length === 0) {
+      await supabase.from('t_accounting_exports').delete().eq('id', exportRow.id);
+      return this.fail('NOTHING_TO_EXPORT', `All ${vouchers.length} voucher(s) in this date range were exported before`);
+    }
+
+    const counts: Partial<Record<AccountingVoucherKind, number>> = {};
+    for (const v of fresh) counts[v.kind] = (counts[v.kind] || 0) + 1;
+    const content = render(fresh);
+
+    const { data: saved, error: saveError } = await supabase
+      .from('t_accounting_exports')
+      .update({ counts, content })
+      .eq('id', exportRow.id)
+      .select('id, tenant_id, is_live, format, period_from, period_to, voucher_kinds, counts, skipped, file_name, created_by, created_at')
+      .single();
+    if (saveError || !saved) {
+      // Release the claims so the records can be exported again
+      await supabase.from('t_accounting_exports').delete().eq('id', exportRow.id);
+      return this.fail('DATABASE_ERROR', saveError?.message || 'Could not save the export');
+    }
+
+    return {
+      success: true,
+      data: {
+        export: saved as AccountingExport,
+        file_name: fileName,
+        content_type: CONTENT_TYPES[request.format],
+        content,
+        already_exported: vouchers.length - fresh.length
+      }
+    };
+  }
+
+  async listExports(tenantId: string, isLive: boolean): Promise<AccountingExportResult<AccountingExport[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_accounting_exports')
+      .select('id, tenant_id, is_live, format, period_from, period_to, voucher_kinds, counts, skipped, file_name, created_by, created_at')
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .order('created_at', { ascending: false })
+      .limit(100);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as AccountingExport[] };
+  }
+
+  /** The file of an earlier export, as it was first downloaded */
+  async getExportFile(tenantId: string, exportId: string): Promise<AccountingExportResult<AccountingExportFile>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_accounting_exports')
+      .select('*')
+      .eq('id', exportId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data || !data.content) return this.fail('NOT_FOUND', 'Export not found');
+
+    const { content, ...row } = data;
+    return {
+      success: true,
+      data: {
+        export: row as AccountingExport,
+        file_name: data.file_name,
+        content_type: CONTENT_TYPES[data.format as keyof typeof CONTENT_TYPES] || 'application/octet-stream',
+        content,
+        already_exported: 0
+      }
+    };
+  }
+
+  // ─── Vouchers ───
+
+  private async buildVouchers(
+    supabase: SupabaseClient,
+    caller: AccountingExportCaller,
+    mapping: LedgerMapping,
+    timeZone: string,
+    from: string,
+    to: string,
+    kinds: AccountingVoucherKind[]
+  ): Promise<AccountingExportResult<{ vouchers: AccountingVoucher[]; skipped: Skipped[] }>> {
+    const vouchers: AccountingVoucher[] = [];
+    const skipped: Skipped[] = [];
+    const inRange = (day: string | null) => !!day && day >= from && day <= to;
+    const baseCurrency = mapping.base_currency;
+
+    // Invoices: the sales themselves, the parents of receipts and credit notes
+    const invoices: Record<string, any>[] = [];
+    for (let offset = 0; offset < MAX_INVOICES; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_invoices')
+        .select('*')
+        .eq('tenant_id', caller.tenantId)
+        .eq('is_live', caller.isLive)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      invoices.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    const buyers = await this.buyerNames(supabase, invoices);
+    if (!buyers.success) return this.fail(buyers.error!.code, buyers.error!.message);
+    const buyerOf = (invoice: Record<string, any>) => buyers.data!.get(invoice.id) || null;
+    const invoiceDay = (invoice: Record<string, any>) =>
+      localDay(invoice.invoice_date || invoice.issue_date || invoice.created_at, timeZone);
+    const currencyOf = (row: Record<string, any>) => String(row.currency || 'INR').toUpperCase();
+
+    const push = (voucher: AccountingVoucher) => {
+      if (voucher.currency !== baseCurrency) {
+        skipped.push({ kind: voucher.kind, record_id: voucher.record_id, reason: `Currency ${voucher.currency} is not ${baseCurrency}` });
+      } else if (!isBalanced(voucher)) {
+        skipped.push({ kind: voucher.kind, record_id: voucher.record_id, reason: 'Tax exceeds the amount — voucher would not balance' });
+      } else {
+        vouchers.push(voucher);
+      }
+    };
+
+    if (kinds.includes('sales')) {
+      const sales = invoices.filter((i) => SALES_STATUSES.includes(i.status) && inRange(invoiceDay(i)));
+      const shares = sales.some((i) => !this.storedComponents(i) && num(i.tax_amount ?? i.tax_total) > 0)
+        ? await this.monthlyTaxShares(caller)
+        : new Map<string, Record<string, number>>();
+      for (const invoice of sales) {
+        const day = invoiceDay(invoice)!;
+        push(salesVoucher(mapping, {
+          id: invoice.id,
+          number: invoice.invoice_number || invoice.id,
+          date: day,
+          buyer_name: buyerOf(invoice),
+          currency: currencyOf(invoice),
+          total: num(invoice.total_amount ?? invoice.amount),
+          tax_components: this.invoiceTaxComponents(invoice, shares.get(day.slice(0, 7)))
+        }));
+      }
+    }
+
+    if (kinds.includes('receipt')) {
+      // A receipt dated in range touched its invoice no earlier than `from`
+      const paid = invoices.filter((i) =>
+        num(i.amount_paid ?? i.paid_amount) > 0 && (localDay(i.updated_at || i.created_at, timeZone) || '') >= from);
+      if (paid.length > MAX_RECEIPT_INVOICES) {
+        return this.fail('VALIDATION_ERROR', `Too many invoices with payments in this range (${paid.length}) — export a shorter period`);
+      }
+      for (const invoice of paid) {
+        const detail = await invoiceService.getInvoiceDetail({ tenantId: caller.tenantId, invoiceId: invoice.id, isLive: caller.isLive });
+        if (!detail.success) return this.fail('DATABASE_ERROR', detail.error?.message || 'Could not read invoice receipts');
+        const body = detail.data?.data ?? detail.data ?? {};
+        const receipts: Record<string, any>[] = Array.isArray(body.receipts) ? body.receipts : Array.isArray(body.payments) ? body.payments : [];
+        for (const receipt of receipts) {
+          const cancelled = receipt.is_cancelled === true || !!receipt.cancelled_at || ['cancelled', 'void', 'reversed'].includes(receipt.status);
+          const day = localDay(receipt.payment_date || receipt.receipt_date || receipt.created_at, timeZone);
+          if (cancelled || !inRange(day)) continue;
+          if (!receipt.id) {
+            skipped.push({ kind: 'receipt', record_id: invoice.id, reason: 'Receipt without an id' });
+            continue;
+          }
+          push(receiptVoucher(mapping, {
+            id: receipt.id,
+            number: receipt.receipt_number || receipt.reference_number || String(receipt.id).slice(0, 8),
+            date: day!,
+            invoice_number: invoice.invoice_number || invoice.id,
+            buyer_name: buyerOf(invoice),
+            currency: String(receipt.currency || invoice.currency || 'INR').toUpperCase(),
+            amount: num(receipt.amount),
+            payment_method: receipt.payment_method || null,
+            reference: receipt.reference_number || null
+          }));
+        }
+      }
+    }
+
+    if (kinds.includes('credit_note')) {
+      const { data: notes, error } = await supabase
+        .from('t_invoice_credit_notes')
+        .select('*')
+        .eq('tenant_id', caller.tenantId)
+        .not('credit_note_number', 'is', null)
+        .eq('is_live', caller.isLive)
+        .eq('status', 'issued')
+        .limit(MAX_INVOICES);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      const byId = new Map(invoices.map((i) => [i.id, i]));
+      for (const note of notes || []) {
+        const day = localDay(note.issued_at, timeZone);
+        if (!inRange(day)) continue;
+        const invoice = byId.get(note.invoice_id) || {};
+        push(creditNoteVoucher(mapping, {
+          id: note.id,
+          number: note.credit_note_number,
+          date: day!,
+          invoice_number: invoice.invoice_number || note.invoice_id,
+          buyer_name: invoice.id ? buyerOf(invoice) : null,
+          currency: String(note.currency || invoice.currency || 'INR').toUpperCase(),
+          amount: num(note.amount),
+          tax_components: (note.tax_breakdown?.components || []).map((c: any) => ({ code: c.code, amount: num(c.amount) })),
+          reason: note.reason
+        }));
+      }
+    }
+
+    const order: Record<AccountingVoucherKind, number> = { sales: 0, receipt: 1, credit_note: 2 };
+    vouchers.sort((a, b) => a.date.localeCompare(b.date) || order[a.kind] - order[b.kind] || a.number.localeCompare(b.number));
+    return { success: true, data: { vouchers, skipped } };
+  }
+
+  /** Buyer name per invoice: the contract's buyer, or the ad-hoc invoice's contact */
+  private async buyerNames(
+    supabase: SupabaseClient,
+    invoices: Record<string, any>[]
+  ): Promise<AccountingExportResult<Map<string, string>>> {
+    const names = new Map<string, string>();
+    const contractIds = Array.from(new Set(invoices.map((i) => i.contract_id).filter(Boolean)));
+    const contracts = new Map<string, string>();
+    for (let i = 0; i < contractIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_contracts')
+        .select('id, buyer_name')
+        .in('id', contractIds.slice(i, i + PAGE_SIZE));
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      for (const c of data || []) if (c.buyer_name) contracts.set(c.id, c.buyer_name);
+    }
+    const contactIds = Array.from(new Set(invoices.filter((i) => !i.contract_id && i.contact_id).map((i) => i.contact_id)));
+    const contacts = new Map<string, string>();
+    for (let i = 0; i < contactIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_contacts')
+        .select('id, name, company_name')
+        .in('id', contactIds.slice(i, i + PAGE_SIZE));
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      for (const c of data || []) if (c.company_name || c.name) contacts.set(c.id, c.company_name || c.name);
+    }
+    for (const invoice of invoices) {
+      const name = invoice.contract_id ? contracts.get(invoice.contract_id) : contacts.get(invoice.contact_id);
+      if (name) names.set(invoice.id, name);
+    }
+    return { success: true, data: names };
+  }
+
+  private storedComponents(invoice: Record<string, any>): VoucherTaxComponent[] | null {
+    const components = (invoice.tax_breakdown || invoice.metadata?.tax_breakdown)?.components;
+    return Array.isArray(components) && components.length > 0
+      ? components.map((c: any) => ({ code: String(c.code || 'TAX').toUpperCase(), amount: num(c.amount) }))
+      : null;
+  }
+
+  /**
+   * The invoice tax by GST component: as stored on the invoice, else split
+   * in the month's proportions; the last component takes the rounding.
+   */
+  private invoiceTaxComponents(invoice: Record<string, any>, monthShares?: Record<string, number>): VoucherTaxComponent[] {
+    const tax = round2(num(invoice.tax_amount ?? invoice.tax_total));
+    const stored = this.storedComponents(invoice);
+    if (stored) return stored;
+    if (!(tax > 0)) return [];
+    const codes = Object.keys(monthShares || {});
+    if (codes.length === 0) return [{ code: 'TAX', amount: tax }];
+
+    let allocated = 0;
+    return codes.map((code, i) => {
+      const amount = i === codes.length - 1 ? round2(tax - allocated) : round2(tax * monthShares![code]);
+      allocated = round2(allocated + amount);
+      return { code, amount };
+    });
+  }
+
+  /**
+   * Component shares per month ('YYYY-MM' → { CGST: 0.5, SGST: 0.5 }) from
+   * the finance tax summary. Best-effort: an unreachable or unrecognised
+   * summary leaves unsplit invoices on the single TAX ledger.
+   */
+  private async monthlyTaxShares(caller: AccountingExportCaller): Promise<Map<string, Record<string, number>>> {
+    const shares = new Map<string, Record<string, number>>();
+    try {
+      const result = await this.financeService().getTaxSummary(caller.userJWT, caller.tenantId, caller.isLive ? 'live' : 'test');
+      if (!result.success) return shares;
+      const body = result.data ?? result;
+      const months: any[] = Array.isArray(body) ? body
+        : Array.isArray(body?.months) ? body.months
+        : Array.isArray(body?.records) ? body.records
+        : [];
+      for (const month of months) {
+        const key = String(month.month || month.period || '').slice(0, 7);
+        const raw = month.components ?? month.component_split ?? month.tax_components;
+        const totals: Record<string, number> = {};
+        if (Array.isArray(raw)) {
+          for (const c of raw) totals[String(c.code || c.name || 'TAX').toUpperCase()] = num(c.amount ?? c.tax_amount);
+        } else if (raw && typeof raw === 'object') {
+          for (const [code, amount] of Object.entries(raw)) totals[code.toUpperCase()] = num(amount);
+        }
+        const sum = Object.values(totals).reduce((s, v) => s + v, 0);
+        if (!/^\d{4}-\d{2}$/.test(key) || !(sum > 0)) continue;
+        shares.set(key, Object.fromEntries(Object.entries(totals).filter(([, v]) => v > 0).map(([code, v]) => [code, v / sum])));
+      }
+    } catch (e: any) {
+      console.warn('[AccountingExportService] tax summary unavailable:', e?.message);
+    }
+    return shares;
+  }
+}
+
+export const accountingExportService = new AccountingExportService();
+export default accountingExportService;
@@ -0,0 +1,512 @@
+// ============================================================================
+// Bank Reconciliation Service — statement import and invoice matching
+// ============================================================================
+// Tables: t_bank_statement_imports / t_bank_statement_lines (src/migrations/017).
+//   - import: parse the uploaded statement (utils/bankStatement), keep its
+//     credits, and suggest open invoices for each (amount, invoice/contract
+//     number in the narration, payer name — scored 0-100). A credit already
+//     imported from an earlier, overlapping statement is skipped by its
+//     fingerprint.
+//   - confirm: record the receipt for one line against one invoice through
+//     the contract record-payment edge path (same as the Record Payment
+//     button), then stamp the line 'matched'. The line is claimed first
+//     ('matching') so two people confirming the same credit cannot both
+//     record it; a claim left behind by a crash is taken over after 5 min.
+//   - rematch: recompute suggestions for the open lines (new invoices since).
+// Open invoices come from receivablesAgeingService — the same outstanding
+// figures the receivables screens show.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import ContractService from './contractService';
+import { dunningService } from './dunningService';
+import { fxRateService } from './fxRateService';
+import { receivablesAgeingService } from './receivablesAgeingService';
+import { OPEN_INVOICE_STATUSES, invoiceOutstanding } from './invoiceService';
+import { parseBankStatement, suggestMatches } from '../utils/bankStatement';
+import {
+  BANK_STATEMENT_LINE_STATUSES,
+  BankStatementImport,
+  BankStatementImportResult,
+  BankStatementLine,
+  ConfirmBankLineRequest,
+  MatchCandidate,
+  MatchSuggestion,
+  ParsedStatementLine
+} from '../types/bankStatementTypes';
+
+export interface BankReconciliationResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface BankReconciliationCaller {
+  tenantId: string;
+  isLive: boolean;
+  userId: string | null;
+  userJWT: string;
+}
+
+const PAGE_SIZE = 1000;
+// Upper bound on credits stored from one upload
+const MAX_LINES = 5000;
+// A 'matching' claim older than this is treated as abandoned
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const OPEN_LINE_STATUSES = [BANK_STATEMENT_LINE_STATUSES.UNMATCHED, BANK_STATEMENT_LINE_STATUSES.SUGGESTED];
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+class BankReconciliationService {
+  private contracts: ContractService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private contractService(): ContractService {
+    if (!this.contracts) this.contracts = new ContractService();
+    return this.contracts;
+  }
+
+  private fail(code: string, message: string): BankReconciliationResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ─── Import ───
+
+  async importStatement(
+    caller: BankReconciliationCaller,
+    file: { content: Buffer; fileName: string | null; format?: 'csv' | 'mt940'; currency?: string | null }
+  ): Promise<BankReconciliationResult<BankStatementImportResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    let statement;
+    try {
+      statement = parseBankStatement(file.content.toString('utf8'), file.format);
+    } catch (e: any) {
+      return this.fail('VALIDATION_ERROR', `Could not read the statement: ${e.message}`);
+    }
+
+    const credits = statement.lines.filter((l) => l.direction === 'credit');
+    if (statement.lines.length === 0) {
+      return this.fail('VALIDATION_ERROR', 'The statement has no transactions');
+    }
+    if (credits.length > MAX_LINES) {
+      return this.fail('VALIDATION_ERROR', `A statement may have at most ${MAX_LINES} credits — split the period`);
+    }
+
+    const currency = (file.currency || statement.currency || '').toUpperCase() || null;
+    const dates = statement.lines.map((l) => l.txn_date).sort();
+
+    const candidates = await this.loadCandidates(caller.tenantId, caller.isLive, currency);
+    if (!candidates.success) return this.fail(candidates.error!.code, candidates.error!.message);
+
+    const { data: importRow, error: importError } = await supabase
+      .from('t_bank_statement_imports')
+      .insert({
+        tenant_id: caller.tenantId,
+        is_live: caller.isLive,
+        file_name: file.fileName ? file.fileName.slice(0, 255) : null,
+        format: statement.format,
+        bank: statement.bank,
+        account_number: statement.account_number,
+        currency,
+        period_from: dates[0],
+        period_to: dates[dates.length - 1],
+        credit_count: credits.length,
+        debit_count: statement.lines.length - credits.length,
+        skipped_rows: statement.skipped.slice(0, 100),
+        uploaded_by: caller.userId
+      })
+      .select('*')
+      .single();
+    if (importError || !importRow) {
+      return this.fail('DATABASE_ERROR', importError?.message || 'Could not save the import');
+    }
+
+    // Identical credits in one file (same day, amount and narration, no
+    // balance column) are told apart by their occurrence
+    const seen = new Map<string, number>();
+    const rows = credits.map((line) => {
+      const key = this.lineKey(statement.account_number, line);
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+      const suggestions = suggestMatches(line, candidates.data!, { currency });
+      return {
+        import_id: importRow.id,
+        tenant_id: caller.tenantId,
+        is_live: caller.isLive,
+        fingerprint: crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex'),
+        txn_date: line.txn_date,
+        value_date: line.value_date,
+        description: line.description.slice(0, 1000),
+        reference: line.reference ? line.reference.slice(0, 60) : null,
+        payer_name: line.payer_name ? line.payer_name.slice(0, 150) : null,
+        amount: line.amount,
+        currency,
+        balance: line.balance,
+        ...this.suggestionFields(suggestions)
+      };
+    });
+
+    const stored: BankStatementLine[] = [];
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_bank_statement_lines')
+        .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'tenant_id,is_live,fingerprint', ignoreDuplicates: true })
+        .select('*');
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      stored.push(...((data || []) as BankStatementLine[]));
+    }
+
+    const duplicates = credits.length - stored.length;
+    if (duplicates > 0) {
+      await supabase.from('t_bank_statement_imports').update({ duplicate_count: duplicates }).eq('id', importRow.id);
+    }
+    stored.sort((a, b) => a.txn_date.localeCompare(b.txn_date));
+
+    return {
+      success: true,
+      data: {
+        import: { ...(importRow as BankStatementImport), duplicate_count: duplicates },
+        lines: stored,
+        summary: {
+          credits: credits.length,
+          stored: stored.length,
+          duplicates,
+          suggested: stored.filter((l) => l.status === BANK_STATEMENT_LINE_STATUSES.SUGGESTED).length,
+          high_confidence: stored.filter((l) => l.suggestions[0]?.confidence === 'high').length
+        }
+      }
+    };
+  }
+
+  // ─── Read ───
+
+  /** Latest imports, each with how many of its lines are in each status */
+  async listImports(tenantId: string, isLive: boolean): Promise<BankReconciliationResult> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: imports, error } = await supabase
+      .from('t_bank_statement_imports')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .order('created_at', { ascending: false })
+      .limit(50);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!imports || imports.length === 0) return { success: true, data: [] };
+
+    const { data: lines, error: linesError } = await supabase
+      .from('t_bank_statement_lines')
+      .select('import_id, status')
+      .eq('tenant_id', tenantId)
+      .in('import_id', imports.map((i) => i.id))
+      .limit(50 * MAX_LINES);
+    if (linesError) return this.fail('DATABASE_ERROR', linesError.message);
+
+    const counts = new Map<string, Record<string, number>>();
+    for (const line of lines || []) {
+      const entry = counts.get(line.import_id) || {};
+      entry[line.status] = (entry[line.status] || 0) + 1;
+      counts.set(line.import_id, entry);
+    }
+    return {
+      success: true,
+      data: imports.map((i) => ({ ...i, line_counts: counts.get(i.id) || {} }))
+    };
+  }
+
+  async getImport(
+    tenantId: string,
+    importId: string,
+    status?: string
+  ): Promise<BankReconciliationResult<{ import: BankStatementImport; lines: BankStatementLine[] }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: importRow, error } = await supabase
+      .from('t_bank_statement_imports')
+      .select('*')
+      .eq('id', importId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!importRow) return this.fail('NOT_FOUND', 'Statement import not found');
+
+    let query = supabase
+      .from('t_bank_statement_lines')
+      .select('*')
+      .eq('import_id', importId)
+      .eq('tenant_id', tenantId)
+      .order('txn_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(MAX_LINES);
+    if (status) query = query.eq('status', status);
+    const { data: lines, error: linesError } = await query;
+    if (linesError) return this.fail('DATABASE_ERROR', linesError.message);
+
+    return { success: true, data: { import: importRow as BankStatementImport, lines: (lines || []) as BankStatementLine[] } };
+  }
+
+  // ─── Rematch ───
+
+  /** Recompute suggestions for an import's unmatched / suggested lines */
+  async rematch(tenantId: string, isLive: boolean, importId: string): Promise<BankReconciliationResult<{ updated: number; suggested: number }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const found = await this.getImport(tenantId, importId);
+    if (!found.success) return this.fail(found.error!.code, found.error!.message);
+    const open = found.data!.lines.filter((l) => (OPEN_LINE_STATUSES as string[]).includes(l.status));
+    if (open.length === 0) return { success: true, data: { updated: 0, suggested: 0 } };
+
+    const currency = found.data!.import.currency;
+    const candidates = await this.loadCandidates(tenantId, isLive, currency);
+    if (!candidates.success) return this.fail(candidates.error!.code, candidates.error!.message);
+
+    let suggested = 0;
+    for (const line of open) {
+      const fields = this.suggestionFields(suggestMatches(line, candidates.data!, { currency }));
+      if (fields.status === BANK_STATEMENT_LINE_STATUSES.SUGGESTED) suggested++;
+      // Only lines still open — one confirmed meanwhile keeps its match
+      const { error } = await supabase
+        .from('t_bank_statement_lines')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', line.id)
+        .in('status', OPEN_LINE_STATUSES);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: { updated: open.length, suggested } };
+  }
+
+  // ─── Confirm / ignore ───
+
+  /**
+   * Record the receipt for a statement credit against an invoice. The
+   * invoice need not be one of the suggestions. amount defaults to the
+   * credit, capped at what the invoice still owes.
+   */
+  async confirm(
+    caller: BankReconciliationCaller,
+    lineId: string,
+    request: ConfirmBankLineRequest
+  ): Promise<BankReconciliationResult<BankStatementLine>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const line = await this.loadLine(supabase, caller.tenantId, lineId);
+    if (!line.success) return this.fail(line.error!.code, line.error!.message);
+    const current = line.data!;
+    if (current.status === BANK_STATEMENT_LINE_STATUSES.MATCHED) {
+      return this.fail('CONFLICT', 'This credit is already matched to an invoice');
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', request.invoice_id)
+      .eq('tenant_id', caller.tenantId)
+      .eq('is_live', current.is_live)
+      .maybeSingle();
+    if (invoiceError) return this.fail('DATABASE_ERROR', invoiceError.message);
+    if (!invoice) return this.fail('NOT_FOUND', 'Invoice not found');
+    // Ad-hoc invoices are settled when created; only contract invoices take payments
+    if (!invoice.contract_id) return this.fail('VALIDATION_ERROR', 'Only contract invoices can take a receipt');
+
+    const outstanding = invoiceOutstanding(invoice);
+    if (!OPEN_INVOICE_STATUSES.includes(invoice.status) || outstanding <= 0) {
+      return this.fail('CONFLICT', 'Invoice has nothing outstanding');
+    }
+    const amount = round2(request.amount ?? Math.min(Number(current.amount), outstanding));
+    if (!(amount > 0)) return this.fail('VALIDATION_ERROR', 'amount must be positive');
+    if (amount > Number(current.amount) + 0.005) {
+      return this.fail('VALIDATION_ERROR', `amount exceeds the credit (${current.amount})`);
+    }
+    if (amount > outstanding + 0.005) {
+      return this.fail('VALIDATION_ERROR', `amount exceeds the invoice outstanding (${outstanding})`);
+    }
+
+    // Claim the line; a 'matching' claim abandoned by a crash may be taken over
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('t_bank_statement_lines')
+      .update({
+        status: BANK_STATEMENT_LINE_STATUSES.MATCHING,
+        invoice_id: invoice.id,
+        contract_id: invoice.contract_id,
+        error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', lineId)
+      .eq('tenant_id', caller.tenantId)
+      .or(`status.in.(unmatched,suggested,ignored),and(status.eq.matching,updated_at.lt.${staleBefore})`)
+      .select('id');
+    if (claimError) return this.fail('DATABASE_ERROR', claimError.message);
+    if (!claimed || claimed.length === 0) {
+      return this.fail('CONFLICT', 'This credit is being matched or was matched meanwhile');
+    }
+
+    const result = await this.contractService().recordPayment(
+      invoice.contract_id,
+      {
+        invoice_id: invoice.id,
+        amount,
+        payment_method: 'bank_transfer',
+        payment_date: current.txn_date,
+        reference_number: current.reference,
+        notes: `Bank statement: ${current.description}`.slice(0, 500)
+      },
+      caller.userJWT,
+      caller.tenantId,
+      caller.userId || '',
+      caller.isLive ? 'live' : 'test',
+      `bank:${lineId}:${invoice.id}`
+    );
+
+    if (!result.success) {
+      const message = result.error || 'Recording the receipt failed';
+      await supabase
+        .from('t_bank_statement_lines')
+        .update({
+          status: current.suggestions?.length ? BANK_STATEMENT_LINE_STATUSES.SUGGESTED : BANK_STATEMENT_LINE_STATUSES.UNMATCHED,
+          invoice_id: null,
+          contract_id: null,
+          error: message,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', lineId);
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', message);
+    }
+
+    await dunningService.onPaymentRecorded(caller.tenantId, invoice.id).catch((e) =>
+      console.warn('[BankReconciliationService] dunning stop after payment failed:', e?.message));
+
+    const receipt = result.data || {};
+    const receiptId = receipt.receipt_id || receipt.receipt?.id || receipt.id || null;
+    await fxRateService.onPaymentRecorded({
+      tenantId: caller.tenantId,
+      isLive: caller.isLive,
+      invoiceId: invoice.id,
+      receipt,
+      amount,
+      paymentDate: current.txn_date
+    }).catch((e) => console.warn('[BankReconciliationService] FX stamp after payment failed:', e?.message));
+
+    const { data: matched, error: matchError } = await supabase
+      .from('t_bank_statement_lines')
+      .update({
+        status: BANK_STATEMENT_LINE_STATUSES.MATCHED,
+        receipt_id: receiptId,
+        matched_amount: amount,
+        matched_by: caller.userId,
+        matched_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', lineId)
+      .select('*')
+      .single();
+    if (matchError || !matched) {
+      // The receipt exists; the idempotency key makes a retried confirm a no-op at the edge
+      return this.fail('DATABASE_ERROR', `Receipt recorded but the line was not updated: ${matchError?.message || 'no row'}`);
+    }
+    return { success: true, data: matched as BankStatementLine };
+  }
+
+  /** Not an invoice payment (interest, own transfer…). Confirming it later still works. */
+  async ignore(tenantId: string, lineId: string): Promise<BankReconciliationResult<BankStatementLine>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_bank_statement_lines')
+      .update({ status: BANK_STATEMENT_LINE_STATUSES.IGNORED, updated_at: new Date().toISOString() })
+      .eq('id', lineId)
+      .eq('tenant_id', tenantId)
+      .in('status', OPEN_LINE_STATUSES)
+      .select('*');
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (data && data.length > 0) return { success: true, data: data[0] as BankStatementLine };
+
+    const line = await this.loadLine(supabase, tenantId, lineId);
+    if (!line.success) return this.fail(line.error!.code, line.error!.message);
+    if (line.data!.status === BANK_STATEMENT_LINE_STATUSES.IGNORED) return { success: true, data: line.data };
+    return this.fail('CONFLICT', `A ${line.data!.status} credit cannot be ignored`);
+  }
+
+  // ─── Helpers ───
+
+  private async loadLine(
+    supabase: SupabaseClient,
+    tenantId: string,
+    lineId: string
+  ): Promise<BankReconciliationResult<BankStatementLine>> {
+    const { data, error } = await supabase
+      .from('t_bank_statement_lines')
+      .select('*')
+      .eq('id', lineId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Statement line not found');
+    return { success: true, data: data as BankStatementLine };
+  }
+
+  /** Open contract invoices with what they still owe, from the ageing report */
+  private async loadCandidates(
+    tenantId: string,
+    isLive: boolean,
+    currency: string | null
+  ): Promise<BankReconciliationResult<MatchCandidate[]>> {
+    const ageing = await receivablesAgeingService.getAgeing({ tenantId, isLive, currency: currency || undefined });
+    if (!ageing.success || !ageing.data) {
+      return this.fail(ageing.error?.code || 'DATABASE_ERROR', ageing.error?.message || 'Could not load open invoices');
+    }
+    return {
+      success: true,
+      data: ageing.data.invoices
+        .filter((row) => row.contract_id)
+        .map((row) => ({
+          invoice_id: row.invoice_id,
+          invoice_number: row.invoice_number,
+          contract_id: row.contract_id,
+          contract_number: row.contract_number,
+          buyer_name: row.buyer_name,
+          currency: row.currency,
+          total_amount: row.total_amount,
+          outstanding: row.outstanding,
+          invoice_date: row.invoice_date
+        }))
+    };
+  }
+
+  private suggestionFields(suggestions: MatchSuggestion[]) {
+    return {
+      status: suggestions.length > 0 ? BANK_STATEMENT_LINE_STATUSES.SUGGESTED : BANK_STATEMENT_LINE_STATUSES.UNMATCHED,
+      suggestions,
+      best_score: suggestions[0]?.score ?? null
+    };
+  }
+
+  private lineKey(account: string | null, line: ParsedStatementLine): string {
+    return [
+      account || '',
+      line.txn_date,
+      line.amount.toFixed(2),
+      line.description.toUpperCase(),
+      line.reference || '',
+      line.balance === null ? '' : line.balance.toFixed(2)
+    ].join('|');
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
+export default bankReconciliationService;
@@ -0,0 +1,538 @@
+// ============================================================================
+// Buyer Portal Auth Service — OTP sign-in and portal sessions
+// ============================================================================
+// Tables: t_portal_otp_challenges / t_portal_sessions (src/migrations/020, 021, 028).
+//   - requestOtp: a buyer names the seller tenant and an address on their
+//     contact record — an email, or a phone number for SMS / WhatsApp. A
+//     challenge row is written whether or not the address is on file and the
+//     answer is the same, so the endpoint cannot be used to probe for a
+//     tenant's customers; the code is only sent when it matched.
+//       email → every contact of the tenant carrying the address (duplicate
+//               records of one buyer) is covered.
+//       phone → exactly one contact: the one holding the number as its
+//               primary channel, else the oldest. Shorter session.
+//   - throttling, per normalised address: one code per RESEND_COOLDOWN, a
+//     few per hour per tenant, and a daily cap across all tenants (SMS and
+//     WhatsApp cost money per message). Each code allows max_attempts
+//     guesses; resendOtp retires the previous code.
+//   - verifyOtp: every guess is charged an attempt (record_portal_otp_attempt,
+//     one atomic UPDATE) before the code is compared; the challenge is then
+//     consumed by a conditional update (one session per code) and a session
+//     token is issued. Codes and tokens are
+//     stored as SHA-256 hashes only.
+//   - resolveSession: bearer token → PortalSession for middleware/portalAuth.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { emailService } from './email.service';
+import { smsService } from './sms.service';
+import { whatsappService } from './whatsapp.service';
+import {
+  PORTAL_PHONE_CHANNELS,
+  PortalBuyer,
+  PortalOtpChallenge,
+  PortalOtpChannel,
+  PortalSession,
+  PortalSessionToken
+} from '../types/buyerPortalTypes';
+
+export interface BuyerPortalAuthResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const MINUTE_MS = 60 * 1000;
+const OTP_TTL_MS = 10 * MINUTE_MS;
+const SESSION_TTL_MS: Record<PortalOtpChannel, number> = {
+  email: 24 * 60 * MINUTE_MS,
+  sms: 8 * 60 * MINUTE_MS,
+  whatsapp: 8 * 60 * MINUTE_MS
+};
+const RESEND_COOLDOWN_MS = MINUTE_MS;
+// Codes for one address of one tenant within the window
+const MAX_CHALLENGES_PER_WINDOW = 5;
+const CHALLENGE_WINDOW_MS = 60 * MINUTE_MS;
+// Codes for one address across every tenant in a day
+const MAX_CHALLENGES_PER_DAY = 15;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const isPhoneChannel = (channel: PortalOtpChannel): boolean => PORTAL_PHONE_CHANNELS.includes(channel);
+
+/**
+ * Phone number as digits with the country code ('919000000001'). A number
+ * without '+' or a country code takes countryCode (the contact channel's,
+ * else MSG91_COUNTRY_CODE like smsService). null when it cannot be a number.
+ */
+export function normalisePhone(value: string, countryCode?: string | null): string | null {
+  const raw = String(value || '').trim();
+  const digits = raw.replace(/\D/g, '').replace(/^00/, '');
+  const cc = String(countryCode || process.env.MSG91_COUNTRY_CODE || '91').replace(/\D/g, '');
+  if (digits.length < 6 || digits.length > 15) return null;
+  if (raw.startsWith('+') || raw.startsWith('00')) return digits;
+  if (digits.length > 10 && digits.startsWith(cc)) return digits;
+  return `${cc}${digits.replace(/^0+/, '')}`;
+}
+
+/** r***@example.com / ********0001 — enough for the buyer to recognise, not to harvest */
+export function maskDestination(destination: string): string {
+  const [local, domain] = destination.split('@');
+  if (!domain) return `${'*'.repeat(Math.max(destination.length - 4, 2))}${destination.slice(-4)}`;
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+class BuyerPortalAuthService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail(code: string, message: string): BuyerPortalAuthResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  private codeHash(challengeId: string, code: string): string {
+    return sha256(`${challengeId}:${code}`);
+  }
+
+  // ==========================================================
+  // SIGN-IN
+  // ==========================================================
+
+  async requestOtp(params: {
+    tenantId: string;
+    isLive: boolean;
+    channel: PortalOtpChannel;
+    destination: string;
+    requestIp?: string | null;
+  }): Promise<BuyerPortalAuthResult<PortalOtpChallenge>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    if (params.channel === 'whatsapp' && !process.env.MSG91_WHATSAPP_OTP_TEMPLATE) {
+      return this.fail('CONFIG', 'WhatsApp sign-in is not available');
+    }
+
+    const destination = isPhoneChannel(params.channel)
+      ? normalisePhone(params.destination)
+      : params.destination.trim().toLowerCase();
+    if (!destination) return this.fail('VALIDATION_ERROR', 'destination is not a valid phone number');
+
+    const throttle = await this.checkThrottle(supabase, params.tenantId, destination);
+    if (!throttle.success) return this.fail(throttle.error!.code, throttle.error!.message);
+
+    const contacts = isPhoneChannel(params.channel)
+      ? await this.contactWithPhone(supabase, params.tenantId, params.isLive, destination)
+      : await this.contactsWithEmail(supabase, params.tenantId, params.isLive, destination);
+    if (!contacts.success) return this.fail(contacts.error!.code, contacts.error!.message);
+
+    return this.issue(supabase, {
+      tenantId: params.tenantId,
+      isLive: params.isLive,
+      channel: params.channel,
+      destination,
+      contactIds: contacts.data!,
+      requestIp: params.requestIp || null
+    });
+  }
+
+  /**
+   * A fresh code for the address of an earlier challenge — optionally over
+   * the other phone channel (SMS ↔ WhatsApp). The earlier code stops working.
+   */
+  async resendOtp(params: {
+    challengeId: string;
+    channel?: PortalOtpChannel;
+    requestIp?: string | null;
+  }): Promise<BuyerPortalAuthResult<PortalOtpChallenge>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: previous, error } = await supabase
+      .from('t_portal_otp_challenges')
+      .select('*')
+      .eq('id', params.challengeId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!previous || previous.consumed_at) return this.fail('NOT_FOUND', 'Sign-in request not found — start again');
+
+    const channel: PortalOtpChannel = params.channel || previous.channel;
+    if (isPhoneChannel(channel) !== isPhoneChannel(previous.channel)) {
+      return this.fail('VALIDATION_ERROR', `A code for this address cannot be sent by ${channel}`);
+    }
+    if (channel === 'whatsapp' && !process.env.MSG91_WHATSAPP_OTP_TEMPLATE) {
+      return this.fail('CONFIG', 'WhatsApp sign-in is not available');
+    }
+
+    const throttle = await this.checkThrottle(supabase, previous.tenant_id, previous.destination);
+    if (!throttle.success) return this.fail(throttle.error!.code, throttle.error!.message);
+
+    // Retire the earlier code first so two valid codes never coexist
+    const { error: retireError } = await supabase
+      .from('t_portal_otp_challenges')
+      .update({ expires_at: new Date().toISOString() })
+      .eq('id', previous.id)
+      .is('consumed_at', null);
+    if (retireError) return this.fail('DATABASE_ERROR', retireError.message);
+
+    return this.issue(supabase, {
+      tenantId: previous.tenant_id,
+      isLive: previous.is_live,
+      channel,
+      destination: previous.destination,
+      contactIds: previous.contact_ids || [],
+      requestIp: params.requestIp || null
+    });
+  }
+
+  async verifyOtp(params: { challengeId: string; code: string }): Promise<BuyerPortalAuthResult<PortalSessionToken>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    // Charge the attempt first: concurrent guesses each take one, and a
+    // challenge that is consumed, expired or out of attempts returns no row
+    const { data: charged, error } = await supabase
+      .rpc('record_portal_otp_attempt', { p_challenge_id: params.challengeId });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    // One answer for every dead end, so a caller learns nothing about the address
+    const invalid = this.fail('INVALID_CODE', 'The code is invalid or has expired');
+    const challenge = Array.isArray(charged) ? charged[0] : charged;
+    if (!challenge || challenge.attempts > challenge.max_attempts) return invalid;
+
+    const expected = Buffer.from(challenge.code_hash, 'hex');
+    const given = Buffer.from(this.codeHash(challenge.id, params.code.trim()), 'hex');
+    if (!crypto.timingSafeEqual(expected, given)) return invalid;
+
+    // Claim: the first verify consumes the code, a racing one gets nothing
+    const { data: claimed, error: claimError } = await supabase
+      .from('t_portal_otp_challenges')
+      .update({ consumed_at: new Date().toISOString() })
+      .eq('id', challenge.id)
+      .is('consumed_at', null)
+      .select('id');
+    if (claimError) return this.fail('DATABASE_ERROR', claimError.message);
+    if (!claimed || claimed.length === 0) return invalid;
+
+    const contactIds: string[] = challenge.contact_ids || [];
+    if (contactIds.length === 0) return invalid;
+
+    const channel: PortalOtpChannel = challenge.channel;
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS[channel]).toISOString();
+    const { data: session, error: sessionError } = await supabase
+      .from('t_portal_sessions')
+      .insert({
+        tenant_id: challenge.tenant_id,
+        is_live: challenge.is_live,
+        token_hash: sha256(token),
+        contact_ids: contactIds,
+        channel,
+        destination: challenge.destination,
+        challenge_id: challenge.id,
+        expires_at: expiresAt
+      })
+      .select('id')
+      .single();
+    if (sessionError || !session) return this.fail('DATABASE_ERROR', sessionError?.message || 'Could not start the session');
+
+    const buyer = await this.buyer({
+      session_id: session.id,
+      tenant_id: challenge.tenant_id,
+      is_live: challenge.is_live,
+      contact_ids: contactIds,
+      channel,
+      destination: challenge.destination,
+      expires_at: expiresAt
+    });
+    if (!buyer.success) return this.fail(buyer.error!.code, buyer.error!.message);
+
+    return { success: true, data: { token, expires_at: expiresAt, buyer: buyer.data! } };
+  }
+
+  // ==========================================================
+  // SESSIONS
+  // ==========================================================
+
+  async resolveSession(token: string): Promise<BuyerPortalAuthResult<PortalSession>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_portal_sessions')
+      .select('id, tenant_id, is_live, contact_ids, channel, destination, expires_at, revoked_at')
+      .eq('token_hash', sha256(token))
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+      return this.fail('UNAUTHORIZED', 'Portal session is invalid or has expired');
+    }
+
+    // Bookkeeping only — a failed touch must not sign the buyer out
+    supabase
+      .from('t_portal_sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(({ error: touchError }) => {
+        if (touchError) console.warn('[BuyerPortalAuthService] last_seen_at update failed:', touchError.message);
+      });
+
+    return {
+      success: true,
+      data: {
+        session_id: data.id,
+        tenant_id: data.tenant_id,
+        is_live: data.is_live,
+        contact_ids: data.contact_ids || [],
+        channel: data.channel || 'email',
+        destination: data.destination,
+        expires_at: data.expires_at
+      }
+    };
+  }
+
+  async logout(sessionId: string): Promise<BuyerPortalAuthResult<{ revoked: boolean }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { error } = await supabase
+      .from('t_portal_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: { revoked: true } };
+  }
+
+  /** Who the session is: contact names and the seller */
+  async buyer(session: PortalSession): Promise<BuyerPortalAuthResult<PortalBuyer>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contacts')
+      .select('id, name, company_name')
+      .eq('tenant_id', session.tenant_id)
+      .in('id', session.contact_ids);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const first = (data || [])[0];
+    return {
+      success: true,
+      data: {
+        contact_ids: session.contact_ids,
+        name: first ? (first.company_name || first.name || null) : null,
+        destination: session.destination,
+        seller: { tenant_id: session.tenant_id, name: await this.sellerName(supabase, session.tenant_id) }
+      }
+    };
+  }
+
+  // ==========================================================
+  // HELPERS
+  // ==========================================================
+
+  /**
+   * Write the challenge and, when the address matched a contact, send the
+   * code. A delivery error is logged, not surfaced: it would tell the caller
+   * the address is on file.
+   */
+  private async issue(
+    supabase: SupabaseClient,
+    params: {
+      tenantId: string;
+      isLive: boolean;
+      channel: PortalOtpChannel;
+      destination: string;
+      contactIds: string[];
+      requestIp: string | null;
+    }
+  ): Promise<BuyerPortalAuthResult<PortalOtpChallenge>> {
+    const challengeId = crypto.randomUUID();
+    const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, '0');
+    const now = Date.now();
+    const expiresAt = new Date(now + OTP_TTL_MS).toISOString();
+
+    const { error } = await supabase.from('t_portal_otp_challenges').insert({
+      id: challengeId,
+      tenant_id: params.tenantId,
+      is_live: params.isLive,
+      channel: params.channel,
+      destination: params.destination,
+      contact_ids: params.contactIds,
+      code_hash: this.codeHash(challengeId, code),
+      expires_at: expiresAt,
+      request_ip: params.requestIp
+    });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    if (params.contactIds.length > 0) {
+      const seller = await this.sellerName(supabase, params.tenantId);
+      const sent = await this.deliver(params.channel, params.destination, code, seller);
+      if (!sent.success) console.error(`[BuyerPortalAuthService] OTP ${params.channel} failed:`, sent.message);
+    }
+
+    return {
+      success: true,
+      data: {
+        challenge_id: challengeId,
+        channel: params.channel,
+        destination_hint: maskDestination(params.destination),
+        expires_at: expiresAt,
+        resend_after: new Date(now + RESEND_COOLDOWN_MS).toISOString()
+      }
+    };
+  }
+
+  private deliver(
+    channel: PortalOtpChannel,
+    destination: string,
+    code: string,
+    seller: string | null
+  ): Promise<{ success: boolean; message: string }> {
+    switch (channel) {
+      case 'sms':
+        return smsService.sendOTP({ mobile: destination, otp: code, templateId: process.env.MSG91_OTP_TEMPLATE_ID });
+      case 'whatsapp':
+        return whatsappService.send({
+          mobile: destination,
+          templateName: process.env.MSG91_WHATSAPP_OTP_TEMPLATE!,
+          variables: { otp: code }
+        });
+      default:
+        return emailService.send({
+          to: destination,
+          subject: `Your sign-in code for ${seller || 'the customer portal'}`,
+          body: `<p>Your sign-in code is <strong>${code}</strong>.</p>`
+            + `<p>It expires in ${OTP_TTL_MS / MINUTE_MS} minutes. If you did not ask for it, ignore this email.</p>`
+        });
+    }
+  }
+
+  /** Resend cooldown, per-tenant hourly cap and the all-tenant daily cap for an address */
+  private async checkThrottle(
+    supabase: SupabaseClient,
+    tenantId: string,
+    destination: string
+  ): Promise<BuyerPortalAuthResult<void>> {
+    const now = Date.now();
+    const { data: recent, error } = await supabase
+      .from('t_portal_otp_challenges')
+      .select('tenant_id, created_at')
+      .eq('destination', destination)
+      .gte('created_at', new Date(now - DAY_MS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(MAX_CHALLENGES_PER_DAY);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const rows = recent || [];
+    const forTenant = rows.filter((r: any) => r.tenant_id === tenantId);
+    const last = forTenant[0] ? new Date(forTenant[0].created_at).getTime() : 0;
+    if (now - last < RESEND_COOLDOWN_MS) {
+      const wait = Math.ceil((RESEND_COOLDOWN_MS - (now - last)) / 1000);
+      return this.fail('RATE_LIMITED', `Please wait ${wait}s before asking for another code`);
+    }
+    const inWindow = forTenant.filter((r: any) => now - new Date(r.created_at).getTime() < CHALLENGE_WINDOW_MS);
+    if (inWindow.length >= MAX_CHALLENGES_PER_WINDOW || rows.length >= MAX_CHALLENGES_PER_DAY) {
+      return this.fail('RATE_LIMITED', 'Too many codes requested for this address — try again later');
+    }
+    return { success: true };
+  }
+
+  /** Active contacts of the tenant with this email among their channels */
+  private async contactsWithEmail(
+    supabase: SupabaseClient,
+    tenantId: string,
+    isLive: boolean,
+    destination: string
+  ): Promise<BuyerPortalAuthResult<string[]>> {
+    const { data: channels, error } = await supabase
+      .from('t_contact_channels')
+      .select('contact_id, t_contacts!inner(tenant_id)')
+      .eq('t_contacts.tenant_id', tenantId)
+      .eq('channel_type', 'email')
+      .ilike('value', destination.replace(/[\\%_]/g, (c) => `\\${c}`));
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const contacts = await this.activeContacts(supabase, tenantId, isLive, (channels || []).map((c: any) => c.contact_id));
+    if (!contacts.success) return this.fail(contacts.error!.code, contacts.error!.message);
+    return { success: true, data: contacts.data!.map((c) => c.id) };
+  }
+
+  /**
+   * The one contact a phone sign-in is for: among active contacts of the
+   * tenant with the number on a mobile/WhatsApp channel, the one holding it
+   * as primary, else the oldest. Stored formats vary ('+91 90000 00001',
+   * '9000000001' + country_code) — the tenant's channels are narrowed by the
+   * last digits and the normalised numbers decide.
+   */
+  private async contactWithPhone(
+    supabase: SupabaseClient,
+    tenantId: string,
+    isLive: boolean,
+    destination: string
+  ): Promise<BuyerPortalAuthResult<string[]>> {
+    const tailPattern = `%${destination.slice(-6).split('').join('%')}`;
+    const { data: channels, error } = await supabase
+      .from('t_contact_channels')
+      .select('contact_id, value, country_code, is_primary, t_contacts!inner(tenant_id)')
+      .eq('t_contacts.tenant_id', tenantId)
+      .in('channel_type', ['mobile', 'whatsapp'])
+      .ilike('value', tailPattern);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const matching = (channels || []).filter((c: any) => normalisePhone(c.value, c.country_code) === destination);
+    const contacts = await this.activeContacts(supabase, tenantId, isLive, matching.map((c: any) => c.contact_id));
+    if (!contacts.success) return this.fail(contacts.error!.code, contacts.error!.message);
+    if (contacts.data!.length === 0) return { success: true, data: [] };
+
+    const primary = new Set(matching.filter((c: any) => c.is_primary).map((c: any) => c.contact_id));
+    const chosen = [...contacts.data!].sort((a, b) =>
+      Number(primary.has(b.id)) - Number(primary.has(a.id))
+      || String(a.created_at).localeCompare(String(b.created_at))
+    )[0];
+    return { success: true, data: [chosen.id] };
+  }
+
+  private async activeContacts(
+    supabase: SupabaseClient,
+    tenantId: string,
+    isLive: boolean,
+    contactIds: string[]
+  ): Promise<BuyerPortalAuthResult<Array<{ id: string; created_at: string }>>> {
+    const candidateIds = Array.from(new Set(contactIds));
+    if (candidateIds.length === 0) return { success: true, data: [] };
+
+    const { data, error } = await supabase
+      .from('t_contacts')
+      .select('id, created_at')
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .neq('status', 'archived')
+      .in('id', candidateIds);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: data || [] };
+  }
+
+  private async sellerName(supabase: SupabaseClient, tenantId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('t_tenant_profiles')
+      .select('business_name')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) {
+      console.warn('[BuyerPortalAuthService] seller name lookup failed:', error.message);
+      return null;
+    }
+    return data?.business_name || null;
+  }
+}
+
+export const buyerPortalAuthService = new BuyerPortalAuthService();
+export default buyerPortalAuthService;
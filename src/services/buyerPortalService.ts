@@ -0,0 +1,579 @@
+// ============================================================================
+// Buyer Portal Service — what a signed-in buyer can see and do
+// ============================================================================
+// Every method takes the PortalSession resolved by middleware/portalAuth and
+// only reaches rows of the session's tenant + environment that belong to its
+// contacts: contracts by buyer_id, invoices through those contracts (or
+// contact_id for ad-hoc invoices), events through those contracts. Anything
+// else answers NOT_FOUND, never FORBIDDEN, so ids cannot be probed.
+//   - invoices: listed with their outstanding amount; downloaded as a PDF
+//     rendered from invoiceService.getInvoiceDetail (utils/invoicePdf).
+//   - pay: a Razorpay order for the outstanding (or part of it) through the
+//     payment-gateway edge, the same path as the CNAK public checkout; the
+//     captured payment is reconciled by the payment webhook.
+//   - service requests: kept in t_portal_service_requests ('submitting'
+//     first) and turned into a service-execution ticket with the request id
+//     as idempotency key, so a retried submit never opens a second ticket.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import PaymentGatewayService from './paymentGatewayService';
+import ServiceExecutionService from './serviceExecutionService';
+import { serviceSlaService } from './serviceSlaService';
+import buyerPortalAuthService from './buyerPortalAuthService';
+import publicPaymentService from './publicPaymentService';
+import { invoiceService, invoiceOutstanding, OPEN_INVOICE_STATUSES } from './invoiceService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import {
+  CreatePortalServiceRequest,
+  PORTAL_SERVICE_REQUEST_STATUSES,
+  PortalContract,
+  PortalEvent,
+  PortalInvoice,
+  PortalServiceRequest,
+  PortalSession
+} from '../types/buyerPortalTypes';
+
+export interface BuyerPortalResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVENT_DAYS = 90;
+const MAX_EVENT_DAYS = 366;
+const MAX_EVENTS = 500;
+const MAX_INVOICES = 500;
+// Drafts are the seller's working copies, not something the buyer agreed to
+const HIDDEN_CONTRACT_STATUSES = ['draft'];
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+class BuyerPortalService {
+  private gateway: PaymentGatewayService | null = null;
+  private execution: ServiceExecutionService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private gatewayService(): PaymentGatewayService {
+    if (!this.gateway) this.gateway = new PaymentGatewayService();
+    return this.gateway;
+  }
+
+  private executionService(): ServiceExecutionService {
+    if (!this.execution) this.execution = new ServiceExecutionService();
+    return this.execution;
+  }
+
+  private fail(code: string, message: string): BuyerPortalResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  private environment(session: PortalSession): string {
+    return session.is_live ? 'live' : 'test';
+  }
+
+  // ==========================================================
+  // CONTRACTS & EVENTS
+  // ==========================================================
+
+  async listContracts(session: PortalSession): Promise<BuyerPortalResult<PortalContract[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contracts')
+      .select('*')
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .in('buyer_id', session.contact_ids)
+      .order('created_at', { ascending: false });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const contracts = (data || [])
+      .filter((c: any) => !HIDDEN_CONTRACT_STATUSES.includes(String(c.status)))
+      .map((c: any) => this.toPortalContract(c));
+    return { success: true, data: contracts };
+  }
+
+  async getContract(session: PortalSession, contractId: string): Promise<BuyerPortalResult<PortalContract>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const contract = await this.ownedContract(supabase, session, contractId);
+    if (!contract.success) return this.fail(contract.error!.code, contract.error!.message);
+    return { success: true, data: this.toPortalContract(contract.data!) };
+  }
+
+  /** Scheduled events of the buyer's contracts, today onwards by default */
+  async listEvents(
+    session: PortalSession,
+    filters: { contractId?: string; from?: string; to?: string }
+  ): Promise<BuyerPortalResult<PortalEvent[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const contracts = await this.listContracts(session);
+    if (!contracts.success) return this.fail(contracts.error!.code, contracts.error!.message);
+    let owned = contracts.data!;
+    if (filters.contractId) {
+      owned = owned.filter((c) => c.id === filters.contractId);
+      if (owned.length === 0) return this.fail('NOT_FOUND', 'Contract not found');
+    }
+    if (owned.length === 0) return { success: true, data: [] };
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(session.tenant_id);
+    const today = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+    const from = filters.from || today;
+    const to = filters.to || new Date(Date.parse(from) + DEFAULT_EVENT_DAYS * DAY_MS).toISOString().slice(0, 10);
+    if (to < from) return this.fail('VALIDATION_ERROR', 'to must not be before from');
+    if (Date.parse(to) - Date.parse(from) > MAX_EVENT_DAYS * DAY_MS) {
+      return this.fail('VALIDATION_ERROR', `The window may span at most ${MAX_EVENT_DAYS} days`);
+    }
+
+    const { data, error } = await supabase
+      .from('t_contract_events')
+      .select('id, contract_id, block_name, event_type, sequence_number, total_occurrences, scheduled_date, amount, currency, status')
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .in('contract_id', owned.map((c) => c.id))
+      .gte('scheduled_date', from)
+      .lt('scheduled_date', new Date(Date.parse(to) + DAY_MS).toISOString().slice(0, 10))
+      .order('scheduled_date', { ascending: true })
+      .limit(MAX_EVENTS);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const numbers = new Map(owned.map((c) => [c.id, c.contract_number]));
+    const events = (data || []).map((e: any): PortalEvent => ({
+      id: e.id,
+      contract_id: e.contract_id,
+      contract_number: numbers.get(e.contract_id) ?? null,
+      event_type: e.event_type,
+      block_name: e.block_name ?? null,
+      sequence_number: e.sequence_number ?? null,
+      total_occurrences: e.total_occurrences ?? null,
+      scheduled_date: e.scheduled_date,
+      status: e.status,
+      amount: e.amount !== null && e.amount !== undefined ? Number(e.amount) : null,
+      currency: e.currency ?? null
+    }));
+    return { success: true, data: events };
+  }
+
+  // ==========================================================
+  // INVOICES
+  // ==========================================================
+
+  async listInvoices(session: PortalSession, filters: { status?: 'open' | 'all' }): Promise<BuyerPortalResult<PortalInvoice[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const contracts = await this.listContracts(session);
+    if (!contracts.success) return this.fail(contracts.error!.code, contracts.error!.message);
+    const numbers = new Map(contracts.data!.map((c) => [c.id, c.contract_number]));
+
+    const ownership = [`contact_id.in.(${session.contact_ids.join(',')})`];
+    if (numbers.size > 0) ownership.push(`contract_id.in.(${Array.from(numbers.keys()).join(',')})`);
+
+    let query = supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .or(ownership.join(','))
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(MAX_INVOICES);
+    if (filters.status === 'open') query = query.in('status', OPEN_INVOICE_STATUSES);
+
+    const { data, error } = await query;
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const invoices = (data || [])
+      // An invoice on another buyer's contract that names this contact stays hidden
+      .filter((inv: any) => !inv.contract_id || numbers.has(inv.contract_id))
+      .map((inv: any) => this.toPortalInvoice(inv, numbers.get(inv.contract_id) ?? null));
+    return { success: true, data: invoices };
+  }
+
+  /** The invoice document (header, lines, receipts) as the tenant sees it */
+  async getInvoice(session: PortalSession, invoiceId: string): Promise<BuyerPortalResult> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const owned = await this.ownedInvoice(supabase, session, invoiceId);
+    if (!owned.success) return this.fail(owned.error!.code, owned.error!.message);
+
+    const detail = await this.invoiceDetail(session, invoiceId);
+    if (!detail.success) return this.fail(detail.error!.code, detail.error!.message);
+
+    return {
+      success: true,
+      data: { ...detail.data, portal: this.toPortalInvoice(owned.data!.invoice, owned.data!.contract_number) }
+    };
+  }
+
+  async renderInvoicePdf(
+    session: PortalSession,
+    invoiceId: string
+  ): Promise<BuyerPortalResult<{ filename: string; pdf: Buffer }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const owned = await this.ownedInvoice(supabase, session, invoiceId);
+    if (!owned.success) return this.fail(owned.error!.code, owned.error!.message);
+
+    const detail = await this.invoiceDetail(session, invoiceId);
+    if (!detail.success) return this.fail(detail.error!.code, detail.error!.message);
+
+    const buyer = await buyerPortalAuthService.buyer(session);
+    const pdf = await renderInvoicePdf({
+      detail: detail.data!,
+      seller: { name: buyer.data?.seller.name ?? null },
+      contractNumber: owned.data!.contract_number
+    });
+    const number = String(owned.data!.invoice.invoice_number || invoiceId).replace(/[^A-Za-z0-9._-]+/g, '-');
+    return { success: true, data: { filename: `invoice-${number}.pdf`, pdf } };
+  }
+
+  // ==========================================================
+  // PAYMENTS
+  // ==========================================================
+
+  /** Razorpay order for the outstanding balance, or the part the buyer chose */
+  async createPaymentOrder(
+    session: PortalSession,
+    invoiceId: string,
+    amount?: number
+  ): Promise<BuyerPortalResult> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const owned = await this.ownedInvoice(supabase, session, invoiceId);
+    if (!owned.success) return this.fail(owned.error!.code, owned.error!.message);
+    const invoice = this.toPortalInvoice(owned.data!.invoice, owned.data!.contract_number);
+
+    if (!invoice.contract_id) return this.fail('VALIDATION_ERROR', 'This invoice cannot be paid online');
+    if (!invoice.payable) return this.fail('CONFLICT', 'Invoice has nothing outstanding');
+    const payAmount = round2(amount ?? invoice.outstanding);
+    if (!(payAmount > 0)) return this.fail('VALIDATION_ERROR', 'amount must be positive');
+    if (payAmount > invoice.outstanding) {
+      return this.fail('VALIDATION_ERROR', `amount exceeds the outstanding balance (${invoice.outstanding})`);
+    }
+
+    if (!(await publicPaymentService.checkGatewayConfigured(session.tenant_id))) {
+      return this.fail('UNPROCESSABLE_ENTITY', 'Online payment is not available for this seller');
+    }
+
+    // Edge validates via HMAC + x-tenant-id; there is no user JWT for a buyer
+    const result = await this.gatewayService().createOrder(
+      {
+        invoice_id: invoiceId,
+        amount: payAmount,
+        currency: invoice.currency,
+        notes: { source: 'buyer_portal', contact_id: owned.data!.invoice.contact_id || session.contact_ids[0] }
+      },
+      '', session.tenant_id, '', this.environment(session)
+    );
+    if (!result.success) {
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', result.error || 'Could not create the payment order');
+    }
+    return { success: true, data: result.data };
+  }
+
+  async verifyPayment(
+    session: PortalSession,
+    invoiceId: string,
+    payload: { request_id: string; gateway_order_id: string; gateway_payment_id: string; gateway_signature: string }
+  ): Promise<BuyerPortalResult> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const owned = await this.ownedInvoice(supabase, session, invoiceId);
+    if (!owned.success) return this.fail(owned.error!.code, owned.error!.message);
+
+    const result = await this.gatewayService().verifyPayment(payload, '', session.tenant_id, this.environment(session));
+    if (!result.success) {
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', result.error || 'Payment verification failed');
+    }
+    return { success: true, data: result.data };
+  }
+
+  // ==========================================================
+  // SERVICE REQUESTS
+  // ==========================================================
+
+  async createServiceRequest(
+    session: PortalSession,
+    request: CreatePortalServiceRequest
+  ): Promise<BuyerPortalResult<PortalServiceRequest>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const contract = await this.ownedContract(supabase, session, request.contract_id);
+    if (!contract.success) return this.fail(contract.error!.code, contract.error!.message);
+
+    if (request.event_id) {
+      const { data: event, error } = await supabase
+        .from('t_contract_events')
+        .select('id')
+        .eq('id', request.event_id)
+        .eq('contract_id', request.contract_id)
+        .eq('tenant_id', session.tenant_id)
+        .maybeSingle();
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      if (!event) return this.fail('NOT_FOUND', 'Event not found on this contract');
+    }
+
+    const { data: row, error: insertError } = await supabase
+      .from('t_portal_service_requests')
+      .insert({
+        tenant_id: session.tenant_id,
+        is_live: session.is_live,
+        contact_id: contract.data!.buyer_id,
+        contract_id: request.contract_id,
+        event_id: request.event_id || null,
+        subject: request.subject.trim(),
+        description: request.description?.trim() || null,
+        preferred_date: request.preferred_date || null,
+        status: PORTAL_SERVICE_REQUEST_STATUSES.SUBMITTING,
+        session_id: session.session_id
+      })
+      .select('*')
+      .single();
+    if (insertError || !row) return this.fail('DATABASE_ERROR', insertError?.message || 'Could not save the request');
+
+    return this.submitTicket(supabase, session, row as PortalServiceRequest);
+  }
+
+  async listServiceRequests(session: PortalSession): Promise<BuyerPortalResult<PortalServiceRequest[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_portal_service_requests')
+      .select('*')
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .in('contact_id', session.contact_ids)
+      .order('created_at', { ascending: false });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as PortalServiceRequest[] };
+  }
+
+  /** One request with the live state of its ticket (best-effort) */
+  async getServiceRequest(
+    session: PortalSession,
+    requestId: string
+  ): Promise<BuyerPortalResult<PortalServiceRequest & { ticket: Record<string, any> | null }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_portal_service_requests')
+      .select('*')
+      .eq('id', requestId)
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .in('contact_id', session.contact_ids)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Service request not found');
+
+    let ticket: Record<string, any> | null = null;
+    if (data.ticket_id) {
+      const result = await this.executionService().getTicketDetail(
+        data.ticket_id, process.env.SUPABASE_SERVICE_ROLE_KEY || '', session.tenant_id, this.environment(session)
+      );
+      if (result.success) {
+        const t = result.data?.ticket ?? result.data ?? {};
+        // Buyer-safe subset: no internal notes, costs or evidence
+        ticket = {
+          id: t.id ?? data.ticket_id,
+          ticket_number: t.ticket_number ?? data.ticket_number,
+          status: t.status ?? null,
+          scheduled_date: t.scheduled_date ?? null,
+          assigned_to_name: t.assigned_to_name ?? null,
+          completed_at: t.completed_at ?? null
+        };
+      } else {
+        console.warn('[BuyerPortalService] ticket lookup failed:', result.error);
+      }
+    }
+
+    return { success: true, data: { ...(data as PortalServiceRequest), ticket } };
+  }
+
+  // ==========================================================
+  // HELPERS
+  // ==========================================================
+
+  private async submitTicket(
+    supabase: SupabaseClient,
+    session: PortalSession,
+    row: PortalServiceRequest
+  ): Promise<BuyerPortalResult<PortalServiceRequest>> {
+    const buyer = await buyerPortalAuthService.buyer(session);
+    const buyerName = buyer.data?.name || session.destination;
+    const notes = [
+      `Service request from the customer portal (${buyerName}): ${row.subject}`,
+      row.description,
+      row.preferred_date ? `Preferred date: ${row.preferred_date}` : null
+    ].filter(Boolean).join('\n\n');
+
+    const result = await this.executionService().createTicket(
+      {
+        contract_id: row.contract_id,
+        scheduled_date: row.preferred_date || undefined,
+        notes: notes.slice(0, 2000),
+        event_ids: row.event_id ? [row.event_id] : undefined,
+        created_by_name: buyerName
+      },
+      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      session.tenant_id,
+      '',
+      this.environment(session),
+      `portal:${row.id}`
+    );
+
+    const ticket = result.success ? (result.data?.ticket ?? result.data ?? {}) : null;
+    const patch = ticket
+      ? {
+          status: PORTAL_SERVICE_REQUEST_STATUSES.SUBMITTED,
+          ticket_id: ticket.id ?? null,
+          ticket_number: ticket.ticket_number ?? null,
+          error: null
+        }
+      : {
+          status: PORTAL_SERVICE_REQUEST_STATUSES.FAILED,
+          error: result.error || 'Ticket creation failed'
+        };
+
+    const { data: updated, error } = await supabase
+      .from('t_portal_service_requests')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .select('*')
+      .single();
+    if (error || !updated) return this.fail('DATABASE_ERROR', error?.message || 'Could not update the request');
+
+    if (ticket?.id) {
+      // Start the SLA clock now rather than when the service team first lists it
+      try {
+        await serviceSlaService.trackTickets({
+          tenantId: session.tenant_id,
+          isLive: session.is_live,
+          authToken: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY || ''}`
+        }, [{ contract_id: row.contract_id, event_ids: row.event_id ? [row.event_id] : undefined, ...ticket }]);
+      } catch (slaError: any) {
+        console.warn('[BuyerPortalService] SLA clock start failed:', slaError?.message);
+      }
+    }
+
+    if (!ticket) {
+      console.error('[BuyerPortalService] ticket creation failed:', result.error);
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', 'The request was saved but could not be passed to the service team — try again shortly');
+    }
+    return { success: true, data: updated as PortalServiceRequest };
+  }
+
+  private async ownedContract(
+    supabase: SupabaseClient,
+    session: PortalSession,
+    contractId: string
+  ): Promise<BuyerPortalResult<Record<string, any>>> {
+    const { data, error } = await supabase
+      .from('t_contracts')
+      .select('*')
+      .eq('id', contractId)
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data || !session.contact_ids.includes(data.buyer_id) || HIDDEN_CONTRACT_STATUSES.includes(String(data.status))) {
+      return this.fail('NOT_FOUND', 'Contract not found');
+    }
+    return { success: true, data };
+  }
+
+  private async ownedInvoice(
+    supabase: SupabaseClient,
+    session: PortalSession,
+    invoiceId: string
+  ): Promise<BuyerPortalResult<{ invoice: Record<string, any>; contract_number: string | null }>> {
+    const { data: invoice, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .eq('tenant_id', session.tenant_id)
+      .eq('is_live', session.is_live)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!invoice || invoice.status === 'cancelled') return this.fail('NOT_FOUND', 'Invoice not found');
+
+    if (invoice.contract_id) {
+      const contract = await this.ownedContract(supabase, session, invoice.contract_id);
+      if (!contract.success) {
+        return contract.error!.code === 'NOT_FOUND'
+          ? this.fail('NOT_FOUND', 'Invoice not found')
+          : this.fail(contract.error!.code, contract.error!.message);
+      }
+      return { success: true, data: { invoice, contract_number: contract.data!.contract_number ?? null } };
+    }
+    if (!session.contact_ids.includes(invoice.contact_id)) return this.fail('NOT_FOUND', 'Invoice not found');
+    return { success: true, data: { invoice, contract_number: null } };
+  }
+
+  private async invoiceDetail(session: PortalSession, invoiceId: string): Promise<BuyerPortalResult<Record<string, any>>> {
+    const result = await invoiceService.getInvoiceDetail({
+      tenantId: session.tenant_id, invoiceId, isLive: session.is_live
+    });
+    if (!result.success) return this.fail('DATABASE_ERROR', result.error?.message || 'Failed to load invoice');
+    if (result.data && result.data.success === false) {
+      return this.fail('NOT_FOUND', result.data.error || 'Invoice not found');
+    }
+    return { success: true, data: result.data?.data ?? result.data ?? {} };
+  }
+
+  private toPortalContract(c: Record<string, any>): PortalContract {
+    return {
+      id: c.id,
+      contract_number: c.contract_number ?? null,
+      name: c.title || c.name || null,
+      status: c.status,
+      start_date: c.start_date ?? null,
+      end_date: c.end_date ?? null,
+      currency: c.currency ?? null,
+      total_value: c.grand_total ?? c.total_value ?? null,
+      buyer_id: c.buyer_id
+    };
+  }
+
+  private toPortalInvoice(inv: Record<string, any>, contractNumber: string | null): PortalInvoice {
+    const outstanding = OPEN_INVOICE_STATUSES.includes(inv.status) ? Math.max(0, invoiceOutstanding(inv)) : 0;
+    return {
+      id: inv.id,
+      invoice_number: inv.invoice_number ?? null,
+      contract_id: inv.contract_id ?? null,
+      contract_number: contractNumber,
+      status: inv.status,
+      invoice_date: inv.invoice_date || inv.issued_at || inv.created_at || null,
+      due_date: inv.due_date ?? null,
+      currency: inv.currency || 'INR',
+      total_amount: Number(inv.total_amount ?? inv.amount) || 0,
+      outstanding,
+      payable: !!inv.contract_id && outstanding > 0
+    };
+  }
+}
+
+export const buyerPortalService = new BuyerPortalService();
+export default buyerPortalService;
@@ -8,9 +8,14 @@
 //   upsert_tenant_cadence_settings(p_tenant, p_weekly_holidays, p_default_shift)
 //   add_tenant_holiday(p_tenant, p_date, p_label)
 //   remove_tenant_holiday(p_tenant, p_date)
+// getWorkingCalendar() adapts the settings for event derivation
+// (applyWorkingCalendar in contractEventsDerivationService).
+// Working hours (the window SLA clocks count on working days) are a plain
+// table, t_tenant_working_hours (src/migrations/022); no row = the whole day.
 // ============================================================================
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarShift, WorkingCalendar } from './contractEventsDerivationService';
 
 export interface CadenceServiceResult<T = any> {
   success: boolean;
@@ -18,6 +23,19 @@ export interface CadenceServiceResult<T = any> {
   error?: { code: string; message: string };
 }
 
+export interface TenantWorkingHours {
+  tenant_id: string;
+  /** 'HH:MM' in the tenant's time zone */
+  day_start: string;
+  /** 'HH:MM'; '24:00' = midnight at the end of the day */
+  day_end: string;
+  /** false when the tenant has never set hours (the whole day) */
+  configured: boolean;
+  updated_at: string | null;
+}
+
+const WHOLE_DAY = { day_start: '00:00', day_end: '24:00' };
+
 class CadenceSettingsService {
   private client(): SupabaseClient | null {
     const url = process.env.SUPABASE_URL;
@@ -63,6 +81,89 @@ class CadenceSettingsService {
   removeHoliday(tenantId: string, date: string) {
     return this.call('remove_tenant_holiday', { p_tenant: tenantId, p_date: date });
   }
+
+  async getWorkingHours(tenantId: string): Promise<CadenceServiceResult<TenantWorkingHours>> {
+    const supabase = this.client();
+    if (!supabase) {
+      return { success: false, error: { code: 'CONFIG', message: 'Supabase is not configured' } };
+    }
+    const { data, error } = await supabase
+      .from('t_tenant_working_hours')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) {
+      console.error('[CadenceSettingsService] working hours lookup failed:', error.message);
+      return { success: false, error: { code: 'DATABASE_ERROR', message: error.message } };
+    }
+    return { success: true, data: this.toWorkingHours(tenantId, data) };
+  }
+
+  async updateWorkingHours(
+    tenantId: string,
+    dayStart: string,
+    dayEnd: string,
+    userId: string | null
+  ): Promise<CadenceServiceResult<TenantWorkingHours>> {
+    const supabase = this.client();
+    if (!supabase) {
+      return { success: false, error: { code: 'CONFIG', message: 'Supabase is not configured' } };
+    }
+    const { data, error } = await supabase
+      .from('t_tenant_working_hours')
+      .upsert({
+        tenant_id: tenantId,
+        day_start: dayStart,
+        day_end: dayEnd,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'tenant_id' })
+      .select('*')
+      .single();
+    if (error) {
+      console.error('[CadenceSettingsService] working hours update failed:', error.message);
+      return { success: false, error: { code: 'DATABASE_ERROR', message: error.message } };
+    }
+    return { success: true, data: this.toWorkingHours(tenantId, data) };
+  }
+
+  private toWorkingHours(tenantId: string, row: Record<string, any> | null): TenantWorkingHours {
+    // TIME columns come back as 'HH:MM:SS'
+    const hhmm = (value: unknown, fallback: string) => (value ? String(value).slice(0, 5) : fallback);
+    return {
+      tenant_id: tenantId,
+      day_start: hhmm(row?.day_start, WHOLE_DAY.day_start),
+      day_end: hhmm(row?.day_end, WHOLE_DAY.day_end),
+      configured: !!row,
+      updated_at: row?.updated_at ?? null,
+    };
+  }
+
+  /**
+   * The tenant's settings as a derivation calendar. `shift` overrides the
+   * tenant's default_shift for this call. No settings row → an empty
+   * calendar (nothing is moved).
+   */
+  async getWorkingCalendar(tenantId: string, shift?: CalendarShift): Promise<CadenceServiceResult<WorkingCalendar>> {
+    const result = await this.getSettings(tenantId);
+    if (!result.success) return result;
+
+    const settings = result.data || {};
+    const holidays: string[] = (Array.isArray(settings.holidays) ? settings.holidays : [])
+      .map((h: any) => String(typeof h === 'string' ? h : h?.date || '').slice(0, 10))
+      .filter((d: string) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+
+    return {
+      success: true,
+      data: {
+        weeklyHolidays: (Array.isArray(settings.weekly_holidays) ? settings.weekly_holidays : [])
+          .map(Number)
+          .filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6),
+        holidays,
+        shift: shift || (settings.default_shift === 'previous' ? 'previous' : 'next'),
+      },
+    };
+  }
 }
 
 export default new CadenceSettingsService();
@@ -0,0 +1,387 @@
+// ============================================================================
+// Calendar Feed Service — tokenised ICS subscriptions (src/migrations/011)
+// ============================================================================
+// A feed is a scope + subject behind an opaque token:
+//   tenant    — every contract event of the tenant
+//   assignee  — contract events assigned to one user (technician calendar)
+//   contact   — events of one buyer contact's contracts (buyer calendar)
+//   block     — group-session occurrences (groupSessionsDashboardService
+//               .dashOccurrences)
+// Feeds are rendered from the live tables on every fetch, so a move through
+// PATCH /api/contract-events/:id or gs_schedule_move shows up on the next
+// client refresh. UIDs are the row ids and SEQUENCE follows the row version,
+// so clients update events in place.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import groupSessionsDashboardService from './groupSessionsDashboardService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import { renderIcs, IcsEvent } from '../utils/icalendar';
+import {
+  CALENDAR_FEED_SCOPES,
+  CalendarFeed,
+  CalendarFeedScope
+} from '../types/calendarFeedTypes';
+
+export interface CalendarFeedServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Feed window: recent history plus the year ahead
+const PAST_DAYS = 90;
+const FUTURE_DAYS = 400;
+const MAX_EVENTS = 2000;
+const REFRESH_MINUTES = 60;
+
+const UID_DOMAIN = 'contractnest.calendar';
+
+class CalendarFeedService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): CalendarFeedServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  private newToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  // ==========================================================
+  // FEED MANAGEMENT
+  // ==========================================================
+
+  async list(tenantId: string, isLive: boolean): Promise<CalendarFeedServiceResult<CalendarFeed[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_calendar_feeds')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as CalendarFeed[] };
+  }
+
+  /**
+   * The active feed for a scope + subject, created on first request. The
+   * subject must belong to the tenant.
+   */
+  async ensure(params: {
+    tenantId: string;
+    isLive: boolean;
+    scope: CalendarFeedScope;
+    subjectId: string | null;
+    label?: string | null;
+    userId: string | null;
+  }): Promise<CalendarFeedServiceResult<CalendarFeed>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const subjectCheck = await this.checkSubject(supabase, params.tenantId, params.scope, params.subjectId);
+    if (!subjectCheck.success) return this.fail(subjectCheck.error!.code, subjectCheck.error!.message);
+
+    const existing = await this.findActive(supabase, params);
+    if (!existing.success || existing.data) return existing as CalendarFeedServiceResult<CalendarFeed>;
+
+    const { data, error } = await supabase
+      .from('t_calendar_feeds')
+      .insert({
+        tenant_id: params.tenantId,
+        scope: params.scope,
+        subject_id: params.subjectId,
+        token: this.newToken(),
+        label: params.label ?? null,
+        is_live: params.isLive,
+        created_by: params.userId,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Lost a race with a concurrent create — hand back the winner
+      if (error.code === '23505') {
+        const winner = await this.findActive(supabase, params);
+        if (winner.success && winner.data) return winner as CalendarFeedServiceResult<CalendarFeed>;
+      }
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as CalendarFeed };
+  }
+
+  /** Revoke a feed's token and issue a new one for the same subject */
+  async rotate(params: { tenantId: string; feedId: string; userId: string | null }): Promise<CalendarFeedServiceResult<CalendarFeed>> {
+    const revoked = await this.revoke(params.tenantId, params.feedId);
+    if (!revoked.success || !revoked.data) return revoked;
+
+    const feed = revoked.data;
+    return this.ensure({
+      tenantId: feed.tenant_id,
+      isLive: feed.is_live,
+      scope: feed.scope,
+      subjectId: feed.subject_id,
+      label: feed.label,
+      userId: params.userId,
+    });
+  }
+
+  async revoke(tenantId: string, feedId: string): Promise<CalendarFeedServiceResult<CalendarFeed>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_calendar_feeds')
+      .update({ revoked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', feedId)
+      .eq('tenant_id', tenantId)
+      .is('revoked_at', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Calendar feed not found or already revoked');
+    return { success: true, data: data as CalendarFeed };
+  }
+
+  /** Active feed for a URL token (public endpoint) */
+  async resolve(token: string): Promise<CalendarFeedServiceResult<CalendarFeed>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_calendar_feeds')
+      .select('*')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Calendar feed not found');
+
+    // Best-effort usage stamp; a failure must not break the feed
+    supabase
+      .from('t_calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(({ error: touchError }) => {
+        if (touchError) console.warn('[CalendarFeedService] last_accessed_at update failed:', touchError.message);
+      });
+
+    return { success: true, data: data as CalendarFeed };
+  }
+
+  // ==========================================================
+  // RENDERING
+  // ==========================================================
+
+  /** The feed as an ICS document */
+  async render(feed: CalendarFeed): Promise<CalendarFeedServiceResult<string>> {
+    const timeZone = await tenantTimeZoneService.getTimeZone(feed.tenant_id);
+
+    const events = feed.scope === CALENDAR_FEED_SCOPES.BLOCK
+      ? await this.occurrenceEvents(feed)
+      : await this.contractEvents(feed, timeZone);
+    if (!events.success) return this.fail(events.error!.code, events.error!.message);
+
+    const ics = renderIcs({
+      name: feed.label || this.defaultName(feed.scope),
+      timeZone,
+      refreshMinutes: REFRESH_MINUTES,
+      events: events.data || [],
+    });
+    return { success: true, data: ics };
+  }
+
+  private defaultName(scope: CalendarFeedScope): string {
+    switch (scope) {
+      case CALENDAR_FEED_SCOPES.ASSIGNEE: return 'My assigned visits';
+      case CALENDAR_FEED_SCOPES.CONTACT: return 'Contract schedule';
+      case CALENDAR_FEED_SCOPES.BLOCK: return 'Group session schedule';
+      default: return 'Contract events';
+    }
+  }
+
+  private async contractEvents(feed: CalendarFeed, timeZone: string): Promise<CalendarFeedServiceResult<IcsEvent[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    // Buyer feeds: only that contact's contracts
+    let contractIds: string[] | null = null;
+    if (feed.scope === CALENDAR_FEED_SCOPES.CONTACT) {
+      const { data, error } = await supabase
+        .from('t_contracts')
+        .select('id')
+        .eq('tenant_id', feed.tenant_id)
+        .eq('buyer_id', feed.subject_id)
+        .eq('is_live', feed.is_live);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      contractIds = (data || []).map((c: any) => c.id);
+      if (contractIds.length === 0) return { success: true, data: [] };
+    }
+
+    const now = Date.now();
+    let query = supabase
+      .from('t_contract_events')
+      .select('id, contract_id, block_name, event_type, billing_sub_type, sequence_number, total_occurrences, scheduled_date, amount, currency, status, assigned_to_name, notes, version, updated_at')
+      .eq('tenant_id', feed.tenant_id)
+      .eq('is_live', feed.is_live)
+      .gte('scheduled_date', new Date(now - PAST_DAYS * DAY_MS).toISOString())
+      .lte('scheduled_date', new Date(now + FUTURE_DAYS * DAY_MS).toISOString())
+      .order('scheduled_date', { ascending: true })
+      .limit(MAX_EVENTS);
+
+    if (feed.scope === CALENDAR_FEED_SCOPES.ASSIGNEE) query = query.eq('assigned_to', feed.subject_id);
+    if (contractIds) query = query.in('contract_id', contractIds);
+
+    const { data: rows, error } = await query;
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const contracts = await this.contractLabels(supabase, Array.from(new Set((rows || []).map((r: any) => r.contract_id))));
+    const buyerView = feed.scope === CALENDAR_FEED_SCOPES.CONTACT;
+    const dayFormat = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+
+    const events = (rows || []).map((row: any): IcsEvent => {
+      const contract = contracts.get(row.contract_id);
+      const contractLabel = contract ? (contract.contract_number || contract.name || '') : '';
+      const isService = row.event_type === 'service';
+      const amount = row.amount ? [row.currency, Number(row.amount).toFixed(2)].filter(Boolean).join(' ') : '';
+      const summary = isService
+        ? `${row.block_name || 'Service'} (visit ${row.sequence_number}/${row.total_occurrences})`
+        : `Payment due: ${row.block_name || 'Contract'}${amount ? ` — ${amount}` : ''}`;
+
+      const details: string[] = [];
+      if (contract) details.push(`Contract: ${[contract.contract_number, contract.name].filter(Boolean).join(' — ')}`);
+      details.push(`Status: ${row.status}`);
+      if (!buyerView && row.assigned_to_name) details.push(`Assigned to: ${row.assigned_to_name}`);
+      if (!buyerView && row.notes) details.push(row.notes);
+
+      return {
+        uid: `${row.id}@${UID_DOMAIN}`,
+        summary: contractLabel ? `${summary} · ${contractLabel}` : summary,
+        start: dayFormat.format(new Date(row.scheduled_date)),
+        description: details.join('\n'),
+        status: row.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        sequence: Number(row.version) || 0,
+        lastModified: row.updated_at ? new Date(row.updated_at) : undefined,
+        categories: [isService ? 'Service' : 'Billing'],
+      };
+    });
+
+    return { success: true, data: events };
+  }
+
+  private async contractLabels(supabase: SupabaseClient, ids: string[]): Promise<Map<string, { contract_number?: string; name?: string }>> {
+    const labels = new Map<string, { contract_number?: string; name?: string }>();
+    if (ids.length === 0) return labels;
+    const { data, error } = await supabase
+      .from('t_contracts')
+      .select('id, contract_number, name')
+      .in('id', ids);
+    // Labels are cosmetic — render without them rather than fail the feed
+    if (error) {
+      console.warn('[CalendarFeedService] contract labels lookup failed:', error.message);
+      return labels;
+    }
+    for (const c of data || []) labels.set(c.id, { contract_number: c.contract_number, name: c.name });
+    return labels;
+  }
+
+  private async occurrenceEvents(feed: CalendarFeed): Promise<CalendarFeedServiceResult<IcsEvent[]>> {
+    const result = await groupSessionsDashboardService.dashOccurrences(feed.tenant_id, feed.subject_id as string, feed.is_live);
+    if (!result.success) return this.fail(result.error?.code || 'RPC_ERROR', result.error?.message || 'Failed to load occurrences');
+
+    const rows: any[] = Array.isArray(result.data)
+      ? result.data
+      : (result.data?.occurrences || []);
+
+    const events: IcsEvent[] = [];
+    for (const o of rows) {
+      const day = String(o.scheduled_date || o.occurrence_date || o.date || '').slice(0, 10);
+      if (!o.id || !/^\d{4}-\d{2}-\d{2}$/.test(day)) continue;
+
+      const details: string[] = [];
+      if (o.status) details.push(`Status: ${o.status}`);
+      if (o.assigned_to_name) details.push(`Chair: ${o.assigned_to_name}`);
+      if (o.note) details.push(o.note);
+
+      events.push({
+        uid: `${o.id}@${UID_DOMAIN}`,
+        summary: o.block_name || o.title || this.defaultName(CALENDAR_FEED_SCOPES.BLOCK),
+        start: day,
+        description: details.join('\n') || undefined,
+        status: o.status === 'cancelled' || o.status === 'skipped' ? 'CANCELLED' : 'CONFIRMED',
+        sequence: Number(o.version) || 0,
+        lastModified: o.updated_at ? new Date(o.updated_at) : undefined,
+        categories: ['Group session'],
+      });
+    }
+    return { success: true, data: events };
+  }
+
+  // ==========================================================
+  // HELPERS
+  // ==========================================================
+
+  private async findActive(
+    supabase: SupabaseClient,
+    params: { tenantId: string; isLive: boolean; scope: CalendarFeedScope; subjectId: string | null }
+  ): Promise<CalendarFeedServiceResult<CalendarFeed | null>> {
+    let query = supabase
+      .from('t_calendar_feeds')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('scope', params.scope)
+      .eq('is_live', params.isLive)
+      .is('revoked_at', null);
+    query = params.subjectId ? query.eq('subject_id', params.subjectId) : query.is('subject_id', null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data as CalendarFeed) || null };
+  }
+
+  private async checkSubject(
+    supabase: SupabaseClient,
+    tenantId: string,
+    scope: CalendarFeedScope,
+    subjectId: string | null
+  ): Promise<CalendarFeedServiceResult<true>> {
+    if (scope === CALENDAR_FEED_SCOPES.TENANT) {
+      return subjectId ? this.fail('VALIDATION_ERROR', 'subject_id is not allowed for a tenant feed') : { success: true, data: true };
+    }
+    if (!subjectId) return this.fail('VALIDATION_ERROR', `subject_id is required for a ${scope} feed`);
+
+    let lookup;
+    if (scope === CALENDAR_FEED_SCOPES.ASSIGNEE) {
+      lookup = await supabase.from('t_user_tenants').select('user_id')
+        .eq('tenant_id', tenantId).eq('user_id', subjectId).limit(1).maybeSingle();
+    } else if (scope === CALENDAR_FEED_SCOPES.CONTACT) {
+      lookup = await supabase.from('t_contacts').select('id')
+        .eq('tenant_id', tenantId).eq('id', subjectId).limit(1).maybeSingle();
+    } else {
+      // Blocks are checked by the tenant-scoped gs_dash_occurrences RPC at render time
+      return { success: true, data: true };
+    }
+
+    if (lookup.error) return this.fail('DATABASE_ERROR', lookup.error.message);
+    if (!lookup.data) return this.fail('NOT_FOUND', `No ${scope} ${subjectId} in this tenant`);
+    return { success: true, data: true };
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
+export default calendarFeedService;
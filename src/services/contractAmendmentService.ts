@@ -0,0 +1,353 @@
+// ============================================================================
+// Contract Amendment Service — versioned change orders (src/migrations/006)
+// ============================================================================
+// Seller proposes a change set against a contract version; the buyer answers
+// through the same CNAK + secret_code pair respondToContract uses. On accept
+// this service merges the change set into the stored terms, re-derives the
+// schedule with contractEventsDerivationService and hands the writes to
+// apply_contract_amendment, which re-checks the version, bumps it and
+// replaces the future events in one transaction.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  deriveComputedEvents,
+  deriveInputFromContract,
+  durationToDays,
+  ComputedEventPayload
+} from './contractEventsDerivationService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import {
+  ContractAmendment,
+  ContractAmendmentChangeSet,
+  AMENDMENT_STATUSES
+} from '../types/contractTypes';
+
+export interface AmendmentServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+// Contract statuses an amendment can be proposed against
+const AMENDABLE_STATUSES = ['active', 'pending_acceptance'];
+
+class ContractAmendmentService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): AmendmentServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  async listAmendments(params: {
+    tenantId: string;
+    contractId: string;
+    isLive: boolean;
+  }): Promise<AmendmentServiceResult<ContractAmendment[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_amendments')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contractId)
+      .eq('is_live', params.isLive)
+      .order('amendment_number', { ascending: false });
+
+    if (error) {
+      console.error('[ContractAmendmentService] listAmendments failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: (data || []) as ContractAmendment[] };
+  }
+
+  async proposeAmendment(params: {
+    tenantId: string;
+    contractId: string;
+    baseVersion: number;
+    changeSet: ContractAmendmentChangeSet;
+    reason?: string | null;
+    effectiveDate?: string | null;
+    userId?: string | null;
+    userName?: string | null;
+    isLive: boolean;
+  }): Promise<AmendmentServiceResult<ContractAmendment>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: contract, error: contractError } = await supabase
+      .from('t_contracts')
+      .select('id, tenant_id, status, version')
+      .eq('id', params.contractId)
+      .eq('tenant_id', params.tenantId)
+      .maybeSingle();
+
+    if (contractError) return this.fail('DATABASE_ERROR', contractError.message);
+    if (!contract) return this.fail('NOT_FOUND', 'Contract not found');
+    if (!AMENDABLE_STATUSES.includes(contract.status)) {
+      return this.fail('INVALID_TRANSITION', `Contracts in status '${contract.status}' cannot be amended — edit the draft instead`);
+    }
+    if (Number(contract.version) !== params.baseVersion) {
+      return this.fail('VERSION_CONFLICT', `Contract is at version ${contract.version}, not ${params.baseVersion}`);
+    }
+
+    const { data: last } = await supabase
+      .from('t_contract_amendments')
+      .select('amendment_number')
+      .eq('contract_id', params.contractId)
+      .order('amendment_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('t_contract_amendments')
+      .insert({
+        tenant_id: params.tenantId,
+        contract_id: params.contractId,
+        amendment_number: (last?.amendment_number || 0) + 1,
+        base_version: params.baseVersion,
+        status: AMENDMENT_STATUSES.PROPOSED,
+        change_set: params.changeSet,
+        reason: params.reason ?? null,
+        effective_date: params.effectiveDate || new Date().toISOString().slice(0, 10),
+        proposed_by: params.userId ?? null,
+        proposed_by_name: params.userName ?? null,
+        is_live: params.isLive,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // idx_t_contract_amendments_one_open
+      if (error.code === '23505') {
+        return this.fail('DUPLICATE_FOUND', 'This contract already has an open amendment');
+      }
+      console.error('[ContractAmendmentService] proposeAmendment failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as ContractAmendment };
+  }
+
+  async withdrawAmendment(params: {
+    tenantId: string;
+    contractId: string;
+    amendmentId: string;
+  }): Promise<AmendmentServiceResult<ContractAmendment>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_amendments')
+      .update({ status: AMENDMENT_STATUSES.WITHDRAWN, updated_at: new Date().toISOString() })
+      .eq('id', params.amendmentId)
+      .eq('contract_id', params.contractId)
+      .eq('tenant_id', params.tenantId)
+      .eq('status', AMENDMENT_STATUSES.PROPOSED)
+      .select('*')
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'No open amendment with this id');
+    return { success: true, data: data as ContractAmendment };
+  }
+
+  /**
+   * Resolve a CNAK + secret_code pair to the contract it grants access to.
+   * Same gate the public contract RPCs apply: an active grant whose secret
+   * matches. Never trusts a client-supplied contract or tenant id.
+   */
+  async resolveAccess(cnak: string, secretCode: string): Promise<AmendmentServiceResult<{ contract_id: string }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_access')
+      .select('contract_id')
+      .eq('global_access_id', cnak)
+      .eq('secret_code', secretCode)
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('UNAUTHORIZED', 'Invalid CNAK or secret code');
+    return { success: true, data: { contract_id: data.contract_id } };
+  }
+
+  /** Open (and past) amendments for the CNAK-scoped buyer view */
+  async listForAccess(cnak: string, secretCode: string): Promise<AmendmentServiceResult<ContractAmendment[]>> {
+    const access = await this.resolveAccess(cnak, secretCode);
+    if (!access.success || !access.data) return this.fail(access.error!.code, access.error!.message);
+
+    const supabase = this.client()!;
+    const { data, error } = await supabase
+      .from('t_contract_amendments')
+      .select('*')
+      .eq('contract_id', access.data.contract_id)
+      .neq('status', AMENDMENT_STATUSES.WITHDRAWN)
+      .order('amendment_number', { ascending: false });
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as ContractAmendment[] };
+  }
+
+  async respondToAmendment(params: {
+    cnak: string;
+    secretCode: string;
+    amendmentId: string;
+    action: 'accept' | 'reject';
+    responderName?: string | null;
+    responderEmail?: string | null;
+    rejectionReason?: string | null;
+  }): Promise<AmendmentServiceResult> {
+    const access = await this.resolveAccess(params.cnak, params.secretCode);
+    if (!access.success || !access.data) return this.fail(access.error!.code, access.error!.message);
+
+    const supabase = this.client()!;
+    const { data: amendment, error: amendmentError } = await supabase
+      .from('t_contract_amendments')
+      .select('*')
+      .eq('id', params.amendmentId)
+      .eq('contract_id', access.data.contract_id)
+      .maybeSingle();
+
+    if (amendmentError) return this.fail('DATABASE_ERROR', amendmentError.message);
+    if (!amendment) return this.fail('NOT_FOUND', 'Amendment not found');
+    if (amendment.status !== AMENDMENT_STATUSES.PROPOSED) {
+      return this.fail('INVALID_STATUS', `Amendment is already ${amendment.status}`);
+    }
+
+    if (params.action === 'reject') {
+      const { data, error } = await supabase
+        .from('t_contract_amendments')
+        .update({
+          status: AMENDMENT_STATUSES.REJECTED,
+          responder_name: params.responderName ?? null,
+          responder_email: params.responderEmail ?? null,
+          rejection_reason: params.rejectionReason ?? null,
+          responded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', amendment.id)
+        .eq('status', AMENDMENT_STATUSES.PROPOSED)
+        .select('*')
+        .maybeSingle();
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      return { success: true, data };
+    }
+
+    // ── accept: merge terms, re-derive, apply atomically ──
+    const { data: contract, error: contractError } = await supabase
+      .from('t_contracts')
+      .select('*')
+      .eq('id', access.data.contract_id)
+      .maybeSingle();
+    if (contractError) return this.fail('DATABASE_ERROR', contractError.message);
+    if (!contract) return this.fail('NOT_FOUND', 'Contract not found');
+
+    const { data: blocks, error: blocksError } = await supabase
+      .from('t_contract_blocks')
+      .select('*')
+      .eq('contract_id', contract.id)
+      .order('sort_order', { ascending: true });
+    if (blocksError) return this.fail('DATABASE_ERROR', blocksError.message);
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(contract.tenant_id);
+    const plan = this.buildApplyPlan({ ...contract, blocks: blocks || [] }, amendment as ContractAmendment, timeZone);
+
+    const { data, error } = await supabase.rpc('apply_contract_amendment', {
+      p_amendment_id: amendment.id,
+      p_patch: plan.patch,
+      p_blocks_added: plan.blocksAdded,
+      p_blocks_removed: plan.blocksRemoved,
+      p_future_events: plan.futureEvents,
+      p_responder_name: params.responderName ?? null,
+      p_responder_email: params.responderEmail ?? null,
+    });
+
+    if (error) {
+      console.error('[ContractAmendmentService] apply_contract_amendment failed:', error.message);
+      return this.fail('RPC_ERROR', error.message);
+    }
+    if (data && data.success === false) {
+      return this.fail(data.code || 'RPC_ERROR', data.error || 'Failed to apply amendment');
+    }
+    return { success: true, data };
+  }
+
+  /**
+   * Merge a change set into the stored contract and re-derive its schedule.
+   * Events before the effective date are kept as stored (they are history);
+   * everything from the effective date on comes from the amended terms.
+   */
+  buildApplyPlan(contract: Record<string, any>, amendment: ContractAmendment, timeZone?: string) {
+    const changes = amendment.change_set || {};
+    const removedBlocks = new Set(changes.blocks_removed || []);
+    const removedEquipment = new Set(changes.equipment_removed || []);
+    const effective = new Date(`${amendment.effective_date}T00:00:00.000Z`);
+
+    const blocksAdded = (changes.blocks_added || []).map((b, i) => ({
+      block_id: b.block_id,
+      sort_order: b.sort_order ?? (contract.blocks.length + i + 1),
+      content_snapshot: b.content_snapshot || null,
+    }));
+
+    const merged: Record<string, any> = {
+      ...contract,
+      blocks: [
+        ...contract.blocks.filter((b: any) => !removedBlocks.has(b.id)),
+        ...blocksAdded,
+      ],
+      equipment_details: [
+        ...(Array.isArray(contract.equipment_details) ? contract.equipment_details : [])
+          .filter((e: any) => !removedEquipment.has(e.id)),
+        ...(changes.equipment_added || []),
+      ],
+    };
+
+    const patch: Record<string, any> = { equipment_details: merged.equipment_details };
+
+    if (changes.total_value !== undefined) {
+      merged.total_value = changes.total_value;
+      merged.grand_total = changes.total_value;
+      patch.total_value = changes.total_value;
+      patch.grand_total = changes.total_value;
+    }
+    if (changes.duration_value !== undefined) {
+      merged.duration_value = changes.duration_value;
+      merged.duration_unit = changes.duration_unit || contract.duration_unit || 'months';
+      patch.duration_value = merged.duration_value;
+      patch.duration_unit = merged.duration_unit;
+      if (contract.start_date) {
+        const end = new Date(contract.start_date);
+        end.setUTCDate(end.getUTCDate() + durationToDays(merged.duration_value, merged.duration_unit));
+        patch.end_date = end.toISOString();
+      }
+    }
+
+    const input = deriveInputFromContract(merged, timeZone);
+    const derived: ComputedEventPayload[] = (input && deriveComputedEvents(input)) || [];
+    const futureEvents = derived.filter((e) => new Date(e.scheduled_date) >= effective);
+    const pastEvents: ComputedEventPayload[] = (Array.isArray(contract.computed_events) ? contract.computed_events : [])
+      .filter((e: ComputedEventPayload) => new Date(e.scheduled_date) < effective);
+
+    patch.computed_events = [...pastEvents, ...futureEvents];
+
+    return {
+      patch,
+      blocksAdded,
+      blocksRemoved: Array.from(removedBlocks),
+      futureEvents,
+    };
+  }
+}
+
+export const contractAmendmentService = new ContractAmendmentService();
+export default contractAmendmentService;
@@ -0,0 +1,365 @@
+// ============================================================================
+// Contract Document Service — rendered PDF + signed-document archive
+// ============================================================================
+// Renders a contract (header, ordered blocks, equipment, derived schedule,
+// acceptance trail) to PDF and archives the exact bytes of accepted versions:
+//   1. upload through storageService.uploadFile (category contract_media)
+//   2. record {contract_id, contract_version, sha256} in t_contract_documents
+//      (src/migrations/005)
+// A version is archived once. Later requests for the same version are served
+// from the archive and re-hashed, so the PDF handed out is provably the one
+// that was on record when that version was signed. Drafts and versions still
+// out for acceptance are rendered fresh and not archived.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import crypto from 'crypto';
+import axios from 'axios';
+import PDFDocument from 'pdfkit';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { storageService } from './storageService';
+import { ComputedEventPayload } from './contractEventsDerivationService';
+import { CONTRACT_STATUSES } from '../types/contractTypes';
+import { StorageFile } from '../types/storage';
+
+export interface ContractDocumentResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface ContractDocumentRecord {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  contract_version: number;
+  sha256: string;
+  file_id: string | null;
+  file_path: string | null;
+  download_url: string | null;
+  file_size: number;
+  contract_status: string | null;
+  generated_by: string | null;
+  is_live: boolean;
+  created_at: string;
+}
+
+export interface AcceptanceTrailEntry {
+  action: string;
+  performed_by?: string | null;
+  details?: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface RenderContractInput {
+  contract: Record<string, any>;
+  events: ComputedEventPayload[];
+  acceptanceTrail: AcceptanceTrailEntry[];
+}
+
+// History actions that belong in the acceptance trail (sent → viewed → signed)
+const ACCEPTANCE_ACTION_PATTERN = /accept|reject|sign|respond|claim|notify|sent|activat/i;
+
+const STORAGE_CATEGORY = 'contract_media';
+
+// Statuses a contract only reaches once the buyer has accepted the version.
+// Cancelled is left out: a contract can be cancelled before acceptance.
+const ACCEPTED_STATUSES: string[] = [
+  CONTRACT_STATUSES.ACTIVE,
+  CONTRACT_STATUSES.COMPLETED,
+  CONTRACT_STATUSES.EXPIRED
+];
+
+class ContractDocumentService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  /** Whether the contract's current version is one to archive */
+  isArchivable(contract: Record<string, any>): boolean {
+    return ACCEPTED_STATUSES.includes(String(contract.status));
+  }
+
+  /** Hex SHA-256 of a document's bytes */
+  hash(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Acceptance trail = the contract's own history filtered to
+   * send/claim/respond/activate actions, plus the CNAK access grants
+   * (without their secret codes), oldest first.
+   */
+  async getAcceptanceTrail(tenantId: string, contract: Record<string, any>): Promise<AcceptanceTrailEntry[]> {
+    const trail: AcceptanceTrailEntry[] = (Array.isArray(contract.history) ? contract.history : [])
+      .filter((h: any) => ACCEPTANCE_ACTION_PATTERN.test(String(h?.action || '')))
+      .map((h: any) => ({
+        action: String(h.action),
+        performed_by: h.performed_by_name || h.performed_by || null,
+        details: h.details || null,
+        created_at: h.created_at,
+      }));
+
+    const supabase = this.client();
+    if (supabase && contract.id) {
+      const { data, error } = await supabase
+        .from('t_contract_access')
+        .select('*')
+        .eq('contract_id', contract.id)
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.warn('[ContractDocumentService] access trail query failed:', error.message);
+      } else {
+        for (const row of data || []) {
+          const { secret_code: _secret, ...grant } = row as Record<string, any>;
+          trail.push({
+            action: `access_${grant.status || 'granted'}`,
+            performed_by: grant.responder_name || grant.accessor_name || grant.accessor_role || null,
+            details: {
+              cnak: grant.global_access_id,
+              accessor_role: grant.accessor_role,
+              responded_at: grant.responded_at || null,
+            },
+            created_at: grant.responded_at || grant.created_at,
+          });
+        }
+      }
+    }
+
+    return trail.sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+  }
+
+  /** Render the contract to PDF bytes */
+  renderPdf(input: RenderContractInput): Promise<Buffer> {
+    const { contract, events, acceptanceTrail } = input;
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: {
+          Title: `${contract.contract_number || ''} ${contract.title || contract.name || 'Contract'}`.trim(),
+          Subject: `Contract version ${contract.version ?? 1}`,
+          Creator: 'ContractNest',
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const currency = contract.currency || 'INR';
+      const money = (v: unknown) => `${currency} ${Number(v || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const day = (v: unknown) => (v ? new Date(String(v)).toISOString().slice(0, 10) : '—');
+      const section = (title: string) => {
+        doc.moveDown(1).font('Helvetica-Bold').fontSize(13).text(title);
+        doc.moveDown(0.3).font('Helvetica').fontSize(10);
+      };
+
+      // ─── Header ───
+      doc.font('Helvetica-Bold').fontSize(18).text(contract.title || contract.name || 'Contract');
+      doc.font('Helvetica').fontSize(10).fillColor('#444444')
+        .text(`${contract.contract_number || ''}  ·  Version ${contract.version ?? 1}  ·  Status: ${contract.status || '—'}`);
+      doc.fillColor('#000000').moveDown(0.5);
+      doc.text(`Buyer: ${contract.buyer_name || contract.buyer?.name || '—'}`);
+      doc.text(`Term: ${day(contract.start_date)} → ${day(contract.end_date)}`);
+      doc.text(`Total value: ${money(contract.grand_total ?? contract.total_value)}`);
+      if (contract.description) doc.moveDown(0.5).text(String(contract.description));
+
+      // ─── Blocks (ordered) ───
+      const blocks = (Array.isArray(contract.blocks) ? [...contract.blocks] : [])
+        .sort((a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+      section('Scope');
+      if (blocks.length === 0) doc.text('No blocks.');
+      blocks.forEach((b: any, i: number) => {
+        const snap = b.content_snapshot || {};
+        const name = snap.name || b.block_name || `Block ${i + 1}`;
+        doc.font('Helvetica-Bold').text(`${i + 1}. ${name}`);
+        doc.font('Helvetica');
+        const facts: string[] = [];
+        if (snap.quantity) facts.push(`Qty ${snap.unlimited ? 'unlimited' : snap.quantity}`);
+        if (snap.cycle) facts.push(`Cycle ${snap.cycle}`);
+        if (snap.totalPrice !== undefined) facts.push(money(snap.totalPrice));
+        if (facts.length) doc.text(facts.join('  ·  '));
+        const body = snap.description || snap.content || snap.text;
+        if (body) doc.text(String(body).replace(/<[^>]+>/g, ''));
+        doc.moveDown(0.3);
+      });
+
+      // ─── Equipment ───
+      const equipment = Array.isArray(contract.equipment_details) ? contract.equipment_details : [];
+      section('Equipment & Entities');
+      if (equipment.length === 0) doc.text('None listed.');
+      equipment.forEach((e: any) => {
+        const parts = [e.make, e.model, e.serial_number ? `S/N ${e.serial_number}` : null, e.location]
+          .filter(Boolean).join(' · ');
+        doc.text(`• ${e.item_name} (${e.category_name}) × ${e.quantity ?? 1}${parts ? ` — ${parts}` : ''}`);
+      });
+
+      // ─── Schedule ───
+      section('Service & Billing Schedule');
+      if (events.length === 0) doc.text('No scheduled events.');
+      events.forEach((ev) => {
+        const label = ev.event_type === 'billing'
+          ? `Billing — ${ev.block_name}${ev.billing_cycle_label ? ` (${ev.billing_cycle_label})` : ''}: ${money(ev.amount)}`
+          : `Service — ${ev.block_name} ${ev.sequence_number}/${ev.total_occurrences}`;
+        doc.text(`${day(ev.scheduled_date)}   ${label}`);
+      });
+
+      // ─── Acceptance trail ───
+      section('Acceptance Trail');
+      if (acceptanceTrail.length === 0) doc.text('Not yet accepted.');
+      acceptanceTrail.forEach((t) => {
+        const when = t.created_at ? new Date(t.created_at).toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : '—';
+        doc.text(`${when}   ${t.action}${t.performed_by ? ` — ${t.performed_by}` : ''}`);
+      });
+
+      doc.end();
+    });
+  }
+
+  /** The archived document for a contract version, if one exists */
+  async findArchived(params: {
+    tenantId: string;
+    contractId: string;
+    version: number;
+    isLive: boolean;
+  }): Promise<ContractDocumentResult<ContractDocumentRecord | null>> {
+    const supabase = this.client();
+    if (!supabase) {
+      return { success: false, error: { code: 'CONFIG', message: 'Supabase is not configured' } };
+    }
+    const { data, error } = await supabase
+      .from('t_contract_documents')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contractId)
+      .eq('contract_version', params.version)
+      .eq('is_live', params.isLive)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ContractDocumentService] findArchived failed:', error.message);
+      return { success: false, error: { code: 'DATABASE_ERROR', message: error.message } };
+    }
+    return { success: true, data: (data as ContractDocumentRecord) || null };
+  }
+
+  /**
+   * Fetch an archived PDF's bytes and verify them against the recorded hash.
+   * A mismatch means the stored object was altered — refuse to serve it.
+   */
+  async loadArchived(record: ContractDocumentRecord): Promise<ContractDocumentResult<Buffer>> {
+    if (!record.download_url) {
+      return { success: false, error: { code: 'NOT_FOUND', message: 'Archived document has no download URL' } };
+    }
+    try {
+      const response = await axios.get(record.download_url, { responseType: 'arraybuffer' });
+      const buffer = Buffer.from(response.data);
+      if (this.hash(buffer) !== record.sha256) {
+        console.error(`[ContractDocumentService] hash mismatch for document ${record.id}`);
+        return { success: false, error: { code: 'INTEGRITY_ERROR', message: 'Archived document failed integrity check' } };
+      }
+      return { success: true, data: buffer };
+    } catch (e: any) {
+      console.error('[ContractDocumentService] loadArchived error:', e.message);
+      return { success: false, error: { code: 'STORAGE_ERROR', message: 'Failed to load archived document' } };
+    }
+  }
+
+  /**
+   * Upload the PDF through storage and record its hash against the version.
+   * When a concurrent request archived the version first, the upload is
+   * deleted and the winner's record returned — its sha256 then differs from
+   * this PDF's, and the caller must serve the archived bytes instead.
+   */
+  async archive(params: {
+    authHeader: string;
+    tenantId: string;
+    contract: Record<string, any>;
+    pdf: Buffer;
+    userId?: string | null;
+    isLive: boolean;
+  }): Promise<ContractDocumentResult<ContractDocumentRecord>> {
+    const supabase = this.client();
+    if (!supabase) {
+      return { success: false, error: { code: 'CONFIG', message: 'Supabase is not configured' } };
+    }
+
+    const { contract, pdf } = params;
+    const version = Number(contract.version) || 1;
+    const sha256 = this.hash(pdf);
+    const fileName = `${contract.contract_number || contract.id}-v${version}.pdf`;
+
+    try {
+      const file: StorageFile = await storageService.uploadFile(
+        params.authHeader,
+        params.tenantId,
+        pdf,
+        fileName,
+        pdf.length,
+        'application/pdf',
+        STORAGE_CATEGORY,
+        {
+          kind: 'contract_document',
+          contract_id: String(contract.id),
+          contract_version: String(version),
+          sha256,
+        }
+      );
+
+      const { data, error } = await supabase
+        .from('t_contract_documents')
+        .insert({
+          tenant_id: params.tenantId,
+          contract_id: contract.id,
+          contract_version: version,
+          sha256,
+          file_id: file.id || null,
+          file_path: file.file_path || null,
+          download_url: file.download_url || null,
+          file_size: pdf.length,
+          contract_status: contract.status || null,
+          generated_by: params.userId || null,
+          is_live: params.isLive,
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        // Unique (contract, version) — a concurrent request archived first
+        if (error.code === '23505') {
+          await storageService.deleteFile(params.authHeader, params.tenantId, file.id).catch((e: any) => {
+            console.error('[ContractDocumentService] could not delete the duplicate upload:', e.message);
+          });
+          const winner = await this.findArchived({
+            tenantId: params.tenantId,
+            contractId: String(contract.id),
+            version,
+            isLive: params.isLive
+          });
+          if (!winner.success) return { success: false, error: winner.error };
+          if (!winner.data) {
+            return { success: false, error: { code: 'DATABASE_ERROR', message: 'Archived document not found after a concurrent archive' } };
+          }
+          return { success: true, data: winner.data };
+        }
+        console.error('[ContractDocumentService] archive insert failed:', error.message);
+        return { success: false, error: { code: 'DATABASE_ERROR', message: error.message } };
+      }
+      return { success: true, data: data as ContractDocumentRecord };
+    } catch (e: any) {
+      console.error('[ContractDocumentService] archive error:', e.message);
+      return { success: false, error: { code: 'STORAGE_ERROR', message: e.message || 'Failed to archive document' } };
+    }
+  }
+}
+
+export const contractDocumentService = new ContractDocumentService();
+export default contractDocumentService;
@@ -15,12 +15,17 @@
 // algorithm must be mirrored here (and vice versa). The parity test at
 // src/__tests__/contractEventsDerivationParity.ts enforces this.
 //
-// TIMEZONE NOTE: like the UI, date arithmetic uses local-time Date methods
-// (setDate/setMonth). Run the API with the same TZ as the tenant's users
-// (e.g. TZ=Asia/Kolkata) for day-identical output. IST has no DST, so
-// results are stable within a timezone.
+// TIMEZONE NOTE: the UI does date arithmetic with local-time Date methods
+// (setDate/setMonth) in the user's browser zone. Pass `timeZone` (the
+// tenant's IANA zone, see tenantTimeZoneService) and the same calendar
+// arithmetic runs on wall-clock time in that zone — output is identical to
+// the UI running in that zone, whatever the process TZ, DST included.
+// Without `timeZone` the process-local behaviour is kept (parity with a
+// browser in the server's zone).
 // ============================================================================
 
+import { grossUpFactor } from '../utils/taxCalculation';
+
 // ─── Types ───
 // Mirrors the fields of ConfigurableBlock (contractnest-ui) that the
 // computation actually reads. Anything else on the block is ignored.
@@ -69,6 +74,8 @@ export interface DeriveEventsInput {
   // via grandTotal, which is computed post-discount.
   baseSubtotal?: number;
   discountTotal?: number;
+  /** IANA zone the calendar is kept in (e.g. 'Asia/Dubai'); default: process TZ */
+  timeZone?: string;
 }
 
 /** Internal computed event (dates as Date, mirrors UI ContractEvent) */
@@ -147,19 +154,97 @@ export function durationToDays(value: number, unit: string): number {
 }
 
 /** Add days to a date (returns new Date) */
-function addDays(date: Date, days: number): Date {
+function addDays(date: Date, days: number, timeZone?: string): Date {
+  if (timeZone) return shiftInZone(date, timeZone, 0, days);
   const result = new Date(date);
   result.setDate(result.getDate() + days);
   return result;
 }
 
 /** Add months to a date */
-function addMonths(date: Date, months: number): Date {
+function addMonths(date: Date, months: number, timeZone?: string): Date {
+  if (timeZone) return shiftInZone(date, timeZone, months, 0);
   const result = new Date(date);
   result.setMonth(result.getMonth() + months);
   return result;
 }
 
+// ─── Zoned calendar arithmetic ───
+// setDate/setMonth semantics evaluated in an explicit IANA zone instead of
+// the process zone: read the wall clock in the zone, move the calendar
+// fields (Date.UTC normalises overflow exactly like setDate/setMonth), and
+// map the new wall clock back to an instant. Wall-clock time of day is kept
+// across DST changes, as the browser does.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = zoneFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/** Wall-clock fields of `utcMs` in the zone, as a UTC timestamp */
+export function wallClockMs(utcMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of zoneFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  const ms = ((utcMs % 1000) + 1000) % 1000;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, ms);
+}
+
+/** Zone offset (ms, east positive) in effect at an instant */
+function zoneOffsetMs(utcMs: number, timeZone: string): number {
+  return wallClockMs(utcMs, timeZone) - utcMs;
+}
+
+/**
+ * Instant for a wall-clock time in the zone. Same resolution as local-time
+ * Date: a time skipped by a DST gap moves forward, an ambiguous time takes
+ * the earlier instant.
+ */
+export function instantFromWallClock(wallMs: number, timeZone: string): Date {
+  // Zone transitions are never less than a day apart, so the offsets a day
+  // either side are the two that can apply to this wall-clock time
+  const offsetBefore = zoneOffsetMs(wallMs - DAY_MS, timeZone);
+  const offsetAfter = zoneOffsetMs(wallMs + DAY_MS, timeZone);
+  const candidates = [wallMs - offsetBefore, wallMs - offsetAfter]
+    .filter((t) => wallClockMs(t, timeZone) === wallMs);
+  if (candidates.length > 0) return new Date(Math.min(...candidates));
+  // DST gap: interpret with the offset in force before the transition
+  return new Date(wallMs - offsetBefore);
+}
+
+function shiftInZone(date: Date, timeZone: string, months: number, days: number): Date {
+  const wall = new Date(wallClockMs(date.getTime(), timeZone));
+  const shifted = Date.UTC(
+    wall.getUTCFullYear(), wall.getUTCMonth() + months, wall.getUTCDate() + days,
+    wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds()
+  );
+  return instantFromWallClock(shifted, timeZone);
+}
+
+/** True when `timeZone` is an IANA zone this runtime knows */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /** Deterministic event ID */
 function makeEventId(blockId: string, eventType: EventType, seq: number): string {
   return `evt_${eventType}_${blockId.slice(0, 8)}_${seq}`;
@@ -215,6 +300,8 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
     baseSubtotal,
     discountTotal,
   } = input;
+  // Unknown zone → process-local arithmetic rather than a thrown RangeError
+  const timeZone = input.timeZone && isValidTimeZone(input.timeZone) ? input.timeZone : undefined;
 
   const startDate = input.startDate instanceof Date
     ? input.startDate
@@ -222,7 +309,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
 
   const events: DerivedEvent[] = [];
   const totalDays = durationToDays(durationValue, durationUnit);
-  const endDate = addDays(startDate, totalDays);
+  const endDate = addDays(startDate, totalDays, timeZone);
   // Contract-level discount loaded pro-rata into every block's billed total
   // (1:1 port of the UI branch in contractEvents.ts)
   const discountFactor = baseSubtotal && baseSubtotal > 0 && discountTotal
@@ -245,7 +332,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
       // Recurring service: qty events, each serviceCycleDays apart
       for (let i = 0; i < qty; i++) {
         const dayOffset = i * block.serviceCycleDays;
-        const date = addDays(startDate, dayOffset);
+        const date = addDays(startDate, dayOffset, timeZone);
 
         events.push({
           id: makeEventId(block.id, 'service', i + 1),
@@ -301,7 +388,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
     // EMI: N monthly installments
     const installment = Math.round((grandTotal / emiMonths) * 100) / 100;
     for (let i = 0; i < emiMonths; i++) {
-      const date = i === 0 ? new Date(startDate) : addMonths(startDate, i);
+      const date = i === 0 ? new Date(startDate) : addMonths(startDate, i, timeZone);
       events.push({
         id: makeEventId('emi', 'billing', i + 1),
         block_id: '_emi',
@@ -381,7 +468,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
         const preTaxFinal = remMonths > 0
           ? (typeof cfg?.cadenceFinalPayment === 'number' ? cfg.cadenceFinalPayment : Math.round((effRate * remMonths) / periodMonths))
           : 0;
-        const taxFactor = (block.taxRate || 0) > 0 && block.taxInclusion === 'exclusive' ? 1 + (block.taxRate || 0) / 100 : 1;
+        const taxFactor = grossUpFactor(block.taxRate, block.taxInclusion);
         const finalWithTax = Math.round(preTaxFinal * taxFactor * discountFactor * 100) / 100;
         const count = fullPayments + (finalWithTax > 0 ? 1 : 0);
         const perPeriodAmount = fullPayments > 0
@@ -390,7 +477,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
 
         const startIdx = events.length;
         for (let i = 0; i < fullPayments; i++) {
-          const date = addDays(startDate, i * periodDays);
+          const date = addDays(startDate, i * periodDays, timeZone);
           if (date > endDate) break;
           events.push({
             id: makeEventId(block.id, 'billing', i + 1),
@@ -417,7 +504,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
         }
         // Seller-decided final payment for the leftover months
         if (finalWithTax > 0) {
-          const date = addDays(startDate, fullPayments * periodDays);
+          const date = addDays(startDate, fullPayments * periodDays, timeZone);
           events.push({
             id: makeEventId(block.id, 'billing', fullPayments + 1),
             block_id: block.id,
@@ -442,7 +529,7 @@ export function deriveContractEvents(input: DeriveEventsInput): DerivedEvent[] {
         const perPeriodAmount = Math.round((blockTotal / count) * 100) / 100;
 
         for (let i = 0; i < count; i++) {
-          const date = addDays(startDate, i * periodDays);
+          const date = addDays(startDate, i * periodDays, timeZone);
           // Don't generate events past the contract end
           if (date > endDate) break;
 
@@ -516,3 +603,163 @@ export function deriveComputedEvents(input: DeriveEventsInput): ComputedEventPay
     };
   });
 }
+
+// ─── Working calendar (weekly offs + tenant holidays) ───
+// The wizard schedules visits on whatever day the arithmetic lands on. The
+// tenant's cadence settings (cadenceSettingsService) name the days nobody
+// works; service events landing on one are moved to the nearest working day
+// in the policy's direction. Moves are expressed as eventOverrides — the
+// same mechanism as a date the user adjusted in the preview — so the
+// payload is still exactly what the UI produces for those overrides.
+// Billing events are never moved (invoices are dated by the schedule).
+
+export type CalendarShift = 'next' | 'previous';
+
+export interface WorkingCalendar {
+  /** Weekday indices that are off, 0 = Sunday … 6 = Saturday */
+  weeklyHolidays: number[];
+  /** Tenant holidays as calendar dates 'YYYY-MM-DD' */
+  holidays: string[];
+  /** Direction to move an event that lands on a non-working day */
+  shift: CalendarShift;
+}
+
+export interface WorkingCalendarResult {
+  /** Derivation input with the calendar moves merged into eventOverrides */
+  input: DeriveEventsInput;
+  /** Only the moves made by the calendar (event id → ISO date) */
+  calendarOverrides: Record<string, string>;
+}
+
+// A week of consecutive non-working days means the calendar is unusable;
+// beyond that the event stays where the arithmetic put it
+const MAX_CALENDAR_SHIFT_DAYS = 14;
+
+/** Calendar date and weekday of an instant, in the zone (or process-local) */
+function calendarDay(date: Date, timeZone?: string): { key: string; weekday: number } {
+  if (timeZone) {
+    const wall = new Date(wallClockMs(date.getTime(), timeZone));
+    return { key: wall.toISOString().slice(0, 10), weekday: wall.getUTCDay() };
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    key: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    weekday: date.getDay(),
+  };
+}
+
+/**
+ * Apply a working calendar to a derivation input. Service events without an
+ * explicit override that fall on a weekly off or holiday are moved; explicit
+ * overrides (user-adjusted dates) always win. A 'previous' move that would
+ * land before the contract start goes forward instead.
+ */
+export function applyWorkingCalendar(input: DeriveEventsInput, calendar: WorkingCalendar): WorkingCalendarResult {
+  const timeZone = input.timeZone && isValidTimeZone(input.timeZone) ? input.timeZone : undefined;
+  const weeklyOff = new Set(calendar.weeklyHolidays || []);
+  const holidays = new Set(calendar.holidays || []);
+  const explicit = input.eventOverrides || {};
+  const calendarOverrides: Record<string, string> = {};
+
+  const isWorkingDay = (date: Date): boolean => {
+    const day = calendarDay(date, timeZone);
+    return !weeklyOff.has(day.weekday) && !holidays.has(day.key);
+  };
+
+  const findWorkingDay = (from: Date, step: number): Date | null => {
+    for (let i = 1; i <= MAX_CALENDAR_SHIFT_DAYS; i++) {
+      const candidate = addDays(from, step * i, timeZone);
+      if (isWorkingDay(candidate)) return candidate;
+    }
+    return null;
+  };
+
+  if (weeklyOff.size > 0 || holidays.size > 0) {
+    const startDate = input.startDate instanceof Date ? input.startDate : new Date(input.startDate);
+    const contractStartKey = calendarDay(startDate, timeZone).key;
+
+    for (const event of deriveContractEvents(input)) {
+      if (event.event_type !== 'service' || explicit[event.id] !== undefined) continue;
+      if (isWorkingDay(event.scheduled_date)) continue;
+
+      let moved = calendar.shift === 'previous' ? findWorkingDay(event.scheduled_date, -1) : null;
+      if (moved && calendarDay(moved, timeZone).key < contractStartKey) moved = null;
+      if (!moved) moved = findWorkingDay(event.scheduled_date, 1);
+      if (moved) calendarOverrides[event.id] = moved.toISOString();
+    }
+  }
+
+  return {
+    input: { ...input, eventOverrides: { ...calendarOverrides, ...explicit } },
+    calendarOverrides,
+  };
+}
+
+// ─── Stored contract → derivation input ───
+// Server-side consumers (document rendering, re-derivation) start from a
+// t_contracts record rather than wizard state. The record carries the same
+// terms in snake_case; blocks carry the wizard's ConfigurableBlock in
+// content_snapshot. Returns null when the record lacks the terms needed to
+// derive (legacy contracts) — callers fall back to stored computed_events.
+
+export function deriveInputFromContract(contract: Record<string, any>, timeZone?: string): DeriveEventsInput | null {
+  if (!contract || !contract.start_date) return null;
+
+  const durationValue = Number(contract.duration_value);
+  if (!durationValue || durationValue <= 0) return null;
+
+  const selectedBlocks: DerivationBlock[] = (Array.isArray(contract.blocks) ? contract.blocks : [])
+    .map((row: any) => {
+      const snap = row?.content_snapshot || {};
+      return {
+        id: String(snap.id || row.block_id || row.id || ''),
+        name: String(snap.name || row.block_name || ''),
+        categoryId: snap.categoryId || snap.category_id || row.category_id || undefined,
+        quantity: Number(snap.quantity ?? row.quantity) || 1,
+        cycle: String(snap.cycle || row.cycle || 'prepaid'),
+        customCycleDays: snap.customCycleDays ?? undefined,
+        serviceCycleDays: snap.serviceCycleDays ?? undefined,
+        unlimited: !!snap.unlimited,
+        currency: snap.currency || undefined,
+        totalPrice: Number(snap.totalPrice ?? row.total_price) || 0,
+        price: snap.price ?? undefined,
+        taxRate: snap.taxRate ?? undefined,
+        taxInclusion: snap.taxInclusion ?? undefined,
+        config: snap.config ?? undefined,
+      } as DerivationBlock;
+    })
+    .filter((b: DerivationBlock) => !!b.id);
+
+  return {
+    startDate: contract.start_date,
+    durationValue,
+    durationUnit: String(contract.duration_unit || 'months'),
+    selectedBlocks,
+    paymentMode: (contract.payment_mode as DeriveEventsInput['paymentMode']) || 'prepaid',
+    emiMonths: Number(contract.emi_months) || 0,
+    perBlockPaymentType: contract.per_block_payment_type || {},
+    billingCycleType: contract.billing_cycle_type ?? null,
+    grandTotal: Number(contract.grand_total ?? contract.total_value) || 0,
+    currency: String(contract.currency || 'INR'),
+    eventOverrides: contract.event_overrides || undefined,
+    baseSubtotal: Number(contract.base_subtotal) || undefined,
+    discountTotal: Number(contract.discount_total) || undefined,
+    timeZone,
+  };
+}
+
+/**
+ * A stored contract's explicit (user-set) overrides: event_overrides minus
+ * the moves the last working-calendar pass recorded in calendar_overrides.
+ * Re-derivation starts from these so calendar moves are recomputed against
+ * the current calendar instead of being frozen in.
+ */
+export function explicitEventOverrides(contract: Record<string, any>): Record<string, string> {
+  const stored: Record<string, string> = contract?.event_overrides || {};
+  const calendar: Record<string, string> = contract?.calendar_overrides || {};
+  const explicit: Record<string, string> = {};
+  for (const [eventId, date] of Object.entries(stored)) {
+    if (calendar[eventId] !== date) explicit[eventId] = date;
+  }
+  return explicit;
+}
@@ -0,0 +1,623 @@
+// ============================================================================
+// Contract Renewal Service — expiry scan + renewal drafts (src/migrations/007)
+// ============================================================================
+// Finds active contracts whose end date falls inside the tenant's renewal
+// window, and drafts a renewal contract for them (same blocks and equipment,
+// next term, optional price escalation). The draft is created through
+// contractService.createContract — the same edge path as every other
+// contract — so numbering, history and notifications behave exactly as for
+// a hand-made contract.
+// t_contract_renewals is claimed before the draft is created, so a contract
+// can only be renewed once per environment; the claim is given back when the
+// draft is not created.
+// Drafting runs on request (POST /:id/renew) and, for tenants with
+// auto_draft on (src/migrations/032), on a schedule: each sweep drafts the
+// renewal of every live contract in the window that has none yet. The sweep
+// has no user JWT and calls the contracts edge function with the service
+// role key, as buyerPortalService does for tickets.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import ContractService from './contractService';
+import cadenceSettingsService from './cadenceSettingsService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import { captureException } from '../utils/sentry';
+import {
+  applyWorkingCalendar,
+  deriveComputedEvents,
+  deriveInputFromContract,
+  durationToDays,
+  WorkingCalendar
+} from './contractEventsDerivationService';
+import {
+  CONTRACT_STATUSES,
+  RENEWAL_STATUSES,
+  ContractRenewal,
+  ContractRenewalSettings,
+  RenewContractResult,
+  RenewalDueItem,
+  RenewalSweepResult
+} from '../types/contractTypes';
+
+export interface RenewalServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export const DEFAULT_RENEWAL_SETTINGS: ContractRenewalSettings = {
+  window_days: 60,
+  escalation_percent: 0,
+  notify_buyer: true,
+  auto_draft: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Drafts per tenant per sweep; the next sweep continues
+const MAX_DRAFTS_PER_TENANT = 50;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+// Term/billing columns carried over unchanged from the expiring contract
+const CARRIED_FIELDS = [
+  'contract_type', 'description', 'acceptance_method', 'currency',
+  'payment_terms', 'renewal_terms', 'termination_clause', 'nomenclature_id',
+  'buyer_id', 'buyer_name', 'buyer_email', 'buyer_phone', 'template_id',
+  'duration_value', 'duration_unit', 'grace_period_value', 'grace_period_unit',
+  'payment_mode', 'emi_months', 'per_block_payment_type', 'billing_cycle_type',
+];
+
+// Money columns scaled by the escalation factor
+const ESCALATED_FIELDS = ['total_value', 'grand_total', 'base_subtotal', 'discount_total', 'tax_total'];
+
+class ContractRenewalService {
+  private contracts: ContractService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): RenewalServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  private contractService(): ContractService {
+    if (!this.contracts) this.contracts = new ContractService();
+    return this.contracts;
+  }
+
+  // ==========================================================================
+  // Settings
+  // ==========================================================================
+
+  async getSettings(tenantId: string): Promise<RenewalServiceResult<ContractRenewalSettings>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_renewal_settings')
+      .select('window_days, escalation_percent, notify_buyer, auto_draft')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return { success: true, data: { ...DEFAULT_RENEWAL_SETTINGS } };
+    return {
+      success: true,
+      data: {
+        window_days: Number(data.window_days),
+        escalation_percent: Number(data.escalation_percent),
+        notify_buyer: !!data.notify_buyer,
+        auto_draft: !!data.auto_draft,
+      },
+    };
+  }
+
+  async updateSettings(
+    tenantId: string,
+    patch: Partial<ContractRenewalSettings>,
+    userId?: string | null
+  ): Promise<RenewalServiceResult<ContractRenewalSettings>> {
+    const current = await this.getSettings(tenantId);
+    if (!current.success || !current.data) return current;
+
+    const supabase = this.client()!;
+    const next: ContractRenewalSettings = { ...current.data, ...patch };
+    const { error } = await supabase
+      .from('t_contract_renewal_settings')
+      .upsert({
+        tenant_id: tenantId,
+        ...next,
+        updated_by: userId ?? null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'tenant_id' });
+
+    if (error) {
+      console.error('[ContractRenewalService] updateSettings failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: next };
+  }
+
+  // ==========================================================================
+  // Expiry scan
+  // ==========================================================================
+
+  /**
+   * Active contracts ending between today and today + window, soonest first,
+   * each with the renewal already drafted for it (if any).
+   */
+  async listDue(params: {
+    tenantId: string;
+    isLive: boolean;
+    windowDays?: number;
+    includeRenewed?: boolean;
+  }): Promise<RenewalServiceResult<{ window_days: number; items: RenewalDueItem[] }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    let windowDays = params.windowDays;
+    if (!windowDays) {
+      const settings = await this.getSettings(params.tenantId);
+      if (!settings.success || !settings.data) return this.fail(settings.error!.code, settings.error!.message);
+      windowDays = settings.data.window_days;
+    }
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + windowDays * DAY_MS);
+
+    const { data: contracts, error } = await supabase
+      .from('t_contracts')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('is_live', params.isLive)
+      .eq('record_type', 'contract')
+      .eq('status', CONTRACT_STATUSES.ACTIVE)
+      .gte('end_date', now.toISOString())
+      .lte('end_date', horizon.toISOString())
+      .order('end_date', { ascending: true });
+
+    if (error) {
+      console.error('[ContractRenewalService] listDue failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+
+    const rows = contracts || [];
+    const renewals = new Map<string, ContractRenewal>();
+    if (rows.length > 0) {
+      const { data: links, error: linkError } = await supabase
+        .from('t_contract_renewals')
+        .select('*')
+        .eq('is_live', params.isLive)
+        .in('source_contract_id', rows.map((c: any) => c.id));
+      if (linkError) return this.fail('DATABASE_ERROR', linkError.message);
+      (links || []).forEach((l: any) => renewals.set(l.source_contract_id, l as ContractRenewal));
+    }
+
+    const items: RenewalDueItem[] = rows
+      .map((c: any) => ({
+        contract_id: c.id,
+        contract_number: c.contract_number ?? null,
+        title: c.title || c.name || null,
+        buyer_id: c.buyer_id ?? null,
+        buyer_name: c.buyer_name ?? null,
+        end_date: c.end_date,
+        days_to_expiry: Math.max(0, Math.ceil((new Date(c.end_date).getTime() - now.getTime()) / DAY_MS)),
+        total_value: c.grand_total ?? c.total_value ?? null,
+        currency: c.currency ?? null,
+        renewal: renewals.get(c.id) || null,
+      }))
+      .filter((item: RenewalDueItem) => params.includeRenewed || !item.renewal);
+
+    return { success: true, data: { window_days: windowDays, items } };
+  }
+
+  // ==========================================================================
+  // Drafting
+  // ==========================================================================
+
+  /**
+   * Draft the renewal of an active contract: claim the slot, create the
+   * next-term contract and notify the buyer (settings.notify_buyer unless
+   * `notify` says otherwise). Anything that stops the draft being created —
+   * a thrown error included — releases the claim, so the contract can be
+   * renewed again. DUPLICATE_FOUND when it already has a renewal.
+   */
+  async renew(params: {
+    tenantId: string;
+    contractId: string;
+    /** Bearer token for the contracts edge function */
+    userJWT: string;
+    environment: string;
+    userId?: string | null;
+    escalationPercent?: number;
+    notify?: boolean;
+    startDate?: string | null;
+    notification?: Record<string, any>;
+  }): Promise<RenewalServiceResult<RenewContractResult>> {
+    const { tenantId, contractId, userJWT, environment } = params;
+    const contracts = this.contractService();
+
+    const settings = await this.getSettings(tenantId);
+    if (!settings.success || !settings.data) return this.fail(settings.error!.code, settings.error!.message);
+
+    const sourceResult = await contracts.getContractById(contractId, userJWT, tenantId, environment);
+    if (!sourceResult.success) {
+      return this.fail(sourceResult.code || 'EDGE_FUNCTION_ERROR', String(sourceResult.error || 'Contract could not be loaded'));
+    }
+    const source = (sourceResult.data || sourceResult) as Record<string, any>;
+
+    if (source.status !== CONTRACT_STATUSES.ACTIVE) {
+      return this.fail('INVALID_TRANSITION', `Only active contracts can be renewed (status is '${source.status}')`);
+    }
+
+    const escalationPercent = params.escalationPercent ?? settings.data.escalation_percent;
+    const notify = params.notify ?? settings.data.notify_buyer;
+
+    const claim = await this.claim({
+      tenantId,
+      sourceContractId: contractId,
+      sourceVersion: source.version ?? null,
+      escalationPercent,
+      previousTotal: source.grand_total ?? source.total_value ?? null,
+      userId: params.userId ?? null,
+      isLive: environment !== 'test'
+    });
+    if (!claim.success || !claim.data) return this.fail(claim.error!.code, claim.error!.message);
+
+    let renewalContract: Record<string, any> | null = null;
+    let renewedTotal: number | null = null;
+    try {
+      // Best-effort: without cadence settings the draft keeps the raw schedule
+      const calendar = await cadenceSettingsService.getWorkingCalendar(tenantId);
+      const draft = this.buildRenewalDraft(source, {
+        escalationPercent,
+        startDate: params.startDate,
+        timeZone: await tenantTimeZoneService.getTimeZone(tenantId),
+        calendar: calendar.success ? calendar.data : null
+      });
+      renewedTotal = draft.renewedTotal;
+
+      const created = await contracts.createContract(
+        draft.payload,
+        userJWT,
+        tenantId,
+        params.userId || '',
+        environment,
+        `renewal-${contractId}-v${source.version ?? 1}`
+      );
+      if (!created.success) {
+        return this.fail(created.code || 'EDGE_FUNCTION_ERROR', String(created.error || 'Renewal contract could not be created'));
+      }
+      renewalContract = (created.data || created) as Record<string, any>;
+    } finally {
+      if (!renewalContract) await this.release(claim.data.id);
+    }
+
+    let renewal = (await this.markDrafted(claim.data.id, renewalContract.id || null, renewedTotal)).data
+      || claim.data;
+
+    let notification: any = null;
+    if (notify && renewalContract.id) {
+      const notifyResult = await contracts.sendNotification(
+        renewalContract.id,
+        params.notification || {},
+        userJWT,
+        tenantId,
+        environment
+      );
+      notification = notifyResult.success
+        ? (notifyResult.data || notifyResult)
+        : { error: notifyResult.error || 'Notification failed' };
+      // The draft stands even if the send fails — the seller can re-send via /:id/notify
+      renewal = (await this.markNotified(
+        claim.data.id,
+        notifyResult.success ? null : String(notifyResult.error || 'Notification failed')
+      )).data || renewal;
+    }
+
+    return { success: true, data: { renewal, contract: renewalContract, notification } };
+  }
+
+  // ==========================================================================
+  // Scheduled drafting
+  // ==========================================================================
+
+  /** Start the periodic sweep (RENEWAL_SWEEP_INTERVAL_MS, default 6 h) */
+  start(intervalMs: number = Number(process.env.RENEWAL_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (!this.client() || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      console.warn('[ContractRenewalService] Supabase service role is not configured — renewal sweep not started');
+      return;
+    }
+
+    const tick = () => {
+      if (this.running) return; // previous sweep still going
+      this.running = true;
+      this.sweep()
+        .then((result) => {
+          if (!result.success) {
+            console.error('[ContractRenewalService] sweep failed:', result.error?.message);
+          } else if (result.data && (result.data.drafted > 0 || result.data.failed > 0)) {
+            console.log('[ContractRenewalService] sweep:', JSON.stringify(result.data));
+          }
+        })
+        .finally(() => { this.running = false; });
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    // Never keep the process alive just for the sweep
+    this.timer.unref();
+    tick();
+    console.log(`✅ Renewal sweep started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One sweep: for every tenant with auto_draft on (or only `tenantId`),
+   * draft the renewal of each live contract in its window that has none.
+   * Test-environment contracts are left to the manual flow.
+   */
+  async sweep(options: { tenantId?: string } = {}): Promise<RenewalServiceResult<RenewalSweepResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const result: RenewalSweepResult = { tenants: 0, drafted: 0, failed: 0 };
+    const serviceToken = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+    try {
+      let query = supabase
+        .from('t_contract_renewal_settings')
+        .select('tenant_id')
+        .eq('auto_draft', true);
+      if (options.tenantId) query = query.eq('tenant_id', options.tenantId);
+      const { data: tenants, error } = await query;
+      if (error) throw new Error(`settings lookup failed: ${error.message}`);
+
+      for (const { tenant_id: tenantId } of (tenants || []) as Array<{ tenant_id: string }>) {
+        result.tenants++;
+        try {
+          const due = await this.listDue({ tenantId, isLive: true });
+          if (!due.success || !due.data) throw new Error(due.error?.message || 'expiry scan failed');
+
+          for (const item of due.data.items.slice(0, MAX_DRAFTS_PER_TENANT)) {
+            const drafted = await this.renew({
+              tenantId,
+              contractId: item.contract_id,
+              userJWT: serviceToken,
+              environment: 'live',
+            });
+            if (drafted.success) {
+              result.drafted++;
+            } else if (drafted.error?.code !== 'DUPLICATE_FOUND') {
+              // Drafted meanwhile by hand is fine; anything else is retried next sweep
+              result.failed++;
+              console.warn(`[ContractRenewalService] renewal of contract ${item.contract_id} failed:`, drafted.error?.message);
+            }
+          }
+        } catch (tenantError: any) {
+          // One tenant's failure must not stop the others
+          console.error(`[ContractRenewalService] sweep for tenant ${tenantId} failed:`, tenantError?.message);
+          captureException(tenantError instanceof Error ? tenantError : new Error(String(tenantError)), {
+            tags: { component: 'ContractRenewalService', action: 'sweepTenant' },
+            extra: { tenantId },
+          });
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { component: 'ContractRenewalService', action: 'sweep' },
+      });
+      return this.fail('RENEWAL_SWEEP_FAILED', error?.message || 'Renewal sweep failed');
+    }
+  }
+
+  // ==========================================================================
+  // Renewal lifecycle
+  // ==========================================================================
+
+  /**
+   * Reserve the renewal slot for a contract. Fails with DUPLICATE_FOUND when
+   * a renewal was already drafted (or is being drafted) for it.
+   */
+  async claim(params: {
+    tenantId: string;
+    sourceContractId: string;
+    sourceVersion: number | null;
+    escalationPercent: number;
+    previousTotal: number | null;
+    userId?: string | null;
+    isLive: boolean;
+  }): Promise<RenewalServiceResult<ContractRenewal>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_renewals')
+      .insert({
+        tenant_id: params.tenantId,
+        source_contract_id: params.sourceContractId,
+        source_version: params.sourceVersion,
+        status: RENEWAL_STATUSES.DRAFTING,
+        escalation_percent: params.escalationPercent,
+        previous_total: params.previousTotal,
+        created_by: params.userId ?? null,
+        is_live: params.isLive,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // t_contract_renewals_source_unique
+      if (error.code === '23505') {
+        return this.fail('DUPLICATE_FOUND', 'A renewal has already been drafted for this contract');
+      }
+      console.error('[ContractRenewalService] claim failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as ContractRenewal };
+  }
+
+  /** Give the slot back when the draft could not be created */
+  async release(renewalId: string): Promise<void> {
+    const supabase = this.client();
+    if (!supabase) return;
+    const { error } = await supabase
+      .from('t_contract_renewals')
+      .delete()
+      .eq('id', renewalId)
+      .eq('status', RENEWAL_STATUSES.DRAFTING);
+    if (error) console.error('[ContractRenewalService] release failed:', error.message);
+  }
+
+  async markDrafted(
+    renewalId: string,
+    renewalContractId: string | null,
+    renewedTotal: number | null
+  ): Promise<RenewalServiceResult<ContractRenewal>> {
+    return this.update(renewalId, {
+      status: RENEWAL_STATUSES.DRAFTED,
+      renewal_contract_id: renewalContractId,
+      renewed_total: renewedTotal,
+    });
+  }
+
+  /** Record the buyer notification outcome; a failed send keeps 'drafted' */
+  async markNotified(renewalId: string, errorMessage?: string | null): Promise<RenewalServiceResult<ContractRenewal>> {
+    return this.update(renewalId, errorMessage
+      ? { notification_error: errorMessage }
+      : { status: RENEWAL_STATUSES.NOTIFIED, notified_at: new Date().toISOString(), notification_error: null });
+  }
+
+  private async update(renewalId: string, patch: Record<string, any>): Promise<RenewalServiceResult<ContractRenewal>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_renewals')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', renewalId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[ContractRenewalService] update failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as ContractRenewal };
+  }
+
+  // ==========================================================================
+  // Draft builder
+  // ==========================================================================
+
+  /**
+   * Build the create-contract payload for the next term of `source` (a
+   * ContractDetail from getContractById). Blocks and equipment are copied,
+   * block prices and contract totals are scaled by the escalation, and the
+   * schedule is re-derived for the new dates (moved off the tenant's
+   * non-working days when a calendar is given).
+   */
+  buildRenewalDraft(
+    source: Record<string, any>,
+    options: { escalationPercent: number; startDate?: string | null; timeZone?: string; calendar?: WorkingCalendar | null }
+  ): { payload: Record<string, any>; renewedTotal: number | null } {
+    const factor = 1 + (Number(options.escalationPercent) || 0) / 100;
+    const scale = (v: any) => (typeof v === 'number' || (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))))
+      ? round2(Number(v) * factor)
+      : v;
+
+    // New term starts the day after the current one ends
+    let start: Date;
+    if (options.startDate) {
+      start = new Date(options.startDate);
+    } else {
+      start = new Date(source.end_date || Date.now());
+      start.setUTCDate(start.getUTCDate() + 1);
+    }
+    const durationValue = Number(source.duration_value) || 0;
+    const durationUnit = String(source.duration_unit || 'months');
+    let end: Date | null = null;
+    if (durationValue > 0) {
+      end = new Date(start);
+      end.setUTCDate(end.getUTCDate() + durationToDays(durationValue, durationUnit));
+    } else if (source.start_date && source.end_date) {
+      // No explicit duration — keep the same term length
+      const span = new Date(source.end_date).getTime() - new Date(source.start_date).getTime();
+      end = new Date(start.getTime() + span);
+    }
+
+    const blocks = (Array.isArray(source.blocks) ? [...source.blocks] : [])
+      .sort((a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      .map((b: any, i: number) => {
+        const snap = { ...(b.content_snapshot || {}) };
+        if (snap.totalPrice !== undefined) snap.totalPrice = scale(snap.totalPrice);
+        if (typeof snap.price === 'number' || typeof snap.price === 'string') snap.price = scale(snap.price);
+        return { block_id: b.block_id, sort_order: b.sort_order ?? i, content_snapshot: snap };
+      });
+
+    const payload: Record<string, any> = {
+      record_type: 'contract',
+      title: source.title || source.name,
+    };
+    CARRIED_FIELDS.forEach((f) => {
+      if (source[f] !== undefined && source[f] !== null) payload[f] = source[f];
+    });
+    ESCALATED_FIELDS.forEach((f) => {
+      if (source[f] !== undefined && source[f] !== null) payload[f] = scale(source[f]);
+    });
+
+    payload.start_date = start.toISOString();
+    if (end) payload.end_date = end.toISOString();
+    payload.blocks = blocks;
+    payload.equipment_details = Array.isArray(source.equipment_details) ? source.equipment_details : [];
+    payload.vendors = (Array.isArray(source.vendors) ? source.vendors : []).map((v: any) => ({
+      contact_id: v.contact_id,
+      role: v.role ?? undefined,
+      is_primary: v.is_primary ?? undefined,
+    }));
+    payload.metadata = {
+      ...(source.metadata || {}),
+      renewal_of: {
+        contract_id: source.id,
+        contract_number: source.contract_number ?? null,
+        version: source.version ?? null,
+        escalation_percent: Number(options.escalationPercent) || 0,
+      },
+    };
+
+    let input = deriveInputFromContract(payload, options.timeZone);
+    if (input && options.calendar) {
+      // New term, new event ids — no user overrides carry over, only calendar moves
+      const applied = applyWorkingCalendar({ ...input, eventOverrides: undefined }, options.calendar);
+      input = applied.input;
+      payload.event_overrides = applied.calendarOverrides;
+      payload.calendar_overrides = applied.calendarOverrides;
+    }
+    if (input) {
+      const events = deriveComputedEvents(input);
+      if (events) payload.computed_events = events;
+    }
+
+    const renewedTotal = payload.grand_total ?? payload.total_value ?? null;
+    return { payload, renewedTotal: renewedTotal === null ? null : Number(renewedTotal) };
+  }
+}
+
+export const contractRenewalService = new ContractRenewalService();
+export default contractRenewalService;
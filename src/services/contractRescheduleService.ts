@@ -0,0 +1,196 @@
+// ============================================================================
+// Contract Reschedule Service — working-calendar re-derivation (src/migrations/010)
+// ============================================================================
+// Re-derives an existing contract's schedule against the tenant's current
+// working calendar (cadence settings: weekly offs, holidays, default shift)
+// and time zone. Service events on non-working days move per the shift
+// policy; the moves are stored as event overrides — calendar_overrides is
+// the calendar's share of event_overrides, so the next run recomputes them
+// while user-set overrides stay put.
+// The reschedule_contract_events RPC writes the contract and moves pending
+// materialised events in one transaction (optimistic concurrency on version).
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  applyWorkingCalendar,
+  deriveComputedEvents,
+  deriveContractEvents,
+  deriveInputFromContract,
+  explicitEventOverrides,
+  CalendarShift,
+  ComputedEventPayload,
+  DeriveEventsInput
+} from './contractEventsDerivationService';
+import cadenceSettingsService from './cadenceSettingsService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import {
+  CONTRACT_STATUSES,
+  ContractEventsRederivation,
+  RescheduledEvent
+} from '../types/contractTypes';
+
+export interface RescheduleServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+// A closed contract's schedule is history
+const CLOSED_STATUSES: string[] = [
+  CONTRACT_STATUSES.CANCELLED,
+  CONTRACT_STATUSES.COMPLETED,
+  CONTRACT_STATUSES.EXPIRED
+];
+
+const eventKey = (e: { block_id: string; event_type: string; sequence_number: number }): string =>
+  `${e.block_id}|${e.event_type}|${e.sequence_number}`;
+
+class ContractRescheduleService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): RescheduleServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  /**
+   * Re-derive the contract's schedule. With dryRun the plan is returned
+   * without writing; otherwise it is stored and pending events follow.
+   */
+  async rederive(params: {
+    tenantId: string;
+    contractId: string;
+    isLive: boolean;
+    version: number;
+    shift?: CalendarShift;
+    dryRun?: boolean;
+  }): Promise<RescheduleServiceResult<ContractEventsRederivation>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: contract, error: contractError } = await supabase
+      .from('t_contracts')
+      .select('*')
+      .eq('id', params.contractId)
+      .eq('tenant_id', params.tenantId)
+      .maybeSingle();
+    if (contractError) return this.fail('DATABASE_ERROR', contractError.message);
+    if (!contract) return this.fail('NOT_FOUND', 'Contract not found');
+
+    if (CLOSED_STATUSES.includes(contract.status)) {
+      return this.fail('INVALID_STATUS', `Contract is ${contract.status}; its schedule can no longer change`);
+    }
+    if (Number(contract.version) !== params.version) {
+      return this.fail('VERSION_CONFLICT', 'Contract changed since it was loaded');
+    }
+
+    const { data: blocks, error: blocksError } = await supabase
+      .from('t_contract_blocks')
+      .select('*')
+      .eq('contract_id', contract.id)
+      .order('sort_order', { ascending: true });
+    if (blocksError) return this.fail('DATABASE_ERROR', blocksError.message);
+
+    const calendar = await cadenceSettingsService.getWorkingCalendar(params.tenantId, params.shift);
+    if (!calendar.success || !calendar.data) {
+      return this.fail(calendar.error?.code || 'RPC_ERROR', calendar.error?.message || 'Failed to load cadence settings');
+    }
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(params.tenantId);
+    const base = deriveInputFromContract(
+      { ...contract, blocks: blocks || [], event_overrides: explicitEventOverrides(contract) },
+      timeZone
+    );
+    if (!base) {
+      return this.fail('VALIDATION_ERROR', 'Contract has no start date or duration to derive a schedule from');
+    }
+
+    const { input, calendarOverrides } = applyWorkingCalendar(base, calendar.data);
+    const events: ComputedEventPayload[] = deriveComputedEvents(input) || [];
+    const eventOverrides: Record<string, string> = {};
+    for (const [eventId, date] of Object.entries(input.eventOverrides || {})) {
+      eventOverrides[eventId] = date instanceof Date ? date.toISOString() : String(date);
+    }
+
+    const plan: ContractEventsRederivation = {
+      contract_id: contract.id,
+      base_version: params.version,
+      version: null,
+      time_zone: timeZone,
+      shift: calendar.data.shift,
+      dry_run: !!params.dryRun,
+      event_overrides: eventOverrides,
+      calendar_overrides: calendarOverrides,
+      computed_events: events,
+      moved: this.diff(contract.computed_events, events, input, calendarOverrides),
+      events_moved: null,
+    };
+
+    if (params.dryRun) return { success: true, data: plan };
+
+    const { data, error } = await supabase.rpc('reschedule_contract_events', {
+      p_contract_id: contract.id,
+      p_tenant_id: params.tenantId,
+      p_is_live: params.isLive,
+      p_expected_version: params.version,
+      p_event_overrides: eventOverrides,
+      p_calendar_overrides: calendarOverrides,
+      p_computed_events: events,
+    });
+
+    if (error) {
+      console.error('[ContractRescheduleService] reschedule_contract_events failed:', error.message);
+      return this.fail('RPC_ERROR', error.message);
+    }
+    if (data && data.success === false) {
+      return this.fail(data.code || 'RPC_ERROR', data.error || 'Failed to reschedule contract events');
+    }
+
+    return {
+      success: true,
+      data: { ...plan, version: data?.version ?? null, events_moved: data?.events_moved ?? 0 },
+    };
+  }
+
+  /** Events whose date differs from the stored computed_events */
+  private diff(
+    stored: unknown,
+    events: ComputedEventPayload[],
+    input: DeriveEventsInput,
+    calendarOverrides: Record<string, string>
+  ): RescheduledEvent[] {
+    const before = new Map<string, string>();
+    for (const e of (Array.isArray(stored) ? stored : []) as ComputedEventPayload[]) {
+      if (e?.block_id && e.scheduled_date) before.set(eventKey(e), new Date(e.scheduled_date).toISOString());
+    }
+
+    // Event ids only exist on the raw derivation; it is in the same order
+    const ids = deriveContractEvents(input).map((e) => e.id);
+
+    const moved: RescheduledEvent[] = [];
+    events.forEach((e, i) => {
+      const from = before.get(eventKey(e)) ?? null;
+      if (from === e.scheduled_date) return;
+      moved.push({
+        event_id: ids[i],
+        block_id: e.block_id,
+        block_name: e.block_name,
+        event_type: e.event_type,
+        sequence_number: e.sequence_number,
+        from,
+        to: e.scheduled_date,
+        calendar_shift: calendarOverrides[ids[i]] !== undefined,
+      });
+    });
+    return moved;
+  }
+}
+
+export const contractRescheduleService = new ContractRescheduleService();
+export default contractRescheduleService;
@@ -334,7 +334,8 @@ class ContractService {
     userJWT: string,
     tenantId: string,
     userId: string,
-    environment: string = 'live'
+    environment: string = 'live',
+    idempotencyKey?: string
   ): Promise<EdgeFunctionResponse> {
     const requestPayload = {
       ...paymentData,
@@ -342,7 +343,7 @@ class ContractService {
     };
 
     const url = `${this.edgeFunctionUrl}/${contractId}/invoices/record-payment`;
-    return await this.makeRequest('POST', url, requestPayload, userJWT, tenantId, environment);
+    return await this.makeRequest('POST', url, requestPayload, userJWT, tenantId, environment, idempotencyKey);
   }
 
   async cancelInvoice(
@@ -368,7 +369,8 @@ class ContractService {
     userJWT: string,
     tenantId: string,
     userId: string,
-    environment: string = 'live'
+    environment: string = 'live',
+    idempotencyKey?: string
   ): Promise<EdgeFunctionResponse> {
     const requestPayload = {
       ...data,
@@ -376,7 +378,7 @@ class ContractService {
     };
 
     const url = `${this.edgeFunctionUrl}/${contractId}/invoices/receipts/cancel`;
-    return await this.makeRequest('POST', url, requestPayload, userJWT, tenantId, environment);
+    return await this.makeRequest('POST', url, requestPayload, userJWT, tenantId, environment, idempotencyKey);
   }
 
   // =================================================================
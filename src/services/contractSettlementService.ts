@@ -0,0 +1,512 @@
+// ============================================================================
+// Contract Settlement Service — mid-term cancellation (src/migrations/008)
+// ============================================================================
+// Works out what is owed when an active contract is cancelled early:
+//   consumed  — per block: completed/in-progress services ÷ scheduled
+//               services, or elapsed days ÷ term days for blocks with no
+//               service events; grossed up to the contract's grand total
+//   paid      — receipts against the contract's (non-cancelled) invoices
+//   deposit   — a held deposit is folded into the settlement
+//   net       — paid + deposit − consumed: positive becomes a contract
+//               credit (setContractCredit), negative is still due
+// The controller runs the steps (deposit reclaim → credit → invoices →
+// receivable → status): the open invoices are credited down to amount_due
+// and whatever of amount_due they do not carry is raised as an invoice of
+// its own (src/migrations/031). This service computes the numbers, runs the
+// invoice steps and records each attempt so a commit that fails half-way
+// resumes without repeating a step.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  deriveComputedEvents,
+  deriveInputFromContract
+} from './contractEventsDerivationService';
+import tenantTimeZoneService from './tenantTimeZoneService';
+import creditNoteService, { CreditNoteCaller } from './creditNoteService';
+import sequenceService from './sequenceService';
+import { OPEN_INVOICE_STATUSES, invoiceOutstanding } from './invoiceService';
+import {
+  SETTLEMENT_STATUSES,
+  ContractSettlement,
+  ContractSettlementPreview,
+  SettlementBlockLine,
+  SettlementStep
+} from '../types/contractTypes';
+import { CONTRACT_EVENT_STATUSES } from '../types/contractEventTypes';
+import { InvoiceCreditNote } from '../types/creditNoteTypes';
+
+export interface SettlementServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+/** Minimal event shape the calculator needs (t_contract_events or derived) */
+export interface SettlementEvent {
+  block_id: string;
+  event_type: string;
+  status: string;
+  scheduled_date: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+// Service work that counts as delivered
+const CONSUMED_STATUSES: string[] = [CONTRACT_EVENT_STATUSES.COMPLETED, CONTRACT_EVENT_STATUSES.IN_PROGRESS];
+
+class ContractSettlementService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): SettlementServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  /**
+   * Service events for the contract. Uses the materialised t_contract_events
+   * rows (they carry completion status); falls back to deriving the schedule
+   * when the contract has none yet — nothing is completed in that case.
+   */
+  async loadEvents(params: {
+    tenantId: string;
+    contract: Record<string, any>;
+    isLive: boolean;
+  }): Promise<SettlementServiceResult<SettlementEvent[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_events')
+      .select('block_id, event_type, status, scheduled_date')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contract.id)
+      .eq('is_live', params.isLive)
+      .eq('event_type', 'service');
+
+    if (error) {
+      console.error('[ContractSettlementService] loadEvents failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    if (data && data.length > 0) return { success: true, data: data as SettlementEvent[] };
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(params.tenantId);
+    const input = deriveInputFromContract(params.contract, timeZone);
+    const derived = (input && deriveComputedEvents(input)) || [];
+    return {
+      success: true,
+      data: derived
+        .filter((e) => e.event_type === 'service')
+        .map((e) => ({
+          block_id: e.block_id,
+          event_type: e.event_type,
+          status: CONTRACT_EVENT_STATUSES.SCHEDULED,
+          scheduled_date: e.scheduled_date,
+        })),
+    };
+  }
+
+  /**
+   * Pure calculation. `contract` is a ContractDetail (blocks with
+   * content_snapshot), `invoices` the rows from getContractInvoices.
+   */
+  computeSettlement(params: {
+    contract: Record<string, any>;
+    events: SettlementEvent[];
+    invoices: Array<Record<string, any>>;
+    cancellationDate: string;
+  }): ContractSettlementPreview {
+    const { contract, events, invoices } = params;
+    const cancelAt = new Date(`${params.cancellationDate.slice(0, 10)}T23:59:59.999Z`);
+    const start = contract.start_date ? new Date(contract.start_date) : null;
+    const end = contract.end_date ? new Date(contract.end_date) : null;
+    const termDays = start && end ? Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS)) : 0;
+    const elapsedDays = start
+      ? Math.min(termDays, Math.max(0, Math.round((cancelAt.getTime() - start.getTime()) / DAY_MS)))
+      : 0;
+
+    // Same block id rule as deriveInputFromContract, so events line up
+    const blocks = (Array.isArray(contract.blocks) ? contract.blocks : [])
+      .map((row: any) => {
+        const snap = row?.content_snapshot || {};
+        return {
+          id: String(snap.id || row.block_id || row.id || ''),
+          name: String(snap.name || row.block_name || 'Block'),
+          value: Number(snap.totalPrice ?? row.total_price) || 0,
+        };
+      })
+      .filter((b: { id: string; value: number }) => b.id && b.value > 0);
+
+    const blockTotal = blocks.reduce((sum: number, b: { value: number }) => sum + b.value, 0);
+    const contractValue = Number(contract.grand_total ?? contract.total_value) || blockTotal;
+    // Block prices are pre-tax; scale so consumed value is in grand-total terms
+    const grossUp = blockTotal > 0 && contractValue > 0 ? contractValue / blockTotal : 1;
+
+    const lines: SettlementBlockLine[] = blocks.map((b: { id: string; name: string; value: number }) => {
+      const value = round2(b.value * grossUp);
+      const serviceEvents = events.filter((e) =>
+        e.block_id === b.id && e.event_type === 'service' && e.status !== CONTRACT_EVENT_STATUSES.CANCELLED);
+
+      if (serviceEvents.length > 0) {
+        const consumed = serviceEvents.filter((e) =>
+          CONSUMED_STATUSES.includes(e.status) && new Date(e.scheduled_date) <= cancelAt).length;
+        return {
+          block_id: b.id,
+          block_name: b.name,
+          method: 'per_service' as const,
+          contract_value: value,
+          consumed_value: round2(value * consumed / serviceEvents.length),
+          services_total: serviceEvents.length,
+          services_consumed: consumed,
+        };
+      }
+
+      return {
+        block_id: b.id,
+        block_name: b.name,
+        method: 'time_elapsed' as const,
+        contract_value: value,
+        consumed_value: termDays > 0 ? round2(value * elapsedDays / termDays) : value,
+        elapsed_days: elapsedDays,
+        term_days: termDays,
+      };
+    });
+
+    // No priced blocks (lump-sum contract) — pro-rate the whole value by time
+    if (lines.length === 0 && contractValue > 0) {
+      lines.push({
+        block_id: 'contract',
+        block_name: contract.title || contract.name || 'Contract',
+        method: 'time_elapsed',
+        contract_value: round2(contractValue),
+        consumed_value: termDays > 0 ? round2(contractValue * elapsedDays / termDays) : round2(contractValue),
+        elapsed_days: elapsedDays,
+        term_days: termDays,
+      });
+    }
+
+    const liveInvoices = invoices.filter((i) => String(i.status || '').toLowerCase() !== 'cancelled');
+    const billed = round2(liveInvoices.reduce((s, i) => s + (Number(i.total_amount ?? i.amount) || 0), 0));
+    const paid = round2(liveInvoices.reduce((s, i) => s + (Number(i.amount_paid ?? i.paid_amount) || 0), 0));
+
+    const depositHeld = String(contract.deposit_status || '').toLowerCase() === 'reclaimed'
+      ? 0
+      : round2(Number(contract.deposit_amount) || 0);
+
+    const consumed = round2(lines.reduce((s, l) => s + l.consumed_value, 0));
+    const net = round2(paid + depositHeld - consumed);
+    const owedBeforeDeposit = Math.max(0, consumed - paid);
+
+    const preview: Omit<ContractSettlementPreview, 'preview_token'> = {
+      contract_id: contract.id,
+      contract_version: contract.version ?? null,
+      cancellation_date: params.cancellationDate.slice(0, 10),
+      currency: String(contract.currency || 'INR'),
+      contract_value: round2(contractValue),
+      consumed_value: consumed,
+      billed_amount: billed,
+      paid_amount: paid,
+      outstanding_invoiced: round2(Math.max(0, billed - paid)),
+      deposit_held: depositHeld,
+      deposit_offset: round2(Math.min(depositHeld, owedBeforeDeposit)),
+      credit_amount: Math.max(0, net),
+      amount_due: Math.max(0, -net),
+      lines,
+    };
+
+    return { ...preview, preview_token: this.token(preview) };
+  }
+
+  /** Fingerprint of a preview — commit refuses if the numbers moved since */
+  private token(preview: Omit<ContractSettlementPreview, 'preview_token'>): string {
+    return crypto.createHash('sha256').update(JSON.stringify(preview)).digest('hex').slice(0, 32);
+  }
+
+  // ==========================================================================
+  // Invoice steps
+  // ==========================================================================
+
+  /** The contract's invoices that still owe money, newest first */
+  async loadOpenInvoices(params: {
+    tenantId: string;
+    contractId: string;
+    isLive: boolean;
+  }): Promise<SettlementServiceResult<Array<Record<string, any>>>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contractId)
+      .eq('is_live', params.isLive)
+      .in('status', OPEN_INVOICE_STATUSES)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[ContractSettlementService] loadOpenInvoices failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: (data || []).filter((i) => invoiceOutstanding(i) > 0) };
+  }
+
+  /**
+   * Credit the open invoices down until together they owe no more than the
+   * settlement's amount_due, newest first. Balances are read afresh, so a
+   * resumed commit only credits what is still above amount_due.
+   */
+  async creditOpenInvoices(
+    caller: CreditNoteCaller,
+    settlement: ContractSettlement
+  ): Promise<SettlementServiceResult<InvoiceCreditNote[]>> {
+    const open = await this.loadOpenInvoices({
+      tenantId: caller.tenantId,
+      contractId: settlement.contract_id,
+      isLive: caller.isLive,
+    });
+    if (!open.success) return open as SettlementServiceResult<never>;
+
+    const outstanding = round2(open.data!.reduce((s, i) => s + invoiceOutstanding(i), 0));
+    let toForgive = round2(outstanding - Number(settlement.amount_due));
+    const notes: InvoiceCreditNote[] = [];
+
+    for (const invoice of open.data!) {
+      if (toForgive <= 0) break;
+      const amount = round2(Math.min(invoiceOutstanding(invoice), toForgive));
+      const issued = await creditNoteService.issue(caller, invoice.id, {
+        amount,
+        reason: `Cancellation settlement as of ${settlement.cancellation_date}`,
+      });
+      if (!issued.success) {
+        return this.fail(issued.error?.code || 'CREDIT_NOTE_ERROR',
+          `Could not credit invoice ${invoice.invoice_number || invoice.id}: ${issued.error?.message || 'credit note refused'}`);
+      }
+      notes.push(issued.data!);
+      toForgive = round2(toForgive - amount);
+    }
+    return { success: true, data: notes };
+  }
+
+  /**
+   * Raise the part of amount_due the open invoices do not already carry as
+   * an unpaid invoice (raise_settlement_invoice), due on the cancellation
+   * date or today, whichever is later. Nothing is raised when the open
+   * invoices cover it; a settlement that raised one gets it back.
+   */
+  async raiseReceivable(
+    caller: CreditNoteCaller,
+    settlement: ContractSettlement
+  ): Promise<SettlementServiceResult<Record<string, any> | null>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    let amount = 0;
+    let invoiceNumber: string | null = null;
+    // A settlement that already raised its invoice gets it back from the RPC
+    if (!settlement.settlement_invoice_id) {
+      const open = await this.loadOpenInvoices({
+        tenantId: caller.tenantId,
+        contractId: settlement.contract_id,
+        isLive: caller.isLive,
+      });
+      if (!open.success) return open as SettlementServiceResult<never>;
+      const outstanding = round2(open.data!.reduce((s, i) => s + invoiceOutstanding(i), 0));
+      amount = round2(Number(settlement.amount_due) - outstanding);
+      if (amount <= 0) return { success: true, data: null };
+
+      const number = await sequenceService.next('INVOICE', caller.authHeader, caller.tenantId, caller.isLive ? 'live' : 'test');
+      if (!number.success) {
+        return this.fail('SEQUENCE_ERROR', `Could not number the settlement invoice: ${number.error?.message || 'sequence unavailable'}`);
+      }
+      invoiceNumber = number.data!;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const { data, error } = await supabase.rpc('raise_settlement_invoice', {
+      p_settlement_id: settlement.id,
+      p_tenant_id: caller.tenantId,
+      p_invoice_number: invoiceNumber,
+      p_amount: amount,
+      p_due_date: settlement.cancellation_date > today ? settlement.cancellation_date : today,
+    });
+    if (error) {
+      console.error('[ContractSettlementService] raise_settlement_invoice failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    const invoice = Array.isArray(data) ? data[0] : data;
+    if (!invoice) return this.fail('NOT_FOUND', 'Settlement not found');
+    return { success: true, data: invoice };
+  }
+
+  // ==========================================================================
+  // Commit bookkeeping
+  // ==========================================================================
+
+  async getCommitted(params: {
+    tenantId: string;
+    contractId: string;
+    isLive: boolean;
+  }): Promise<SettlementServiceResult<ContractSettlement | null>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_settlements')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contractId)
+      .eq('is_live', params.isLive)
+      .eq('status', SETTLEMENT_STATUSES.COMMITTED)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data as ContractSettlement) || null };
+  }
+
+  /**
+   * The latest failed attempt that already ran a step. Its figures are the
+   * ones to finish with — a reclaimed deposit no longer shows as held, so a
+   * fresh preview would no longer match what was partly applied.
+   */
+  async getResumable(params: {
+    tenantId: string;
+    contractId: string;
+    isLive: boolean;
+  }): Promise<SettlementServiceResult<ContractSettlement | null>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_settlements')
+      .select('*')
+      .eq('tenant_id', params.tenantId)
+      .eq('contract_id', params.contractId)
+      .eq('is_live', params.isLive)
+      .eq('status', SETTLEMENT_STATUSES.FAILED)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    const row = data as ContractSettlement | null;
+    return { success: true, data: row && row.steps_completed?.length ? row : null };
+  }
+
+  /**
+   * Start a commit. Resumes the latest failed attempt for the same contract
+   * (keeping its steps_completed) or inserts a new row; DUPLICATE_FOUND when
+   * the contract is already settled or another commit is running.
+   */
+  async begin(params: {
+    tenantId: string;
+    preview: ContractSettlementPreview;
+    note?: string | null;
+    userId?: string | null;
+    userName?: string | null;
+    isLive: boolean;
+  }): Promise<SettlementServiceResult<ContractSettlement>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+    const p = params.preview;
+
+    const values = {
+      tenant_id: params.tenantId,
+      contract_id: p.contract_id,
+      contract_version: p.contract_version,
+      cancellation_date: p.cancellation_date,
+      status: SETTLEMENT_STATUSES.COMMITTING,
+      currency: p.currency,
+      contract_value: p.contract_value,
+      consumed_value: p.consumed_value,
+      billed_amount: p.billed_amount,
+      paid_amount: p.paid_amount,
+      deposit_offset: p.deposit_offset,
+      credit_amount: p.credit_amount,
+      amount_due: p.amount_due,
+      breakdown: p.lines,
+      failed_step: null,
+      error_message: null,
+      note: params.note ?? null,
+      committed_by: params.userId ?? null,
+      committed_by_name: params.userName ?? null,
+      is_live: params.isLive,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: failed } = await supabase
+      .from('t_contract_settlements')
+      .select('id')
+      .eq('contract_id', p.contract_id)
+      .eq('is_live', params.isLive)
+      .eq('status', SETTLEMENT_STATUSES.FAILED)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const query = failed
+      ? supabase.from('t_contract_settlements').update(values).eq('id', failed.id)
+      : supabase.from('t_contract_settlements').insert(values);
+    const { data, error } = await query.select('*').single();
+
+    if (error) {
+      // idx_t_contract_settlements_one_active
+      if (error.code === '23505') {
+        return this.fail('DUPLICATE_FOUND', 'This contract has already been settled');
+      }
+      console.error('[ContractSettlementService] begin failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as ContractSettlement };
+  }
+
+  async recordStep(settlement: ContractSettlement, step: SettlementStep): Promise<ContractSettlement> {
+    const steps = Array.from(new Set([...(settlement.steps_completed || []), step]));
+    const updated = await this.update(settlement.id, { steps_completed: steps });
+    return updated.data || { ...settlement, steps_completed: steps };
+  }
+
+  async markFailed(settlementId: string, step: SettlementStep, message: string): Promise<SettlementServiceResult<ContractSettlement>> {
+    return this.update(settlementId, {
+      status: SETTLEMENT_STATUSES.FAILED,
+      failed_step: step,
+      error_message: message,
+    });
+  }
+
+  async markCommitted(settlementId: string): Promise<SettlementServiceResult<ContractSettlement>> {
+    return this.update(settlementId, {
+      status: SETTLEMENT_STATUSES.COMMITTED,
+      committed_at: new Date().toISOString(),
+    });
+  }
+
+  private async update(settlementId: string, patch: Record<string, any>): Promise<SettlementServiceResult<ContractSettlement>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_contract_settlements')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', settlementId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[ContractSettlementService] update failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as ContractSettlement };
+  }
+}
+
+export const contractSettlementService = new ContractSettlementService();
+export default contractSettlementService;
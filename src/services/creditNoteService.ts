@@ -0,0 +1,533 @@
+// ============================================================================
+// Credit Note Service — credit notes against invoices, with optional refund
+// ============================================================================
+// Table: t_invoice_credit_notes (src/migrations/016, 030). A credit note:
+//   - credits all or part of an invoice; the credited total across issued
+//     notes never exceeds the invoice total (re-checked by
+//     issue_invoice_credit_note with the invoice row locked)
+//   - takes the credit off the invoice's outstanding balance (as far as it
+//     is unpaid); cancelling the note gives it back
+//   - is numbered from the tenant's CREDIT_NOTE sequence (sequenceService)
+//     once it has been stored, so a rejected note uses no number
+//   - reverses the invoice tax pro rata — the final note takes whatever tax
+//     is left so the reversals sum to the invoice tax exactly — split into
+//     the same components (CGST/SGST/IGST) the invoice was taxed with
+//   - optionally records a refund: 'manual' (paid back outside the system)
+//     or 'gateway' (refund of the invoice's online payment through the
+//     payment-gateway edge function; the refund.processed webhook settles it)
+// Receipts are not rewritten and the invoice keeps its status: cancelInvoice /
+// cancelReceipt stay the way to void them, the credit note is the document.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import PaymentGatewayService from './paymentGatewayService';
+import sequenceService from './sequenceService';
+import taxEngineService from './taxEngineService';
+import { splitTaxComponents } from '../utils/taxCalculation';
+import { TaxSupplyType } from '../types/taxTypes';
+import {
+  CREDIT_NOTE_REFUND_MODES,
+  CREDIT_NOTE_REFUND_STATUSES,
+  CREDIT_NOTE_STATUSES,
+  CreateCreditNoteRequest,
+  CreditNoteTaxBreakdown,
+  InvoiceCreditNote,
+  InvoiceCreditNotesResponse,
+  InvoiceCreditSummary
+} from '../types/creditNoteTypes';
+
+export interface CreditNoteServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+// What the user's request carries through to the edge functions
+export interface CreditNoteCaller {
+  tenantId: string;
+  isLive: boolean;
+  userId: string | null;
+  authHeader: string;           // Authorization header as received (sequences)
+  userJWT: string;              // bearer token alone (payment gateway)
+}
+
+const SEQUENCE_CODE = 'CREDIT_NOTE';
+const SUPPLY_TYPES: TaxSupplyType[] = ['intra_state', 'inter_state', 'export', 'not_applicable'];
+// Gateway payment requests that took money
+const PAID_REQUEST_STATUSES = ['paid', 'captured', 'success', 'completed'];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Gateway ids go into a PostgREST or() filter — letters, digits, _ and - only
+const SAFE_REF = /^[A-Za-z0-9_-]{1,60}$/;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+const num = (v: unknown): number => Number(v) || 0;
+
+class CreditNoteService {
+  private gateway: PaymentGatewayService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private paymentGateway(): PaymentGatewayService {
+    if (!this.gateway) this.gateway = new PaymentGatewayService();
+    return this.gateway;
+  }
+
+  private fail(code: string, message: string): CreditNoteServiceResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ==========================================================
+  // READ
+  // ==========================================================
+
+  /** Credit notes of an invoice, newest first, with what is left to credit */
+  async list(tenantId: string, invoiceId: string): Promise<CreditNoteServiceResult<InvoiceCreditNotesResponse>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const invoice = await this.loadInvoice(supabase, tenantId, invoiceId);
+    if (!invoice.success) return invoice as CreditNoteServiceResult<never>;
+    const notes = await this.loadNotes(supabase, tenantId, invoiceId);
+    if (!notes.success) return notes as CreditNoteServiceResult<never>;
+
+    return {
+      success: true,
+      data: { credit_notes: notes.data!, summary: this.summarise(invoice.data!, notes.data!) }
+    };
+  }
+
+  async get(tenantId: string, invoiceId: string, creditNoteId: string): Promise<CreditNoteServiceResult<InvoiceCreditNote>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_invoice_credit_notes')
+      .select('*')
+      .eq('id', creditNoteId)
+      .eq('tenant_id', tenantId)
+      .eq('invoice_id', invoiceId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Credit note not found');
+    return { success: true, data: data as InvoiceCreditNote };
+  }
+
+  // ==========================================================
+  // ISSUE
+  // ==========================================================
+
+  async issue(
+    caller: CreditNoteCaller,
+    invoiceId: string,
+    request: CreateCreditNoteRequest
+  ): Promise<CreditNoteServiceResult<InvoiceCreditNote>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const reason = String(request.reason || '').trim();
+    if (!reason) return this.fail('VALIDATION_ERROR', 'reason is required');
+    const refundMode = request.refund_mode || 'none';
+    if (!CREDIT_NOTE_REFUND_MODES.includes(refundMode)) {
+      return this.fail('VALIDATION_ERROR', `refund_mode must be one of ${CREDIT_NOTE_REFUND_MODES.join(', ')}`);
+    }
+
+    const invoiceRes = await this.loadInvoice(supabase, caller.tenantId, invoiceId);
+    if (!invoiceRes.success) return invoiceRes as CreditNoteServiceResult<never>;
+    const invoice = invoiceRes.data!;
+    const notesRes = await this.loadNotes(supabase, caller.tenantId, invoiceId);
+    if (!notesRes.success) return notesRes as CreditNoteServiceResult<never>;
+    const issued = notesRes.data!.filter((n) => n.status === CREDIT_NOTE_STATUSES.ISSUED);
+    const summary = this.summarise(invoice, notesRes.data!);
+
+    // ─── Amounts ───
+    const amount = request.amount !== undefined && request.amount !== null ? round2(num(request.amount)) : summary.creditable;
+    if (!(amount > 0)) {
+      return this.fail(summary.creditable > 0 ? 'VALIDATION_ERROR' : 'CONFLICT',
+        summary.creditable > 0 ? 'amount must be greater than 0' : 'This invoice is already fully credited');
+    }
+    if (amount > summary.creditable + 0.005) {
+      return this.fail('VALIDATION_ERROR', `amount exceeds what is left to credit (${summary.creditable})`);
+    }
+
+    const refundAmount = refundMode === 'none'
+      ? null
+      : round2(request.refund_amount !== undefined && request.refund_amount !== null ? num(request.refund_amount) : amount);
+    if (refundAmount !== null) {
+      if (!(refundAmount > 0) || refundAmount > amount + 0.005) {
+        return this.fail('VALIDATION_ERROR', 'refund_amount must be greater than 0 and at most the credit amount');
+      }
+      const paid = invoice.amount_paid ?? invoice.paid_amount;
+      if (paid !== undefined && paid !== null && refundAmount > round2(num(paid) - summary.refunded) + 0.005) {
+        return this.fail('VALIDATION_ERROR', `refund_amount exceeds what was paid and not yet refunded (${round2(num(paid) - summary.refunded)})`);
+      }
+    }
+
+    const taxBreakdown = await this.reverseTax(caller.tenantId, invoice, amount, issued, summary);
+
+    // ─── Gateway payment to refund (resolved before anything is written) ───
+    let gatewayPaymentId: string | null = null;
+    if (refundMode === 'gateway') {
+      gatewayPaymentId = request.gateway_payment_id
+        || await this.findGatewayPayment(supabase, caller, invoiceId);
+      if (!gatewayPaymentId) {
+        return this.fail('VALIDATION_ERROR', 'No online payment found for this invoice; pass gateway_payment_id or refund manually');
+      }
+    }
+
+    // ─── Insert: creditable amount re-checked, invoice balance reduced ───
+    const now = new Date().toISOString();
+    const { data: inserted, error } = await supabase.rpc('issue_invoice_credit_note', {
+      p_note: {
+        tenant_id: caller.tenantId,
+        is_live: caller.isLive,
+        invoice_id: invoiceId,
+        contract_id: invoice.contract_id || null,
+        receipt_id: request.receipt_id || null,
+        reason,
+        currency: invoice.currency || null,
+        amount,
+        base_amount: round2(amount - (taxBreakdown ? this.componentTotal(taxBreakdown) : 0)),
+        tax_amount: taxBreakdown ? this.componentTotal(taxBreakdown) : 0,
+        tax_breakdown: taxBreakdown,
+        refund_status: refundMode === 'manual'
+          ? CREDIT_NOTE_REFUND_STATUSES.MANUAL
+          : refundMode === 'gateway' ? CREDIT_NOTE_REFUND_STATUSES.PENDING : CREDIT_NOTE_REFUND_STATUSES.NONE,
+        refund_amount: refundAmount,
+        refund_reference: refundMode === 'manual' ? (request.refund_reference || null) : null,
+        refunded_at: refundMode === 'manual' ? now : null,
+        gateway_provider: refundMode === 'gateway' ? 'razorpay' : null,
+        gateway_payment_id: gatewayPaymentId,
+        issued_by: caller.userId,
+        issued_at: now
+      }
+    });
+    if (error) {
+      console.error('[CreditNoteService] issue failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    const unnumbered = (Array.isArray(inserted) ? inserted[0] : inserted) as InvoiceCreditNote | null;
+    if (!unnumbered) {
+      return this.fail('CONFLICT', 'Other credit notes were issued against this invoice meanwhile; check what is left to credit');
+    }
+
+    // ─── Number: only now that the note stands ───
+    const number = await sequenceService.next(SEQUENCE_CODE, caller.authHeader, caller.tenantId, caller.isLive ? 'live' : 'test');
+    if (!number.success) {
+      await this.discard(supabase, caller.tenantId, unnumbered.id);
+      return this.fail('SEQUENCE_ERROR', `Could not number the credit note: ${number.error?.message || 'sequence unavailable'}`);
+    }
+    const { data, error: numberError } = await supabase
+      .from('t_invoice_credit_notes')
+      .update({ credit_note_number: number.data, updated_at: new Date().toISOString() })
+      .eq('id', unnumbered.id)
+      .select('*')
+      .single();
+    if (numberError) {
+      await this.discard(supabase, caller.tenantId, unnumbered.id);
+      if (numberError.code === '23505') return this.fail('CONFLICT', `Credit note number ${number.data} is already used`);
+      console.error('[CreditNoteService] numbering failed:', numberError.message);
+      return this.fail('DATABASE_ERROR', numberError.message);
+    }
+
+    const note = data as InvoiceCreditNote;
+    if (refundMode !== 'gateway') return { success: true, data: note };
+    // The note stands even if the gateway refuses — refund_status says so and
+    // the refund can be retried
+    return this.requestGatewayRefund(supabase, caller, note);
+  }
+
+  /** Retry a gateway refund that failed */
+  async retryRefund(
+    caller: CreditNoteCaller,
+    invoiceId: string,
+    creditNoteId: string
+  ): Promise<CreditNoteServiceResult<InvoiceCreditNote>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const existing = await this.get(caller.tenantId, invoiceId, creditNoteId);
+    if (!existing.success) return existing;
+    const note = existing.data!;
+    if (note.status !== CREDIT_NOTE_STATUSES.ISSUED) return this.fail('CONFLICT', 'Credit note is cancelled');
+    if (note.refund_status !== CREDIT_NOTE_REFUND_STATUSES.FAILED || !note.gateway_payment_id) {
+      return this.fail('CONFLICT', `Nothing to retry — refund is ${note.refund_status}`);
+    }
+    return this.requestGatewayRefund(supabase, caller, note);
+  }
+
+  // ==========================================================
+  // CANCEL
+  // ==========================================================
+
+  /**
+   * Void a credit note issued in error; the invoice balance it reduced is
+   * restored. Not once money has gone back.
+   */
+  async cancel(
+    tenantId: string,
+    invoiceId: string,
+    creditNoteId: string,
+    userId: string | null,
+    reason: string | null
+  ): Promise<CreditNoteServiceResult<InvoiceCreditNote>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const existing = await this.get(tenantId, invoiceId, creditNoteId);
+    if (!existing.success) return existing;
+    const note = existing.data!;
+    if (note.status === CREDIT_NOTE_STATUSES.CANCELLED) return { success: true, data: note };
+    if (note.refund_status !== CREDIT_NOTE_REFUND_STATUSES.NONE && note.refund_status !== CREDIT_NOTE_REFUND_STATUSES.FAILED) {
+      return this.fail('CONFLICT', `Credit note has a ${note.refund_status} refund and cannot be cancelled`);
+    }
+
+    const { data, error } = await supabase.rpc('cancel_invoice_credit_note', {
+      p_credit_note_id: note.id,
+      p_tenant_id: tenantId,
+      p_cancelled_by: userId,
+      p_reason: reason
+    });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    const cancelled = (Array.isArray(data) ? data[0] : data) as InvoiceCreditNote | null;
+    if (!cancelled) return this.get(tenantId, invoiceId, creditNoteId);
+    return { success: true, data: cancelled };
+  }
+
+  // ==========================================================
+  // GATEWAY REFUNDS
+  // ==========================================================
+
+  /**
+   * Settle a credit note's gateway refund from the refund.processed webhook.
+   * Matched by the refund id stored when the refund was requested, else by the
+   * credit_note_id put in the refund notes. Returns the note, or null when
+   * the refund is not one of ours.
+   */
+  async markRefundProcessed(params: {
+    tenantId: string | null;
+    refundId: string;
+    creditNoteId: string | null;
+  }): Promise<CreditNoteServiceResult<InvoiceCreditNote | null>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    if (!SAFE_REF.test(params.refundId)) return { success: true, data: null };
+    let query = supabase.from('t_invoice_credit_notes').select('*');
+    query = params.creditNoteId && UUID.test(params.creditNoteId)
+      ? query.or(`gateway_refund_id.eq.${params.refundId},id.eq.${params.creditNoteId}`)
+      : query.eq('gateway_refund_id', params.refundId);
+    if (params.tenantId) query = query.eq('tenant_id', params.tenantId);
+    const { data, error } = await query.limit(1);
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    const note = (data?.[0] as InvoiceCreditNote | undefined) || null;
+    if (!note) return { success: true, data: null };
+    if (note.refund_status === CREDIT_NOTE_REFUND_STATUSES.PROCESSED) return { success: true, data: note };
+
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabase
+      .from('t_invoice_credit_notes')
+      .update({
+        refund_status: CREDIT_NOTE_REFUND_STATUSES.PROCESSED,
+        gateway_refund_id: note.gateway_refund_id || params.refundId,
+        refund_error: null,
+        refunded_at: now,
+        updated_at: now
+      })
+      .eq('id', note.id)
+      .select('*')
+      .single();
+    if (updateError) return this.fail('DATABASE_ERROR', updateError.message);
+    return { success: true, data: updated as InvoiceCreditNote };
+  }
+
+  private async requestGatewayRefund(
+    supabase: SupabaseClient,
+    caller: CreditNoteCaller,
+    note: InvoiceCreditNote
+  ): Promise<CreditNoteServiceResult<InvoiceCreditNote>> {
+    const result = await this.paymentGateway().refundPayment(
+      {
+        gateway_payment_id: note.gateway_payment_id!,
+        amount: num(note.refund_amount) || num(note.amount),
+        notes: {
+          tenant_id: caller.tenantId,
+          invoice_id: note.invoice_id,
+          credit_note_id: note.id,
+          credit_note_number: note.credit_note_number || ''
+        }
+      },
+      caller.userJWT,
+      caller.tenantId,
+      caller.userId || '',
+      caller.isLive ? 'live' : 'test'
+    );
+
+    const refund = result.data || {};
+    const refundId: string | null = refund.gateway_refund_id || refund.refund_id || refund.id || null;
+    const processed = ['processed', 'refunded'].includes(String(refund.status || '').toLowerCase());
+    const { data, error } = await supabase
+      .from('t_invoice_credit_notes')
+      .update(result.success
+        ? {
+            refund_status: processed ? CREDIT_NOTE_REFUND_STATUSES.PROCESSED : CREDIT_NOTE_REFUND_STATUSES.PENDING,
+            gateway_refund_id: refundId,
+            refund_error: null,
+            refunded_at: processed ? new Date().toISOString() : null,
+            updated_at: new Date().toISOString()
+          }
+        : {
+            refund_status: CREDIT_NOTE_REFUND_STATUSES.FAILED,
+            refund_error: result.error || 'Gateway refund failed',
+            updated_at: new Date().toISOString()
+          })
+      .eq('id', note.id)
+      .select('*')
+      .single();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!result.success) console.warn(`[CreditNoteService] refund for ${note.credit_note_number} failed:`, result.error);
+    return { success: true, data: data as InvoiceCreditNote };
+  }
+
+  /**
+   * The invoice's online payment: the one the Razorpay webhook receipted,
+   * else a paid payment request the payment-gateway edge function knows of.
+   */
+  private async findGatewayPayment(
+    supabase: SupabaseClient,
+    caller: CreditNoteCaller,
+    invoiceId: string
+  ): Promise<string | null> {
+    const { data: events } = await supabase
+      .from('t_payment_webhook_events')
+      .select('gateway_payment_id')
+      .eq('tenant_id', caller.tenantId)
+      .eq('invoice_id', invoiceId)
+      .eq('outcome', 'receipt_recorded')
+      .order('received_at', { ascending: false })
+      .limit(1);
+    if (events?.[0]?.gateway_payment_id) return events[0].gateway_payment_id;
+
+    const status = await this.paymentGateway().getPaymentStatus(
+      { invoice_id: invoiceId }, caller.userJWT, caller.tenantId, caller.isLive ? 'live' : 'test'
+    );
+    if (!status.success) return null;
+    const requests: any[] = Array.isArray(status.data) ? status.data : status.data?.requests || status.data?.payment_requests || [];
+    const paid = requests.find((r) => r?.gateway_payment_id && PAID_REQUEST_STATUSES.includes(String(r.status || '').toLowerCase()));
+    return paid?.gateway_payment_id || null;
+  }
+
+  // ==========================================================
+  // HELPERS
+  // ==========================================================
+
+  private async loadInvoice(
+    supabase: SupabaseClient,
+    tenantId: string,
+    invoiceId: string
+  ): Promise<CreditNoteServiceResult<Record<string, any>>> {
+    const { data, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Invoice not found');
+    return { success: true, data };
+  }
+
+  /** Undo an issue whose note could not be numbered (balance restored) */
+  private async discard(supabase: SupabaseClient, tenantId: string, creditNoteId: string): Promise<void> {
+    const { error } = await supabase.rpc('discard_invoice_credit_note', {
+      p_credit_note_id: creditNoteId,
+      p_tenant_id: tenantId
+    });
+    if (error) console.error(`[CreditNoteService] could not discard unnumbered credit note ${creditNoteId}:`, error.message);
+  }
+
+  private async loadNotes(
+    supabase: SupabaseClient,
+    tenantId: string,
+    invoiceId: string
+  ): Promise<CreditNoteServiceResult<InvoiceCreditNote[]>> {
+    const { data, error } = await supabase
+      .from('t_invoice_credit_notes')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('invoice_id', invoiceId)
+      .order('issued_at', { ascending: false });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as InvoiceCreditNote[] };
+  }
+
+  private summarise(invoice: Record<string, any>, notes: InvoiceCreditNote[]): InvoiceCreditSummary {
+    const issued = notes.filter((n) => n.status === CREDIT_NOTE_STATUSES.ISSUED);
+    const invoiceTotal = round2(num(invoice.total_amount ?? invoice.amount));
+    const credited = round2(issued.reduce((s, n) => s + num(n.amount), 0));
+    const refunded = round2(issued
+      .filter((n) => n.refund_status === CREDIT_NOTE_REFUND_STATUSES.MANUAL || n.refund_status === CREDIT_NOTE_REFUND_STATUSES.PROCESSED)
+      .reduce((s, n) => s + num(n.refund_amount), 0));
+    return { invoice_total: invoiceTotal, credited, refunded, creditable: Math.max(0, round2(invoiceTotal - credited)) };
+  }
+
+  private componentTotal(breakdown: CreditNoteTaxBreakdown): number {
+    return round2(breakdown.components.reduce((s, c) => s + c.amount, 0));
+  }
+
+  /**
+   * The invoice tax share this credit reverses, split like the invoice was:
+   * its stored breakdown when the tax engine produced one, else the supply
+   * type the engine works out for the buyer today. Null for untaxed invoices.
+   */
+  private async reverseTax(
+    tenantId: string,
+    invoice: Record<string, any>,
+    amount: number,
+    issued: InvoiceCreditNote[],
+    summary: InvoiceCreditSummary
+  ): Promise<CreditNoteTaxBreakdown | null> {
+    const invoiceTax = round2(num(invoice.tax_amount ?? invoice.tax_total));
+    if (!(invoiceTax > 0) || !(summary.invoice_total > 0)) return null;
+
+    const reversedSoFar = round2(issued.reduce((s, n) => s + num(n.tax_amount), 0));
+    const finalNote = Math.abs(amount - summary.creditable) < 0.005;
+    const tax = finalNote
+      ? Math.max(0, round2(invoiceTax - reversedSoFar))
+      : round2((invoiceTax * amount) / summary.invoice_total);
+
+    const stored = invoice.tax_breakdown || invoice.metadata?.tax_breakdown || null;
+    const subtotal = summary.invoice_total - invoiceTax;
+    const rate = stored?.tax_rate !== undefined && stored?.tax_rate !== null
+      ? num(stored.tax_rate)
+      : subtotal > 0 ? round2((invoiceTax / subtotal) * 100) : 0;
+
+    let supplyType: TaxSupplyType = SUPPLY_TYPES.includes(stored?.supply_type) ? stored.supply_type : 'not_applicable';
+    let placeOfSupply: string | null = stored?.place_of_supply ?? null;
+    if (!stored && invoice.contact_id) {
+      const engine = await taxEngineService.calculate(tenantId, {
+        amount: round2(amount - tax), tax_rate: rate, display_mode: 'excluding_tax', buyer_contact_id: invoice.contact_id
+      });
+      if (engine.success && engine.data) {
+        supplyType = engine.data.supply_type;
+        placeOfSupply = engine.data.place_of_supply;
+      }
+    }
+
+    return {
+      tax_rate: rate,
+      supply_type: supplyType,
+      place_of_supply: placeOfSupply,
+      components: splitTaxComponents(tax, rate, supplyType, placeOfSupply)
+    };
+  }
+}
+
+export const creditNoteService = new CreditNoteService();
+export default creditNoteService;
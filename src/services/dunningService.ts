@@ -0,0 +1,698 @@
+// ============================================================================
+// Dunning Service — reminder ladders for unpaid invoices
+// ============================================================================
+// Tables: t_dunning_ladders, t_invoice_dunning, t_invoice_reminders
+// (src/migrations/013). Each run walks the open invoices of every tenant that
+// has an active ladder and sends the latest ladder step that has come due
+// (offset_days relative to due_date, in the tenant's time zone) through
+// invoiceService.sendInvoice — the same fn_enqueue_invoice_notification path
+// as the manual send button, so automation rules, address checks and the
+// "nothing owed" refusal all still apply.
+//
+//   - Only the LATEST due step is sent; steps missed while the job was down
+//     (or before the ladder existed) are not replayed one after another.
+//   - A step with no channel alternates with the previous reminder's channel
+//     (email first).
+//   - Nothing is sent within REMINDER_GAP_HOURS of another reminder for the
+//     same invoice, manual ones included.
+//   - A step is claimed in t_invoice_reminders before it is sent, so
+//     overlapping runs never double-send; failed sends release the claim and
+//     are retried up to MAX_STEP_ATTEMPTS times.
+//   - onPaymentRecorded() stops dunning once the balance is cleared.
+//
+// Payment links: Razorpay links are minted by the payment-gateway edge
+// function, which needs a user JWT the background job does not have — so
+// automated reminders carry the tenant's offline UPI details when configured
+// and otherwise go without a pay line (the payer still has the link sent
+// with the invoice).
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import invoiceService, { OPEN_INVOICE_STATUSES, invoiceOutstanding } from './invoiceService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import { captureException } from '../utils/sentry';
+import {
+  CreateDunningLadderRequest,
+  DunningLadder,
+  DunningRunResult,
+  DunningStep,
+  INVOICE_DUNNING_STATUSES,
+  InvoiceDunningState,
+  InvoiceReminder,
+  REMINDER_CHANNELS,
+  ReminderChannel,
+  UpdateDunningLadderRequest,
+  UpdateInvoiceDunningRequest
+} from '../types/dunningTypes';
+
+export interface DunningServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+// Hard cap per tenant per run; the next run continues
+const MAX_INVOICES_PER_TENANT = 5000;
+const REMINDER_GAP_HOURS = 20;
+const MAX_STEP_ATTEMPTS = 3;
+// Reminders returned per invoice with the receivables view
+const HISTORY_PER_INVOICE = 10;
+
+type InvoiceRow = Record<string, any>;
+
+interface Collection {
+  paymentLink: string | null;
+  qrUrl: string | null;
+  upiId: string | null;
+}
+
+interface PlannedStep {
+  ladder: DunningLadder;
+  stepIndex: number;
+  step: DunningStep;
+  channel: ReminderChannel;
+}
+
+/** 'YYYY-MM-DD' of `now` in the given zone */
+function localDay(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/** Steps sorted by offset, duplicates dropped (the first wins) */
+export function normaliseSteps(steps: DunningStep[]): DunningStep[] {
+  const seen = new Set<number>();
+  return [...steps]
+    .map((s) => ({ offset_days: Math.trunc(Number(s.offset_days)), ...(s.channel ? { channel: s.channel } : {}) }))
+    .sort((a, b) => a.offset_days - b.offset_days)
+    .filter((s) => (seen.has(s.offset_days) ? false : (seen.add(s.offset_days), true)));
+}
+
+class DunningService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): DunningServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ==========================================================
+  // LADDERS
+  // ==========================================================
+
+  async listLadders(tenantId: string): Promise<DunningServiceResult<DunningLadder[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_dunning_ladders')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as DunningLadder[] };
+  }
+
+  async createLadder(
+    tenantId: string,
+    input: CreateDunningLadderRequest,
+    userId: string | null
+  ): Promise<DunningServiceResult<DunningLadder>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    if (input.is_default) {
+      const cleared = await this.clearDefault(supabase, tenantId);
+      if (cleared) return this.fail('DATABASE_ERROR', cleared);
+    }
+
+    const { data, error } = await supabase
+      .from('t_dunning_ladders')
+      .insert({
+        tenant_id: tenantId,
+        name: input.name.trim(),
+        steps: normaliseSteps(input.steps),
+        is_default: !!input.is_default,
+        created_by: userId,
+        updated_by: userId,
+      })
+      .select('*')
+      .single();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: data as DunningLadder };
+  }
+
+  async updateLadder(
+    tenantId: string,
+    ladderId: string,
+    patch: UpdateDunningLadderRequest,
+    userId: string | null
+  ): Promise<DunningServiceResult<DunningLadder>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: existing, error: loadError } = await supabase
+      .from('t_dunning_ladders')
+      .select('id')
+      .eq('id', ladderId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (loadError) return this.fail('DATABASE_ERROR', loadError.message);
+    if (!existing) return this.fail('NOT_FOUND', 'Dunning ladder not found');
+
+    if (patch.is_default) {
+      const cleared = await this.clearDefault(supabase, tenantId, ladderId);
+      if (cleared) return this.fail('DATABASE_ERROR', cleared);
+    }
+
+    const values: Record<string, any> = { updated_by: userId, updated_at: new Date().toISOString() };
+    if (patch.name !== undefined) values.name = patch.name.trim();
+    if (patch.steps !== undefined) values.steps = normaliseSteps(patch.steps);
+    if (patch.is_default !== undefined) values.is_default = patch.is_default;
+    if (patch.is_active !== undefined) values.is_active = patch.is_active;
+
+    const { data, error } = await supabase
+      .from('t_dunning_ladders')
+      .update(values)
+      .eq('id', ladderId)
+      .eq('tenant_id', tenantId)
+      .select('*')
+      .single();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: data as DunningLadder };
+  }
+
+  /** Unset the current default ladder; returns an error message or null */
+  private async clearDefault(supabase: SupabaseClient, tenantId: string, exceptId?: string): Promise<string | null> {
+    let query = supabase
+      .from('t_dunning_ladders')
+      .update({ is_default: false, updated_at: new Date().toISOString() })
+      .eq('tenant_id', tenantId)
+      .eq('is_default', true);
+    if (exceptId) query = query.neq('id', exceptId);
+    const { error } = await query;
+    return error ? error.message : null;
+  }
+
+  // ==========================================================
+  // PER-INVOICE STATE + HISTORY
+  // ==========================================================
+
+  async updateInvoiceDunning(
+    tenantId: string,
+    invoiceId: string,
+    patch: UpdateInvoiceDunningRequest,
+    userId: string | null
+  ): Promise<DunningServiceResult<InvoiceDunningState>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('t_invoices')
+      .select('id')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (invoiceError) return this.fail('DATABASE_ERROR', invoiceError.message);
+    if (!invoice) return this.fail('NOT_FOUND', 'Invoice not found');
+
+    if (patch.ladder_id) {
+      const { data: ladder, error: ladderError } = await supabase
+        .from('t_dunning_ladders')
+        .select('id')
+        .eq('id', patch.ladder_id)
+        .eq('tenant_id', tenantId)
+        .maybeSingle();
+      if (ladderError) return this.fail('DATABASE_ERROR', ladderError.message);
+      if (!ladder) return this.fail('NOT_FOUND', 'Dunning ladder not found');
+    }
+
+    const now = new Date().toISOString();
+    const row: Record<string, any> = { invoice_id: invoiceId, tenant_id: tenantId, updated_by: userId, updated_at: now };
+    if (patch.ladder_id !== undefined) row.ladder_id = patch.ladder_id;
+    if (patch.status !== undefined) {
+      row.status = patch.status;
+      const stopped = patch.status === INVOICE_DUNNING_STATUSES.STOPPED;
+      row.stopped_reason = stopped ? 'manual' : null;
+      row.stopped_at = stopped ? now : null;
+    }
+
+    const { data, error } = await supabase
+      .from('t_invoice_dunning')
+      .upsert(row, { onConflict: 'invoice_id' })
+      .select('*')
+      .single();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: data as InvoiceDunningState };
+  }
+
+  async getReminderHistory(tenantId: string, invoiceId: string): Promise<DunningServiceResult<InvoiceReminder[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_invoice_reminders')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: false });
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []) as InvoiceReminder[] };
+  }
+
+  /**
+   * Latest reminders and dunning state for a set of invoices — merged into
+   * GET /api/finance/receivables
+   */
+  async getInvoiceDunningSummary(
+    tenantId: string,
+    invoiceIds: string[]
+  ): Promise<DunningServiceResult<Record<string, { dunning: InvoiceDunningState | null; reminders: InvoiceReminder[] }>>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const summary: Record<string, { dunning: InvoiceDunningState | null; reminders: InvoiceReminder[] }> = {};
+    if (invoiceIds.length === 0) return { success: true, data: summary };
+    for (const id of invoiceIds) summary[id] = { dunning: null, reminders: [] };
+
+    const [reminders, states] = await Promise.all([
+      supabase
+        .from('t_invoice_reminders')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .in('invoice_id', invoiceIds)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('t_invoice_dunning')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .in('invoice_id', invoiceIds),
+    ]);
+    if (reminders.error) return this.fail('DATABASE_ERROR', reminders.error.message);
+    if (states.error) return this.fail('DATABASE_ERROR', states.error.message);
+
+    for (const r of (reminders.data || []) as InvoiceReminder[]) {
+      const entry = summary[r.invoice_id];
+      if (entry && entry.reminders.length < HISTORY_PER_INVOICE) entry.reminders.push(r);
+    }
+    for (const s of (states.data || []) as InvoiceDunningState[]) {
+      if (summary[s.invoice_id]) summary[s.invoice_id].dunning = s;
+    }
+    return { success: true, data: summary };
+  }
+
+  /**
+   * Log a reminder sent by hand (finance remind button, invoice send) so the
+   * history is complete and the job keeps its gap after it. Best-effort.
+   */
+  async recordManualReminder(params: {
+    tenantId: string;
+    invoiceId: string;
+    channel: ReminderChannel;
+    userId: string | null;
+  }): Promise<void> {
+    const supabase = this.client();
+    if (!supabase) return;
+    const { error } = await supabase.from('t_invoice_reminders').insert({
+      tenant_id: params.tenantId,
+      invoice_id: params.invoiceId,
+      source: 'manual',
+      channel: params.channel,
+      status: 'sent',
+      sent_by: params.userId,
+    });
+    if (error) console.warn('[DunningService] manual reminder not logged:', error.message);
+  }
+
+  /**
+   * Called after contractService.recordPayment succeeds: stop dunning once
+   * the invoice no longer owes anything. Best-effort — the run also skips
+   * invoices that are no longer open.
+   */
+  async onPaymentRecorded(tenantId: string, invoiceId: string): Promise<void> {
+    const supabase = this.client();
+    if (!supabase || !invoiceId) return;
+
+    const { data: invoice, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error || !invoice) {
+      if (error) console.warn('[DunningService] invoice lookup after payment failed:', error.message);
+      return;
+    }
+    if (invoiceOutstanding(invoice) > 0 && OPEN_INVOICE_STATUSES.includes(invoice.status)) return;
+
+    await this.stopInvoice(supabase, tenantId, invoiceId, 'paid');
+  }
+
+  private async stopInvoice(supabase: SupabaseClient, tenantId: string, invoiceId: string, reason: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('t_invoice_dunning')
+      .upsert({
+        invoice_id: invoiceId,
+        tenant_id: tenantId,
+        status: INVOICE_DUNNING_STATUSES.STOPPED,
+        stopped_reason: reason,
+        stopped_at: now,
+        updated_at: now,
+      }, { onConflict: 'invoice_id' });
+    if (error) {
+      console.warn(`[DunningService] stop(${reason}) for invoice ${invoiceId} failed:`, error.message);
+      return false;
+    }
+    return true;
+  }
+
+  // ==========================================================
+  // SCHEDULER
+  // ==========================================================
+
+  /** Start the periodic run (DUNNING_INTERVAL_MS, default 1 h) */
+  start(intervalMs: number = Number(process.env.DUNNING_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (!this.client()) {
+      console.warn('[DunningService] Supabase is not configured — dunning not started');
+      return;
+    }
+
+    const tick = () => {
+      if (this.running) return; // previous run still going
+      this.running = true;
+      this.run()
+        .then((result) => {
+          if (!result.success) {
+            console.error('[DunningService] run failed:', result.error?.message);
+          } else if (result.data && (result.data.sent > 0 || result.data.failed > 0)) {
+            console.log('[DunningService] run:', JSON.stringify(result.data));
+          }
+        })
+        .finally(() => { this.running = false; });
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    // Never keep the process alive just for dunning
+    this.timer.unref();
+    tick();
+    console.log(`✅ Dunning started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================================
+  // RUN
+  // ==========================================================
+
+  /** One run over all tenants, or only `tenantId`; dryRun plans without sending */
+  async run(options: { tenantId?: string; now?: Date; dryRun?: boolean } = {}): Promise<DunningServiceResult<DunningRunResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const now = options.now || new Date();
+    const dryRun = !!options.dryRun;
+    const result: DunningRunResult = {
+      invoices_checked: 0,
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      stopped: 0,
+      dry_run: dryRun,
+      ...(dryRun ? { planned: [] } : {}),
+    };
+
+    try {
+      let query = supabase
+        .from('t_dunning_ladders')
+        .select('*')
+        .eq('is_active', true);
+      if (options.tenantId) query = query.eq('tenant_id', options.tenantId);
+      const { data: ladders, error } = await query;
+      if (error) throw new Error(`ladder lookup failed: ${error.message}`);
+
+      const byTenant = new Map<string, DunningLadder[]>();
+      for (const ladder of (ladders || []) as DunningLadder[]) {
+        if (!Array.isArray(ladder.steps) || ladder.steps.length === 0) continue;
+        ladder.steps = normaliseSteps(ladder.steps);
+        byTenant.set(ladder.tenant_id, [...(byTenant.get(ladder.tenant_id) || []), ladder]);
+      }
+
+      for (const [tenantId, tenantLadders] of byTenant) {
+        try {
+          await this.runTenant(supabase, tenantId, tenantLadders, now, result);
+        } catch (tenantError: any) {
+          // One tenant's failure must not stop the others
+          console.error(`[DunningService] run for tenant ${tenantId} failed:`, tenantError?.message);
+          captureException(tenantError instanceof Error ? tenantError : new Error(String(tenantError)), {
+            tags: { component: 'DunningService', action: 'runTenant' },
+            extra: { tenantId },
+          });
+        }
+      }
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { component: 'DunningService', action: 'run' },
+      });
+      return this.fail('DUNNING_FAILED', error?.message || 'Dunning run failed');
+    }
+  }
+
+  private async runTenant(
+    supabase: SupabaseClient,
+    tenantId: string,
+    ladders: DunningLadder[],
+    now: Date,
+    result: DunningRunResult
+  ): Promise<void> {
+    const ladderById = new Map(ladders.map((l) => [l.id, l]));
+    const defaultLadder = ladders.find((l) => l.is_default) || null;
+    const today = localDay(now, await tenantTimeZoneService.getTimeZone(tenantId));
+
+    // Earliest step of any ladder bounds how far ahead a due date can be
+    const maxLead = Math.max(0, ...ladders.map((l) => -l.steps[0].offset_days));
+    const dueBy = new Date(Date.parse(`${today}T00:00:00Z`) + maxLead * DAY_MS).toISOString().slice(0, 10);
+
+    const collections = new Map<boolean, Collection>();
+
+    for (let offset = 0; offset < MAX_INVOICES_PER_TENANT; offset += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('t_invoices')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .in('status', OPEN_INVOICE_STATUSES)
+        .not('due_date', 'is', null)
+        .lte('due_date', dueBy)
+        .order('due_date', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(`invoice scan failed: ${error.message}`);
+      const invoices = (page || []) as InvoiceRow[];
+      if (invoices.length === 0) break;
+
+      const ids = invoices.map((i) => i.id);
+      const [statesRes, remindersRes] = await Promise.all([
+        supabase.from('t_invoice_dunning').select('*').in('invoice_id', ids),
+        supabase
+          .from('t_invoice_reminders')
+          .select('invoice_id, source, ladder_id, step_index, channel, status, created_at')
+          .in('invoice_id', ids)
+          .order('created_at', { ascending: false }),
+      ]);
+      if (statesRes.error) throw new Error(`dunning state lookup failed: ${statesRes.error.message}`);
+      if (remindersRes.error) throw new Error(`reminder lookup failed: ${remindersRes.error.message}`);
+
+      const states = new Map(((statesRes.data || []) as InvoiceDunningState[]).map((s) => [s.invoice_id, s]));
+      const history = new Map<string, InvoiceReminder[]>();
+      for (const r of (remindersRes.data || []) as InvoiceReminder[]) {
+        history.set(r.invoice_id, [...(history.get(r.invoice_id) || []), r]);
+      }
+
+      for (const invoice of invoices) {
+        result.invoices_checked++;
+        const state = states.get(invoice.id) || null;
+        const balance = invoiceOutstanding(invoice);
+
+        if (balance <= 0) {
+          if (state?.status !== INVOICE_DUNNING_STATUSES.STOPPED && !result.dry_run
+            && await this.stopInvoice(supabase, tenantId, invoice.id, 'paid')) {
+            result.stopped++;
+          }
+          continue;
+        }
+        if (state?.status === INVOICE_DUNNING_STATUSES.PAUSED) continue;
+        // Stopped because paid, but owes again (receipt cancelled) — resume
+        if (state?.status === INVOICE_DUNNING_STATUSES.STOPPED && state.stopped_reason !== 'paid') continue;
+
+        const ladder = state?.ladder_id ? ladderById.get(state.ladder_id) || null : defaultLadder;
+        if (!ladder) continue;
+
+        const planned = this.plan(ladder, String(invoice.due_date).slice(0, 10), today, history.get(invoice.id) || [], now);
+        if (!planned) continue;
+
+        if (result.dry_run) {
+          result.planned!.push({
+            invoice_id: invoice.id,
+            step_index: planned.stepIndex,
+            offset_days: planned.step.offset_days,
+            channel: planned.channel,
+          });
+          continue;
+        }
+
+        if (state?.status === INVOICE_DUNNING_STATUSES.STOPPED) {
+          await supabase
+            .from('t_invoice_dunning')
+            .update({ status: INVOICE_DUNNING_STATUSES.ACTIVE, stopped_reason: null, stopped_at: null, updated_at: now.toISOString() })
+            .eq('invoice_id', invoice.id);
+        }
+
+        const isLive = invoice.is_live !== false;
+        if (!collections.has(isLive)) collections.set(isLive, await this.collection(tenantId, isLive));
+
+        const outcome = await this.send(supabase, tenantId, invoice, balance, planned, collections.get(isLive)!);
+        if (outcome) result[outcome]++;
+      }
+
+      if (invoices.length < PAGE_SIZE) break;
+    }
+  }
+
+  /**
+   * The step to send now, or null. Latest step whose day has come, unless it
+   * (or a later one) was already sent, it failed too often, or any reminder
+   * went out within the gap.
+   */
+  private plan(
+    ladder: DunningLadder,
+    dueDate: string,
+    today: string,
+    history: InvoiceReminder[],
+    now: Date
+  ): PlannedStep | null {
+    const daysFromDue = dayDiff(dueDate, today);
+
+    let stepIndex = -1;
+    ladder.steps.forEach((s, i) => { if (s.offset_days <= daysFromDue) stepIndex = i; });
+    if (stepIndex < 0) return null;
+
+    const ladderHistory = history.filter((r) => r.source === 'dunning' && r.ladder_id === ladder.id);
+    if (ladderHistory.some((r) => r.status !== 'failed' && (r.step_index ?? -1) >= stepIndex)) return null;
+    if (ladderHistory.filter((r) => r.status === 'failed' && r.step_index === stepIndex).length >= MAX_STEP_ATTEMPTS) return null;
+
+    const lastSent = history.find((r) => r.status === 'sent' || r.status === 'pending');
+    if (lastSent && now.getTime() - Date.parse(lastSent.created_at) < REMINDER_GAP_HOURS * 60 * 60 * 1000) return null;
+
+    const step = ladder.steps[stepIndex];
+    const channel = step.channel
+      || (lastSent?.channel === REMINDER_CHANNELS.EMAIL ? REMINDER_CHANNELS.WHATSAPP : REMINDER_CHANNELS.EMAIL);
+    return { ladder, stepIndex, step, channel };
+  }
+
+  /** Claim the step, send it, record the outcome */
+  private async send(
+    supabase: SupabaseClient,
+    tenantId: string,
+    invoice: InvoiceRow,
+    balance: number,
+    planned: PlannedStep,
+    collection: Collection
+  ): Promise<'sent' | 'skipped' | 'failed' | null> {
+    const { data: claim, error: claimError } = await supabase
+      .from('t_invoice_reminders')
+      .insert({
+        tenant_id: tenantId,
+        invoice_id: invoice.id,
+        source: 'dunning',
+        ladder_id: planned.ladder.id,
+        step_index: planned.stepIndex,
+        offset_days: planned.step.offset_days,
+        channel: planned.channel,
+        status: 'pending',
+        balance_due: balance,
+        currency: invoice.currency || null,
+      })
+      .select('id')
+      .single();
+    if (claimError) {
+      if (claimError.code === '23505') return null; // another run has it
+      throw new Error(`reminder claim failed: ${claimError.message}`);
+    }
+
+    const sent = await invoiceService.sendInvoice({
+      tenantId,
+      invoiceId: invoice.id,
+      channel: planned.channel,
+      userId: null,
+      paymentLink: collection.paymentLink,
+      qrUrl: collection.qrUrl,
+      upiId: collection.upiId,
+    });
+
+    let status: 'sent' | 'skipped' | 'failed';
+    let reason: string | null = null;
+    if (!sent.success) {
+      status = 'failed';
+      reason = sent.error?.message || 'Send failed';
+    } else if (sent.data && sent.data.ok === false) {
+      // Refused by the RPC (rule off, no address, nothing owed…) — keeps the claim
+      status = 'skipped';
+      reason = sent.data.reason || sent.data.message || 'Refused';
+    } else {
+      status = 'sent';
+    }
+
+    const { error: updateError } = await supabase
+      .from('t_invoice_reminders')
+      .update({ status, reason })
+      .eq('id', claim.id);
+    if (updateError) console.warn(`[DunningService] reminder ${claim.id} status not saved:`, updateError.message);
+
+    return status;
+  }
+
+  /** Offline UPI pay line for automated reminders (see header) */
+  private async collection(tenantId: string, isLive: boolean): Promise<Collection> {
+    const none: Collection = { paymentLink: null, qrUrl: null, upiId: null };
+    const cfg = await invoiceService.getTenantPaymentConfig({ tenantId, isLive });
+    if (!cfg.success || !cfg.data?.configured) return none;
+    // Same upi:// intent shape invoiceController.sendInvoice builds
+    const vpa = encodeURIComponent(cfg.data.upi_id);
+    const pn = encodeURIComponent(cfg.data.payee_name || '');
+    return {
+      paymentLink: `upi://pay?pa=${vpa}&pn=${pn}&cu=INR&mc=0000`,
+      qrUrl: cfg.data.qr_image_url || null,
+      upiId: cfg.data.upi_id || null,
+    };
+  }
+}
+
+export const dunningService = new DunningService();
+export default dunningService;
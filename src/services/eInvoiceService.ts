@@ -0,0 +1,464 @@
+// ============================================================================
+// E-Invoice Service — GST INV-01 JSON for invoices, IRN stored back
+// ============================================================================
+// Builds the government e-invoice JSON (INV-01, version 1.1) from the same
+// document invoiceService.getInvoiceDetail serves to the invoice screen:
+//   seller  tenant profile + GSTIN from t_tax_info
+//   buyer   the invoice's contact (contract buyer for contract invoices) —
+//           GSTIN from compliance numbers, billing (else primary) address
+//   items   one per line item, HSN/SAC from the request / remembered codes
+//   tax     the invoice's tax amount at its rate, split CGST+SGST (UTGST goes
+//           in SgstAmt) or IGST by seller state vs place of supply; whatever
+//           the stored total differs by becomes RndOffAmt
+// The document is validated (utils/gstInv01) before it is stored or
+// downloaded. We do not talk to the IRP: the user uploads the JSON on the
+// portal and uploads the portal's response back here, from which the IRN,
+// ack number and signed QR are stored.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import invoiceService from './invoiceService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import { validateInv01 } from '../utils/gstInv01';
+import { gstSupplyType, splitTaxComponents } from '../utils/taxCalculation';
+import {
+  GST_FOREIGN_PLACE_OF_SUPPLY,
+  findGstin,
+  gstStateCodeFromGstin,
+  normaliseGstStateCode
+} from '../utils/constants/gstStates';
+import {
+  EINVOICE_GST_RATES,
+  EINVOICE_STATUSES,
+  EInvoiceGenerateResult,
+  GenerateEInvoiceRequest,
+  Inv01Document,
+  Inv01Item,
+  InvoiceEInvoice,
+  RecordEInvoiceIrnRequest
+} from '../types/eInvoiceTypes';
+
+export interface EInvoiceServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const IRN_PATTERN = /^[a-f0-9]{64}$/i;
+const DEFAULT_SERVICE_UNIT = 'OTH';
+const DEFAULT_GOODS_UNIT = 'NOS';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+const num = (v: unknown): number => Number(v) || 0;
+
+/** dd/mm/yyyy of an instant in the tenant's zone */
+function portalDate(value: string | null | undefined, timeZone: string): string {
+  const date = value ? new Date(value) : new Date();
+  return new Intl.DateTimeFormat('en-GB', { timeZone, day: '2-digit', month: '2-digit', year: 'numeric' })
+    .format(Number.isNaN(date.getTime()) ? new Date() : date);
+}
+
+/** Portal timestamps are IST wall-clock ("2026-10-18 14:05:00") */
+function portalTimestamp(value: unknown): string | null {
+  if (!value) return null;
+  const text = String(value).trim();
+  const iso = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/.test(text) ? `${text.replace(' ', 'T')}+05:30` : text;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Nearest rate the IRP accepts when within rounding; otherwise as-is (validation reports it) */
+function snapGstRate(rate: number): number {
+  const nearest = EINVOICE_GST_RATES.reduce((best, r) => (Math.abs(r - rate) < Math.abs(best - rate) ? r : best), 0);
+  return Math.abs(nearest - rate) <= 0.05 ? nearest : round2(rate);
+}
+
+/** SignedInvoice is a JWT whose payload.data is the registered INV-01 JSON */
+function signedDocumentNumber(signedInvoice: string | undefined): string | null {
+  if (!signedInvoice) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(signedInvoice.split('.')[1] || '', 'base64url').toString('utf8'));
+    const data = typeof payload.data === 'string' ? JSON.parse(payload.data) : payload.data;
+    return data?.DocDtls?.No ?? null;
+  } catch {
+    return null;
+  }
+}
+
+class EInvoiceService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): EInvoiceServiceResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  /** The stored e-invoice of an invoice, null when none was generated */
+  async getEInvoice(tenantId: string, invoiceId: string): Promise<EInvoiceServiceResult<InvoiceEInvoice | null>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_invoice_einvoices')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('invoice_id', invoiceId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data as InvoiceEInvoice) || null };
+  }
+
+  /**
+   * Build and validate the INV-01 JSON for an invoice. A valid document is
+   * stored (with the HSN/SAC codes used); an invalid one is returned with
+   * its errors and not stored. A registered invoice is never regenerated —
+   * its IRN is bound to the JSON the portal accepted.
+   */
+  async generate(params: {
+    tenantId: string;
+    invoiceId: string;
+    isLive: boolean;
+    userId: string | null;
+    request: GenerateEInvoiceRequest;
+  }): Promise<EInvoiceServiceResult<EInvoiceGenerateResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const existing = await this.getEInvoice(params.tenantId, params.invoiceId);
+    if (!existing.success) return this.fail(existing.error!.code, existing.error!.message);
+    if (existing.data?.status === EINVOICE_STATUSES.REGISTERED) {
+      return this.fail('CONFLICT', `Invoice already has IRN ${existing.data.irn}; cancel it on the portal first`);
+    }
+
+    const detailRes = await invoiceService.getInvoiceDetail({
+      tenantId: params.tenantId, invoiceId: params.invoiceId, isLive: params.isLive,
+    });
+    if (!detailRes.success) return this.fail('DATABASE_ERROR', detailRes.error?.message || 'Failed to load invoice');
+    if (detailRes.data && detailRes.data.success === false) {
+      return this.fail('NOT_FOUND', detailRes.data.error || 'Invoice not found');
+    }
+    const detail = detailRes.data?.data ?? detailRes.data ?? {};
+
+    const hsnCodes: Record<string, string> = {
+      ...(existing.data?.hsn_codes || {}),
+      ...(params.request.hsn_codes || {}),
+      ...(params.request.default_hsn_code ? { default: params.request.default_hsn_code } : {}),
+    };
+
+    try {
+      const document = await this.buildDocument(supabase, params.tenantId, detail, hsnCodes, params.request);
+      const errors = validateInv01(document);
+      if (errors.length > 0) {
+        return { success: true, data: { valid: false, errors, document, einvoice: null } };
+      }
+
+      const { data, error } = await supabase
+        .from('t_invoice_einvoices')
+        .upsert({
+          tenant_id: params.tenantId,
+          invoice_id: params.invoiceId,
+          is_live: params.isLive,
+          status: EINVOICE_STATUSES.GENERATED,
+          payload: document,
+          hsn_codes: hsnCodes,
+          generated_by: params.userId,
+          generated_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'tenant_id,invoice_id' })
+        .select('*')
+        .single();
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+
+      return { success: true, data: { valid: true, errors: [], document, einvoice: data as InvoiceEInvoice } };
+    } catch (e: any) {
+      console.error('[EInvoiceService] generate error:', e.message);
+      return this.fail('DATABASE_ERROR', e.message || 'Failed to build e-invoice');
+    }
+  }
+
+  /**
+   * Store the IRP response for a generated e-invoice. Idempotent for the same
+   * IRN; a different IRN on a registered invoice is refused, as is a signed
+   * invoice issued for another document number.
+   */
+  async recordIrn(params: {
+    tenantId: string;
+    invoiceId: string;
+    userId: string | null;
+    response: unknown;
+  }): Promise<EInvoiceServiceResult<InvoiceEInvoice>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const portal = this.unwrapPortalResponse(params.response);
+    const irn = String(portal?.Irn || '').trim().toLowerCase();
+    if (!IRN_PATTERN.test(irn)) return this.fail('VALIDATION_ERROR', 'Response has no valid Irn (64 hex characters)');
+    const ackNo = portal?.AckNo !== undefined && portal?.AckNo !== null ? String(portal.AckNo).trim() : '';
+    if (!/^\d{1,20}$/.test(ackNo)) return this.fail('VALIDATION_ERROR', 'Response has no valid AckNo');
+
+    const existing = await this.getEInvoice(params.tenantId, params.invoiceId);
+    if (!existing.success) return this.fail(existing.error!.code, existing.error!.message);
+    const row = existing.data;
+    if (!row) return this.fail('NOT_FOUND', 'Generate the e-invoice JSON before recording its IRN');
+    if (row.status === EINVOICE_STATUSES.REGISTERED) {
+      if (row.irn === irn) return { success: true, data: row };
+      return this.fail('CONFLICT', `Invoice is already registered with IRN ${row.irn}`);
+    }
+
+    const signedNo = signedDocumentNumber(portal?.SignedInvoice);
+    if (signedNo && signedNo !== row.payload?.DocDtls?.No) {
+      return this.fail('VALIDATION_ERROR', `Signed invoice is for document ${signedNo}, not ${row.payload?.DocDtls?.No}`);
+    }
+
+    const { data, error } = await supabase
+      .from('t_invoice_einvoices')
+      .update({
+        status: EINVOICE_STATUSES.REGISTERED,
+        irn,
+        ack_no: ackNo,
+        ack_date: portalTimestamp(portal?.AckDt),
+        signed_invoice: portal?.SignedInvoice || null,
+        signed_qr_code: portal?.SignedQRCode || null,
+        portal_response: portal,
+        registered_by: params.userId,
+        registered_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .select('*')
+      .single();
+    if (error) {
+      if ((error as any).code === '23505') return this.fail('CONFLICT', 'This IRN is already recorded on another invoice');
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: data as InvoiceEInvoice };
+  }
+
+  // ─────────────────────────────────────────────
+  // Document
+  // ─────────────────────────────────────────────
+
+  private async buildDocument(
+    supabase: SupabaseClient,
+    tenantId: string,
+    detail: Record<string, any>,
+    hsnCodes: Record<string, string>,
+    request: GenerateEInvoiceRequest
+  ): Promise<Inv01Document> {
+    const header = detail.invoice || detail;
+    const lines: any[] = detail.line_items || detail.items || header.line_items || [];
+    const timeZone = await tenantTimeZoneService.getTimeZone(tenantId);
+
+    const seller = await this.loadSeller(supabase, tenantId);
+    const buyer = await this.loadBuyer(supabase, tenantId, detail, header);
+
+    const supplyType = gstSupplyType({
+      sellerCountryCode: 'IN',
+      sellerStateCode: seller.stateCode,
+      buyerCountryCode: buyer.countryCode,
+      buyerStateCode: buyer.stateCode,
+    });
+    const isExport = supplyType === 'export';
+    const placeOfSupply = isExport ? GST_FOREIGN_PLACE_OF_SUPPLY : (buyer.stateCode || seller.stateCode || '');
+
+    // Rate: the tax engine's breakdown when the invoice carries one, else
+    // implied by tax over the pre-tax subtotal
+    const subtotal = round2(lines.reduce((s, li) => s + num(li.amount ?? li.total), 0));
+    const invoiceTax = num(header.tax_amount ?? header.tax_total);
+    const breakdownRate = header.tax_breakdown?.tax_rate ?? detail.tax_breakdown?.tax_rate;
+    const rate = breakdownRate !== undefined && breakdownRate !== null
+      ? num(breakdownRate)
+      : subtotal > 0 ? snapGstRate((invoiceTax / subtotal) * 100) : 0;
+
+    const isService = request.is_service !== false;
+    const unit = (request.unit || (isService ? DEFAULT_SERVICE_UNIT : DEFAULT_GOODS_UNIT)).toUpperCase();
+
+    const items: Inv01Item[] = lines.map((li, i) => {
+      const qty = num(li.qty ?? li.quantity) || 1;
+      const amount = round2(num(li.amount ?? li.total));
+      const tax = round2((amount * rate) / 100);
+      const components = splitTaxComponents(tax, rate, isExport ? 'export' : supplyType, placeOfSupply);
+      const part = (code: string) => round2(components.filter((c) => c.code === code).reduce((s, c) => s + c.amount, 0));
+      const hsn = (li.block_id && hsnCodes[li.block_id]) || hsnCodes[String(i + 1)] || li.hsn_code || li.sac_code || hsnCodes.default || '';
+      return {
+        SlNo: String(i + 1),
+        PrdDesc: String(li.name || li.description || '').trim().slice(0, 300),
+        IsServc: isService ? 'Y' : 'N',
+        HsnCd: String(hsn).trim(),
+        Qty: qty,
+        Unit: unit,
+        UnitPrice: round2(num(li.unit_price ?? li.rate) || amount / qty),
+        TotAmt: amount,
+        Discount: 0,
+        AssAmt: amount,
+        GstRt: rate,
+        IgstAmt: part('IGST'),
+        CgstAmt: part('CGST'),
+        SgstAmt: round2(part('SGST') + part('UTGST')),
+        CesRt: 0,
+        CesAmt: 0,
+        CesNonAdvlAmt: 0,
+        StateCesRt: 0,
+        StateCesAmt: 0,
+        StateCesNonAdvlAmt: 0,
+        OthChrg: 0,
+        TotItemVal: round2(amount + tax),
+      };
+    });
+
+    const sum = (pick: (item: Inv01Item) => number) => round2(items.reduce((s, item) => s + pick(item), 0));
+    const assVal = sum((x) => x.AssAmt);
+    const cgst = sum((x) => x.CgstAmt);
+    const sgst = sum((x) => x.SgstAmt);
+    const igst = sum((x) => x.IgstAmt);
+    const computedTotal = round2(assVal + cgst + sgst + igst);
+    const statedTotal = num(header.total_amount ?? header.amount) || computedTotal;
+
+    return {
+      Version: '1.1',
+      TranDtls: {
+        TaxSch: 'GST',
+        SupTyp: isExport ? (igst > 0 ? 'EXPWP' : 'EXPWOP') : 'B2B',
+        RegRev: 'N',
+        EcmGstin: null,
+        IgstOnIntra: 'N',
+      },
+      DocDtls: {
+        Typ: 'INV',
+        No: String(header.invoice_number || '').trim().toUpperCase(),
+        Dt: portalDate(header.invoice_date || header.issued_at || header.created_at, timeZone),
+      },
+      SellerDtls: {
+        Gstin: seller.gstin || '',
+        LglNm: seller.name,
+        Addr1: seller.addr1,
+        ...(seller.addr2.length >= 3 ? { Addr2: seller.addr2 } : {}),
+        Loc: seller.city,
+        Pin: seller.pin,
+        Stcd: seller.stateCode || '',
+        ...(seller.phone ? { Ph: seller.phone } : {}),
+        ...(seller.email ? { Em: seller.email } : {}),
+      },
+      BuyerDtls: {
+        Gstin: isExport ? 'URP' : (buyer.gstin || ''),
+        LglNm: buyer.name,
+        Pos: placeOfSupply,
+        Addr1: buyer.addr1,
+        ...(buyer.addr2.length >= 3 ? { Addr2: buyer.addr2 } : {}),
+        Loc: buyer.city,
+        Pin: isExport ? 999999 : buyer.pin,
+        Stcd: isExport ? GST_FOREIGN_PLACE_OF_SUPPLY : (buyer.stateCode || ''),
+      },
+      ItemList: items,
+      ValDtls: {
+        AssVal: assVal,
+        CgstVal: cgst,
+        SgstVal: sgst,
+        IgstVal: igst,
+        CesVal: 0,
+        StCesVal: 0,
+        Discount: 0,
+        OthChrg: 0,
+        RndOffAmt: round2(statedTotal - computedTotal),
+        TotInvVal: round2(statedTotal),
+      },
+    };
+  }
+
+  private async loadSeller(supabase: SupabaseClient, tenantId: string) {
+    const [profileRes, taxInfoRes] = await Promise.all([
+      supabase
+        .from('t_tenant_profiles')
+        .select('business_name, business_email, business_phone, address_line1, address_line2, city, postal_code, state_code')
+        .eq('tenant_id', tenantId)
+        .maybeSingle(),
+      supabase.from('t_tax_info').select('tax_id_type, tax_id_value').eq('tenant_id', tenantId),
+    ]);
+    if (profileRes.error) throw new Error(profileRes.error.message);
+    const profile = profileRes.data || ({} as Record<string, any>);
+    const gstin = findGstin((taxInfoRes.data || []).map((r: any) => r.tax_id_value));
+
+    return {
+      gstin,
+      name: String(profile.business_name || '').trim(),
+      addr1: String(profile.address_line1 || '').trim(),
+      addr2: String(profile.address_line2 || '').trim(),
+      city: String(profile.city || '').trim(),
+      pin: Number(String(profile.postal_code || '').replace(/\s/g, '')) || 0,
+      // GSTIN state wins: it is the registration the IRP checks against
+      stateCode: gstStateCodeFromGstin(gstin) || normaliseGstStateCode(profile.state_code),
+      phone: String(profile.business_phone || '').replace(/\D/g, '').slice(-12) || null,
+      email: profile.business_email || null,
+    };
+  }
+
+  private async loadBuyer(
+    supabase: SupabaseClient,
+    tenantId: string,
+    detail: Record<string, any>,
+    header: Record<string, any>
+  ) {
+    let contactId: string | null = header.contact_id || detail.contact?.id || detail.bill_to?.id || null;
+    if (!contactId && header.contract_id) {
+      const { data: contract } = await supabase
+        .from('t_contracts')
+        .select('buyer_id')
+        .eq('id', header.contract_id)
+        .eq('tenant_id', tenantId)
+        .maybeSingle();
+      contactId = contract?.buyer_id || null;
+    }
+
+    let contact: Record<string, any> | null = null;
+    let addresses: any[] = [];
+    if (contactId) {
+      const [contactRes, addrRes] = await Promise.all([
+        supabase.from('t_contacts').select('id, name, company_name, compliance_numbers')
+          .eq('id', contactId).eq('tenant_id', tenantId).maybeSingle(),
+        supabase.from('t_contact_addresses').select('type, address_line1, address_line2, city, state_code, country_code, postal_code, is_primary')
+          .eq('contact_id', contactId),
+      ]);
+      if (contactRes.error) throw new Error(contactRes.error.message);
+      contact = contactRes.data;
+      addresses = addrRes.data || [];
+    }
+
+    const address = addresses.find((a) => a.type === 'billing') || addresses.find((a) => a.is_primary) || addresses[0] || {};
+    const gstin = findGstin(contact?.compliance_numbers) || findGstin(detail.contact?.compliance_numbers);
+    const countryCode = address.country_code ? String(address.country_code).toUpperCase() : 'IN';
+
+    return {
+      gstin,
+      name: String(contact?.company_name || contact?.name || detail.contact?.name || '').trim(),
+      addr1: String(address.address_line1 || '').trim(),
+      addr2: String(address.address_line2 || '').trim(),
+      city: String(address.city || '').trim(),
+      pin: Number(String(address.postal_code || '').replace(/\s/g, '')) || 0,
+      countryCode,
+      stateCode: gstStateCodeFromGstin(gstin) || normaliseGstStateCode(address.state_code),
+    };
+  }
+
+  /** Portal downloads wrap the result differently; find the object carrying Irn */
+  private unwrapPortalResponse(response: unknown): RecordEInvoiceIrnRequest | null {
+    let node: any = response;
+    for (let depth = 0; depth < 4 && node; depth++) {
+      if (typeof node === 'string') {
+        try { node = JSON.parse(node); } catch { return null; }
+        continue;
+      }
+      if (Array.isArray(node)) { node = node[0]; continue; }
+      if (node.Irn) return node;
+      node = node.data ?? node.Data ?? node.result ?? null;
+    }
+    return null;
+  }
+}
+
+export const eInvoiceService = new EInvoiceService();
+export default eInvoiceService;
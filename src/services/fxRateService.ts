@@ -0,0 +1,535 @@
+// ============================================================================
+// FX Rate Service — tenant exchange rates and base-currency reporting
+// ============================================================================
+// Tables: t_fx_rates / t_fx_rate_stamps, t_tenant_profiles.base_currency
+// (src/migrations/019). No live feed: rates are entered or uploaded (CSV) by
+// the tenant; see utils/fx for the lookup rule.
+//
+// Stamping: the rate used for an invoice (at its invoice date) or a receipt
+// (at its payment date) is written to t_fx_rate_stamps the first time it is
+// converted and reused after that, so adding or correcting a later rate does
+// not move reported figures. Receipts are stamped when recorded through this
+// API (record payment, bank reconciliation, gateway webhook, ad-hoc invoice);
+// invoices when recorded here or first reported on. A record with no rate on
+// its date stays unstamped (reported without base amounts) until one is
+// added. A stamp in a former base currency is replaced.
+//
+// Consumers: receivables ageing and worklist, tax summary (base currency
+// alongside the transaction currency).
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { OPEN_INVOICE_STATUSES, invoiceOutstanding } from './invoiceService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import { FxRateTable, buildRateTable, parseFxRateFile, rateOn, toBase } from '../utils/fx';
+import {
+  BaseCurrencyAmounts,
+  FxRate,
+  FxRateImportResult,
+  FxRateInput,
+  FxRateSource,
+  FxRateStamp
+} from '../types/financeTypes';
+
+export interface FxRateResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface ConsolidatedTaxMonth {
+  month: string;                          // YYYY-MM, tenant time zone
+  currency: string;
+  invoice_count: number;
+  taxable_value: number;
+  tax_amount: number;
+  base_taxable_value: number | null;      // null when an invoice has no rate
+  base_tax_amount: number | null;
+  unconverted_count: number;
+}
+
+export interface ConsolidatedTaxSummary {
+  base_currency: string;
+  months: ConsolidatedTaxMonth[];
+  totals_in_base: Array<{ month: string; taxable_value: number; tax_amount: number; unconverted_count: number }>;
+}
+
+export const DEFAULT_BASE_CURRENCY = 'INR';
+
+const PAGE_SIZE = 1000;
+const MAX_INVOICES = 20000;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Months of invoices in the consolidated tax summary
+const TAX_SUMMARY_MONTHS = 12;
+const REPORTED_STATUSES = [...OPEN_INVOICE_STATUSES, 'paid'];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+const num = (v: unknown): number => Number(v) || 0;
+
+function localDay(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/** Same date rule as the ageing report */
+function invoiceDate(invoice: Record<string, any>): string | null {
+  return (invoice.invoice_date || invoice.issue_date || invoice.created_at || null)?.slice(0, 10) ?? null;
+}
+
+class FxRateService {
+  private baseCache = new Map<string, { currency: string; expiry: number }>();
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): FxRateResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ─── Base currency ───
+
+  async getBaseCurrency(tenantId: string): Promise<string> {
+    const cached = this.baseCache.get(tenantId);
+    if (cached && Date.now() < cached.expiry) return cached.currency;
+
+    const supabase = this.client();
+    if (!supabase || !tenantId) return DEFAULT_BASE_CURRENCY;
+
+    const { data, error } = await supabase
+      .from('t_tenant_profiles')
+      .select('base_currency')
+      .eq('tenant_id', tenantId)
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.warn('[FxRateService] base currency lookup failed, using default:', error.message);
+      return DEFAULT_BASE_CURRENCY;
+    }
+
+    const currency = /^[A-Z]{3}$/.test(data?.base_currency || '') ? data!.base_currency : DEFAULT_BASE_CURRENCY;
+    this.baseCache.set(tenantId, { currency, expiry: Date.now() + CACHE_TTL_MS });
+    return currency;
+  }
+
+  async setBaseCurrency(tenantId: string, currency: string): Promise<FxRateResult<{ base_currency: string }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const code = currency.toUpperCase();
+    const { data, error } = await supabase
+      .from('t_tenant_profiles')
+      .update({ base_currency: code })
+      .eq('tenant_id', tenantId)
+      .select('base_currency');
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data || data.length === 0) return this.fail('NOT_FOUND', 'Tenant profile not found');
+
+    this.baseCache.delete(tenantId);
+    return { success: true, data: { base_currency: code } };
+  }
+
+  // ─── Rates ───
+
+  async listRates(tenantId: string, currency?: string): Promise<FxRateResult<{ base_currency: string; rates: FxRate[] }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const base = await this.getBaseCurrency(tenantId);
+    let query = supabase
+      .from('t_fx_rates')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('base_currency', base)
+      .order('currency', { ascending: true })
+      .order('effective_date', { ascending: false })
+      .limit(5000);
+    if (currency) query = query.eq('currency', currency.toUpperCase());
+
+    const { data, error } = await query;
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return {
+      success: true,
+      data: { base_currency: base, rates: (data || []).map((r) => ({ ...r, rate: Number(r.rate) })) as FxRate[] }
+    };
+  }
+
+  /** Add rates against the tenant base; a rate for an existing currency + date replaces it */
+  async saveRates(
+    tenantId: string,
+    rates: FxRateInput[],
+    source: FxRateSource,
+    userId: string | null
+  ): Promise<FxRateResult<{ base_currency: string; rates: FxRate[] }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const base = await this.getBaseCurrency(tenantId);
+    const invalid = rates.find((r) => r.currency.toUpperCase() === base);
+    if (invalid) return this.fail('VALIDATION_ERROR', `${base} is the base currency`);
+
+    const now = new Date().toISOString();
+    const saved: FxRate[] = [];
+    for (let i = 0; i < rates.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_fx_rates')
+        .upsert(rates.slice(i, i + PAGE_SIZE).map((r) => ({
+          tenant_id: tenantId,
+          currency: r.currency.toUpperCase(),
+          base_currency: base,
+          rate: r.rate,
+          effective_date: r.effective_date.slice(0, 10),
+          source,
+          created_by: userId,
+          updated_at: now
+        })), { onConflict: 'tenant_id,currency,base_currency,effective_date' })
+        .select('*');
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      saved.push(...((data || []).map((r) => ({ ...r, rate: Number(r.rate) })) as FxRate[]));
+    }
+    return { success: true, data: { base_currency: base, rates: saved } };
+  }
+
+  async importRates(tenantId: string, content: Buffer, userId: string | null): Promise<FxRateResult<FxRateImportResult>> {
+    const base = await this.getBaseCurrency(tenantId);
+    const parsed = parseFxRateFile(content.toString('utf8'), base);
+    if (parsed.rates.length === 0) {
+      return this.fail('VALIDATION_ERROR', parsed.skipped_rows[0]?.reason || 'No rates found in the file');
+    }
+
+    const saved = await this.saveRates(tenantId, parsed.rates, 'upload', userId);
+    if (!saved.success) return this.fail(saved.error!.code, saved.error!.message);
+    return { success: true, data: { base_currency: base, imported: saved.data!.rates.length, skipped_rows: parsed.skipped_rows } };
+  }
+
+  /** Records already stamped with this rate keep it */
+  async deleteRate(tenantId: string, rateId: string): Promise<FxRateResult<{ id: string }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_fx_rates')
+      .delete()
+      .eq('id', rateId)
+      .eq('tenant_id', tenantId)
+      .select('id');
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data || data.length === 0) return this.fail('NOT_FOUND', 'Rate not found');
+    return { success: true, data: { id: rateId } };
+  }
+
+  private async rateTable(supabase: SupabaseClient, tenantId: string, base: string): Promise<FxRateResult<FxRateTable>> {
+    const rows: Array<{ currency: string; rate: number; effective_date: string }> = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_fx_rates')
+        .select('currency, rate, effective_date')
+        .eq('tenant_id', tenantId)
+        .eq('base_currency', base)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return { success: true, data: buildRateTable(rows) };
+  }
+
+  // ─── Base-currency amounts ───
+
+  /**
+   * Base-currency amounts per invoice (t_invoices rows), stamping the rate on
+   * invoices converted for the first time. Best-effort: on a lookup failure
+   * the invoices are returned without base amounts.
+   */
+  async baseAmounts(
+    tenantId: string,
+    isLive: boolean,
+    invoices: Record<string, any>[]
+  ): Promise<{ base_currency: string; amounts: Map<string, BaseCurrencyAmounts> }> {
+    const base = await this.getBaseCurrency(tenantId);
+    const amounts = new Map<string, BaseCurrencyAmounts>();
+    const none = (): BaseCurrencyAmounts =>
+      ({ base_currency: base, fx_rate: null, fx_rate_date: null, base_total_amount: null, base_outstanding: null });
+    const withRate = (invoice: Record<string, any>, rate: number, rateDate: string | null): BaseCurrencyAmounts => ({
+      base_currency: base,
+      fx_rate: rate,
+      fx_rate_date: rateDate,
+      base_total_amount: toBase(num(invoice.total_amount ?? invoice.amount), rate),
+      base_outstanding: toBase(invoiceOutstanding(invoice), rate)
+    });
+
+    const foreign = invoices.filter((i) => String(i.currency || 'INR').toUpperCase() !== base);
+    for (const invoice of invoices) {
+      if (!foreign.includes(invoice)) amounts.set(invoice.id, withRate(invoice, 1, null));
+    }
+    if (foreign.length === 0) return { base_currency: base, amounts };
+
+    const supabase = this.client();
+    if (!supabase) {
+      for (const invoice of foreign) amounts.set(invoice.id, none());
+      return { base_currency: base, amounts };
+    }
+
+    try {
+      const stamps = await this.stamps(supabase, tenantId, isLive, 'invoice', foreign.map((i) => i.id));
+      const missing = foreign.filter((i) => stamps.get(i.id)?.base_currency !== base);
+
+      if (missing.length > 0) {
+        const table = await this.rateTable(supabase, tenantId, base);
+        if (!table.success) throw new Error(table.error!.message);
+
+        const fresh: Record<string, any>[] = [];
+        const replaced: Record<string, any>[] = [];
+        for (const invoice of missing) {
+          const date = invoiceDate(invoice);
+          const point = date ? rateOn(table.data!, invoice.currency, base, date) : null;
+          if (!point) continue;
+          const amount = round2(num(invoice.total_amount ?? invoice.amount));
+          const stamp = {
+            tenant_id: tenantId,
+            is_live: isLive,
+            record_kind: 'invoice',
+            record_id: invoice.id,
+            invoice_id: invoice.id,
+            currency: String(invoice.currency).toUpperCase(),
+            base_currency: base,
+            rate: point.rate,
+            rate_date: point.effective_date,
+            amount,
+            base_amount: toBase(amount, point.rate),
+            stamped_at: new Date().toISOString()
+          };
+          (stamps.has(invoice.id) ? replaced : fresh).push(stamp);
+          stamps.set(invoice.id, stamp as unknown as FxRateStamp);
+        }
+        // First stamp wins; one in a former base currency is overwritten
+        if (fresh.length > 0) {
+          const { error } = await supabase
+            .from('t_fx_rate_stamps')
+            .upsert(fresh, { onConflict: 'tenant_id,is_live,record_kind,record_id', ignoreDuplicates: true });
+          if (error) console.warn('[FxRateService] invoice stamps not saved:', error.message);
+        }
+        if (replaced.length > 0) {
+          const { error } = await supabase
+            .from('t_fx_rate_stamps')
+            .upsert(replaced, { onConflict: 'tenant_id,is_live,record_kind,record_id' });
+          if (error) console.warn('[FxRateService] invoice stamps not replaced:', error.message);
+        }
+      }
+
+      for (const invoice of foreign) {
+        const stamp = stamps.get(invoice.id);
+        amounts.set(invoice.id, stamp && stamp.base_currency === base
+          ? withRate(invoice, Number(stamp.rate), stamp.rate_date)
+          : none());
+      }
+    } catch (e: any) {
+      console.warn('[FxRateService] base amounts unavailable:', e?.message);
+      for (const invoice of foreign) amounts.set(invoice.id, none());
+    }
+    return { base_currency: base, amounts };
+  }
+
+  /** t_invoices rows by id, for callers holding only worklist ids */
+  async loadInvoices(tenantId: string, ids: string[]): Promise<Record<string, any>[]> {
+    const supabase = this.client();
+    if (!supabase) return [];
+    const rows: Record<string, any>[] = [];
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_invoices')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .in('id', ids.slice(i, i + PAGE_SIZE));
+      if (error) throw new Error(error.message);
+      rows.push(...(data || []));
+    }
+    return rows;
+  }
+
+  private async stamps(
+    supabase: SupabaseClient,
+    tenantId: string,
+    isLive: boolean,
+    kind: 'invoice' | 'receipt',
+    ids: string[]
+  ): Promise<Map<string, FxRateStamp>> {
+    const stamps = new Map<string, FxRateStamp>();
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_fx_rate_stamps')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .eq('is_live', isLive)
+        .eq('record_kind', kind)
+        .in('record_id', ids.slice(i, i + PAGE_SIZE));
+      if (error) throw new Error(error.message);
+      for (const s of data || []) stamps.set(s.record_id, s as FxRateStamp);
+    }
+    return stamps;
+  }
+
+  /**
+   * Called after a receipt is recorded: stamp the receipt at its payment date
+   * and its invoice at the invoice date. Best-effort — never fails the payment.
+   * amount defaults to the invoice total (ad-hoc invoices, settled in full).
+   */
+  async onPaymentRecorded(params: {
+    tenantId: string;
+    isLive: boolean;
+    invoiceId: string;
+    receipt: Record<string, any> | null | undefined;
+    amount?: number | null;
+    paymentDate?: string | null;
+  }): Promise<void> {
+    const supabase = this.client();
+    if (!supabase || !params.invoiceId) return;
+
+    const { data: invoice, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', params.invoiceId)
+      .eq('tenant_id', params.tenantId)
+      .maybeSingle();
+    if (error || !invoice) {
+      if (error) console.warn('[FxRateService] invoice lookup for stamping failed:', error.message);
+      return;
+    }
+
+    const { base_currency: base } = await this.baseAmounts(params.tenantId, params.isLive, [invoice]);
+    const currency = String(invoice.currency || 'INR').toUpperCase();
+    const receipt = params.receipt || {};
+    const receiptId = receipt.receipt_id || receipt.receipt?.id || receipt.id || null;
+    const amount = round2(params.amount ?? num(invoice.total_amount ?? invoice.amount));
+    if (currency === base || !receiptId || !UUID.test(receiptId) || !(amount > 0)) return;
+
+    const table = await this.rateTable(supabase, params.tenantId, base);
+    if (!table.success) return;
+    const timeZone = await tenantTimeZoneService.getTimeZone(params.tenantId);
+    const date = (params.paymentDate || '').slice(0, 10) || localDay(new Date(), timeZone);
+    const point = rateOn(table.data!, currency, base, date);
+    if (!point) return;
+
+    const { error: stampError } = await supabase
+      .from('t_fx_rate_stamps')
+      .upsert({
+        tenant_id: params.tenantId,
+        is_live: params.isLive,
+        record_kind: 'receipt',
+        record_id: receiptId,
+        invoice_id: invoice.id,
+        currency,
+        base_currency: base,
+        rate: point.rate,
+        rate_date: point.effective_date,
+        amount,
+        base_amount: toBase(amount, point.rate)
+      }, { onConflict: 'tenant_id,is_live,record_kind,record_id', ignoreDuplicates: true });
+    if (stampError) console.warn('[FxRateService] receipt stamp not saved:', stampError.message);
+  }
+
+  /** Stamps recorded for one invoice and its receipts */
+  async getInvoiceStamps(tenantId: string, invoiceId: string): Promise<FxRateResult<FxRateStamp[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_fx_rate_stamps')
+      .select('record_kind, record_id, invoice_id, currency, base_currency, rate, rate_date, amount, base_amount, stamped_at')
+      .eq('tenant_id', tenantId)
+      .eq('invoice_id', invoiceId)
+      .order('stamped_at', { ascending: true });
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []).map((s) => ({ ...s, rate: Number(s.rate) })) as FxRateStamp[] };
+  }
+
+  // ─── Consolidated tax summary ───
+
+  /**
+   * Month-wise taxable value and tax per currency, with the same in the base
+   * currency, for the last TAX_SUMMARY_MONTHS months of invoices (unpaid,
+   * partially paid, overdue, paid).
+   */
+  async getConsolidatedTaxSummary(tenantId: string, isLive: boolean): Promise<FxRateResult<ConsolidatedTaxSummary>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(tenantId);
+    const today = localDay(new Date(), timeZone);
+    const start = new Date(Date.UTC(Number(today.slice(0, 4)), Number(today.slice(5, 7)) - TAX_SUMMARY_MONTHS, 1));
+    const fromMonth = start.toISOString().slice(0, 7);
+
+    const invoices: Record<string, any>[] = [];
+    for (let offset = 0; offset < MAX_INVOICES; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_invoices')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .eq('is_live', isLive)
+        .in('status', REPORTED_STATUSES)
+        .gte('created_at', `${fromMonth}-01`)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      invoices.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    const inRange = invoices.filter((i) => (invoiceDate(i) || '').slice(0, 7) >= fromMonth);
+    const { base_currency: base, amounts } = await this.baseAmounts(tenantId, isLive, inRange);
+
+    const months = new Map<string, ConsolidatedTaxMonth>();
+    for (const invoice of inRange) {
+      const month = invoiceDate(invoice)!.slice(0, 7);
+      const currency = String(invoice.currency || 'INR').toUpperCase();
+      const tax = num(invoice.tax_amount ?? invoice.tax_total);
+      const taxable = num(invoice.total_amount ?? invoice.amount) - tax;
+      const rate = amounts.get(invoice.id)?.fx_rate ?? null;
+
+      const key = `${month}|${currency}`;
+      let entry = months.get(key);
+      if (!entry) {
+        entry = { month, currency, invoice_count: 0, taxable_value: 0, tax_amount: 0, base_taxable_value: 0, base_tax_amount: 0, unconverted_count: 0 };
+        months.set(key, entry);
+      }
+      entry.invoice_count++;
+      entry.taxable_value = round2(entry.taxable_value + taxable);
+      entry.tax_amount = round2(entry.tax_amount + tax);
+      if (rate === null) {
+        entry.unconverted_count++;
+      } else {
+        entry.base_taxable_value = round2(entry.base_taxable_value! + toBase(taxable, rate));
+        entry.base_tax_amount = round2(entry.base_tax_amount! + toBase(tax, rate));
+      }
+    }
+
+    const rows = Array.from(months.values())
+      .map((m) => m.unconverted_count > 0 ? { ...m, base_taxable_value: null, base_tax_amount: null } : m)
+      .sort((a, b) => b.month.localeCompare(a.month) || a.currency.localeCompare(b.currency));
+
+    const totals = new Map<string, { month: string; taxable_value: number; tax_amount: number; unconverted_count: number }>();
+    for (const m of months.values()) {
+      const t = totals.get(m.month) || { month: m.month, taxable_value: 0, tax_amount: 0, unconverted_count: 0 };
+      t.taxable_value = round2(t.taxable_value + (m.base_taxable_value ?? 0));
+      t.tax_amount = round2(t.tax_amount + (m.base_tax_amount ?? 0));
+      t.unconverted_count += m.unconverted_count;
+      totals.set(m.month, t);
+    }
+
+    return {
+      success: true,
+      data: {
+        base_currency: base,
+        months: rows,
+        totals_in_base: Array.from(totals.values()).sort((a, b) => b.month.localeCompare(a.month))
+      }
+    };
+  }
+}
+
+export const fxRateService = new FxRateService();
+export default fxRateService;
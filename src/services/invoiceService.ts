@@ -10,6 +10,7 @@
 // ============================================================================
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { TaxCalculationResult } from '../types/taxTypes';
 
 export interface InvoiceServiceResult<T = any> {
   success: boolean;
@@ -17,6 +18,17 @@ export interface InvoiceServiceResult<T = any> {
   error?: { code: string; message: string };
 }
 
+// Invoice statuses that still owe money (chased by dunning, aged in receivables)
+export const OPEN_INVOICE_STATUSES = ['unpaid', 'partially_paid', 'overdue'];
+
+/** Outstanding amount of a t_invoices row; older rows carry only total/paid */
+export function invoiceOutstanding(invoice: Record<string, any>): number {
+  if (invoice.balance !== undefined && invoice.balance !== null) return Number(invoice.balance) || 0;
+  const total = Number(invoice.total_amount ?? invoice.amount) || 0;
+  const paid = Number(invoice.amount_paid ?? invoice.paid_amount) || 0;
+  return Math.round((total - paid) * 100) / 100;
+}
+
 class InvoiceService {
   private client(): SupabaseClient | null {
     const url = process.env.SUPABASE_URL;
@@ -46,15 +58,19 @@ class InvoiceService {
   /**
    * Create a contact-less invoice, settled at creation (invoice + receipt in
    * one transaction — see create_adhoc_invoice). lineItems are server-totalled;
-   * the RPC never trusts a client-sent total.
+   * the RPC never trusts a client-sent total. The tax engine's breakdown is
+   * stored on t_invoices.tax_breakdown afterwards (src/migrations/033), where
+   * credit notes, e-invoices and accounting exports read the GST split.
    */
-  createAdhocInvoice(params: {
+  async createAdhocInvoice(params: {
     tenantId: string;
     contactId: string;
     isLive: boolean;
     currency: string;
     lineItems: Array<{ block_id?: string | null; name: string; qty: number; unit_price: number; amount: number }>;
     taxAmount?: number;
+    /** Tax engine result behind taxAmount (rate, GST components, place of supply) */
+    taxBreakdown?: TaxCalculationResult | null;
     paymentMethod: string;
     paymentDate?: string | null;
     referenceNumber?: string | null;
@@ -64,8 +80,8 @@ class InvoiceService {
      * onto t_session_payment_declarations.adhoc_invoice_id in the same
      * transaction as the invoice/receipt. */
     declarationId?: string | null;
-  }) {
-    return this.call('create_adhoc_invoice', {
+  }): Promise<InvoiceServiceResult> {
+    const result = await this.call('create_adhoc_invoice', {
       p_payload: {
         tenant_id: params.tenantId,
         contact_id: params.contactId,
@@ -81,6 +97,41 @@ class InvoiceService {
         declaration_id: params.declarationId ?? null,
       },
     });
+    if (!result.success || !params.taxBreakdown || result.data?.success === false) return result;
+
+    const created = result.data?.data ?? result.data;
+    const invoiceId = created?.invoice_id || created?.invoice?.id;
+    if (!invoiceId) return result;
+
+    const stored = await this.storeTaxBreakdown(params.tenantId, invoiceId, params.taxBreakdown);
+    if (!stored.success) {
+      // The invoice and its receipt stand; say so rather than fail the request
+      console.error(`[InvoiceService] tax breakdown of invoice ${invoiceId} not stored:`, stored.error?.message);
+    }
+    return result;
+  }
+
+  /** The parts of a tax engine result an invoice keeps for GST reporting */
+  async storeTaxBreakdown(tenantId: string, invoiceId: string, tax: TaxCalculationResult): Promise<InvoiceServiceResult> {
+    const supabase = this.client();
+    if (!supabase) {
+      return { success: false, error: { code: 'CONFIG', message: 'Supabase is not configured' } };
+    }
+    const { error } = await supabase
+      .from('t_invoices')
+      .update({
+        tax_breakdown: {
+          tax_rate: tax.tax_rate,
+          tax_rate_name: tax.tax_rate_name,
+          supply_type: tax.supply_type,
+          place_of_supply: tax.place_of_supply,
+          components: tax.components,
+        },
+      })
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId);
+    if (error) return { success: false, error: { code: 'DATABASE_ERROR', message: error.message } };
+    return { success: true };
   }
 
   /**
@@ -0,0 +1,419 @@
+// ============================================================================
+// Overdue Sweeper Service — contract event overdue detection + escalation
+// ============================================================================
+// Background job (src/migrations/012, 029). Each sweep:
+//   1. mark    — 'scheduled' events past scheduled_date + the tenant's grace
+//                days move to 'overdue' (mark_due_contract_events_overdue RPC)
+//   2. escalate — a JTD event to the assignee as soon as an event is overdue,
+//                then to the tenant's managers once it has been overdue for
+//                manager_escalation_days
+// Both steps select in SQL only events with something to do (policy and
+// grace applied there), so a batch never fills up with rows that stay put.
+// Per-tenant policy lives in t_overdue_escalation_policies (defaults when a
+// tenant has no row). Each escalation level is claimed in
+// t_contract_event_escalations before the JTD is raised, so overlapping
+// sweeps (several API instances) never notify twice; a level whose JTD
+// calls all fail releases its claim and is retried on the next sweep.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { jtdService } from './jtdService';
+import { captureException } from '../utils/sentry';
+import {
+  ESCALATION_LEVELS,
+  EscalationLevel,
+  OverdueEscalationPolicy,
+  OverdueSweepResult,
+  UpdateOverdueEscalationPolicyRequest
+} from '../types/contractEventTypes';
+
+export interface OverdueSweeperResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+// Same as the t_overdue_escalation_policies column defaults, which the sweep
+// RPCs (migration 029) apply to tenants without a row
+export const DEFAULT_OVERDUE_POLICY: Omit<OverdueEscalationPolicy, 'tenant_id'> = {
+  enabled: true,
+  service_grace_days: 0,
+  billing_grace_days: 0,
+  notify_assignee: true,
+  manager_escalation_days: 3,
+  manager_user_ids: [],
+  updated_at: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Events handled per step per sweep; the next sweep picks up the rest
+const BATCH_SIZE = 500;
+// Overdue events older than this are not escalated any more
+const ESCALATION_LOOKBACK_DAYS = 180;
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+const JTD_EVENT_TYPES: Record<EscalationLevel, string> = {
+  assignee: 'contract_event.overdue',
+  manager: 'contract_event.overdue_escalated',
+};
+
+const POLICY_FIELDS: (keyof UpdateOverdueEscalationPolicyRequest)[] = [
+  'enabled',
+  'service_grace_days',
+  'billing_grace_days',
+  'notify_assignee',
+  'manager_escalation_days',
+  'manager_user_ids',
+];
+
+interface SweepEvent {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  block_name: string | null;
+  event_type: string;
+  sequence_number: number | null;
+  scheduled_date: string;
+  amount: number | null;
+  currency: string | null;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  is_live: boolean;
+}
+
+class OverdueSweeperService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): OverdueSweeperResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  // ==========================================================
+  // POLICY
+  // ==========================================================
+
+  async getPolicy(tenantId: string): Promise<OverdueSweeperResult<OverdueEscalationPolicy>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_overdue_escalation_policies')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: this.withDefaults(tenantId, data) };
+  }
+
+  async updatePolicy(
+    tenantId: string,
+    patch: UpdateOverdueEscalationPolicyRequest,
+    userId: string | null
+  ): Promise<OverdueSweeperResult<OverdueEscalationPolicy>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const current = await this.getPolicy(tenantId);
+    if (!current.success || !current.data) return current;
+
+    const row: Record<string, any> = {
+      tenant_id: tenantId,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    };
+    for (const field of POLICY_FIELDS) {
+      row[field] = patch[field] !== undefined ? patch[field] : current.data[field];
+    }
+
+    const { data, error } = await supabase
+      .from('t_overdue_escalation_policies')
+      .upsert(row, { onConflict: 'tenant_id' })
+      .select('*')
+      .single();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: this.withDefaults(tenantId, data) };
+  }
+
+  private withDefaults(tenantId: string, row: Record<string, any> | null): OverdueEscalationPolicy {
+    return {
+      ...DEFAULT_OVERDUE_POLICY,
+      ...(row || {}),
+      tenant_id: tenantId,
+      manager_user_ids: Array.isArray(row?.manager_user_ids) ? row!.manager_user_ids : [],
+    } as OverdueEscalationPolicy;
+  }
+
+  private async loadPolicies(supabase: SupabaseClient, tenantIds: string[]): Promise<Map<string, OverdueEscalationPolicy>> {
+    const policies = new Map<string, OverdueEscalationPolicy>();
+    if (tenantIds.length === 0) return policies;
+
+    const { data, error } = await supabase
+      .from('t_overdue_escalation_policies')
+      .select('*')
+      .in('tenant_id', tenantIds);
+    if (error) throw new Error(`policy lookup failed: ${error.message}`);
+
+    const rows = new Map((data || []).map((r: any) => [r.tenant_id, r]));
+    for (const tenantId of tenantIds) policies.set(tenantId, this.withDefaults(tenantId, rows.get(tenantId) || null));
+    return policies;
+  }
+
+  private graceDays(policy: OverdueEscalationPolicy, eventType: string): number {
+    return eventType === 'billing' ? policy.billing_grace_days : policy.service_grace_days;
+  }
+
+  // ==========================================================
+  // SCHEDULER
+  // ==========================================================
+
+  /** Start the periodic sweep (OVERDUE_SWEEP_INTERVAL_MS, default 15 min) */
+  start(intervalMs: number = Number(process.env.OVERDUE_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (!this.client()) {
+      console.warn('[OverdueSweeper] Supabase is not configured — sweeper not started');
+      return;
+    }
+
+    const run = () => {
+      if (this.sweeping) return; // previous sweep still running
+      this.sweeping = true;
+      this.sweep()
+        .then((result) => {
+          if (!result.success) {
+            console.error('[OverdueSweeper] sweep failed:', result.error?.message);
+          } else if (result.data && (result.data.marked_overdue > 0 || result.data.escalation_failures > 0)) {
+            console.log('[OverdueSweeper] sweep:', JSON.stringify(result.data));
+          }
+        })
+        .finally(() => { this.sweeping = false; });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    // Never keep the process alive just for the sweeper
+    this.timer.unref();
+    run();
+    console.log(`✅ Overdue sweeper started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================================
+  // SWEEP
+  // ==========================================================
+
+  /** One sweep over all tenants, or only `tenantId` */
+  async sweep(options: { tenantId?: string; now?: Date } = {}): Promise<OverdueSweeperResult<OverdueSweepResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const now = options.now || new Date();
+    const result: OverdueSweepResult = {
+      marked_overdue: 0,
+      escalations: { assignee: 0, manager: 0 },
+      escalation_failures: 0,
+      tenants: 0,
+    };
+
+    try {
+      const tenants = new Set<string>();
+
+      const marked = await this.markOverdue(supabase, now, options.tenantId);
+      result.marked_overdue = marked.length;
+      marked.forEach((e) => tenants.add(e.tenant_id));
+
+      const escalated = await this.escalate(supabase, now, options.tenantId);
+      result.escalations = escalated.counts;
+      result.escalation_failures = escalated.failures;
+      escalated.tenants.forEach((t) => tenants.add(t));
+
+      result.tenants = tenants.size;
+      return { success: true, data: result };
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { component: 'OverdueSweeper', action: 'sweep' },
+      });
+      return this.fail('SWEEP_FAILED', error?.message || 'Overdue sweep failed');
+    }
+  }
+
+  private async markOverdue(supabase: SupabaseClient, now: Date, tenantId?: string): Promise<SweepEvent[]> {
+    const { data: updated, error } = await supabase.rpc('mark_due_contract_events_overdue', {
+      p_now: now.toISOString(),
+      p_tenant_id: tenantId || null,
+      p_limit: BATCH_SIZE,
+    });
+    if (error) throw new Error(`mark_due_contract_events_overdue failed: ${error.message}`);
+    return (updated || []) as SweepEvent[];
+  }
+
+  private async escalate(
+    supabase: SupabaseClient,
+    now: Date,
+    tenantId?: string
+  ): Promise<{ counts: Record<EscalationLevel, number>; failures: number; tenants: Set<string> }> {
+    const counts: Record<EscalationLevel, number> = { assignee: 0, manager: 0 };
+    const tenants = new Set<string>();
+    let failures = 0;
+
+    // Only events with a level due and unclaimed — fully escalated ones and
+    // those not yet due for the manager level stay out of the batch
+    const { data: overdue, error } = await supabase.rpc('overdue_contract_events_to_escalate', {
+      p_now: now.toISOString(),
+      p_since: new Date(now.getTime() - ESCALATION_LOOKBACK_DAYS * DAY_MS).toISOString(),
+      p_tenant_id: tenantId || null,
+      p_limit: BATCH_SIZE,
+    });
+    if (error) throw new Error(`escalation scan failed: ${error.message}`);
+    const events = (overdue || []) as SweepEvent[];
+    if (events.length === 0) return { counts, failures, tenants };
+
+    const { data: existing, error: existingError } = await supabase
+      .from('t_contract_event_escalations')
+      .select('event_id, level')
+      .in('event_id', events.map((e) => e.id));
+    if (existingError) throw new Error(`escalation lookup failed: ${existingError.message}`);
+    const done = new Set((existing || []).map((r: any) => `${r.event_id}:${r.level}`));
+
+    const policies = await this.loadPolicies(supabase, Array.from(new Set(events.map((e) => e.tenant_id))));
+    const contractNumbers = await this.contractNumbers(supabase, Array.from(new Set(events.map((e) => e.contract_id))));
+
+    for (const event of events) {
+      const policy = policies.get(event.tenant_id)!;
+      if (!policy.enabled) continue;
+
+      const overdueFrom = new Date(event.scheduled_date).getTime() + this.graceDays(policy, event.event_type) * DAY_MS;
+      const daysOverdue = Math.max(0, Math.floor((now.getTime() - overdueFrom) / DAY_MS));
+
+      const levels: { level: EscalationLevel; recipients: string[] }[] = [];
+      if (policy.notify_assignee && event.assigned_to && !done.has(`${event.id}:assignee`)) {
+        levels.push({ level: ESCALATION_LEVELS.ASSIGNEE, recipients: [event.assigned_to] });
+      }
+      if (policy.manager_user_ids.length > 0
+        && daysOverdue >= policy.manager_escalation_days
+        && !done.has(`${event.id}:manager`)) {
+        levels.push({ level: ESCALATION_LEVELS.MANAGER, recipients: policy.manager_user_ids });
+      }
+
+      for (const { level, recipients } of levels) {
+        const sent = await this.raise(supabase, event, level, recipients, {
+          days_overdue: daysOverdue,
+          contract_number: contractNumbers.get(event.contract_id) || null,
+        });
+        if (sent === null) continue; // claimed by a concurrent sweep
+        if (sent) {
+          counts[level]++;
+          tenants.add(event.tenant_id);
+        } else {
+          failures++;
+        }
+      }
+    }
+
+    return { counts, failures, tenants };
+  }
+
+  /**
+   * Claim the level, then raise one JTD per recipient. Returns null when
+   * another sweep holds the claim, false when every JTD failed (claim
+   * released for a retry).
+   */
+  private async raise(
+    supabase: SupabaseClient,
+    event: SweepEvent,
+    level: EscalationLevel,
+    recipients: string[],
+    context: { days_overdue: number; contract_number: string | null }
+  ): Promise<boolean | null> {
+    const { data: claim, error: claimError } = await supabase
+      .from('t_contract_event_escalations')
+      .insert({ tenant_id: event.tenant_id, event_id: event.id, level, recipient_user_ids: recipients })
+      .select('id')
+      .single();
+    if (claimError) {
+      if (claimError.code === '23505') return null;
+      throw new Error(`escalation claim failed: ${claimError.message}`);
+    }
+
+    const jtdIds: string[] = [];
+    for (const recipient of recipients) {
+      try {
+        const jtd = await jtdService.createEvent({
+          customer_code: 'internal_contractnest',
+          external_event_id: `overdue_${event.id}_${level}_${recipient}`,
+          external_tenant_id: event.tenant_id,
+          external_user_id: recipient,
+          event_type: JTD_EVENT_TYPES[level],
+          payload: {
+            tenant_id: event.tenant_id,
+            recipient_user_id: recipient,
+            escalation_level: level,
+            event_id: event.id,
+            contract_id: event.contract_id,
+            contract_number: context.contract_number,
+            block_name: event.block_name,
+            event_type: event.event_type,
+            sequence_number: event.sequence_number,
+            scheduled_date: event.scheduled_date,
+            days_overdue: context.days_overdue,
+            amount: event.amount,
+            currency: event.currency,
+            assigned_to: event.assigned_to,
+            assigned_to_name: event.assigned_to_name,
+            is_live: event.is_live,
+          },
+        });
+        if (jtd?.id) jtdIds.push(String(jtd.id));
+      } catch (error: any) {
+        // jtdService already reports to Sentry
+        console.error(`[OverdueSweeper] JTD ${level} for event ${event.id} → ${recipient} failed:`, error?.message);
+      }
+    }
+
+    if (jtdIds.length === 0) {
+      await supabase.from('t_contract_event_escalations').delete().eq('id', claim.id);
+      return false;
+    }
+
+    await supabase
+      .from('t_contract_event_escalations')
+      .update({ jtd_event_ids: jtdIds })
+      .eq('id', claim.id);
+    return true;
+  }
+
+  private async contractNumbers(supabase: SupabaseClient, ids: string[]): Promise<Map<string, string>> {
+    const numbers = new Map<string, string>();
+    if (ids.length === 0) return numbers;
+    const { data, error } = await supabase
+      .from('t_contracts')
+      .select('id, contract_number')
+      .in('id', ids);
+    // Cosmetic in the notification — send without it rather than not at all
+    if (error) {
+      console.warn('[OverdueSweeper] contract number lookup failed:', error.message);
+      return numbers;
+    }
+    for (const c of data || []) if (c.contract_number) numbers.set(c.id, c.contract_number);
+    return numbers;
+  }
+}
+
+export const overdueSweeperService = new OverdueSweeperService();
+export default overdueSweeperService;
@@ -121,6 +121,32 @@ class PaymentGatewayService {
     );
   }
 
+  /**
+   * Refund a captured payment (full, or partial by amount) on the tenant's gateway.
+   * Returns gateway_refund_id; the refund.processed webhook confirms it.
+   */
+  async refundPayment(
+    payload: {
+      gateway_payment_id: string;
+      amount: number;
+      notes?: Record<string, string>;
+    },
+    userJWT: string,
+    tenantId: string,
+    userId: string,
+    environment: string = 'live'
+  ): Promise<EdgeFunctionResponse> {
+    return await this.makeRequest(
+      'POST',
+      `${this.edgeFunctionUrl}/refund`,
+      payload,
+      userJWT,
+      tenantId,
+      userId,
+      environment
+    );
+  }
+
   /**
    * Get payment requests (with events) for an invoice or contract.
    */
@@ -0,0 +1,412 @@
+// ============================================================================
+// Permission Service — who may do what in a tenant
+// ============================================================================
+// Resolves a member's permissions (src/constants/permissions.ts) for the
+// requirePermission route guard:
+//   not an active member of the tenant   → nothing
+//   t_user_tenants.is_admin              → everything
+//   otherwise the union over the member's roles (t_user_tenant_roles):
+//     the tenant's mapping for the role (t_role_permissions → m_permissions),
+//     else the role's default by name (Owner / Admin),
+//     else the member fallback — as for a member with no role at all
+// Results are cached per (tenant, user) for a minute so the guard stays off
+// the hot path. Changes made through this service drop the affected entries
+// at once; other API instances pick them up when their entry expires.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  MEMBER_PERMISSIONS,
+  Permission,
+  PERMISSION_DESCRIPTIONS,
+  isPermission
+} from '../constants/permissions';
+import {
+  PermissionDefinition,
+  ResolvedPermissions,
+  RolePermissions,
+  UserRole
+} from '../types/permissionTypes';
+
+export interface PermissionResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string; details?: any };
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+interface CacheEntry {
+  resolved: ResolvedPermissions;
+  expiry: number;
+}
+
+interface RoleRow {
+  id: string;
+  sub_cat_name: string;
+  display_name: string;
+}
+
+class PermissionService {
+  private cache = new Map<string, CacheEntry>();
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string, details?: any): PermissionResult<T> {
+    return { success: false, error: { code, message, ...(details !== undefined && { details }) } };
+  }
+
+  private cacheKey(tenantId: string, userId: string): string {
+    return `${tenantId}:${userId}`;
+  }
+
+  // ==========================================================================
+  // RESOLUTION
+  // ==========================================================================
+
+  /** The permission catalogue */
+  listPermissions(): PermissionDefinition[] {
+    return ALL_PERMISSIONS.map(name => ({ name, description: PERMISSION_DESCRIPTIONS[name] }));
+  }
+
+  /**
+   * What the user may do in the tenant. Throws when the lookup fails — the
+   * guard must not mistake an outage for "no permissions" or cache it.
+   */
+  async resolve(tenantId: string, userId: string): Promise<ResolvedPermissions> {
+    const key = this.cacheKey(tenantId, userId);
+    const cached = this.cache.get(key);
+    if (cached && Date.now() < cached.expiry) return cached.resolved;
+    if (cached) this.cache.delete(key);
+
+    const supabase = this.client();
+    if (!supabase) throw new Error('Supabase is not configured for permission checks');
+
+    const resolved: ResolvedPermissions = {
+      tenantId,
+      userId,
+      isMember: false,
+      isTenantAdmin: false,
+      roles: [],
+      permissions: []
+    };
+
+    const membership = await this.membership(supabase, tenantId, userId);
+    if (membership) {
+      resolved.isMember = true;
+      resolved.isTenantAdmin = !!membership.is_admin;
+
+      const roles = await this.memberRoles(supabase, membership.id);
+      resolved.roles = roles.map(role => role.sub_cat_name);
+
+      if (resolved.isTenantAdmin) {
+        resolved.permissions = [...ALL_PERMISSIONS];
+      } else {
+        const mapped = await this.rolePermissionsOf(supabase, tenantId, roles);
+        const granted = new Set<Permission>(roles.length ? [] : MEMBER_PERMISSIONS);
+        roles.forEach(role => mapped.get(role.id)!.permissions.forEach(permission => granted.add(permission)));
+        resolved.permissions = ALL_PERMISSIONS.filter(permission => granted.has(permission));
+      }
+    }
+
+    this.cache.set(key, { resolved, expiry: Date.now() + CACHE_TTL_MS });
+    return resolved;
+  }
+
+  /** Required permissions the user lacks in the tenant (empty when allowed) */
+  async missing(tenantId: string, userId: string, required: Permission[]): Promise<Permission[]> {
+    const { permissions } = await this.resolve(tenantId, userId);
+    return required.filter(permission => !permissions.includes(permission));
+  }
+
+  /** Drop one member's cached permissions (after their roles change) */
+  invalidateUser(tenantId: string, userId: string): void {
+    this.cache.delete(this.cacheKey(tenantId, userId));
+  }
+
+  /** Drop every cached member of a tenant (after a role's mapping changes) */
+  invalidateTenant(tenantId: string): void {
+    const prefix = `${tenantId}:`;
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.cache.delete(key));
+  }
+
+  private async membership(
+    supabase: SupabaseClient,
+    tenantId: string,
+    userId: string
+  ): Promise<{ id: string; is_admin: boolean | null } | null> {
+    const { data, error } = await supabase
+      .from('t_user_tenants')
+      .select('id, is_admin')
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Membership lookup failed: ${error.message}`);
+    return data;
+  }
+
+  private async memberRoles(supabase: SupabaseClient, userTenantId: string): Promise<RoleRow[]> {
+    const { data: links, error } = await supabase
+      .from('t_user_tenant_roles')
+      .select('role_id')
+      .eq('user_tenant_id', userTenantId);
+    if (error) throw new Error(`Role lookup failed: ${error.message}`);
+
+    const roleIds = (links || []).map((link: any) => link.role_id).filter(Boolean);
+    if (!roleIds.length) return [];
+
+    const { data: roles, error: rolesError } = await supabase
+      .from('t_category_details')
+      .select('id, sub_cat_name, display_name')
+      .in('id', roleIds);
+    if (rolesError) throw new Error(`Role lookup failed: ${rolesError.message}`);
+    return (roles || []) as RoleRow[];
+  }
+
+  /** Effective permissions of each role in the tenant, keyed by role id */
+  private async rolePermissionsOf(
+    supabase: SupabaseClient,
+    tenantId: string,
+    roles: RoleRow[]
+  ): Promise<Map<string, RolePermissions>> {
+    const result = new Map<string, RolePermissions>();
+    if (!roles.length) return result;
+
+    const { data, error } = await supabase
+      .from('t_role_permissions')
+      .select('role_id, m_permissions(name)')
+      .eq('tenant_id', tenantId)
+      .in('role_id', roles.map(role => role.id));
+    if (error) throw new Error(`Role permission lookup failed: ${error.message}`);
+
+    const mapped = new Map<string, Set<Permission>>();
+    (data || []).forEach((row: any) => {
+      // A to-one embed comes back as an object; tolerate the array form too
+      const embedded = Array.isArray(row.m_permissions) ? row.m_permissions[0] : row.m_permissions;
+      const name = embedded?.name;
+      if (!mapped.has(row.role_id)) mapped.set(row.role_id, new Set());
+      if (name && isPermission(name)) mapped.get(row.role_id)!.add(name);
+    });
+
+    roles.forEach(role => {
+      const tenantMapping = mapped.get(role.id);
+      const defaults = DEFAULT_ROLE_PERMISSIONS[role.sub_cat_name];
+      const source: RolePermissions['source'] = tenantMapping ? 'tenant' : defaults ? 'default' : 'member';
+      const granted = tenantMapping ? Array.from(tenantMapping) : defaults || MEMBER_PERMISSIONS;
+      result.set(role.id, {
+        role_id: role.id,
+        name: role.sub_cat_name,
+        display_name: role.display_name,
+        source,
+        permissions: ALL_PERMISSIONS.filter(permission => granted.includes(permission))
+      });
+    });
+    return result;
+  }
+
+  // ==========================================================================
+  // ROLE ASSIGNMENTS — /api/users/:id/roles
+  // ==========================================================================
+
+  async listUserRoles(tenantId: string, userId: string): Promise<PermissionResult<UserRole[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const membership = await this.membership(supabase, tenantId, userId);
+      if (!membership) return this.fail('NOT_FOUND', 'User is not an active member of this tenant');
+      const roles = await this.memberRoles(supabase, membership.id);
+      return {
+        success: true,
+        data: roles.map(role => ({ role_id: role.id, name: role.sub_cat_name, display_name: role.display_name }))
+      };
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  async assignRole(tenantId: string, userId: string, roleId: string): Promise<PermissionResult<UserRole[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const membership = await this.membership(supabase, tenantId, userId);
+      if (!membership) return this.fail('NOT_FOUND', 'User is not an active member of this tenant');
+      const role = await this.tenantRole(supabase, tenantId, roleId);
+      if (!role) return this.fail('NOT_FOUND', 'Role not found in this tenant');
+
+      const { error } = await supabase
+        .from('t_user_tenant_roles')
+        .upsert(
+          { user_tenant_id: membership.id, role_id: roleId },
+          { onConflict: 'user_tenant_id,role_id', ignoreDuplicates: true }
+        );
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+
+      this.invalidateUser(tenantId, userId);
+      return this.listUserRoles(tenantId, userId);
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  async removeRole(tenantId: string, userId: string, roleId: string): Promise<PermissionResult<UserRole[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const membership = await this.membership(supabase, tenantId, userId);
+      if (!membership) return this.fail('NOT_FOUND', 'User is not an active member of this tenant');
+
+      const { data, error } = await supabase
+        .from('t_user_tenant_roles')
+        .delete()
+        .eq('user_tenant_id', membership.id)
+        .eq('role_id', roleId)
+        .select('id');
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      if (!data || !data.length) return this.fail('NOT_FOUND', 'User does not hold this role');
+
+      this.invalidateUser(tenantId, userId);
+      return this.listUserRoles(tenantId, userId);
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  // ==========================================================================
+  // ROLE → PERMISSION MAPPINGS — /api/users/roles/:roleId/permissions
+  // ==========================================================================
+
+  async getRolePermissions(tenantId: string, roleId: string): Promise<PermissionResult<RolePermissions>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const role = await this.tenantRole(supabase, tenantId, roleId);
+      if (!role) return this.fail('NOT_FOUND', 'Role not found in this tenant');
+      const mapped = await this.rolePermissionsOf(supabase, tenantId, [role]);
+      return { success: true, data: mapped.get(role.id) };
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  /**
+   * Replace the tenant's mapping for a role. An empty list is refused: a
+   * role without rows falls back to its default, so "nothing" cannot be
+   * stored — use resetRolePermissions to return to the default instead.
+   */
+  async setRolePermissions(
+    tenantId: string,
+    roleId: string,
+    permissions: string[]
+  ): Promise<PermissionResult<{ role: RolePermissions; granted: Permission[]; revoked: Permission[] }>> {
+    const unknown = permissions.filter(permission => !isPermission(permission));
+    if (unknown.length) return this.fail('VALIDATION_ERROR', 'Unknown permissions', { unknown });
+    if (!permissions.length) {
+      return this.fail('VALIDATION_ERROR', 'At least one permission is required; reset the role to return to its default');
+    }
+
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const role = await this.tenantRole(supabase, tenantId, roleId);
+      if (!role) return this.fail('NOT_FOUND', 'Role not found in this tenant');
+      const before = (await this.rolePermissionsOf(supabase, tenantId, [role])).get(role.id)!;
+
+      const wanted = Array.from(new Set(permissions)) as Permission[];
+      const { data: rows, error: lookupError } = await supabase
+        .from('m_permissions')
+        .select('id, name')
+        .in('name', wanted);
+      if (lookupError) return this.fail('DATABASE_ERROR', lookupError.message);
+      const seeded = (rows || []).map((row: any) => row.name);
+      const unseeded = wanted.filter(permission => !seeded.includes(permission));
+      if (unseeded.length) {
+        return this.fail('CONFIG_ERROR', 'Permissions missing from m_permissions — run migration 025', { unseeded });
+      }
+
+      const { error: deleteError } = await supabase
+        .from('t_role_permissions')
+        .delete()
+        .eq('tenant_id', tenantId)
+        .eq('role_id', roleId);
+      if (deleteError) return this.fail('DATABASE_ERROR', deleteError.message);
+
+      const { error: insertError } = await supabase
+        .from('t_role_permissions')
+        .insert((rows || []).map((row: any) => ({ tenant_id: tenantId, role_id: roleId, permission_id: row.id })));
+      if (insertError) {
+        // The old rows are gone: the role is on its default until this is retried
+        this.invalidateTenant(tenantId);
+        return this.fail('DATABASE_ERROR', insertError.message);
+      }
+
+      this.invalidateTenant(tenantId);
+      const after = (await this.rolePermissionsOf(supabase, tenantId, [role])).get(role.id)!;
+      return {
+        success: true,
+        data: {
+          role: after,
+          granted: after.permissions.filter(permission => !before.permissions.includes(permission)),
+          revoked: before.permissions.filter(permission => !after.permissions.includes(permission))
+        }
+      };
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  /** Drop the tenant's mapping for a role so it falls back to its default */
+  async resetRolePermissions(tenantId: string, roleId: string): Promise<PermissionResult<RolePermissions>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG_ERROR', 'Supabase is not configured');
+
+    try {
+      const role = await this.tenantRole(supabase, tenantId, roleId);
+      if (!role) return this.fail('NOT_FOUND', 'Role not found in this tenant');
+
+      const { error } = await supabase
+        .from('t_role_permissions')
+        .delete()
+        .eq('tenant_id', tenantId)
+        .eq('role_id', roleId);
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+
+      this.invalidateTenant(tenantId);
+      return this.getRolePermissions(tenantId, roleId);
+    } catch (error: any) {
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+  }
+
+  /** A role (t_category_details row) belonging to the tenant */
+  private async tenantRole(supabase: SupabaseClient, tenantId: string, roleId: string): Promise<RoleRow | null> {
+    const { data, error } = await supabase
+      .from('t_category_details')
+      .select('id, sub_cat_name, display_name')
+      .eq('id', roleId)
+      .eq('tenant_id', tenantId)
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Role lookup failed: ${error.message}`);
+    return data as RoleRow | null;
+  }
+}
+
+export const permissionService = new PermissionService();
+export default permissionService;
@@ -0,0 +1,497 @@
+// ============================================================================
+// Razorpay Webhook Service — payment reconciliation without the browser
+// ============================================================================
+// The checkout flow records a receipt only when the buyer's browser comes
+// back and calls verify-payment. Razorpay also posts events to
+// POST /api/payments/webhooks/razorpay; this service settles invoices from
+// them:
+//   payment.captured / payment_link.paid  record a receipt
+//   refund.processed                      settle the credit note the refund was
+//                                         issued for; otherwise cancel the
+//                                         receipt on a full refund (partial
+//                                         refunds are left for review)
+//   payment.failed                        logged; the invoice stays open
+//
+// Signature: each tenant's dashboard webhook uses a secret derived from
+// RAZORPAY_WEBHOOK_SECRET (GET /api/payments/webhook-config) and a URL
+// carrying its tenant id. A URL without a tenant id is verified against
+// RAZORPAY_WEBHOOK_SECRET itself (single-account setups), the tenant then
+// coming from the payment notes.
+//
+// Idempotency, in three layers:
+//   1. the event id is claimed in t_payment_webhook_events (src/migrations/015)
+//      before anything happens — retries and replays of a processed event
+//      are acknowledged without acting again; failed events re-run
+//   2. one receipt per gateway payment per tenant (captured + link.paid
+//      both arrive for a link payment)
+//   3. the receipt goes through the same edge call as a manual
+//      recordPayment, with x-idempotency-key razorpay:<payment id>
+// An invoice already settled (the verify-payment callback got there first)
+// is not receipted twice.
+//
+// The edge calls are made with the service-role key — there is no user on
+// a webhook — and HMAC-signed like every internal call.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import ContractService from './contractService';
+import creditNoteService from './creditNoteService';
+import dunningService from './dunningService';
+import { fxRateService } from './fxRateService';
+import { invoiceOutstanding } from './invoiceService';
+import {
+  RAZORPAY_WEBHOOK_EVENTS,
+  RazorpayWebhookPlan,
+  planRazorpayEvent,
+  razorpayEventId,
+  tenantWebhookSecret,
+  verifyRazorpaySignature
+} from '../utils/razorpayWebhook';
+import {
+  PAYMENT_WEBHOOK_OUTCOMES,
+  PAYMENT_WEBHOOK_STATUSES,
+  PaymentWebhookEvent,
+  PaymentWebhookOutcome,
+  RazorpayWebhookBody,
+  RazorpayWebhookConfig
+} from '../types/paymentWebhookTypes';
+
+export interface RazorpayWebhookServiceResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+export interface RazorpayWebhookDelivery {
+  rawBody: Buffer;
+  signature: string | null;
+  eventIdHeader: string | null;
+  tenantId: string | null;        // ?tenant_id= on the webhook URL
+  environment: string | null;     // ?environment= on the webhook URL
+}
+
+export interface RazorpayWebhookOutcome {
+  event_id: string;
+  event_type: string;
+  outcome: PaymentWebhookOutcome | null;
+  duplicate: boolean;
+  detail?: string | null;
+}
+
+const PROVIDER = 'razorpay';
+
+// A claim older than this is assumed abandoned (process died mid-event)
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Finish = { outcome: PaymentWebhookOutcome; detail?: string | null; receiptId?: string | null; contractId?: string | null };
+
+class RazorpayWebhookService {
+  private contracts: ContractService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private contractService(): ContractService {
+    if (!this.contracts) this.contracts = new ContractService();
+    return this.contracts;
+  }
+
+  private fail(code: string, message: string): RazorpayWebhookServiceResult<never> {
+    return { success: false, error: { code, message } };
+  }
+
+  /** Dashboard webhook settings for a tenant */
+  getWebhookConfig(tenantId: string, baseUrl: string): RazorpayWebhookServiceResult<RazorpayWebhookConfig> {
+    const platformSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!platformSecret) return this.fail('CONFIG', 'RAZORPAY_WEBHOOK_SECRET is not configured');
+    return {
+      success: true,
+      data: {
+        url: `${baseUrl}/api/payments/webhooks/razorpay?tenant_id=${encodeURIComponent(tenantId)}`,
+        secret: tenantWebhookSecret(platformSecret, tenantId),
+        events: RAZORPAY_WEBHOOK_EVENTS
+      }
+    };
+  }
+
+  /**
+   * Verify, claim and act on one webhook delivery. A failure result means
+   * Razorpay should retry (it redelivers on any non-2xx).
+   */
+  async handle(delivery: RazorpayWebhookDelivery): Promise<RazorpayWebhookServiceResult<RazorpayWebhookOutcome>> {
+    const platformSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!platformSecret) return this.fail('CONFIG', 'RAZORPAY_WEBHOOK_SECRET is not configured');
+
+    const urlTenantId = delivery.tenantId && UUID.test(delivery.tenantId) ? delivery.tenantId : null;
+    if (delivery.tenantId && !urlTenantId) return this.fail('VALIDATION_ERROR', 'tenant_id must be a UUID');
+    const secret = urlTenantId ? tenantWebhookSecret(platformSecret, urlTenantId) : platformSecret;
+    if (!delivery.signature) return this.fail('MISSING_SIGNATURE', 'X-Razorpay-Signature header is required');
+    if (!verifyRazorpaySignature(delivery.rawBody, delivery.signature, secret)) {
+      return this.fail('INVALID_SIGNATURE', 'Webhook signature does not match');
+    }
+
+    let body: RazorpayWebhookBody;
+    try {
+      body = JSON.parse(delivery.rawBody.toString('utf8'));
+    } catch {
+      return this.fail('VALIDATION_ERROR', 'Webhook body is not JSON');
+    }
+    if (!body || typeof body !== 'object' || !body.event) return this.fail('VALIDATION_ERROR', 'Not a Razorpay event');
+
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const plan = planRazorpayEvent(body);
+    const eventId = razorpayEventId(delivery.eventIdHeader, body);
+    const tenantId = urlTenantId || (plan.tenantId && UUID.test(plan.tenantId) ? plan.tenantId : null);
+    const environment = delivery.environment || plan.environment || 'live';
+
+    const claim = await this.claim(supabase, eventId, body, plan, tenantId, environment !== 'test');
+    if (!claim.success) return claim as RazorpayWebhookServiceResult<never>;
+    if (claim.data!.duplicate) {
+      const prior = claim.data!.event!;
+      return {
+        success: true,
+        data: { event_id: eventId, event_type: body.event, outcome: prior.outcome, duplicate: true, detail: prior.error }
+      };
+    }
+    const rowId = claim.data!.event!.id;
+
+    let finish: Finish;
+    try {
+      if (urlTenantId && plan.tenantId && plan.tenantId !== urlTenantId) {
+        finish = { outcome: PAYMENT_WEBHOOK_OUTCOMES.IGNORED, detail: 'Payment belongs to a different tenant than the webhook URL' };
+      } else {
+        const acted = await this.act(supabase, plan, tenantId, environment, rowId);
+        if (!acted.success) {
+          await this.update(supabase, rowId, { status: PAYMENT_WEBHOOK_STATUSES.FAILED, error: acted.error!.message });
+          return acted as RazorpayWebhookServiceResult<never>;
+        }
+        finish = acted.data!;
+      }
+    } catch (e: any) {
+      console.error('[RazorpayWebhookService] handling failed:', e.message);
+      await this.update(supabase, rowId, { status: PAYMENT_WEBHOOK_STATUSES.FAILED, error: e.message || 'Unexpected error' });
+      return this.fail('INTERNAL_ERROR', e.message || 'Unexpected error');
+    }
+
+    const finished = await this.update(supabase, rowId, {
+      status: PAYMENT_WEBHOOK_STATUSES.PROCESSED,
+      outcome: finish.outcome,
+      error: finish.detail ?? null,
+      receipt_id: finish.receiptId ?? null,
+      ...(finish.contractId ? { contract_id: finish.contractId } : {}),
+      processed_at: new Date().toISOString()
+    });
+    if (!finished.success) return finished as RazorpayWebhookServiceResult<never>;
+
+    return {
+      success: true,
+      data: { event_id: eventId, event_type: body.event, outcome: finish.outcome, duplicate: false, detail: finish.detail ?? null }
+    };
+  }
+
+  // ─── Claim ───
+
+  /**
+   * Insert the event row, or find it. A processed event (or one another
+   * delivery is working on) is a duplicate; a failed or abandoned one is
+   * re-claimed for another attempt.
+   */
+  private async claim(
+    supabase: SupabaseClient,
+    eventId: string,
+    body: RazorpayWebhookBody,
+    plan: RazorpayWebhookPlan,
+    tenantId: string | null,
+    isLive: boolean
+  ): Promise<RazorpayWebhookServiceResult<{ event: PaymentWebhookEvent | null; duplicate: boolean }>> {
+    const row = {
+      provider: PROVIDER,
+      event_id: eventId,
+      event_type: body.event,
+      tenant_id: tenantId,
+      is_live: isLive,
+      invoice_id: plan.invoiceId && UUID.test(plan.invoiceId) ? plan.invoiceId : null,
+      contract_id: plan.contractId && UUID.test(plan.contractId) ? plan.contractId : null,
+      gateway_payment_id: plan.action === 'ignore' ? body.payload?.payment?.entity?.id || null : plan.paymentId,
+      gateway_refund_id: plan.action === 'cancel_receipt' ? plan.refundId : null,
+      amount: plan.action === 'ignore' ? null : plan.amount,
+      currency: plan.action === 'ignore' ? null : plan.currency,
+      status: PAYMENT_WEBHOOK_STATUSES.PROCESSING,
+      payload: body
+    };
+
+    const { data, error } = await supabase
+      .from('t_payment_webhook_events')
+      .insert(row)
+      .select('*')
+      .single();
+    if (!error) return { success: true, data: { event: data as PaymentWebhookEvent, duplicate: false } };
+    if (error.code !== '23505') {
+      console.error('[RazorpayWebhookService] claim failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+
+    // Seen before
+    const { data: existing, error: findError } = await supabase
+      .from('t_payment_webhook_events')
+      .select('*')
+      .eq('provider', PROVIDER)
+      .eq('event_id', eventId)
+      .maybeSingle();
+    if (findError) return this.fail('DATABASE_ERROR', findError.message);
+    if (!existing) return this.fail('DATABASE_ERROR', 'Webhook event vanished while claiming');
+    const prior = existing as PaymentWebhookEvent;
+
+    if (prior.status === PAYMENT_WEBHOOK_STATUSES.PROCESSED) {
+      return { success: true, data: { event: prior, duplicate: true } };
+    }
+    const stale = Date.now() - new Date(prior.updated_at).getTime() > STALE_CLAIM_MS;
+    if (prior.status === PAYMENT_WEBHOOK_STATUSES.PROCESSING && !stale) {
+      return this.fail('IN_PROGRESS', 'This event is already being processed');
+    }
+
+    // Re-claim only if nobody else did since we read it
+    const { data: reclaimed, error: reclaimError } = await supabase
+      .from('t_payment_webhook_events')
+      .update({
+        status: PAYMENT_WEBHOOK_STATUSES.PROCESSING,
+        attempts: (prior.attempts || 1) + 1,
+        error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', prior.id)
+      .eq('updated_at', prior.updated_at)
+      .select('*')
+      .maybeSingle();
+    if (reclaimError) return this.fail('DATABASE_ERROR', reclaimError.message);
+    if (!reclaimed) return this.fail('IN_PROGRESS', 'This event is already being processed');
+    return { success: true, data: { event: reclaimed as PaymentWebhookEvent, duplicate: false } };
+  }
+
+  private async update(
+    supabase: SupabaseClient,
+    rowId: string,
+    patch: Record<string, unknown>
+  ): Promise<RazorpayWebhookServiceResult<void>> {
+    const { error } = await supabase
+      .from('t_payment_webhook_events')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', rowId);
+    if (error) {
+      // Lost the one-receipt-per-payment race: the other event's receipt stands
+      if (error.code === '23505') {
+        return this.update(supabase, rowId, {
+          ...patch,
+          outcome: PAYMENT_WEBHOOK_OUTCOMES.IGNORED,
+          error: 'Receipt for this payment recorded by another event'
+        });
+      }
+      console.error('[RazorpayWebhookService] event update failed:', error.message);
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true };
+  }
+
+  // ─── Actions ───
+
+  private async act(
+    supabase: SupabaseClient,
+    plan: RazorpayWebhookPlan,
+    tenantId: string | null,
+    environment: string,
+    rowId: string
+  ): Promise<RazorpayWebhookServiceResult<Finish>> {
+    switch (plan.action) {
+      case 'ignore':
+        return { success: true, data: { outcome: PAYMENT_WEBHOOK_OUTCOMES.IGNORED, detail: plan.reason } };
+      case 'note_failure':
+        // Nothing to undo — the invoice stays open and dunning carries on
+        return { success: true, data: { outcome: PAYMENT_WEBHOOK_OUTCOMES.PAYMENT_FAILED, detail: plan.reason } };
+      case 'record_receipt':
+        return this.recordReceipt(supabase, plan, tenantId, environment, rowId);
+      case 'cancel_receipt':
+        return this.cancelReceipt(supabase, plan, tenantId, environment);
+    }
+  }
+
+  private async recordReceipt(
+    supabase: SupabaseClient,
+    plan: Extract<RazorpayWebhookPlan, { action: 'record_receipt' }>,
+    tenantId: string | null,
+    environment: string,
+    rowId: string
+  ): Promise<RazorpayWebhookServiceResult<Finish>> {
+    const ignored = (detail: string) => ({ success: true, data: { outcome: PAYMENT_WEBHOOK_OUTCOMES.IGNORED, detail } });
+    if (!tenantId) return ignored('No tenant on the webhook URL or in the payment notes');
+    if (!plan.invoiceId || !UUID.test(plan.invoiceId)) return ignored('No invoice_id in the payment notes');
+
+    const { data: invoice, error } = await supabase
+      .from('t_invoices')
+      .select('*')
+      .eq('id', plan.invoiceId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!invoice) return ignored('Invoice not found for this tenant');
+
+    // Ad-hoc invoices are settled when created; only contract invoices take payments
+    const contractId: string | null = invoice.contract_id || plan.contractId;
+    if (!contractId) return ignored('Invoice is not on a contract');
+
+    const { data: earlier, error: earlierError } = await supabase
+      .from('t_payment_webhook_events')
+      .select('id, event_type')
+      .eq('provider', PROVIDER)
+      .eq('tenant_id', tenantId)
+      .eq('gateway_payment_id', plan.paymentId)
+      .eq('outcome', PAYMENT_WEBHOOK_OUTCOMES.RECEIPT_RECORDED)
+      .neq('id', rowId)
+      .limit(1);
+    if (earlierError) return this.fail('DATABASE_ERROR', earlierError.message);
+    if (earlier && earlier.length > 0) {
+      return ignored(`Receipt for this payment already recorded by ${earlier[0].event_type}`);
+    }
+
+    if (invoiceOutstanding(invoice) <= 0) return ignored('Invoice already settled');
+
+    const result = await this.contractService().recordPayment(
+      contractId,
+      {
+        invoice_id: plan.invoiceId,
+        amount: plan.amount,
+        payment_method: 'online',
+        payment_date: plan.paidAt,
+        reference_number: plan.paymentId,
+        notes: `Razorpay ${plan.method} payment ${plan.paymentId}`,
+        gateway_provider: PROVIDER,
+        gateway_payment_id: plan.paymentId,
+        gateway_order_id: plan.orderId,
+        gateway_link_id: plan.paymentLinkId
+      },
+      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      tenantId,
+      '',
+      environment,
+      `${PROVIDER}:${plan.paymentId}`
+    );
+    if (!result.success) {
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', result.error || 'Recording the receipt failed');
+    }
+
+    await dunningService.onPaymentRecorded(tenantId, plan.invoiceId).catch((e) =>
+      console.warn('[RazorpayWebhookService] dunning stop after payment failed:', e?.message));
+
+    const receipt = result.data || {};
+    const receiptId = receipt.receipt_id || receipt.receipt?.id || receipt.id || null;
+    await fxRateService.onPaymentRecorded({
+      tenantId,
+      isLive: environment === 'live',
+      invoiceId: plan.invoiceId,
+      receipt,
+      amount: plan.amount,
+      paymentDate: plan.paidAt
+    }).catch((e) => console.warn('[RazorpayWebhookService] FX stamp after payment failed:', e?.message));
+
+    return {
+      success: true,
+      data: {
+        outcome: PAYMENT_WEBHOOK_OUTCOMES.RECEIPT_RECORDED,
+        receiptId: receiptId && UUID.test(receiptId) ? receiptId : null,
+        contractId
+      }
+    };
+  }
+
+  private async cancelReceipt(
+    supabase: SupabaseClient,
+    plan: Extract<RazorpayWebhookPlan, { action: 'cancel_receipt' }>,
+    tenantId: string | null,
+    environment: string
+  ): Promise<RazorpayWebhookServiceResult<Finish>> {
+    const review = (detail: string) => ({ success: true, data: { outcome: PAYMENT_WEBHOOK_OUTCOMES.REFUND_NEEDS_REVIEW, detail } });
+
+    // A refund issued for a credit note: the credit note is the accounting
+    // for it, so settle that and leave the receipt alone
+    const creditNote = await creditNoteService.markRefundProcessed({
+      tenantId, refundId: plan.refundId, creditNoteId: plan.creditNoteId
+    });
+    if (!creditNote.success) return this.fail(creditNote.error!.code, creditNote.error!.message);
+    if (creditNote.data) {
+      return {
+        success: true,
+        data: {
+          outcome: PAYMENT_WEBHOOK_OUTCOMES.CREDIT_NOTE_REFUNDED,
+          detail: `Credit note ${creditNote.data.credit_note_number}`,
+          contractId: creditNote.data.contract_id
+        }
+      };
+    }
+
+    if (!tenantId) return review('No tenant on the webhook URL or in the payment notes');
+
+    const { data: recorded, error } = await supabase
+      .from('t_payment_webhook_events')
+      .select('*')
+      .eq('provider', PROVIDER)
+      .eq('tenant_id', tenantId)
+      .eq('gateway_payment_id', plan.paymentId)
+      .eq('outcome', PAYMENT_WEBHOOK_OUTCOMES.RECEIPT_RECORDED)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const receiptEvent = recorded as PaymentWebhookEvent | null;
+    if (!receiptEvent?.receipt_id || !receiptEvent.contract_id) {
+      return review('No webhook-recorded receipt for this payment — adjust the invoice manually');
+    }
+    const { data: cancelled, error: cancelledError } = await supabase
+      .from('t_payment_webhook_events')
+      .select('id')
+      .eq('provider', PROVIDER)
+      .eq('tenant_id', tenantId)
+      .eq('gateway_payment_id', plan.paymentId)
+      .eq('outcome', PAYMENT_WEBHOOK_OUTCOMES.RECEIPT_CANCELLED)
+      .limit(1);
+    if (cancelledError) return this.fail('DATABASE_ERROR', cancelledError.message);
+    if (cancelled && cancelled.length > 0) {
+      return { success: true, data: { outcome: PAYMENT_WEBHOOK_OUTCOMES.IGNORED, detail: 'Receipt already cancelled for this payment' } };
+    }
+    if (!plan.fullRefund) {
+      return review(`Partial refund of ${plan.amount} ${plan.currency} — adjust the receipt manually`);
+    }
+
+    const result = await this.contractService().cancelReceipt(
+      receiptEvent.contract_id,
+      { receipt_id: receiptEvent.receipt_id, reason: `Refunded on Razorpay (${plan.refundId})` },
+      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      tenantId,
+      '',
+      environment,
+      `${PROVIDER}:${plan.refundId}`
+    );
+    if (!result.success) {
+      return this.fail(result.code || 'EDGE_FUNCTION_ERROR', result.error || 'Cancelling the receipt failed');
+    }
+
+    // The invoice owes again; the next dunning run resumes its reminders
+    return {
+      success: true,
+      data: {
+        outcome: PAYMENT_WEBHOOK_OUTCOMES.RECEIPT_CANCELLED,
+        receiptId: receiptEvent.receipt_id,
+        contractId: receiptEvent.contract_id
+      }
+    };
+  }
+}
+
+export const razorpayWebhookService = new RazorpayWebhookService();
+export default razorpayWebhookService;
@@ -0,0 +1,363 @@
+// ============================================================================
+// Receivables Ageing Service — open invoices bucketed by days past due
+// ============================================================================
+// Buckets: not yet due, 0-30, 31-60, 61-90, 90+ days past the due date (as of
+// a date in the tenant's time zone; an invoice without a due date ages from
+// its invoice date). Outstanding amounts are rolled up per buyer contact, per
+// contract and per currency — never summed across currencies, except in
+// the tenant base currency at the rates stamped by fxRateService.
+//
+// Buyer: the contract's buyer for contract invoices, the invoice's contact
+// for ad-hoc (contract-less) ones.
+//
+// Export renders the same data as CSV (one sheet's worth, chosen by
+// group_by) or XLSX (summary, buyers, contracts and invoices sheets).
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { OPEN_INVOICE_STATUSES, invoiceOutstanding } from './invoiceService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import { fxRateService } from './fxRateService';
+import { toCsv, CsvCell } from '../utils/csv';
+import { renderXlsx, XlsxColumn, XlsxSheet } from '../utils/xlsx';
+import {
+  AGEING_BUCKETS,
+  AGEING_BUCKET_LABELS,
+  AgeingAmounts,
+  AgeingBucket,
+  AgeingGroupRow,
+  AgeingGrouping,
+  AgeingInvoiceRow,
+  ReceivablesAgeing
+} from '../types/financeTypes';
+
+export interface ReceivablesAgeingResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+// Upper bound on invoices aged in one request; past it the result says
+// `truncated` (the latest-due invoices are the ones left out)
+const MAX_INVOICES = 20000;
+const UNASSIGNED = 'unassigned';
+
+const BUCKET_ORDER: AgeingBucket[] = [
+  AGEING_BUCKETS.NOT_DUE,
+  AGEING_BUCKETS.DAYS_0_30,
+  AGEING_BUCKETS.DAYS_31_60,
+  AGEING_BUCKETS.DAYS_61_90,
+  AGEING_BUCKETS.DAYS_90_PLUS,
+];
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+function emptyAmounts(): AgeingAmounts {
+  return { not_due: 0, d0_30: 0, d31_60: 0, d61_90: 0, d90_plus: 0, total: 0 };
+}
+
+export function ageingBucket(daysOverdue: number): AgeingBucket {
+  if (daysOverdue < 0) return AGEING_BUCKETS.NOT_DUE;
+  if (daysOverdue <= 30) return AGEING_BUCKETS.DAYS_0_30;
+  if (daysOverdue <= 60) return AGEING_BUCKETS.DAYS_31_60;
+  if (daysOverdue <= 90) return AGEING_BUCKETS.DAYS_61_90;
+  return AGEING_BUCKETS.DAYS_90_PLUS;
+}
+
+function localDay(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+class ReceivablesAgeingService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): ReceivablesAgeingResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  async getAgeing(params: {
+    tenantId: string;
+    isLive: boolean;
+    asOf?: string;
+    currency?: string;
+  }): Promise<ReceivablesAgeingResult<ReceivablesAgeing>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const timeZone = await tenantTimeZoneService.getTimeZone(params.tenantId);
+    const asOf = params.asOf ? params.asOf.slice(0, 10) : localDay(new Date(), timeZone);
+
+    const invoices: Record<string, any>[] = [];
+    for (let offset = 0; offset < MAX_INVOICES; offset += PAGE_SIZE) {
+      // The last page reads one row past the cap, to tell a tenant with
+      // exactly MAX_INVOICES open invoices from one with more
+      const end = offset + PAGE_SIZE >= MAX_INVOICES ? MAX_INVOICES : offset + PAGE_SIZE - 1;
+      let query = supabase
+        .from('t_invoices')
+        .select('*')
+        .eq('tenant_id', params.tenantId)
+        .eq('is_live', params.isLive)
+        .in('status', OPEN_INVOICE_STATUSES)
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('id', { ascending: true })
+        .range(offset, end);
+      if (params.currency) query = query.eq('currency', params.currency.toUpperCase());
+
+      const { data, error } = await query;
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      invoices.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    const truncated = invoices.length > MAX_INVOICES;
+    if (truncated) {
+      invoices.length = MAX_INVOICES;
+      console.warn(`[ReceivablesAgeingService] tenant ${params.tenantId} has more than ${MAX_INVOICES} open invoices; ageing truncated`);
+    }
+
+    const open = invoices.filter((i) => invoiceOutstanding(i) > 0);
+
+    const contractIds = Array.from(new Set(open.map((i) => i.contract_id).filter(Boolean)));
+    const contracts = new Map<string, Record<string, any>>();
+    for (let i = 0; i < contractIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_contracts')
+        .select('id, contract_number, title, buyer_id, buyer_name')
+        .in('id', contractIds.slice(i, i + PAGE_SIZE));
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      for (const c of data || []) contracts.set(c.id, c);
+    }
+
+    const contactIds = Array.from(new Set(open
+      .filter((i) => !i.contract_id && i.contact_id)
+      .map((i) => i.contact_id)));
+    const contacts = new Map<string, string>();
+    for (let i = 0; i < contactIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('t_contacts')
+        .select('id, name, company_name')
+        .in('id', contactIds.slice(i, i + PAGE_SIZE));
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      for (const c of data || []) contacts.set(c.id, c.company_name || c.name || '');
+    }
+
+    const { base_currency: baseCurrency, amounts: baseAmounts } = await fxRateService.baseAmounts(params.tenantId, params.isLive, open);
+
+    const rows: AgeingInvoiceRow[] = open.map((invoice) => {
+      const contract = invoice.contract_id ? contracts.get(invoice.contract_id) : undefined;
+      const invoiceDate = (invoice.invoice_date || invoice.issue_date || invoice.created_at || null)?.slice(0, 10) ?? null;
+      const dueDate = invoice.due_date ? String(invoice.due_date).slice(0, 10) : null;
+      const agedFrom = dueDate || invoiceDate || asOf;
+      const daysPastDue = Math.round((Date.parse(`${asOf}T00:00:00Z`) - Date.parse(`${agedFrom}T00:00:00Z`)) / DAY_MS);
+      const buyerId = contract ? contract.buyer_id || null : invoice.contact_id || null;
+
+      return {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number || null,
+        contract_id: invoice.contract_id || null,
+        contract_number: contract?.contract_number || null,
+        buyer_id: buyerId,
+        buyer_name: contract ? contract.buyer_name || null : (buyerId ? contacts.get(buyerId) || null : null),
+        status: invoice.status,
+        invoice_date: invoiceDate,
+        due_date: dueDate,
+        days_overdue: Math.max(0, daysPastDue),
+        bucket: ageingBucket(daysPastDue),
+        currency: String(invoice.currency || 'INR').toUpperCase(),
+        total_amount: round2(Number(invoice.total_amount ?? invoice.amount) || 0),
+        outstanding: round2(invoiceOutstanding(invoice)),
+        fx_rate: baseAmounts.get(invoice.id)?.fx_rate ?? null,
+        base_total_amount: baseAmounts.get(invoice.id)?.base_total_amount ?? null,
+        base_outstanding: baseAmounts.get(invoice.id)?.base_outstanding ?? null,
+      };
+    });
+
+    const totalsInBase = { invoice_count: 0, unconverted_count: 0, amounts: emptyAmounts() };
+    for (const row of rows) {
+      if (row.base_outstanding === null) {
+        totalsInBase.unconverted_count++;
+        continue;
+      }
+      totalsInBase.invoice_count++;
+      totalsInBase.amounts[row.bucket] = round2(totalsInBase.amounts[row.bucket] + row.base_outstanding);
+      totalsInBase.amounts.total = round2(totalsInBase.amounts.total + row.base_outstanding);
+    }
+
+    return {
+      success: true,
+      data: {
+        as_of: asOf,
+        time_zone: timeZone,
+        truncated,
+        invoice_limit: MAX_INVOICES,
+        totals_by_currency: this.rollUp(rows, () => ({ key: 'total', label: 'Total' }))
+          .map(({ currency, invoice_count, amounts }) => ({ currency, invoice_count, amounts })),
+        base_currency: baseCurrency,
+        totals_in_base: totalsInBase,
+        by_buyer: this.rollUp(rows, (r) => ({
+          key: r.buyer_id || UNASSIGNED,
+          label: r.buyer_name || (r.buyer_id ? r.buyer_id : 'No buyer'),
+        })),
+        by_contract: this.rollUp(rows, (r) => ({
+          key: r.contract_id || UNASSIGNED,
+          label: r.contract_number || (r.contract_id ? r.contract_id : 'Without contract'),
+          buyer_id: r.contract_id ? r.buyer_id : null,
+          buyer_name: r.contract_id ? r.buyer_name : null,
+        })),
+        invoices: rows,
+      },
+    };
+  }
+
+  /** Group rows by key + currency; largest outstanding first */
+  private rollUp(
+    rows: AgeingInvoiceRow[],
+    group: (row: AgeingInvoiceRow) => { key: string; label: string; buyer_id?: string | null; buyer_name?: string | null }
+  ): AgeingGroupRow[] {
+    const groups = new Map<string, AgeingGroupRow>();
+    for (const row of rows) {
+      const g = group(row);
+      const id = `${g.key}|${row.currency}`;
+      let entry = groups.get(id);
+      if (!entry) {
+        entry = { ...g, currency: row.currency, invoice_count: 0, amounts: emptyAmounts(), base_total: 0 };
+        groups.set(id, entry);
+      }
+      entry.invoice_count++;
+      entry.base_total = entry.base_total === null || row.base_outstanding === null
+        ? null
+        : round2(entry.base_total + row.base_outstanding);
+      entry.amounts[row.bucket] = round2(entry.amounts[row.bucket] + row.outstanding);
+      entry.amounts.total = round2(entry.amounts.total + row.outstanding);
+    }
+    return Array.from(groups.values())
+      .sort((a, b) => a.currency.localeCompare(b.currency) || b.amounts.total - a.amounts.total);
+  }
+
+  // ==========================================================
+  // EXPORT
+  // ==========================================================
+
+  toCsv(ageing: ReceivablesAgeing, groupBy: AgeingGrouping): string {
+    if (groupBy === 'invoice') {
+      const columns = this.invoiceColumns(ageing.base_currency);
+      return toCsv(columns.map((c) => c.header), ageing.invoices.map((r) => this.invoiceCells(r)));
+    }
+    const columns = this.groupColumns(groupBy, ageing.base_currency);
+    const rows = groupBy === 'buyer' ? ageing.by_buyer : ageing.by_contract;
+    return toCsv(columns.map((c) => c.header), rows.map((r) => this.groupCells(r, groupBy)) as CsvCell[][]);
+  }
+
+  toXlsx(ageing: ReceivablesAgeing): Buffer {
+    const bucketColumns: XlsxColumn[] = BUCKET_ORDER.map((b) => ({ header: AGEING_BUCKET_LABELS[b], width: 14, format: 'amount' }));
+
+    const summary: XlsxSheet = {
+      name: 'Summary',
+      columns: [
+        { header: 'Currency', width: 10 },
+        { header: 'Invoices', width: 10 },
+        ...bucketColumns,
+        { header: 'Total', width: 16, format: 'amount' },
+      ],
+      rows: [
+        ...ageing.totals_by_currency.map((t) => [
+          t.currency,
+          t.invoice_count,
+          ...BUCKET_ORDER.map((b) => t.amounts[b]),
+          t.amounts.total,
+        ]),
+        [
+          `All in ${ageing.base_currency}`,
+          ageing.totals_in_base.invoice_count,
+          ...BUCKET_ORDER.map((b) => ageing.totals_in_base.amounts[b]),
+          ageing.totals_in_base.amounts.total,
+        ],
+        ...(ageing.totals_in_base.unconverted_count > 0
+          ? [[`${ageing.totals_in_base.unconverted_count} invoice(s) without an exchange rate are not in the ${ageing.base_currency} total`]]
+          : []),
+        ...(ageing.truncated
+          ? [[`Incomplete: more than ${ageing.invoice_limit} open invoices — only the ${ageing.invoice_limit} earliest due are aged; filter by currency to narrow the report`]]
+          : []),
+        [],
+        [`As of ${ageing.as_of} (${ageing.time_zone})`],
+      ],
+    };
+
+    return renderXlsx([
+      summary,
+      { name: 'By buyer', columns: this.groupColumns('buyer', ageing.base_currency), rows: ageing.by_buyer.map((r) => this.groupCells(r, 'buyer')) },
+      { name: 'By contract', columns: this.groupColumns('contract', ageing.base_currency), rows: ageing.by_contract.map((r) => this.groupCells(r, 'contract')) },
+      { name: 'Invoices', columns: this.invoiceColumns(ageing.base_currency), rows: ageing.invoices.map((r) => this.invoiceCells(r)) },
+    ]);
+  }
+
+  private groupColumns(groupBy: 'buyer' | 'contract', baseCurrency: string): XlsxColumn[] {
+    return [
+      ...(groupBy === 'buyer'
+        ? [{ header: 'Buyer', width: 32 }]
+        : [{ header: 'Contract', width: 20 }, { header: 'Buyer', width: 32 }]),
+      { header: 'Currency', width: 10 },
+      { header: 'Invoices', width: 10 },
+      ...BUCKET_ORDER.map((b): XlsxColumn => ({ header: AGEING_BUCKET_LABELS[b], width: 14, format: 'amount' })),
+      { header: 'Total', width: 16, format: 'amount' },
+      { header: `Total (${baseCurrency})`, width: 16, format: 'amount' },
+    ];
+  }
+
+  private groupCells(row: AgeingGroupRow, groupBy: 'buyer' | 'contract'): Array<string | number | null> {
+    return [
+      ...(groupBy === 'buyer' ? [row.label] : [row.label, row.buyer_name || row.buyer_id || null]),
+      row.currency,
+      row.invoice_count,
+      ...BUCKET_ORDER.map((b) => row.amounts[b]),
+      row.amounts.total,
+      row.base_total,
+    ];
+  }
+
+  private invoiceColumns(baseCurrency: string): XlsxColumn[] {
+    return [
+      { header: 'Invoice', width: 18 },
+      { header: 'Contract', width: 18 },
+      { header: 'Buyer', width: 32 },
+      { header: 'Status', width: 14 },
+      { header: 'Invoice Date', width: 12 },
+      { header: 'Due Date', width: 12 },
+      { header: 'Days Overdue', width: 12 },
+      { header: 'Bucket', width: 12 },
+      { header: 'Currency', width: 10 },
+      { header: 'Invoice Total', width: 16, format: 'amount' },
+      { header: 'Outstanding', width: 16, format: 'amount' },
+      { header: 'FX Rate', width: 12 },
+      { header: `Outstanding (${baseCurrency})`, width: 16, format: 'amount' },
+    ];
+  }
+
+  private invoiceCells(row: AgeingInvoiceRow): Array<string | number | null> {
+    return [
+      row.invoice_number || row.invoice_id,
+      row.contract_number,
+      row.buyer_name || row.buyer_id,
+      row.status,
+      row.invoice_date,
+      row.due_date,
+      row.days_overdue,
+      AGEING_BUCKET_LABELS[row.bucket],
+      row.currency,
+      row.total_amount,
+      row.outstanding,
+      row.fx_rate,
+      row.base_outstanding,
+    ];
+  }
+}
+
+export const receivablesAgeingService = new ReceivablesAgeingService();
+export default receivablesAgeingService;
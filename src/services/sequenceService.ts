@@ -0,0 +1,77 @@
+// src/services/sequenceService.ts
+// Next formatted number from the tenant's sequences (sequences edge function),
+// for records the API creates itself rather than through a DB trigger.
+// Same calls the /api/sequences routes proxy: GET /next/:code, POST /seed.
+
+import axios from 'axios';
+import { SEQUENCE_SEED_DATA } from '../seeds/sequences.seed';
+
+export interface SequenceResult {
+  success: boolean;
+  data?: string;
+  error?: { code: string; message: string };
+}
+
+class SequenceService {
+  /**
+   * Next number for a sequence code (e.g. 'CREDIT_NOTE') in one environment.
+   * Tenants seeded before a sequence was added have no counter for it: on a
+   * miss the default config is seeded for that code and the call retried once.
+   */
+  async next(code: string, authHeader: string, tenantId: string, environment: string = 'live'): Promise<SequenceResult> {
+    const first = await this.fetchNext(code, authHeader, tenantId, environment);
+    if (first.success || first.error?.code !== 'NOT_FOUND') return first;
+
+    const seed = SEQUENCE_SEED_DATA.find((item) => item.code === code);
+    if (!seed) return first;
+    try {
+      await axios.post(
+        `${process.env.SUPABASE_URL}/functions/v1/sequences/seed`,
+        { seedData: [seed] },
+        { headers: this.headers(authHeader, tenantId, environment), timeout: 15000 }
+      );
+    } catch (e: any) {
+      console.warn(`[SequenceService] seeding ${code} failed:`, e.response?.data?.error || e.message);
+      return first;
+    }
+    return this.fetchNext(code, authHeader, tenantId, environment);
+  }
+
+  private async fetchNext(code: string, authHeader: string, tenantId: string, environment: string): Promise<SequenceResult> {
+    if (!process.env.SUPABASE_URL) {
+      return { success: false, error: { code: 'CONFIG', message: 'SUPABASE_URL is not configured' } };
+    }
+    try {
+      const response = await axios.get(
+        `${process.env.SUPABASE_URL}/functions/v1/sequences/next/${encodeURIComponent(code)}`,
+        { headers: this.headers(authHeader, tenantId, environment), timeout: 15000 }
+      );
+      const body = response.data?.data ?? response.data ?? {};
+      const formatted = typeof body === 'string'
+        ? body
+        : body.formatted ?? body.formatted_number ?? body.formatted_value ?? body.next_formatted ?? body.number;
+      if (!formatted) {
+        return { success: false, error: { code: 'SEQUENCE_ERROR', message: `Sequence ${code} returned no number` } };
+      }
+      return { success: true, data: String(formatted) };
+    } catch (e: any) {
+      const status = e.response?.status;
+      const message = e.response?.data?.error || e.message;
+      const missing = status === 404 || /not (found|configured)|no counter/i.test(String(message));
+      console.error(`[SequenceService] next ${code} failed:`, message);
+      return { success: false, error: { code: missing ? 'NOT_FOUND' : 'SEQUENCE_ERROR', message } };
+    }
+  }
+
+  private headers(authHeader: string, tenantId: string, environment: string): Record<string, string> {
+    return {
+      Authorization: authHeader,
+      'x-tenant-id': tenantId,
+      'x-environment': environment,
+      'Content-Type': 'application/json'
+    };
+  }
+}
+
+export const sequenceService = new SequenceService();
+export default sequenceService;
@@ -0,0 +1,1067 @@
+// ============================================================================
+// Service SLA Service — SLA policies, ticket SLA clocks, breach sweep
+// ============================================================================
+// Service-execution tickets live behind the service-execution edge function;
+// their SLA lives here (src/migrations/022):
+//   policies — response / on-site / resolution targets by criticality, for a
+//              contract, a catalog block or the whole tenant (t_sla_policies)
+//   clocks   — one per ticket (t_service_ticket_slas), started the first time
+//              the API sees the ticket. Policy, criticality, targets and due
+//              instants are fixed then; status changes seen later stamp when
+//              each timer was reached (assigned → response, in_progress →
+//              on-site, completed → resolution)
+//   sweep    — background job raising a JTD for each breached timer. Each
+//              (ticket, timer) is claimed in t_service_ticket_sla_breaches
+//              before the JTD is raised, as the overdue sweeper does
+// Time counts in the tenant's working time — working hours on days that are
+// neither a weekly off nor a holiday (cadence settings), in the tenant's
+// zone — unless the policy runs 24x7.
+// Criticality: given on ticket create, else the ticket's asset, else the most
+// critical asset covered by the contract (client asset registry), else medium.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { jtdService } from './jtdService';
+import cadenceSettingsService from './cadenceSettingsService';
+import { tenantTimeZoneService } from './tenantTimeZoneService';
+import { clientAssetRegistryService } from './clientAssetRegistryService';
+import ServiceExecutionService from './serviceExecutionService';
+import { captureException } from '../utils/sentry';
+import {
+  addBusinessMinutes,
+  BusinessCalendar,
+  businessMinutesBetween,
+  isBusinessTime,
+  ROUND_THE_CLOCK
+} from '../utils/businessTime';
+import type { AssetCriticality } from '../types/clientAssetRegistryTypes';
+import {
+  CreateSlaPolicyRequest,
+  DEFAULT_SLA_CRITICALITY,
+  SLA_CRITICALITIES,
+  SLA_TIMER_STATUSES,
+  SLA_TIMERS,
+  SlaComplianceCounts,
+  SlaComplianceReport,
+  SlaPolicy,
+  SlaSweepResult,
+  SlaTargets,
+  SlaTimer,
+  SlaTimerState,
+  TicketSlaClock,
+  TicketSlaState,
+  UpdateSlaPolicyRequest
+} from '../types/serviceSlaTypes';
+
+export interface ServiceSlaResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+/** Who is asking: the tenant/environment, and a bearer for the asset registry */
+export interface SlaContext {
+  tenantId: string;
+  isLive: boolean;
+  authToken?: string;
+}
+
+/** Create-time inputs the edge does not keep */
+export interface SlaTicketHints {
+  criticality?: AssetCriticality;
+  asset_id?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Clocks read per page, and pages per sweep; the next sweep picks up the rest
+const BATCH_SIZE = 200;
+const MAX_SWEEP_PAGES = 25;
+// Clocks opened before this are not swept any more
+const SWEEP_LOOKBACK_DAYS = 90;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+const COMPLIANCE_PAGE_SIZE = 1000;
+const COMPLIANCE_MAX_ROWS = 50000;
+
+const JTD_EVENT_TYPE = 'service_ticket.sla_breached';
+
+const TIMERS: SlaTimer[] = [SLA_TIMERS.RESPONSE, SLA_TIMERS.ONSITE, SLA_TIMERS.RESOLUTION];
+
+// How far a ticket status has got; a timer is reached at its rank
+const STATUS_RANK: Record<string, number> = {
+  created: 0,
+  assigned: 1,
+  in_progress: 2,
+  evidence_uploaded: 3,
+  completed: 4,
+};
+
+const TIMER_COLUMNS: Record<SlaTimer, {
+  rank: number;
+  minutes: 'response_minutes' | 'onsite_minutes' | 'resolution_minutes';
+  due: 'response_due_at' | 'onsite_due_at' | 'resolution_due_at';
+  reached: 'responded_at' | 'onsite_at' | 'resolved_at';
+  ticketFields: string[];   // ticket timestamps naming when the status was reached
+}> = {
+  response: { rank: 1, minutes: 'response_minutes', due: 'response_due_at', reached: 'responded_at', ticketFields: ['assigned_at'] },
+  onsite: { rank: 2, minutes: 'onsite_minutes', due: 'onsite_due_at', reached: 'onsite_at', ticketFields: ['started_at', 'in_progress_at'] },
+  resolution: { rank: 4, minutes: 'resolution_minutes', due: 'resolution_due_at', reached: 'resolved_at', ticketFields: ['completed_at'] },
+};
+
+const CRITICALITY_RANK: Record<AssetCriticality, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+class ServiceSlaService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private execution: ServiceExecutionService | null = null;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): ServiceSlaResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  // Constructed on first use — the constructor throws without SUPABASE_URL
+  private executionService(): ServiceExecutionService {
+    if (!this.execution) this.execution = new ServiceExecutionService();
+    return this.execution;
+  }
+
+  // ==========================================================
+  // POLICIES
+  // ==========================================================
+
+  async listPolicies(
+    tenantId: string,
+    isLive: boolean,
+    filters: { contract_id?: string; block_id?: string; include_inactive?: boolean } = {}
+  ): Promise<ServiceSlaResult<SlaPolicy[]>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    let query = supabase
+      .from('t_sla_policies')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .order('created_at', { ascending: true });
+    if (!filters.include_inactive) query = query.eq('is_active', true);
+    if (filters.contract_id) query = query.eq('contract_id', filters.contract_id);
+    if (filters.block_id) query = query.eq('block_id', filters.block_id);
+
+    const { data, error } = await query;
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []).map((row: any) => this.toPolicy(row)) };
+  }
+
+  async createPolicy(
+    tenantId: string,
+    isLive: boolean,
+    request: CreateSlaPolicyRequest,
+    userId: string | null
+  ): Promise<ServiceSlaResult<SlaPolicy>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    if (request.contract_id && request.block_id) {
+      return this.fail('VALIDATION_ERROR', 'A policy is for a contract or for a block, not both');
+    }
+
+    const { data, error } = await supabase
+      .from('t_sla_policies')
+      .insert({
+        tenant_id: tenantId,
+        is_live: isLive,
+        name: request.name.trim(),
+        contract_id: request.contract_id || null,
+        block_id: request.block_id || null,
+        targets: this.cleanTargets(request.targets),
+        business_hours_only: request.business_hours_only !== false,
+        notify_user_ids: Array.from(new Set(request.notify_user_ids || [])),
+        created_by: userId,
+        updated_by: userId,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return this.fail('CONFLICT', 'An active SLA policy already exists for this scope');
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+    return { success: true, data: this.toPolicy(data) };
+  }
+
+  async updatePolicy(
+    tenantId: string,
+    isLive: boolean,
+    policyId: string,
+    patch: UpdateSlaPolicyRequest,
+    userId: string | null
+  ): Promise<ServiceSlaResult<SlaPolicy>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const row: Record<string, any> = { updated_by: userId, updated_at: new Date().toISOString() };
+    if (patch.name !== undefined) row.name = patch.name.trim();
+    if (patch.targets !== undefined) row.targets = this.cleanTargets(patch.targets);
+    if (patch.business_hours_only !== undefined) row.business_hours_only = patch.business_hours_only;
+    if (patch.notify_user_ids !== undefined) row.notify_user_ids = Array.from(new Set(patch.notify_user_ids));
+
+    const { data, error } = await supabase
+      .from('t_sla_policies')
+      .update(row)
+      .eq('id', policyId)
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .eq('is_active', true)
+      .select('*')
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'SLA policy not found');
+    return { success: true, data: this.toPolicy(data) };
+  }
+
+  /** Retire a policy. Tickets already open keep the targets they started with. */
+  async deactivatePolicy(
+    tenantId: string,
+    isLive: boolean,
+    policyId: string,
+    userId: string | null
+  ): Promise<ServiceSlaResult<SlaPolicy>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const { data, error } = await supabase
+      .from('t_sla_policies')
+      .update({ is_active: false, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', policyId)
+      .eq('tenant_id', tenantId)
+      .eq('is_live', isLive)
+      .eq('is_active', true)
+      .select('*')
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'SLA policy not found');
+    return { success: true, data: this.toPolicy(data) };
+  }
+
+  private toPolicy(row: Record<string, any>): SlaPolicy {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      is_live: row.is_live,
+      name: row.name,
+      contract_id: row.contract_id ?? null,
+      block_id: row.block_id ?? null,
+      targets: row.targets || {},
+      business_hours_only: row.business_hours_only !== false,
+      notify_user_ids: Array.isArray(row.notify_user_ids) ? row.notify_user_ids : [],
+      is_active: row.is_active,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /** Keep known criticalities and timers; drop empty targets */
+  private cleanTargets(targets: Record<string, any> | undefined): SlaPolicy['targets'] {
+    const clean: SlaPolicy['targets'] = {};
+    for (const criticality of SLA_CRITICALITIES) {
+      const given = targets?.[criticality];
+      if (!given || typeof given !== 'object') continue;
+      const entry: Record<string, number> = {};
+      for (const timer of TIMERS) {
+        const minutes = Number(given[TIMER_COLUMNS[timer].minutes]);
+        if (Number.isInteger(minutes) && minutes > 0) entry[TIMER_COLUMNS[timer].minutes] = minutes;
+      }
+      if (Object.keys(entry).length > 0) clean[criticality] = entry;
+    }
+    return clean;
+  }
+
+  // ==========================================================
+  // TICKET CLOCKS
+  // ==========================================================
+
+  /**
+   * Set `sla` (TicketSlaState, or null when no policy applies) on each
+   * ticket, starting clocks for tickets seen for the first time and
+   * recording status progress. Never fails the caller: on error the tickets
+   * are left as they are.
+   */
+  async attachSla(ctx: SlaContext, tickets: Record<string, any>[], hints: SlaTicketHints = {}): Promise<void> {
+    if (tickets.length === 0) return;
+    try {
+      const clocks = await this.trackTickets(ctx, tickets, hints);
+      if (clocks.size === 0) return;
+
+      const now = new Date();
+      const calendar = await this.businessCalendar(ctx.tenantId);
+      for (const ticket of tickets) {
+        const clock = clocks.get(String(ticket.id));
+        if (clock) ticket.sla = this.computeState(clock, calendar, now);
+      }
+    } catch (error: any) {
+      console.error('[ServiceSlaService] attaching SLA state failed:', error?.message);
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { component: 'ServiceSlaService', action: 'attachSla' },
+      });
+    }
+  }
+
+  /**
+   * Clock per ticket id — existing clocks brought up to the ticket's status,
+   * missing ones started. `hints` apply to clocks started by this call.
+   */
+  async trackTickets(
+    ctx: SlaContext,
+    tickets: Record<string, any>[],
+    hints: SlaTicketHints = {}
+  ): Promise<Map<string, TicketSlaClock>> {
+    const clocks = new Map<string, TicketSlaClock>();
+    const supabase = this.client();
+    if (!supabase) return clocks;
+
+    const byId = new Map<string, Record<string, any>>();
+    for (const ticket of tickets) {
+      if (ticket?.id && UUID_PATTERN.test(String(ticket.id))) byId.set(String(ticket.id), ticket);
+    }
+    if (byId.size === 0) return clocks;
+
+    const { data: existing, error } = await supabase
+      .from('t_service_ticket_slas')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .in('ticket_id', Array.from(byId.keys()));
+    if (error) throw new Error(`SLA clock lookup failed: ${error.message}`);
+    for (const row of existing || []) clocks.set(row.ticket_id, row as TicketSlaClock);
+
+    const missing = Array.from(byId.values()).filter((t) => !clocks.has(String(t.id)));
+    if (missing.length > 0) {
+      const started = await this.startClocks(supabase, ctx, missing, hints);
+      started.forEach((clock, id) => clocks.set(id, clock));
+    }
+
+    for (const [ticketId, clock] of clocks) {
+      const progressed = await this.recordProgress(supabase, clock, byId.get(ticketId)!);
+      clocks.set(ticketId, progressed);
+    }
+    return clocks;
+  }
+
+  private async startClocks(
+    supabase: SupabaseClient,
+    ctx: SlaContext,
+    tickets: Record<string, any>[],
+    hints: SlaTicketHints
+  ): Promise<Map<string, TicketSlaClock>> {
+    const calendar = await this.businessCalendar(ctx.tenantId);
+    const blocksByEvent = await this.eventBlocks(supabase, ctx.tenantId, tickets);
+    const assetCriticality = new Map<string, AssetCriticality | null>();
+
+    const rows: Record<string, any>[] = [];
+    for (const ticket of tickets) {
+      const contractId = ticket.contract_id ? String(ticket.contract_id) : null;
+      const blockIds = Array.from(new Set(
+        this.ticketEventIds(ticket).map((id) => blocksByEvent.get(id)).filter((b): b is string => !!b)
+      ));
+
+      const policy = await this.resolvePolicy(supabase, ctx, contractId, blockIds);
+      const criticality = await this.resolveCriticality(ctx, ticket, hints, assetCriticality);
+      const targets: SlaTargets = policy?.targets[criticality] || {};
+      const openedAt = this.validDate(ticket.created_at) || new Date();
+      const clockCalendar = policy?.business_hours_only === false ? ROUND_THE_CLOCK : calendar;
+
+      const row: Record<string, any> = {
+        tenant_id: ctx.tenantId,
+        is_live: ctx.isLive,
+        ticket_id: String(ticket.id),
+        ticket_number: ticket.ticket_number ?? null,
+        contract_id: contractId,
+        block_id: policy?.block_id ?? blockIds[0] ?? null,
+        policy_id: policy?.id ?? null,
+        criticality,
+        business_hours_only: policy ? policy.business_hours_only : true,
+        opened_at: openedAt.toISOString(),
+        ticket_status: ticket.status ?? null,
+        assigned_to: ticket.assigned_to ?? null,
+      };
+      for (const timer of TIMERS) {
+        const { minutes, due } = TIMER_COLUMNS[timer];
+        const target = Number(targets[minutes]) || null;
+        row[minutes] = target;
+        row[due] = target ? this.dueAt(clockCalendar, openedAt, target).toISOString() : null;
+      }
+      // No targets → nothing to sweep, ever
+      if (TIMERS.every((timer) => !row[TIMER_COLUMNS[timer].due])) row.settled_at = new Date().toISOString();
+      rows.push(row);
+    }
+
+    // A concurrent request may have started the same clock — keep the first
+    const { error: insertError } = await supabase
+      .from('t_service_ticket_slas')
+      .upsert(rows, { onConflict: 'ticket_id', ignoreDuplicates: true });
+    if (insertError) throw new Error(`SLA clock start failed: ${insertError.message}`);
+
+    const { data, error } = await supabase
+      .from('t_service_ticket_slas')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .in('ticket_id', rows.map((r) => r.ticket_id));
+    if (error) throw new Error(`SLA clock lookup failed: ${error.message}`);
+    return new Map((data || []).map((row: any) => [row.ticket_id, row as TicketSlaClock]));
+  }
+
+  /** Due instant; a calendar with no working time falls back to elapsed time */
+  private dueAt(calendar: BusinessCalendar, from: Date, minutes: number): Date {
+    return addBusinessMinutes(calendar, from, minutes) || new Date(from.getTime() + minutes * MINUTE_MS);
+  }
+
+  /** Stamp timers the ticket's status has reached; settle when nothing can breach */
+  private async recordProgress(
+    supabase: SupabaseClient,
+    clock: TicketSlaClock,
+    ticket: Record<string, any>
+  ): Promise<TicketSlaClock> {
+    const patch: Record<string, any> = {};
+    const status = String(ticket.status || '');
+    const openedMs = new Date(clock.opened_at).getTime();
+    const fallback = this.validDate(ticket.updated_at) || new Date();
+    const at = (fields: string[]): string => {
+      const stamped = fields.map((f) => this.validDate(ticket[f])).find((d): d is Date => !!d) || fallback;
+      return new Date(Math.max(stamped.getTime(), openedMs)).toISOString();
+    };
+
+    if (status === 'cancelled') {
+      if (!clock.cancelled_at) patch.cancelled_at = at(['cancelled_at']);
+    } else if (status in STATUS_RANK) {
+      for (const timer of TIMERS) {
+        const { rank, reached, ticketFields } = TIMER_COLUMNS[timer];
+        if (STATUS_RANK[status] >= rank && !clock[reached]) patch[reached] = at(ticketFields);
+      }
+    }
+    if (ticket.status && ticket.status !== clock.ticket_status) patch.ticket_status = ticket.status;
+    if (ticket.assigned_to !== undefined && (ticket.assigned_to || null) !== clock.assigned_to) {
+      patch.assigned_to = ticket.assigned_to || null;
+    }
+
+    const next = { ...clock, ...patch } as TicketSlaClock;
+    if (!clock.settled_at && this.decided(next, new Set())) patch.settled_at = new Date().toISOString();
+    if (Object.keys(patch).length === 0) return clock;
+
+    const { data, error } = await supabase
+      .from('t_service_ticket_slas')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', clock.id)
+      .select('*')
+      .single();
+    if (error) throw new Error(`SLA clock update failed: ${error.message}`);
+    return data as TicketSlaClock;
+  }
+
+  /**
+   * True when no timer can still breach un-notified: each is met in time,
+   * has no target, or is in `notified`. A cancelled ticket is decided.
+   */
+  private decided(clock: TicketSlaClock, notified: Set<SlaTimer>): boolean {
+    if (clock.cancelled_at) return true;
+    return TIMERS.every((timer) => {
+      const { due, reached } = TIMER_COLUMNS[timer];
+      if (!clock[due] || notified.has(timer)) return true;
+      const reachedAt = clock[reached];
+      return !!reachedAt && new Date(reachedAt).getTime() <= new Date(clock[due]!).getTime();
+    });
+  }
+
+  /** The timer's state at `now` */
+  private timerState(
+    clock: TicketSlaClock,
+    timer: SlaTimer,
+    calendar: BusinessCalendar,
+    now: Date
+  ): SlaTimerState | null {
+    const { minutes, due, reached } = TIMER_COLUMNS[timer];
+    const target = clock[minutes];
+    const dueAt = clock[due];
+    if (!target || !dueAt) return null;
+
+    const opened = new Date(clock.opened_at);
+    const dueMs = new Date(dueAt).getTime();
+    const reachedAt = clock[reached];
+    const end = reachedAt ? new Date(reachedAt) : clock.cancelled_at ? new Date(clock.cancelled_at) : now;
+    const elapsed = businessMinutesBetween(calendar, opened, end);
+
+    let status: SlaTimerState['status'];
+    if (reachedAt) {
+      status = new Date(reachedAt).getTime() <= dueMs ? SLA_TIMER_STATUSES.MET : SLA_TIMER_STATUSES.BREACHED;
+    } else if (end.getTime() > dueMs) {
+      status = SLA_TIMER_STATUSES.BREACHED;
+    } else if (clock.cancelled_at) {
+      status = SLA_TIMER_STATUSES.STOPPED;
+    } else {
+      status = isBusinessTime(calendar, now) ? SLA_TIMER_STATUSES.RUNNING : SLA_TIMER_STATUSES.PAUSED;
+    }
+
+    return {
+      target_minutes: target,
+      due_at: dueAt,
+      reached_at: reachedAt,
+      status,
+      elapsed_minutes: elapsed,
+      remaining_minutes: target - elapsed,
+    };
+  }
+
+  private computeState(clock: TicketSlaClock, calendar: BusinessCalendar, now: Date): TicketSlaState | null {
+    if (!clock.policy_id && TIMERS.every((timer) => !clock[TIMER_COLUMNS[timer].due])) return null;
+    const clockCalendar = clock.business_hours_only ? calendar : ROUND_THE_CLOCK;
+
+    const timers = {} as Record<SlaTimer, SlaTimerState | null>;
+    for (const timer of TIMERS) timers[timer] = this.timerState(clock, timer, clockCalendar, now);
+
+    return {
+      policy_id: clock.policy_id,
+      criticality: clock.criticality,
+      business_hours_only: clock.business_hours_only,
+      opened_at: clock.opened_at,
+      timers,
+      breached: TIMERS.some((timer) => timers[timer]?.status === SLA_TIMER_STATUSES.BREACHED),
+      computed_at: now.toISOString(),
+    };
+  }
+
+  /** Contract policy, else a policy of one of the ticket's blocks, else the tenant default */
+  private async resolvePolicy(
+    supabase: SupabaseClient,
+    ctx: SlaContext,
+    contractId: string | null,
+    blockIds: string[]
+  ): Promise<SlaPolicy | null> {
+    const scopes = ['and(contract_id.is.null,block_id.is.null)'];
+    if (contractId && UUID_PATTERN.test(contractId)) scopes.push(`contract_id.eq.${contractId}`);
+    const blocks = blockIds.filter((id) => UUID_PATTERN.test(id));
+    if (blocks.length > 0) scopes.push(`block_id.in.(${blocks.join(',')})`);
+
+    const { data, error } = await supabase
+      .from('t_sla_policies')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('is_live', ctx.isLive)
+      .eq('is_active', true)
+      .or(scopes.join(','))
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`SLA policy lookup failed: ${error.message}`);
+
+    const policies = (data || []).map((row: any) => this.toPolicy(row));
+    return policies.find((p) => contractId && p.contract_id === contractId)
+      || policies.find((p) => p.block_id && blocks.includes(p.block_id))
+      || policies.find((p) => !p.contract_id && !p.block_id)
+      || null;
+  }
+
+  private async resolveCriticality(
+    ctx: SlaContext,
+    ticket: Record<string, any>,
+    hints: SlaTicketHints,
+    cache: Map<string, AssetCriticality | null>
+  ): Promise<AssetCriticality> {
+    const given = hints.criticality || ticket.criticality;
+    if (SLA_CRITICALITIES.includes(given)) return given;
+
+    const contractId = ticket.contract_id ? String(ticket.contract_id) : null;
+    if (!contractId || !ctx.authToken) return DEFAULT_SLA_CRITICALITY;
+
+    const assetId = hints.asset_id || ticket.asset_id || null;
+    const key = `${contractId}:${assetId || '*'}`;
+    if (!cache.has(key)) cache.set(key, await this.assetCriticality(ctx, contractId, assetId));
+    return cache.get(key) || DEFAULT_SLA_CRITICALITY;
+  }
+
+  /** The asset's criticality, or the most critical asset the contract covers */
+  private async assetCriticality(
+    ctx: SlaContext,
+    contractId: string,
+    assetId: string | null
+  ): Promise<AssetCriticality | null> {
+    try {
+      const result = await clientAssetRegistryService.getContractAssets(ctx.authToken!, ctx.tenantId, contractId);
+      const links: any[] = Array.isArray(result) ? result : Array.isArray(result?.data) ? result.data : [];
+      const assets = links
+        .filter((link) => link && link.is_active !== false)
+        .map((link) => ({ id: link.asset_id || link.asset?.id, criticality: link.asset?.criticality || link.criticality }))
+        .filter((a) => SLA_CRITICALITIES.includes(a.criticality));
+
+      const own = assetId ? assets.find((a) => a.id === assetId) : undefined;
+      if (own) return own.criticality;
+      if (assets.length === 0) return null;
+      return assets.reduce((top, a) => (CRITICALITY_RANK[a.criticality as AssetCriticality] > CRITICALITY_RANK[top] ? a.criticality : top),
+        assets[0].criticality as AssetCriticality);
+    } catch (error: any) {
+      // Reported by the registry client; the ticket gets the default
+      console.warn('[ServiceSlaService] contract asset lookup failed:', error?.message);
+      return null;
+    }
+  }
+
+  private ticketEventIds(ticket: Record<string, any>): string[] {
+    const ids: unknown[] = Array.isArray(ticket.event_ids)
+      ? ticket.event_ids
+      : Array.isArray(ticket.events) ? ticket.events.map((e: any) => e?.event_id || e?.id) : [];
+    return ids.map((id) => String(id || '')).filter((id) => UUID_PATTERN.test(id));
+  }
+
+  /** Event id → block id, for the events the tickets were raised for */
+  private async eventBlocks(
+    supabase: SupabaseClient,
+    tenantId: string,
+    tickets: Record<string, any>[]
+  ): Promise<Map<string, string>> {
+    const blocks = new Map<string, string>();
+    const eventIds = Array.from(new Set(tickets.flatMap((t) => this.ticketEventIds(t))));
+    if (eventIds.length === 0) return blocks;
+
+    const { data, error } = await supabase
+      .from('t_contract_events')
+      .select('id, block_id')
+      .eq('tenant_id', tenantId)
+      .in('id', eventIds);
+    if (error) throw new Error(`event block lookup failed: ${error.message}`);
+    for (const e of data || []) if (e.block_id) blocks.set(e.id, e.block_id);
+    return blocks;
+  }
+
+  /**
+   * The tenant's working time. Lookups that fail fall back to the whole day
+   * with no days off — the clock then runs rather than stalls.
+   */
+  private async businessCalendar(tenantId: string): Promise<BusinessCalendar> {
+    const [calendar, hours, timeZone] = await Promise.all([
+      cadenceSettingsService.getWorkingCalendar(tenantId),
+      cadenceSettingsService.getWorkingHours(tenantId),
+      tenantTimeZoneService.getTimeZone(tenantId),
+    ]);
+    if (!calendar.success) console.warn('[ServiceSlaService] cadence settings lookup failed:', calendar.error?.message);
+    if (!hours.success) console.warn('[ServiceSlaService] working hours lookup failed:', hours.error?.message);
+
+    const minutes = (hhmm: string | undefined, fallback: number) => {
+      const match = /^(\d{2}):(\d{2})/.exec(hhmm || '');
+      return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+    };
+    return {
+      timeZone,
+      weeklyHolidays: calendar.data?.weeklyHolidays || [],
+      holidays: calendar.data?.holidays || [],
+      dayStartMinute: minutes(hours.data?.day_start, 0),
+      dayEndMinute: minutes(hours.data?.day_end, 24 * 60),
+    };
+  }
+
+  private validDate(value: unknown): Date | null {
+    if (!value) return null;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // ==========================================================
+  // COMPLIANCE
+  // ==========================================================
+
+  /**
+   * Met / breached counts per timer for tickets opened in [dateFrom, dateTo]
+   * (calendar dates, inclusive), overall and by criticality.
+   */
+  async getCompliance(
+    tenantId: string,
+    isLive: boolean,
+    filters: { date_from: string; date_to: string; contract_id?: string }
+  ): Promise<ServiceSlaResult<SlaComplianceReport>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const fromIso = new Date(`${filters.date_from}T00:00:00Z`).toISOString();
+    const toIso = new Date(new Date(`${filters.date_to}T00:00:00Z`).getTime() + DAY_MS).toISOString();
+
+    const clocks: TicketSlaClock[] = [];
+    for (let offset = 0; offset < COMPLIANCE_MAX_ROWS; offset += COMPLIANCE_PAGE_SIZE) {
+      let query = supabase
+        .from('t_service_ticket_slas')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .eq('is_live', isLive)
+        .gte('opened_at', fromIso)
+        .lt('opened_at', toIso)
+        .order('opened_at', { ascending: true })
+        .range(offset, offset + COMPLIANCE_PAGE_SIZE - 1);
+      if (filters.contract_id) query = query.eq('contract_id', filters.contract_id);
+
+      const { data, error } = await query;
+      if (error) return this.fail('DATABASE_ERROR', error.message);
+      clocks.push(...((data || []) as TicketSlaClock[]));
+      if (!data || data.length < COMPLIANCE_PAGE_SIZE) break;
+    }
+
+    const empty = (): Record<SlaTimer, SlaComplianceCounts> => ({
+      response: this.emptyCounts(),
+      onsite: this.emptyCounts(),
+      resolution: this.emptyCounts(),
+    });
+    const report: SlaComplianceReport = {
+      date_from: filters.date_from,
+      date_to: filters.date_to,
+      contract_id: filters.contract_id || null,
+      tickets: 0,
+      timers: empty(),
+      by_criticality: {},
+    };
+
+    const now = Date.now();
+    for (const clock of clocks) {
+      let counted = false;
+      for (const timer of TIMERS) {
+        const outcome = this.outcome(clock, timer, now);
+        if (!outcome) continue;
+        counted = true;
+        const byCriticality = report.by_criticality[clock.criticality] || (report.by_criticality[clock.criticality] = empty());
+        for (const counts of [report.timers[timer], byCriticality[timer]]) {
+          counts.total++;
+          counts[outcome]++;
+        }
+      }
+      if (counted) report.tickets++;
+    }
+
+    const finish = (counts: SlaComplianceCounts) => {
+      const decided = counts.met + counts.breached;
+      counts.compliance_rate = decided > 0 ? Math.round((counts.met / decided) * 10000) / 100 : null;
+    };
+    TIMERS.forEach((timer) => finish(report.timers[timer]));
+    Object.values(report.by_criticality).forEach((timers) => TIMERS.forEach((timer) => finish(timers![timer])));
+
+    return { success: true, data: report };
+  }
+
+  private emptyCounts(): SlaComplianceCounts {
+    return { total: 0, met: 0, breached: 0, pending: 0, stopped: 0, compliance_rate: null };
+  }
+
+  private outcome(clock: TicketSlaClock, timer: SlaTimer, now: number): 'met' | 'breached' | 'pending' | 'stopped' | null {
+    const { due, reached } = TIMER_COLUMNS[timer];
+    if (!clock[due]) return null;
+    const dueMs = new Date(clock[due]!).getTime();
+    const reachedAt = clock[reached];
+    if (reachedAt) return new Date(reachedAt).getTime() <= dueMs ? 'met' : 'breached';
+    const end = clock.cancelled_at ? new Date(clock.cancelled_at).getTime() : now;
+    if (end > dueMs) return 'breached';
+    return clock.cancelled_at ? 'stopped' : 'pending';
+  }
+
+  // ==========================================================
+  // SCHEDULER
+  // ==========================================================
+
+  /** Start the periodic breach sweep (SLA_SWEEP_INTERVAL_MS, default 5 min) */
+  start(intervalMs: number = Number(process.env.SLA_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    if (!this.client()) {
+      console.warn('[ServiceSlaSweeper] Supabase is not configured — sweeper not started');
+      return;
+    }
+
+    const run = () => {
+      if (this.sweeping) return; // previous sweep still running
+      this.sweeping = true;
+      this.sweep()
+        .then((result) => {
+          if (!result.success) {
+            console.error('[ServiceSlaSweeper] sweep failed:', result.error?.message);
+          } else if (result.data && (TIMERS.some((t) => result.data!.breaches[t] > 0) || result.data.notification_failures > 0)) {
+            console.log('[ServiceSlaSweeper] sweep:', JSON.stringify(result.data));
+          }
+        })
+        .finally(() => { this.sweeping = false; });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    // Never keep the process alive just for the sweeper
+    this.timer.unref();
+    run();
+    console.log(`✅ Service SLA sweeper started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================================
+  // SWEEP
+  // ==========================================================
+
+  /**
+   * One sweep over all tenants, or only `tenantId`. Before a breach is
+   * raised the ticket is re-read from the edge, so a ticket moved on outside
+   * this API is not reported for a timer it already reached.
+   */
+  async sweep(options: { tenantId?: string; now?: Date } = {}): Promise<ServiceSlaResult<SlaSweepResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    const now = options.now || new Date();
+    const nowIso = now.toISOString();
+    const result: SlaSweepResult = {
+      breaches: { response: 0, onsite: 0, resolution: 0 },
+      notification_failures: 0,
+      tenants: 0,
+    };
+
+    try {
+      const tenants = new Set<string>();
+      let before: string | null = null;
+      for (let page = 0; page < MAX_SWEEP_PAGES; page++) {
+        let query = supabase
+          .from('t_service_ticket_slas')
+          .select('*')
+          .is('settled_at', null)
+          .gte('opened_at', new Date(now.getTime() - SWEEP_LOOKBACK_DAYS * DAY_MS).toISOString())
+          .or(`response_due_at.lt.${nowIso},onsite_due_at.lt.${nowIso},resolution_due_at.lt.${nowIso}`)
+          .order('opened_at', { ascending: false })
+          .limit(BATCH_SIZE);
+        if (options.tenantId) query = query.eq('tenant_id', options.tenantId);
+        // Keyset paging: clocks settled by this sweep drop out of the result
+        if (before) query = query.lt('opened_at', before);
+
+        const { data: candidates, error } = await query;
+        if (error) throw new Error(`SLA clock scan failed: ${error.message}`);
+        const clocks = (candidates || []) as TicketSlaClock[];
+        if (clocks.length === 0) break;
+
+        await this.sweepBatch(supabase, clocks, now, result, tenants);
+        if (clocks.length < BATCH_SIZE) break;
+        before = clocks[clocks.length - 1].opened_at;
+      }
+
+      result.tenants = tenants.size;
+      return { success: true, data: result };
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { component: 'ServiceSlaSweeper', action: 'sweep' },
+      });
+      return this.fail('SWEEP_FAILED', error?.message || 'SLA sweep failed');
+    }
+  }
+
+  private async sweepBatch(
+    supabase: SupabaseClient,
+    clocks: TicketSlaClock[],
+    now: Date,
+    result: SlaSweepResult,
+    tenants: Set<string>
+  ): Promise<void> {
+    const nowIso = now.toISOString();
+    const { data: existing, error } = await supabase
+      .from('t_service_ticket_sla_breaches')
+      .select('ticket_id, timer')
+      .in('ticket_id', clocks.map((c) => c.ticket_id));
+    if (error) throw new Error(`SLA breach lookup failed: ${error.message}`);
+    const notified = new Map<string, Set<SlaTimer>>();
+    for (const row of existing || []) {
+      if (!notified.has(row.ticket_id)) notified.set(row.ticket_id, new Set());
+      notified.get(row.ticket_id)!.add(row.timer as SlaTimer);
+    }
+
+    const policyIds = Array.from(new Set(clocks.map((c) => c.policy_id).filter((id): id is string => !!id)));
+    const recipientsByPolicy = await this.policyRecipients(supabase, policyIds);
+    const contractNumbers = await this.contractNumbers(supabase, Array.from(new Set(
+      clocks.map((c) => c.contract_id).filter((id): id is string => !!id)
+    )));
+
+    for (let clock of clocks) {
+      const done = notified.get(clock.ticket_id) || new Set<SlaTimer>();
+      if (this.breachedTimers(clock, done, now).length > 0) clock = await this.refresh(supabase, clock);
+
+      for (const timer of this.breachedTimers(clock, done, now)) {
+        const recipients = Array.from(new Set([
+          ...(clock.policy_id ? recipientsByPolicy.get(clock.policy_id) || [] : []),
+          ...(clock.assigned_to ? [clock.assigned_to] : []),
+        ]));
+        const sent = await this.raise(supabase, clock, timer, recipients, contractNumbers.get(clock.contract_id || '') || null);
+        if (sent === null) {
+          done.add(timer); // claimed by a concurrent sweep
+          continue;
+        }
+        if (sent) {
+          done.add(timer);
+          result.breaches[timer]++;
+          tenants.add(clock.tenant_id);
+        } else {
+          result.notification_failures++;
+        }
+      }
+
+      if (this.decided(clock, done)) {
+        await supabase
+          .from('t_service_ticket_slas')
+          .update({ settled_at: nowIso, updated_at: nowIso })
+          .eq('id', clock.id)
+          .is('settled_at', null);
+      }
+    }
+  }
+
+  /** Timers past due, not reached in time and not yet notified */
+  private breachedTimers(clock: TicketSlaClock, notified: Set<SlaTimer>, now: Date): SlaTimer[] {
+    if (clock.cancelled_at) return [];
+    return TIMERS.filter((timer) => {
+      if (notified.has(timer)) return false;
+      return this.outcome(clock, timer, now.getTime()) === 'breached';
+    });
+  }
+
+  /**
+   * Re-read the ticket and record its progress. When the edge cannot be
+   * reached the stored clock is used — a late notification beats none.
+   */
+  private async refresh(supabase: SupabaseClient, clock: TicketSlaClock): Promise<TicketSlaClock> {
+    try {
+      const result = await this.executionService().getTicketDetail(
+        clock.ticket_id,
+        process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+        clock.tenant_id,
+        clock.is_live ? 'live' : 'test'
+      );
+      if (result?.success) {
+        const ticket = result.data?.ticket ?? result.data;
+        if (ticket) return await this.recordProgress(supabase, clock, { ...ticket, id: clock.ticket_id });
+      } else if (result?.code === 'NOT_FOUND') {
+        // Ticket gone — stop the clock
+        return await this.recordProgress(supabase, clock, { id: clock.ticket_id, status: 'cancelled' });
+      } else {
+        console.warn(`[ServiceSlaSweeper] ticket ${clock.ticket_id} refresh failed:`, result?.error);
+      }
+    } catch (error: any) {
+      console.warn(`[ServiceSlaSweeper] ticket ${clock.ticket_id} refresh failed:`, error?.message);
+    }
+    return clock;
+  }
+
+  /**
+   * Claim the (ticket, timer), then raise one JTD per recipient (one
+   * tenant-level JTD when nobody is named). Returns null when another sweep
+   * holds the claim, false when every JTD failed (claim released for a retry).
+   */
+  private async raise(
+    supabase: SupabaseClient,
+    clock: TicketSlaClock,
+    timer: SlaTimer,
+    recipients: string[],
+    contractNumber: string | null
+  ): Promise<boolean | null> {
+    const { due, minutes, reached } = TIMER_COLUMNS[timer];
+    const { data: claim, error: claimError } = await supabase
+      .from('t_service_ticket_sla_breaches')
+      .insert({
+        tenant_id: clock.tenant_id,
+        ticket_sla_id: clock.id,
+        ticket_id: clock.ticket_id,
+        timer,
+        due_at: clock[due],
+        recipient_user_ids: recipients,
+      })
+      .select('id')
+      .single();
+    if (claimError) {
+      if (claimError.code === '23505') return null;
+      throw new Error(`SLA breach claim failed: ${claimError.message}`);
+    }
+
+    const jtdIds: string[] = [];
+    for (const recipient of recipients.length > 0 ? recipients : [null]) {
+      try {
+        const jtd = await jtdService.createEvent({
+          customer_code: 'internal_contractnest',
+          external_event_id: `sla_${clock.ticket_id}_${timer}_${recipient || 'tenant'}`,
+          external_tenant_id: clock.tenant_id,
+          ...(recipient ? { external_user_id: recipient } : {}),
+          event_type: JTD_EVENT_TYPE,
+          payload: {
+            tenant_id: clock.tenant_id,
+            recipient_user_id: recipient,
+            ticket_id: clock.ticket_id,
+            ticket_number: clock.ticket_number,
+            ticket_status: clock.ticket_status,
+            contract_id: clock.contract_id,
+            contract_number: contractNumber,
+            policy_id: clock.policy_id,
+            criticality: clock.criticality,
+            timer,
+            target_minutes: clock[minutes],
+            business_hours_only: clock.business_hours_only,
+            opened_at: clock.opened_at,
+            due_at: clock[due],
+            reached_at: clock[reached],
+            assigned_to: clock.assigned_to,
+            is_live: clock.is_live,
+          },
+        });
+        if (jtd?.id) jtdIds.push(String(jtd.id));
+      } catch (error: any) {
+        // jtdService already reports to Sentry
+        console.error(`[ServiceSlaSweeper] JTD ${timer} breach for ticket ${clock.ticket_id} → ${recipient || 'tenant'} failed:`, error?.message);
+      }
+    }
+
+    if (jtdIds.length === 0) {
+      await supabase.from('t_service_ticket_sla_breaches').delete().eq('id', claim.id);
+      return false;
+    }
+
+    await supabase
+      .from('t_service_ticket_sla_breaches')
+      .update({ jtd_event_ids: jtdIds })
+      .eq('id', claim.id);
+    return true;
+  }
+
+  private async policyRecipients(supabase: SupabaseClient, ids: string[]): Promise<Map<string, string[]>> {
+    const recipients = new Map<string, string[]>();
+    if (ids.length === 0) return recipients;
+    const { data, error } = await supabase
+      .from('t_sla_policies')
+      .select('id, notify_user_ids')
+      .in('id', ids);
+    if (error) throw new Error(`SLA policy lookup failed: ${error.message}`);
+    for (const p of data || []) recipients.set(p.id, Array.isArray(p.notify_user_ids) ? p.notify_user_ids : []);
+    return recipients;
+  }
+
+  private async contractNumbers(supabase: SupabaseClient, ids: string[]): Promise<Map<string, string>> {
+    const numbers = new Map<string, string>();
+    if (ids.length === 0) return numbers;
+    const { data, error } = await supabase
+      .from('t_contracts')
+      .select('id, contract_number')
+      .in('id', ids);
+    // Cosmetic in the notification — send without it rather than not at all
+    if (error) {
+      console.warn('[ServiceSlaSweeper] contract number lookup failed:', error.message);
+      return numbers;
+    }
+    for (const c of data || []) if (c.contract_number) numbers.set(c.id, c.contract_number);
+    return numbers;
+  }
+}
+
+export const serviceSlaService = new ServiceSlaService();
+export default serviceSlaService;
@@ -0,0 +1,410 @@
+// ============================================================================
+// Storage Media Service — thumbnails, PDF previews, photo location stripping
+// ============================================================================
+// Files stored in contact_photos, contract_media and service_images (service
+// evidence photos) are processed as they land in storage:
+//   - JPEG / PNG originals lose their EXIF GPS block and XMP packet before
+//     they are written — a technician's photo should not publish where the
+//     customer lives (a walk over the metadata segments, no decoding)
+//   - JPEG thumbnails at fixed sizes (small 160px, medium 480px on the long
+//     side, turned upright per the EXIF orientation), stored under
+//     <category>/derivatives/<file>/
+//   - PDFs get a first-page preview (1024px) and the same thumbnails, drawn by
+//     pdftoppm when STORAGE_PDF_RENDERER points at it (none without it)
+// Decoding, scaling and encoding run in one worker thread
+// (storageMediaWorker.ts), one file at a time, so a large photo never blocks
+// the event loop and concurrent uploads cannot pile rasters up in memory.
+// What was produced goes into StorageFile.metadata.derivatives, so list views
+// (ticket evidence, contact cards) fetch a few KB instead of the original.
+// Derivatives never fail an upload: whatever could not be made is `skipped`.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { Worker } from 'worker_threads';
+import { captureException } from '../utils/sentry';
+import { stripJpegLocation, JpegError } from '../utils/jpeg';
+import { stripPngLocation, PngError } from '../utils/png';
+import { MediaJob, MediaOutput, MediaWorkerRequest, MediaWorkerResponse } from './storageMediaWorker';
+import {
+  StorageDerivative,
+  StorageDerivatives,
+  StorageProvider,
+  ThumbnailSize
+} from '../types/storage';
+
+const execFileAsync = promisify(execFile);
+
+/** Categories whose files get derivatives */
+export const DERIVATIVE_CATEGORIES = ['contact_photos', 'contract_media', 'service_images'];
+
+/** Long side of each thumbnail in pixels — never larger than the source */
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 160,
+  medium: 480
+};
+
+const PREVIEW_SIZE = 1024;
+const JPEG_QUALITY = 80;
+const RENDER_TIMEOUT_MS = 30000;
+const WORKER_TIMEOUT_MS = 30000;
+
+const MIME_JPEG = 'image/jpeg';
+const MIME_PNG = 'image/png';
+const MIME_PDF = 'application/pdf';
+
+// Compiled: storageMediaWorker.js next to this file. Under ts-node (npm run
+// dev) the thread has to register ts-node itself to load the .ts source.
+const WORKER_FILE = path.join(__dirname, `storageMediaWorker${path.extname(__filename)}`);
+const WORKER_EXEC_ARGV = path.extname(__filename) === '.ts'
+  ? ['--require', 'ts-node/register/transpile-only']
+  : undefined;
+
+const derivativesEnabled = (): boolean => process.env.STORAGE_MEDIA_DERIVATIVES !== 'false';
+
+const maxSourceBytes = (): number =>
+  Number(process.env.STORAGE_DERIVATIVE_MAX_MB || 50) * 1024 * 1024;
+
+// 24 MP covers phone and camera photos; the decoded RGB raster is at most
+// ~72 MB, and 1/8-scale DC decoding keeps most photos far below that
+const maxPixels = (): number =>
+  Number(process.env.STORAGE_DERIVATIVE_MAX_MEGAPIXELS || 24) * 1000000;
+
+/** A job waiting for, or running in, the worker */
+interface QueuedJob {
+  job: MediaJob;
+  resolve: (outputs: MediaOutput[]) => void;
+  reject: (error: Error) => void;
+}
+
+export class StorageMediaService {
+  private worker: Worker | null = null;
+  private queue: QueuedJob[] = [];
+  private active: (QueuedJob & { id: number; timer: NodeJS.Timeout }) | null = null;
+  private nextJobId = 1;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  /** Whether files of this category and type get derivatives */
+  handles(category: string, mimeType: string): boolean {
+    return derivativesEnabled() &&
+      DERIVATIVE_CATEGORIES.includes(category) &&
+      [MIME_JPEG, MIME_PNG, MIME_PDF].includes(mimeType);
+  }
+
+  /**
+   * Strip location metadata from a photo. Other types — and files that do not
+   * parse as what they claim to be — pass through unchanged.
+   */
+  sanitize(buffer: Buffer, mimeType: string): { buffer: Buffer; locationRemoved: boolean } {
+    try {
+      const stripped = mimeType === MIME_JPEG
+        ? stripJpegLocation(buffer)
+        : mimeType === MIME_PNG ? stripPngLocation(buffer) : null;
+      if (stripped) return { buffer: stripped.buffer, locationRemoved: stripped.removed };
+    } catch (error) {
+      if (!(error instanceof JpegError || error instanceof PngError)) throw error;
+    }
+    return { buffer, locationRemoved: false };
+  }
+
+  /**
+   * Make and store the derivatives of an original already written at
+   * `filePath` (bytes as stored, i.e. after sanitize). Never throws.
+   */
+  async generate(
+    provider: StorageProvider,
+    filePath: string,
+    buffer: Buffer,
+    mimeType: string,
+    locationRemoved: boolean
+  ): Promise<StorageDerivatives> {
+    const derivatives: StorageDerivatives = {
+      generated_at: new Date().toISOString(),
+      location_removed: locationRemoved,
+      thumbnails: {}
+    };
+    if (buffer.length > maxSourceBytes()) {
+      derivatives.skipped = 'File is too large to process';
+      return derivatives;
+    }
+
+    try {
+      let image = buffer;
+      const outputs: MediaJob['outputs'] = [];
+      if (mimeType === MIME_PDF) {
+        const renderer = process.env.STORAGE_PDF_RENDERER;
+        if (!renderer) {
+          derivatives.skipped = 'No PDF renderer is configured';
+          return derivatives;
+        }
+        try {
+          image = await this.render(renderer, buffer);
+        } catch (error: any) {
+          console.error('[StorageMediaService] PDF renderer failed:', error.message);
+          derivatives.skipped = 'Could not render the first page';
+          return derivatives;
+        }
+        outputs.push({ name: 'preview', size: PREVIEW_SIZE });
+      }
+      for (const [name, size] of Object.entries(THUMBNAIL_SIZES)) {
+        outputs.push({ name, size });
+      }
+
+      const rendered = await this.process({
+        buffer: image,
+        mimeType: mimeType === MIME_PDF ? MIME_JPEG : mimeType,
+        outputs,
+        maxPixels: maxPixels(),
+        quality: JPEG_QUALITY
+      });
+      for (const output of rendered) {
+        const derivative = await this.store(provider, filePath, output);
+        if (output.name === 'preview') {
+          derivatives.preview = { ...derivative, page: 1, source: 'renderer' };
+        } else {
+          derivatives.thumbnails[output.name as ThumbnailSize] = derivative;
+        }
+      }
+    } catch (error: any) {
+      derivatives.skipped = error.message || 'Could not generate derivatives';
+      if (!(error instanceof JpegError || error instanceof PngError)) {
+        captureException(error instanceof Error ? error : new Error(String(error)), {
+          tags: { source: 'storage_media_service', action: 'generate' },
+          filePath
+        });
+      }
+    }
+
+    return derivatives;
+  }
+
+  /**
+   * Sanitize + derivatives for an object assembled in storage by a direct /
+   * chunked upload: read back, rewritten only when location data was found.
+   * Returns the derivatives and the stored size. Never throws.
+   */
+  async processStoredObject(
+    provider: StorageProvider,
+    filePath: string,
+    mimeType: string,
+    fileSize: number
+  ): Promise<{ derivatives: StorageDerivatives; fileSize: number }> {
+    if (fileSize > maxSourceBytes()) {
+      return {
+        derivatives: {
+          generated_at: new Date().toISOString(),
+          location_removed: false,
+          thumbnails: {},
+          skipped: 'File is too large to process'
+        },
+        fileSize
+      };
+    }
+
+    try {
+      const object = await provider.getObject(filePath);
+      if (!object) throw new Error('Stored object not found');
+      const { buffer, locationRemoved } = this.sanitize(object.body, mimeType);
+      if (locationRemoved) {
+        await provider.putObject(filePath, buffer, { contentType: mimeType, metadata: object.metadata });
+      }
+      return {
+        derivatives: await this.generate(provider, filePath, buffer, mimeType, locationRemoved),
+        fileSize: buffer.length
+      };
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { source: 'storage_media_service', action: 'processStoredObject' },
+        filePath
+      });
+      return {
+        derivatives: {
+          generated_at: new Date().toISOString(),
+          location_removed: false,
+          thumbnails: {},
+          skipped: error.message || 'Could not read the stored file'
+        },
+        fileSize
+      };
+    }
+  }
+
+  /** Object paths of the derivatives recorded in a file's metadata */
+  derivativePaths(metadata?: Record<string, any> | null): string[] {
+    const derivatives = metadata?.derivatives as StorageDerivatives | undefined;
+    if (!derivatives) return [];
+    return [
+      ...Object.values(derivatives.thumbnails || {}),
+      ...(derivatives.preview ? [derivatives.preview] : [])
+    ]
+      .map(derivative => derivative?.path)
+      .filter((derivativePath): derivativePath is string => !!derivativePath);
+  }
+
+  /**
+   * Add `file_thumbnails` ({ small, medium } URLs) to evidence items whose
+   * file_url is a stored file with thumbnails. Items without a match — or
+   * every item, if the lookup fails — are returned unchanged.
+   */
+  async withThumbnails<T extends { file_url?: string | null }>(
+    tenantId: string,
+    items: T[]
+  ): Promise<Array<T & { file_thumbnails?: Partial<Record<ThumbnailSize, string>> }>> {
+    const urls = Array.from(new Set(items.map(item => item.file_url).filter((url): url is string => !!url)));
+    const supabase = this.client();
+    if (urls.length === 0 || !supabase) return items;
+
+    const { data, error } = await supabase
+      .from('t_tenant_files')
+      .select('download_url, metadata')
+      .eq('tenant_id', tenantId)
+      .in('download_url', urls);
+    if (error || !data) {
+      console.error('[StorageMediaService] Thumbnail lookup failed:', error?.message);
+      return items;
+    }
+
+    const thumbnailsByUrl = new Map<string, Partial<Record<ThumbnailSize, string>>>();
+    for (const row of data as Array<{ download_url: string; metadata: Record<string, any> | null }>) {
+      const thumbnails = (row.metadata?.derivatives as StorageDerivatives | undefined)?.thumbnails;
+      if (!thumbnails) continue;
+      const urlsBySize: Partial<Record<ThumbnailSize, string>> = {};
+      (Object.keys(thumbnails) as ThumbnailSize[]).forEach(size => {
+        if (thumbnails[size]?.url) urlsBySize[size] = thumbnails[size]!.url;
+      });
+      thumbnailsByUrl.set(row.download_url, urlsBySize);
+    }
+
+    return items.map(item => {
+      const thumbnails = item.file_url ? thumbnailsByUrl.get(item.file_url) : undefined;
+      return thumbnails ? { ...item, file_thumbnails: thumbnails } : item;
+    });
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Run a job in the worker thread. Jobs go one at a time; the thread is
+   * started on first use and replaced if it dies or a job overruns.
+   */
+  private process(job: MediaJob): Promise<MediaOutput[]> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, resolve, reject });
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    if (this.active || this.queue.length === 0) return;
+    const next = this.queue.shift()!;
+    const id = this.nextJobId++;
+    const timer = setTimeout(() => {
+      this.stopWorker(new Error('Derivative generation timed out'));
+    }, WORKER_TIMEOUT_MS);
+    this.active = { ...next, id, timer };
+    try {
+      this.startWorker().postMessage({ id, job: next.job } as MediaWorkerRequest);
+    } catch (error: any) {
+      this.stopWorker(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private startWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV });
+    // An idle worker must not keep the process alive
+    worker.unref();
+    worker.on('message', (response: MediaWorkerResponse) => {
+      const active = this.active;
+      if (worker !== this.worker || !active || active.id !== response.id) return;
+      clearTimeout(active.timer);
+      this.active = null;
+      if ('error' in response) {
+        active.reject(this.workerError(response.error));
+      } else {
+        active.resolve(response.outputs);
+      }
+      this.pump();
+    });
+    worker.on('error', error => {
+      if (worker === this.worker) this.stopWorker(error);
+    });
+    worker.on('exit', code => {
+      if (worker === this.worker) this.stopWorker(new Error(`Media worker exited with code ${code}`));
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  /** Fail the running job and drop the thread; queued jobs get a new one */
+  private stopWorker(error: Error): void {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) worker.terminate().catch(() => undefined);
+    const active = this.active;
+    this.active = null;
+    if (active) {
+      clearTimeout(active.timer);
+      active.reject(error);
+    }
+    this.pump();
+  }
+
+  /** Codec failures keep their class, so generate() can tell them apart */
+  private workerError({ name, message }: { name: string; message: string }): Error {
+    if (name === 'JpegError') return new JpegError(message);
+    if (name === 'PngError') return new PngError(message);
+    const error = new Error(message);
+    error.name = name;
+    return error;
+  }
+
+  /** pdftoppm page 1 → JPEG of at most PREVIEW_SIZE on the long side */
+  private async render(renderer: string, buffer: Buffer): Promise<Buffer> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-preview-'));
+    try {
+      const input = path.join(dir, 'source.pdf');
+      await fs.writeFile(input, buffer);
+      await execFileAsync(renderer, [
+        '-f', '1', '-l', '1', '-singlefile', '-jpeg',
+        '-scale-to', String(PREVIEW_SIZE),
+        input, path.join(dir, 'page')
+      ], { timeout: RENDER_TIMEOUT_MS });
+      return await fs.readFile(path.join(dir, 'page.jpg'));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /** Store one encoded derivative next to the original */
+  private async store(provider: StorageProvider, filePath: string, output: MediaOutput): Promise<StorageDerivative> {
+    const body = Buffer.from(output.body.buffer, output.body.byteOffset, output.body.byteLength);
+    const derivativePath = this.derivativePath(filePath, output.name);
+    const { url } = await provider.putObject(derivativePath, body, { contentType: MIME_JPEG });
+    return { path: derivativePath, url, width: output.width, height: output.height, size: body.length };
+  }
+
+  /** <dir>/<id>_<name>.jpg → <dir>/derivatives/<id>_<name>/<derivative>.jpg */
+  private derivativePath(filePath: string, name: string): string {
+    const slash = filePath.lastIndexOf('/');
+    const dir = filePath.substring(0, slash);
+    const base = filePath.substring(slash + 1).replace(/\.[^.]*$/, '');
+    return `${dir}/derivatives/${base}/${name}.jpg`;
+  }
+}
+
+export const storageMediaService = new StorageMediaService();
+export default storageMediaService;
@@ -0,0 +1,76 @@
+// ============================================================================
+// Storage Media Worker — decoding, scaling and encoding off the event loop
+// ============================================================================
+// storageMediaService runs this file in a worker thread: a 12 MP photo takes
+// the best part of a second to decode and scale, which must not stall every
+// other request on the API. The service keeps the I/O (reading and storing
+// objects, running the PDF renderer); this side only turns one JPEG / PNG
+// into the JPEG derivatives asked for. renderDerivatives is exported so it
+// can be exercised without a thread.
+// ============================================================================
+
+import { isMainThread, parentPort } from 'worker_threads';
+import { decodeJpeg, encodeJpeg, readJpegInfo } from '../utils/jpeg';
+import { decodePng } from '../utils/png';
+import { Raster, fitWithin, orientRaster, resizeRaster } from '../utils/raster';
+
+export interface MediaJob {
+  /** The source image, a JPEG or PNG */
+  buffer: Uint8Array;
+  mimeType: string;
+  /** Derivatives to make: name and long side in pixels */
+  outputs: Array<{ name: string; size: number }>;
+  maxPixels: number;
+  quality: number;
+}
+
+export interface MediaOutput {
+  name: string;
+  body: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** Worker message: the job, or its result / failure, keyed by id */
+export type MediaWorkerRequest = { id: number; job: MediaJob };
+export type MediaWorkerResponse =
+  | { id: number; outputs: MediaOutput[] }
+  | { id: number; error: { name: string; message: string } };
+
+/** Decode once (only as much as the largest output needs), then scale, turn upright and encode each output */
+export function renderDerivatives(job: MediaJob): MediaOutput[] {
+  const buffer = Buffer.from(job.buffer.buffer, job.buffer.byteOffset, job.buffer.byteLength);
+  const longest = Math.max(...job.outputs.map(output => output.size));
+
+  let raster: Raster;
+  let orientation = 1;
+  if (job.mimeType === 'image/png') {
+    raster = decodePng(buffer, { maxPixels: job.maxPixels });
+  } else {
+    const info = readJpegInfo(buffer);
+    raster = decodeJpeg(buffer, {
+      minSize: Math.min(longest, Math.max(info.width, info.height)),
+      maxPixels: job.maxPixels
+    });
+    orientation = info.orientation;
+  }
+
+  return job.outputs.map(({ name, size }) => {
+    const target = fitWithin(raster.width, raster.height, size);
+    const scaled = orientRaster(resizeRaster(raster, target.width, target.height), orientation);
+    return { name, body: encodeJpeg(scaled, job.quality), width: scaled.width, height: scaled.height };
+  });
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  port.on('message', ({ id, job }: MediaWorkerRequest) => {
+    let response: MediaWorkerResponse;
+    try {
+      response = { id, outputs: renderDerivatives(job) };
+    } catch (error: any) {
+      response = { id, error: { name: error?.name || 'Error', message: error?.message || String(error) } };
+    }
+    port.postMessage(response);
+  });
+}
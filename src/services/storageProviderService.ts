@@ -0,0 +1,483 @@
+// ============================================================================
+// Storage Provider Service — where tenant files physically live
+// ============================================================================
+// storageService and integrationService write through a StorageProvider
+// instead of calling Firebase Storage themselves. The backend comes from the
+// product's storage config (config/products.ts, ${prefix}STORAGE_DRIVER),
+// optionally overridden per tenant (${prefix}STORAGE_TENANT_OVERRIDES) so an
+// on-prem customer's documents never leave their own bucket.
+//
+//   firebase — Firebase Storage (client SDK, anonymous sign-in)
+//   local    — a directory on this server's disk
+//   s3       — any S3-compatible bucket (AWS S3, MinIO, …)
+//
+// Objects that have no URL of their own (local disk, private buckets) are
+// served by GET /api/storage/objects/<path> with an HMAC signature over
+// product, tenant and path. The URLs do not expire: download_url is stored
+// with the file record.
+// ============================================================================
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { initializeApp, FirebaseApp } from 'firebase/app';
+import {
+  getStorage,
+  ref,
+  uploadBytes,
+  getDownloadURL,
+  getBytes,
+  getMetadata,
+  listAll,
+  deleteObject,
+  FirebaseStorage
+} from 'firebase/storage';
+import { getAuth, signInAnonymously, Auth, User, onAuthStateChanged } from 'firebase/auth';
+import { getProduct, getDefaultProduct, StorageConfig, StorageDriver } from '../config/products';
+import { S3Client, encodeRfc3986 } from '../utils/s3Client';
+import {
+  MultipartUploadCapability,
+  StorageProvider,
+  StoredObjectContent,
+  StoredObjectListing
+} from '../types/storage';
+
+// Scope a provider is resolved for — also what signed object URLs cover
+interface StorageScope {
+  productCode: string;
+  tenantId: string;
+}
+
+// Sidecar directory (under the local root) holding content type + metadata
+const LOCAL_META_DIR = '.meta';
+
+// ============================================================================
+// SIGNED OBJECT URLS
+// ============================================================================
+
+const urlSecret = (): string => {
+  const secret = process.env.STORAGE_URL_SECRET || process.env.INTERNAL_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_URL_SECRET is not configured');
+  }
+  return secret;
+};
+
+/** HMAC for URLs the API itself serves (objects, chunked-upload parts) */
+export const storageUrlSignature = (value: string): string =>
+  crypto.createHmac('sha256', urlSecret()).update(value).digest('base64url');
+
+export const isValidStorageUrlSignature = (value: string, signature: string): boolean => {
+  const expected = Buffer.from(storageUrlSignature(value));
+  const given = Buffer.from(signature || '');
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+const objectSignature = (scope: StorageScope, objectPath: string): string =>
+  storageUrlSignature(`${scope.productCode}\n${scope.tenantId}\n${objectPath}`);
+
+const signedObjectUrl = (scope: StorageScope, objectPath: string): string => {
+  const base = (process.env.API_BASE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+  const query = new URLSearchParams({
+    product: scope.productCode,
+    tenant: scope.tenantId,
+    sig: objectSignature(scope, objectPath)
+  });
+  return `${base}/api/storage/objects/${encodeRfc3986(objectPath, true)}?${query}`;
+};
+
+/** Object keys are relative and '/'-separated: no '..', no empty segments */
+const normalizeObjectPath = (objectPath: string): string => {
+  const segments = String(objectPath || '').split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.some(segment => segment === '..' || segment.includes('\\'))) {
+    throw new Error(`Invalid storage path: ${objectPath}`);
+  }
+  return segments.join('/');
+};
+
+// ============================================================================
+// FIREBASE DRIVER
+// ============================================================================
+
+const firebaseConfig = {
+  apiKey: process.env.VITE_FIREBASE_API_KEY,
+  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.VITE_FIREBASE_APP_ID
+};
+
+let firebaseApp: FirebaseApp | null = null;
+let firebaseAuth: Auth | null = null;
+let firebaseStorage: FirebaseStorage | null = null;
+let authInitializationPromise: Promise<User> | null = null;
+
+// Own named app instance (tenantProfileService / utils/firebaseConfig have theirs).
+// Storage rules require a signed-in user, hence the anonymous sign-in.
+const initializeFirebaseStorage = async (): Promise<FirebaseStorage> => {
+  if (!firebaseApp) {
+    firebaseApp = initializeApp(firebaseConfig, 'storage-provider');
+  }
+  if (!firebaseAuth) {
+    firebaseAuth = getAuth(firebaseApp);
+  }
+  if (!firebaseStorage) {
+    firebaseStorage = getStorage(firebaseApp);
+  }
+  if (!authInitializationPromise) {
+    authInitializationPromise = new Promise<User>((resolve, reject) => {
+      const unsubscribe = onAuthStateChanged(firebaseAuth!, (user) => {
+        if (user) {
+          unsubscribe();
+          resolve(user);
+        }
+      });
+      signInAnonymously(firebaseAuth!).catch(reject);
+    });
+  }
+
+  try {
+    await authInitializationPromise;
+  } catch (error) {
+    authInitializationPromise = null;
+    throw error;
+  }
+  return firebaseStorage;
+};
+
+class FirebaseStorageProvider implements StorageProvider {
+  readonly driver: StorageDriver = 'firebase';
+
+  async putObject(objectPath: string, body: Buffer, options: { contentType: string; metadata?: Record<string, string> }) {
+    const storage = await initializeFirebaseStorage();
+    const key = normalizeObjectPath(objectPath);
+    const storageRef = ref(storage, key);
+    await uploadBytes(storageRef, body, { contentType: options.contentType, customMetadata: options.metadata });
+    return { path: key, url: await getDownloadURL(storageRef) };
+  }
+
+  async getObject(objectPath: string): Promise<StoredObjectContent | null> {
+    const storage = await initializeFirebaseStorage();
+    const storageRef = ref(storage, normalizeObjectPath(objectPath));
+    try {
+      const [bytes, meta] = await Promise.all([getBytes(storageRef), getMetadata(storageRef)]);
+      return {
+        body: Buffer.from(bytes),
+        contentType: meta.contentType || 'application/octet-stream',
+        metadata: meta.customMetadata || {}
+      };
+    } catch (error: any) {
+      if (error?.code === 'storage/object-not-found') return null;
+      throw error;
+    }
+  }
+
+  async deleteObject(objectPath: string): Promise<void> {
+    const storage = await initializeFirebaseStorage();
+    try {
+      await deleteObject(ref(storage, normalizeObjectPath(objectPath)));
+    } catch (error: any) {
+      if (error?.code !== 'storage/object-not-found') throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObjectListing> {
+    const storage = await initializeFirebaseStorage();
+    const result = await listAll(ref(storage, normalizeObjectPath(prefix)));
+    return {
+      files: result.items.map(item => ({ name: item.name, fullPath: item.fullPath })),
+      directories: result.prefixes.map(prefixRef => ({ name: prefixRef.name, fullPath: prefixRef.fullPath }))
+    };
+  }
+
+  async getUrl(objectPath: string): Promise<string> {
+    const storage = await initializeFirebaseStorage();
+    return getDownloadURL(ref(storage, normalizeObjectPath(objectPath)));
+  }
+
+  // The client SDK uploads from memory only
+  async putObjectFromFile(objectPath: string, sourceFile: string, options: { contentType: string; metadata?: Record<string, string> }) {
+    return this.putObject(objectPath, await fs.readFile(sourceFile), options);
+  }
+}
+
+// ============================================================================
+// LOCAL DISK DRIVER
+// ============================================================================
+
+class LocalStorageProvider implements StorageProvider {
+  readonly driver: StorageDriver = 'local';
+  private readonly root: string;
+
+  constructor(root: string, private readonly scope: StorageScope) {
+    this.root = path.resolve(root);
+  }
+
+  async putObject(objectPath: string, body: Buffer, options: { contentType: string; metadata?: Record<string, string> }) {
+    const key = normalizeObjectPath(objectPath);
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    const metaPath = this.metaPath(key);
+    await fs.mkdir(path.dirname(metaPath), { recursive: true });
+    await fs.writeFile(metaPath, JSON.stringify({ contentType: options.contentType, metadata: options.metadata || {} }));
+
+    return { path: key, url: signedObjectUrl(this.scope, key) };
+  }
+
+  async getObject(objectPath: string): Promise<StoredObjectContent | null> {
+    const key = normalizeObjectPath(objectPath);
+    let body: Buffer;
+    try {
+      body = await fs.readFile(this.filePath(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'EISDIR') return null;
+      throw error;
+    }
+
+    let meta: { contentType?: string; metadata?: Record<string, string> } = {};
+    try {
+      meta = JSON.parse(await fs.readFile(this.metaPath(key), 'utf8'));
+    } catch {
+      // Written without a sidecar (copied in by hand) — serve as bytes
+    }
+    return {
+      body,
+      contentType: meta.contentType || 'application/octet-stream',
+      metadata: meta.metadata || {}
+    };
+  }
+
+  async deleteObject(objectPath: string): Promise<void> {
+    const key = normalizeObjectPath(objectPath);
+    for (const target of [this.filePath(key), this.metaPath(key)]) {
+      try {
+        await fs.unlink(target);
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObjectListing> {
+    const key = normalizeObjectPath(prefix);
+    let entries;
+    try {
+      entries = await fs.readdir(this.filePath(key), { withFileTypes: true });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return { files: [], directories: [] };
+      throw error;
+    }
+
+    const listing: StoredObjectListing = { files: [], directories: [] };
+    for (const entry of entries) {
+      const fullPath = `${key}/${entry.name}`;
+      if (entry.isDirectory()) {
+        listing.directories.push({ name: entry.name, fullPath });
+      } else if (entry.isFile()) {
+        const stat = await fs.stat(this.filePath(fullPath));
+        listing.files.push({ name: entry.name, fullPath, size: stat.size });
+      }
+    }
+    return listing;
+  }
+
+  async getUrl(objectPath: string): Promise<string> {
+    return signedObjectUrl(this.scope, normalizeObjectPath(objectPath));
+  }
+
+  async putObjectFromFile(objectPath: string, sourceFile: string, options: { contentType: string; metadata?: Record<string, string> }) {
+    const key = normalizeObjectPath(objectPath);
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.copyFile(sourceFile, filePath);
+
+    const metaPath = this.metaPath(key);
+    await fs.mkdir(path.dirname(metaPath), { recursive: true });
+    await fs.writeFile(metaPath, JSON.stringify({ contentType: options.contentType, metadata: options.metadata || {} }));
+
+    return { path: key, url: signedObjectUrl(this.scope, key) };
+  }
+
+  // normalizeObjectPath already rejects '..'; this also keeps keys out of the sidecar dir
+  private filePath(key: string): string {
+    if (key === LOCAL_META_DIR || key.startsWith(`${LOCAL_META_DIR}/`)) {
+      throw new Error(`Invalid storage path: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.root, LOCAL_META_DIR, ...key.split('/')) + '.json';
+  }
+}
+
+// ============================================================================
+// S3-COMPATIBLE DRIVER
+// ============================================================================
+
+class S3StorageProvider implements StorageProvider {
+  readonly driver: StorageDriver = 's3';
+  readonly multipart: MultipartUploadCapability;
+  private readonly client: S3Client;
+  private readonly publicBaseUrl: string | undefined;
+
+  constructor(config: StorageConfig['s3'], private readonly scope: StorageScope) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('S3 storage is not configured (bucket, access key id and secret access key are required)');
+    }
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      bucket: config.bucket,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      forcePathStyle: config.forcePathStyle
+    });
+    this.publicBaseUrl = config.publicBaseUrl?.replace(/\/+$/, '');
+
+    const client = this.client;
+    this.multipart = {
+      create: (objectPath, options) =>
+        client.createMultipartUpload(normalizeObjectPath(objectPath), options.contentType, options.metadata),
+      partUrl: (objectPath, uploadId, partNumber, size, expiresSeconds) =>
+        client.presignUploadPart(normalizeObjectPath(objectPath), uploadId, partNumber, size, expiresSeconds),
+      listParts: (objectPath, uploadId) => client.listParts(normalizeObjectPath(objectPath), uploadId),
+      complete: (objectPath, uploadId, parts) => client.completeMultipartUpload(normalizeObjectPath(objectPath), uploadId, parts),
+      abort: (objectPath, uploadId) => client.abortMultipartUpload(normalizeObjectPath(objectPath), uploadId)
+    };
+  }
+
+  async putObject(objectPath: string, body: Buffer, options: { contentType: string; metadata?: Record<string, string> }) {
+    const key = normalizeObjectPath(objectPath);
+    await this.client.putObject(key, body, options.contentType, options.metadata);
+    return { path: key, url: await this.getUrl(key) };
+  }
+
+  async getObject(objectPath: string): Promise<StoredObjectContent | null> {
+    return this.client.getObject(normalizeObjectPath(objectPath));
+  }
+
+  async deleteObject(objectPath: string): Promise<void> {
+    await this.client.deleteObject(normalizeObjectPath(objectPath));
+  }
+
+  async list(prefix: string): Promise<StoredObjectListing> {
+    const key = normalizeObjectPath(prefix);
+    const result = await this.client.listObjects(`${key}/`);
+    const lastSegment = (value: string) => value.replace(/\/$/, '').split('/').pop() || value;
+    return {
+      files: result.objects.map(object => ({ name: lastSegment(object.key), fullPath: object.key, size: object.size })),
+      directories: result.prefixes.map(dir => ({ name: lastSegment(dir), fullPath: dir.replace(/\/$/, '') }))
+    };
+  }
+
+  async getUrl(objectPath: string): Promise<string> {
+    const key = normalizeObjectPath(objectPath);
+    return this.publicBaseUrl
+      ? `${this.publicBaseUrl}/${encodeRfc3986(key, true)}`
+      : signedObjectUrl(this.scope, key);
+  }
+
+  async putObjectFromFile(objectPath: string, sourceFile: string, options: { contentType: string; metadata?: Record<string, string> }) {
+    return this.putObject(objectPath, await fs.readFile(sourceFile), options);
+  }
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class StorageProviderService {
+  private providers = new Map<string, StorageProvider>();
+
+  /**
+   * Effective storage config of a tenant: the product's, with the tenant's
+   * override (if any) on top.
+   */
+  resolveConfig(productCode: string | undefined, tenantId: string): { productCode: string; config: StorageConfig } {
+    const product = (productCode && getProduct(productCode)) || getDefaultProduct();
+    const base = product.storage;
+    const override = product.storageTenantOverrides[tenantId];
+    if (!override) {
+      return { productCode: product.code, config: base };
+    }
+
+    return {
+      productCode: product.code,
+      config: {
+        driver: override.driver || base.driver,
+        local: { root: override.root || base.local.root },
+        s3: {
+          endpoint: override.endpoint ?? base.s3.endpoint,
+          region: override.region || base.s3.region,
+          bucket: override.bucket || base.s3.bucket,
+          accessKeyId: override.accessKeyId || base.s3.accessKeyId,
+          secretAccessKey: override.secretAccessKey || base.s3.secretAccessKey,
+          forcePathStyle: override.forcePathStyle ?? base.s3.forcePathStyle,
+          publicBaseUrl: override.publicBaseUrl ?? base.s3.publicBaseUrl
+        }
+      }
+    };
+  }
+
+  /**
+   * Provider holding a tenant's files. `productCode` is req.productCode;
+   * omitted = the default product.
+   */
+  forTenant(productCode: string | undefined, tenantId: string): StorageProvider {
+    const { productCode: code, config } = this.resolveConfig(productCode, tenantId);
+    const cacheKey = `${code}:${tenantId}`;
+    const cached = this.providers.get(cacheKey);
+    if (cached) return cached;
+
+    const scope: StorageScope = { productCode: code, tenantId };
+    let provider: StorageProvider;
+    switch (config.driver) {
+      case 'local':
+        provider = new LocalStorageProvider(config.local.root, scope);
+        break;
+      case 's3':
+        provider = new S3StorageProvider(config.s3, scope);
+        break;
+      case 'firebase':
+      default:
+        provider = new FirebaseStorageProvider();
+        break;
+    }
+
+    this.providers.set(cacheKey, provider);
+    return provider;
+  }
+
+  /**
+   * Object behind a signed URL (GET /api/storage/objects/<path>). Null when
+   * the signature does not match or the object is gone.
+   */
+  async readSignedObject(
+    productCode: string,
+    tenantId: string,
+    objectPath: string,
+    signature: string
+  ): Promise<StoredObjectContent | null> {
+    if (!productCode || !tenantId || !signature || !getProduct(productCode)) return null;
+
+    let key: string;
+    try {
+      key = normalizeObjectPath(objectPath);
+    } catch {
+      return null;
+    }
+
+    if (!isValidStorageUrlSignature(`${productCode}\n${tenantId}\n${key}`, signature)) {
+      return null;
+    }
+
+    return this.forTenant(productCode, tenantId).getObject(key);
+  }
+}
+
+export const storageProviderService = new StorageProviderService();
+export default storageProviderService;
@@ -1,22 +1,14 @@
   // src/services/storageService.ts
-  // Updated storage service - API layer handles Firebase directly
+  // Updated storage service - API layer writes the file bytes through the
+  // tenant's storage provider (Firebase / local disk / S3, see storageProviderService)
   // Edge Functions handle only database operations
 
   import axios from 'axios';
-  import { initializeApp, FirebaseApp } from 'firebase/app';
-  import { 
-    getStorage, 
-    ref, 
-    uploadBytes, 
-    getDownloadURL, 
-    listAll, 
-    deleteObject,
-    StorageReference,
-    FirebaseStorage
-  } from 'firebase/storage';
-  import { getAuth, signInAnonymously, Auth, User, onAuthStateChanged } from 'firebase/auth';
   import { v4 as uuidv4 } from 'uuid';
   import { captureException } from '../utils/sentry';
+  import { storageProviderService } from './storageProviderService';
+  import { storageMediaService } from './storageMediaService';
+  import { uploadScanService } from './uploadScanService';
 
   // Import storage types
   import { 
@@ -24,22 +16,12 @@
     StorageStats, 
     CategoryStats, 
     StorageFile,
+    StorageScanVerdict,
     PaginatedFilesResponse 
   } from '../types/storage';
 
-  // Firebase configuration from environment variables
-  const firebaseConfig = {
-    apiKey: process.env.VITE_FIREBASE_API_KEY,
-    authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
-    projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-    storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
-    messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-    appId: process.env.VITE_FIREBASE_APP_ID
-  };
-
   // Log configuration status at startup
   console.log("=== Storage Service Configuration ===");
-  console.log("Firebase configured:", !!firebaseConfig.apiKey && !!firebaseConfig.projectId);
   console.log("Environment:", process.env.NODE_ENV);
 
   // Default storage quota in MB
@@ -65,7 +47,9 @@
         'image/png', 
         'application/pdf', 
         'application/msword', 
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'video/mp4',
+        'video/quicktime'
       ],
       path: 'contracts/media'
     },
@@ -92,62 +76,15 @@
     }
   ];
 
-  // Firebase instances
-  let firebaseApp: FirebaseApp | null = null;
-  let firebaseAuth: Auth | null = null;
-  let firebaseStorage: FirebaseStorage | null = null;
-  let authInitializationPromise: Promise<User> | null = null;
-
-  // Initialize Firebase with better error handling
-  const initializeFirebase = async (): Promise<{ app: FirebaseApp; auth: Auth; storage: FirebaseStorage; user: User }> => {
-    if (authInitializationPromise && firebaseApp && firebaseAuth && firebaseStorage) {
-      const user = await authInitializationPromise;
-      return { app: firebaseApp, auth: firebaseAuth, storage: firebaseStorage, user };
-    }
-
-    try {
-      if (!firebaseApp) {
-        firebaseApp = initializeApp(firebaseConfig);
-        console.log("✓ Firebase app initialized");
-      }
-      
-      if (!firebaseAuth) {
-        firebaseAuth = getAuth(firebaseApp);
-        console.log("✓ Firebase Auth initialized");
-      }
-      
-      if (!firebaseStorage) {
-        firebaseStorage = getStorage(firebaseApp);
-        console.log("✓ Firebase Storage initialized");
-      }
-      
-      if (!authInitializationPromise) {
-        authInitializationPromise = new Promise<User>(async (resolve, reject) => {
-          try {
-            const unsubscribe = onAuthStateChanged(firebaseAuth!, (user) => {
-              if (user) {
-                unsubscribe();
-                resolve(user);
-              }
-            });
-            
-            const userCredential = await signInAnonymously(firebaseAuth!);
-            console.log("✓ Firebase authenticated");
-            
-          } catch (authError: any) {
-            console.error("Firebase authentication error:", authError);
-            reject(authError);
-          }
-        });
-      }
-      
-      const user = await authInitializationPromise;
-      return { app: firebaseApp, auth: firebaseAuth, storage: firebaseStorage, user };
-    } catch (error: any) {
-      console.error('Firebase initialization failed:', error);
-      authInitializationPromise = null;
-      throw error;
-    }
+  // Custom metadata is stored as string key/values by every provider
+  const toObjectMetadata = (metadata?: any): Record<string, string> | undefined => {
+    if (!metadata || typeof metadata !== 'object') return undefined;
+    const result: Record<string, string> = {};
+    Object.entries(metadata).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    });
+    return result;
   };
 
   // Helper: Get Supabase API URL
@@ -236,9 +173,10 @@
     },
 
     /**
-    * Setup storage for a tenant - Handles Firebase directly
+    * Setup storage for a tenant - Creates the folder structure in the tenant's
+    * storage provider, then marks setup complete via Edge Function
     */
-    async setupStorage(authToken: string, tenantId: string): Promise<StorageStats> {
+    async setupStorage(authToken: string, tenantId: string, productCode?: string): Promise<StorageStats> {
       try {
         // Check if already setup using edge function
         const existingStats = await this.getStorageStats(authToken, tenantId);
@@ -246,25 +184,21 @@
           return existingStats;
         }
         
-        // Initialize Firebase
-        const { storage } = await initializeFirebase();
+        const provider = storageProviderService.forTenant(productCode, tenantId);
         const storagePath = `tenant_${tenantId.substring(0, 8)}_${Date.now()}`;
         
-        console.log("Setting up storage with path:", storagePath);
+        console.log(`Setting up storage (${provider.driver}) with path:`, storagePath);
         
-        // Create folder structure in Firebase
-        const placeholderContent = new Uint8Array([1]);
+        // Create folder structure in the storage provider
+        const placeholderContent = Buffer.from([1]);
         
         // Create root folder
-        const rootRef = ref(storage, `${storagePath}/.placeholder`);
-        await uploadBytes(rootRef, placeholderContent, { contentType: 'text/plain' });
+        await provider.putObject(`${storagePath}/.placeholder`, placeholderContent, { contentType: 'text/plain' });
         console.log('✓ Root folder created');
         
         // Create category folders
         for (const category of STORAGE_CATEGORIES) {
-          const categoryPath = `${storagePath}/${category.id}/.placeholder`;
-          const categoryRef = ref(storage, categoryPath);
-          await uploadBytes(categoryRef, placeholderContent, { contentType: 'text/plain' });
+          await provider.putObject(`${storagePath}/${category.id}/.placeholder`, placeholderContent, { contentType: 'text/plain' });
           console.log(`✓ Category folder created: ${category.id}`);
         }
         
@@ -346,7 +280,10 @@
 },
 
     /**
-    * Upload a file - Handles Firebase directly, then updates DB via Edge Function
+    * Upload a file - Writes to the tenant's storage provider, then updates DB via Edge Function.
+    * `scan` is the verdict of uploadScanService (scanUploads middleware); quarantined
+    * files go under the quarantine directory and get no download URL or thumbnails
+    * until released.
     */
     async uploadFile(
       authToken: string,
@@ -356,7 +293,9 @@
       fileSize: number,
       fileType: string,
       category: string,
-      metadata?: any
+      metadata?: any,
+      productCode?: string,
+      scan?: StorageScanVerdict
     ): Promise<StorageFile> {
       try {
         // Get tenant storage path first
@@ -366,59 +305,47 @@
         }
         
         // Get storage path from tenant data
-        const tenantResponse = await axios.get(
-          `${getSupabaseApiUrl()}/rest/v1/t_tenants?id=eq.${tenantId}&select=storage_path`,
-          {
-            headers: {
-              'Authorization': authToken,
-              'apikey': process.env.SUPABASE_KEY as string,
-              'Content-Type': 'application/json'
-            }
-          }
-        );
+        const storagePath = await this.getTenantStoragePath(authToken, tenantId);
         
-        const storagePath = tenantResponse.data[0]?.storage_path;
-        if (!storagePath) {
-          throw new Error('Storage path not found for tenant');
-        }
-        
-        // Initialize Firebase and upload file
-        const { storage } = await initializeFirebase();
+        // Upload file to the tenant's storage provider
+        const provider = storageProviderService.forTenant(productCode, tenantId);
         const fileId = uuidv4();
         const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
-        const filePath = `${storagePath}/${category}/${fileId}_${sanitizedFileName}`;
+        const quarantined = scan?.status === 'quarantined';
+        const objectPath = `${storagePath}/${category}/${fileId}_${sanitizedFileName}`;
+        const filePath = quarantined ? uploadScanService.quarantinePath(objectPath) : objectPath;
+        
+        // Photos lose their location metadata before they are stored
+        const media = !quarantined && storageMediaService.handles(category, fileType);
+        const { buffer, locationRemoved } = media
+          ? storageMediaService.sanitize(fileBuffer, fileType)
+          : { buffer: fileBuffer, locationRemoved: false };
         
-        const storageRef = ref(storage, filePath);
-        await uploadBytes(storageRef, fileBuffer, { 
+        const { url: storedURL } = await provider.putObject(filePath, buffer, {
           contentType: fileType,
-          customMetadata: metadata 
+          metadata: toObjectMetadata(metadata)
         });
+        // A quarantined object gets no URL — on a public bucket the provider
+        // URL would serve it. rescanFile records one when the file is released.
+        const downloadURL = quarantined ? '' : storedURL;
         
-        const downloadURL = await getDownloadURL(storageRef);
+        // Thumbnails / PDF preview, recorded with the file
+        const derivatives = media
+          ? await storageMediaService.generate(provider, filePath, buffer, fileType, locationRemoved)
+          : undefined;
         
         // Call Edge Function to save file record
-        const response = await axios.post(
-          `${getSupabaseApiUrl()}/functions/v1/tenant-storage/files`,
-          {
-            file_name: fileName,
-            file_path: filePath,
-            file_size: fileSize,
-            file_type: fileType.split('/')[1] || 'unknown',
-            file_category: category,
-            mime_type: fileType,
-            download_url: downloadURL,
-            metadata: metadata
-          },
-          {
-            headers: {
-              'Authorization': authToken,
-              'x-tenant-id': tenantId,
-              'Content-Type': 'application/json'
-            }
-          }
-        );
-
-        return response.data;
+        return await this.recordFile(authToken, tenantId, {
+          fileName,
+          filePath,
+          fileSize: buffer === fileBuffer ? fileSize : buffer.length,
+          fileType,
+          category,
+          downloadURL,
+          metadata: derivatives || scan
+            ? { ...(metadata || {}), ...(derivatives ? { derivatives } : {}), ...(scan ? { scan } : {}) }
+            : metadata
+        });
       } catch (error: any) {
         console.error('Error in uploadFile:', error);
         
@@ -433,6 +360,68 @@
       }
     },
 
+    /**
+    * Storage root of a tenant (t_tenants.storage_path), set by setupStorage
+    */
+    async getTenantStoragePath(authToken: string, tenantId: string): Promise<string> {
+      const tenantResponse = await axios.get(
+        `${getSupabaseApiUrl()}/rest/v1/t_tenants?id=eq.${tenantId}&select=storage_path`,
+        {
+          headers: {
+            'Authorization': authToken,
+            'apikey': process.env.SUPABASE_KEY as string,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+      
+      const storagePath = tenantResponse.data[0]?.storage_path;
+      if (!storagePath) {
+        throw new Error('Storage path not found for tenant');
+      }
+      return storagePath;
+    },
+
+    /**
+    * Save the file record of an object already in storage - via Edge Function
+    */
+    async recordFile(
+      authToken: string,
+      tenantId: string,
+      file: {
+        fileName: string;
+        filePath: string;
+        fileSize: number;
+        fileType: string;
+        category: string;
+        downloadURL: string;
+        metadata?: any;
+      }
+    ): Promise<StorageFile> {
+      const response = await axios.post(
+        `${getSupabaseApiUrl()}/functions/v1/tenant-storage/files`,
+        {
+          file_name: file.fileName,
+          file_path: file.filePath,
+          file_size: file.fileSize,
+          file_type: file.fileType.split('/')[1] || 'unknown',
+          file_category: file.category,
+          mime_type: file.fileType,
+          download_url: file.downloadURL,
+          metadata: file.metadata
+        },
+        {
+          headers: {
+            'Authorization': authToken,
+            'x-tenant-id': tenantId,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      return response.data;
+    },
+
     /**
     * Upload multiple files
     */
@@ -446,8 +435,10 @@
         fileType: string;
         category: string;
         metadata?: any;
+        scan?: StorageScanVerdict;
       }>,
-      onProgress?: (completed: number, total: number) => void
+      onProgress?: (completed: number, total: number) => void,
+      productCode?: string
     ): Promise<Array<{ file?: StorageFile; error?: string; fileName: string }>> {
       const results: Array<{ file?: StorageFile; error?: string; fileName: string }> = [];
       
@@ -463,7 +454,9 @@
             fileData.fileSize,
             fileData.fileType,
             fileData.category,
-            fileData.metadata
+            fileData.metadata,
+            productCode,
+            fileData.scan
           );
           
           results.push({ file: uploadedFile, fileName: fileData.fileName });
@@ -483,12 +476,13 @@
     },
 
     /**
-    * Delete a file - Handles Firebase directly, then updates DB via Edge Function
+    * Delete a file - Removes it from the tenant's storage provider, then updates DB via Edge Function
     */
     async deleteFile(
       authToken: string,
       tenantId: string,
-      fileId: string
+      fileId: string,
+      productCode?: string
     ): Promise<{ success: boolean, message: string }> {
       try {
         // Get file details first
@@ -507,10 +501,12 @@
           throw new Error('File not found');
         }
         
-        // Delete from Firebase
-        const { storage } = await initializeFirebase();
-        const storageRef = ref(storage, file.file_path);
-        await deleteObject(storageRef);
+        // Delete from the storage provider, thumbnails / preview included
+        const provider = storageProviderService.forTenant(productCode, tenantId);
+        await provider.deleteObject(file.file_path);
+        for (const derivativePath of storageMediaService.derivativePaths(file.metadata)) {
+          await provider.deleteObject(derivativePath).catch(() => undefined);
+        }
         
         // Delete from database via Edge Function
         const response = await axios.delete(
@@ -544,13 +540,14 @@
     async deleteMultipleFiles(
       authToken: string,
       tenantId: string,
-      fileIds: string[]
+      fileIds: string[],
+      productCode?: string
     ): Promise<Array<{ success: boolean; fileId: string; error?: string }>> {
       const results: Array<{ success: boolean; fileId: string; error?: string }> = [];
       
       for (const fileId of fileIds) {
         try {
-          await this.deleteFile(authToken, tenantId, fileId);
+          await this.deleteFile(authToken, tenantId, fileId, productCode);
           results.push({ success: true, fileId });
         } catch (error: any) {
           results.push({ 
@@ -589,7 +586,7 @@
       }
     },
 
-    // Diagnostic methods remain the same as they already handle Firebase directly
+    // Diagnostic methods work on the raw objects in the tenant's storage provider
     async getTenantStorageStructure(
       authToken: string,
       tenantId: string
@@ -676,11 +673,11 @@
     async listDiagnosticFiles(
       authToken: string,
       tenantId: string,
-      path?: string
+      path?: string,
+      productCode?: string
     ): Promise<any[]> {
       try {
-        // Initialize Firebase
-        const { storage } = await initializeFirebase();
+        const provider = storageProviderService.forTenant(productCode, tenantId);
 
         // Get tenant storage path
         const tenantResponse = await axios.get(
@@ -700,18 +697,17 @@
 
         const storagePath = tenantResponse.data[0].storage_path;
         
-        // Define the reference path
+        // Define the listing path
         const refPath = path ? `${storagePath}/${path}` : storagePath;
-        const storageRef = ref(storage, refPath);
         
-        // List all objects in the reference
-        const listResult = await listAll(storageRef);
+        // List the objects directly under it
+        const listResult = await provider.list(refPath);
         
         // Format the results
         const items = await Promise.all([
           // Process files
-          ...listResult.items.map(async (item) => {
-            const url = await getDownloadURL(item);
+          ...listResult.files.map(async (item) => {
+            const url = await provider.getUrl(item.fullPath);
             return {
               name: item.name,
               fullPath: item.fullPath,
@@ -721,7 +717,7 @@
           }),
           
           // Process directories
-          ...listResult.prefixes.map(async (prefix) => {
+          ...listResult.directories.map(async (prefix) => {
             return {
               name: prefix.name,
               fullPath: prefix.fullPath,
@@ -748,11 +744,11 @@
       fileName: string,
       fileSize: number,
       fileType: string,
-      path: string
+      path: string,
+      productCode?: string
     ): Promise<any> {
       try {
-        // Initialize Firebase
-        const { storage } = await initializeFirebase();
+        const provider = storageProviderService.forTenant(productCode, tenantId);
         
         // Get tenant storage path
         const tenantResponse = await axios.get(
@@ -772,15 +768,9 @@
 
         const storagePath = tenantResponse.data[0].storage_path;
         
-        // Create a reference to the file in Firebase Storage
+        // Upload file to the storage provider
         const filePath = `${storagePath}/${path}/${fileName}`;
-        const storageRef = ref(storage, filePath);
-        
-        // Upload file
-        await uploadBytes(storageRef, fileBuffer, { contentType: fileType });
-        
-        // Get download URL
-        const downloadURL = await getDownloadURL(storageRef);
+        const { url: downloadURL } = await provider.putObject(filePath, fileBuffer, { contentType: fileType });
         
         return {
           success: true,
@@ -803,17 +793,12 @@
     async deleteDiagnosticFile(
       authToken: string,
       tenantId: string,
-      filePath: string
+      filePath: string,
+      productCode?: string
     ): Promise<any> {
       try {
-        // Initialize Firebase
-        const { storage } = await initializeFirebase();
-        
-        // Create a reference to the file in Firebase Storage
-        const storageRef = ref(storage, filePath);
-        
-        // Delete file
-        await deleteObject(storageRef);
+        // Delete file from the storage provider
+        await storageProviderService.forTenant(productCode, tenantId).deleteObject(filePath);
         
         return {
           success: true,
@@ -0,0 +1,723 @@
+// ============================================================================
+// Storage Upload Service — direct (presigned) and resumable chunked uploads
+// ============================================================================
+// Large files (service videos, scanned reports) do not go through multer.
+// The client asks for an upload slot, sends the file in parts, then confirms:
+//
+//   POST   /api/storage/uploads                 slot + part URLs (quota checked
+//                                               and the size reserved here)
+//   PUT    <part url>                           one part, no bearer token
+//   GET    /api/storage/uploads/:id             resume: parts still missing
+//   POST   /api/storage/uploads/:id/complete    assemble + record the file
+//   DELETE /api/storage/uploads/:id             abort
+//
+// Providers with multipart support (S3-compatible) get the parts straight
+// from the browser through presigned URLs. For the others the part URL is a
+// signed API endpoint; parts are staged on this server's disk
+// (STORAGE_UPLOAD_STAGING_DIR) and stored when the slot completes — so
+// chunked uploads need the part requests and the completion to reach the same
+// instance (or a shared staging volume).
+//
+// Slots live in t_storage_upload_sessions (src/migrations/023). A pending
+// slot reserves its size against the tenant's quota until it completes, is
+// aborted or expires; validateStorageQuota counts the reservations.
+// Completion runs the stored object through uploadScanService before the
+// file is recorded — a rejected upload is deleted and its slot aborted.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { storageService } from './storageService';
+import { storageMediaService } from './storageMediaService';
+import { uploadScanService, scanRejection } from './uploadScanService';
+import {
+  storageProviderService,
+  storageUrlSignature,
+  isValidStorageUrlSignature
+} from './storageProviderService';
+import { encodeRfc3986 } from '../utils/s3Client';
+import { captureException } from '../utils/sentry';
+import { AuditContext } from '../constants/auditConstants';
+import {
+  CreateUploadRequest,
+  StorageProvider,
+  UploadPartTarget,
+  UploadSession,
+  UploadSlotResponse,
+  UPLOAD_SESSION_STATUSES
+} from '../types/storage';
+
+export interface StorageUploadResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string; details?: any };
+}
+
+/** Who is uploading — the bearer token is what the file-record edge call runs as */
+export interface UploadContext {
+  tenantId: string;
+  productCode?: string;
+  authToken: string;
+  userId?: string | null;
+  /** Where upload scan verdicts are audited */
+  auditContext?: AuditContext;
+}
+
+// S3 parts must be at least 5 MiB (except the last); 8 MiB keeps a 2 GiB
+// file at 256 parts and each chunked PUT small enough for flaky connections
+export const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+// Expired slots of a tenant cleaned up when the tenant opens a new one
+const EXPIRED_CLEANUP_BATCH = 20;
+
+const maxUploadBytes = (): number =>
+  Number(process.env.STORAGE_DIRECT_UPLOAD_MAX_MB || 2048) * 1024 * 1024;
+
+const sessionTtlMs = (): number =>
+  Number(process.env.STORAGE_UPLOAD_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+const stagingRoot = (): string =>
+  path.resolve(process.env.STORAGE_UPLOAD_STAGING_DIR || './storage/.uploads');
+
+const SESSION_COLUMNS = 'id, tenant_id, product_code, driver, file_name, file_path, file_size, mime_type, file_category, metadata, part_size, part_count, provider_upload_id, status, stored_at, file_id, expires_at, created_by, created_at, updated_at';
+
+export class StorageUploadService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string, details?: any): StorageUploadResult<T> {
+    return { success: false, error: { code, message, ...(details !== undefined ? { details } : {}) } };
+  }
+
+  /** Largest file a slot can be issued for, in bytes */
+  maxFileSize(): number {
+    return maxUploadBytes();
+  }
+
+  // ==========================================================================
+  // QUOTA
+  // ==========================================================================
+
+  /** Bytes held by the tenant's pending, unexpired slots */
+  async getReservedBytes(tenantId: string): Promise<StorageUploadResult<number>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const { data, error } = await supabase
+      .from('t_storage_upload_sessions')
+      .select('file_size')
+      .eq('tenant_id', tenantId)
+      .eq('status', UPLOAD_SESSION_STATUSES.PENDING)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    return { success: true, data: (data || []).reduce((sum: number, row: any) => sum + Number(row.file_size || 0), 0) };
+  }
+
+  // ==========================================================================
+  // SLOTS
+  // ==========================================================================
+
+  /**
+   * Issue an upload slot. validateStorageQuota (route middleware) turns away
+   * uploads that plainly do not fit; the reservation itself is made here, in
+   * one locked step with the check (reserve_storage_upload_session, src/
+   * migrations/026), so concurrent requests cannot overrun the quota together.
+   */
+  async createUpload(ctx: UploadContext, request: CreateUploadRequest): Promise<StorageUploadResult<UploadSlotResponse>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const fileSize = Number(request.file_size);
+    if (fileSize > maxUploadBytes()) {
+      return this.fail('FILE_TOO_LARGE', `File size exceeds the ${Math.floor(maxUploadBytes() / (1024 * 1024))}MB limit`);
+    }
+    if (!storageService.isFileTypeAllowed(request.mime_type, request.category)) {
+      return this.fail('VALIDATION_ERROR', `File type ${request.mime_type} is not allowed in ${request.category}`);
+    }
+
+    await this.cleanupExpired(ctx.tenantId);
+
+    let storagePath: string;
+    try {
+      storagePath = await storageService.getTenantStoragePath(ctx.authToken, ctx.tenantId);
+    } catch (error: any) {
+      return this.fail('STORAGE_NOT_SETUP', 'Storage is not set up for this tenant. Please set up storage first.');
+    }
+
+    // Quota minus stored files; pending reservations are counted under the lock
+    let availableBytes: number;
+    try {
+      const stats = await storageService.getStorageStats(ctx.authToken, ctx.tenantId);
+      availableBytes = Math.max(0, Number(stats.available) || 0);
+    } catch (error: any) {
+      return this.fail('STORAGE_ERROR', 'Could not read the storage quota');
+    }
+    if (fileSize > availableBytes) {
+      return this.fail('STORAGE_QUOTA_EXCEEDED', 'Not enough storage space available. Please free up space or upgrade your storage plan.');
+    }
+
+    const provider = storageProviderService.forTenant(ctx.productCode, ctx.tenantId);
+    const { productCode } = storageProviderService.resolveConfig(ctx.productCode, ctx.tenantId);
+    const sanitizedFileName = request.file_name.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const filePath = `${storagePath}/${request.category}/${uuidv4()}_${sanitizedFileName}`;
+
+    let providerUploadId: string | null = null;
+    if (provider.multipart) {
+      try {
+        providerUploadId = await provider.multipart.create(filePath, {
+          contentType: request.mime_type,
+          metadata: this.objectMetadata(request.metadata)
+        });
+      } catch (error: any) {
+        captureException(error instanceof Error ? error : new Error(String(error)), {
+          tags: { source: 'storage_upload_service', action: 'createUpload' },
+          tenantId: ctx.tenantId
+        });
+        return this.fail('STORAGE_ERROR', 'Could not start the upload in storage');
+      }
+    }
+
+    const { data, error } = await supabase
+      .rpc('reserve_storage_upload_session', {
+        p_session: {
+          tenant_id: ctx.tenantId,
+          product_code: productCode,
+          driver: provider.driver,
+          file_name: request.file_name,
+          file_path: filePath,
+          file_size: fileSize,
+          mime_type: request.mime_type,
+          file_category: request.category,
+          metadata: request.metadata || {},
+          part_size: UPLOAD_PART_SIZE,
+          part_count: Math.ceil(fileSize / UPLOAD_PART_SIZE),
+          provider_upload_id: providerUploadId,
+          expires_at: new Date(Date.now() + sessionTtlMs()).toISOString(),
+          created_by: ctx.userId || null
+        },
+        p_available_bytes: availableBytes
+      });
+
+    const session = Array.isArray(data) ? (data[0] as UploadSession | undefined) : undefined;
+    if (error || !session) {
+      if (providerUploadId) {
+        await provider.multipart!.abort(filePath, providerUploadId).catch(() => undefined);
+      }
+      if (!error) {
+        return this.fail('STORAGE_QUOTA_EXCEEDED', 'Not enough storage space available once pending uploads are counted. Please free up space or upgrade your storage plan.');
+      }
+      return this.fail('DATABASE_ERROR', error.message);
+    }
+
+    return { success: true, data: await this.describe(session, provider, []) };
+  }
+
+  /**
+   * Slot state for resuming: received parts, and fresh URLs for the rest
+   */
+  async getUpload(ctx: UploadContext, uploadId: string): Promise<StorageUploadResult<UploadSlotResponse>> {
+    const loaded = await this.loadSession(ctx.tenantId, uploadId);
+    if (!loaded.success) return loaded as StorageUploadResult<any>;
+    const session = loaded.data!;
+
+    if (session.status === UPLOAD_SESSION_STATUSES.PENDING && this.isExpired(session)) {
+      await this.expire(session);
+      return this.fail('UPLOAD_EXPIRED', 'Upload session has expired');
+    }
+
+    const provider = storageProviderService.forTenant(session.product_code, session.tenant_id);
+    try {
+      const received = session.status === UPLOAD_SESSION_STATUSES.PENDING && !session.stored_at
+        ? await this.receivedParts(session, provider)
+        : [];
+      return { success: true, data: await this.describe(session, provider, received) };
+    } catch (error: any) {
+      return this.fail('STORAGE_ERROR', error.message || 'Could not read upload progress');
+    }
+  }
+
+  /**
+   * PUT of one part to the API (providers without multipart). The signed URL
+   * is the authorization; the part must be exactly its expected size.
+   */
+  async receivePart(
+    uploadId: string,
+    partNumber: number,
+    expires: string,
+    signature: string,
+    body: Buffer
+  ): Promise<StorageUploadResult<{ part_number: number; size: number }>> {
+    if (!isValidStorageUrlSignature(this.partSignatureValue(uploadId, partNumber, expires), signature)) {
+      return this.fail('INVALID_SIGNATURE', 'Invalid or expired upload URL');
+    }
+    if (!(Number(expires) > Date.now())) {
+      return this.fail('UPLOAD_EXPIRED', 'Upload URL has expired');
+    }
+
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const { data, error } = await supabase
+      .from('t_storage_upload_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', uploadId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+
+    const session = data as UploadSession | null;
+    if (!session) return this.fail('NOT_FOUND', 'Upload session not found');
+    if (session.status !== UPLOAD_SESSION_STATUSES.PENDING || session.stored_at) {
+      return this.fail('CONFLICT', `Upload session is ${session.stored_at ? 'already stored' : session.status}`);
+    }
+    if (session.provider_upload_id) {
+      return this.fail('CONFLICT', 'Parts of this upload go directly to storage');
+    }
+    if (this.isExpired(session)) {
+      return this.fail('UPLOAD_EXPIRED', 'Upload session has expired');
+    }
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.part_count) {
+      return this.fail('VALIDATION_ERROR', `Part number must be between 1 and ${session.part_count}`);
+    }
+
+    const expectedSize = this.partBytes(session, partNumber);
+    if (body.length !== expectedSize) {
+      return this.fail('VALIDATION_ERROR', `Part ${partNumber} must be ${expectedSize} bytes, got ${body.length}`);
+    }
+
+    try {
+      const dir = this.stagingDir(session.id);
+      await fs.mkdir(dir, { recursive: true });
+      // Written aside and renamed, so a cut-off PUT never counts as received
+      const target = path.join(dir, `${partNumber}.part`);
+      const temp = `${target}.${uuidv4()}.tmp`;
+      await fs.writeFile(temp, body);
+      await fs.rename(temp, target);
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { source: 'storage_upload_service', action: 'receivePart' },
+        uploadId
+      });
+      return this.fail('STORAGE_ERROR', 'Could not store the part');
+    }
+
+    return { success: true, data: { part_number: partNumber, size: body.length } };
+  }
+
+  /**
+   * Confirm: assemble the parts in storage and record the file. Safe to
+   * retry — once the object is stored, a retry only records it.
+   */
+  async completeUpload(ctx: UploadContext, uploadId: string): Promise<StorageUploadResult<UploadSlotResponse>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const loaded = await this.loadSession(ctx.tenantId, uploadId);
+    if (!loaded.success) return loaded as StorageUploadResult<any>;
+    let session = loaded.data!;
+
+    if (session.status !== UPLOAD_SESSION_STATUSES.PENDING) {
+      return this.fail('CONFLICT', `Upload session is ${session.status}`);
+    }
+    if (!session.stored_at && this.isExpired(session)) {
+      await this.expire(session);
+      return this.fail('UPLOAD_EXPIRED', 'Upload session has expired');
+    }
+
+    const provider = storageProviderService.forTenant(session.product_code, session.tenant_id);
+
+    if (!session.stored_at) {
+      try {
+        const stored = await this.store(session, provider);
+        if (!stored.success) return stored as StorageUploadResult<any>;
+      } catch (error: any) {
+        captureException(error instanceof Error ? error : new Error(String(error)), {
+          tags: { source: 'storage_upload_service', action: 'completeUpload' },
+          tenantId: ctx.tenantId,
+          uploadId
+        });
+        return this.fail('STORAGE_ERROR', error.message || 'Could not assemble the upload in storage');
+      }
+
+      // Content sniffing + antivirus: rejected objects are deleted and the
+      // slot aborted, quarantined ones moved under the quarantine directory
+      let scanned;
+      try {
+        scanned = await uploadScanService.scanStoredObject(
+          provider,
+          session.file_path,
+          session.mime_type,
+          Number(session.file_size)
+        );
+      } catch (error: any) {
+        captureException(error instanceof Error ? error : new Error(String(error)), {
+          tags: { source: 'storage_upload_service', action: 'scanStoredObject' },
+          tenantId: ctx.tenantId,
+          uploadId
+        });
+        return this.fail('STORAGE_ERROR', error.message || 'Could not read the upload back for scanning');
+      }
+      if (ctx.auditContext) {
+        await uploadScanService.recordVerdict(ctx.auditContext, scanned.verdict, {
+          fileName: session.file_name,
+          fileSize: Number(session.file_size),
+          category: session.file_category,
+          source: `upload:${session.id}`
+        });
+      }
+      if (scanned.verdict.status === 'rejected') {
+        await supabase
+          .from('t_storage_upload_sessions')
+          .update({
+            status: UPLOAD_SESSION_STATUSES.ABORTED,
+            metadata: { ...session.metadata, scan: scanned.verdict },
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', session.id);
+        await fs.rm(this.stagingDir(session.id), { recursive: true, force: true }).catch(() => undefined);
+        const rejection = scanRejection(scanned.verdict);
+        return this.fail(rejection.code, rejection.message, { scan: scanned.verdict });
+      }
+
+      // Photos / PDFs: location stripped, thumbnails and preview made — kept
+      // on the session so a retried completion does not redo them
+      const processed = scanned.verdict.status !== 'quarantined' &&
+        storageMediaService.handles(session.file_category, session.mime_type)
+        ? await storageMediaService.processStoredObject(provider, session.file_path, session.mime_type, Number(session.file_size))
+        : null;
+
+      const { data, error } = await supabase
+        .from('t_storage_upload_sessions')
+        .update({
+          stored_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          file_path: scanned.filePath,
+          metadata: {
+            ...session.metadata,
+            scan: scanned.verdict,
+            ...(processed ? { derivatives: processed.derivatives } : {})
+          },
+          ...(processed ? { file_size: processed.fileSize } : {})
+        })
+        .eq('id', session.id)
+        .select(SESSION_COLUMNS)
+        .single();
+      if (error || !data) return this.fail('DATABASE_ERROR', error?.message || 'Failed to update upload session');
+      session = data as UploadSession;
+      await fs.rm(this.stagingDir(session.id), { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    let file;
+    try {
+      file = await storageService.recordFile(ctx.authToken, ctx.tenantId, {
+        fileName: session.file_name,
+        filePath: session.file_path,
+        fileSize: Number(session.file_size),
+        fileType: session.mime_type,
+        category: session.file_category,
+        // Quarantined objects get no URL until rescanFile releases them
+        downloadURL: session.metadata?.scan?.status === 'quarantined' ? '' : await provider.getUrl(session.file_path),
+        metadata: session.metadata
+      });
+    } catch (error: any) {
+      captureException(error instanceof Error ? error : new Error(String(error)), {
+        tags: { source: 'storage_upload_service', action: 'recordFile' },
+        tenantId: ctx.tenantId,
+        uploadId
+      });
+      return this.fail(
+        'RECORD_FAILED',
+        'The file is stored but could not be recorded — retry completing the upload',
+        error.response?.data
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('t_storage_upload_sessions')
+      .update({
+        status: UPLOAD_SESSION_STATUSES.COMPLETED,
+        file_id: file?.id || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', session.id)
+      .select(SESSION_COLUMNS)
+      .single();
+    if (error || !data) return this.fail('DATABASE_ERROR', error?.message || 'Failed to update upload session');
+
+    return { success: true, data: { ...(await this.describe(data as UploadSession, provider, [])), file } };
+  }
+
+  /** Abort a pending slot and release its reservation */
+  async abortUpload(ctx: UploadContext, uploadId: string): Promise<StorageUploadResult<UploadSlotResponse>> {
+    const loaded = await this.loadSession(ctx.tenantId, uploadId);
+    if (!loaded.success) return loaded as StorageUploadResult<any>;
+    const session = loaded.data!;
+
+    if (session.status !== UPLOAD_SESSION_STATUSES.PENDING) {
+      return this.fail('CONFLICT', `Upload session is ${session.status}`);
+    }
+
+    const aborted = await this.expire(session);
+    if (!aborted) return this.fail('DATABASE_ERROR', 'Failed to abort upload session');
+
+    const provider = storageProviderService.forTenant(session.product_code, session.tenant_id);
+    return { success: true, data: await this.describe(aborted, provider, []) };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async loadSession(tenantId: string, uploadId: string): Promise<StorageUploadResult<UploadSession>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const { data, error } = await supabase
+      .from('t_storage_upload_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', uploadId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!data) return this.fail('NOT_FOUND', 'Upload session not found');
+    return { success: true, data: data as UploadSession };
+  }
+
+  private isExpired(session: UploadSession): boolean {
+    return new Date(session.expires_at).getTime() <= Date.now();
+  }
+
+  // Byte range [start, end) of a 1-based part
+  private partRange(session: UploadSession, partNumber: number): { start: number; end: number } {
+    const start = (partNumber - 1) * session.part_size;
+    return { start, end: Math.min(start + session.part_size, Number(session.file_size)) };
+  }
+
+  private partBytes(session: UploadSession, partNumber: number): number {
+    const range = this.partRange(session, partNumber);
+    return range.end - range.start;
+  }
+
+  private stagingDir(uploadId: string): string {
+    return path.join(stagingRoot(), uploadId);
+  }
+
+  private partSignatureValue(uploadId: string, partNumber: number, expires: string): string {
+    return `upload\n${uploadId}\n${partNumber}\n${expires}`;
+  }
+
+  private objectMetadata(metadata?: Record<string, any>): Record<string, string> | undefined {
+    if (!metadata || typeof metadata !== 'object') return undefined;
+    const result: Record<string, string> = {};
+    Object.entries(metadata).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    });
+    return result;
+  }
+
+  /** Part numbers already received, ascending */
+  private async receivedParts(session: UploadSession, provider: StorageProvider): Promise<number[]> {
+    if (session.provider_upload_id && provider.multipart) {
+      const parts = await provider.multipart.listParts(session.file_path, session.provider_upload_id);
+      return parts
+        .filter(part => part.size === this.partBytes(session, part.partNumber))
+        .map(part => part.partNumber);
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.stagingDir(session.id));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    return entries
+      .map(name => /^(\d+)\.part$/.exec(name))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(match => Number(match[1]))
+      .filter(partNumber => partNumber >= 1 && partNumber <= session.part_count)
+      .sort((a, b) => a - b);
+  }
+
+  /** Put the object together in storage from the received parts */
+  private async store(session: UploadSession, provider: StorageProvider): Promise<StorageUploadResult<void>> {
+    // Multipart: one listing is both checked and completed, so nothing sent
+    // in between can slip into the object
+    const listed = session.provider_upload_id && provider.multipart
+      ? await provider.multipart.listParts(session.file_path, session.provider_upload_id)
+      : null;
+
+    if (listed) {
+      // Part URLs sign each part's size, but completion must not trust that:
+      // the slot reserved file_size against the quota, and the scan and media
+      // processing read that many bytes back. Any part off its slot size
+      // aborts the whole upload.
+      const mismatched = listed.filter(part =>
+        part.partNumber < 1 ||
+        part.partNumber > session.part_count ||
+        part.size !== this.partBytes(session, part.partNumber)
+      );
+      if (mismatched.length > 0) {
+        await this.expire(session);
+        return this.fail('UPLOAD_SIZE_MISMATCH', 'Uploaded parts do not match the size reserved for this upload; the upload was aborted', {
+          file_size: Number(session.file_size),
+          parts: mismatched.slice(0, 100).map(part => ({ part_number: part.partNumber, size: part.size }))
+        });
+      }
+    }
+
+    const received = listed
+      ? listed.map(part => part.partNumber).sort((a, b) => a - b)
+      : await this.receivedParts(session, provider);
+    const missing: number[] = [];
+    for (let part = 1; part <= session.part_count; part++) {
+      if (!received.includes(part)) missing.push(part);
+    }
+    if (missing.length > 0) {
+      return this.fail('UPLOAD_INCOMPLETE', `${missing.length} of ${session.part_count} parts have not been received`, {
+        missing_parts: missing.slice(0, 100)
+      });
+    }
+
+    if (listed) {
+      // Every part 1..part_count present at its exact size: the object is file_size bytes
+      await provider.multipart!.complete(session.file_path, session.provider_upload_id!, listed);
+      return { success: true };
+    }
+
+    const dir = this.stagingDir(session.id);
+    const assembled = path.join(dir, 'assembled');
+    const handle = await fs.open(assembled, 'w');
+    try {
+      for (let part = 1; part <= session.part_count; part++) {
+        await handle.write(await fs.readFile(path.join(dir, `${part}.part`)));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    await provider.putObjectFromFile(session.file_path, assembled, {
+      contentType: session.mime_type,
+      metadata: this.objectMetadata(session.metadata)
+    });
+    return { success: true };
+  }
+
+  /** Mark a slot aborted and drop whatever it holds in storage / staging */
+  private async expire(session: UploadSession): Promise<UploadSession | null> {
+    const provider = storageProviderService.forTenant(session.product_code, session.tenant_id);
+    try {
+      if (session.stored_at) {
+        await provider.deleteObject(session.file_path);
+        for (const derivativePath of storageMediaService.derivativePaths(session.metadata)) {
+          await provider.deleteObject(derivativePath);
+        }
+      } else if (session.provider_upload_id && provider.multipart) {
+        await provider.multipart.abort(session.file_path, session.provider_upload_id);
+      }
+      await fs.rm(this.stagingDir(session.id), { recursive: true, force: true });
+    } catch (error: any) {
+      // The bucket's lifecycle rule / a later cleanup gets what is left
+      console.error('Error releasing upload session storage:', error.message);
+    }
+
+    const supabase = this.client();
+    if (!supabase) return null;
+    const { data, error } = await supabase
+      .from('t_storage_upload_sessions')
+      .update({ status: UPLOAD_SESSION_STATUSES.ABORTED, updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .eq('status', UPLOAD_SESSION_STATUSES.PENDING)
+      .select(SESSION_COLUMNS)
+      .maybeSingle();
+    if (error) return null;
+    return (data as UploadSession | null) || { ...session, status: UPLOAD_SESSION_STATUSES.ABORTED };
+  }
+
+  // Best-effort; a failure here must not block a new upload
+  private async cleanupExpired(tenantId: string): Promise<void> {
+    const supabase = this.client();
+    if (!supabase) return;
+    try {
+      const { data } = await supabase
+        .from('t_storage_upload_sessions')
+        .select(SESSION_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('status', UPLOAD_SESSION_STATUSES.PENDING)
+        .lte('expires_at', new Date().toISOString())
+        .limit(EXPIRED_CLEANUP_BATCH);
+      for (const session of (data || []) as UploadSession[]) {
+        await this.expire(session);
+      }
+    } catch (error: any) {
+      console.error('Error cleaning up expired upload sessions:', error.message);
+    }
+  }
+
+  private async describe(session: UploadSession, provider: StorageProvider, received: number[]): Promise<UploadSlotResponse> {
+    const direct = !!session.provider_upload_id;
+    const receivedSet = new Set(received);
+    const pending = session.status === UPLOAD_SESSION_STATUSES.PENDING && !session.stored_at;
+    const expiresMs = new Date(session.expires_at).getTime();
+
+    const parts: UploadPartTarget[] = [];
+    if (pending) {
+      for (let part = 1; part <= session.part_count; part++) {
+        if (receivedSet.has(part)) continue;
+        const range = this.partRange(session, part);
+        parts.push({
+          part_number: part,
+          url: direct && provider.multipart
+            ? provider.multipart.partUrl(session.file_path, session.provider_upload_id!, part, range.end - range.start, (expiresMs - Date.now()) / 1000)
+            : this.chunkUrl(session.id, part, expiresMs),
+          start: range.start,
+          end: range.end
+        });
+      }
+    }
+
+    // Stored / completed slots hold every part; aborted ones nothing
+    let receivedParts = received;
+    if (session.status === UPLOAD_SESSION_STATUSES.ABORTED) {
+      receivedParts = [];
+    } else if (!pending) {
+      receivedParts = Array.from({ length: session.part_count }, (_, i) => i + 1);
+    }
+
+    return {
+      upload_id: session.id,
+      status: session.status,
+      mode: direct ? 'direct' : 'chunked',
+      file_name: session.file_name,
+      file_size: Number(session.file_size),
+      part_size: session.part_size,
+      part_count: session.part_count,
+      received_parts: receivedParts,
+      received_bytes: receivedParts.reduce((sum, part) => sum + this.partBytes(session, part), 0),
+      parts,
+      expires_at: session.expires_at
+    };
+  }
+
+  private chunkUrl(uploadId: string, partNumber: number, expiresMs: number): string {
+    const base = (process.env.API_BASE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+    const expires = String(expiresMs);
+    const query = new URLSearchParams({
+      expires,
+      sig: storageUrlSignature(this.partSignatureValue(uploadId, partNumber, expires))
+    });
+    return `${base}/api/storage/uploads/${encodeRfc3986(uploadId)}/parts/${partNumber}?${query}`;
+  }
+}
+
+export const storageUploadService = new StorageUploadService();
+export default storageUploadService;
@@ -0,0 +1,339 @@
+// ============================================================================
+// Tax Engine Service — server-side tax calculation with the GST split
+// ============================================================================
+// Resolves everything a calculation needs from the tenant's own data:
+//   rate          explicit rate → t_tax_rates row by id → the tenant default
+//                 (t_tax_settings.default_tax_rate_id, else is_default)
+//   display mode  request → t_tax_settings.display_mode → excluding_tax
+//   seller state  t_tenant_profiles.state_code, else the tenant GSTIN
+//   buyer state   request → buyer contact's billing (else primary) address,
+//                 else a GSTIN in the contact's compliance numbers
+// and then applies the pure arithmetic in utils/taxCalculation: inclusive /
+// exclusive split, then CGST+SGST (or UTGST) within a state, IGST across
+// states and for exports.
+//
+// Used by POST /api/tax-settings/calculate, ad-hoc invoices and contract
+// creation, where its tax is the one stored and a client-sent tax that does
+// not match it is refused; derived billing amounts share its gross-up rule
+// directly.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  TAX_CONSTANTS,
+  TaxCalculationContext,
+  TaxCalculationLine,
+  TaxCalculationResult,
+  TaxDisplayMode,
+  TaxLineResult,
+  TaxTypeGuards
+} from '../types/taxTypes';
+import {
+  applyTaxRate,
+  gstPlaceOfSupply,
+  gstSupplyType,
+  splitTaxComponents,
+  sumTaxComponents
+} from '../utils/taxCalculation';
+import { findGstin, gstStateCodeFromGstin, normaliseGstStateCode } from '../utils/constants/gstStates';
+
+export interface TaxEngineResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+interface ResolvedRate {
+  id: string | null;
+  name: string;
+  rate: number;
+}
+
+interface TenantTaxProfile {
+  displayMode: TaxDisplayMode;
+  defaultRate: ResolvedRate | null;
+  rates: Map<string, ResolvedRate>;
+  countryCode: string | null;
+  stateCode: string | null;
+}
+
+const NO_TAX_RATE: ResolvedRate = { id: null, name: 'No tax', rate: 0 };
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+class TaxEngineService {
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string): TaxEngineResult<T> {
+    return { success: false, error: { code, message } };
+  }
+
+  /**
+   * Calculate tax for one amount or a set of lines.
+   * Fails with RATE_NOT_FOUND when a tax_rate_id is not an active rate of
+   * this tenant; a tenant without any default rate simply calculates no tax.
+   */
+  async calculate(tenantId: string, ctx: TaxCalculationContext): Promise<TaxEngineResult<TaxCalculationResult>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('CONFIG', 'Supabase is not configured');
+
+    try {
+      const profile = await this.loadTenantProfile(supabase, tenantId);
+      const buyer = await this.resolveBuyer(supabase, tenantId, ctx);
+
+      const displayMode: TaxDisplayMode = ctx.display_mode && TaxTypeGuards.isValidDisplayMode(ctx.display_mode)
+        ? ctx.display_mode
+        : profile.displayMode;
+      const supplyType = gstSupplyType({
+        sellerCountryCode: profile.countryCode,
+        sellerStateCode: profile.stateCode,
+        buyerCountryCode: buyer.countryCode,
+        buyerStateCode: buyer.stateCode,
+      });
+      const placeOfSupply = gstPlaceOfSupply(supplyType, buyer.stateCode, profile.stateCode);
+
+      const inputs: TaxCalculationLine[] = Array.isArray(ctx.lines) && ctx.lines.length > 0
+        ? ctx.lines
+        : [{ amount: Number(ctx.amount) || 0, tax_rate_id: ctx.tax_rate_id, tax_rate: ctx.tax_rate }];
+
+      const lines: TaxLineResult[] = [];
+      for (const input of inputs) {
+        const rate = this.resolveRate(profile, {
+          taxRateId: input.tax_rate_id ?? ctx.tax_rate_id,
+          taxRate: input.tax_rate ?? ctx.tax_rate,
+          useDefault: ctx.use_default_rate !== false,
+        });
+        if (!rate) {
+          return this.fail('RATE_NOT_FOUND', `Tax rate ${input.tax_rate_id ?? ctx.tax_rate_id} not found`);
+        }
+
+        const split = applyTaxRate(Number(input.amount) || 0, rate.rate, displayMode);
+        lines.push({
+          ...split,
+          tax_rate: displayMode === 'no_tax' ? 0 : rate.rate,
+          tax_rate_id: rate.id,
+          tax_rate_name: displayMode === 'no_tax' ? NO_TAX_RATE.name : rate.name,
+          components: splitTaxComponents(split.tax_amount, rate.rate, supplyType, placeOfSupply),
+          ...(input.description ? { description: input.description } : {}),
+        });
+      }
+
+      const rates = Array.from(new Set(lines.map((l) => l.tax_rate)));
+      return {
+        success: true,
+        data: {
+          base_amount: round2(lines.reduce((s, l) => s + l.base_amount, 0)),
+          tax_amount: round2(lines.reduce((s, l) => s + l.tax_amount, 0)),
+          total_amount: round2(lines.reduce((s, l) => s + l.total_amount, 0)),
+          tax_rate: rates.length === 1 ? rates[0] : 0,
+          tax_rate_name: rates.length === 1 ? lines[0].tax_rate_name : 'Multiple rates',
+          display_mode: displayMode,
+          supply_type: supplyType,
+          seller_state_code: profile.stateCode,
+          place_of_supply: placeOfSupply,
+          components: sumTaxComponents(lines.map((l) => l.components)),
+          lines,
+        },
+      };
+    } catch (e: any) {
+      console.error('[TaxEngineService] calculate error:', e.message);
+      return this.fail('DATABASE_ERROR', e.message || 'Tax calculation failed');
+    }
+  }
+
+  /**
+   * Whether a client-sent tax amount agrees with the engine's. Each line is
+   * rounded on its own, so a total rounded once may be off by a paisa a line.
+   */
+  taxMatches(sent: number, taxAmount: number, lineCount: number): boolean {
+    return Math.abs(round2(sent) - taxAmount) <= 0.01 * Math.max(1, lineCount) + 1e-9;
+  }
+
+  /**
+   * Apply the server's tax calculation to a contract create payload. Each
+   * taxed block's content_snapshot gets `taxCalculation` (base/tax/total and
+   * GST components for its taxRate + taxInclusion, after the contract
+   * discount) and metadata gets the contract-level `tax_calculation`.
+   * The engine's tax is authoritative: a tax_total that disagrees is refused
+   * (TAX_MISMATCH), otherwise tax_total becomes the engine's figure and
+   * grand_total moves by the rounding difference. Fails when the engine
+   * cannot calculate.
+   */
+  async applyContractTax(tenantId: string, body: Record<string, any>): Promise<TaxEngineResult<Record<string, any>>> {
+    const blocks: any[] = Array.isArray(body?.blocks) ? body.blocks : [];
+    const taxed = blocks.filter((b) => Number(b?.content_snapshot?.taxRate) > 0 && Number(b?.content_snapshot?.totalPrice) > 0);
+    if (taxed.length === 0) return { success: true, data: body };
+
+    // Same pro-rata discount as the derived billing amounts
+    const baseSubtotal = Number(body.base_subtotal) || 0;
+    const discountTotal = Number(body.discount_total) || 0;
+    const discountFactor = baseSubtotal > 0 && discountTotal ? Math.max(0, (baseSubtotal - discountTotal) / baseSubtotal) : 1;
+
+    const lines = taxed.map((b) => ({
+      amount: round2(Number(b.content_snapshot.totalPrice) * discountFactor),
+      tax_rate: Number(b.content_snapshot.taxRate),
+      // Block prices are tax-exclusive unless the snapshot says otherwise
+      display_mode: (b.content_snapshot.taxInclusion === 'inclusive' ? 'including_tax' : 'excluding_tax') as TaxDisplayMode,
+    }));
+
+    // One calculation per display mode; lines keep their input order
+    const results = new Map<TaxDisplayMode, TaxCalculationResult>();
+    for (const mode of Array.from(new Set(lines.map((l) => l.display_mode)))) {
+      const result = await this.calculate(tenantId, {
+        lines: lines.filter((l) => l.display_mode === mode),
+        display_mode: mode,
+        buyer_contact_id: body.buyer_id || body.contact_id || undefined,
+      });
+      if (!result.success || !result.data) {
+        return this.fail(result.error?.code || 'TAX_ENGINE_ERROR', `Contract tax could not be calculated: ${result.error?.message || 'tax engine unavailable'}`);
+      }
+      results.set(mode, result.data);
+    }
+
+    const all = Array.from(results.values());
+    const taxAmount = round2(all.reduce((s, r) => s + r.tax_amount, 0));
+    const lineCount = all.reduce((s, r) => s + r.lines.length, 0);
+
+    const sentTax = body.tax_total === undefined || body.tax_total === null || body.tax_total === ''
+      ? null
+      : Number(body.tax_total);
+    if (sentTax !== null && !this.taxMatches(sentTax, taxAmount, lineCount)) {
+      return this.fail('TAX_MISMATCH', `tax_total ${sentTax} does not match the calculated tax ${taxAmount}`);
+    }
+
+    const cursor = new Map<TaxDisplayMode, number>();
+    const annotatedBlocks = blocks.map((b) => {
+      if (!taxed.includes(b)) return b;
+      const mode = lines[taxed.indexOf(b)].display_mode;
+      const index = cursor.get(mode) || 0;
+      cursor.set(mode, index + 1);
+      return { ...b, content_snapshot: { ...b.content_snapshot, taxCalculation: results.get(mode)!.lines[index] } };
+    });
+
+    const totals: Record<string, number> = { tax_total: taxAmount };
+    if (sentTax !== null && body.grand_total !== undefined && body.grand_total !== null && Number.isFinite(Number(body.grand_total))) {
+      totals.grand_total = round2(Number(body.grand_total) + taxAmount - sentTax);
+    }
+
+    const first = all[0];
+    return {
+      success: true,
+      data: {
+        ...body,
+        ...totals,
+        blocks: annotatedBlocks,
+        metadata: {
+          ...(body.metadata || {}),
+          tax_calculation: {
+            base_amount: round2(all.reduce((s, r) => s + r.base_amount, 0)),
+            tax_amount: taxAmount,
+            total_amount: round2(all.reduce((s, r) => s + r.total_amount, 0)),
+            supply_type: first.supply_type,
+            seller_state_code: first.seller_state_code,
+            place_of_supply: first.place_of_supply,
+            components: sumTaxComponents(all.map((r) => r.components)),
+            calculated_at: new Date().toISOString(),
+          },
+        },
+      },
+    };
+  }
+
+  // ─────────────────────────────────────────────
+  // Resolution
+  // ─────────────────────────────────────────────
+
+  private resolveRate(
+    profile: TenantTaxProfile,
+    input: { taxRateId?: string; taxRate?: number; useDefault: boolean }
+  ): ResolvedRate | null {
+    if (input.taxRate !== undefined && input.taxRate !== null && Number.isFinite(Number(input.taxRate))) {
+      const rate = Number(input.taxRate);
+      const named = Array.from(profile.rates.values()).find((r) => r.rate === rate);
+      return named || { id: null, name: `Tax ${rate}%`, rate };
+    }
+    if (input.taxRateId) return profile.rates.get(input.taxRateId) || null;
+    if (input.useDefault && profile.defaultRate) return profile.defaultRate;
+    return NO_TAX_RATE;
+  }
+
+  private async loadTenantProfile(supabase: SupabaseClient, tenantId: string): Promise<TenantTaxProfile> {
+    const [settingsRes, ratesRes, tenantRes, taxInfoRes] = await Promise.all([
+      supabase.from('t_tax_settings').select('display_mode, default_tax_rate_id').eq('tenant_id', tenantId).maybeSingle(),
+      supabase.from('t_tax_rates').select('id, name, rate, is_default').eq('tenant_id', tenantId).eq('is_active', true),
+      supabase.from('t_tenant_profiles').select('country_code, state_code').eq('tenant_id', tenantId).maybeSingle(),
+      supabase.from('t_tax_info').select('tax_id_type, tax_id_value').eq('tenant_id', tenantId),
+    ]);
+    if (settingsRes.error) throw new Error(settingsRes.error.message);
+    if (ratesRes.error) throw new Error(ratesRes.error.message);
+
+    const rates = new Map<string, ResolvedRate>();
+    for (const row of ratesRes.data || []) {
+      rates.set(row.id, { id: row.id, name: row.name, rate: Number(row.rate) || 0 });
+    }
+    const defaultId = settingsRes.data?.default_tax_rate_id;
+    const defaultRow = (defaultId && rates.get(defaultId))
+      || (ratesRes.data || []).filter((r: any) => r.is_default).map((r: any) => rates.get(r.id)!)[0]
+      || null;
+
+    const mode = settingsRes.data?.display_mode;
+    const gstin = (taxInfoRes.data || [])
+      .map((r: any) => gstStateCodeFromGstin(r.tax_id_value))
+      .find((code: string | null) => !!code) || null;
+
+    return {
+      displayMode: TaxTypeGuards.isValidDisplayMode(mode) ? mode : TAX_CONSTANTS.DEFAULTS.DISPLAY_MODE,
+      defaultRate: defaultRow,
+      rates,
+      countryCode: tenantRes.data?.country_code || null,
+      stateCode: normaliseGstStateCode(tenantRes.data?.state_code) || gstin,
+    };
+  }
+
+  private async resolveBuyer(
+    supabase: SupabaseClient,
+    tenantId: string,
+    ctx: TaxCalculationContext
+  ): Promise<{ countryCode: string | null; stateCode: string | null }> {
+    if (ctx.buyer_state_code || ctx.buyer_country_code || !ctx.buyer_contact_id) {
+      return {
+        countryCode: ctx.buyer_country_code ? ctx.buyer_country_code.toUpperCase() : null,
+        stateCode: normaliseGstStateCode(ctx.buyer_state_code),
+      };
+    }
+
+    const { data: contact, error } = await supabase
+      .from('t_contacts')
+      .select('id, compliance_numbers')
+      .eq('id', ctx.buyer_contact_id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!contact) return { countryCode: null, stateCode: null };
+
+    const { data: addresses, error: addrError } = await supabase
+      .from('t_contact_addresses')
+      .select('type, state_code, country_code, is_primary')
+      .eq('contact_id', contact.id);
+    if (addrError) throw new Error(addrError.message);
+
+    const address = (addresses || []).find((a: any) => a.type === 'billing')
+      || (addresses || []).find((a: any) => a.is_primary)
+      || (addresses || [])[0];
+    const gstinState = gstStateCodeFromGstin(findGstin(contact.compliance_numbers));
+
+    return {
+      countryCode: address?.country_code || (gstinState ? 'IN' : null),
+      stateCode: normaliseGstStateCode(address?.state_code) || gstinState,
+    };
+  }
+}
+
+export const taxEngineService = new TaxEngineService();
+export default taxEngineService;
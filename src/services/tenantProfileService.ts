@@ -111,6 +111,8 @@ export interface TenantProfile {
   contact_last_name: string | null;
   primary_color: string | null;
   secondary_color: string | null;
+  // IANA zone for contract event derivation (default Asia/Kolkata)
+  timezone: string | null;
   created_at: string;
   updated_at: string;
 }
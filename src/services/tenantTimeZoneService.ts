@@ -0,0 +1,69 @@
+// ============================================================================
+// Tenant Time Zone Service — the IANA zone a tenant's calendar is kept in
+// ============================================================================
+// Reads t_tenant_profiles.timezone (src/migrations/009) for server-side event
+// derivation (deriveContractEvents' `timeZone`). Falls back to the platform
+// default — Asia/Kolkata, the zone every pre-existing tenant was derived in —
+// when the profile has no zone, an unknown one, or the lookup fails.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isValidTimeZone } from './contractEventsDerivationService';
+
+export const DEFAULT_TENANT_TIME_ZONE = 'Asia/Kolkata';
+
+// Profile zone changes are rare; 5 minutes keeps derivation off the DB
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+  timeZone: string;
+  expiry: number;
+}
+
+class TenantTimeZoneService {
+  private cache = new Map<string, CacheEntry>();
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  async getTimeZone(tenantId: string): Promise<string> {
+    if (!tenantId) return DEFAULT_TENANT_TIME_ZONE;
+
+    const cached = this.cache.get(tenantId);
+    if (cached && Date.now() < cached.expiry) return cached.timeZone;
+    if (cached) this.cache.delete(tenantId);
+
+    const supabase = this.client();
+    if (!supabase) return DEFAULT_TENANT_TIME_ZONE;
+
+    const { data, error } = await supabase
+      .from('t_tenant_profiles')
+      .select('timezone')
+      .eq('tenant_id', tenantId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      // Not cached — the next call retries
+      console.warn('[TenantTimeZoneService] lookup failed, using default:', error.message);
+      return DEFAULT_TENANT_TIME_ZONE;
+    }
+
+    const zone = data?.timezone && isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TENANT_TIME_ZONE;
+    this.cache.set(tenantId, { timeZone: zone, expiry: Date.now() + CACHE_TTL_MS });
+    return zone;
+  }
+
+  /** Drop the cached zone (after the tenant profile is updated) */
+  invalidate(tenantId: string): void {
+    this.cache.delete(tenantId);
+  }
+}
+
+export const tenantTimeZoneService = new TenantTimeZoneService();
+export default tenantTimeZoneService;
@@ -0,0 +1,426 @@
+// ============================================================================
+// Upload Scan Service — content-type sniffing, antivirus, quarantine
+// ============================================================================
+// Every upload is checked before it is kept, whatever route it came through
+// (multer routes via the scanUploads middleware, chunked / direct uploads when
+// they complete):
+//   1. the bytes are sniffed (utils/fileSignature) — executables and #!
+//      scripts, files whose content does not match the declared mimetype and
+//      SVGs carrying script are rejected
+//   2. the antivirus hook scans them — ClamAV (clamd over CLAMAV_SOCKET, or
+//      CLAMAV_HOST / CLAMAV_PORT) when configured, or any scanner set with
+//      setScanner(). Malware is rejected and never stored.
+//   3. when the scanner cannot be reached, STORAGE_SCAN_FAIL_MODE decides:
+//      quarantine (default) stores the file under <root>/quarantine/ where it
+//      is not served until POST /api/storage/files/:id/rescan clears it;
+//      reject refuses the upload; allow stores it as unscanned
+// Files over STORAGE_SCAN_MAX_MB (default 25, clamd's StreamMaxLength) are
+// not read back for scanning and are stored as unscanned.
+// The verdict is kept in StorageFile.metadata.scan (scan_status column,
+// src/migrations/024) and every verdict is written to the audit log with a
+// security severity: malware CRITICAL, rejections and quarantine WARNING.
+// Server-side Supabase client (service role) — same pattern as invoiceService.
+// ============================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { auditService } from './auditService';
+import { storageService } from './storageService';
+import { storageMediaService } from './storageMediaService';
+import { storageProviderService } from './storageProviderService';
+import { clamdScan } from '../utils/clamav';
+import { declaredTypeMatches, normalizeMimeType, sniffFileType } from '../utils/fileSignature';
+import { captureException } from '../utils/sentry';
+import {
+  AuditAction,
+  AuditContext,
+  AuditResource,
+  AuditSeverity
+} from '../constants/auditConstants';
+import {
+  AntivirusScanner,
+  PaginatedFilesResponse,
+  StorageFile,
+  StorageProvider,
+  StorageScanStatus,
+  StorageScanVerdict
+} from '../types/storage';
+
+export interface UploadScanResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string; details?: any };
+}
+
+/** The upload a verdict is about, for the audit entry */
+export interface ScannedUpload {
+  fileName: string;
+  fileSize: number;
+  category?: string;
+  fileId?: string;
+  /** Route or flow the file came through, e.g. /api/storage/files */
+  source: string;
+}
+
+/** Directory inserted before <category>/<file> for quarantined objects */
+export const QUARANTINE_DIR = 'quarantine';
+
+type ScanFailMode = 'quarantine' | 'reject' | 'allow';
+
+const DEFAULT_CLAMD_PORT = 3310;
+
+const scanTimeoutMs = (): number => Number(process.env.STORAGE_SCAN_TIMEOUT_MS || 30000);
+
+const maxScanBytes = (): number => Number(process.env.STORAGE_SCAN_MAX_MB || 25) * 1024 * 1024;
+
+const failMode = (): ScanFailMode => {
+  const mode = (process.env.STORAGE_SCAN_FAIL_MODE || 'quarantine').toLowerCase();
+  return mode === 'reject' || mode === 'allow' ? mode : 'quarantine';
+};
+
+/** ClamAV scanner from the environment, or null when none is configured */
+const clamdFromEnv = (): AntivirusScanner | null => {
+  const socketPath = process.env.CLAMAV_SOCKET;
+  const host = process.env.CLAMAV_HOST;
+  if (!socketPath && !host) return null;
+  const target = {
+    socketPath,
+    host,
+    port: Number(process.env.CLAMAV_PORT || DEFAULT_CLAMD_PORT),
+    timeoutMs: scanTimeoutMs()
+  };
+  return { name: 'clamav', scan: buffer => clamdScan(buffer, target) };
+};
+
+const isPaginatedFiles = (result: StorageFile | PaginatedFilesResponse): result is PaginatedFilesResponse =>
+  Array.isArray((result as PaginatedFilesResponse).files);
+
+/**
+ * HTTP status, error code and message for a rejected upload
+ */
+export const scanRejection = (verdict: StorageScanVerdict): { status: number; code: string; message: string } => {
+  switch (verdict.reason) {
+    case 'type_mismatch':
+      return {
+        status: 415,
+        code: 'FILE_TYPE_MISMATCH',
+        message: `File content does not match its declared type ${verdict.declared_mime}`
+      };
+    case 'active_content':
+      return { status: 415, code: 'FILE_ACTIVE_CONTENT', message: 'SVG files must not contain scripts or event handlers' };
+    case 'executable':
+      return { status: 422, code: 'FILE_EXECUTABLE', message: 'Executable files cannot be uploaded' };
+    case 'infected':
+      return { status: 422, code: 'MALWARE_DETECTED', message: 'The file was flagged by the antivirus scan' };
+    default:
+      return { status: 503, code: 'SCANNER_UNAVAILABLE', message: 'The file could not be scanned — try again later' };
+  }
+};
+
+export class UploadScanService {
+  /** undefined until first use: read from the environment then */
+  private scanner: AntivirusScanner | null | undefined;
+
+  private client(): SupabaseClient | null {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) return null;
+    return createClient(url, key, { auth: { persistSession: false } });
+  }
+
+  private fail<T = any>(code: string, message: string, details?: any): UploadScanResult<T> {
+    return { success: false, error: { code, message, ...(details !== undefined ? { details } : {}) } };
+  }
+
+  /** Replace the antivirus hook (null: no antivirus, sniffing only) */
+  setScanner(scanner: AntivirusScanner | null): void {
+    this.scanner = scanner;
+  }
+
+  private activeScanner(): AntivirusScanner | null {
+    if (this.scanner === undefined) this.scanner = clamdFromEnv();
+    return this.scanner;
+  }
+
+  // ==========================================================================
+  // VERDICTS
+  // ==========================================================================
+
+  /** Sniff and scan a file. Never throws: a scanner failure is a verdict too. */
+  async inspect(buffer: Buffer, declaredMime: string): Promise<StorageScanVerdict> {
+    const sniffed = sniffFileType(buffer);
+    const base = {
+      declared_mime: normalizeMimeType(declaredMime),
+      detected_mime: sniffed.mime,
+      scanned_at: new Date().toISOString()
+    };
+
+    if (sniffed.executable) {
+      return { ...base, status: 'rejected', reason: 'executable' };
+    }
+    if (!declaredTypeMatches(declaredMime, sniffed.mime)) {
+      return {
+        ...base,
+        status: 'rejected',
+        reason: 'type_mismatch',
+        detail: `Declared ${base.declared_mime}, content is ${sniffed.mime || 'not a recognised type'}`
+      };
+    }
+    if (sniffed.activeContent) {
+      return { ...base, status: 'rejected', reason: 'active_content' };
+    }
+
+    const scanner = this.activeScanner();
+    if (!scanner) return { ...base, status: 'unscanned', reason: 'no_scanner' };
+    if (buffer.length > maxScanBytes()) return { ...base, status: 'unscanned', reason: 'too_large', scanner: scanner.name };
+
+    try {
+      const result = await scanner.scan(buffer);
+      return result.infected
+        ? { ...base, status: 'rejected', reason: 'infected', scanner: scanner.name, signature: result.signature }
+        : { ...base, status: 'clean', scanner: scanner.name };
+    } catch (error: any) {
+      const mode = failMode();
+      const status: StorageScanStatus = mode === 'reject' ? 'rejected' : mode === 'allow' ? 'unscanned' : 'quarantined';
+      return { ...base, status, reason: 'scanner_unavailable', scanner: scanner.name, detail: error.message };
+    }
+  }
+
+  /** Write a verdict to the audit log */
+  async recordVerdict(context: AuditContext, verdict: StorageScanVerdict, upload: ScannedUpload): Promise<void> {
+    let action = AuditAction.FILE_SCAN;
+    let severity = verdict.reason === 'no_scanner' ? AuditSeverity.INFO : AuditSeverity.WARNING;
+    if (verdict.status === 'clean') {
+      severity = AuditSeverity.INFO;
+    } else if (verdict.status === 'quarantined') {
+      action = AuditAction.FILE_QUARANTINED;
+    } else if (verdict.status === 'rejected') {
+      if (verdict.reason === 'infected' || verdict.reason === 'executable') {
+        action = AuditAction.MALWARE_DETECTED;
+        severity = AuditSeverity.CRITICAL;
+      } else {
+        action = AuditAction.FILE_REJECTED;
+        severity = verdict.reason === 'scanner_unavailable' ? AuditSeverity.ERROR : AuditSeverity.WARNING;
+      }
+    }
+
+    await auditService.log(
+      {
+        action,
+        resource: AuditResource.STORAGE,
+        resourceId: upload.fileId,
+        success: verdict.status !== 'rejected',
+        error: verdict.status === 'rejected' ? scanRejection(verdict).message : undefined,
+        severity,
+        metadata: {
+          fileName: upload.fileName,
+          fileSize: upload.fileSize,
+          category: upload.category,
+          source: upload.source,
+          scan: verdict
+        }
+      },
+      context
+    );
+  }
+
+  // ==========================================================================
+  // QUARANTINE
+  // ==========================================================================
+
+  /** <root>/<category>/<file> → <root>/quarantine/<category>/<file> */
+  quarantinePath(filePath: string): string {
+    const segments = filePath.split('/');
+    segments.splice(Math.max(0, segments.length - 2), 0, QUARANTINE_DIR);
+    return segments.join('/');
+  }
+
+  /** Inverse of quarantinePath */
+  releasedPath(filePath: string): string {
+    const segments = filePath.split('/');
+    if (segments[segments.length - 3] === QUARANTINE_DIR) segments.splice(segments.length - 3, 1);
+    return segments.join('/');
+  }
+
+  isQuarantinePath(filePath: string): boolean {
+    const segments = filePath.split('/');
+    return segments[segments.length - 3] === QUARANTINE_DIR;
+  }
+
+  /**
+   * Set scan_status on file records and hide the URL of quarantined ones
+   * (records from before quarantine URLs were withheld may still carry one).
+   * Works on a file, an array of files or a paginated { files } response.
+   */
+  withScanStatus(file: StorageFile): StorageFile;
+  withScanStatus(files: StorageFile[]): StorageFile[];
+  withScanStatus(page: PaginatedFilesResponse): PaginatedFilesResponse;
+  withScanStatus(result: StorageFile[] | PaginatedFilesResponse): StorageFile[] | PaginatedFilesResponse;
+  withScanStatus(
+    result: StorageFile | StorageFile[] | PaginatedFilesResponse
+  ): StorageFile | StorageFile[] | PaginatedFilesResponse {
+    if (Array.isArray(result)) return result.map(file => this.fileWithScanStatus(file));
+    if (isPaginatedFiles(result)) return { ...result, files: result.files.map(file => this.fileWithScanStatus(file)) };
+    return this.fileWithScanStatus(result);
+  }
+
+  private fileWithScanStatus(file: StorageFile): StorageFile {
+    const status: StorageScanStatus = file.metadata?.scan?.status || file.scan_status || 'unscanned';
+    return status === 'quarantined'
+      ? { ...file, scan_status: status, download_url: '' }
+      : { ...file, scan_status: status };
+  }
+
+  /**
+   * Scan an object already in storage (chunked / direct uploads). Rejected
+   * objects are deleted; quarantined ones are moved under the quarantine
+   * directory. Returns the verdict and where the object now is.
+   */
+  async scanStoredObject(
+    provider: StorageProvider,
+    filePath: string,
+    mimeType: string,
+    fileSize: number
+  ): Promise<{ verdict: StorageScanVerdict; filePath: string }> {
+    // Too large to read back: no sniffing or antivirus verdict
+    if (fileSize > maxScanBytes()) {
+      const scanner = this.activeScanner();
+      return {
+        verdict: {
+          status: 'unscanned',
+          reason: 'too_large',
+          declared_mime: normalizeMimeType(mimeType),
+          detected_mime: null,
+          ...(scanner ? { scanner: scanner.name } : {}),
+          scanned_at: new Date().toISOString()
+        },
+        filePath
+      };
+    }
+
+    const object = await provider.getObject(filePath);
+    if (!object) throw new Error('Stored object not found');
+    const verdict = await this.inspect(object.body, mimeType);
+
+    if (verdict.status === 'rejected') {
+      await provider.deleteObject(filePath);
+      return { verdict, filePath };
+    }
+    if (verdict.status === 'quarantined') {
+      const quarantined = this.quarantinePath(filePath);
+      await provider.putObject(quarantined, object.body, { contentType: object.contentType, metadata: object.metadata });
+      await provider.deleteObject(filePath);
+      return { verdict, filePath: quarantined };
+    }
+    return { verdict, filePath };
+  }
+
+  /**
+   * Scan a quarantined file again. Clean: moved out of quarantine (and given
+   * its thumbnails / preview). Malware: the file is deleted. Scanner still
+   * unreachable or none configured: SCANNER_UNAVAILABLE, file untouched.
+   */
+  async rescanFile(
+    ctx: { tenantId: string; productCode?: string; authToken: string; auditContext: AuditContext },
+    fileId: string
+  ): Promise<UploadScanResult<{ file?: StorageFile; scan: StorageScanVerdict; deleted: boolean }>> {
+    const supabase = this.client();
+    if (!supabase) return this.fail('SERVICE_UNAVAILABLE', 'Database is not configured');
+
+    const { data: file, error } = await supabase
+      .from('t_tenant_files')
+      .select('*')
+      .eq('id', fileId)
+      .eq('tenant_id', ctx.tenantId)
+      .maybeSingle();
+    if (error) return this.fail('DATABASE_ERROR', error.message);
+    if (!file) return this.fail('NOT_FOUND', 'File not found');
+    if (file.metadata?.scan?.status !== 'quarantined') {
+      return this.fail('CONFLICT', 'File is not quarantined');
+    }
+
+    const provider = storageProviderService.forTenant(ctx.productCode, ctx.tenantId);
+    const object = await provider.getObject(file.file_path);
+    if (!object) return this.fail('NOT_FOUND', 'Quarantined object is missing from storage');
+
+    const verdict = await this.inspect(object.body, file.mime_type);
+    await this.recordVerdict(ctx.auditContext, verdict, {
+      fileName: file.file_name,
+      fileSize: file.file_size,
+      category: file.file_category,
+      fileId,
+      source: 'rescan'
+    });
+
+    if (verdict.status === 'rejected' && verdict.reason !== 'scanner_unavailable') {
+      await storageService.deleteFile(ctx.authToken, ctx.tenantId, fileId, ctx.productCode);
+      return { success: true, data: { scan: verdict, deleted: true } };
+    }
+    if (verdict.status !== 'clean') {
+      return this.fail(
+        'SCANNER_UNAVAILABLE',
+        verdict.reason === 'no_scanner'
+          ? 'No antivirus scanner is configured — the file cannot be cleared'
+          : 'The antivirus scanner is still unavailable',
+        { scan: verdict }
+      );
+    }
+
+    try {
+      const filePath = this.releasedPath(file.file_path);
+      const { url } = await provider.putObject(filePath, object.body, {
+        contentType: object.contentType,
+        metadata: object.metadata
+      });
+      const processed = storageMediaService.handles(file.file_category, file.mime_type)
+        ? await storageMediaService.processStoredObject(provider, filePath, file.mime_type, object.body.length)
+        : null;
+
+      const { data: released, error: updateError } = await supabase
+        .from('t_tenant_files')
+        .update({
+          file_path: filePath,
+          download_url: url,
+          file_size: processed ? processed.fileSize : file.file_size,
+          metadata: {
+            ...(file.metadata || {}),
+            scan: verdict,
+            ...(processed ? { derivatives: processed.derivatives } : {})
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', fileId)
+        .select('*')
+        .single();
+      if (updateError || !released) {
+        // The record still points at the quarantined copy
+        await provider.deleteObject(filePath).catch(() => undefined);
+        return this.fail('DATABASE_ERROR', updateError?.message || 'Failed to update the file record');
+      }
+      await provider.deleteObject(file.file_path);
+
+      await auditService.log(
+        {
+          action: AuditAction.FILE_QUARANTINE_RELEASED,
+          resource: AuditResource.STORAGE,
+          resourceId: fileId,
+          success: true,
+          severity: AuditSeverity.INFO,
+          metadata: { fileName: file.file_name, scanner: verdict.scanner }
+        },
+        ctx.auditContext
+      );
+
+      return { success: true, data: { file: this.withScanStatus(released as StorageFile), scan: verdict, deleted: false } };
+    } catch (releaseError: any) {
+      captureException(releaseError instanceof Error ? releaseError : new Error(String(releaseError)), {
+        tags: { source: 'upload_scan_service', action: 'rescanFile' },
+        tenantId: ctx.tenantId,
+        fileId
+      });
+      return this.fail('STORAGE_ERROR', releaseError.message || 'Could not move the file out of quarantine');
+    }
+  }
+}
+
+export const uploadScanService = new UploadScanService();
+export default uploadScanService;
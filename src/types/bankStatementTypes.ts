@@ -0,0 +1,137 @@
+// ============================================================================
+// Bank Statement DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Bank statement import (CSV / MT940) and reconciliation of its
+//          credits against open invoices (t_bank_statement_imports/_lines)
+// ============================================================================
+
+export const BANK_STATEMENT_FORMATS = ['csv', 'mt940'] as const;
+
+export type BankStatementFormat = typeof BANK_STATEMENT_FORMATS[number];
+
+export const BANK_STATEMENT_LINE_STATUSES = {
+  UNMATCHED: 'unmatched',     // no invoice scored high enough to suggest
+  SUGGESTED: 'suggested',     // suggestions waiting for confirmation
+  MATCHING: 'matching',       // confirm in flight (receipt being recorded)
+  MATCHED: 'matched',         // receipt recorded against an invoice
+  IGNORED: 'ignored'          // not an invoice payment (interest, refund, transfer)
+} as const;
+
+export type BankStatementLineStatus = typeof BANK_STATEMENT_LINE_STATUSES[keyof typeof BANK_STATEMENT_LINE_STATUSES];
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+/** One credit parsed from a statement, before it is stored */
+export interface ParsedStatementLine {
+  txn_date: string;                  // ISO date
+  value_date: string | null;
+  description: string;
+  reference: string | null;          // UTR / RRN / cheque no.
+  payer_name: string | null;         // best guess from the narration
+  amount: number;                    // always positive
+  direction: 'credit' | 'debit';
+  balance: number | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  bank: string;                      // 'hdfc' | 'icici' | 'sbi' | 'axis' | 'kotak' | 'mt940' | 'generic'
+  account_number: string | null;
+  currency: string | null;
+  lines: ParsedStatementLine[];
+  /** Rows that looked like transactions but could not be read */
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+/** An open invoice as the matcher sees it */
+export interface MatchCandidate {
+  invoice_id: string;
+  invoice_number: string | null;
+  contract_id: string | null;
+  contract_number: string | null;
+  buyer_name: string | null;
+  currency: string;
+  total_amount: number;
+  outstanding: number;
+  invoice_date: string | null;
+}
+
+export interface MatchSuggestion {
+  invoice_id: string;
+  invoice_number: string | null;
+  contract_id: string | null;
+  buyer_name: string | null;
+  outstanding: number;
+  score: number;                     // 0-100
+  confidence: MatchConfidence;
+  reasons: string[];                 // e.g. 'amount_equals_outstanding', 'invoice_number_in_narration'
+}
+
+export interface BankStatementImport {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  file_name: string | null;
+  format: BankStatementFormat;
+  bank: string;
+  account_number: string | null;
+  currency: string | null;
+  period_from: string | null;
+  period_to: string | null;
+  credit_count: number;
+  debit_count: number;
+  duplicate_count: number;
+  skipped_rows: Array<{ row: number; reason: string }>;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  import_id: string;
+  tenant_id: string;
+  is_live: boolean;
+  txn_date: string;
+  value_date: string | null;
+  description: string;
+  reference: string | null;
+  payer_name: string | null;
+  amount: number;
+  currency: string | null;
+  balance: number | null;
+  status: BankStatementLineStatus;
+  suggestions: MatchSuggestion[];
+  best_score: number | null;
+  invoice_id: string | null;
+  contract_id: string | null;
+  receipt_id: string | null;
+  matched_amount: number | null;
+  matched_by: string | null;
+  matched_at: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Confirm a line against an invoice
+ * POST /api/finance/bank-statements/lines/:lineId/confirm
+ *
+ * amount defaults to the line amount, capped at the invoice's outstanding.
+ */
+export interface ConfirmBankLineRequest {
+  invoice_id: string;
+  amount?: number;
+}
+
+export interface BankStatementImportResult {
+  import: BankStatementImport;
+  lines: BankStatementLine[];
+  summary: {
+    credits: number;
+    stored: number;
+    duplicates: number;
+    suggested: number;
+    high_confidence: number;
+  };
+}
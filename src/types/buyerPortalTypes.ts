@@ -0,0 +1,142 @@
+// ============================================================================
+// Buyer Portal DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Buyer self-service portal (/api/portal) — OTP sign-in, the buyer's
+//          contracts, upcoming events, invoices, payments and service
+//          requests (t_portal_otp_challenges / _sessions / _service_requests)
+// ============================================================================
+
+export const PORTAL_OTP_CHANNELS = ['email', 'sms', 'whatsapp'] as const;
+
+export type PortalOtpChannel = typeof PORTAL_OTP_CHANNELS[number];
+
+/** Channels addressed by phone number — sign-in is scoped to one contact */
+export const PORTAL_PHONE_CHANNELS: readonly PortalOtpChannel[] = ['sms', 'whatsapp'];
+
+export const PORTAL_SERVICE_REQUEST_STATUSES = {
+  SUBMITTING: 'submitting',   // ticket being created at the service-execution edge
+  SUBMITTED: 'submitted',     // ticket created (ticket_id set)
+  FAILED: 'failed'            // ticket creation failed (error set)
+} as const;
+
+export type PortalServiceRequestStatus =
+  typeof PORTAL_SERVICE_REQUEST_STATUSES[keyof typeof PORTAL_SERVICE_REQUEST_STATUSES];
+
+/** POST /api/portal/auth/request-otp */
+export interface PortalOtpRequest {
+  tenant_id: string;
+  channel?: PortalOtpChannel;        // default email
+  destination: string;               // email, or phone number (+country code optional) for sms/whatsapp
+}
+
+/** POST /api/portal/auth/resend-otp — a fresh code for the same address */
+export interface PortalOtpResendRequest {
+  challenge_id: string;
+  channel?: PortalOtpChannel;        // e.g. switch sms → whatsapp; must address the same kind
+}
+
+/** Same answer whether or not the address is on file */
+export interface PortalOtpChallenge {
+  challenge_id: string;
+  channel: PortalOtpChannel;
+  destination_hint: string;          // masked, e.g. r***@example.com or ******0001
+  expires_at: string;
+  resend_after: string;              // no new code for this address before then
+}
+
+/** POST /api/portal/auth/verify-otp */
+export interface PortalOtpVerifyRequest {
+  challenge_id: string;
+  code: string;
+}
+
+export interface PortalSessionToken {
+  token: string;                     // bearer token — returned once, stored hashed
+  expires_at: string;
+  buyer: PortalBuyer;
+}
+
+/** Resolved on every portal request (middleware/portalAuth) */
+export interface PortalSession {
+  session_id: string;
+  tenant_id: string;
+  is_live: boolean;
+  contact_ids: string[];             // a single contact for phone sign-ins
+  channel: PortalOtpChannel;
+  destination: string;
+  expires_at: string;
+}
+
+export interface PortalBuyer {
+  contact_ids: string[];
+  name: string | null;
+  destination: string;
+  seller: { tenant_id: string; name: string | null };
+}
+
+export interface PortalContract {
+  id: string;
+  contract_number: string | null;
+  name: string | null;
+  status: string;
+  start_date: string | null;
+  end_date: string | null;
+  currency: string | null;
+  total_value: number | null;
+  buyer_id: string;
+}
+
+export interface PortalEvent {
+  id: string;
+  contract_id: string;
+  contract_number: string | null;
+  event_type: string;                // 'service' | 'billing'
+  block_name: string | null;
+  sequence_number: number | null;
+  total_occurrences: number | null;
+  scheduled_date: string;
+  status: string;
+  amount: number | null;
+  currency: string | null;
+}
+
+export interface PortalInvoice {
+  id: string;
+  invoice_number: string | null;
+  contract_id: string | null;
+  contract_number: string | null;
+  status: string;
+  invoice_date: string | null;
+  due_date: string | null;
+  currency: string;
+  total_amount: number;
+  outstanding: number;
+  payable: boolean;                  // contract invoice with money owed
+}
+
+/** POST /api/portal/service-requests */
+export interface CreatePortalServiceRequest {
+  contract_id: string;
+  subject: string;
+  description?: string;
+  preferred_date?: string;
+  event_id?: string;
+}
+
+export interface PortalServiceRequest {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  contact_id: string;
+  contract_id: string;
+  event_id: string | null;
+  subject: string;
+  description: string | null;
+  preferred_date: string | null;
+  status: PortalServiceRequestStatus;
+  ticket_id: string | null;
+  ticket_number: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
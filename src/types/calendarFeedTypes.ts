@@ -0,0 +1,45 @@
+// ============================================================================
+// Calendar Feed DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Tokenised read-only ICS subscriptions (t_calendar_feeds)
+// ============================================================================
+
+export const CALENDAR_FEED_SCOPES = {
+  TENANT: 'tenant',       // every contract event of the tenant
+  ASSIGNEE: 'assignee',   // contract events assigned to one user
+  CONTACT: 'contact',     // events of one buyer contact's contracts
+  BLOCK: 'block'          // group-session occurrences of one block
+} as const;
+
+export type CalendarFeedScope = typeof CALENDAR_FEED_SCOPES[keyof typeof CALENDAR_FEED_SCOPES];
+
+/**
+ * Create (or return the active) feed
+ * POST /api/calendar-feeds
+ */
+export interface CreateCalendarFeedRequest {
+  scope: CalendarFeedScope;
+  subject_id?: string;            // required unless scope === 'tenant'
+  label?: string;
+}
+
+export interface CalendarFeed {
+  id: string;
+  tenant_id: string;
+  scope: CalendarFeedScope;
+  subject_id: string | null;
+  token: string;
+  label: string | null;
+  is_live: boolean;
+  created_by: string | null;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** CalendarFeed plus the subscription URLs handed to the client */
+export interface CalendarFeedWithUrl extends CalendarFeed {
+  url: string;                    // https://…/api/ical/<token>.ics
+  webcal_url: string;             // webcal://… (one-tap subscribe)
+}
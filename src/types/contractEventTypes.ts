@@ -242,6 +242,44 @@ export interface UpdateContractEventResponse {
   data: ContractEventListItem;
 }
 
+// ============================================================================
+// OVERDUE SWEEP / ESCALATION
+// ============================================================================
+
+export const ESCALATION_LEVELS = {
+  ASSIGNEE: 'assignee',
+  MANAGER: 'manager'
+} as const;
+
+export type EscalationLevel = typeof ESCALATION_LEVELS[keyof typeof ESCALATION_LEVELS];
+
+/**
+ * Overdue escalation policy (t_overdue_escalation_policies)
+ * GET/PUT /api/contract-events/overdue-policy
+ */
+export interface OverdueEscalationPolicy {
+  tenant_id: string;
+  enabled: boolean;
+  service_grace_days: number;     // days past scheduled_date before overdue
+  billing_grace_days: number;
+  notify_assignee: boolean;       // JTD to the assignee when it turns overdue
+  manager_escalation_days: number; // days overdue before managers hear
+  manager_user_ids: string[];     // empty = no manager escalation
+  updated_at?: string | null;
+}
+
+export type UpdateOverdueEscalationPolicyRequest = Partial<Omit<OverdueEscalationPolicy, 'tenant_id' | 'updated_at'>>;
+
+/**
+ * Result of one sweep (background run or POST /api/contract-events/overdue-sweep)
+ */
+export interface OverdueSweepResult {
+  marked_overdue: number;
+  escalations: Record<EscalationLevel, number>;
+  escalation_failures: number;
+  tenants: number;
+}
+
 // ============================================================================
 // ERROR CODES
 // ============================================================================
@@ -318,6 +318,275 @@ export interface ContractStatsData {
   total_count: number;
 }
 
+// ============================================================================
+// AMENDMENTS (change orders — t_contract_amendments)
+// ============================================================================
+
+export const AMENDMENT_STATUSES = {
+  PROPOSED: 'proposed',
+  ACCEPTED: 'accepted',
+  REJECTED: 'rejected',
+  WITHDRAWN: 'withdrawn',
+  // The contract moved to a newer version before the buyer answered
+  SUPERSEDED: 'superseded'
+} as const;
+
+export type AmendmentStatus = typeof AMENDMENT_STATUSES[keyof typeof AMENDMENT_STATUSES];
+
+/**
+ * What an amendment changes. Every key is optional; an empty change set is
+ * rejected at validation.
+ */
+export interface ContractAmendmentChangeSet {
+  blocks_added?: ContractBlockInput[];
+  blocks_removed?: string[];          // t_contract_blocks row ids
+  total_value?: number;               // new contract price
+  duration_value?: number;
+  duration_unit?: 'days' | 'months' | 'years';
+  equipment_added?: ContractEquipmentDetail[];
+  equipment_removed?: string[];       // equipment_details[].id
+}
+
+/**
+ * Propose amendment request body
+ * POST /api/contracts/:id/amendments
+ */
+export interface ProposeAmendmentRequest {
+  base_version: number;               // contract version the change is against
+  change_set: ContractAmendmentChangeSet;
+  reason?: string;
+  effective_date?: string;            // YYYY-MM-DD, default today
+}
+
+/**
+ * Buyer response (public, CNAK-scoped)
+ * POST /api/contracts/public/amendments/respond
+ */
+export interface RespondToAmendmentRequest {
+  cnak: string;
+  secret_code: string;
+  amendment_id: string;
+  action: 'accept' | 'reject';
+  responder_name?: string;
+  responder_email?: string;
+  rejection_reason?: string;
+}
+
+export interface ContractAmendment {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  amendment_number: number;
+  base_version: number;
+  resulting_version: number | null;
+  status: AmendmentStatus;
+  change_set: ContractAmendmentChangeSet;
+  reason: string | null;
+  effective_date: string;
+  proposed_by: string | null;
+  proposed_by_name: string | null;
+  responder_name: string | null;
+  responder_email: string | null;
+  rejection_reason: string | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// RENEWALS (t_contract_renewal_settings / t_contract_renewals)
+// ============================================================================
+
+export const RENEWAL_STATUSES = {
+  DRAFTING: 'drafting',
+  DRAFTED: 'drafted',
+  NOTIFIED: 'notified'
+} as const;
+
+export type RenewalStatus = typeof RENEWAL_STATUSES[keyof typeof RENEWAL_STATUSES];
+
+/** Tenant renewal policy — defaults apply when the tenant has no row */
+export interface ContractRenewalSettings {
+  window_days: number;
+  escalation_percent: number;
+  notify_buyer: boolean;
+  auto_draft: boolean;                // renewal sweep drafts contracts entering the window
+}
+
+/**
+ * Renew contract request body
+ * POST /api/contracts/:id/renew
+ */
+export interface RenewContractRequest {
+  escalation_percent?: number;        // overrides the tenant default
+  start_date?: string;                // default: day after the current end date
+  notify?: boolean;                   // overrides settings.notify_buyer
+  notification?: Record<string, any>; // forwarded to /:id/notify (recipient_*)
+}
+
+/** What POST /api/contracts/:id/renew (and the renewal sweep) produce */
+export interface RenewContractResult {
+  renewal: ContractRenewal;
+  contract: Record<string, any>;
+  notification: any;
+}
+
+/** One renewal sweep over the tenants with auto_draft on */
+export interface RenewalSweepResult {
+  tenants: number;
+  drafted: number;
+  failed: number;
+}
+
+export interface ContractRenewal {
+  id: string;
+  tenant_id: string;
+  source_contract_id: string;
+  source_version: number | null;
+  renewal_contract_id: string | null;
+  status: RenewalStatus;
+  escalation_percent: number;
+  previous_total: number | null;
+  renewed_total: number | null;
+  notified_at: string | null;
+  notification_error: string | null;
+  created_at: string;
+}
+
+/** Row in GET /api/contracts/renewals */
+export interface RenewalDueItem {
+  contract_id: string;
+  contract_number: string | null;
+  title: string | null;
+  buyer_id: string | null;
+  buyer_name: string | null;
+  end_date: string;
+  days_to_expiry: number;
+  total_value: number | null;
+  currency: string | null;
+  renewal: ContractRenewal | null;
+}
+
+// ============================================================================
+// CANCELLATION SETTLEMENT (t_contract_settlements)
+// ============================================================================
+
+export const SETTLEMENT_STATUSES = {
+  COMMITTING: 'committing',
+  COMMITTED: 'committed',
+  FAILED: 'failed'
+} as const;
+
+export type SettlementStatus = typeof SETTLEMENT_STATUSES[keyof typeof SETTLEMENT_STATUSES];
+
+/** Commit steps, in the order they run */
+export type SettlementStep = 'deposit' | 'credit' | 'invoices' | 'receivable' | 'status';
+
+/**
+ * Settlement preview / commit request body
+ * POST /api/contracts/:id/settlement/preview
+ * POST /api/contracts/:id/settlement
+ */
+export interface ContractSettlementRequest {
+  cancellation_date?: string;         // YYYY-MM-DD, default today
+  preview_token?: string;             // required on commit — from the preview
+  note?: string;
+}
+
+/** How much of one block was consumed by the cancellation date */
+export interface SettlementBlockLine {
+  block_id: string;
+  block_name: string;
+  method: 'per_service' | 'time_elapsed';
+  contract_value: number;
+  consumed_value: number;
+  services_total?: number;
+  services_consumed?: number;
+  elapsed_days?: number;
+  term_days?: number;
+}
+
+export interface ContractSettlementPreview {
+  contract_id: string;
+  contract_version: number | null;
+  cancellation_date: string;
+  currency: string;
+  contract_value: number;
+  consumed_value: number;
+  billed_amount: number;
+  paid_amount: number;
+  outstanding_invoiced: number;       // billed - paid
+  deposit_held: number;
+  deposit_offset: number;
+  credit_amount: number;              // refundable to the buyer (as contract credit)
+  amount_due: number;                 // still payable by the buyer
+  lines: SettlementBlockLine[];
+  preview_token: string;
+}
+
+export interface ContractSettlement {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  contract_version: number | null;
+  cancellation_date: string;
+  status: SettlementStatus;
+  currency: string | null;
+  contract_value: number;
+  consumed_value: number;
+  billed_amount: number;
+  paid_amount: number;
+  deposit_offset: number;
+  credit_amount: number;
+  amount_due: number;
+  settlement_invoice_id: string | null;  // invoice raised for amount_due beyond the open invoices
+  breakdown: SettlementBlockLine[];
+  steps_completed: SettlementStep[];
+  failed_step: SettlementStep | null;
+  error_message: string | null;
+  note: string | null;
+  committed_at: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// EVENT RE-DERIVATION (working calendar)
+// ============================================================================
+
+export interface RederiveContractEventsRequest {
+  version: number;
+  /** Overrides the tenant's default_shift for this run */
+  shift?: 'next' | 'previous';
+  /** Return the plan without writing it */
+  dry_run?: boolean;
+}
+
+/** An event whose date changes against the stored schedule */
+export interface RescheduledEvent {
+  event_id: string;
+  block_id: string;
+  block_name: string;
+  event_type: string;
+  sequence_number: number;
+  from: string | null;
+  to: string;
+  /** true when the move comes from the working calendar */
+  calendar_shift: boolean;
+}
+
+export interface ContractEventsRederivation {
+  contract_id: string;
+  base_version: number;
+  version: number | null;
+  time_zone: string;
+  shift: 'next' | 'previous';
+  dry_run: boolean;
+  event_overrides: Record<string, string>;
+  calendar_overrides: Record<string, string>;
+  computed_events: unknown[];
+  moved: RescheduledEvent[];
+  events_moved: number | null;
+}
+
 // ============================================================================
 // ERROR CODES
 // ============================================================================
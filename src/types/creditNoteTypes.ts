@@ -0,0 +1,103 @@
+// ============================================================================
+// Credit Note DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Credit notes against invoices (t_invoice_credit_notes) — partial or
+//          full, tax reversed pro rata, optionally with a refund
+// ============================================================================
+
+import { TaxComponent, TaxSupplyType } from './taxTypes';
+
+export const CREDIT_NOTE_STATUSES = {
+  ISSUED: 'issued',
+  CANCELLED: 'cancelled'
+} as const;
+
+export type CreditNoteStatus = typeof CREDIT_NOTE_STATUSES[keyof typeof CREDIT_NOTE_STATUSES];
+
+export const CREDIT_NOTE_REFUND_STATUSES = {
+  NONE: 'none',             // credit only — reduces what the buyer owes
+  MANUAL: 'manual',         // refunded outside the system (bank transfer, cash)
+  PENDING: 'pending',       // gateway refund requested, awaiting refund.processed
+  PROCESSED: 'processed',
+  FAILED: 'failed'
+} as const;
+
+export type CreditNoteRefundStatus = typeof CREDIT_NOTE_REFUND_STATUSES[keyof typeof CREDIT_NOTE_REFUND_STATUSES];
+
+export const CREDIT_NOTE_REFUND_MODES = ['none', 'manual', 'gateway'] as const;
+
+export type CreditNoteRefundMode = typeof CREDIT_NOTE_REFUND_MODES[number];
+
+export interface CreditNoteTaxBreakdown {
+  tax_rate: number;
+  supply_type: TaxSupplyType;
+  place_of_supply: string | null;
+  components: TaxComponent[];
+}
+
+/**
+ * Issue a credit note
+ * POST /api/invoices/:id/credit-notes
+ *
+ * amount is the total to credit including tax; omitted = everything not yet
+ * credited. refund_mode 'gateway' refunds the invoice's online payment (or
+ * gateway_payment_id) through the payment gateway.
+ */
+export interface CreateCreditNoteRequest {
+  amount?: number;
+  reason: string;
+  receipt_id?: string;
+  refund_mode?: CreditNoteRefundMode;      // default 'none'
+  refund_amount?: number;                  // default = amount
+  refund_reference?: string;               // manual refunds: UTR / cheque no.
+  gateway_payment_id?: string;
+}
+
+export interface CancelCreditNoteRequest {
+  reason?: string;
+}
+
+export interface InvoiceCreditNote {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  invoice_id: string;
+  contract_id: string | null;
+  receipt_id: string | null;
+  credit_note_number: string | null;   // null only until numbered after issue
+  status: CreditNoteStatus;
+  reason: string;
+  currency: string | null;
+  amount: number;
+  base_amount: number;
+  tax_amount: number;
+  tax_breakdown: CreditNoteTaxBreakdown | null;
+  refund_status: CreditNoteRefundStatus;
+  refund_amount: number | null;
+  refund_reference: string | null;
+  gateway_provider: string | null;
+  gateway_payment_id: string | null;
+  gateway_refund_id: string | null;
+  refund_error: string | null;
+  refunded_at: string | null;
+  issued_by: string | null;
+  issued_at: string;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  balance_reduction: number;           // taken off the invoice balance; restored on cancel
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceCreditSummary {
+  invoice_total: number;
+  credited: number;                // issued credit notes
+  refunded: number;                // manual + processed gateway refunds
+  creditable: number;              // what a new credit note may still cover
+}
+
+export interface InvoiceCreditNotesResponse {
+  credit_notes: InvoiceCreditNote[];
+  summary: InvoiceCreditSummary;
+}
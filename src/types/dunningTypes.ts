@@ -0,0 +1,114 @@
+// ============================================================================
+// Dunning DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Reminder ladders for unpaid invoices (t_dunning_ladders), the
+//          per-invoice dunning state (t_invoice_dunning) and reminder history
+//          (t_invoice_reminders)
+// ============================================================================
+
+export const REMINDER_CHANNELS = {
+  EMAIL: 'email',
+  WHATSAPP: 'whatsapp'
+} as const;
+
+export type ReminderChannel = typeof REMINDER_CHANNELS[keyof typeof REMINDER_CHANNELS];
+
+export const INVOICE_DUNNING_STATUSES = {
+  ACTIVE: 'active',
+  PAUSED: 'paused',     // manual hold, resumable
+  STOPPED: 'stopped'    // paid / cancelled / manual — never resumes by itself
+} as const;
+
+export type InvoiceDunningStatus = typeof INVOICE_DUNNING_STATUSES[keyof typeof INVOICE_DUNNING_STATUSES];
+
+/**
+ * One rung of a ladder
+ * offset_days is relative to the invoice due date: -3 = three days before,
+ * 0 = on the due date, 7 = a week overdue
+ */
+export interface DunningStep {
+  offset_days: number;
+  channel?: ReminderChannel;      // omitted = alternate with the previous reminder
+}
+
+export interface DunningLadder {
+  id: string;
+  tenant_id: string;
+  name: string;
+  is_default: boolean;
+  is_active: boolean;
+  steps: DunningStep[];           // sorted by offset_days
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Create a ladder
+ * POST /api/finance/dunning-ladders
+ */
+export interface CreateDunningLadderRequest {
+  name: string;
+  steps: DunningStep[];
+  is_default?: boolean;
+}
+
+/**
+ * Update a ladder (partial)
+ * PUT /api/finance/dunning-ladders/:ladderId
+ */
+export interface UpdateDunningLadderRequest {
+  name?: string;
+  steps?: DunningStep[];
+  is_default?: boolean;
+  is_active?: boolean;
+}
+
+export interface InvoiceDunningState {
+  invoice_id: string;
+  tenant_id: string;
+  ladder_id: string | null;       // null = tenant default
+  status: InvoiceDunningStatus;
+  stopped_reason: string | null;
+  stopped_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * Pause / resume / stop dunning or switch ladder for one invoice
+ * PUT /api/finance/invoices/:invoiceId/dunning
+ */
+export interface UpdateInvoiceDunningRequest {
+  status?: InvoiceDunningStatus;
+  ladder_id?: string | null;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  source: 'dunning' | 'manual';
+  ladder_id: string | null;
+  step_index: number | null;
+  offset_days: number | null;
+  channel: ReminderChannel;
+  status: 'pending' | 'sent' | 'skipped' | 'failed';
+  reason: string | null;
+  balance_due: number | null;
+  currency: string | null;
+  sent_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Result of one dunning run (background or POST /api/finance/dunning/run)
+ */
+export interface DunningRunResult {
+  invoices_checked: number;
+  sent: number;
+  skipped: number;                // refused by fn_enqueue_invoice_notification
+  failed: number;
+  stopped: number;                // dunning stopped because the balance cleared
+  dry_run: boolean;
+  planned?: Array<{ invoice_id: string; step_index: number; offset_days: number; channel: ReminderChannel }>;
+}
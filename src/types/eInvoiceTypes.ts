@@ -0,0 +1,163 @@
+// ============================================================================
+// E-Invoice DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: GST e-invoice JSON in the government INV-01 schema (version 1.1)
+//          generated from an invoice, and the IRN registration stored back
+//          from the IRP portal response (t_invoice_einvoices)
+// ============================================================================
+
+export const EINVOICE_STATUSES = {
+  GENERATED: 'generated',     // JSON built and validated, not yet on the portal
+  REGISTERED: 'registered',   // IRN stored from the portal response
+  CANCELLED: 'cancelled'      // IRN cancelled on the portal
+} as const;
+
+export type EInvoiceStatus = typeof EINVOICE_STATUSES[keyof typeof EINVOICE_STATUSES];
+
+// GST rates the IRP accepts on an item
+export const EINVOICE_GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// ─── INV-01 schema (field names as published by the GSTN) ───
+
+export interface Inv01TranDtls {
+  TaxSch: 'GST';
+  SupTyp: 'B2B' | 'SEZWP' | 'SEZWOP' | 'EXPWP' | 'EXPWOP' | 'DEXP';
+  RegRev: 'Y' | 'N';
+  EcmGstin: string | null;
+  IgstOnIntra: 'Y' | 'N';
+}
+
+export interface Inv01DocDtls {
+  Typ: 'INV' | 'CRN' | 'DBN';
+  No: string;
+  Dt: string;                     // dd/mm/yyyy
+}
+
+export interface Inv01PartyDtls {
+  Gstin: string;
+  LglNm: string;
+  TrdNm?: string;
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface Inv01BuyerDtls extends Inv01PartyDtls {
+  Pos: string;                    // place of supply, '96' for exports
+}
+
+export interface Inv01Item {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;                // SGST or UTGST
+  CesRt: number;
+  CesAmt: number;
+  CesNonAdvlAmt: number;
+  StateCesRt: number;
+  StateCesAmt: number;
+  StateCesNonAdvlAmt: number;
+  OthChrg: number;
+  TotItemVal: number;
+}
+
+export interface Inv01ValDtls {
+  AssVal: number;
+  CgstVal: number;
+  SgstVal: number;
+  IgstVal: number;
+  CesVal: number;
+  StCesVal: number;
+  Discount: number;
+  OthChrg: number;
+  RndOffAmt: number;
+  TotInvVal: number;
+}
+
+export interface Inv01Document {
+  Version: '1.1';
+  TranDtls: Inv01TranDtls;
+  DocDtls: Inv01DocDtls;
+  SellerDtls: Inv01PartyDtls;
+  BuyerDtls: Inv01BuyerDtls;
+  ItemList: Inv01Item[];
+  ValDtls: Inv01ValDtls;
+}
+
+export interface EInvoiceValidationError {
+  path: string;                   // e.g. 'ItemList[0].HsnCd'
+  message: string;
+}
+
+// ─── API ───
+
+/**
+ * Generate the INV-01 JSON for an invoice
+ * POST /api/invoices/:id/e-invoice
+ *
+ * HSN/SAC codes: per line by block_id or 1-based line number, falling back to
+ * default_hsn_code. Codes given once are remembered for regeneration.
+ */
+export interface GenerateEInvoiceRequest {
+  default_hsn_code?: string;
+  hsn_codes?: Record<string, string>;
+  is_service?: boolean;           // default true (contract invoices are services)
+  unit?: string;                  // UQC, default 'OTH' for services / 'NOS' for goods
+}
+
+/**
+ * Store the IRP portal response for an invoice
+ * POST /api/invoices/:id/e-invoice/irn
+ * Accepts the portal's response as downloaded (Irn/AckNo/AckDt at the top
+ * level, under `data`/`Data`, or the first element of an array).
+ */
+export interface RecordEInvoiceIrnRequest {
+  Irn?: string;
+  AckNo?: string | number;
+  AckDt?: string;
+  SignedInvoice?: string;
+  SignedQRCode?: string;
+  [key: string]: any;
+}
+
+export interface InvoiceEInvoice {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  is_live: boolean;
+  status: EInvoiceStatus;
+  payload: Inv01Document;
+  hsn_codes: Record<string, string>;
+  generated_by: string | null;
+  generated_at: string;
+  irn: string | null;
+  ack_no: string | null;
+  ack_date: string | null;
+  signed_invoice: string | null;
+  signed_qr_code: string | null;
+  registered_by: string | null;
+  registered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EInvoiceGenerateResult {
+  valid: boolean;
+  errors: EInvoiceValidationError[];
+  document: Inv01Document;
+  einvoice: InvoiceEInvoice | null;   // stored only when valid
+}
@@ -0,0 +1,227 @@
+// ============================================================================
+// Finance DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Server-computed finance reports (receivables ageing)
+// ============================================================================
+
+export const AGEING_BUCKETS = {
+  NOT_DUE: 'not_due',
+  DAYS_0_30: 'd0_30',
+  DAYS_31_60: 'd31_60',
+  DAYS_61_90: 'd61_90',
+  DAYS_90_PLUS: 'd90_plus'
+} as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[keyof typeof AGEING_BUCKETS];
+
+export const AGEING_BUCKET_LABELS: Record<AgeingBucket, string> = {
+  not_due: 'Not due',
+  d0_30: '0-30 days',
+  d31_60: '31-60 days',
+  d61_90: '61-90 days',
+  d90_plus: '90+ days'
+};
+
+export const AGEING_GROUPINGS = ['buyer', 'contract', 'invoice'] as const;
+
+export type AgeingGrouping = typeof AGEING_GROUPINGS[number];
+
+/**
+ * Receivables ageing query
+ * GET /api/finance/receivables/ageing
+ * GET /api/finance/receivables/ageing/export
+ */
+export interface ReceivablesAgeingQuery {
+  as_of?: string;                 // ISO date, default today (tenant time zone)
+  currency?: string;              // only this currency
+}
+
+/** Outstanding amounts per bucket, always in ONE currency */
+export type AgeingAmounts = Record<AgeingBucket, number> & { total: number };
+
+export interface AgeingInvoiceRow {
+  invoice_id: string;
+  invoice_number: string | null;
+  contract_id: string | null;
+  contract_number: string | null;
+  buyer_id: string | null;
+  buyer_name: string | null;
+  status: string;
+  invoice_date: string | null;
+  due_date: string | null;
+  days_overdue: number;           // 0 when not yet due
+  bucket: AgeingBucket;
+  currency: string;
+  total_amount: number;
+  outstanding: number;
+  // Tenant base currency (ReceivablesAgeing.base_currency); null without a rate
+  fx_rate: number | null;
+  base_total_amount: number | null;
+  base_outstanding: number | null;
+}
+
+export interface AgeingGroupRow {
+  key: string;                    // buyer_id / contract_id ('unassigned' when missing)
+  label: string;
+  currency: string;
+  invoice_count: number;
+  amounts: AgeingAmounts;
+  base_total: number | null;      // null when an invoice in the group has no rate
+  // contract rows only
+  buyer_id?: string | null;
+  buyer_name?: string | null;
+}
+
+export interface ReceivablesAgeing {
+  as_of: string;
+  time_zone: string;
+  /** More open invoices than invoice_limit — only the earliest due are in the report */
+  truncated: boolean;
+  invoice_limit: number;
+  totals_by_currency: Array<{ currency: string; invoice_count: number; amounts: AgeingAmounts }>;
+  base_currency: string;
+  /** Every currency converted at the stamped rates; unconverted invoices left out */
+  totals_in_base: { invoice_count: number; unconverted_count: number; amounts: AgeingAmounts };
+  by_buyer: AgeingGroupRow[];
+  by_contract: AgeingGroupRow[];
+  invoices: AgeingInvoiceRow[];
+}
+
+// ─────────────────────────────────────────────
+// Accounting export (Tally XML / journal CSV)
+// ─────────────────────────────────────────────
+
+export const ACCOUNTING_EXPORT_FORMATS = ['tally_xml', 'journal_csv'] as const;
+
+export type AccountingExportFormat = typeof ACCOUNTING_EXPORT_FORMATS[number];
+
+export const ACCOUNTING_VOUCHER_KINDS = ['sales', 'receipt', 'credit_note'] as const;
+
+export type AccountingVoucherKind = typeof ACCOUNTING_VOUCHER_KINDS[number];
+
+/**
+ * Tenant ledger mapping — names of the ledgers (as they exist in Tally /
+ * the books) each side of a voucher posts to.
+ * GET/PUT /api/finance/exports/settings
+ */
+export interface LedgerMapping {
+  company_name: string | null;            // Tally SVCURRENTCOMPANY; null = the company open in Tally
+  base_currency: string;                  // vouchers in other currencies are left out
+  party_ledger_mode: 'buyer' | 'fixed';   // buyer: one ledger per buyer name
+  party_ledger: string;                   // fixed mode, or buyers without a name
+  sales_ledger: string;
+  credit_note_ledger: string;             // Sales Returns
+  bank_ledger: string;                    // receipts, unless the method has its own
+  payment_method_ledgers: Record<string, string>;   // e.g. { cash: 'Cash', upi: 'HDFC Bank' }
+  tax_ledgers: Record<string, string>;    // component code → ledger (CGST, SGST, UTGST, IGST, TAX)
+  voucher_types: Record<AccountingVoucherKind, string>;
+}
+
+export interface AccountingLedgerEntry {
+  ledger: string;
+  debit: number;
+  credit: number;
+  /** Bill-wise reference on the party entry: New Ref (sales) / Agst Ref */
+  bill?: { name: string; type: 'New Ref' | 'Agst Ref' };
+}
+
+export interface AccountingVoucher {
+  kind: AccountingVoucherKind;
+  record_id: string;                      // invoice / receipt / credit note id
+  voucher_type: string;
+  number: string;
+  date: string;                           // ISO date
+  party: string;
+  reference: string | null;
+  narration: string;
+  currency: string;
+  entries: AccountingLedgerEntry[];       // balanced: Σ debit = Σ credit
+}
+
+/**
+ * Produce an export
+ * POST /api/finance/exports
+ */
+export interface CreateAccountingExportRequest {
+  format: AccountingExportFormat;
+  from: string;                           // ISO date, inclusive
+  to: string;                             // ISO date, inclusive
+  vouchers?: AccountingVoucherKind[];     // default all
+  dry_run?: boolean;                      // build the file without marking anything exported
+}
+
+export interface AccountingExport {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  format: AccountingExportFormat;
+  period_from: string;
+  period_to: string;
+  voucher_kinds: AccountingVoucherKind[];
+  counts: Partial<Record<AccountingVoucherKind, number>>;
+  skipped: Array<{ kind: AccountingVoucherKind; record_id: string; reason: string }>;
+  file_name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// ─────────────────────────────────────────────
+// Foreign exchange (stored tenant rates)
+// ─────────────────────────────────────────────
+
+export const FX_RATE_SOURCES = ['manual', 'upload'] as const;
+
+export type FxRateSource = typeof FX_RATE_SOURCES[number];
+
+/**
+ * One stored rate: 1 unit of `currency` = `rate` units of `base_currency`,
+ * from `effective_date` until the next rate for the pair.
+ * GET/POST /api/finance/fx-rates
+ */
+export interface FxRate {
+  id: string;
+  tenant_id: string;
+  currency: string;
+  base_currency: string;
+  rate: number;
+  effective_date: string;
+  source: FxRateSource;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FxRateInput {
+  currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+export interface FxRateImportResult {
+  base_currency: string;
+  imported: number;
+  skipped_rows: Array<{ row: number; reason: string }>;
+}
+
+/** The rate applied to an invoice or receipt — stamped once, when first converted */
+export interface FxRateStamp {
+  record_kind: 'invoice' | 'receipt';
+  record_id: string;
+  invoice_id: string;
+  currency: string;
+  base_currency: string;
+  rate: number;
+  rate_date: string;                      // effective date of the rate used
+  amount: number;
+  base_amount: number;
+  stamped_at: string;
+}
+
+/** Amounts of one invoice in the tenant base currency; null when no rate covers it */
+export interface BaseCurrencyAmounts {
+  base_currency: string;
+  fx_rate: number | null;
+  fx_rate_date: string | null;
+  base_total_amount: number | null;
+  base_outstanding: number | null;
+}
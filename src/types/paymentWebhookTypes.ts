@@ -0,0 +1,128 @@
+// ============================================================================
+// Payment Webhook DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: Razorpay webhook payloads (the subset we read) and the event log
+//          the receiver keeps in t_payment_webhook_events
+// ============================================================================
+
+export const PAYMENT_WEBHOOK_STATUSES = {
+  PROCESSING: 'processing',   // claimed by a delivery, not finished
+  PROCESSED: 'processed',
+  FAILED: 'failed'            // retried when the gateway redelivers
+} as const;
+
+export type PaymentWebhookStatus = typeof PAYMENT_WEBHOOK_STATUSES[keyof typeof PAYMENT_WEBHOOK_STATUSES];
+
+export const PAYMENT_WEBHOOK_OUTCOMES = {
+  RECEIPT_RECORDED: 'receipt_recorded',
+  RECEIPT_CANCELLED: 'receipt_cancelled',
+  CREDIT_NOTE_REFUNDED: 'credit_note_refunded',  // gateway refund of a credit note settled
+  PAYMENT_FAILED: 'payment_failed',
+  REFUND_NEEDS_REVIEW: 'refund_needs_review',   // partial refund, or no receipt of ours to cancel
+  IGNORED: 'ignored'
+} as const;
+
+export type PaymentWebhookOutcome = typeof PAYMENT_WEBHOOK_OUTCOMES[keyof typeof PAYMENT_WEBHOOK_OUTCOMES];
+
+// ─── Razorpay payloads (amounts in the smallest currency unit) ───
+
+export interface RazorpayNotes {
+  tenant_id?: string;
+  invoice_id?: string;
+  contract_id?: string;
+  environment?: string;
+  [key: string]: any;
+}
+
+export interface RazorpayPaymentEntity {
+  id: string;                     // pay_...
+  entity: 'payment';
+  amount: number;
+  amount_refunded?: number;       // running total across partial refunds
+  currency: string;
+  status: string;                 // captured | failed | refunded ...
+  order_id: string | null;
+  invoice_id?: string | null;     // Razorpay invoice, not ours
+  method: string;                 // upi | card | netbanking | wallet ...
+  description?: string | null;
+  email?: string | null;
+  contact?: string | null;
+  notes: RazorpayNotes | any[];   // Razorpay sends [] when empty
+  error_code?: string | null;
+  error_description?: string | null;
+  error_reason?: string | null;
+  created_at: number;             // unix seconds
+}
+
+export interface RazorpayRefundEntity {
+  id: string;                     // rfnd_...
+  entity: 'refund';
+  amount: number;
+  currency: string;
+  payment_id: string;
+  notes: RazorpayNotes | any[];
+  status: string;
+  created_at: number;
+}
+
+export interface RazorpayPaymentLinkEntity {
+  id: string;                     // plink_...
+  entity?: 'payment_link';
+  amount: number;
+  amount_paid: number;
+  currency: string;
+  status: string;
+  reference_id?: string | null;
+  notes: RazorpayNotes | any[];
+}
+
+export interface RazorpayWebhookBody {
+  entity: 'event';
+  account_id: string;
+  event: string;
+  contains: string[];
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+    payment_link?: { entity: RazorpayPaymentLinkEntity };
+    order?: { entity: Record<string, any> };
+  };
+  created_at: number;
+}
+
+// ─── Event log ───
+
+export interface PaymentWebhookEvent {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string;
+  tenant_id: string | null;
+  is_live: boolean;
+  invoice_id: string | null;
+  contract_id: string | null;
+  gateway_payment_id: string | null;
+  gateway_refund_id: string | null;
+  amount: number | null;
+  currency: string | null;
+  status: PaymentWebhookStatus;
+  outcome: PaymentWebhookOutcome | null;
+  receipt_id: string | null;
+  error: string | null;
+  attempts: number;
+  payload: RazorpayWebhookBody;
+  received_at: string;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Webhook setup for a tenant's Razorpay dashboard
+ * GET /api/payments/webhook-config
+ */
+export interface RazorpayWebhookConfig {
+  url: string;
+  secret: string;
+  events: string[];
+}
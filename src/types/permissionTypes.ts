@@ -0,0 +1,43 @@
+// src/types/permissionTypes.ts
+// Types for the permission model (src/constants/permissions.ts, migration 025)
+
+import type { Permission } from '../constants/permissions';
+
+/** What one member may do in one tenant, as the resolver computed it */
+export interface ResolvedPermissions {
+  tenantId: string;
+  userId: string;
+  /** Active member of the tenant (t_user_tenants.status = 'active') */
+  isMember: boolean;
+  /** t_user_tenants.is_admin — holds every permission */
+  isTenantAdmin: boolean;
+  /** Role names (t_category_details.sub_cat_name) held in the tenant */
+  roles: string[];
+  permissions: Permission[];
+}
+
+/** A role a member holds in the tenant */
+export interface UserRole {
+  role_id: string;
+  name: string;
+  display_name: string;
+}
+
+/**
+ * A role's permissions in a tenant. `source` says where they come from:
+ * the tenant's own t_role_permissions rows, the role's default in
+ * permissions.ts, or the member fallback when the role has neither.
+ */
+export interface RolePermissions {
+  role_id: string;
+  name: string;
+  display_name: string;
+  source: 'tenant' | 'default' | 'member';
+  permissions: Permission[];
+}
+
+/** A permission in the catalogue */
+export interface PermissionDefinition {
+  name: Permission;
+  description: string;
+}
@@ -0,0 +1,175 @@
+// ============================================================================
+// Service SLA DTOs - Request/Response Type Definitions
+// ============================================================================
+// Purpose: SLA policies, per-ticket SLA clocks and compliance reporting for
+//          service-execution tickets (src/migrations/022)
+// Pattern: API layer defines WHAT can be done (not HOW)
+// ============================================================================
+
+import type { AssetCriticality } from './clientAssetRegistryTypes';
+
+// ============================================================================
+// ENUMS / CONSTANTS
+// ============================================================================
+
+export const SLA_CRITICALITIES: AssetCriticality[] = ['low', 'medium', 'high', 'critical'];
+
+// Tickets with no criticality of their own, and no covered asset to take it from
+export const DEFAULT_SLA_CRITICALITY: AssetCriticality = 'medium';
+
+export const SLA_TIMERS = {
+  RESPONSE: 'response',       // created → assigned
+  ONSITE: 'onsite',           // created → in_progress
+  RESOLUTION: 'resolution'    // created → completed
+} as const;
+
+export const SLA_TIMER_STATUSES = {
+  RUNNING: 'running',         // inside working hours, not yet due
+  PAUSED: 'paused',           // outside working hours, not yet due
+  MET: 'met',                 // reached on or before the due instant
+  BREACHED: 'breached',       // reached late, or still open past due
+  STOPPED: 'stopped'          // ticket cancelled before the timer was reached
+} as const;
+
+export type SlaTimer = typeof SLA_TIMERS[keyof typeof SLA_TIMERS];
+export type SlaTimerStatus = typeof SLA_TIMER_STATUSES[keyof typeof SLA_TIMER_STATUSES];
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export interface SlaTargets {
+  response_minutes?: number | null;
+  onsite_minutes?: number | null;
+  resolution_minutes?: number | null;
+}
+
+/**
+ * SLA policy (t_sla_policies). Scope: contract_id, block_id (catalog block,
+ * any contract using it) or neither (tenant default). A ticket takes the
+ * contract policy, else a policy of one of its blocks, else the default.
+ */
+export interface SlaPolicy {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  name: string;
+  contract_id: string | null;
+  block_id: string | null;
+  targets: Partial<Record<AssetCriticality, SlaTargets>>;
+  business_hours_only: boolean;   // false = the clock runs 24x7
+  notify_user_ids: string[];      // breach JTDs, besides the assignee
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * POST /api/service-execution/sla/policies
+ */
+export interface CreateSlaPolicyRequest {
+  name: string;
+  contract_id?: string | null;
+  block_id?: string | null;
+  targets: Partial<Record<AssetCriticality, SlaTargets>>;
+  business_hours_only?: boolean;
+  notify_user_ids?: string[];
+}
+
+/**
+ * PATCH /api/service-execution/sla/policies/:policyId — scope is fixed
+ */
+export type UpdateSlaPolicyRequest = Partial<Omit<CreateSlaPolicyRequest, 'contract_id' | 'block_id'>>;
+
+// ============================================================================
+// TICKET SLA STATE
+// ============================================================================
+
+/**
+ * SLA clock of one ticket (t_service_ticket_slas). Targets and due instants
+ * are fixed when the ticket opens; later policy or calendar changes do not
+ * move them.
+ */
+export interface TicketSlaClock {
+  id: string;
+  tenant_id: string;
+  is_live: boolean;
+  ticket_id: string;
+  ticket_number: string | null;
+  contract_id: string | null;
+  block_id: string | null;
+  policy_id: string | null;
+  criticality: AssetCriticality;
+  business_hours_only: boolean;
+  response_minutes: number | null;
+  onsite_minutes: number | null;
+  resolution_minutes: number | null;
+  opened_at: string;
+  response_due_at: string | null;
+  onsite_due_at: string | null;
+  resolution_due_at: string | null;
+  responded_at: string | null;
+  onsite_at: string | null;
+  resolved_at: string | null;
+  cancelled_at: string | null;
+  ticket_status: string | null;
+  assigned_to: string | null;
+  settled_at: string | null;      // every timer decided and any breach notified
+}
+
+export interface SlaTimerState {
+  target_minutes: number;
+  due_at: string;
+  reached_at: string | null;
+  status: SlaTimerStatus;
+  elapsed_minutes: number;        // working minutes used so far (or until reached)
+  remaining_minutes: number;      // working minutes left; negative once breached
+}
+
+/**
+ * Computed SLA state carried on ticket list / detail responses as `sla`
+ * (null when no policy applies). Timers without a target are null.
+ */
+export interface TicketSlaState {
+  policy_id: string | null;
+  criticality: AssetCriticality;
+  business_hours_only: boolean;
+  opened_at: string;
+  timers: Record<SlaTimer, SlaTimerState | null>;
+  breached: boolean;
+  computed_at: string;
+}
+
+// ============================================================================
+// COMPLIANCE / SWEEP
+// ============================================================================
+
+export interface SlaComplianceCounts {
+  total: number;                  // tickets with a target for the timer
+  met: number;
+  breached: number;
+  pending: number;                // not reached, not yet due
+  stopped: number;                // cancelled before reached
+  compliance_rate: number | null; // met / (met + breached), 0–100; null = nothing decided
+}
+
+/**
+ * GET /api/service-execution/sla/compliance
+ */
+export interface SlaComplianceReport {
+  date_from: string;
+  date_to: string;
+  contract_id: string | null;
+  tickets: number;
+  timers: Record<SlaTimer, SlaComplianceCounts>;
+  by_criticality: Partial<Record<AssetCriticality, Record<SlaTimer, SlaComplianceCounts>>>;
+}
+
+/**
+ * Result of one breach sweep (background run or POST /api/service-execution/sla/sweep)
+ */
+export interface SlaSweepResult {
+  breaches: Record<SlaTimer, number>;
+  notification_failures: number;
+  tenants: number;
+}
@@ -2,6 +2,8 @@
 // Type definitions for storage functionality
 // Includes support for multiple file operations and enhanced metadata
 
+import type { StorageDriver } from '../config/products';
+
 export interface StorageCategory {
   id: string;
   name: string;
@@ -41,6 +43,7 @@ export interface StorageFile {
   updated_at: string;
   created_by?: string; // Optional reference to user who uploaded
   metadata?: Record<string, any>; // Optional metadata
+  scan_status?: StorageScanStatus; // From metadata.scan (uploadScanService)
 }
 
 export interface FileUploadResponse {
@@ -196,4 +199,233 @@ export interface StorageOperationContext {
   requestId: string;
   timestamp: number;
   operation: string;
-}
\ No newline at end of file
+}
+// ============================================================================
+// STORAGE PROVIDERS (storageProviderService)
+// ============================================================================
+
+export interface StoredObjectEntry {
+  name: string;
+  fullPath: string;
+  size?: number;
+}
+
+export interface StoredObjectListing {
+  files: StoredObjectEntry[];
+  directories: StoredObjectEntry[];
+}
+
+export interface StoredObjectContent {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * One storage backend (Firebase Storage, local disk, S3-compatible bucket).
+ * Paths are '/'-separated object keys relative to the backend's root; the
+ * caller owns the layout (`<tenant storage_path>/<category>/<id>_<name>`).
+ */
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+  putObject(
+    path: string,
+    body: Buffer,
+    options: { contentType: string; metadata?: Record<string, string> }
+  ): Promise<{ path: string; url: string }>;
+  /** Null when there is no object at the path */
+  getObject(path: string): Promise<StoredObjectContent | null>;
+  /** Missing objects are not an error */
+  deleteObject(path: string): Promise<void>;
+  /** Direct children of a '/'-separated prefix */
+  list(prefix: string): Promise<StoredObjectListing>;
+  /** URL a browser can fetch the object from */
+  getUrl(path: string): Promise<string>;
+  /** Store a file already on this server's disk (assembled chunked uploads) */
+  putObjectFromFile(
+    path: string,
+    sourceFile: string,
+    options: { contentType: string; metadata?: Record<string, string> }
+  ): Promise<{ path: string; url: string }>;
+  /**
+   * Backends that accept parts straight from the browser (S3 multipart).
+   * Absent: chunked uploads are sent to the API, staged and then stored.
+   */
+  multipart?: MultipartUploadCapability;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+export interface MultipartUploadCapability {
+  create(path: string, options: { contentType: string; metadata?: Record<string, string> }): Promise<string>;
+  /** Presigned PUT for a 1-based part, only valid for a body of exactly `size` bytes */
+  partUrl(path: string, uploadId: string, partNumber: number, size: number, expiresSeconds: number): string;
+  listParts(path: string, uploadId: string): Promise<UploadedPart[]>;
+  complete(path: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abort(path: string, uploadId: string): Promise<void>;
+}
+
+// ============================================================================
+// DIRECT / RESUMABLE UPLOADS (storageUploadService, src/migrations/023)
+// ============================================================================
+
+export const UPLOAD_SESSION_STATUSES = {
+  PENDING: 'pending',         // slot issued, parts may be arriving
+  COMPLETED: 'completed',     // object stored and file record created
+  ABORTED: 'aborted'          // cancelled by the user or expired
+} as const;
+
+export type UploadSessionStatus = typeof UPLOAD_SESSION_STATUSES[keyof typeof UPLOAD_SESSION_STATUSES];
+
+/**
+ * Upload slot (t_storage_upload_sessions). Its file_size is reserved against
+ * the tenant's quota until the slot completes, is aborted or expires.
+ */
+export interface UploadSession {
+  id: string;
+  tenant_id: string;
+  product_code: string;
+  driver: StorageDriver;
+  file_name: string;
+  file_path: string;
+  file_size: number;
+  mime_type: string;
+  file_category: string;
+  metadata: Record<string, any>;
+  part_size: number;
+  part_count: number;
+  provider_upload_id: string | null;   // S3 multipart UploadId
+  status: UploadSessionStatus;
+  stored_at: string | null;            // object assembled; completion only records it
+  file_id: string | null;              // t_tenant_files row once completed
+  expires_at: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * POST /api/storage/uploads
+ */
+export interface CreateUploadRequest {
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  category: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UploadPartTarget {
+  part_number: number;
+  /** PUT the part's bytes here — no Authorization header */
+  url: string;
+  /** Byte range of the file this part covers, end exclusive */
+  start: number;
+  end: number;
+}
+
+/**
+ * Upload slot as returned to the client. `parts` lists only the parts still
+ * missing, so a client resumes by fetching the slot again and sending those.
+ */
+export interface UploadSlotResponse {
+  upload_id: string;
+  status: UploadSessionStatus;
+  mode: 'direct' | 'chunked';          // direct = straight to the bucket
+  file_name: string;
+  file_size: number;
+  part_size: number;
+  part_count: number;
+  received_parts: number[];
+  received_bytes: number;
+  parts: UploadPartTarget[];
+  expires_at: string;
+  file?: StorageFile;
+}
+
+// ============================================================================
+// MEDIA DERIVATIVES (storageMediaService)
+// ============================================================================
+
+export type ThumbnailSize = 'small' | 'medium';
+
+/** A generated JPEG stored next to the original */
+export interface StorageDerivative {
+  path: string;
+  url: string;
+  width: number;
+  height: number;
+  size: number;                        // bytes
+}
+
+/**
+ * StorageFile.metadata.derivatives — what was produced for a photo or PDF.
+ * Thumbnails are never larger than the source; `skipped` explains a file (or
+ * a PDF page) nothing could be made from.
+ */
+export interface StorageDerivatives {
+  generated_at: string;
+  location_removed: boolean;           // EXIF GPS / XMP stripped from the original
+  thumbnails: Partial<Record<ThumbnailSize, StorageDerivative>>;
+  preview?: StorageDerivative & {
+    page: number;
+    source: 'renderer';
+  };
+  skipped?: string;
+}
+
+// ============================================================================
+// UPLOAD SCANNING (uploadScanService)
+// ============================================================================
+
+/**
+ * clean        — passed the type check and the antivirus scan
+ * unscanned    — passed the type check; no antivirus verdict (none
+ *                configured, or the file is over the scan size limit)
+ * quarantined  — stored under the quarantine prefix and not served; the
+ *                scanner could not be reached (STORAGE_SCAN_FAIL_MODE)
+ * rejected     — never stored: type mismatch, executable, active content or
+ *                malware
+ */
+export type StorageScanStatus = 'clean' | 'unscanned' | 'quarantined' | 'rejected';
+
+export type StorageScanReason =
+  | 'type_mismatch'
+  | 'executable'
+  | 'active_content'
+  | 'infected'
+  | 'scanner_unavailable'
+  | 'no_scanner'
+  | 'too_large';
+
+/** StorageFile.metadata.scan — the verdict the file was stored under */
+export interface StorageScanVerdict {
+  status: StorageScanStatus;
+  reason?: StorageScanReason;
+  declared_mime: string;
+  detected_mime: string | null;        // null: no signature recognised
+  scanner?: string;
+  signature?: string;                  // malware name reported by the scanner
+  detail?: string;
+  scanned_at: string;
+}
+
+/** Result of one antivirus scan */
+export interface AntivirusResult {
+  infected: boolean;
+  signature?: string;
+}
+
+/**
+ * Antivirus hook. The ClamAV (clamd) scanner is registered from the
+ * environment; others can be set with uploadScanService.setScanner().
+ * Throw when the file could not be scanned.
+ */
+export interface AntivirusScanner {
+  readonly name: string;
+  scan(buffer: Buffer): Promise<AntivirusResult>;
+}
@@ -167,26 +167,88 @@ export interface TaxRateDbFields {
   updated_at: string;
 }
 
+export type TaxDisplayMode = 'including_tax' | 'excluding_tax' | 'no_tax';
+
 /**
- * Tax calculation context (for future use)
+ * How a supply is taxed under Indian GST
+ * - intra_state: seller and buyer in the same state → CGST + SGST/UTGST
+ * - inter_state: different states → IGST
+ * - export: buyer outside India → IGST (zero-rate it with a 0% rate under LUT)
+ * - not_applicable: seller outside India → one plain tax component
  */
-export interface TaxCalculationContext {
+export type TaxSupplyType = 'intra_state' | 'inter_state' | 'export' | 'not_applicable';
+
+export type TaxComponentCode = 'CGST' | 'SGST' | 'UTGST' | 'IGST' | 'TAX';
+
+/**
+ * One component of a calculated tax (e.g. CGST 9% + SGST 9% of an 18% rate)
+ */
+export interface TaxComponent {
+  code: TaxComponentCode;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * One line of a multi-line calculation
+ */
+export interface TaxCalculationLine {
   amount: number;
   tax_rate_id?: string;
+  tax_rate?: number;            // explicit percentage (block snapshots carry a rate, not an id)
+  description?: string;
+}
+
+/**
+ * Tax calculation context
+ * POST /api/tax-settings/calculate
+ *
+ * Either `amount` or `lines` is required. Rate resolution per line/amount:
+ * explicit tax_rate → tax_rate_id → tenant default (unless use_default_rate is false).
+ * Seller state comes from the tenant profile; buyer state from the request or
+ * the buyer contact's billing address.
+ */
+export interface TaxCalculationContext {
+  amount?: number;
+  lines?: TaxCalculationLine[];
+  tax_rate_id?: string;
+  tax_rate?: number;
   use_default_rate?: boolean;
-  display_mode?: 'including_tax' | 'excluding_tax' | 'no_tax';
+  display_mode?: TaxDisplayMode;
+  buyer_contact_id?: string;
+  buyer_state_code?: string;
+  buyer_country_code?: string;
 }
 
 /**
- * Tax calculation result (for future use)
+ * Tax calculation result for one amount/line
  */
-export interface TaxCalculationResult {
+export interface TaxLineResult {
   base_amount: number;
   tax_amount: number;
   total_amount: number;
   tax_rate: number;
+  tax_rate_id: string | null;
   tax_rate_name: string;
-  display_mode: 'including_tax' | 'excluding_tax' | 'no_tax';
+  components: TaxComponent[];
+  description?: string;
+}
+
+/**
+ * Tax calculation result — totals across all lines, GST components summed
+ */
+export interface TaxCalculationResult {
+  base_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  tax_rate: number;             // single-rate calculations; 0 when lines mix rates
+  tax_rate_name: string;
+  display_mode: TaxDisplayMode;
+  supply_type: TaxSupplyType;
+  seller_state_code: string | null;  // GST state code, e.g. '29'
+  place_of_supply: string | null;    // buyer's GST state code ('96' for exports)
+  components: TaxComponent[];
+  lines: TaxLineResult[];
 }
 
 /**
@@ -17,6 +17,7 @@ export interface TenantProfileBase {
   website_url?: string | null;
   primary_color?: string | null;
   secondary_color?: string | null;
+  timezone?: string | null;
 }
 
 export interface TenantProfileCreate extends TenantProfileBase {
@@ -0,0 +1,292 @@
+// ============================================================================
+// Accounting export — vouchers as Tally XML or a double-entry journal CSV
+// ============================================================================
+// Builds balanced vouchers from invoices, receipts and credit notes using the
+// tenant's ledger mapping, and renders them:
+//   Tally XML   — an 'Import Data' envelope of VOUCHER elements, importable
+//                 through Gateway of Tally → Import → Vouchers (Tally Prime /
+//                 ERP 9). Tally signs amounts: debit negative with
+//                 ISDEEMEDPOSITIVE Yes, credit positive with No. The party
+//                 entry carries a bill allocation (New Ref on the invoice,
+//                 Agst Ref on receipts and credit notes) so Tally ages them.
+//   Journal CSV — one row per ledger entry (Date, Voucher Type, Voucher No,
+//                 Ledger, Debit, Credit, …) for any other package.
+// Vouchers:
+//   sales        Dr party (total)      Cr sales (taxable)  Cr output tax ledgers
+//   receipt      Dr bank (by method)   Cr party
+//   credit_note  Dr sales returns      Dr output tax       Cr party
+// ============================================================================
+
+import { toCsv, CsvCell } from './csv';
+import { escapeXml } from './xlsx';
+import {
+  AccountingLedgerEntry,
+  AccountingVoucher,
+  LedgerMapping
+} from '../types/financeTypes';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export const DEFAULT_LEDGER_MAPPING: LedgerMapping = {
+  company_name: null,
+  base_currency: 'INR',
+  party_ledger_mode: 'buyer',
+  party_ledger: 'Sundry Debtors',
+  sales_ledger: 'Sales',
+  credit_note_ledger: 'Sales Returns',
+  bank_ledger: 'Bank',
+  payment_method_ledgers: { cash: 'Cash' },
+  tax_ledgers: {
+    CGST: 'Output CGST',
+    SGST: 'Output SGST',
+    UTGST: 'Output UTGST',
+    IGST: 'Output IGST',
+    TAX: 'Output Tax'
+  },
+  voucher_types: { sales: 'Sales', receipt: 'Receipt', credit_note: 'Credit Note' }
+};
+
+/** Stored mapping over the defaults; unknown keys dropped, names trimmed */
+export function resolveLedgerMapping(stored: Partial<LedgerMapping> | null | undefined): LedgerMapping {
+  const s = stored || {};
+  const name = (value: unknown, fallback: string) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : fallback;
+  const names = (value: unknown, fallback: Record<string, string>) => {
+    const out: Record<string, string> = { ...fallback };
+    if (value && typeof value === 'object') {
+      for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+        if (typeof v === 'string' && v.trim()) out[k] = v.trim().slice(0, 100);
+      }
+    }
+    return out;
+  };
+  const d = DEFAULT_LEDGER_MAPPING;
+  return {
+    company_name: typeof s.company_name === 'string' && s.company_name.trim() ? s.company_name.trim().slice(0, 100) : null,
+    base_currency: name(s.base_currency, d.base_currency).toUpperCase().slice(0, 3),
+    party_ledger_mode: s.party_ledger_mode === 'fixed' ? 'fixed' : 'buyer',
+    party_ledger: name(s.party_ledger, d.party_ledger),
+    sales_ledger: name(s.sales_ledger, d.sales_ledger),
+    credit_note_ledger: name(s.credit_note_ledger, d.credit_note_ledger),
+    bank_ledger: name(s.bank_ledger, d.bank_ledger),
+    payment_method_ledgers: names(s.payment_method_ledgers, d.payment_method_ledgers),
+    tax_ledgers: names(s.tax_ledgers, d.tax_ledgers),
+    voucher_types: names(s.voucher_types, d.voucher_types) as LedgerMapping['voucher_types']
+  };
+}
+
+// ─── Voucher builders ───
+
+export interface VoucherTaxComponent {
+  code: string;
+  amount: number;
+}
+
+function partyLedger(mapping: LedgerMapping, buyerName: string | null): string {
+  return mapping.party_ledger_mode === 'buyer' && buyerName && buyerName.trim()
+    ? buyerName.trim().slice(0, 100)
+    : mapping.party_ledger;
+}
+
+/** Tax entries per ledger; components sharing a ledger are merged */
+function taxEntries(mapping: LedgerMapping, components: VoucherTaxComponent[], side: 'debit' | 'credit'): AccountingLedgerEntry[] {
+  const byLedger = new Map<string, number>();
+  for (const c of components) {
+    if (!(c.amount > 0)) continue;
+    const ledger = mapping.tax_ledgers[c.code] || mapping.tax_ledgers.TAX;
+    byLedger.set(ledger, round2((byLedger.get(ledger) || 0) + c.amount));
+  }
+  return Array.from(byLedger.entries()).map(([ledger, amount]) => ({
+    ledger,
+    debit: side === 'debit' ? amount : 0,
+    credit: side === 'credit' ? amount : 0
+  }));
+}
+
+export function salesVoucher(mapping: LedgerMapping, invoice: {
+  id: string;
+  number: string;
+  date: string;
+  buyer_name: string | null;
+  currency: string;
+  total: number;
+  tax_components: VoucherTaxComponent[];
+  reference?: string | null;
+}): AccountingVoucher {
+  const party = partyLedger(mapping, invoice.buyer_name);
+  const taxes = taxEntries(mapping, invoice.tax_components, 'credit');
+  const taxable = round2(invoice.total - taxes.reduce((s, e) => s + e.credit, 0));
+  return {
+    kind: 'sales',
+    record_id: invoice.id,
+    voucher_type: mapping.voucher_types.sales,
+    number: invoice.number,
+    date: invoice.date,
+    party,
+    reference: invoice.reference ?? null,
+    narration: `Invoice ${invoice.number}${invoice.buyer_name ? ` to ${invoice.buyer_name}` : ''}`,
+    currency: invoice.currency,
+    entries: [
+      { ledger: party, debit: round2(invoice.total), credit: 0, bill: { name: invoice.number, type: 'New Ref' } },
+      { ledger: mapping.sales_ledger, debit: 0, credit: taxable },
+      ...taxes
+    ]
+  };
+}
+
+export function receiptVoucher(mapping: LedgerMapping, receipt: {
+  id: string;
+  number: string;
+  date: string;
+  invoice_number: string;
+  buyer_name: string | null;
+  currency: string;
+  amount: number;
+  payment_method: string | null;
+  reference: string | null;
+}): AccountingVoucher {
+  const party = partyLedger(mapping, receipt.buyer_name);
+  const method = (receipt.payment_method || '').toLowerCase();
+  const bank = mapping.payment_method_ledgers[method] || mapping.bank_ledger;
+  const via = [receipt.payment_method, receipt.reference].filter(Boolean).join(' ');
+  return {
+    kind: 'receipt',
+    record_id: receipt.id,
+    voucher_type: mapping.voucher_types.receipt,
+    number: receipt.number,
+    date: receipt.date,
+    party,
+    reference: receipt.reference,
+    narration: `Receipt against ${receipt.invoice_number}${via ? ` (${via})` : ''}`,
+    currency: receipt.currency,
+    entries: [
+      { ledger: bank, debit: round2(receipt.amount), credit: 0 },
+      { ledger: party, debit: 0, credit: round2(receipt.amount), bill: { name: receipt.invoice_number, type: 'Agst Ref' } }
+    ]
+  };
+}
+
+export function creditNoteVoucher(mapping: LedgerMapping, note: {
+  id: string;
+  number: string;
+  date: string;
+  invoice_number: string;
+  buyer_name: string | null;
+  currency: string;
+  amount: number;
+  tax_components: VoucherTaxComponent[];
+  reason: string;
+}): AccountingVoucher {
+  const party = partyLedger(mapping, note.buyer_name);
+  const taxes = taxEntries(mapping, note.tax_components, 'debit');
+  const base = round2(note.amount - taxes.reduce((s, e) => s + e.debit, 0));
+  return {
+    kind: 'credit_note',
+    record_id: note.id,
+    voucher_type: mapping.voucher_types.credit_note,
+    number: note.number,
+    date: note.date,
+    party,
+    reference: note.invoice_number,
+    narration: `Credit note against ${note.invoice_number}: ${note.reason}`,
+    currency: note.currency,
+    entries: [
+      { ledger: mapping.credit_note_ledger, debit: base, credit: 0 },
+      ...taxes,
+      { ledger: party, debit: 0, credit: round2(note.amount), bill: { name: note.invoice_number, type: 'Agst Ref' } }
+    ]
+  };
+}
+
+// ─── Renderers ───
+
+const tallyDate = (iso: string): string => iso.slice(0, 10).replace(/-/g, '');
+const tallyAmount = (entry: AccountingLedgerEntry): string =>
+  (entry.debit > 0 ? -entry.debit : entry.credit).toFixed(2);
+
+function tallyEntry(entry: AccountingLedgerEntry): string {
+  const isDebit = entry.debit > 0;
+  const amount = tallyAmount(entry);
+  const bill = entry.bill
+    ? `
+      <BILLALLOCATIONS.LIST>
+       <NAME>${escapeXml(entry.bill.name)}</NAME>
+       <BILLTYPE>${entry.bill.type}</BILLTYPE>
+       <AMOUNT>${amount}</AMOUNT>
+      </BILLALLOCATIONS.LIST>`
+    : '';
+  return `
+     <ALLLEDGERENTRIES.LIST>
+      <LEDGERNAME>${escapeXml(entry.ledger)}</LEDGERNAME>
+      <ISDEEMEDPOSITIVE>${isDebit ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>
+      <ISPARTYLEDGER>${entry.bill ? 'Yes' : 'No'}</ISPARTYLEDGER>
+      <AMOUNT>${amount}</AMOUNT>${bill}
+     </ALLLEDGERENTRIES.LIST>`;
+}
+
+/** Tally 'Import Data' envelope with one VOUCHER per voucher */
+export function renderTallyXml(vouchers: AccountingVoucher[], companyName: string | null): string {
+  const company = companyName
+    ? `
+    <STATICVARIABLES>
+     <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>
+    </STATICVARIABLES>`
+    : '';
+  const body = vouchers.map((v) => `
+   <TALLYMESSAGE xmlns:UDF="TallyUDF">
+    <VOUCHER VCHTYPE="${escapeXml(v.voucher_type)}" ACTION="Create" OBJVIEW="Accounting Voucher View">
+     <DATE>${tallyDate(v.date)}</DATE>
+     <EFFECTIVEDATE>${tallyDate(v.date)}</EFFECTIVEDATE>
+     <VOUCHERTYPENAME>${escapeXml(v.voucher_type)}</VOUCHERTYPENAME>
+     <VOUCHERNUMBER>${escapeXml(v.number)}</VOUCHERNUMBER>
+     <REFERENCE>${escapeXml(v.reference || '')}</REFERENCE>
+     <PARTYLEDGERNAME>${escapeXml(v.party)}</PARTYLEDGERNAME>
+     <NARRATION>${escapeXml(v.narration)}</NARRATION>
+     <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>${v.entries.map(tallyEntry).join('')}
+    </VOUCHER>
+   </TALLYMESSAGE>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+ <HEADER>
+  <TALLYREQUEST>Import Data</TALLYREQUEST>
+ </HEADER>
+ <BODY>
+  <IMPORTDATA>
+   <REQUESTDESC>
+    <REPORTNAME>Vouchers</REPORTNAME>${company}
+   </REQUESTDESC>
+   <REQUESTDATA>${body}
+   </REQUESTDATA>
+  </IMPORTDATA>
+ </BODY>
+</ENVELOPE>
+`;
+}
+
+const JOURNAL_HEADERS = [
+  'Date', 'Voucher Type', 'Voucher No', 'Reference', 'Ledger', 'Debit', 'Credit',
+  'Currency', 'Bill Ref', 'Narration', 'Source', 'Source Id'
+];
+
+/** One row per ledger entry; each voucher's rows balance */
+export function renderJournalCsv(vouchers: AccountingVoucher[]): string {
+  const rows: CsvCell[][] = [];
+  for (const v of vouchers) {
+    for (const e of v.entries) {
+      rows.push([
+        v.date, v.voucher_type, v.number, v.reference, e.ledger,
+        e.debit > 0 ? e.debit : null, e.credit > 0 ? e.credit : null,
+        v.currency, e.bill ? `${e.bill.type}: ${e.bill.name}` : null, v.narration, v.kind, v.record_id
+      ]);
+    }
+  }
+  return toCsv(JOURNAL_HEADERS, rows);
+}
+
+/** True when Σ debit = Σ credit (to the paisa) and no entry is negative */
+export function isBalanced(voucher: AccountingVoucher): boolean {
+  const debit = voucher.entries.reduce((s, e) => s + e.debit, 0);
+  const credit = voucher.entries.reduce((s, e) => s + e.credit, 0);
+  return Math.abs(debit - credit) < 0.005 && voucher.entries.every((e) => e.debit >= 0 && e.credit >= 0);
+}
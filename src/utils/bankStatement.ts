@@ -0,0 +1,443 @@
+// ============================================================================
+// Bank statement parsing and invoice matching
+// ============================================================================
+// Pure functions behind the bank statement import:
+//   parseBankStatement — CSV exports of the common Indian banks (HDFC, ICICI,
+//     SBI, Axis, Kotak) or any CSV with recognisable date / narration /
+//     amount columns, and SWIFT MT940. Dates are read day-first.
+//   scoreMatch / suggestMatches — rank open invoices for one credit by
+//     amount, invoice/contract number in the narration and payer name.
+//
+// Scores are 0-100: amount up to 50, references up to 35, payer name up to
+// 25; a payment dated before the invoice loses 20. >= 80 is 'high', >= 50
+// 'medium'. Nothing here confirms a match — a person does.
+// ============================================================================
+
+import { parseCsv } from './csv';
+import {
+  MatchCandidate,
+  MatchConfidence,
+  MatchSuggestion,
+  ParsedStatement,
+  ParsedStatementLine
+} from '../types/bankStatementTypes';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+// ─── Column detection ───
+
+type Column = 'date' | 'value_date' | 'description' | 'reference' | 'credit' | 'debit' | 'amount' | 'dr_cr' | 'balance';
+
+// Header text (lower case, letters and digits only, trailing 'inr' dropped) → column
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  date: ['date', 'txndate', 'transactiondate', 'trandate', 'postingdate', 'bookingdate'],
+  value_date: ['valuedate', 'valuedt'],
+  description: ['narration', 'description', 'particulars', 'transactionremarks', 'transactiondetails', 'remarks', 'details'],
+  reference: ['chqrefno', 'refnochequeno', 'chequenumber', 'chequeno', 'chqno', 'referenceno', 'refno', 'utr', 'utrno', 'utrnumber', 'transactionid'],
+  credit: ['depositamt', 'depositamount', 'deposit', 'deposits', 'credit', 'creditamount', 'cr'],
+  debit: ['withdrawalamt', 'withdrawalamount', 'withdrawal', 'withdrawals', 'debit', 'debitamount', 'dr'],
+  amount: ['amount', 'transactionamount', 'txnamount'],
+  dr_cr: ['drcr', 'crdr', 'debitcredit', 'type', 'transactiontype'],
+  balance: ['balance', 'closingbalance', 'availablebalance', 'runningbalance', 'bal']
+};
+
+// Header signatures of the bank exports we know by name (first match wins)
+const BANK_PROFILES: Array<{ bank: string; headers: string[] }> = [
+  { bank: 'hdfc', headers: ['narration', 'chqrefno', 'withdrawalamt', 'depositamt'] },
+  { bank: 'icici', headers: ['transactionremarks', 'withdrawalamount', 'depositamount'] },
+  { bank: 'sbi', headers: ['txndate', 'refnochequeno', 'debit', 'credit'] },
+  { bank: 'axis', headers: ['trandate', 'particulars', 'dr', 'cr'] },
+  { bank: 'kotak', headers: ['description', 'amount', 'drcr', 'balance'] }
+];
+
+function headerKey(cell: string): string {
+  return cell.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/inr$/, '');
+}
+
+function mapColumns(row: string[]): Partial<Record<Column, number>> | null {
+  const keys = row.map(headerKey);
+  const map: Partial<Record<Column, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as Column[]).forEach((column) => {
+    const index = keys.findIndex((k, i) =>
+      COLUMN_ALIASES[column].includes(k) && !Object.values(map).includes(i));
+    if (index >= 0) map[column] = index;
+  });
+  // Only Value Date present: it is the transaction date
+  if (map.date === undefined && map.value_date !== undefined) {
+    map.date = map.value_date;
+    delete map.value_date;
+  }
+  const hasAmount = map.credit !== undefined || map.amount !== undefined;
+  return map.date !== undefined && map.description !== undefined && hasAmount ? map : null;
+}
+
+function detectBank(row: string[]): string {
+  const keys = row.map(headerKey);
+  return BANK_PROFILES.find((p) => p.headers.every((h) => keys.includes(h)))?.bank || 'generic';
+}
+
+// ─── Values ───
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+/** Statement date → ISO date. Day-first (dd/mm/yyyy, dd-Mon-yy, …) or ISO. */
+export function parseStatementDate(value: string): string | null {
+  // Some exports add the time: '18/10/2026 10:15:00'
+  const text = String(value || '').trim().replace(/[ T]\d{1,2}:\d{2}(:\d{2})?\s*(AM|PM)?$/i, '');
+  let y: number, m: number, d: number;
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{2}|\d{4})$/))) {
+    [d, m, y] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[\/\-. ]([A-Za-z]{3})[A-Za-z]*[\/\-. ,]+(\d{2}|\d{4})$/))) {
+    [d, m, y] = [Number(match[1]), MONTHS[match[2].toLowerCase()] || 0, Number(match[3])];
+  } else {
+    return null;
+  }
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (!m || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/** '1,18,000.00', '₹ 500', '250.00 Cr', '(120.50)' → number; blank → null */
+export function parseStatementAmount(value: string): number | null {
+  const text = String(value || '').trim();
+  if (!text || text === '-') return null;
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text);
+  const digits = text.replace(/[^0-9.]/g, '');
+  if (!digits || Number.isNaN(Number(digits))) return null;
+  return round2(Number(digits) * (negative ? -1 : 1));
+}
+
+const NARRATION_NOISE = new Set([
+  'UPI', 'NEFT', 'RTGS', 'IMPS', 'CR', 'DR', 'P2A', 'P2M', 'BY', 'TO', 'TRANSFER', 'INB', 'MOB', 'MMT',
+  'CLG', 'CHQ', 'DEP', 'CASH', 'NACH', 'ACH', 'ECS', 'FT', 'INWARD', 'REMITTANCE', 'PAYMENT', 'FROM', 'REF',
+  'UTR', 'NO', 'RRN', 'TXN'
+]);
+
+/** UTR (NEFT/RTGS), 12-digit UPI/IMPS RRN or a cheque number in the narration */
+export function extractReference(description: string): string | null {
+  const text = description.toUpperCase();
+  const utr = text.match(/\b[A-Z]{4}[0-9A-Z]?[NRH]\d{9,20}\b/);
+  if (utr) return utr[0];
+  const rrn = text.match(/(?:^|[^0-9])(\d{12})(?![0-9])/);
+  if (rrn) return rrn[1];
+  const cheque = text.match(/\bCHQ(?:\s*NO)?[\s.:\-]*(\d{6})\b/);
+  return cheque ? cheque[1] : null;
+}
+
+/**
+ * Payer from the narration: the first segment (split on / - :) that reads
+ * as a name — letters and spaces, 3+ letters, not a rail keyword, a VPA or
+ * an IFSC. 'NEFT CR-HDFC0000123-ACME TRADERS-…' → 'ACME TRADERS'.
+ */
+export function extractPayerName(description: string): string | null {
+  for (const raw of description.split(/[\/\-:|]+/)) {
+    const part = raw.trim().replace(/\s+/g, ' ');
+    if (part.length < 3 || part.includes('@')) continue;
+    if (!/^[A-Za-z .&']+$/.test(part)) continue;
+    const words = part.toUpperCase().split(' ').filter((w) => !NARRATION_NOISE.has(w));
+    if (words.join('').replace(/[^A-Z]/g, '').length < 3) continue;
+    return words.join(' ');
+  }
+  return null;
+}
+
+function statementLine(fields: {
+  date: string;
+  valueDate?: string;
+  description: string;
+  reference?: string;
+  amount: number;
+  balance?: number | null;
+}): ParsedStatementLine {
+  const description = fields.description.replace(/\s+/g, ' ').trim();
+  // Blank-ish cells ('-', '0000000') are no reference; zero padding is dropped
+  const reference = (fields.reference || '').trim().replace(/^[\s0.\-]*$/, '').replace(/^0+(?=\d{6,}$)/, '');
+  return {
+    txn_date: fields.date,
+    value_date: fields.valueDate || null,
+    description,
+    reference: reference || extractReference(description),
+    payer_name: extractPayerName(description),
+    amount: Math.abs(fields.amount),
+    direction: fields.amount >= 0 ? 'credit' : 'debit',
+    balance: fields.balance ?? null
+  };
+}
+
+// ─── CSV ───
+
+function parseCsvStatement(text: string): ParsedStatement {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) => mapColumns(row) !== null);
+  if (headerIndex < 0) {
+    throw new Error('No header row with date, narration and amount columns was found');
+  }
+  const header = rows[headerIndex];
+  const columns = mapColumns(header)!;
+  const cell = (row: string[], column: Column) =>
+    columns[column] === undefined ? '' : String(row[columns[column]!] ?? '').trim();
+
+  // Preamble lines like 'Account No : 50100123456789' carry the account
+  const preamble = rows.slice(0, headerIndex).map((r) => r.join(' ')).join('\n');
+  const account = preamble.match(/a\/?c(?:count)?\.?\s*(?:no|number)?\.?\s*[:\-]?\s*[X*]*(\d{6,18})/i);
+
+  const statement: ParsedStatement = {
+    format: 'csv',
+    bank: detectBank(header),
+    account_number: account ? account[1] : null,
+    currency: null,
+    lines: [],
+    skipped: []
+  };
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    if (row.every((c) => !String(c).trim()) || /^\*+$/.test(String(row[0] || '').trim())) return;
+    const date = parseStatementDate(cell(row, 'date'));
+    if (!date) {
+      // Footers (totals, 'End of statement') have no date — only complain if it had money in it
+      const money = ['credit', 'debit', 'amount'].some((c) => parseStatementAmount(cell(row, c as Column)));
+      if (money && !/total|opening|closing/i.test(row.join(' '))) {
+        statement.skipped.push({ row: rowNumber, reason: `Unreadable date '${cell(row, 'date')}'` });
+      }
+      return;
+    }
+
+    let amount: number | null;
+    if (columns.credit !== undefined || columns.debit !== undefined) {
+      const credit = parseStatementAmount(cell(row, 'credit'));
+      const debit = parseStatementAmount(cell(row, 'debit'));
+      amount = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    } else {
+      amount = parseStatementAmount(cell(row, 'amount'));
+      const marker = cell(row, 'dr_cr') || cell(row, 'amount');
+      if (amount !== null && /\bd(r|ebit)?\b/i.test(marker.replace(/[0-9.,]/g, ' '))) amount = -Math.abs(amount);
+    }
+    if (!amount) {
+      statement.skipped.push({ row: rowNumber, reason: 'No amount' });
+      return;
+    }
+
+    statement.lines.push(statementLine({
+      date,
+      valueDate: parseStatementDate(cell(row, 'value_date')) || undefined,
+      description: cell(row, 'description'),
+      reference: cell(row, 'reference'),
+      amount,
+      balance: parseStatementAmount(cell(row, 'balance'))
+    }));
+  });
+
+  return statement;
+}
+
+// ─── MT940 ───
+
+/** ':61:2610181018C118000,00NTRFNONREF//HDFCN52026101812345678' */
+const MT940_LINE = /^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+function mt940Date(yymmdd: string): string | null {
+  return parseStatementDate(`${yymmdd.slice(4, 6)}/${yymmdd.slice(2, 4)}/${yymmdd.slice(0, 2)}`);
+}
+
+function parseMt940(text: string): ParsedStatement {
+  const statement: ParsedStatement = {
+    format: 'mt940',
+    bank: 'mt940',
+    account_number: null,
+    currency: null,
+    lines: [],
+    skipped: []
+  };
+
+  // Fields start with :tag: at the beginning of a line; continuation lines belong to the previous field
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of text.replace(/\r/g, '').split('\n')) {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2] });
+    else if (fields.length > 0 && line.trim() && !/^-\}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  let pending: ParsedStatementLine | null = null;
+  const flush = () => {
+    if (pending) statement.lines.push(pending);
+    pending = null;
+  };
+
+  fields.forEach((field, i) => {
+    switch (field.tag) {
+      case '25':
+        statement.account_number = statement.account_number || field.value.trim().split('/').pop() || null;
+        break;
+      case '60F':
+      case '60M':
+        statement.currency = statement.currency || field.value.slice(7, 10) || null;
+        break;
+      case '61': {
+        flush();
+        const m = field.value.match(MT940_LINE);
+        const date = m ? mt940Date(m[1]) : null;
+        if (!m || !date) {
+          statement.skipped.push({ row: i + 1, reason: `Unreadable :61: line '${field.value.split('\n')[0]}'` });
+          return;
+        }
+        // RC (reversal of credit) is money out, RD money in
+        const credit = m[3] === 'C' || m[3] === 'RD';
+        const amount = Number(m[4].replace(',', '.')) * (credit ? 1 : -1);
+        // YYMMDD is the value date; the optional MMDD after it the booking date
+        const booked = m[2] ? mt940Date(`${m[1].slice(0, 2)}${m[2]}`) : null;
+        const customerRef = (m[6] || '').trim();
+        const bankRef = (m[7] || '').trim();
+        pending = statementLine({
+          date: booked || date,
+          valueDate: date,
+          description: (m[8] || '').trim(),
+          reference: bankRef || (customerRef && customerRef !== 'NONREF' ? customerRef : ''),
+          amount
+        });
+        break;
+      }
+      case '86': {
+        if (!pending) return;
+        // Structured ?20..?29 subfields (German-style) or free text
+        const info = field.value.replace(/\n/g, '').replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+        const line: ParsedStatementLine = pending;
+        pending = statementLine({
+          date: line.txn_date,
+          valueDate: line.value_date || undefined,
+          description: [line.description, info].filter(Boolean).join(' '),
+          reference: line.reference || '',
+          amount: line.direction === 'credit' ? line.amount : -line.amount
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  });
+  flush();
+
+  if (statement.lines.length === 0 && statement.skipped.length === 0) {
+    throw new Error('No :61: statement lines found in the MT940 file');
+  }
+  return statement;
+}
+
+/**
+ * Parse an uploaded statement. format is detected from the content when not
+ * given (':20:' / ':61:' tags → MT940, otherwise CSV). Throws with a message
+ * fit for the user when the file cannot be read at all.
+ */
+export function parseBankStatement(content: string, format?: 'csv' | 'mt940'): ParsedStatement {
+  const isMt940 = format ? format === 'mt940' : /^:20:/m.test(content) && /^:61:/m.test(content);
+  return isMt940 ? parseMt940(content) : parseCsvStatement(content);
+}
+
+// ─── Matching ───
+
+const NAME_NOISE = new Set([
+  'PVT', 'PRIVATE', 'LTD', 'LIMITED', 'LLP', 'INC', 'CO', 'COMPANY', 'AND', 'THE', 'M/S', 'MS', 'MR', 'MRS',
+  'ENTERPRISES', 'SERVICES', 'SOLUTIONS', 'INDIA', 'TECHNOLOGIES'
+]);
+
+function nameTokens(text: string): string[] {
+  return text.toUpperCase().replace(/[^A-Z ]/g, ' ').split(/\s+/)
+    .filter((t) => t.length >= 3 && !NAME_NOISE.has(t) && !NARRATION_NOISE.has(t));
+}
+
+/** Letters and digits only, upper case — 'INV/2026-0042' matches 'INV20260042' */
+function compact(text: string | null | undefined): string {
+  return String(text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function matchConfidence(score: number): MatchConfidence {
+  if (score >= 80) return 'high';
+  if (score >= 50) return 'medium';
+  return 'low';
+}
+
+/** Score one open invoice for one statement credit */
+export function scoreMatch(
+  line: Pick<ParsedStatementLine, 'txn_date' | 'description' | 'reference' | 'payer_name' | 'amount'>,
+  invoice: MatchCandidate
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Amount
+  if (Math.abs(line.amount - invoice.outstanding) < 0.01) {
+    score += 50;
+    reasons.push('amount_equals_outstanding');
+  } else if (Math.abs(line.amount - invoice.total_amount) < 0.01) {
+    score += 45;
+    reasons.push('amount_equals_invoice_total');
+  } else if (line.amount < invoice.outstanding) {
+    score += 15;
+    reasons.push('partial_amount');
+  }
+
+  // References in the narration
+  const narration = compact(`${line.description} ${line.reference || ''}`);
+  const invoiceNumber = compact(invoice.invoice_number);
+  const contractNumber = compact(invoice.contract_number);
+  if (invoiceNumber.length >= 4 && narration.includes(invoiceNumber)) {
+    score += 35;
+    reasons.push('invoice_number_in_narration');
+  } else if (contractNumber.length >= 4 && narration.includes(contractNumber)) {
+    score += 20;
+    reasons.push('contract_number_in_narration');
+  }
+
+  // Payer name vs buyer: share of the buyer's name words found in the payer
+  // name (or, when none was extracted, anywhere in the narration)
+  const buyer = nameTokens(invoice.buyer_name || '');
+  if (buyer.length > 0) {
+    const payer = new Set(nameTokens(line.payer_name || line.description));
+    const found = buyer.filter((t) => payer.has(t)).length / buyer.length;
+    if (found > 0) {
+      score += Math.round(found * 25);
+      reasons.push(found === 1 ? 'payer_name_matches' : 'payer_name_partial');
+    }
+  }
+
+  if (invoice.invoice_date && line.txn_date < invoice.invoice_date.slice(0, 10)) {
+    score -= 20;
+    reasons.push('paid_before_invoice_date');
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+/** Best invoices for one credit: same currency, score >= minScore, top `limit` */
+export function suggestMatches(
+  line: Pick<ParsedStatementLine, 'txn_date' | 'description' | 'reference' | 'payer_name' | 'amount'>,
+  candidates: MatchCandidate[],
+  options: { currency?: string | null; minScore?: number; limit?: number } = {}
+): MatchSuggestion[] {
+  const minScore = options.minScore ?? 30;
+  const currency = options.currency ? options.currency.toUpperCase() : null;
+  return candidates
+    .filter((c) => c.outstanding > 0 && (!currency || c.currency === currency))
+    .map((c) => ({ candidate: c, ...scoreMatch(line, c) }))
+    .filter((s) => s.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.candidate.outstanding - b.candidate.outstanding)
+    .slice(0, options.limit ?? 3)
+    .map(({ candidate, score, reasons }) => ({
+      invoice_id: candidate.invoice_id,
+      invoice_number: candidate.invoice_number,
+      contract_id: candidate.contract_id,
+      buyer_name: candidate.buyer_name,
+      outstanding: candidate.outstanding,
+      score,
+      confidence: matchConfidence(score),
+      reasons
+    }));
+}
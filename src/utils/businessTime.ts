@@ -0,0 +1,115 @@
+// ============================================================================
+// Business time — elapsed / due working time in a tenant's calendar
+// ============================================================================
+// SLA clocks count only working time: the tenant's working hours on days that
+// are neither a weekly off nor a holiday (cadence settings), in the tenant's
+// time zone. Days are walked in wall-clock space and each day's window is
+// mapped back to instants, so DST days are as long as they really are.
+// ============================================================================
+
+import { instantFromWallClock, wallClockMs } from '../services/contractEventsDerivationService';
+
+export interface BusinessCalendar {
+  /** IANA zone the working hours and holiday dates are in */
+  timeZone: string;
+  /** Weekday indices that are off, 0 = Sunday … 6 = Saturday */
+  weeklyHolidays: number[];
+  /** Holidays as calendar dates 'YYYY-MM-DD' */
+  holidays: string[];
+  /** Working window of a working day, minutes from local midnight (end ≤ 1440) */
+  dayStartMinute: number;
+  dayEndMinute: number;
+}
+
+/** A calendar with no pauses — SLA policies that run 24x7 */
+export const ROUND_THE_CLOCK: BusinessCalendar = {
+  timeZone: 'UTC',
+  weeklyHolidays: [],
+  holidays: [],
+  dayStartMinute: 0,
+  dayEndMinute: 24 * 60,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// A calendar with no working day in ten years is unusable; stop scanning
+const MAX_SCAN_DAYS = 3660;
+
+interface CompiledCalendar {
+  timeZone: string;
+  weeklyOff: Set<number>;
+  holidays: Set<string>;
+  startMs: number;
+  endMs: number;
+}
+
+function compile(calendar: BusinessCalendar): CompiledCalendar {
+  return {
+    timeZone: calendar.timeZone,
+    weeklyOff: new Set(calendar.weeklyHolidays || []),
+    holidays: new Set(calendar.holidays || []),
+    startMs: Math.max(0, calendar.dayStartMinute) * MINUTE_MS,
+    endMs: Math.min(24 * 60, calendar.dayEndMinute) * MINUTE_MS,
+  };
+}
+
+/** Local midnight of the day containing `utcMs`, as a wall-clock timestamp */
+function wallDayOf(utcMs: number, timeZone: string): number {
+  const wall = wallClockMs(utcMs, timeZone);
+  return wall - (((wall % DAY_MS) + DAY_MS) % DAY_MS);
+}
+
+/** Working window [start, end) of a local day as instants, null on a day off */
+function windowOn(cal: CompiledCalendar, wallDay: number): [number, number] | null {
+  const day = new Date(wallDay);
+  if (cal.weeklyOff.has(day.getUTCDay()) || cal.holidays.has(day.toISOString().slice(0, 10))) return null;
+  const start = instantFromWallClock(wallDay + cal.startMs, cal.timeZone).getTime();
+  const end = instantFromWallClock(wallDay + cal.endMs, cal.timeZone).getTime();
+  return end > start ? [start, end] : null;
+}
+
+/** Working minutes between two instants (0 when `to` is not after `from`) */
+export function businessMinutesBetween(calendar: BusinessCalendar, from: Date, to: Date): number {
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  if (!(toMs > fromMs)) return 0;
+
+  const cal = compile(calendar);
+  const lastDay = wallDayOf(toMs, cal.timeZone);
+  let total = 0;
+  let day = wallDayOf(fromMs, cal.timeZone);
+  for (let i = 0; i < MAX_SCAN_DAYS && day <= lastDay; i++, day += DAY_MS) {
+    const window = windowOn(cal, day);
+    if (!window) continue;
+    const overlap = Math.min(window[1], toMs) - Math.max(window[0], fromMs);
+    if (overlap > 0) total += overlap;
+  }
+  return Math.floor(total / MINUTE_MS);
+}
+
+/**
+ * The instant `minutes` working minutes after `from`. Null when the calendar
+ * has no working time to count in (every day off).
+ */
+export function addBusinessMinutes(calendar: BusinessCalendar, from: Date, minutes: number): Date | null {
+  const cal = compile(calendar);
+  const fromMs = from.getTime();
+  let remaining = Math.max(0, minutes) * MINUTE_MS;
+  let day = wallDayOf(fromMs, cal.timeZone);
+  for (let i = 0; i < MAX_SCAN_DAYS; i++, day += DAY_MS) {
+    const window = windowOn(cal, day);
+    if (!window) continue;
+    const start = Math.max(window[0], fromMs);
+    if (window[1] <= start) continue;
+    if (remaining <= window[1] - start) return new Date(start + remaining);
+    remaining -= window[1] - start;
+  }
+  return null;
+}
+
+/** True when `at` falls inside working time */
+export function isBusinessTime(calendar: BusinessCalendar, at: Date): boolean {
+  const cal = compile(calendar);
+  const window = windowOn(cal, wallDayOf(at.getTime(), cal.timeZone));
+  return !!window && at.getTime() >= window[0] && at.getTime() < window[1];
+}
@@ -0,0 +1,122 @@
+// src/utils/constants/gstStates.ts
+// Indian GST state codes (first two digits of a GSTIN) and place-of-supply helpers
+
+interface GstState {
+  code: string;          // GST numeric state code
+  alpha: string;         // ISO 3166-2:IN subdivision (without the IN- prefix)
+  name: string;
+  /** Union territory without a legislature — intra-state supplies pay UTGST, not SGST */
+  utgst?: boolean;
+}
+
+export const GST_STATES: GstState[] = [
+  { code: '01', alpha: 'JK', name: 'Jammu and Kashmir' },
+  { code: '02', alpha: 'HP', name: 'Himachal Pradesh' },
+  { code: '03', alpha: 'PB', name: 'Punjab' },
+  { code: '04', alpha: 'CH', name: 'Chandigarh', utgst: true },
+  { code: '05', alpha: 'UK', name: 'Uttarakhand' },
+  { code: '06', alpha: 'HR', name: 'Haryana' },
+  { code: '07', alpha: 'DL', name: 'Delhi' },
+  { code: '08', alpha: 'RJ', name: 'Rajasthan' },
+  { code: '09', alpha: 'UP', name: 'Uttar Pradesh' },
+  { code: '10', alpha: 'BR', name: 'Bihar' },
+  { code: '11', alpha: 'SK', name: 'Sikkim' },
+  { code: '12', alpha: 'AR', name: 'Arunachal Pradesh' },
+  { code: '13', alpha: 'NL', name: 'Nagaland' },
+  { code: '14', alpha: 'MN', name: 'Manipur' },
+  { code: '15', alpha: 'MZ', name: 'Mizoram' },
+  { code: '16', alpha: 'TR', name: 'Tripura' },
+  { code: '17', alpha: 'ML', name: 'Meghalaya' },
+  { code: '18', alpha: 'AS', name: 'Assam' },
+  { code: '19', alpha: 'WB', name: 'West Bengal' },
+  { code: '20', alpha: 'JH', name: 'Jharkhand' },
+  { code: '21', alpha: 'OD', name: 'Odisha' },
+  { code: '22', alpha: 'CG', name: 'Chhattisgarh' },
+  { code: '23', alpha: 'MP', name: 'Madhya Pradesh' },
+  { code: '24', alpha: 'GJ', name: 'Gujarat' },
+  { code: '26', alpha: 'DH', name: 'Dadra and Nagar Haveli and Daman and Diu', utgst: true },
+  { code: '27', alpha: 'MH', name: 'Maharashtra' },
+  { code: '29', alpha: 'KA', name: 'Karnataka' },
+  { code: '30', alpha: 'GA', name: 'Goa' },
+  { code: '31', alpha: 'LD', name: 'Lakshadweep', utgst: true },
+  { code: '32', alpha: 'KL', name: 'Kerala' },
+  { code: '33', alpha: 'TN', name: 'Tamil Nadu' },
+  { code: '34', alpha: 'PY', name: 'Puducherry' },
+  { code: '35', alpha: 'AN', name: 'Andaman and Nicobar Islands', utgst: true },
+  { code: '36', alpha: 'TS', name: 'Telangana' },
+  { code: '37', alpha: 'AP', name: 'Andhra Pradesh' },
+  { code: '38', alpha: 'LA', name: 'Ladakh', utgst: true },
+  { code: '97', alpha: 'OT', name: 'Other Territory', utgst: true },
+];
+
+// GST place-of-supply code for supplies to a buyer outside India
+export const GST_FOREIGN_PLACE_OF_SUPPLY = '96';
+
+// Older / alternate codes still found in stored profiles and addresses
+const ALIASES: Record<string, string> = {
+  '25': '26',   // Daman and Diu, merged into 26 in 2020
+  '28': '37',   // Andhra Pradesh before bifurcation
+  'DD': '26',
+  'DN': '26',
+  'OR': '21',
+  'CT': '22',
+  'TG': '36',
+  'UT': '05',
+};
+
+const BY_CODE = new Map(GST_STATES.map((s) => [s.code, s]));
+const BY_ALPHA = new Map(GST_STATES.map((s) => [s.alpha, s]));
+const BY_NAME = new Map(GST_STATES.map((s) => [s.name.toLowerCase().replace(/[^a-z]/g, ''), s]));
+
+/**
+ * Resolve a state written any way we store it — GST code ('29', '5'),
+ * ISO alpha ('KA', 'IN-KA') or name ('Karnataka') — to its GST state code.
+ * Returns null for anything unrecognised.
+ */
+export function normaliseGstStateCode(value: string | null | undefined): string | null {
+  if (!value) return null;
+  let raw = String(value).trim().toUpperCase();
+  if (!raw) return null;
+  if (raw.startsWith('IN-')) raw = raw.slice(3);
+  if (/^\d{1,2}$/.test(raw)) raw = raw.padStart(2, '0');
+
+  const aliased = ALIASES[raw] || raw;
+  const state = BY_CODE.get(aliased)
+    || BY_ALPHA.get(aliased)
+    || BY_NAME.get(raw.toLowerCase().replace(/[^a-z]/g, ''));
+  return state ? state.code : null;
+}
+
+/** GST state code from a GSTIN (its first two digits), or null when malformed */
+export function gstStateCodeFromGstin(gstin: string | null | undefined): string | null {
+  const value = String(gstin || '').trim().toUpperCase();
+  if (!/^\d{2}[A-Z0-9]{13}$/.test(value)) return null;
+  return normaliseGstStateCode(value.slice(0, 2));
+}
+
+export function isUtgstTerritory(code: string | null | undefined): boolean {
+  return !!(code && BY_CODE.get(code)?.utgst);
+}
+
+export function gstStateName(code: string | null | undefined): string | null {
+  return (code && BY_CODE.get(code)?.name) || null;
+}
+
+/**
+ * First GSTIN-shaped value anywhere in a loosely structured record — contact
+ * compliance_numbers are stored as arrays or objects of varying shape.
+ */
+export function findGstin(record: unknown): string | null {
+  if (typeof record === 'string') {
+    const value = record.trim().toUpperCase();
+    return gstStateCodeFromGstin(value) ? value : null;
+  }
+  const children = Array.isArray(record)
+    ? record
+    : record && typeof record === 'object' ? Object.values(record as Record<string, unknown>) : [];
+  for (const child of children) {
+    const found = findGstin(child);
+    if (found) return found;
+  }
+  return null;
+}
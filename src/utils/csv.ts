@@ -0,0 +1,63 @@
+// ============================================================================
+// CSV writer — RFC 4180 quoting for report exports (and a reader for uploads)
+// ============================================================================
+// Text cells that a spreadsheet would evaluate as a formula (=, +, -, @, tab,
+// CR) are prefixed with a single quote so exported data can never execute in
+// Excel/Sheets. Numbers are written as-is, so negative amounts stay numeric.
+// ============================================================================
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Header row + data rows, CRLF line endings */
+export function toCsv(headers: string[], rows: CsvCell[][]): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Rows of an uploaded CSV (RFC 4180: quoted fields, doubled quotes, CRLF or
+ * LF, newlines inside quotes). A UTF-8 BOM is dropped; a sheet saved with ;
+ * or tab separators is read with that delimiter. Cells are not trimmed.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  // Bank exports open with a few preamble lines — look past them for the delimiter
+  const head = input.split(/\r?\n/, 15);
+  const widest = (d: string) => Math.max(...head.map((line) => line.split(d).length));
+  const delimiter = [';', '\t'].reduce((best, d) => (widest(d) > widest(best) ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows;
+}
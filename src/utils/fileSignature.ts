@@ -0,0 +1,233 @@
+// ============================================================================
+// File signatures — what an upload really is, from its bytes
+// ============================================================================
+// Multer hands over the client-declared mimetype, which is only a claim.
+// sniffFileType reads the magic bytes (and, for ZIP-based Office files, the
+// entry names; for text, whether it decodes as UTF-8) and reports the type,
+// whether the file is an executable or script, and whether an SVG carries
+// script. declaredTypeMatches decides if the claim fits what was found.
+// ============================================================================
+
+import { TextDecoder } from 'util';
+
+export interface SniffResult {
+  /** Detected MIME type, null when no signature is recognised */
+  mime: string | null;
+  /** Windows / Linux / macOS binary or a #! script */
+  executable: boolean;
+  /** SVG with script, event handlers, javascript: URLs or foreignObject */
+  activeContent: boolean;
+}
+
+const MIME_OLE = 'application/x-cfb';
+const MIME_ZIP = 'application/zip';
+const MIME_DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MIME_XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MIME_PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const MIME_TEXT = 'text/plain';
+const MIME_SVG = 'image/svg+xml';
+const MIME_HTML = 'text/html';
+
+// Bytes inspected for text / markup; signatures all sit at the start
+const TEXT_PROBE_BYTES = 8192;
+const MARKUP_PROBE_BYTES = 1024 * 1024;
+
+const EXECUTABLES: Array<{ mime: string; magic: number[] }> = [
+  { mime: 'application/x-msdownload', magic: [0x4d, 0x5a] },                 // MZ (PE)
+  { mime: 'application/x-executable', magic: [0x7f, 0x45, 0x4c, 0x46] },     // ELF
+  { mime: 'application/x-mach-binary', magic: [0xfe, 0xed, 0xfa, 0xce] },
+  { mime: 'application/x-mach-binary', magic: [0xfe, 0xed, 0xfa, 0xcf] },
+  { mime: 'application/x-mach-binary', magic: [0xce, 0xfa, 0xed, 0xfe] },
+  { mime: 'application/x-mach-binary', magic: [0xcf, 0xfa, 0xed, 0xfe] },
+  { mime: 'application/x-mach-binary', magic: [0xca, 0xfe, 0xba, 0xbe] },    // fat binary / Java class
+  { mime: 'text/x-shellscript', magic: [0x23, 0x21] }                         // #!
+];
+
+const SIGNATURES: Array<{ mime: string; magic: number[] }> = [
+  { mime: 'image/jpeg', magic: [0xff, 0xd8, 0xff] },
+  { mime: 'image/png', magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/gif', magic: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61] },        // GIF87a
+  { mime: 'image/gif', magic: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61] },        // GIF89a
+  { mime: 'image/bmp', magic: [0x42, 0x4d] },
+  { mime: 'image/tiff', magic: [0x49, 0x49, 0x2a, 0x00] },
+  { mime: 'image/tiff', magic: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mime: MIME_OLE, magic: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] }, // .doc / .xls / .ppt
+  { mime: 'application/rtf', magic: [0x7b, 0x5c, 0x72, 0x74, 0x66] },         // {\rtf
+  { mime: 'application/gzip', magic: [0x1f, 0x8b] },
+  { mime: 'application/x-7z-compressed', magic: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: 'application/vnd.rar', magic: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { mime: 'audio/mpeg', magic: [0x49, 0x44, 0x33] }                           // ID3
+];
+
+// ISO base media (ftyp box at offset 4): major brand → type
+const FTYP_BRANDS: Record<string, string> = {
+  'qt  ': 'video/quicktime',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  avif: 'image/avif',
+  '3gp4': 'video/3gpp',
+  '3gp5': 'video/3gpp',
+  '3g2a': 'video/3gpp2'
+};
+
+// Declared names that mean the same type
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'application/x-pdf': 'application/pdf',
+  'image/x-ms-bmp': 'image/bmp',
+  'application/x-zip-compressed': MIME_ZIP,
+  'audio/mp3': 'audio/mpeg'
+};
+
+// Declared type → detected types that satisfy it (beyond itself)
+const COMPATIBLE: Record<string, string[]> = {
+  'application/msword': [MIME_OLE],
+  // Windows browsers declare .csv files as Excel
+  'application/vnd.ms-excel': [MIME_OLE, MIME_TEXT],
+  'application/vnd.ms-powerpoint': [MIME_OLE],
+  'application/vnd.ms-outlook': [MIME_OLE],
+  'video/mp4': ['video/quicktime', 'video/3gpp'],
+  'video/quicktime': ['video/mp4'],
+  'image/heif': ['image/heic'],
+  'image/heic': ['image/heif'],
+  [MIME_TEXT]: [MIME_SVG, MIME_HTML]
+};
+
+const startsWith = (buffer: Buffer, magic: number[]): boolean =>
+  buffer.length >= magic.length && magic.every((byte, i) => buffer[i] === byte);
+
+/** Names of the entries in a ZIP's central directory (empty if unreadable) */
+function zipEntryNames(buffer: Buffer): string[] {
+  // End of central directory: 22 bytes + comment of up to 64 KiB
+  const from = Math.max(0, buffer.length - 22 - 0xffff);
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= from; i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return [];
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let pos = buffer.readUInt32LE(eocd + 16);
+  const names: string[] = [];
+  for (let i = 0; i < count && pos + 46 <= buffer.length; i++) {
+    if (buffer.readUInt32LE(pos) !== 0x02014b50) break;
+    const nameLength = buffer.readUInt16LE(pos + 28);
+    const extraLength = buffer.readUInt16LE(pos + 30);
+    const commentLength = buffer.readUInt16LE(pos + 32);
+    names.push(buffer.toString('utf8', pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+function zipType(buffer: Buffer): string {
+  const names = zipEntryNames(buffer);
+  if (!names.includes('[Content_Types].xml')) return MIME_ZIP;
+  if (names.some(name => name.startsWith('word/'))) return MIME_DOCX;
+  if (names.some(name => name.startsWith('xl/'))) return MIME_XLSX;
+  if (names.some(name => name.startsWith('ppt/'))) return MIME_PPTX;
+  return MIME_ZIP;
+}
+
+/** UTF-8 (or UTF-16 with a BOM) text without control bytes */
+function isText(buffer: Buffer): boolean {
+  if (startsWith(buffer, [0xff, 0xfe]) || startsWith(buffer, [0xfe, 0xff])) return true;
+  const probe = buffer.subarray(0, TEXT_PROBE_BYTES);
+  for (let i = 0; i < probe.length; i++) {
+    const byte = probe[i];
+    if (byte === 0 || (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b)) {
+      return false;
+    }
+  }
+  try {
+    // stream: a character cut at the probe boundary is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(probe, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Markup a text file starts with, ignoring BOM, XML declaration, comments and doctype */
+function markupType(text: string): string | null {
+  const start = text
+    .replace(/^\uFEFF/, '')
+    .replace(/^(?:\s+|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE\s+svg[^>]*>)*/i, '')
+    .slice(0, 64)
+    .toLowerCase();
+  if (start.startsWith('<svg')) return MIME_SVG;
+  if (/^<!doctype\s+html|^<html|^<head|^<body|^<script/.test(start)) return MIME_HTML;
+  return null;
+}
+
+const SVG_ACTIVE_CONTENT = /<script[\s>/]|\son[a-z]+\s*=|javascript\s*:|<foreignobject[\s>/]|<iframe[\s>/]|<embed[\s>/]/i;
+
+export function sniffFileType(buffer: Buffer): SniffResult {
+  const executable = EXECUTABLES.find(entry => startsWith(buffer, entry.magic));
+  if (executable) return { mime: executable.mime, executable: true, activeContent: false };
+
+  const signature = SIGNATURES.find(entry => startsWith(buffer, entry.magic));
+  if (signature) return { mime: signature.mime, executable: false, activeContent: false };
+
+  // PDF readers accept the header anywhere in the first KiB
+  if (buffer.subarray(0, 1024).indexOf('%PDF-', 0, 'latin1') >= 0) {
+    return { mime: 'application/pdf', executable: false, activeContent: false };
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) || startsWith(buffer, [0x50, 0x4b, 0x05, 0x06])) {
+    return { mime: zipType(buffer), executable: false, activeContent: false };
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 4, 8) === 'ftyp') {
+    return { mime: FTYP_BRANDS[buffer.toString('latin1', 8, 12)] || 'video/mp4', executable: false, activeContent: false };
+  }
+  if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && buffer.length >= 12) {
+    const form = buffer.toString('latin1', 8, 12);
+    const mime = form === 'WEBP' ? 'image/webp' : form === 'WAVE' ? 'audio/wav' : form === 'AVI ' ? 'video/x-msvideo' : null;
+    if (mime) return { mime, executable: false, activeContent: false };
+  }
+
+  if (isText(buffer)) {
+    const text = buffer.toString('utf8', 0, Math.min(buffer.length, MARKUP_PROBE_BYTES));
+    const markup = markupType(text);
+    return {
+      mime: markup || MIME_TEXT,
+      executable: false,
+      activeContent: markup === MIME_SVG && SVG_ACTIVE_CONTENT.test(text)
+    };
+  }
+
+  return { mime: null, executable: false, activeContent: false };
+}
+
+/** Declared MIME type in canonical form (lower case, no parameters, aliases resolved) */
+export function normalizeMimeType(mimeType: string): string {
+  const base = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] || base;
+}
+
+/**
+ * Whether the declared type fits the detected one. A declared type whose
+ * signature is known must match it; other text/* types only need text; any
+ * other declared type is accepted (there is nothing to compare it with).
+ */
+export function declaredTypeMatches(declared: string, detected: string | null): boolean {
+  const claim = normalizeMimeType(declared);
+  if (detected === claim || (detected && COMPATIBLE[claim]?.includes(detected))) return true;
+
+  const knownTypes = new Set<string>([
+    ...SIGNATURES.map(entry => entry.mime),
+    ...Object.keys(FTYP_BRANDS).map(brand => FTYP_BRANDS[brand]),
+    ...Object.keys(COMPATIBLE),
+    'application/pdf', 'video/mp4', 'image/webp', 'audio/wav', 'video/x-msvideo',
+    MIME_ZIP, MIME_DOCX, MIME_XLSX, MIME_PPTX, MIME_SVG, MIME_HTML
+  ]);
+  if (knownTypes.has(claim)) return false;
+  if (claim.startsWith('text/')) return detected === MIME_TEXT;
+  return true;
+}
@@ -0,0 +1,117 @@
+// ============================================================================
+// FX helpers — stored-rate lookup, conversion and the rate-file reader
+// ============================================================================
+// Rates are the tenant's own (no live feed): 1 unit of currency = rate units
+// of the base currency, in effect from effective_date until the next rate
+// for the same currency. A date before the first rate has no rate.
+// ============================================================================
+
+import { parseCsv } from './csv';
+import { parseStatementDate } from './bankStatement';
+import { FxRateInput } from '../types/financeTypes';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export interface FxRatePoint {
+  effective_date: string;
+  rate: number;
+}
+
+/** currency → its rates, oldest first */
+export type FxRateTable = Map<string, FxRatePoint[]>;
+
+export function buildRateTable(rates: Array<{ currency: string; rate: number | string; effective_date: string }>): FxRateTable {
+  const table: FxRateTable = new Map();
+  for (const r of rates) {
+    const currency = String(r.currency).toUpperCase();
+    const points = table.get(currency) || [];
+    points.push({ effective_date: String(r.effective_date).slice(0, 10), rate: Number(r.rate) });
+    table.set(currency, points);
+  }
+  for (const points of table.values()) points.sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+  return table;
+}
+
+/** The rate in effect on `date`; 1 for the base currency itself */
+export function rateOn(
+  table: FxRateTable,
+  currency: string,
+  baseCurrency: string,
+  date: string
+): FxRatePoint | null {
+  const code = String(currency || '').toUpperCase();
+  if (code === baseCurrency) return { effective_date: date, rate: 1 };
+  const points = table.get(code);
+  if (!points) return null;
+  let found: FxRatePoint | null = null;
+  for (const point of points) {
+    if (point.effective_date > date) break;
+    found = point;
+  }
+  return found;
+}
+
+export function toBase(amount: number, rate: number): number {
+  return round2(amount * rate);
+}
+
+// ─── Rate file ───
+
+const COLUMN_ALIASES: Record<'currency' | 'rate' | 'effective_date' | 'base_currency', string[]> = {
+  currency: ['currency', 'from', 'from_currency', 'currency_code', 'code'],
+  rate: ['rate', 'exchange_rate', 'fx_rate', 'value'],
+  effective_date: ['effective_date', 'date', 'as_of', 'effective_from', 'rate_date'],
+  base_currency: ['base_currency', 'to', 'to_currency', 'base']
+};
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Rates from an uploaded CSV: columns currency, rate, effective_date (common
+ * aliases accepted) and optionally base_currency, which must then be the
+ * tenant's base. Unreadable rows are reported, not fatal.
+ */
+export function parseFxRateFile(
+  content: string,
+  baseCurrency: string
+): { rates: FxRateInput[]; skipped_rows: Array<{ row: number; reason: string }> } {
+  const rows = parseCsv(content).filter((r) => r.some((c) => c.trim() !== ''));
+  if (rows.length === 0) return { rates: [], skipped_rows: [{ row: 1, reason: 'File is empty' }] };
+
+  const headers = rows[0].map(normalizeHeader);
+  const column = (key: keyof typeof COLUMN_ALIASES) => headers.findIndex((h) => COLUMN_ALIASES[key].includes(h));
+  const cols = {
+    currency: column('currency'),
+    rate: column('rate'),
+    effective_date: column('effective_date'),
+    base_currency: column('base_currency')
+  };
+  if (cols.currency < 0 || cols.rate < 0 || cols.effective_date < 0) {
+    return { rates: [], skipped_rows: [{ row: 1, reason: 'Header must name currency, rate and effective_date columns' }] };
+  }
+
+  const rates: FxRateInput[] = [];
+  const skipped_rows: Array<{ row: number; reason: string }> = [];
+  // Last row wins for a repeated currency + date
+  const seen = new Map<string, number>();
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    const currency = (cells[cols.currency] || '').trim().toUpperCase();
+    const rate = Number((cells[cols.rate] || '').replace(/,/g, '').trim());
+    const date = parseStatementDate(cells[cols.effective_date] || '');
+    const base = cols.base_currency >= 0 ? (cells[cols.base_currency] || '').trim().toUpperCase() : '';
+
+    if (!/^[A-Z]{3}$/.test(currency)) return skipped_rows.push({ row, reason: 'Currency must be a 3-letter ISO code' });
+    if (currency === baseCurrency) return skipped_rows.push({ row, reason: `${currency} is the base currency` });
+    if (base && base !== baseCurrency) return skipped_rows.push({ row, reason: `Base ${base} is not the tenant base ${baseCurrency}` });
+    if (!(rate > 0) || !Number.isFinite(rate)) return skipped_rows.push({ row, reason: 'Rate must be a positive number' });
+    if (!date) return skipped_rows.push({ row, reason: 'Unreadable effective date' });
+
+    const key = `${currency}|${date}`;
+    const entry = { currency, rate, effective_date: date };
+    if (seen.has(key)) rates[seen.get(key)!] = entry;
+    else seen.set(key, rates.push(entry) - 1);
+  });
+
+  return { rates, skipped_rows };
+}
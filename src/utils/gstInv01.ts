@@ -0,0 +1,214 @@
+// ============================================================================
+// GST INV-01 validator — the checks the IRP runs on an e-invoice JSON
+// ============================================================================
+// Field formats, enums and lengths follow the published INV-01 schema
+// (version 1.1); the arithmetic checks follow the IRP business rules (item and
+// invoice totals must agree within ₹1, CGST = SGST, IGST only across states).
+// Catching these before download saves a failed portal upload.
+// ============================================================================
+
+import {
+  EINVOICE_GST_RATES,
+  EInvoiceValidationError,
+  Inv01Document,
+  Inv01PartyDtls
+} from '../types/eInvoiceTypes';
+
+// The IRP tolerates ₹1 of rounding between stated and computed totals
+const TOLERANCE = 1;
+
+const GSTIN = /^[0-9]{2}[0-9A-Z]{13}$/;
+const DOC_NO = /^[A-Z1-9][A-Z0-9/-]{0,15}$/;
+const DOC_DATE = /^[0-3][0-9]\/[0-1][0-9]\/20[0-9]{2}$/;
+const STATE_CODE = /^(?!0+$)[0-9]{1,2}$/;
+const HSN = /^[0-9]{4,8}$/;
+const EMAIL = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const PHONE = /^[0-9]{6,12}$/;
+
+const SUPPLY_TYPES = ['B2B', 'SEZWP', 'SEZWOP', 'EXPWP', 'EXPWOP', 'DEXP'];
+const EXPORT_SUPPLY_TYPES = ['EXPWP', 'EXPWOP'];
+const DOC_TYPES = ['INV', 'CRN', 'DBN'];
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+class Checker {
+  readonly errors: EInvoiceValidationError[] = [];
+
+  add(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  text(path: string, value: unknown, min: number, max: number, required = true): void {
+    if (value === undefined || value === null || value === '') {
+      if (required) this.add(path, 'is required');
+      return;
+    }
+    if (typeof value !== 'string') return this.add(path, 'must be a string');
+    if (value.length < min || value.length > max) this.add(path, `must be ${min}-${max} characters`);
+  }
+
+  pattern(path: string, value: unknown, re: RegExp, message: string, required = true): void {
+    if (value === undefined || value === null || value === '') {
+      if (required) this.add(path, 'is required');
+      return;
+    }
+    if (typeof value !== 'string' || !re.test(value)) this.add(path, message);
+  }
+
+  oneOf(path: string, value: unknown, allowed: readonly unknown[]): void {
+    if (!allowed.includes(value)) this.add(path, `must be one of ${allowed.join(', ')}`);
+  }
+
+  amount(path: string, value: unknown, min = 0, max = 999999999999.99): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.add(path, 'must be a number');
+    if (value < min || value > max) this.add(path, `must be between ${min} and ${max}`);
+    if (Math.abs(round2(value) - value) > 1e-9) this.add(path, 'must have at most 2 decimals');
+  }
+
+  agrees(path: string, stated: number, computed: number): void {
+    if (Math.abs((stated || 0) - computed) > TOLERANCE) {
+      this.add(path, `is ${stated} but the components add up to ${round2(computed)}`);
+    }
+  }
+}
+
+function checkParty(c: Checker, path: string, party: Inv01PartyDtls | undefined, allowUrp: boolean): void {
+  if (!party) return c.add(path, 'is required');
+  if (!(allowUrp && party.Gstin === 'URP')) {
+    c.pattern(`${path}.Gstin`, party.Gstin, GSTIN, 'must be a 15-character GSTIN');
+  }
+  c.text(`${path}.LglNm`, party.LglNm, 3, 100);
+  c.text(`${path}.TrdNm`, party.TrdNm, 3, 100, false);
+  c.text(`${path}.Addr1`, party.Addr1, 1, 100);
+  c.text(`${path}.Addr2`, party.Addr2, 3, 100, false);
+  c.text(`${path}.Loc`, party.Loc, 3, 50);
+  if (typeof party.Pin !== 'number' || party.Pin < 100000 || party.Pin > 999999) {
+    c.add(`${path}.Pin`, 'must be a 6-digit PIN code');
+  }
+  c.pattern(`${path}.Stcd`, party.Stcd, STATE_CODE, 'must be a GST state code');
+  c.pattern(`${path}.Ph`, party.Ph, PHONE, 'must be 6-12 digits', false);
+  c.pattern(`${path}.Em`, party.Em, EMAIL, 'must be an email address', false);
+}
+
+/**
+ * Validate an INV-01 document. Returns every problem found (empty = valid),
+ * each with the JSON path the portal would report it against.
+ */
+export function validateInv01(doc: Inv01Document): EInvoiceValidationError[] {
+  const c = new Checker();
+
+  if (doc.Version !== '1.1') c.add('Version', 'must be 1.1');
+
+  const tran = doc.TranDtls;
+  if (!tran) {
+    c.add('TranDtls', 'is required');
+  } else {
+    c.oneOf('TranDtls.TaxSch', tran.TaxSch, ['GST']);
+    c.oneOf('TranDtls.SupTyp', tran.SupTyp, SUPPLY_TYPES);
+    c.oneOf('TranDtls.RegRev', tran.RegRev, ['Y', 'N']);
+    c.oneOf('TranDtls.IgstOnIntra', tran.IgstOnIntra, ['Y', 'N']);
+  }
+
+  const docDtls = doc.DocDtls;
+  if (!docDtls) {
+    c.add('DocDtls', 'is required');
+  } else {
+    c.oneOf('DocDtls.Typ', docDtls.Typ, DOC_TYPES);
+    c.pattern('DocDtls.No', docDtls.No, DOC_NO,
+      'must be 1-16 characters of A-Z, 0-9, / and -, not starting with 0, / or -');
+    c.pattern('DocDtls.Dt', docDtls.Dt, DOC_DATE, 'must be a date as dd/mm/yyyy');
+    if (docDtls.Dt && DOC_DATE.test(docDtls.Dt)) {
+      const [d, m, y] = docDtls.Dt.split('/').map(Number);
+      if (Date.UTC(y, m - 1, d) > Date.now()) c.add('DocDtls.Dt', 'cannot be in the future');
+    }
+  }
+
+  const isExport = !!tran && EXPORT_SUPPLY_TYPES.includes(tran.SupTyp);
+  checkParty(c, 'SellerDtls', doc.SellerDtls, false);
+  checkParty(c, 'BuyerDtls', doc.BuyerDtls, isExport);
+  if (doc.BuyerDtls) {
+    c.pattern('BuyerDtls.Pos', doc.BuyerDtls.Pos, STATE_CODE, 'must be a GST state code');
+    if (doc.SellerDtls?.Gstin && doc.SellerDtls.Gstin === doc.BuyerDtls.Gstin) {
+      c.add('BuyerDtls.Gstin', 'cannot be the seller GSTIN');
+    }
+  }
+
+  // IGST within a state only when the transaction says so (SEZ / IgstOnIntra)
+  const interState = isExport
+    || (!!tran && ['SEZWP', 'SEZWOP'].includes(tran.SupTyp))
+    || tran?.IgstOnIntra === 'Y'
+    || (!!doc.SellerDtls && !!doc.BuyerDtls && doc.SellerDtls.Stcd !== doc.BuyerDtls.Pos);
+
+  const items = Array.isArray(doc.ItemList) ? doc.ItemList : [];
+  if (items.length === 0 || items.length > 1000) c.add('ItemList', 'must have 1-1000 items');
+
+  const sums = { ass: 0, cgst: 0, sgst: 0, igst: 0, ces: 0, stces: 0, discount: 0, oth: 0 };
+  const serials = new Set<string>();
+  items.forEach((item, i) => {
+    const p = `ItemList[${i}]`;
+    c.text(`${p}.SlNo`, item.SlNo, 1, 6);
+    if (serials.has(item.SlNo)) c.add(`${p}.SlNo`, 'must be unique');
+    serials.add(item.SlNo);
+    c.text(`${p}.PrdDesc`, item.PrdDesc, 3, 300);
+    c.oneOf(`${p}.IsServc`, item.IsServc, ['Y', 'N']);
+    c.pattern(`${p}.HsnCd`, item.HsnCd, HSN, 'must be a 4-8 digit HSN/SAC code');
+    if (item.IsServc === 'Y' && HSN.test(item.HsnCd || '') && !item.HsnCd.startsWith('99')) {
+      c.add(`${p}.HsnCd`, 'must be a SAC code (starting 99) for a service');
+    }
+    if (typeof item.Qty !== 'number' || item.Qty < 0) c.add(`${p}.Qty`, 'must be a non-negative number');
+    c.text(`${p}.Unit`, item.Unit, 3, 8);
+    c.amount(`${p}.UnitPrice`, item.UnitPrice);
+    c.amount(`${p}.TotAmt`, item.TotAmt);
+    c.amount(`${p}.Discount`, item.Discount);
+    c.amount(`${p}.AssAmt`, item.AssAmt);
+    c.amount(`${p}.IgstAmt`, item.IgstAmt);
+    c.amount(`${p}.CgstAmt`, item.CgstAmt);
+    c.amount(`${p}.SgstAmt`, item.SgstAmt);
+    c.amount(`${p}.TotItemVal`, item.TotItemVal);
+    if (!EINVOICE_GST_RATES.includes(item.GstRt)) {
+      c.add(`${p}.GstRt`, `must be one of ${EINVOICE_GST_RATES.join(', ')}`);
+    }
+
+    c.agrees(`${p}.TotAmt`, item.TotAmt, item.UnitPrice * item.Qty);
+    c.agrees(`${p}.AssAmt`, item.AssAmt, item.TotAmt - item.Discount);
+    const tax = item.IgstAmt + item.CgstAmt + item.SgstAmt + item.CesAmt + item.CesNonAdvlAmt
+      + item.StateCesAmt + item.StateCesNonAdvlAmt;
+    c.agrees(`${p}.TotItemVal`, item.TotItemVal, item.AssAmt + tax + item.OthChrg);
+    if (interState) {
+      if (item.CgstAmt > 0 || item.SgstAmt > 0) c.add(`${p}.CgstAmt`, 'must be 0 for an inter-state supply (use IGST)');
+      c.agrees(`${p}.IgstAmt`, item.IgstAmt, (item.AssAmt * item.GstRt) / 100);
+    } else {
+      if (item.IgstAmt > 0) c.add(`${p}.IgstAmt`, 'must be 0 for an intra-state supply (use CGST + SGST)');
+      if (Math.abs(item.CgstAmt - item.SgstAmt) > 0.01) c.add(`${p}.SgstAmt`, 'must equal CgstAmt');
+      c.agrees(`${p}.CgstAmt`, item.CgstAmt + item.SgstAmt, (item.AssAmt * item.GstRt) / 100);
+    }
+
+    sums.ass += item.AssAmt;
+    sums.cgst += item.CgstAmt;
+    sums.sgst += item.SgstAmt;
+    sums.igst += item.IgstAmt;
+    sums.ces += item.CesAmt + item.CesNonAdvlAmt;
+    sums.stces += item.StateCesAmt + item.StateCesNonAdvlAmt;
+    sums.oth += item.OthChrg;
+  });
+
+  const val = doc.ValDtls;
+  if (!val) {
+    c.add('ValDtls', 'is required');
+  } else {
+    c.amount('ValDtls.AssVal', val.AssVal);
+    c.amount('ValDtls.TotInvVal', val.TotInvVal);
+    c.amount('ValDtls.RndOffAmt', val.RndOffAmt, -99.99, 99.99);
+    c.agrees('ValDtls.AssVal', val.AssVal, sums.ass);
+    c.agrees('ValDtls.CgstVal', val.CgstVal, sums.cgst);
+    c.agrees('ValDtls.SgstVal', val.SgstVal, sums.sgst);
+    c.agrees('ValDtls.IgstVal', val.IgstVal, sums.igst);
+    c.agrees('ValDtls.CesVal', val.CesVal, sums.ces);
+    c.agrees('ValDtls.StCesVal', val.StCesVal, sums.stces);
+    c.agrees('ValDtls.TotInvVal', val.TotInvVal,
+      val.AssVal + val.CgstVal + val.SgstVal + val.IgstVal + val.CesVal + val.StCesVal
+      + val.OthChrg - val.Discount + val.RndOffAmt);
+  }
+
+  return c.errors;
+}
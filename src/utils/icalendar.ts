@@ -0,0 +1,131 @@
+// ============================================================================
+// iCalendar (RFC 5545) writer — minimal VCALENDAR/VEVENT serialisation
+// ============================================================================
+// Only what read-only subscription feeds need: all-day or timed VEVENTs with
+// stable UIDs and a SEQUENCE, so calendar clients update an event in place
+// when it moves instead of adding a duplicate.
+// ============================================================================
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  /** All-day: 'YYYY-MM-DD'. Timed: a Date (written in UTC) */
+  start: string | Date;
+  /** Exclusive end; defaults to start + 1 day (all-day) or start + 1 hour */
+  end?: string | Date;
+  description?: string;
+  location?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;
+  lastModified?: Date;
+  categories?: string[];
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  timeZone?: string;
+  /** Suggested client refresh interval, minutes */
+  refreshMinutes?: number;
+  events: IcsEvent[];
+}
+
+const PRODID = '-//ContractNest//Calendar Feed//EN';
+
+/** TEXT value escaping (RFC 5545 §3.3.11) */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line at 75 octets, continuation lines start with a space */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  let limit = 75;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, 'utf8');
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74; // the leading space counts
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(day: string): string {
+  return day.replace(/-/g, '');
+}
+
+function nextDay(day: string): string {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function dateProperty(name: string, value: string | Date): string {
+  return typeof value === 'string'
+    ? `${name};VALUE=DATE:${formatDate(value)}`
+    : `${name}:${formatUtc(value)}`;
+}
+
+/** Serialise a calendar; lines are CRLF-terminated as the RFC requires */
+export function renderIcs(calendar: IcsCalendar, now: Date = new Date()): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  if (calendar.timeZone) lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  const stamp = formatUtc(now);
+  for (const event of calendar.events) {
+    const end = event.end ?? (typeof event.start === 'string'
+      ? nextDay(event.start)
+      : new Date(event.start.getTime() + 60 * 60 * 1000));
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${stamp}`);
+    lines.push(dateProperty('DTSTART', event.start));
+    lines.push(dateProperty('DTEND', end));
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+    lines.push(`SEQUENCE:${Math.max(0, Math.floor(event.sequence || 0))}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    lines.push('TRANSP:TRANSPARENT');
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// Invoice PDF — printable copy of the invoice document
+// ============================================================================
+// Rendered from the same payload invoiceService.getInvoiceDetail serves to the
+// invoice screen (header, line items, receipts, bill-to contact), so the PDF
+// never disagrees with what the tenant sees. Layout follows the contract PDF
+// (contractDocumentService.renderPdf): A4, Helvetica, titled sections.
+// ============================================================================
+
+import PDFDocument from 'pdfkit';
+import { invoiceOutstanding } from '../services/invoiceService';
+
+export interface RenderInvoiceInput {
+  /** get_invoice_detail payload (unwrapped) */
+  detail: Record<string, any>;
+  seller: { name: string | null };
+  contractNumber?: string | null;
+}
+
+export function renderInvoicePdf(input: RenderInvoiceInput): Promise<Buffer> {
+  const { detail, seller } = input;
+  const header = detail.invoice || detail;
+  const lines: any[] = detail.line_items || detail.items || header.line_items || [];
+  const receipts: any[] = detail.receipts || detail.payments || [];
+  const billTo = detail.contact || detail.bill_to || {};
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: `Invoice ${header.invoice_number || ''}`.trim(),
+        Subject: seller.name ? `Invoice from ${seller.name}` : 'Invoice',
+        Creator: 'ContractNest',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const currency = header.currency || 'INR';
+    const money = (v: unknown) => `${currency} ${Number(v || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const day = (v: unknown) => (v ? new Date(String(v)).toISOString().slice(0, 10) : '—');
+    const section = (title: string) => {
+      doc.moveDown(1).font('Helvetica-Bold').fontSize(13).text(title);
+      doc.moveDown(0.3).font('Helvetica').fontSize(10);
+    };
+
+    // ─── Header ───
+    doc.font('Helvetica-Bold').fontSize(18).text(seller.name || 'Invoice');
+    doc.font('Helvetica').fontSize(10).fillColor('#444444')
+      .text(`Invoice ${header.invoice_number || '—'}  ·  Status: ${header.status || '—'}`);
+    doc.fillColor('#000000').moveDown(0.5);
+    doc.text(`Bill to: ${billTo.company_name || billTo.name || header.buyer_name || '—'}`);
+    if (input.contractNumber) doc.text(`Contract: ${input.contractNumber}`);
+    doc.text(`Invoice date: ${day(header.invoice_date || header.issued_at || header.created_at)}`);
+    doc.text(`Due date: ${day(header.due_date)}`);
+
+    // ─── Lines ───
+    section('Items');
+    if (lines.length === 0) doc.text('No line items.');
+    lines.forEach((li: any, i: number) => {
+      const qty = li.qty ?? li.quantity;
+      const rate = li.unit_price ?? li.rate;
+      const facts = qty !== undefined && rate !== undefined ? `  (${qty} × ${money(rate)})` : '';
+      doc.text(`${i + 1}. ${li.name || li.description || li.block_name || 'Item'}${facts}   ${money(li.amount ?? li.total)}`);
+    });
+
+    // ─── Totals ───
+    const total = Number(header.total_amount ?? header.amount) || 0;
+    const tax = Number(header.tax_amount ?? header.tax_total) || 0;
+    section('Totals');
+    if (tax) {
+      doc.text(`Subtotal: ${money(total - tax)}`);
+      doc.text(`Tax: ${money(tax)}`);
+    }
+    doc.font('Helvetica-Bold').text(`Total: ${money(total)}`);
+    doc.font('Helvetica').text(`Balance due: ${money(invoiceOutstanding(header))}`);
+
+    // ─── Receipts ───
+    if (receipts.length > 0) {
+      section('Payments Received');
+      receipts.forEach((r: any) => {
+        const ref = r.receipt_number || r.reference_number;
+        doc.text(`${day(r.payment_date || r.created_at)}   ${money(r.amount)}${r.payment_method ? ` — ${r.payment_method}` : ''}${ref ? ` (${ref})` : ''}`);
+      });
+    }
+
+    doc.end();
+  });
+}
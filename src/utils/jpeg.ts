@@ -0,0 +1,1050 @@
+// ============================================================================
+// JPEG codec — thumbnail decoding, baseline encoding, location stripping
+// ============================================================================
+// Enough of ITU T.81 for what the storage subsystem does with photos:
+//   - decodeJpeg: Huffman baseline and progressive, 8-bit, grayscale / YCbCr /
+//     RGB with any chroma sampling. When the caller only needs a small image
+//     and the photo is at least 8× larger, only the DC coefficients are kept
+//     — a 1/8-scale raster with no IDCT, which keeps a 12 MP phone photo cheap
+//     to thumbnail (progressive AC scans are then skipped without decoding).
+//   - encodeJpeg: baseline 4:4:4 with the Annex K tables.
+//   - stripJpegLocation: empties the EXIF GPS directory and drops XMP packets;
+//     the rest of the EXIF (orientation, capture time) is left as it was.
+// Arithmetic coding, lossless, 12-bit and CMYK files raise JpegError.
+// ============================================================================
+
+import { Raster } from './raster';
+
+export class JpegError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JpegError';
+  }
+}
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+  progressive: boolean;
+  /** EXIF orientation, 1 when absent */
+  orientation: number;
+}
+
+export interface JpegDecodeOptions {
+  /**
+   * Smallest long side the caller needs. When the 1/8-scale DC image is at
+   * least this large, only DC coefficients are decoded.
+   */
+  minSize?: number;
+  /** Refuse frames above this many pixels (decompression bombs) */
+  maxPixels?: number;
+}
+
+// Zigzag position → natural (row-major) index
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// COS[x * 8 + u] = C(u) / 2 · cos((2x + 1)uπ / 16) — the orthonormal 8-point
+// DCT basis, used by both the IDCT and the FDCT
+const COS = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      table[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16) / 2;
+    }
+  }
+  return table;
+})();
+
+const MARKER = {
+  SOF0: 0xc0, SOF1: 0xc1, SOF2: 0xc2, DHT: 0xc4, SOI: 0xd8, EOI: 0xd9,
+  SOS: 0xda, DQT: 0xdb, DRI: 0xdd, APP1: 0xe1, APP14: 0xee
+};
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADERS = ['http://ns.adobe.com/xap/1.0/\0', 'http://ns.adobe.com/xmp/extension/\0'];
+
+const clamp = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+// ============================================================================
+// SEGMENTS
+// ============================================================================
+
+interface Segment {
+  marker: number;
+  /** Offset of the 0xFF of the marker */
+  start: number;
+  /** Offset just past the segment */
+  end: number;
+}
+
+/** Header segments up to (and including) the first SOS */
+function readSegments(buffer: Buffer): Segment[] {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== MARKER.SOI) {
+    throw new JpegError('Not a JPEG file');
+  }
+  const segments: Segment[] = [];
+  let pos = 2;
+  while (pos + 4 <= buffer.length) {
+    if (buffer[pos] !== 0xff) throw new JpegError('Malformed JPEG marker');
+    const marker = buffer[pos + 1];
+    if (marker === 0xff) { pos++; continue; }   // fill byte
+    if (marker === MARKER.EOI) break;
+    const end = pos + 2 + buffer.readUInt16BE(pos + 2);
+    if (end > buffer.length) throw new JpegError('Truncated JPEG segment');
+    segments.push({ marker, start: pos, end });
+    if (marker === MARKER.SOS) return segments;
+    pos = end;
+  }
+  throw new JpegError('JPEG has no image data');
+}
+
+const segmentData = (buffer: Buffer, segment: Segment): Buffer => buffer.subarray(segment.start + 4, segment.end);
+
+const startsWith = (data: Buffer, text: string): boolean =>
+  data.length >= text.length && data.toString('latin1', 0, text.length) === text;
+
+// ============================================================================
+// EXIF
+// ============================================================================
+
+// Bytes per component of each TIFF field type
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+
+interface TiffView {
+  data: Buffer;
+  little: boolean;
+  u16(offset: number): number;
+  u32(offset: number): number;
+}
+
+/** The TIFF structure inside an APP1 Exif payload (offsets relative to it) */
+function tiffView(app1: Buffer): TiffView | null {
+  if (!startsWith(app1, EXIF_HEADER) || app1.length < EXIF_HEADER.length + 8) return null;
+  const data = app1.subarray(EXIF_HEADER.length);
+  const order = data.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  const little = order === 'II';
+  return {
+    data,
+    little,
+    u16: (offset: number) => (little ? data.readUInt16LE(offset) : data.readUInt16BE(offset)),
+    u32: (offset: number) => (little ? data.readUInt32LE(offset) : data.readUInt32BE(offset))
+  };
+}
+
+/** IFD0 entry offsets, bounds-checked */
+function ifd0Entries(tiff: TiffView): number[] {
+  const ifd = tiff.u32(4);
+  if (ifd + 2 > tiff.data.length) return [];
+  const count = tiff.u16(ifd);
+  const entries: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.data.length) break;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function exifOrientation(app1: Buffer): number {
+  const tiff = tiffView(app1);
+  if (!tiff) return 1;
+  for (const entry of ifd0Entries(tiff)) {
+    if (tiff.u16(entry) === TAG_ORIENTATION) {
+      const value = tiff.u16(entry + 8);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+}
+
+/** Zero the GPS directory (its values included) in place; true when it held anything */
+function clearGps(tiff: TiffView): boolean {
+  const pointer = ifd0Entries(tiff).find(entry => tiff.u16(entry) === TAG_GPS_IFD);
+  if (pointer === undefined) return false;
+  const gps = tiff.u32(pointer + 8);
+  if (gps + 2 > tiff.data.length) return false;
+
+  const count = tiff.u16(gps);
+  for (let i = 0; i < count; i++) {
+    const entry = gps + 2 + i * 12;
+    if (entry + 12 > tiff.data.length) break;
+    const size = (TIFF_TYPE_SIZES[tiff.u16(entry + 2)] || 1) * tiff.u32(entry + 4);
+    if (size > 4) {
+      const offset = tiff.u32(entry + 8);
+      if (offset + size <= tiff.data.length) tiff.data.fill(0, offset, offset + size);
+    }
+  }
+  // Entries and the next-IFD link, then an entry count of 0
+  tiff.data.fill(0, gps, Math.min(tiff.data.length, gps + 2 + count * 12 + 4));
+  return count > 0;
+}
+
+// ============================================================================
+// PUBLIC: INFO / LOCATION
+// ============================================================================
+
+export function readJpegInfo(buffer: Buffer): JpegInfo {
+  let orientation = 1;
+  for (const segment of readSegments(buffer)) {
+    const data = segmentData(buffer, segment);
+    if (segment.marker === MARKER.APP1 && startsWith(data, EXIF_HEADER)) {
+      orientation = exifOrientation(data);
+    }
+    if (segment.marker >= 0xc0 && segment.marker <= 0xcf &&
+        segment.marker !== MARKER.DHT && segment.marker !== 0xc8 && segment.marker !== 0xcc) {
+      return {
+        width: data.readUInt16BE(3),
+        height: data.readUInt16BE(1),
+        components: data[5],
+        progressive: segment.marker === MARKER.SOF2,
+        orientation
+      };
+    }
+  }
+  throw new JpegError('JPEG has no frame header');
+}
+
+/**
+ * Remove where a photo was taken: the EXIF GPS directory is emptied and XMP
+ * packets (which can repeat it) are dropped. Image data is untouched.
+ */
+export function stripJpegLocation(buffer: Buffer): { buffer: Buffer; removed: boolean } {
+  const segments = readSegments(buffer);
+  const scanStart = segments[segments.length - 1].start;
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let removed = false;
+
+  for (const segment of segments.slice(0, -1)) {
+    const data = segmentData(buffer, segment);
+    if (segment.marker === MARKER.APP1 && XMP_HEADERS.some(header => startsWith(data, header))) {
+      removed = true;
+      continue;
+    }
+    if (segment.marker === MARKER.APP1 && startsWith(data, EXIF_HEADER)) {
+      const copy = Buffer.from(buffer.subarray(segment.start, segment.end));
+      const tiff = tiffView(copy.subarray(4));
+      if (tiff && clearGps(tiff)) {
+        removed = true;
+        parts.push(copy);
+        continue;
+      }
+    }
+    parts.push(buffer.subarray(segment.start, segment.end));
+  }
+
+  if (!removed) return { buffer, removed: false };
+  parts.push(buffer.subarray(scanStart));
+  return { buffer: Buffer.concat(parts), removed: true };
+}
+
+// ============================================================================
+// DECODER
+// ============================================================================
+
+interface HuffmanTable {
+  /** 16-bit code prefix → (code length << 8) | symbol; 0 = invalid */
+  lookup: Uint16Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quant: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineAlloc: number;
+  blocksPerColumnAlloc: number;
+  coefficients: Int16Array;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  hMax: number;
+  vMax: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const lookup = new Uint16Array(65536);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      const first = code << (16 - length);
+      const last = (code + 1) << (16 - length);
+      if (last > 65536) throw new JpegError('Invalid Huffman table');
+      lookup.fill((length << 8) | symbols[k++], first, last);
+      code++;
+    }
+    code <<= 1;
+  }
+  return { lookup };
+}
+
+/** Entropy-coded data reader: strips byte stuffing and stops at markers */
+class BitReader {
+  private acc = 0;
+  private bits = 0;
+  private atMarker = false;
+
+  constructor(private readonly data: Buffer, private pos: number) {}
+
+  private fill(): void {
+    while (this.bits <= 24) {
+      let byte = 0;
+      if (!this.atMarker && this.pos < this.data.length) {
+        byte = this.data[this.pos];
+        if (byte === 0xff) {
+          if (this.data[this.pos + 1] === 0x00) {
+            this.pos += 2;
+          } else {
+            this.atMarker = true;
+            byte = 0;
+          }
+        } else {
+          this.pos++;
+        }
+      }
+      this.acc = ((this.acc << 8) | byte) >>> 0;
+      this.bits += 8;
+    }
+  }
+
+  receive(length: number): number {
+    if (length === 0) return 0;
+    this.fill();
+    this.bits -= length;
+    const value = (this.acc >>> this.bits) & ((1 << length) - 1);
+    this.acc &= (1 << this.bits) - 1;
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  bit(): number {
+    return this.receive(1);
+  }
+
+  decode(table: HuffmanTable | undefined): number {
+    if (!table) throw new JpegError('Scan references a missing Huffman table');
+    this.fill();
+    const entry = table.lookup[(this.acc >>> (this.bits - 16)) & 0xffff];
+    if (entry === 0) throw new JpegError('Corrupt JPEG entropy data');
+    this.bits -= entry >> 8;
+    this.acc &= (1 << this.bits) - 1;
+    return entry & 0xff;
+  }
+
+  /** Resynchronise on the next RSTn marker */
+  restart(): void {
+    this.acc = 0;
+    this.bits = 0;
+    this.atMarker = false;
+    let pos = this.pos;
+    while (pos + 1 < this.data.length &&
+           !(this.data[pos] === 0xff && this.data[pos + 1] >= 0xd0 && this.data[pos + 1] <= 0xd7)) {
+      pos++;
+    }
+    this.pos = Math.min(pos + 2, this.data.length);
+  }
+
+  /** Offset of the marker that ends the scan */
+  endOfScan(): number {
+    let pos = this.pos;
+    while (pos + 1 < this.data.length) {
+      if (this.data[pos] === 0xff) {
+        const next = this.data[pos + 1];
+        if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return pos;
+      }
+      pos++;
+    }
+    return this.data.length;
+  }
+}
+
+interface ScanParams {
+  components: FrameComponent[];
+  restartInterval: number;
+  spectralStart: number;
+  spectralEnd: number;
+  approxHigh: number;
+  approxLow: number;
+}
+
+/** Decode one scan starting at `pos`; returns the offset of the next marker */
+function decodeScan(data: Buffer, pos: number, frame: Frame, scan: ScanParams, dcOnly: boolean): number {
+  const reader = new BitReader(data, pos);
+  const { spectralStart: ss, spectralEnd: se, approxHigh: ah, approxLow: al } = scan;
+
+  // AC scans of a progressive file carry nothing a DC-only decode needs
+  if (dcOnly && frame.progressive && ss > 0) return reader.endOfScan();
+
+  const stride = dcOnly ? 1 : 64;
+  let eobrun = 0;
+  let refineState = 0;
+  let refineValue = 0;
+
+  const baseline = (c: FrameComponent, offset: number): void => {
+    const t = reader.decode(c.dcTable);
+    c.pred += t === 0 ? 0 : reader.receiveExtend(t);
+    c.coefficients[offset] = c.pred;
+    let k = 1;
+    while (k < 64) {
+      const rs = reader.decode(c.acTable);
+      const s = rs & 15;
+      const run = rs >> 4;
+      if (s === 0) {
+        if (run < 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      const value = reader.receiveExtend(s);
+      if (!dcOnly) c.coefficients[offset + ZIGZAG[k]] = value;
+      k++;
+    }
+  };
+
+  const dcFirst = (c: FrameComponent, offset: number): void => {
+    const t = reader.decode(c.dcTable);
+    c.pred += t === 0 ? 0 : reader.receiveExtend(t);
+    c.coefficients[offset] = c.pred * (1 << al);
+  };
+
+  const dcRefine = (c: FrameComponent, offset: number): void => {
+    if (reader.bit()) c.coefficients[offset] |= 1 << al;
+  };
+
+  const acFirst = (c: FrameComponent, offset: number): void => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    let k = ss;
+    while (k <= se) {
+      const rs = reader.decode(c.acTable);
+      const s = rs & 15;
+      const run = rs >> 4;
+      if (s === 0) {
+        if (run < 15) {
+          eobrun = reader.receive(run) + (1 << run) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      c.coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(s) * (1 << al);
+      k++;
+    }
+  };
+
+  // Successive approximation of AC coefficients (G.1.2.3): refinement bits
+  // for coefficients already non-zero, new ±1 values placed after runs of
+  // still-zero ones. The state carries end-of-band runs across blocks.
+  const acRefine = (c: FrameComponent, offset: number): void => {
+    let k = ss;
+    let run = 0;
+    while (k <= se && k < 64) {
+      const z = offset + ZIGZAG[k];
+      const sign = c.coefficients[z] < 0 ? -1 : 1;
+      switch (refineState) {
+        case 0: {
+          const rs = reader.decode(c.acTable);
+          const s = rs & 15;
+          run = rs >> 4;
+          if (s === 0) {
+            if (run < 15) {
+              eobrun = reader.receive(run) + (1 << run);
+              refineState = 4;
+            } else {
+              run = 16;
+              refineState = 1;
+            }
+          } else {
+            refineValue = reader.receiveExtend(s);
+            refineState = run ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (c.coefficients[z]) {
+            c.coefficients[z] += sign * (reader.bit() << al);
+          } else {
+            run--;
+            if (run === 0) refineState = refineState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (c.coefficients[z]) {
+            c.coefficients[z] += sign * (reader.bit() << al);
+          } else {
+            c.coefficients[z] = refineValue * (1 << al);
+            refineState = 0;
+          }
+          break;
+        case 4:
+          if (c.coefficients[z]) c.coefficients[z] += sign * (reader.bit() << al);
+          break;
+      }
+      k++;
+    }
+    if (refineState === 4) {
+      eobrun--;
+      if (eobrun === 0) refineState = 0;
+    }
+  };
+
+  const decodeBlock = !frame.progressive
+    ? baseline
+    : ss === 0
+      ? (ah === 0 ? dcFirst : dcRefine)
+      : (ah === 0 ? acFirst : acRefine);
+
+  const single = scan.components.length === 1;
+  const first = scan.components[0];
+  const total = single ? first.blocksPerLine * first.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+
+  let mcu = 0;
+  while (mcu < total) {
+    for (const c of scan.components) c.pred = 0;
+    eobrun = 0;
+    refineState = 0;
+    const end = scan.restartInterval ? Math.min(mcu + scan.restartInterval, total) : total;
+
+    for (; mcu < end; mcu++) {
+      if (single) {
+        const row = Math.floor(mcu / first.blocksPerLine);
+        const col = mcu % first.blocksPerLine;
+        decodeBlock(first, (row * first.blocksPerLineAlloc + col) * stride);
+        continue;
+      }
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const c of scan.components) {
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            const row = mcuRow * c.v + v;
+            const col = mcuCol * c.h + h;
+            decodeBlock(c, (row * c.blocksPerLineAlloc + col) * stride);
+          }
+        }
+      }
+    }
+
+    if (mcu < total) reader.restart();
+  }
+
+  return reader.endOfScan();
+}
+
+/** Dequantise + IDCT every block of a component into a sample plane */
+function componentPlane(c: FrameComponent, quant: Uint16Array): Uint8Array {
+  const lineWidth = c.blocksPerLineAlloc * 8;
+  const plane = new Uint8Array(lineWidth * c.blocksPerColumnAlloc * 8);
+  const temp = new Float64Array(64);
+
+  for (let row = 0; row < c.blocksPerColumnAlloc; row++) {
+    for (let col = 0; col < c.blocksPerLineAlloc; col++) {
+      const offset = (row * c.blocksPerLineAlloc + col) * 64;
+      // Rows: temp[v][x] = Σu COS[x][u] · F[v][u]
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) {
+            const coefficient = c.coefficients[offset + v * 8 + u];
+            if (coefficient) sum += COS[x * 8 + u] * coefficient * quant[v * 8 + u];
+          }
+          temp[v * 8 + x] = sum;
+        }
+      }
+      // Columns: f[y][x] = Σv COS[y][v] · temp[v][x]
+      const origin = row * 8 * lineWidth + col * 8;
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += COS[y * 8 + v] * temp[v * 8 + x];
+          plane[origin + y * lineWidth + x] = clamp(sum + 128);
+        }
+      }
+    }
+  }
+
+  return plane;
+}
+
+/**
+ * Decode a JPEG to RGB. With `minSize` set and a large enough photo the
+ * raster is the 1/8-scale DC image (width and height rounded up).
+ */
+export function decodeJpeg(buffer: Buffer, options: JpegDecodeOptions = {}): Raster {
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let dcOnly = false;
+
+  let pos = 2;
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== MARKER.SOI) {
+    throw new JpegError('Not a JPEG file');
+  }
+
+  while (pos + 1 < buffer.length) {
+    if (buffer[pos] !== 0xff) throw new JpegError('Malformed JPEG marker');
+    const marker = buffer[pos + 1];
+    if (marker === 0xff) { pos++; continue; }
+    if (marker === MARKER.EOI) break;
+    if (marker >= 0xd0 && marker <= 0xd7) { pos += 2; continue; }
+    if (pos + 4 > buffer.length) break;
+
+    const end = pos + 2 + buffer.readUInt16BE(pos + 2);
+    if (end > buffer.length) throw new JpegError('Truncated JPEG segment');
+    const data = buffer.subarray(pos + 4, end);
+
+    switch (marker) {
+      case MARKER.DQT: {
+        let p = 0;
+        while (p < data.length) {
+          const precision = data[p] >> 4;
+          const id = data[p] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? data.readUInt16BE(p + 1 + k * 2) : data[p + 1 + k];
+          }
+          quantTables[id] = table;
+          p += 1 + (precision ? 128 : 64);
+        }
+        break;
+      }
+
+      case MARKER.DHT: {
+        let p = 0;
+        while (p < data.length) {
+          const tableClass = data[p] >> 4;
+          const id = data[p] & 15;
+          const counts = data.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, n) => sum + n, 0);
+          const table = buildHuffmanTable(counts, data.subarray(p + 17, p + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          p += 17 + total;
+        }
+        break;
+      }
+
+      case MARKER.DRI:
+        restartInterval = data.readUInt16BE(0);
+        break;
+
+      case MARKER.APP14:
+        if (startsWith(data, 'Adobe') && data.length >= 12) adobeTransform = data[11];
+        break;
+
+      case MARKER.SOF0:
+      case MARKER.SOF1:
+      case MARKER.SOF2: {
+        if (data[0] !== 8) throw new JpegError(`${data[0]}-bit JPEGs are not supported`);
+        const height = data.readUInt16BE(1);
+        const width = data.readUInt16BE(3);
+        const count = data[5];
+        if (!width || !height) throw new JpegError('JPEG frame has no dimensions');
+        if (count !== 1 && count !== 3) throw new JpegError('Only grayscale and colour (YCbCr / RGB) JPEGs are supported');
+        if (options.maxPixels && width * height > options.maxPixels) {
+          throw new JpegError(`Image of ${width}×${height} is too large to process`);
+        }
+
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const hv = data[6 + i * 3 + 1];
+          components.push({
+            id: data[6 + i * 3],
+            h: Math.max(1, hv >> 4),
+            v: Math.max(1, hv & 15),
+            quant: data[6 + i * 3 + 2],
+            blocksPerLine: 0, blocksPerColumn: 0,
+            blocksPerLineAlloc: 0, blocksPerColumnAlloc: 0,
+            coefficients: new Int16Array(0),
+            pred: 0
+          });
+        }
+        const hMax = Math.max(...components.map(c => c.h));
+        const vMax = Math.max(...components.map(c => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * hMax));
+        const mcusPerColumn = Math.ceil(height / (8 * vMax));
+
+        dcOnly = !!options.minSize && Math.ceil(Math.max(width, height) / 8) >= options.minSize;
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / hMax) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / vMax) / 8);
+          c.blocksPerLineAlloc = mcusPerLine * c.h;
+          c.blocksPerColumnAlloc = mcusPerColumn * c.v;
+          c.coefficients = new Int16Array(c.blocksPerLineAlloc * c.blocksPerColumnAlloc * (dcOnly ? 1 : 64));
+        }
+
+        frame = {
+          width, height, progressive: marker === MARKER.SOF2,
+          hMax, vMax, mcusPerLine, mcusPerColumn, components
+        };
+        break;
+      }
+
+      case MARKER.SOS: {
+        if (!frame) throw new JpegError('Scan before frame header');
+        const count = data[0];
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const c = frame.components.find(fc => fc.id === data[1 + i * 2]);
+          if (!c) throw new JpegError('Scan references an unknown component');
+          const tables = data[2 + i * 2];
+          c.dcTable = dcTables[tables >> 4];
+          c.acTable = acTables[tables & 15];
+          components.push(c);
+        }
+        const p = 1 + count * 2;
+        pos = decodeScan(buffer, end, frame, {
+          components,
+          restartInterval,
+          spectralStart: data[p],
+          spectralEnd: data[p + 1],
+          approxHigh: data[p + 2] >> 4,
+          approxLow: data[p + 2] & 15
+        }, dcOnly);
+        continue;
+      }
+
+      default:
+        if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc8 && marker !== 0xcc) {
+          throw new JpegError('Arithmetic-coded and lossless JPEGs are not supported');
+        }
+    }
+
+    pos = end;
+  }
+
+  if (!frame) throw new JpegError('JPEG has no frame header');
+  return toRaster(frame, quantTables, adobeTransform, dcOnly);
+}
+
+function toRaster(frame: Frame, quantTables: Uint16Array[], adobeTransform: number | null, dcOnly: boolean): Raster {
+  const scale = dcOnly ? 8 : 1;
+  const width = Math.ceil(frame.width / scale);
+  const height = Math.ceil(frame.height / scale);
+
+  // Per component: a sample plane and its line width
+  const planes = frame.components.map(c => {
+    const quant = quantTables[c.quant];
+    if (!quant) throw new JpegError('Missing quantization table');
+    if (!dcOnly) return { plane: componentPlane(c, quant), lineWidth: c.blocksPerLineAlloc * 8 };
+    const plane = new Uint8Array(c.coefficients.length);
+    for (let i = 0; i < plane.length; i++) plane[i] = clamp((c.coefficients[i] * quant[0]) / 8 + 128);
+    return { plane, lineWidth: c.blocksPerLineAlloc };
+  });
+
+  // Column / row of each component's plane for every output pixel
+  const columnIndex = frame.components.map(c => {
+    const index = new Int32Array(width);
+    for (let x = 0; x < width; x++) index[x] = Math.floor((x * c.h) / frame.hMax);
+    return index;
+  });
+
+  const rgb = frame.components.length === 3 && (
+    adobeTransform === 0 ||
+    (adobeTransform === null && frame.components.map(c => String.fromCharCode(c.id)).join('') === 'RGB')
+  );
+
+  const data = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const rows = frame.components.map((c, i) => Math.floor((y * c.v) / frame.vMax) * planes[i].lineWidth);
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 3;
+      const c0 = planes[0].plane[rows[0] + columnIndex[0][x]];
+      if (frame.components.length === 1) {
+        data[out] = data[out + 1] = data[out + 2] = c0;
+        continue;
+      }
+      const c1 = planes[1].plane[rows[1] + columnIndex[1][x]];
+      const c2 = planes[2].plane[rows[2] + columnIndex[2][x]];
+      if (rgb) {
+        data[out] = c0;
+        data[out + 1] = c1;
+        data[out + 2] = c2;
+        continue;
+      }
+      data[out] = clamp(c0 + 1.402 * (c2 - 128));
+      data[out + 1] = clamp(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+      data[out + 2] = clamp(c0 + 1.772 * (c1 - 128));
+    }
+  }
+
+  return { width, height, data };
+}
+
+// ============================================================================
+// ENCODER
+// ============================================================================
+
+// Annex K.1 quantization tables (natural order) at quality 50
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99
+];
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99)
+];
+
+// Annex K.3 Huffman tables: code counts per length 1–16, then symbols
+const hexBytes = (rows: string): number[] => rows.split(' ').map(hex => parseInt(hex, 16));
+const STANDARD_TABLES = {
+  dcLuma: {
+    counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+  },
+  dcChroma: {
+    counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+  },
+  acLuma: {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+    symbols: hexBytes(
+      '01 02 03 00 04 11 05 12 21 31 41 06 13 51 61 07 22 71 14 32 81 91 a1 08 23 42 b1 c1 15 52 d1 f0 ' +
+      '24 33 62 72 82 09 0a 16 17 18 19 1a 25 26 27 28 29 2a 34 35 36 37 38 39 3a 43 44 45 46 47 48 49 ' +
+      '4a 53 54 55 56 57 58 59 5a 63 64 65 66 67 68 69 6a 73 74 75 76 77 78 79 7a 83 84 85 86 87 88 89 ' +
+      '8a 92 93 94 95 96 97 98 99 9a a2 a3 a4 a5 a6 a7 a8 a9 aa b2 b3 b4 b5 b6 b7 b8 b9 ba c2 c3 c4 c5 ' +
+      'c6 c7 c8 c9 ca d2 d3 d4 d5 d6 d7 d8 d9 da e1 e2 e3 e4 e5 e6 e7 e8 e9 ea f1 f2 f3 f4 f5 f6 f7 f8 ' +
+      'f9 fa'
+    )
+  },
+  acChroma: {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+    symbols: hexBytes(
+      '00 01 02 03 11 04 05 21 31 06 12 41 51 07 61 71 13 22 32 81 08 14 42 91 a1 b1 c1 09 23 33 52 f0 ' +
+      '15 62 72 d1 0a 16 24 34 e1 25 f1 17 18 19 1a 26 27 28 29 2a 35 36 37 38 39 3a 43 44 45 46 47 48 ' +
+      '49 4a 53 54 55 56 57 58 59 5a 63 64 65 66 67 68 69 6a 73 74 75 76 77 78 79 7a 82 83 84 85 86 87 ' +
+      '88 89 8a 92 93 94 95 96 97 98 99 9a a2 a3 a4 a5 a6 a7 a8 a9 aa b2 b3 b4 b5 b6 b7 b8 b9 ba c2 c3 ' +
+      'c4 c5 c6 c7 c8 c9 ca d2 d3 d4 d5 d6 d7 d8 d9 da e2 e3 e4 e5 e6 e7 e8 e9 ea f2 f3 f4 f5 f6 f7 f8 ' +
+      'f9 fa'
+    )
+  }
+};
+
+interface HuffmanCodes {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+function huffmanCodes(spec: { counts: number[]; symbols: number[] }): HuffmanCodes {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      codes[spec.symbols[k]] = code++;
+      lengths[spec.symbols[k]] = length;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+/** IJG quality scaling of a base table */
+function scaledQuant(base: number[], quality: number): Uint8Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return Uint8Array.from(base, value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+class BitWriter {
+  private readonly chunks: Buffer[] = [];
+  private chunk = Buffer.alloc(65536);
+  private length = 0;
+  private acc = 0;
+  private bits = 0;
+
+  private byte(value: number): void {
+    if (this.length === this.chunk.length) {
+      this.chunks.push(this.chunk);
+      this.chunk = Buffer.alloc(65536);
+      this.length = 0;
+    }
+    this.chunk[this.length++] = value;
+  }
+
+  write(code: number, length: number): void {
+    this.acc = (this.acc << length) | code;
+    this.bits += length;
+    while (this.bits >= 8) {
+      const value = (this.acc >> (this.bits - 8)) & 0xff;
+      this.byte(value);
+      if (value === 0xff) this.byte(0);   // byte stuffing
+      this.bits -= 8;
+      this.acc &= (1 << this.bits) - 1;
+    }
+  }
+
+  /** Pad the last byte with 1-bits and return everything written */
+  finish(): Buffer {
+    if (this.bits > 0) this.write((1 << (8 - this.bits)) - 1, 8 - this.bits);
+    return Buffer.concat([...this.chunks, this.chunk.subarray(0, this.length)]);
+  }
+}
+
+const magnitude = (value: number): number => {
+  let a = Math.abs(value);
+  let bits = 0;
+  while (a) {
+    bits++;
+    a >>= 1;
+  }
+  return bits;
+};
+
+function segment(marker: number, payload: number[]): Buffer {
+  const out = Buffer.alloc(4 + payload.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  out.writeUInt16BE(payload.length + 2, 2);
+  Buffer.from(payload).copy(out, 4);
+  return out;
+}
+
+/** Encode an RGB raster as a baseline JPEG (4:4:4, JFIF, no metadata) */
+export function encodeJpeg(raster: Raster, quality = 80): Buffer {
+  const { width, height } = raster;
+  if (width < 1 || height < 1 || width > 65535 || height > 65535) {
+    throw new JpegError('Invalid image dimensions');
+  }
+
+  const quant = [scaledQuant(LUMA_QUANT, quality), scaledQuant(CHROMA_QUANT, quality)];
+  const dc = [huffmanCodes(STANDARD_TABLES.dcLuma), huffmanCodes(STANDARD_TABLES.dcChroma)];
+  const ac = [huffmanCodes(STANDARD_TABLES.acLuma), huffmanCodes(STANDARD_TABLES.acChroma)];
+
+  const writer = new BitWriter();
+  const preds = [0, 0, 0];
+  const block = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+  const temp = new Float64Array(64);
+  const coefficients = new Int32Array(64);
+
+  const emit = (table: HuffmanCodes, symbol: number): void => writer.write(table.codes[symbol], table.lengths[symbol]);
+  const emitValue = (value: number, bits: number): void => {
+    if (bits) writer.write(value < 0 ? value + (1 << bits) - 1 : value, bits);
+  };
+
+  for (let by = 0; by < height; by += 8) {
+    for (let bx = 0; bx < width; bx += 8) {
+      // Level-shifted Y / Cb / Cr samples, edges replicated
+      for (let y = 0; y < 8; y++) {
+        const sy = Math.min(by + y, height - 1);
+        for (let x = 0; x < 8; x++) {
+          const sx = Math.min(bx + x, width - 1);
+          const p = (sy * width + sx) * 3;
+          const r = raster.data[p];
+          const g = raster.data[p + 1];
+          const b = raster.data[p + 2];
+          block[0][y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          block[1][y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+          block[2][y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+
+      for (let c = 0; c < 3; c++) {
+        const table = quant[c === 0 ? 0 : 1];
+        const samples = block[c];
+        // FDCT rows: temp[y][u] = Σx COS[x][u] · f[y][x]
+        for (let y = 0; y < 8; y++) {
+          for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let x = 0; x < 8; x++) sum += COS[x * 8 + u] * samples[y * 8 + x];
+            temp[y * 8 + u] = sum;
+          }
+        }
+        // Columns: F[v][u] = Σy COS[y][v] · temp[y][u], then quantise
+        for (let v = 0; v < 8; v++) {
+          for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let y = 0; y < 8; y++) sum += COS[y * 8 + v] * temp[y * 8 + u];
+            coefficients[v * 8 + u] = Math.round(sum / table[v * 8 + u]);
+          }
+        }
+
+        const tables = c === 0 ? 0 : 1;
+        const diff = coefficients[0] - preds[c];
+        preds[c] = coefficients[0];
+        const dcBits = magnitude(diff);
+        emit(dc[tables], dcBits);
+        emitValue(diff, dcBits);
+
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+          const value = coefficients[ZIGZAG[k]];
+          if (value === 0) {
+            run++;
+            continue;
+          }
+          while (run > 15) {
+            emit(ac[tables], 0xf0);
+            run -= 16;
+          }
+          const bits = magnitude(value);
+          emit(ac[tables], (run << 4) | bits);
+          emitValue(value, bits);
+          run = 0;
+        }
+        if (run > 0) emit(ac[tables], 0x00);
+      }
+    }
+  }
+
+  const zigzagged = (table: Uint8Array): number[] => Array.from(ZIGZAG, index => table[index]);
+  const dht = (tableClass: number, id: number, spec: { counts: number[]; symbols: number[] }): number[] =>
+    [(tableClass << 4) | id, ...spec.counts, ...spec.symbols];
+
+  return Buffer.concat([
+    Buffer.from([0xff, MARKER.SOI]),
+    segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    segment(MARKER.DQT, [0, ...zigzagged(quant[0]), 1, ...zigzagged(quant[1])]),
+    segment(MARKER.SOF0, [
+      8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3,
+      1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1
+    ]),
+    segment(MARKER.DHT, [
+      ...dht(0, 0, STANDARD_TABLES.dcLuma),
+      ...dht(1, 0, STANDARD_TABLES.acLuma),
+      ...dht(0, 1, STANDARD_TABLES.dcChroma),
+      ...dht(1, 1, STANDARD_TABLES.acChroma)
+    ]),
+    segment(MARKER.SOS, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+    writer.finish(),
+    Buffer.from([0xff, MARKER.EOI])
+  ]);
+}
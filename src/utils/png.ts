@@ -0,0 +1,225 @@
+// ============================================================================
+// PNG decoding and location stripping
+// ============================================================================
+// decodePng reads every standard PNG (greyscale, RGB, palette, with alpha,
+// 1–16 bit, Adam7 interlaced) into the RGB raster the thumbnail pipeline uses;
+// transparency is flattened onto white. stripPngLocation drops the chunks that
+// can carry where a picture was taken (eXIf, XMP) without re-encoding.
+// IDAT is inflated with zlib, so no image dependency is needed.
+// ============================================================================
+
+import zlib from 'zlib';
+import { Raster } from './raster';
+
+export class PngError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PngError';
+  }
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per colour type (0 grey, 2 RGB, 3 palette, 4 grey+alpha, 6 RGBA)
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+  [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+interface Chunk {
+  type: string;
+  data: Buffer;
+  /** Offsets of the whole chunk (length, type, data, CRC) */
+  start: number;
+  end: number;
+}
+
+function readChunks(buffer: Buffer): Chunk[] {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new PngError('Not a PNG file');
+  }
+  const chunks: Chunk[] = [];
+  let pos = 8;
+  while (pos + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const end = pos + 12 + length;
+    if (end > buffer.length) throw new PngError('Truncated PNG chunk');
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    chunks.push({ type, data: buffer.subarray(pos + 8, pos + 8 + length), start: pos, end });
+    pos = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+/**
+ * Drop eXIf (EXIF, which may hold GPS) and the XMP iTXt packet. Chunks are
+ * copied as-is, so their CRCs stay valid.
+ */
+export function stripPngLocation(buffer: Buffer): { buffer: Buffer; removed: boolean } {
+  const chunks = readChunks(buffer);
+  const isLocationChunk = (chunk: Chunk): boolean =>
+    chunk.type === 'eXIf' ||
+    (chunk.type === 'iTXt' && chunk.data.toString('latin1', 0, XMP_KEYWORD.length + 1) === `${XMP_KEYWORD}\0`);
+
+  if (!chunks.some(isLocationChunk)) return { buffer, removed: false };
+  return {
+    buffer: Buffer.concat([
+      SIGNATURE,
+      ...chunks.filter(chunk => !isLocationChunk(chunk)).map(chunk => buffer.subarray(chunk.start, chunk.end))
+    ]),
+    removed: true
+  };
+}
+
+/** Reverse the per-row filters of one (sub)image into a fresh buffer */
+function unfilter(data: Buffer, offset: number, width: number, height: number, bitsPerPixel: number): { rows: Uint8Array; next: number } {
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const rows = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    if (offset + 1 + rowBytes > data.length) throw new PngError('Truncated PNG image data');
+    const filter = data[offset];
+    const line = y * rowBytes;
+    const prior = line - rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[offset + 1 + i];
+      const left = i >= bpp ? rows[line + i - bpp] : 0;
+      const up = y > 0 ? rows[prior + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? rows[prior + i - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default:
+          throw new PngError(`Unknown PNG filter ${filter}`);
+      }
+      rows[line + i] = value & 0xff;
+    }
+    offset += 1 + rowBytes;
+  }
+
+  return { rows, next: offset };
+}
+
+/** Decode a PNG to RGB, alpha composited over white */
+export function decodePng(buffer: Buffer, options: { maxPixels?: number } = {}): Raster {
+  const chunks = readChunks(buffer);
+  const header = chunks.find(chunk => chunk.type === 'IHDR');
+  if (!header || header.data.length < 13) throw new PngError('PNG has no header');
+
+  const width = header.data.readUInt32BE(0);
+  const height = header.data.readUInt32BE(4);
+  const bitDepth = header.data[8];
+  const colorType = header.data[9];
+  const interlaced = header.data[12] === 1;
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new PngError('Unsupported PNG header');
+  }
+  if (options.maxPixels && width * height > options.maxPixels) {
+    throw new PngError(`Image of ${width}×${height} is too large to process`);
+  }
+
+  const palette = chunks.find(chunk => chunk.type === 'PLTE')?.data;
+  if (colorType === 3 && !palette) throw new PngError('Palette PNG without PLTE');
+  // tRNS: alpha per palette entry, or one fully transparent grey / RGB value
+  const transparency = chunks.find(chunk => chunk.type === 'tRNS')?.data;
+  const colorKey = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => transparency.readUInt16BE(i * 2))
+    : undefined;
+
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  let inflated: Buffer;
+  try {
+    inflated = zlib.inflateSync(
+      Buffer.concat(chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => chunk.data)),
+      // Interlaced data has one filter byte per pass row — 2× is ample
+      { maxOutputLength: (rowBytes + 1) * height * (interlaced ? 2 : 1) + 1024 }
+    );
+  } catch (error: any) {
+    throw new PngError(`Corrupt PNG image data: ${error.message}`);
+  }
+
+  const maxSample = (1 << bitDepth) - 1;
+  // Sample at the file's bit depth, then scaled to 8 bits
+  const sample = (rows: Uint8Array, rowOffset: number, index: number): number => {
+    if (bitDepth === 8) return rows[rowOffset + index];
+    if (bitDepth === 16) return (rows[rowOffset + index * 2] << 8) | rows[rowOffset + index * 2 + 1];
+    const bit = index * bitDepth;
+    return (rows[rowOffset + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (value: number): number =>
+    bitDepth === 8 ? value : bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample);
+
+  const data = new Uint8Array(width * height * 3);
+  const values = new Int32Array(4);
+  const put = (x: number, y: number, rows: Uint8Array, rowOffset: number, column: number): void => {
+    const first = column * channels;
+    let r: number, g: number, b: number, a = 255;
+    if (colorType === 3) {
+      const index = sample(rows, rowOffset, first);
+      r = palette![index * 3] ?? 0;
+      g = palette![index * 3 + 1] ?? 0;
+      b = palette![index * 3 + 2] ?? 0;
+      if (transparency && index < transparency.length) a = transparency[index];
+    } else {
+      for (let i = 0; i < channels; i++) values[i] = sample(rows, rowOffset, first + i);
+      if (colorKey && colorKey.every((key, i) => key === values[i])) a = 0;
+      if (channels <= 2) {
+        r = g = b = to8(values[0]);
+      } else {
+        r = to8(values[0]);
+        g = to8(values[1]);
+        b = to8(values[2]);
+      }
+      if (channels === 2 || channels === 4) a = to8(values[channels - 1]);
+    }
+    const out = (y * width + x) * 3;
+    const white = 255 - a;
+    data[out] = Math.round((r * a + 255 * white) / 255);
+    data[out + 1] = Math.round((g * a + 255 * white) / 255);
+    data[out + 2] = Math.round((b * a + 255 * white) / 255);
+  };
+
+  if (!interlaced) {
+    const { rows } = unfilter(inflated, 0, width, height, bitsPerPixel);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) put(x, y, rows, y * rowBytes, x);
+    }
+    return { width, height, data };
+  }
+
+  let offset = 0;
+  for (const [xStart, yStart, xStep, yStep] of ADAM7) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const pass = unfilter(inflated, offset, passWidth, passHeight, bitsPerPixel);
+    const passRowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    for (let py = 0; py < passHeight; py++) {
+      for (let px = 0; px < passWidth; px++) {
+        put(xStart + px * xStep, yStart + py * yStep, pass.rows, py * passRowBytes, px);
+      }
+    }
+    offset = pass.next;
+  }
+  return { width, height, data };
+}
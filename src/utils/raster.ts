@@ -0,0 +1,100 @@
+// ============================================================================
+// Raster helpers — the in-memory image the thumbnail pipeline works on
+// ============================================================================
+// Decoders (jpeg.ts, png.ts) produce an 8-bit RGB raster; the storage media
+// service scales it to the thumbnail sizes, applies the EXIF orientation and
+// hands it to the JPEG encoder.
+// ============================================================================
+
+export interface Raster {
+  width: number;
+  height: number;
+  /** RGB, 3 bytes per pixel, row-major */
+  data: Uint8Array;
+}
+
+/** Dimensions that fit within max × max keeping the aspect ratio — never upscales */
+export function fitWithin(width: number, height: number, max: number): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/** Area-average (box) resample — meant for downscaling */
+export function resizeRaster(source: Raster, width: number, height: number): Raster {
+  if (width === source.width && height === source.height) return source;
+
+  const span = (target: number, total: number): Int32Array => {
+    const bounds = new Int32Array(target + 1);
+    for (let i = 0; i <= target; i++) bounds[i] = Math.floor((i * total) / target);
+    return bounds;
+  };
+  const xs = span(width, source.width);
+  const ys = span(height, source.height);
+  const data = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = ys[y];
+    const y1 = Math.max(y0 + 1, ys[y + 1]);
+    for (let x = 0; x < width; x++) {
+      const x0 = xs[x];
+      const x1 = Math.max(x0 + 1, xs[x + 1]);
+      let r = 0, g = 0, b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        let offset = (sy * source.width + x0) * 3;
+        for (let sx = x0; sx < x1; sx++) {
+          r += source.data[offset];
+          g += source.data[offset + 1];
+          b += source.data[offset + 2];
+          offset += 3;
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const out = (y * width + x) * 3;
+      data[out] = Math.round(r / count);
+      data[out + 1] = Math.round(g / count);
+      data[out + 2] = Math.round(b / count);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Apply an EXIF orientation (1–8) so the pixels are upright — derivatives
+ * carry no EXIF, so viewers cannot rotate them for us
+ */
+export function orientRaster(source: Raster, orientation: number): Raster {
+  if (orientation < 2 || orientation > 8) return source;
+
+  const { width: w, height: h } = source;
+  const transposed = orientation >= 5;
+  const width = transposed ? h : w;
+  const height = transposed ? w : h;
+  const data = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2: sx = w - 1 - x; sy = y; break;             // mirror horizontal
+        case 3: sx = w - 1 - x; sy = h - 1 - y; break;     // rotate 180
+        case 4: sx = x; sy = h - 1 - y; break;             // mirror vertical
+        case 5: sx = y; sy = x; break;                     // transpose
+        case 6: sx = y; sy = h - 1 - x; break;             // rotate 90 CW
+        case 7: sx = w - 1 - y; sy = h - 1 - x; break;     // transverse
+        default: sx = w - 1 - y; sy = x; break;            // 8: rotate 90 CCW
+      }
+      const from = (sy * w + sx) * 3;
+      const to = (y * width + x) * 3;
+      data[to] = source.data[from];
+      data[to + 1] = source.data[from + 1];
+      data[to + 2] = source.data[from + 2];
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,216 @@
+// ============================================================================
+// Razorpay webhook helpers — signature check and event → action planning
+// ============================================================================
+// Pure functions (no I/O) so recorded webhook fixtures can be replayed
+// against them: src/__tests__/razorpayWebhookFixtures.ts.
+//
+// Razorpay signs the raw request body: X-Razorpay-Signature is the hex
+// HMAC-SHA256 of the exact bytes received under the webhook secret, so the
+// body must be verified before any JSON parsing re-serialises it.
+// ============================================================================
+
+import crypto from 'crypto';
+import {
+  RazorpayNotes,
+  RazorpayPaymentEntity,
+  RazorpayWebhookBody
+} from '../types/paymentWebhookTypes';
+
+// Events the receiver acts on; the tenant subscribes to these in the dashboard
+export const RAZORPAY_WEBHOOK_EVENTS = [
+  'payment.captured',
+  'payment.failed',
+  'refund.processed',
+  'payment_link.paid'
+];
+
+// Currencies whose smallest unit is not 1/100 (Razorpay amounts are in the smallest unit)
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'JOD', 'KWD', 'OMR', 'TND'];
+
+export function razorpaySignature(rawBody: Buffer | string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+/** Constant-time comparison of X-Razorpay-Signature against the body's HMAC */
+export function verifyRazorpaySignature(
+  rawBody: Buffer | string,
+  signature: string | null | undefined,
+  secret: string | null | undefined
+): boolean {
+  if (!signature || !secret) return false;
+  const expected = Buffer.from(razorpaySignature(rawBody, secret), 'hex');
+  const given = /^[0-9a-f]+$/i.test(signature) ? Buffer.from(signature, 'hex') : Buffer.alloc(0);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Webhook secret for one tenant, derived from the platform secret. Each
+ * tenant enters its own value in its Razorpay dashboard, so one tenant's
+ * secret cannot sign events for another tenant's invoices, and nothing
+ * needs storing.
+ */
+export function tenantWebhookSecret(platformSecret: string, tenantId: string): string {
+  return crypto
+    .createHmac('sha256', platformSecret)
+    .update(`razorpay-webhook:${tenantId}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Dedupe key for an event. Razorpay sends x-razorpay-event-id on every
+ * delivery (the same id on retries); without it, the event name plus the
+ * entity it is about identifies the event just as well.
+ */
+export function razorpayEventId(header: string | null | undefined, body: RazorpayWebhookBody): string {
+  if (header && header.trim()) return header.trim();
+  const p = body.payload || {};
+  const entityId = p.refund?.entity?.id || p.payment_link?.entity?.id || p.payment?.entity?.id || '';
+  return `${body.event}:${entityId}:${body.created_at}`;
+}
+
+/** Smallest currency unit → amount as stored on our invoices */
+export function fromRazorpayAmount(amount: number, currency: string): number {
+  const code = String(currency || 'INR').toUpperCase();
+  if (ZERO_DECIMAL_CURRENCIES.includes(code)) return amount;
+  if (THREE_DECIMAL_CURRENCIES.includes(code)) return Math.round(amount) / 1000;
+  return Math.round(amount) / 100;
+}
+
+// Razorpay sends `notes: []` when there are none
+function notesOf(value: RazorpayNotes | any[] | undefined | null): RazorpayNotes {
+  return value && !Array.isArray(value) && typeof value === 'object' ? value : {};
+}
+
+// ─── Planning ───
+
+interface PlanContext {
+  eventType: string;
+  // From the entity notes the payment-gateway edge function sets on orders and links
+  tenantId: string | null;
+  invoiceId: string | null;
+  contractId: string | null;
+  environment: string | null;
+}
+
+export type RazorpayWebhookPlan = PlanContext & (
+  | {
+      action: 'record_receipt';
+      paymentId: string;
+      orderId: string | null;
+      paymentLinkId: string | null;
+      amount: number;
+      currency: string;
+      method: string;
+      paidAt: string;             // ISO
+    }
+  | {
+      action: 'cancel_receipt';
+      paymentId: string;
+      refundId: string;
+      amount: number;
+      currency: string;
+      fullRefund: boolean;        // only a full refund cancels the receipt
+      creditNoteId: string | null;  // refund issued for a credit note — settles it instead
+    }
+  | {
+      action: 'note_failure';
+      paymentId: string;
+      amount: number;
+      currency: string;
+      reason: string;
+    }
+  | {
+      action: 'ignore';
+      reason: string;
+    }
+);
+
+function contextOf(eventType: string, ...notes: Array<RazorpayNotes | any[] | undefined | null>): PlanContext {
+  // Later notes win: the payment's own notes over its link's or order's
+  const merged: RazorpayNotes = Object.assign({}, ...notes.map(notesOf));
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  return {
+    eventType,
+    tenantId: str(merged.tenant_id),
+    invoiceId: str(merged.invoice_id),
+    contractId: str(merged.contract_id),
+    environment: str(merged.environment)
+  };
+}
+
+function receiptPlan(ctx: PlanContext, payment: RazorpayPaymentEntity, paymentLinkId: string | null): RazorpayWebhookPlan {
+  return {
+    ...ctx,
+    action: 'record_receipt',
+    paymentId: payment.id,
+    orderId: payment.order_id || null,
+    paymentLinkId,
+    amount: fromRazorpayAmount(payment.amount, payment.currency),
+    currency: payment.currency,
+    method: payment.method || 'online',
+    paidAt: new Date((payment.created_at || 0) * 1000).toISOString()
+  };
+}
+
+/**
+ * Decide what a (signature-verified) webhook event should do. Events we do
+ * not handle, and handled events missing what we need, plan an 'ignore'
+ * with the reason so the event log says why nothing happened.
+ */
+export function planRazorpayEvent(body: RazorpayWebhookBody): RazorpayWebhookPlan {
+  const eventType = String(body?.event || '');
+  const p = body?.payload || {};
+  const payment = p.payment?.entity;
+  const ignore = (ctx: PlanContext, reason: string): RazorpayWebhookPlan => ({ ...ctx, action: 'ignore', reason });
+
+  switch (eventType) {
+    case 'payment.captured': {
+      const ctx = contextOf(eventType, p.order?.entity?.notes, payment?.notes);
+      if (!payment) return ignore(ctx, 'No payment in payload');
+      if (payment.status !== 'captured') return ignore(ctx, `Payment status is ${payment.status}`);
+      return receiptPlan(ctx, payment, null);
+    }
+
+    case 'payment_link.paid': {
+      const link = p.payment_link?.entity;
+      const ctx = contextOf(eventType, link?.notes, p.order?.entity?.notes, payment?.notes);
+      if (!payment) return ignore(ctx, 'No payment in payload');
+      return receiptPlan(ctx, payment, link?.id || null);
+    }
+
+    case 'payment.failed': {
+      const ctx = contextOf(eventType, p.order?.entity?.notes, payment?.notes);
+      if (!payment) return ignore(ctx, 'No payment in payload');
+      return {
+        ...ctx,
+        action: 'note_failure',
+        paymentId: payment.id,
+        amount: fromRazorpayAmount(payment.amount, payment.currency),
+        currency: payment.currency,
+        reason: payment.error_description || payment.error_reason || payment.error_code || 'Payment failed'
+      };
+    }
+
+    case 'refund.processed': {
+      const refund = p.refund?.entity;
+      const ctx = contextOf(eventType, payment?.notes, refund?.notes);
+      if (!refund) return ignore(ctx, 'No refund in payload');
+      const refunded = Number(payment?.amount_refunded ?? refund.amount);
+      return {
+        ...ctx,
+        action: 'cancel_receipt',
+        paymentId: refund.payment_id,
+        refundId: refund.id,
+        amount: fromRazorpayAmount(refund.amount, refund.currency),
+        currency: refund.currency,
+        fullRefund: !!payment && refunded >= payment.amount,
+        creditNoteId: typeof notesOf(refund.notes).credit_note_id === 'string' ? notesOf(refund.notes).credit_note_id : null
+      };
+    }
+
+    default:
+      return ignore(contextOf(eventType, payment?.notes), `Event ${eventType || '(none)'} is not handled`);
+  }
+}
@@ -0,0 +1,450 @@
+// ============================================================================
+// S3-compatible object storage client (AWS S3, MinIO, Ceph RGW, R2 …)
+// ============================================================================
+// Just the object calls the storage providers need, signed with AWS
+// Signature Version 4 over axios — no SDK dependency. Path-style addressing
+// (endpoint/bucket/key) for MinIO and most on-prem gateways, virtual-hosted
+// (bucket.endpoint/key) for AWS.
+// ============================================================================
+
+import axios, { Method } from 'axios';
+import crypto from 'crypto';
+
+export interface S3ClientConfig {
+  /** e.g. http://localhost:9000 — omit for AWS (https://s3.<region>.amazonaws.com) */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** endpoint/bucket/key instead of bucket.endpoint/key */
+  forcePathStyle: boolean;
+}
+
+export interface S3Object {
+  body: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+export interface S3UploadedPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+export interface S3Listing {
+  objects: Array<{ key: string; size: number; lastModified: string }>;
+  /** Common prefixes ("directories") under the listed prefix, with trailing '/' */
+  prefixes: string[];
+}
+
+export class S3Error extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+const EMPTY_SHA256 = crypto.createHash('sha256').update('').digest('hex');
+
+const sha256Hex = (data: Buffer | string): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: Buffer | string, data: string): Buffer =>
+  crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+
+/** RFC 3986 encoding, as SigV4 wants it ('/' kept when encoding a key path) */
+export const encodeRfc3986 = (value: string, keepSlash = false): string => {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlash ? encoded.replace(/%2F/g, '/') : encoded;
+};
+
+/** 20130524T000000Z */
+const amzDateOf = (at: Date): string => at.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+export interface SignableRequest {
+  method: string;
+  host: string;
+  /** Already-encoded path, starting with '/' */
+  path: string;
+  query?: Record<string, string>;
+  /** Header names in any case; host, x-amz-date and x-amz-content-sha256 are added */
+  headers?: Record<string, string>;
+  payloadHash?: string;
+}
+
+type S3Credentials = { accessKeyId: string; secretAccessKey: string; region: string };
+
+// SigV4 signature over the canonical request; `headers` must be lower-cased and include host
+function computeSignature(
+  request: { method: string; path: string; query: Record<string, string>; headers: Record<string, string>; payloadHash: string },
+  credentials: S3Credentials,
+  amzDate: string
+): { signature: string; signedHeaders: string; scope: string } {
+  const dateStamp = amzDate.slice(0, 8);
+  const headers = request.headers;
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map(name => `${name}:${headers[name]}\n`).join('');
+  const signedHeaders = signedHeaderNames.join(';');
+  const canonicalQuery = Object.keys(request.query)
+    .sort()
+    .map(key => `${encodeRfc3986(key)}=${encodeRfc3986(request.query[key])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    request.path,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+  return { signature, signedHeaders, scope };
+}
+
+/**
+ * Sign a request with SigV4 (Authorization header). Returns the headers to
+ * send, including the computed Authorization.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: S3Credentials,
+  at: Date = new Date()
+): Record<string, string> {
+  const amzDate = amzDateOf(at);
+  const payloadHash = request.payloadHash || EMPTY_SHA256;
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    headers[name.toLowerCase()] = String(value).trim().replace(/\s+/g, ' ');
+  }
+  headers['host'] = request.host;
+  headers['x-amz-date'] = amzDate;
+  headers['x-amz-content-sha256'] = payloadHash;
+
+  const { signature, signedHeaders, scope } = computeSignature(
+    { method: request.method, path: request.path, query: request.query || {}, headers, payloadHash },
+    credentials,
+    amzDate
+  );
+
+  const { host: _host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+/**
+ * Presigned URL (SigV4 query string auth) — the caller sends the request
+ * without any credentials of its own. `host` is always signed; headers given
+ * in `request.headers` are signed too and must be sent with exactly those
+ * values (e.g. content-length, to pin the size of an upload). Anything else
+ * the client may set freely.
+ */
+export function presignUrl(
+  request: {
+    method: string;
+    protocol: string;
+    host: string;
+    path: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+  },
+  credentials: S3Credentials,
+  expiresSeconds: number,
+  at: Date = new Date()
+): string {
+  const amzDate = amzDateOf(at);
+  const headers: Record<string, string> = { host: request.host };
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    headers[name.toLowerCase()] = String(value).trim();
+  }
+  const query: Record<string, string> = {
+    ...(request.query || {}),
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${credentials.accessKeyId}/${amzDate.slice(0, 8)}/${credentials.region}/s3/aws4_request`,
+    'X-Amz-Date': amzDate,
+    // SigV4 presigned URLs are valid for at most 7 days
+    'X-Amz-Expires': String(Math.min(Math.max(1, Math.floor(expiresSeconds)), 7 * 24 * 60 * 60)),
+    'X-Amz-SignedHeaders': Object.keys(headers).sort().join(';')
+  };
+
+  const { signature } = computeSignature(
+    { method: request.method, path: request.path, query, headers, payloadHash: 'UNSIGNED-PAYLOAD' },
+    credentials,
+    amzDate
+  );
+
+  const search = Object.keys(query)
+    .sort()
+    .map(key => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join('&');
+  return `${request.protocol}//${request.host}${request.path}?${search}&X-Amz-Signature=${signature}`;
+}
+
+const xmlValues = (xml: string, tag: string): string[] => {
+  const values: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) values.push(match[1]);
+  return values;
+};
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export class S3Client {
+  private readonly baseUrl: URL;
+
+  constructor(private readonly config: S3ClientConfig) {
+    this.baseUrl = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+  }
+
+  get bucket(): string {
+    return this.config.bucket;
+  }
+
+  /** Unsigned URL of an object (what a public-read bucket serves) */
+  objectUrl(key: string): string {
+    const { host, path } = this.target(key);
+    return `${this.baseUrl.protocol}//${host}${path}`;
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string, metadata: Record<string, string> = {}): Promise<void> {
+    const headers: Record<string, string> = {
+      'content-type': contentType || 'application/octet-stream',
+      'content-length': String(body.length)
+    };
+    for (const [name, value] of Object.entries(metadata)) {
+      // Metadata travels as headers: ASCII only
+      headers[`x-amz-meta-${name.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`] = encodeURIComponent(String(value));
+    }
+    await this.send('PUT', key, { headers, body });
+  }
+
+  /** Null when the object does not exist */
+  async getObject(key: string): Promise<S3Object | null> {
+    try {
+      const response = await this.send('GET', key);
+      const metadata: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (name.startsWith('x-amz-meta-') && typeof value === 'string') {
+          metadata[name.slice('x-amz-meta-'.length)] = safeDecode(value);
+        }
+      }
+      return {
+        body: response.body,
+        contentType: response.headers['content-type'] || 'application/octet-stream',
+        metadata
+      };
+    } catch (error) {
+      if (error instanceof S3Error && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /** Idempotent — deleting a missing key succeeds */
+  async deleteObject(key: string): Promise<void> {
+    await this.send('DELETE', key);
+  }
+
+  /** One level of keys under `prefix` (delimiter '/'), following continuation tokens */
+  async listObjects(prefix: string): Promise<S3Listing> {
+    const listing: S3Listing = { objects: [], prefixes: [] };
+    let continuationToken: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix, delimiter: '/' };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+      const response = await this.send('GET', '', { query });
+      const xml = response.body.toString('utf8');
+
+      for (const contents of xmlValues(xml, 'Contents')) {
+        listing.objects.push({
+          key: unescapeXml(xmlValues(contents, 'Key')[0] || ''),
+          size: Number(xmlValues(contents, 'Size')[0] || 0),
+          lastModified: xmlValues(contents, 'LastModified')[0] || ''
+        });
+      }
+      for (const common of xmlValues(xml, 'CommonPrefixes')) {
+        listing.prefixes.push(unescapeXml(xmlValues(common, 'Prefix')[0] || ''));
+      }
+
+      const truncated = xmlValues(xml, 'IsTruncated')[0] === 'true';
+      continuationToken = truncated ? unescapeXml(xmlValues(xml, 'NextContinuationToken')[0] || '') || undefined : undefined;
+    } while (continuationToken);
+    return listing;
+  }
+
+  // --------------------------------------------------------------------------
+  // Multipart uploads — parts go straight from the browser to the bucket
+  // through presigned URLs; the bucket needs a CORS rule allowing PUT from the
+  // app origin. Parts are 5 MiB–5 GiB (the last may be smaller), at most 10,000.
+  // --------------------------------------------------------------------------
+
+  async createMultipartUpload(key: string, contentType: string, metadata: Record<string, string> = {}): Promise<string> {
+    const headers: Record<string, string> = { 'content-type': contentType || 'application/octet-stream' };
+    for (const [name, value] of Object.entries(metadata)) {
+      headers[`x-amz-meta-${name.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`] = encodeURIComponent(String(value));
+    }
+    const response = await this.send('POST', key, { query: { uploads: '' }, headers });
+    const uploadId = xmlValues(response.body.toString('utf8'), 'UploadId')[0];
+    if (!uploadId) {
+      throw new S3Error('CreateMultipartUpload returned no UploadId', 502, 'InvalidResponse');
+    }
+    return unescapeXml(uploadId);
+  }
+
+  /**
+   * Presigned PUT for one part (1-based part number). The part's size is
+   * signed: S3 refuses a body of any other length.
+   */
+  presignUploadPart(key: string, uploadId: string, partNumber: number, contentLength: number, expiresSeconds: number): string {
+    const { host, path } = this.target(key);
+    return presignUrl(
+      {
+        method: 'PUT',
+        protocol: this.baseUrl.protocol,
+        host,
+        path,
+        query: { partNumber: String(partNumber), uploadId },
+        headers: { 'content-length': String(contentLength) }
+      },
+      this.config,
+      expiresSeconds
+    );
+  }
+
+  /** Parts the bucket has received so far, in part-number order */
+  async listParts(key: string, uploadId: string): Promise<S3UploadedPart[]> {
+    const parts: S3UploadedPart[] = [];
+    let marker: string | undefined;
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) query['part-number-marker'] = marker;
+      const response = await this.send('GET', key, { query });
+      const xml = response.body.toString('utf8');
+
+      for (const part of xmlValues(xml, 'Part')) {
+        parts.push({
+          partNumber: Number(xmlValues(part, 'PartNumber')[0] || 0),
+          size: Number(xmlValues(part, 'Size')[0] || 0),
+          etag: unescapeXml(xmlValues(part, 'ETag')[0] || '')
+        });
+      }
+
+      const truncated = xmlValues(xml, 'IsTruncated')[0] === 'true';
+      marker = truncated ? xmlValues(xml, 'NextPartNumberMarker')[0] || undefined : undefined;
+    } while (marker);
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: S3UploadedPart[]): Promise<void> {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const body = Buffer.from(
+      '<CompleteMultipartUpload>' +
+        parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escape(part.etag)}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>',
+      'utf8'
+    );
+    const response = await this.send('POST', key, {
+      query: { uploadId },
+      headers: { 'content-type': 'application/xml', 'content-length': String(body.length) },
+      body
+    });
+    // S3 can answer 200 with an <Error> body when completion fails late
+    const xml = response.body.toString('utf8');
+    if (xml.includes('<Error>')) {
+      throw new S3Error(xmlValues(xml, 'Message')[0] || 'CompleteMultipartUpload failed', 500, xmlValues(xml, 'Code')[0] || 'S3Error');
+    }
+  }
+
+  /** Idempotent — aborting an unknown upload succeeds */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.send('DELETE', key, { query: { uploadId } });
+    } catch (error) {
+      if (error instanceof S3Error && error.status === 404) return;
+      throw error;
+    }
+  }
+
+  // Host and encoded path of a key ('' = the bucket itself)
+  private target(key: string): { host: string; path: string } {
+    const encodedKey = encodeRfc3986(key, true);
+    if (this.config.forcePathStyle) {
+      return { host: this.baseUrl.host, path: `/${this.config.bucket}/${encodedKey}` };
+    }
+    return { host: `${this.config.bucket}.${this.baseUrl.host}`, path: `/${encodedKey}` };
+  }
+
+  private async send(
+    method: Method,
+    key: string,
+    options: { query?: Record<string, string>; headers?: Record<string, string>; body?: Buffer } = {}
+  ): Promise<{ body: Buffer; headers: Record<string, string> }> {
+    const { host, path } = this.target(key);
+    const signed = signRequest(
+      {
+        method,
+        host,
+        path,
+        query: options.query,
+        headers: options.headers,
+        payloadHash: options.body ? sha256Hex(options.body) : EMPTY_SHA256
+      },
+      this.config
+    );
+
+    const search = Object.keys(options.query || {})
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(options.query![name])}`)
+      .join('&');
+
+    const response = await axios.request<ArrayBuffer>({
+      method,
+      url: `${this.baseUrl.protocol}//${host}${path}${search ? `?${search}` : ''}`,
+      headers: signed,
+      data: options.body,
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      validateStatus: () => true,
+      // The signature covers the exact path; never let axios re-encode it
+      transformRequest: [(data: any) => data]
+    });
+
+    const body = Buffer.from(response.data || []);
+    if (response.status >= 300) {
+      const xml = body.toString('utf8');
+      const code = xmlValues(xml, 'Code')[0] || (response.status === 404 ? 'NoSuchKey' : 'S3Error');
+      const message = xmlValues(xml, 'Message')[0] || `S3 ${method} failed with status ${response.status}`;
+      throw new S3Error(message, response.status, code);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      if (value !== undefined && value !== null) headers[name.toLowerCase()] = String(value);
+    }
+    return { body, headers };
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
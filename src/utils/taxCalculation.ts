@@ -0,0 +1,112 @@
+// ============================================================================
+// Tax calculation — pure arithmetic shared by the tax engine and derivation
+// ============================================================================
+// No I/O here: taxEngineService resolves rates, display mode and the seller /
+// buyer states, then calls these. contractEventsDerivationService imports
+// grossUpFactor directly so derived billing amounts use the same rule as
+// every other server-side tax calculation.
+// ============================================================================
+
+import {
+  TaxComponent,
+  TaxDisplayMode,
+  TaxSupplyType
+} from '../types/taxTypes';
+import { GST_FOREIGN_PLACE_OF_SUPPLY, isUtgstTerritory } from './constants/gstStates';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/**
+ * Multiplier that takes a pre-tax price to the amount billed. Only
+ * tax-exclusive prices grow; inclusive prices already carry their tax.
+ */
+export function grossUpFactor(taxRate: number | undefined, taxInclusion: 'inclusive' | 'exclusive' | undefined): number {
+  return (taxRate || 0) > 0 && taxInclusion === 'exclusive' ? 1 + (taxRate || 0) / 100 : 1;
+}
+
+/**
+ * Split an amount into base + tax for a display mode:
+ *  - excluding_tax: amount is the base, tax is added on top
+ *  - including_tax: amount already contains the tax, which is backed out
+ *  - no_tax:        nothing is taxed
+ */
+export function applyTaxRate(
+  amount: number,
+  rate: number,
+  displayMode: TaxDisplayMode
+): { base_amount: number; tax_amount: number; total_amount: number } {
+  const value = round2(amount || 0);
+  if (displayMode === 'no_tax' || !(rate > 0)) {
+    return { base_amount: value, tax_amount: 0, total_amount: value };
+  }
+  if (displayMode === 'including_tax') {
+    const base = round2((value * 100) / (100 + rate));
+    return { base_amount: base, tax_amount: round2(value - base), total_amount: value };
+  }
+  const tax = round2((value * rate) / 100);
+  return { base_amount: value, tax_amount: tax, total_amount: round2(value + tax) };
+}
+
+/**
+ * GST supply type from seller and buyer locations (a missing country means
+ * India). A seller outside India is not GST-registered; a buyer whose state
+ * is unknown is treated as intra-state, matching how invoices default to the
+ * seller's own place of supply.
+ */
+export function gstSupplyType(params: {
+  sellerCountryCode: string | null;
+  sellerStateCode: string | null;
+  buyerCountryCode: string | null;
+  buyerStateCode: string | null;
+}): TaxSupplyType {
+  const sellerCountry = (params.sellerCountryCode || 'IN').toUpperCase();
+  if (sellerCountry !== 'IN') return 'not_applicable';
+  const buyerCountry = (params.buyerCountryCode || 'IN').toUpperCase();
+  if (buyerCountry !== 'IN') return 'export';
+  if (!params.sellerStateCode || !params.buyerStateCode) return 'intra_state';
+  return params.sellerStateCode === params.buyerStateCode ? 'intra_state' : 'inter_state';
+}
+
+/** Place of supply reported on the invoice: buyer state, 96 for exports */
+export function gstPlaceOfSupply(supplyType: TaxSupplyType, buyerStateCode: string | null, sellerStateCode: string | null): string | null {
+  if (supplyType === 'not_applicable') return null;
+  if (supplyType === 'export') return GST_FOREIGN_PLACE_OF_SUPPLY;
+  return buyerStateCode || sellerStateCode;
+}
+
+/**
+ * Break one tax amount into its components. Intra-state halves the rate into
+ * CGST + SGST (UTGST in union territories without a legislature); the odd
+ * paisa goes to the state half so the parts always sum to the whole.
+ */
+export function splitTaxComponents(
+  taxAmount: number,
+  rate: number,
+  supplyType: TaxSupplyType,
+  stateCode: string | null
+): TaxComponent[] {
+  if (!(taxAmount > 0) || !(rate > 0)) return [];
+  if (supplyType === 'not_applicable') {
+    return [{ code: 'TAX', rate, amount: round2(taxAmount) }];
+  }
+  if (supplyType === 'intra_state') {
+    const central = Math.floor(Math.round(taxAmount * 100) / 2) / 100;
+    return [
+      { code: 'CGST', rate: rate / 2, amount: central },
+      { code: isUtgstTerritory(stateCode) ? 'UTGST' : 'SGST', rate: rate / 2, amount: round2(taxAmount - central) },
+    ];
+  }
+  return [{ code: 'IGST', rate, amount: round2(taxAmount) }];
+}
+
+/** Sum components across lines by code + rate */
+export function sumTaxComponents(groups: TaxComponent[][]): TaxComponent[] {
+  const totals = new Map<string, TaxComponent>();
+  for (const component of groups.flat()) {
+    const key = `${component.code}:${component.rate}`;
+    const existing = totals.get(key);
+    if (existing) existing.amount = round2(existing.amount + component.amount);
+    else totals.set(key, { ...component });
+  }
+  return Array.from(totals.values());
+}
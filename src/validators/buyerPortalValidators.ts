@@ -0,0 +1,175 @@
+// ============================================================================
+// Buyer Portal Validators
+// ============================================================================
+// Purpose: Input validation for the buyer self-service portal (/api/portal)
+// ============================================================================
+
+import { body, param, query, ValidationChain } from 'express-validator';
+import { PORTAL_OTP_CHANNELS, PORTAL_PHONE_CHANNELS } from '../types/buyerPortalTypes';
+
+// ─────────────────────────────────────────────────────────────
+// Sign-in
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/portal/auth/request-otp
+ */
+export const requestPortalOtpValidation: ValidationChain[] = [
+  body('tenant_id')
+    .notEmpty().withMessage('tenant_id is required')
+    .isUUID().withMessage('tenant_id must be a valid UUID'),
+
+  body('channel')
+    .optional()
+    .isIn([...PORTAL_OTP_CHANNELS]).withMessage(`channel must be one of: ${PORTAL_OTP_CHANNELS.join(', ')}`),
+
+  body('destination')
+    .notEmpty().withMessage('destination is required')
+    .isLength({ max: 255 }).withMessage('destination cannot exceed 255 characters'),
+
+  body('destination')
+    .if(body('channel').not().isIn([...PORTAL_PHONE_CHANNELS]))
+    .isEmail().withMessage('destination must be a valid email address'),
+
+  body('destination')
+    .if(body('channel').isIn([...PORTAL_PHONE_CHANNELS]))
+    .matches(/^\+?[0-9][0-9\s()-]{5,24}$/).withMessage('destination must be a phone number')
+];
+
+/**
+ * POST /api/portal/auth/resend-otp
+ */
+export const resendPortalOtpValidation: ValidationChain[] = [
+  body('challenge_id')
+    .notEmpty().withMessage('challenge_id is required')
+    .isUUID().withMessage('challenge_id must be a valid UUID'),
+
+  body('channel')
+    .optional()
+    .isIn([...PORTAL_OTP_CHANNELS]).withMessage(`channel must be one of: ${PORTAL_OTP_CHANNELS.join(', ')}`)
+];
+
+/**
+ * POST /api/portal/auth/verify-otp
+ */
+export const verifyPortalOtpValidation: ValidationChain[] = [
+  body('challenge_id')
+    .notEmpty().withMessage('challenge_id is required')
+    .isUUID().withMessage('challenge_id must be a valid UUID'),
+
+  body('code')
+    .notEmpty().withMessage('code is required')
+    .matches(/^\s*\d{6}\s*$/).withMessage('code must be 6 digits')
+];
+
+// ─────────────────────────────────────────────────────────────
+// Contracts & events
+// ─────────────────────────────────────────────────────────────
+
+export const portalContractIdValidation: ValidationChain[] = [
+  param('contractId')
+    .isUUID().withMessage('Contract ID must be a valid UUID')
+];
+
+/**
+ * GET /api/portal/events
+ */
+export const listPortalEventsValidation: ValidationChain[] = [
+  query('contract_id')
+    .optional()
+    .isUUID().withMessage('contract_id must be a valid UUID'),
+
+  query('from')
+    .optional()
+    .isISO8601({ strict: true }).withMessage('from must be a date (YYYY-MM-DD)'),
+
+  query('to')
+    .optional()
+    .isISO8601({ strict: true }).withMessage('to must be a date (YYYY-MM-DD)')
+];
+
+// ─────────────────────────────────────────────────────────────
+// Invoices & payments
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/portal/invoices
+ */
+export const listPortalInvoicesValidation: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn(['open', 'all']).withMessage('status must be open or all')
+];
+
+export const portalInvoiceIdValidation: ValidationChain[] = [
+  param('invoiceId')
+    .isUUID().withMessage('Invoice ID must be a valid UUID')
+];
+
+/**
+ * POST /api/portal/invoices/:invoiceId/pay
+ */
+export const payPortalInvoiceValidation: ValidationChain[] = [
+  ...portalInvoiceIdValidation,
+
+  body('amount')
+    .optional()
+    .isFloat({ gt: 0 }).withMessage('amount must be a positive number')
+    .toFloat()
+];
+
+/**
+ * POST /api/portal/invoices/:invoiceId/pay/verify
+ */
+export const verifyPortalPaymentValidation: ValidationChain[] = [
+  ...portalInvoiceIdValidation,
+
+  body('request_id')
+    .notEmpty().withMessage('request_id is required'),
+
+  body('gateway_order_id')
+    .notEmpty().withMessage('gateway_order_id is required'),
+
+  body('gateway_payment_id')
+    .notEmpty().withMessage('gateway_payment_id is required'),
+
+  body('gateway_signature')
+    .notEmpty().withMessage('gateway_signature is required')
+];
+
+// ─────────────────────────────────────────────────────────────
+// Service requests
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/portal/service-requests
+ */
+export const createPortalServiceRequestValidation: ValidationChain[] = [
+  body('contract_id')
+    .notEmpty().withMessage('contract_id is required')
+    .isUUID().withMessage('contract_id must be a valid UUID'),
+
+  body('subject')
+    .isString().withMessage('subject must be a string')
+    .trim()
+    .notEmpty().withMessage('subject is required')
+    .isLength({ max: 200 }).withMessage('subject cannot exceed 200 characters'),
+
+  body('description')
+    .optional()
+    .isString().withMessage('description must be a string')
+    .isLength({ max: 1500 }).withMessage('description cannot exceed 1500 characters'),
+
+  body('preferred_date')
+    .optional()
+    .isISO8601({ strict: true }).withMessage('preferred_date must be a date (YYYY-MM-DD)'),
+
+  body('event_id')
+    .optional()
+    .isUUID().withMessage('event_id must be a valid UUID')
+];
+
+export const portalServiceRequestIdValidation: ValidationChain[] = [
+  param('requestId')
+    .isUUID().withMessage('Request ID must be a valid UUID')
+];
@@ -0,0 +1,52 @@
+// ============================================================================
+// Calendar Feed Validators
+// ============================================================================
+// Purpose: Input validation for ICS subscription feed endpoints
+// ============================================================================
+
+import { body, param, ValidationChain } from 'express-validator';
+
+// Kept in sync with CALENDAR_FEED_SCOPES (calendarFeedTypes.ts)
+const FEED_SCOPES = ['tenant', 'assignee', 'contact', 'block'];
+
+/**
+ * Validation rules for creating (or fetching the active) feed
+ * POST /api/calendar-feeds
+ */
+export const createCalendarFeedValidation: ValidationChain[] = [
+  body('scope')
+    .notEmpty().withMessage('scope is required')
+    .isIn(FEED_SCOPES).withMessage(`scope must be one of: ${FEED_SCOPES.join(', ')}`),
+
+  body('subject_id')
+    .if(body('scope').not().equals('tenant'))
+    .notEmpty().withMessage('subject_id is required unless scope is tenant')
+    .isUUID().withMessage('subject_id must be a valid UUID'),
+
+  body('subject_id')
+    .if(body('scope').equals('tenant'))
+    .isEmpty().withMessage('subject_id is not allowed for a tenant feed'),
+
+  body('label')
+    .optional()
+    .isString().withMessage('label must be a string')
+    .isLength({ max: 255 }).withMessage('label cannot exceed 255 characters')
+];
+
+/**
+ * Validation rules for feed actions (rotate / revoke)
+ * POST /api/calendar-feeds/:id/rotate, DELETE /api/calendar-feeds/:id
+ */
+export const calendarFeedIdValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Feed ID must be a valid UUID')
+];
+
+/**
+ * Validation rules for the public feed
+ * GET /api/ical/:token.ics
+ */
+export const calendarFeedTokenValidation: ValidationChain[] = [
+  param('token')
+    .matches(/^[A-Za-z0-9_-]{16,64}$/).withMessage('Invalid feed token')
+];
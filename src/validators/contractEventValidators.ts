@@ -231,3 +231,39 @@ export const getContractEventByIdValidation: ValidationChain[] = [
   param('id')
     .isUUID().withMessage('Event ID must be a valid UUID')
 ];
+
+/**
+ * Validation rules for updating the overdue escalation policy
+ * PUT /api/contract-events/overdue-policy
+ */
+export const updateOverduePolicyValidation: ValidationChain[] = [
+  body('enabled')
+    .optional()
+    .isBoolean().withMessage('enabled must be a boolean'),
+
+  body('service_grace_days')
+    .optional()
+    .isInt({ min: 0, max: 90 }).withMessage('service_grace_days must be an integer between 0 and 90')
+    .toInt(),
+
+  body('billing_grace_days')
+    .optional()
+    .isInt({ min: 0, max: 90 }).withMessage('billing_grace_days must be an integer between 0 and 90')
+    .toInt(),
+
+  body('notify_assignee')
+    .optional()
+    .isBoolean().withMessage('notify_assignee must be a boolean'),
+
+  body('manager_escalation_days')
+    .optional()
+    .isInt({ min: 0, max: 365 }).withMessage('manager_escalation_days must be an integer between 0 and 365')
+    .toInt(),
+
+  body('manager_user_ids')
+    .optional()
+    .isArray({ max: 20 }).withMessage('manager_user_ids must be an array of at most 20 user IDs'),
+
+  body('manager_user_ids.*')
+    .isUUID().withMessage('Each manager_user_ids entry must be a valid UUID')
+];
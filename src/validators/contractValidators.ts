@@ -398,3 +398,227 @@ export const deleteContractValidation: ValidationChain[] = [
     .isString().withMessage('note must be a string')
     .isLength({ max: 2000 }).withMessage('note cannot exceed 2000 characters')
 ];
+
+// ============================================================================
+// AMENDMENTS
+// ============================================================================
+
+const DURATION_UNITS = ['days', 'months', 'years'];
+const CHANGE_SET_KEYS = [
+  'blocks_added', 'blocks_removed', 'total_value', 'duration_value',
+  'duration_unit', 'equipment_added', 'equipment_removed'
+];
+
+/**
+ * Validation rules for listing amendments
+ * GET /api/contracts/:id/amendments
+ */
+export const listAmendmentsValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID')
+];
+
+/**
+ * Validation rules for proposing an amendment
+ * POST /api/contracts/:id/amendments
+ */
+export const proposeAmendmentValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID'),
+
+  body('base_version')
+    .notEmpty().withMessage('base_version is required')
+    .isInt({ min: 1 }).withMessage('base_version must be a positive integer'),
+
+  body('change_set')
+    .isObject().withMessage('change_set must be an object')
+    .custom((value) => {
+      const keys = Object.keys(value || {});
+      return keys.length > 0 && keys.every((k) => CHANGE_SET_KEYS.includes(k));
+    }).withMessage(`change_set must contain one or more of: ${CHANGE_SET_KEYS.join(', ')}`),
+
+  body('change_set.blocks_added')
+    .optional()
+    .isArray().withMessage('blocks_added must be an array'),
+
+  body('change_set.blocks_added.*.block_id')
+    .isUUID().withMessage('Each added block must have a valid block_id'),
+
+  body('change_set.blocks_removed')
+    .optional()
+    .isArray().withMessage('blocks_removed must be an array'),
+
+  body('change_set.blocks_removed.*')
+    .isUUID().withMessage('blocks_removed must contain contract block UUIDs'),
+
+  body('change_set.total_value')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('total_value must be a non-negative number'),
+
+  body('change_set.duration_value')
+    .optional()
+    .isInt({ min: 1 }).withMessage('duration_value must be a positive integer'),
+
+  body('change_set.duration_unit')
+    .optional()
+    .isIn(DURATION_UNITS).withMessage(`duration_unit must be one of: ${DURATION_UNITS.join(', ')}`),
+
+  body('change_set.equipment_added')
+    .optional()
+    .isArray().withMessage('equipment_added must be an array'),
+
+  body('change_set.equipment_added.*.id')
+    .notEmpty().withMessage('Each added equipment item must have an id'),
+
+  body('change_set.equipment_added.*.item_name')
+    .notEmpty().withMessage('Each added equipment item must have an item_name'),
+
+  body('change_set.equipment_removed')
+    .optional()
+    .isArray().withMessage('equipment_removed must be an array'),
+
+  body('reason')
+    .optional()
+    .isString().withMessage('reason must be a string')
+    .isLength({ max: 2000 }).withMessage('reason cannot exceed 2000 characters'),
+
+  body('effective_date')
+    .optional()
+    .isISO8601({ strict: true }).withMessage('effective_date must be YYYY-MM-DD')
+];
+
+/**
+ * Validation rules for amendment actions
+ * POST /api/contracts/:id/amendments/:amendmentId/withdraw
+ */
+export const amendmentActionValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID'),
+
+  param('amendmentId')
+    .isUUID().withMessage('Amendment ID must be a valid UUID')
+];
+
+// ============================================================================
+// RENEWALS
+// ============================================================================
+
+/**
+ * Validation rules for the expiry scan
+ * GET /api/contracts/renewals
+ */
+export const listRenewalsValidation: ValidationChain[] = [
+  query('window_days')
+    .optional()
+    .isInt({ min: 1, max: 365 }).withMessage('window_days must be between 1 and 365'),
+
+  query('include_renewed')
+    .optional()
+    .isIn(['true', 'false']).withMessage('include_renewed must be true or false')
+];
+
+/**
+ * Validation rules for renewal settings
+ * PUT /api/contracts/renewals/settings
+ */
+export const updateRenewalSettingsValidation: ValidationChain[] = [
+  body('window_days')
+    .optional()
+    .isInt({ min: 1, max: 365 }).withMessage('window_days must be between 1 and 365'),
+
+  body('escalation_percent')
+    .optional()
+    .isFloat({ min: -100, max: 1000 }).withMessage('escalation_percent must be between -100 and 1000'),
+
+  body('notify_buyer')
+    .optional()
+    .isBoolean().withMessage('notify_buyer must be a boolean'),
+
+  body('auto_draft')
+    .optional()
+    .isBoolean().withMessage('auto_draft must be a boolean')
+];
+
+/**
+ * Validation rules for renewing a contract
+ * POST /api/contracts/:id/renew
+ */
+export const renewContractValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID'),
+
+  body('escalation_percent')
+    .optional()
+    .isFloat({ min: -100, max: 1000 }).withMessage('escalation_percent must be between -100 and 1000'),
+
+  body('start_date')
+    .optional()
+    .isISO8601().withMessage('start_date must be a valid ISO 8601 date'),
+
+  body('notify')
+    .optional()
+    .isBoolean().withMessage('notify must be a boolean'),
+
+  body('notification')
+    .optional()
+    .isObject().withMessage('notification must be an object')
+];
+
+// ============================================================================
+// CANCELLATION SETTLEMENT
+// ============================================================================
+
+/**
+ * Validation rules for settlement preview
+ * POST /api/contracts/:id/settlement/preview
+ */
+export const previewSettlementValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID'),
+
+  body('cancellation_date')
+    .optional()
+    .isISO8601({ strict: true }).withMessage('cancellation_date must be YYYY-MM-DD')
+];
+
+/**
+ * Validation rules for committing a settlement
+ * POST /api/contracts/:id/settlement
+ */
+export const commitSettlementValidation: ValidationChain[] = [
+  ...previewSettlementValidation,
+
+  body('preview_token')
+    .notEmpty().withMessage('preview_token is required — preview the settlement first')
+    .isString().withMessage('preview_token must be a string'),
+
+  body('note')
+    .optional()
+    .isString().withMessage('note must be a string')
+    .isLength({ max: 1000 }).withMessage('note cannot exceed 1000 characters')
+];
+
+// ============================================================================
+// EVENT RE-DERIVATION
+// ============================================================================
+
+/**
+ * Validation rules for re-deriving a contract's event schedule
+ * POST /api/contracts/:id/events/rederive
+ */
+export const rederiveEventsValidation: ValidationChain[] = [
+  param('id')
+    .isUUID().withMessage('Contract ID must be a valid UUID'),
+
+  body('version')
+    .notEmpty().withMessage('version is required for optimistic concurrency')
+    .isInt({ min: 1 }).withMessage('version must be a positive integer'),
+
+  body('shift')
+    .optional()
+    .isIn(['next', 'previous']).withMessage("shift must be 'next' or 'previous'"),
+
+  body('dry_run')
+    .optional()
+    .isBoolean().withMessage('dry_run must be a boolean')
+];
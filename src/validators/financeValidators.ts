@@ -3,7 +3,7 @@
 // express-validator chains for /api/finance routes.
 // ============================================================================
 
-import { body, param, ValidationChain } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
 
 export const invoiceActionValidation: ValidationChain[] = [
   param('invoiceId')
@@ -22,3 +22,252 @@ export const cancelInvoiceValidation: ValidationChain[] = [
     .isString().withMessage('reason must be a string')
     .isLength({ max: 500 }).withMessage('reason must be at most 500 characters')
 ];
+
+// ─────────────────────────────────────────────
+// Dunning
+// ─────────────────────────────────────────────
+
+const dunningStepRules = (required: boolean): ValidationChain[] => [
+  (required ? body('steps') : body('steps').optional())
+    .isArray({ min: 1, max: 12 }).withMessage('steps must be an array of 1-12 steps'),
+
+  body('steps.*.offset_days')
+    .isInt({ min: -60, max: 365 }).withMessage('offset_days must be an integer between -60 and 365')
+    .toInt(),
+
+  body('steps.*.channel')
+    .optional({ nullable: true })
+    .isIn(['email', 'whatsapp']).withMessage('channel must be email or whatsapp')
+];
+
+export const createDunningLadderValidation: ValidationChain[] = [
+  body('name')
+    .isString().withMessage('name must be a string')
+    .trim()
+    .isLength({ min: 1, max: 120 }).withMessage('name must be 1-120 characters'),
+
+  ...dunningStepRules(true),
+
+  body('is_default')
+    .optional()
+    .isBoolean().withMessage('is_default must be a boolean')
+];
+
+export const updateDunningLadderValidation: ValidationChain[] = [
+  param('ladderId')
+    .isUUID().withMessage('ladderId must be a valid UUID'),
+
+  body('name')
+    .optional()
+    .isString().withMessage('name must be a string')
+    .trim()
+    .isLength({ min: 1, max: 120 }).withMessage('name must be 1-120 characters'),
+
+  ...dunningStepRules(false),
+
+  body('is_default')
+    .optional()
+    .isBoolean().withMessage('is_default must be a boolean'),
+
+  body('is_active')
+    .optional()
+    .isBoolean().withMessage('is_active must be a boolean')
+];
+
+export const updateInvoiceDunningValidation: ValidationChain[] = [
+  param('invoiceId')
+    .isUUID().withMessage('invoiceId must be a valid UUID'),
+
+  body('status')
+    .optional()
+    .isIn(['active', 'paused', 'stopped']).withMessage('status must be active, paused or stopped'),
+
+  body('ladder_id')
+    .optional({ nullable: true })
+    .isUUID().withMessage('ladder_id must be a valid UUID')
+];
+
+export const runDunningValidation: ValidationChain[] = [
+  body('dry_run')
+    .optional()
+    .isBoolean().withMessage('dry_run must be a boolean')
+    .toBoolean()
+];
+
+// ─────────────────────────────────────────────
+// Receivables ageing
+// ─────────────────────────────────────────────
+
+export const receivablesAgeingValidation: ValidationChain[] = [
+  query('as_of')
+    .optional()
+    .isISO8601().withMessage('as_of must be a valid ISO date'),
+
+  query('currency')
+    .optional()
+    .isString()
+    .isLength({ min: 3, max: 3 }).withMessage('currency must be a 3-letter ISO code')
+];
+
+export const exportReceivablesAgeingValidation: ValidationChain[] = [
+  ...receivablesAgeingValidation,
+
+  query('format')
+    .optional()
+    .isIn(['csv', 'xlsx']).withMessage('format must be csv or xlsx'),
+
+  query('group_by')
+    .optional()
+    .isIn(['buyer', 'contract', 'invoice']).withMessage('group_by must be buyer, contract or invoice')
+];
+
+// ─────────────────────────────────────────────
+// Bank statement reconciliation
+// ─────────────────────────────────────────────
+
+// Multipart fields — runs after the upload middleware has parsed the form
+export const importBankStatementValidation: ValidationChain[] = [
+  body('format')
+    .optional()
+    .isIn(['csv', 'mt940']).withMessage('format must be csv or mt940'),
+
+  body('currency')
+    .optional()
+    .isString()
+    .isLength({ min: 3, max: 3 }).withMessage('currency must be a 3-letter ISO code')
+];
+
+export const bankStatementImportValidation: ValidationChain[] = [
+  param('importId')
+    .isUUID().withMessage('importId must be a valid UUID'),
+
+  query('status')
+    .optional()
+    .isIn(['unmatched', 'suggested', 'matching', 'matched', 'ignored'])
+    .withMessage('status must be unmatched, suggested, matching, matched or ignored')
+];
+
+export const bankStatementLineValidation: ValidationChain[] = [
+  param('lineId')
+    .isUUID().withMessage('lineId must be a valid UUID')
+];
+
+export const confirmBankStatementLineValidation: ValidationChain[] = [
+  ...bankStatementLineValidation,
+
+  body('invoice_id')
+    .isUUID().withMessage('invoice_id must be a valid UUID'),
+
+  body('amount')
+    .optional()
+    .isFloat({ gt: 0 }).withMessage('amount must be a positive number')
+    .toFloat()
+];
+
+// ─────────────────────────────────────────────
+// Accounting exports
+// ─────────────────────────────────────────────
+
+const LEDGER_NAME_KEYS = ['party_ledger', 'sales_ledger', 'credit_note_ledger', 'bank_ledger'];
+const LEDGER_NAME_MAPS = ['payment_method_ledgers', 'tax_ledgers', 'voucher_types'];
+
+export const saveExportSettingsValidation: ValidationChain[] = [
+  body('ledger_mapping')
+    .isObject().withMessage('ledger_mapping must be an object'),
+
+  body('ledger_mapping.company_name')
+    .optional({ nullable: true })
+    .isString().isLength({ max: 100 }).withMessage('company_name must be at most 100 characters'),
+
+  body('ledger_mapping.base_currency')
+    .optional()
+    .isString()
+    .isLength({ min: 3, max: 3 }).withMessage('base_currency must be a 3-letter ISO code'),
+
+  body('ledger_mapping.party_ledger_mode')
+    .optional()
+    .isIn(['buyer', 'fixed']).withMessage('party_ledger_mode must be buyer or fixed'),
+
+  ...LEDGER_NAME_KEYS.map((key) =>
+    body(`ledger_mapping.${key}`)
+      .optional()
+      .isString().trim()
+      .isLength({ min: 1, max: 100 }).withMessage(`${key} must be 1-100 characters`)
+  ),
+
+  ...LEDGER_NAME_MAPS.map((key) =>
+    body(`ledger_mapping.${key}`)
+      .optional()
+      .isObject().withMessage(`${key} must be an object of ledger names`)
+      .custom((value: Record<string, unknown>) =>
+        Object.values(value).every((v) => typeof v === 'string' && v.trim().length > 0 && v.length <= 100))
+      .withMessage(`${key} values must be ledger names of 1-100 characters`)
+  )
+];
+
+export const createAccountingExportValidation: ValidationChain[] = [
+  body('format')
+    .isIn(['tally_xml', 'journal_csv']).withMessage('format must be tally_xml or journal_csv'),
+
+  body('from')
+    .isISO8601().withMessage('from must be an ISO 8601 date'),
+
+  body('to')
+    .isISO8601().withMessage('to must be an ISO 8601 date'),
+
+  body('vouchers')
+    .optional()
+    .isArray({ min: 1 }).withMessage('vouchers must be a non-empty array'),
+
+  body('vouchers.*')
+    .isIn(['sales', 'receipt', 'credit_note']).withMessage('vouchers must be sales, receipt or credit_note'),
+
+  body('dry_run')
+    .optional()
+    .isBoolean().withMessage('dry_run must be a boolean')
+    .toBoolean()
+];
+
+export const accountingExportValidation: ValidationChain[] = [
+  param('exportId')
+    .isUUID().withMessage('exportId must be a valid UUID')
+];
+
+// ─────────────────────────────────────────────
+// FX rates
+// ─────────────────────────────────────────────
+
+const currencyCode = (field: string) =>
+  body(field)
+    .isString()
+    .matches(/^[A-Za-z]{3}$/).withMessage(`${field} must be a 3-letter ISO code`)
+    .toUpperCase();
+
+export const listFxRatesValidation: ValidationChain[] = [
+  query('currency')
+    .optional()
+    .matches(/^[A-Za-z]{3}$/).withMessage('currency must be a 3-letter ISO code')
+];
+
+export const saveFxRatesValidation: ValidationChain[] = [
+  body('rates')
+    .isArray({ min: 1, max: 1000 }).withMessage('rates must be an array of 1-1000 rates'),
+
+  currencyCode('rates.*.currency'),
+
+  body('rates.*.rate')
+    .isFloat({ gt: 0 }).withMessage('rate must be a positive number')
+    .toFloat(),
+
+  body('rates.*.effective_date')
+    .isISO8601().withMessage('effective_date must be an ISO 8601 date')
+];
+
+export const fxRateValidation: ValidationChain[] = [
+  param('rateId')
+    .isUUID().withMessage('rateId must be a valid UUID')
+];
+
+export const setBaseCurrencyValidation: ValidationChain[] = [
+  currencyCode('base_currency')
+];
@@ -6,6 +6,7 @@
 // ============================================================================
 
 import { body, query, param, ValidationChain } from 'express-validator';
+import { SLA_CRITICALITIES } from '../types/serviceSlaTypes';
 
 // Valid enum values
 const TICKET_STATUSES = ['created', 'assigned', 'in_progress', 'evidence_uploaded', 'completed', 'cancelled'];
@@ -14,6 +15,9 @@ const EVIDENCE_STATUSES = ['pending', 'uploaded', 'verified', 'rejected'];
 const EVIDENCE_ACTIONS = ['verify', 'reject', 'verify_otp', 'update_file', 'update_form'];
 const AUDIT_CATEGORIES = ['status', 'content', 'assignment', 'evidence', 'billing'];
 const ENTITY_TYPES = ['contract', 'service_ticket', 'evidence', 'event'];
+const SLA_TARGET_FIELDS = ['response_minutes', 'onsite_minutes', 'resolution_minutes'];
+// A year of working minutes is far beyond any real target
+const MAX_SLA_TARGET_MINUTES = 525600;
 
 // ============================================================================
 // TICKET: LIST
@@ -96,7 +100,15 @@ export const createTicketValidation: ValidationChain[] = [
 
   body('event_ids.*')
     .optional()
-    .isUUID().withMessage('Each event_id must be a valid UUID')
+    .isUUID().withMessage('Each event_id must be a valid UUID'),
+
+  body('criticality')
+    .optional()
+    .isIn(SLA_CRITICALITIES).withMessage(`criticality must be one of: ${SLA_CRITICALITIES.join(', ')}`),
+
+  body('asset_id')
+    .optional()
+    .isUUID().withMessage('asset_id must be a valid UUID')
 ];
 
 // ============================================================================
@@ -290,3 +302,125 @@ export const getAuditLogValidation: ValidationChain[] = [
     .optional()
     .isInt({ min: 1, max: 100 }).withMessage('per_page must be between 1 and 100')
 ];
+
+// ============================================================================
+// SLA: POLICIES
+// ============================================================================
+
+const isSlaTargets = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('targets must be an object keyed by criticality');
+  }
+  for (const [criticality, targets] of Object.entries(value as Record<string, any>)) {
+    if (!SLA_CRITICALITIES.includes(criticality as any)) {
+      throw new Error(`targets keys must be one of: ${SLA_CRITICALITIES.join(', ')}`);
+    }
+    if (!targets || typeof targets !== 'object' || Array.isArray(targets)) {
+      throw new Error(`targets.${criticality} must be an object`);
+    }
+    for (const [field, minutes] of Object.entries(targets)) {
+      if (!SLA_TARGET_FIELDS.includes(field)) {
+        throw new Error(`targets.${criticality} fields must be one of: ${SLA_TARGET_FIELDS.join(', ')}`);
+      }
+      if (minutes !== null && !(Number.isInteger(minutes) && (minutes as number) > 0 && (minutes as number) <= MAX_SLA_TARGET_MINUTES)) {
+        throw new Error(`targets.${criticality}.${field} must be a positive whole number of minutes (or null)`);
+      }
+    }
+  }
+  return true;
+};
+
+export const listSlaPoliciesValidation: ValidationChain[] = [
+  query('contract_id')
+    .optional()
+    .isUUID().withMessage('contract_id must be a valid UUID'),
+
+  query('block_id')
+    .optional()
+    .isUUID().withMessage('block_id must be a valid UUID'),
+
+  query('include_inactive')
+    .optional()
+    .isBoolean().withMessage('include_inactive must be true or false')
+];
+
+export const createSlaPolicyValidation: ValidationChain[] = [
+  body('name')
+    .isString().withMessage('name must be a string')
+    .trim()
+    .notEmpty().withMessage('name is required')
+    .isLength({ max: 120 }).withMessage('name cannot exceed 120 characters'),
+
+  body('contract_id')
+    .optional({ nullable: true })
+    .isUUID().withMessage('contract_id must be a valid UUID'),
+
+  body('block_id')
+    .optional({ nullable: true })
+    .isUUID().withMessage('block_id must be a valid UUID'),
+
+  body('targets')
+    .exists().withMessage('targets is required')
+    .custom(isSlaTargets),
+
+  body('business_hours_only')
+    .optional()
+    .isBoolean().withMessage('business_hours_only must be a boolean'),
+
+  body('notify_user_ids')
+    .optional()
+    .isArray({ max: 20 }).withMessage('notify_user_ids must be an array of at most 20 user IDs'),
+
+  body('notify_user_ids.*')
+    .isUUID().withMessage('Each notify_user_ids entry must be a valid UUID')
+];
+
+export const slaPolicyIdValidation: ValidationChain[] = [
+  param('policyId')
+    .isUUID().withMessage('policyId must be a valid UUID')
+];
+
+export const updateSlaPolicyValidation: ValidationChain[] = [
+  ...slaPolicyIdValidation,
+
+  body('name')
+    .optional()
+    .isString().withMessage('name must be a string')
+    .trim()
+    .notEmpty().withMessage('name cannot be empty')
+    .isLength({ max: 120 }).withMessage('name cannot exceed 120 characters'),
+
+  body('targets')
+    .optional()
+    .custom(isSlaTargets),
+
+  body('business_hours_only')
+    .optional()
+    .isBoolean().withMessage('business_hours_only must be a boolean'),
+
+  body('notify_user_ids')
+    .optional()
+    .isArray({ max: 20 }).withMessage('notify_user_ids must be an array of at most 20 user IDs'),
+
+  body('notify_user_ids.*')
+    .isUUID().withMessage('Each notify_user_ids entry must be a valid UUID')
+];
+
+// ============================================================================
+// SLA: COMPLIANCE
+// ============================================================================
+
+export const getSlaComplianceValidation: ValidationChain[] = [
+  query('date_from')
+    .notEmpty().withMessage('date_from is required')
+    .isISO8601({ strict: true }).withMessage('date_from must be a date (YYYY-MM-DD)'),
+
+  query('date_to')
+    .notEmpty().withMessage('date_to is required')
+    .isISO8601({ strict: true }).withMessage('date_to must be a date (YYYY-MM-DD)')
+    .custom((value, { req }) => String(value) >= String(req.query?.date_from || '')).withMessage('date_to cannot be before date_from'),
+
+  query('contract_id')
+    .optional()
+    .isUUID().withMessage('contract_id must be a valid UUID')
+];
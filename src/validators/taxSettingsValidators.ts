@@ -123,6 +123,76 @@ export const validateUpdateTaxRateRequest: ValidationChain[] = [
     }),
 ];
 
+/**
+ * Validation for a tax calculation request
+ */
+export const validateTaxCalculationRequest: ValidationChain[] = [
+  body()
+    .custom((value) => {
+      const hasAmount = value && value.amount !== undefined && value.amount !== null;
+      const hasLines = value && Array.isArray(value.lines) && value.lines.length > 0;
+      if (!hasAmount && !hasLines) {
+        throw new Error('Either amount or a non-empty lines array is required');
+      }
+      return true;
+    }),
+
+  body('amount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Amount must be a non-negative number')
+    .toFloat(),
+
+  body('lines')
+    .optional()
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Lines must be an array of 1 to 500 items'),
+
+  body('lines.*.amount')
+    .isFloat({ min: 0 })
+    .withMessage('Each line amount must be a non-negative number')
+    .toFloat(),
+
+  body(['tax_rate_id', 'lines.*.tax_rate_id'])
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage('Tax rate ID must be a valid UUID'),
+
+  body(['tax_rate', 'lines.*.tax_rate'])
+    .optional({ nullable: true })
+    .isFloat({ min: TAX_CONSTANTS.VALIDATION.MIN_RATE, max: TAX_CONSTANTS.VALIDATION.MAX_RATE })
+    .withMessage(`Rate must be between ${TAX_CONSTANTS.VALIDATION.MIN_RATE} and ${TAX_CONSTANTS.VALIDATION.MAX_RATE}`)
+    .toFloat(),
+
+  body('use_default_rate')
+    .optional()
+    .isBoolean()
+    .withMessage('use_default_rate must be a boolean value')
+    .toBoolean(),
+
+  body('display_mode')
+    .optional()
+    .isIn([TAX_CONSTANTS.DISPLAY_MODES.INCLUDING_TAX, TAX_CONSTANTS.DISPLAY_MODES.EXCLUDING_TAX, TAX_CONSTANTS.DISPLAY_MODES.NO_TAX])
+    .withMessage(`Display mode must be one of "${TAX_CONSTANTS.DISPLAY_MODES.INCLUDING_TAX}", "${TAX_CONSTANTS.DISPLAY_MODES.EXCLUDING_TAX}", or "${TAX_CONSTANTS.DISPLAY_MODES.NO_TAX}"`),
+
+  body('buyer_contact_id')
+    .optional()
+    .isUUID()
+    .withMessage('Buyer contact ID must be a valid UUID'),
+
+  body('buyer_state_code')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Buyer state code must be a string of at most 50 characters'),
+
+  body('buyer_country_code')
+    .optional()
+    .isString()
+    .isLength({ min: 2, max: 5 })
+    .withMessage('Buyer country code must be 2 to 5 characters'),
+];
+
 /**
  * Validation for tax rate ID parameter
  */
@@ -360,6 +430,12 @@ export const getTaxRatesValidation = [
   handleValidationErrors
 ];
 
+export const calculateTaxValidation = [
+  validateHeaders,
+  ...validateTaxCalculationRequest,
+  handleValidationErrors
+];
+
 /**
  * Generic validation for GET endpoints
  */
@@ -1,5 +1,6 @@
 // src/validators/tenantProfile.ts
 import { body, ValidationChain } from 'express-validator';
+import { isValidTimeZone } from '../services/contractEventsDerivationService';
 
 /**
  * Validation rules for creating a tenant profile
@@ -94,7 +95,11 @@ export const createTenantProfileValidation: ValidationChain[] = [
   body('contact_last_name')
     .optional()
     .isString().withMessage('Contact last name must be a string')
-    .isLength({ max: 100 }).withMessage('Contact last name must be at most 100 characters')
+    .isLength({ max: 100 }).withMessage('Contact last name must be at most 100 characters'),
+
+  body('timezone')
+    .optional()
+    .custom((value) => isValidTimeZone(value)).withMessage('Timezone must be a valid IANA time zone (e.g. Asia/Dubai)')
 ];
 
 /**
@@ -191,5 +196,9 @@ export const updateTenantProfileValidation: ValidationChain[] = [
   body('contact_last_name')
     .optional()
     .isString().withMessage('Contact last name must be a string')
-    .isLength({ max: 100 }).withMessage('Contact last name must be at most 100 characters')
+    .isLength({ max: 100 }).withMessage('Contact last name must be at most 100 characters'),
+
+  body('timezone')
+    .optional()
+    .custom((value) => isValidTimeZone(value)).withMessage('Timezone must be a valid IANA time zone (e.g. Asia/Dubai)')
 ];
\ No newline at end of file
@@ -118,4 +118,14 @@ export const assignRoleValidation: ValidationChain[] = [
   body('role_id')
     .notEmpty().withMessage('Role ID is required')
     .isUUID().withMessage('Role ID must be a valid UUID')
-];
\ No newline at end of file
+];
+
+/**
+ * Validation rules for replacing a role's permissions
+ */
+export const rolePermissionsValidation: ValidationChain[] = [
+  body('permissions')
+    .isArray({ min: 1 }).withMessage('Permissions must be a non-empty array'),
+  body('permissions.*')
+    .isString().withMessage('Each permission must be a string')
+];